@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { auditLogsToCsv, findAuditLogs, parseAuditDetails } from '@/lib/audit'
+
+const MAX_CSV_ROWS = 10000
+
+const dateParam = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date').transform(value => new Date(value))
+
+const AuditQuerySchema = z.object({
+  userId: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+  resource: z.string().min(1).optional(),
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  format: z.enum(['json', 'csv']).default('json')
+})
+
+// GET /api/admin/audit - Query the audit log (admins only); ?format=csv exports the matching
+// entries in pages of MAX_CSV_ROWS, with X-Total-Count and X-Next-Page headers when there are more
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true }
+    })
+
+    if (user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    const { format, ...query } = AuditQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    if (format === 'csv') {
+      const { logs, total } = await findAuditLogs({ ...query, limit: MAX_CSV_ROWS })
+      const totalPages = Math.ceil(total / MAX_CSV_ROWS)
+      const part = totalPages > 1 ? `-part-${query.page}-of-${totalPages}` : ''
+      const headers: Record<string, string> = {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}${part}.csv"`,
+        'X-Total-Count': String(total)
+      }
+      if (query.page < totalPages) {
+        headers['X-Next-Page'] = String(query.page + 1)
+      }
+      return new Response(auditLogsToCsv(logs), { headers })
+    }
+
+    const { logs, total } = await findAuditLogs(query)
+
+    return NextResponse.json({
+      logs: logs.map(log => ({ ...log, details: parseAuditDetails(log.details) })),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit)
+      }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid audit query',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error querying audit log:', error)
+    return NextResponse.json(
+      { error: 'Failed to query audit log' },
+      { status: 500 }
+    )
+  }
+}
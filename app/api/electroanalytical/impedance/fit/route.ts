@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ImpedanceEngine, type ImpedancePoint } from '@/lib/impedance-analysis'
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const FitRequestSchema = z.object({
+  circuit: z.string().trim().min(1).max(500),
+
+  // Exactly one data source: parsed points or a potentiostat export
+  data: z.array(z.object({
+    frequency: z.number(), // Hz
+    real: z.number(), // Z' (Ω)
+    imaginary: z.number() // Z'' (Ω)
+  })).max(5000).optional(),
+  csv: z.string().max(1_000_000).optional(),
+
+  initialParameters: z.record(z.number().positive()).optional(),
+  fixedParameters: z.record(z.number().positive()).optional(),
+  electrodes: z.object({
+    anode: z.array(z.string()).optional(),
+    cathode: z.array(z.string()).optional()
+  }).optional()
+}).refine(
+  request => (request.data === undefined) !== (request.csv === undefined),
+  { message: 'Provide exactly one of data or csv', path: ['data'] }
+)
+
+// ============================================================================
+// API ROUTE HANDLERS
+// ============================================================================
+
+// POST /api/electroanalytical/impedance/fit - CNLS fit of a circuit to measured impedance
+export async function POST(request: NextRequest) {
+  try {
+    const startTime = Date.now()
+
+    const body = await request.json()
+    const validatedInput = FitRequestSchema.parse(body)
+
+    const data: ImpedancePoint[] = validatedInput.csv !== undefined
+      ? ImpedanceEngine.parseCsv(validatedInput.csv)
+      : validatedInput.data!
+
+    const fit = ImpedanceEngine.fit({
+      circuit: validatedInput.circuit,
+      data,
+      initialParameters: validatedInput.initialParameters,
+      fixedParameters: validatedInput.fixedParameters,
+      electrodes: validatedInput.electrodes
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { fit },
+      metadata: {
+        apiVersion: '1.0',
+        processingTime: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+        points: data.length
+      }
+    })
+
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Impedance fit API error:', error)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: err.code
+        }))
+      }, { status: 400 })
+    }
+
+    if (error instanceof Error && error.message.startsWith('Invalid ')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Impedance data error',
+        message: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Fit failed'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { CIRCUIT_PRESETS, ImpedanceEngine } from '@/lib/impedance-analysis'
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const SimulationRequestSchema = z.object({
+  circuit: z.string().trim().min(1).max(500),
+  parameters: z.record(z.number().positive()),
+
+  // Explicit frequencies, or a logarithmic sweep
+  frequencies: z.array(z.number().positive()).min(1).max(5000).optional(),
+  range: z.object({
+    minimum: z.number().positive().default(0.01), // Hz
+    maximum: z.number().positive().default(100000), // Hz
+    pointsPerDecade: z.number().int().min(1).max(100).default(10)
+  }).default({})
+})
+
+// ============================================================================
+// API ROUTE HANDLERS
+// ============================================================================
+
+// POST /api/electroanalytical/impedance - Nyquist/Bode spectrum of an equivalent circuit
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validatedInput = SimulationRequestSchema.parse(body)
+    const { circuit, parameters, range } = validatedInput
+
+    const frequencies = validatedInput.frequencies
+      ?? ImpedanceEngine.logFrequencies(range.minimum, range.maximum, range.pointsPerDecade)
+    const node = ImpedanceEngine.parseCircuit(circuit)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        circuit,
+        parameterNames: ImpedanceEngine.parameterNames(node),
+        spectrum: ImpedanceEngine.simulate(node, parameters, frequencies),
+        resistances: ImpedanceEngine.resistances(node, parameters)
+      },
+      metadata: {
+        apiVersion: '1.0',
+        timestamp: new Date().toISOString(),
+        points: frequencies.length
+      }
+    })
+
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Impedance simulation API error:', error)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: err.code
+        }))
+      }, { status: 400 })
+    }
+
+    if (error instanceof Error && error.message.startsWith('Invalid ')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Circuit error',
+        message: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Simulation failed'
+    }, { status: 500 })
+  }
+}
+
+// GET /api/electroanalytical/impedance - Circuit presets
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    data: CIRCUIT_PRESETS.map(preset => ({
+      ...preset,
+      parameterNames: ImpedanceEngine.parameterNames(ImpedanceEngine.parseCircuit(preset.circuit))
+    })),
+    metadata: {
+      apiVersion: '1.0',
+      timestamp: new Date().toISOString()
+    }
+  })
+}
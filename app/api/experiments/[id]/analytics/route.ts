@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { parseParameters } from '@/lib/experiments'
+import { ExperimentAnalyzer, experimentAnalyticsToCsv } from '@/lib/experiment-analytics'
+
+const AnalyticsQuerySchema = z.object({
+  rollingWindowMinutes: z.coerce.number().positive().max(10080).optional(),
+  steadyStateWindowHours: z.coerce.number().positive().max(720).optional(),
+  steadyStateCv: z.coerce.number().positive().max(1).optional(),
+  format: z.enum(['json', 'csv']).default('json')
+})
+
+// Readings per query while scanning the series
+const SCAN_BATCH = 5000
+
+// GET /api/experiments/[id]/analytics - Efficiency, energy and time-series metrics; ?format=csv for the report
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+
+    const query = AnalyticsQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const experiment = await prisma.experiment.findUnique({
+      where: { id },
+      select: { name: true, userId: true, isPublic: true, parameters: true }
+    })
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!experiment.isPublic && experiment.userId !== session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const { format, ...options } = query
+    const measurementCount = await prisma.measurement.count({ where: { experimentId: id } })
+    const analyzer = new ExperimentAnalyzer(parseParameters(experiment.parameters), options, measurementCount)
+
+    // Keyset pages on (timestamp, id), so the series is never held in memory at once
+    let cursor: string | undefined
+    for (;;) {
+      const batch = await prisma.measurement.findMany({
+        where: { experimentId: id },
+        select: { id: true, timestamp: true, voltage: true, current: true, power: true, substrate: true },
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        take: SCAN_BATCH,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      })
+      analyzer.add(batch)
+      if (batch.length < SCAN_BATCH) break
+      cursor = batch[batch.length - 1].id
+    }
+    const analytics = analyzer.result()
+
+    if (format === 'csv') {
+      const filename = `${experiment.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'experiment'}-report.csv`
+      return new Response(experimentAnalyticsToCsv(analytics, experiment.name), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`
+        }
+      })
+    }
+
+    return NextResponse.json(analytics)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid analytics options',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error computing experiment analytics:', error)
+    return NextResponse.json(
+      { error: 'Failed to compute experiment analytics' },
+      { status: 500 }
+    )
+  }
+}
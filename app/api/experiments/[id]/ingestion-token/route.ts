@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { generateIngestionToken, hashIngestionToken } from '@/lib/experiment-feed'
+import { recordAudit } from '@/lib/audit'
+
+async function findOwnedExperiment(id: string, userId: string | undefined) {
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const experiment = await prisma.experiment.findUnique({
+    where: { id },
+    select: { userId: true }
+  })
+
+  if (!experiment) {
+    return NextResponse.json(
+      { error: 'Experiment not found' },
+      { status: 404 }
+    )
+  }
+
+  if (experiment.userId !== userId) {
+    return NextResponse.json(
+      { error: 'You can only manage data loggers for your own experiments' },
+      { status: 403 }
+    )
+  }
+
+  return null
+}
+
+// POST /api/experiments/[id]/ingestion-token - Issue a logger token, replacing any previous one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+
+    const denied = await findOwnedExperiment(id, session?.user?.id)
+    if (denied) return denied
+
+    const token = generateIngestionToken()
+    await prisma.experiment.update({
+      where: { id },
+      data: { ingestionTokenHash: hashIngestionToken(token) }
+    })
+
+    await recordAudit(request, {
+      userId: session?.user?.id ?? null,
+      action: 'experiment.ingestion_token.issue',
+      resource: `experiment:${id}`,
+      summary: 'Issued data logger token'
+    })
+
+    // The plain token is only ever returned here
+    return NextResponse.json({
+      token,
+      endpoint: `/api/experiments/${id}/stream`
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error issuing ingestion token:', error)
+    return NextResponse.json(
+      { error: 'Failed to issue ingestion token' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/experiments/[id]/ingestion-token - Revoke the logger token
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+
+    const denied = await findOwnedExperiment(id, session?.user?.id)
+    if (denied) return denied
+
+    await prisma.experiment.update({
+      where: { id },
+      data: { ingestionTokenHash: null }
+    })
+
+    await recordAudit(request, {
+      userId: session?.user?.id ?? null,
+      action: 'experiment.ingestion_token.revoke',
+      resource: `experiment:${id}`,
+      summary: 'Revoked data logger token'
+    })
+
+    return NextResponse.json({ message: 'Ingestion token revoked' })
+  } catch (error) {
+    console.error('Error revoking ingestion token:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke ingestion token' },
+      { status: 500 }
+    )
+  }
+}
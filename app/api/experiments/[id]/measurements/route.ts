@@ -0,0 +1,331 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { parseParameters } from '@/lib/experiments'
+import {
+  MEASUREMENT_FIELDS,
+  MeasurementFileError,
+  chunk,
+  parseMeasurementFile,
+  withoutStoredDuplicates,
+  type ColumnMapping
+} from '@/lib/measurement-ingestion'
+import { measurementHour } from '@/lib/model-accuracy'
+import { recordAudit } from '@/lib/audit'
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024
+
+const MappingSchema = z.record(z.enum(MEASUREMENT_FIELDS))
+
+// Rows read per query while thinning a long series
+const SCAN_BATCH = 5000
+
+const MEASUREMENT_SELECT = {
+  id: true,
+  timestamp: true,
+  voltage: true,
+  current: true,
+  power: true,
+  temperature: true,
+  ph: true,
+  substrate: true
+}
+
+interface StoredMeasurement {
+  id: string
+  timestamp: Date
+  voltage: number
+  current: number
+  power: number
+  temperature: number
+  ph: number
+  substrate: number | null
+}
+
+// A thinned series and how far through the stored rows it was built
+interface ThinnedSeries {
+  stride: number
+  scanned: number // Rows read, in (timestamp, id) order
+  points: StoredMeasurement[] // Every stride-th row
+  last: StoredMeasurement | null
+}
+
+// Recently thinned series per experiment, range and limit, newest last
+const MAX_CACHED_SERIES = 20
+const seriesCache = new Map<string, ThinnedSeries>()
+
+function cacheSeries(key: string, series: ThinnedSeries) {
+  seriesCache.delete(key)
+  seriesCache.set(key, series)
+  if (seriesCache.size > MAX_CACHED_SERIES) seriesCache.delete(seriesCache.keys().next().value!)
+}
+
+// GET /api/experiments/[id]/measurements - Stored series, evenly thinned to ?limit points
+//
+// Long series are read in keyset-paged batches and thinned as they arrive, so
+// neither the server's memory nor the response grows with the series length.
+// The thinned series is cached; a later request only reads rows stored after
+// it, unless readings were inserted earlier in the series or the stride changed.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(10000, Math.max(1, parseInt(searchParams.get('limit') || '2000') || 2000))
+
+    const experiment = await prisma.experiment.findUnique({
+      where: { id },
+      select: { userId: true, isPublic: true }
+    })
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!experiment.isPublic && experiment.userId !== session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const timestamp: { gte?: Date; lte?: Date } = {}
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+    if (from) timestamp.gte = new Date(from)
+    if (to) timestamp.lte = new Date(to)
+    if (Object.values(timestamp).some(date => Number.isNaN(date.getTime()))) {
+      return NextResponse.json(
+        { error: 'from and to must be ISO dates' },
+        { status: 400 }
+      )
+    }
+
+    const where = { experimentId: id, ...(from || to ? { timestamp } : {}) }
+    const total = await prisma.measurement.count({ where })
+
+    // Keep every stride-th point plus the last so the chart still ends at the newest reading
+    const stride = Math.max(1, Math.ceil(total / limit))
+    const cacheKey = [id, from, to, limit].join('|')
+    let cached = seriesCache.get(cacheKey)
+    if (cached && (cached.stride !== stride || !cached.last || cached.scanned > total)) cached = undefined
+    if (cached?.last) {
+      // Resume only when every row up to the cached position is the one that was read
+      const { timestamp: lastTime, id: lastId } = cached.last
+      const upToLast = await prisma.measurement.count({
+        where: {
+          AND: [where, { OR: [{ timestamp: { lt: lastTime } }, { timestamp: lastTime, id: { lte: lastId } }] }]
+        }
+      })
+      if (upToLast !== cached.scanned) cached = undefined
+    }
+
+    const points: StoredMeasurement[] = cached ? [...cached.points] : []
+    let last: StoredMeasurement | null = cached?.last ?? null
+    let cursor: string | null = last?.id ?? null
+    let index = cached?.scanned ?? 0
+    while (index < total && points.length <= limit) {
+      const batch: StoredMeasurement[] = await prisma.measurement.findMany({
+        where,
+        select: MEASUREMENT_SELECT,
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        take: stride === 1 ? limit : SCAN_BATCH,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      })
+      for (const row of batch) {
+        if (index % stride === 0) points.push(row)
+        index++
+      }
+      if (batch.length > 0) {
+        last = batch[batch.length - 1]
+        cursor = last.id
+      }
+      if (stride === 1 || batch.length < SCAN_BATCH) break
+    }
+    cacheSeries(cacheKey, { stride, scanned: index, points: [...points], last })
+    if (last && points[points.length - 1] !== last) points.push(last)
+
+    return NextResponse.json({
+      measurements: points.slice(0, limit + 1).map(({ id: _id, ...row }) => row),
+      total,
+      sampled: stride > 1
+    })
+  } catch (error) {
+    console.error('Error fetching measurements:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch measurements' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/experiments/[id]/measurements - Ingest a CSV/TSV or instrument export
+//
+// Accepts multipart form data (file, optional mapping JSON and dryRun) or the
+// raw file as the request body with ?dryRun=true. Rows whose timestamp is
+// already stored for the experiment are skipped, so re-uploading a growing
+// logger file only adds the new readings.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const experiment = await prisma.experiment.findUnique({
+      where: { id },
+      select: { userId: true, createdAt: true, parameters: true }
+    })
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (experiment.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You can only upload data to your own experiments' },
+        { status: 403 }
+      )
+    }
+
+    const declaredSize = parseInt(request.headers.get('content-length') || '0')
+    if (declaredSize > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: 'File is larger than 50 MB' },
+        { status: 413 }
+      )
+    }
+
+    let text: string
+    let mapping: ColumnMapping | undefined
+    let dryRun = new URL(request.url).searchParams.get('dryRun') === 'true'
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await request.formData()
+      const file = form.get('file')
+      if (!file || typeof file === 'string') {
+        return NextResponse.json(
+          { error: 'Missing file' },
+          { status: 400 }
+        )
+      }
+      text = await file.text()
+      const rawMapping = form.get('mapping')
+      if (typeof rawMapping === 'string' && rawMapping) mapping = MappingSchema.parse(JSON.parse(rawMapping))
+      dryRun = dryRun || form.get('dryRun') === 'true'
+    } else {
+      text = await request.text()
+    }
+
+    if (text.length > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: 'File is larger than 50 MB' },
+        { status: 413 }
+      )
+    }
+
+    // Temperature and pH columns are optional when the experiment records setpoints
+    const setpoints = parseParameters(experiment.parameters)
+    const numeric = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined)
+    const result = parseMeasurementFile(text, {
+      mapping,
+      startTime: experiment.createdAt,
+      defaults: {
+        temperature: numeric(setpoints.temperature),
+        ph: numeric(setpoints.ph),
+        substrate: numeric(setpoints.substrateConcentration)
+      }
+    })
+
+    let first = Infinity
+    let last = -Infinity
+    for (const row of result.measurements) {
+      first = Math.min(first, row.timestamp.getTime())
+      last = Math.max(last, row.timestamp.getTime())
+    }
+
+    // Drop readings already stored for the experiment
+    const { rows, duplicates: existingDuplicates } = await withoutStoredDuplicates(id, result.measurements)
+
+    let inserted = 0
+    if (!dryRun) {
+      for (const batch of chunk(rows)) {
+        const { count } = await prisma.measurement.createMany({
+          data: batch.map(row => ({ ...row, experimentId: id, hour: measurementHour(row.timestamp) }))
+        })
+        inserted += count
+      }
+
+      await recordAudit(request, {
+        userId: session.user.id,
+        action: 'experiment.measurements.upload',
+        resource: `experiment:${id}`,
+        summary: `Uploaded ${inserted} measurements (${result.format})`,
+        metadata: {
+          totalRows: result.totalRows,
+          inserted,
+          rejectedRows: result.rejectedRows,
+          range: rows.length > 0 ? { from: new Date(first).toISOString(), to: new Date(last).toISOString() } : null
+        }
+      })
+    }
+
+    return NextResponse.json({
+      dryRun,
+      format: result.format,
+      mapping: result.mapping,
+      units: result.units,
+      totalRows: result.totalRows,
+      inserted,
+      accepted: rows.length,
+      duplicates: {
+        inFile: result.duplicateRows,
+        alreadyStored: existingDuplicates
+      },
+      rejectedRows: result.rejectedRows,
+      errors: result.errors,
+      warnings: result.warnings,
+      range: result.measurements.length > 0
+        ? { from: new Date(first).toISOString(), to: new Date(last).toISOString() }
+        : null
+    })
+  } catch (error) {
+    if (error instanceof MeasurementFileError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid column mapping' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error ingesting measurements:', error)
+    return NextResponse.json(
+      { error: 'Failed to ingest measurements' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { loadPredictionModel, parseParameters } from '@/lib/experiments'
+import { parsePrediction, predictExperiment, predictionModelLabel, ResidualBins, residualMetrics } from '@/lib/model-accuracy'
+import { recordAudit } from '@/lib/audit'
+
+const ResidualQuerySchema = z.object({
+  binMinutes: z.coerce.number().int().min(1).max(1440).default(60),
+  skipHours: z.coerce.number().min(0).max(720).default(0)
+})
+
+// Readings per query while binning the series
+const SCAN_BATCH = 5000
+
+// GET /api/experiments/[id]/prediction - Setup-time prediction against binned measured power
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+
+    const options = ResidualQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const experiment = await prisma.experiment.findUnique({
+      where: { id },
+      select: { userId: true, isPublic: true, prediction: true }
+    })
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!experiment.isPublic && experiment.userId !== session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const prediction = parsePrediction(experiment.prediction)
+    if (!prediction) {
+      return NextResponse.json({ prediction: null, ...options, points: [], metrics: residualMetrics([]) })
+    }
+
+    // Keyset pages on (timestamp, id), binned as they arrive
+    const bins = new ResidualBins(options)
+    let cursor: string | undefined
+    for (;;) {
+      const batch = await prisma.measurement.findMany({
+        where: { experimentId: id },
+        select: { id: true, timestamp: true, power: true },
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        take: SCAN_BATCH,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      })
+      bins.add(batch)
+      if (batch.length < SCAN_BATCH) break
+      cursor = batch[batch.length - 1].id
+    }
+
+    const points = bins.points(prediction)
+    return NextResponse.json({ prediction, ...options, points, metrics: residualMetrics(points) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid residual options',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error computing prediction residuals:', error)
+    return NextResponse.json(
+      { error: 'Failed to compute prediction residuals' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/experiments/[id]/prediction - Record the prediction for an experiment set up without one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const experiment = await prisma.experiment.findUnique({
+      where: { id },
+      select: { userId: true, parameters: true, prediction: true, design: { select: { type: true } } }
+    })
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (experiment.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You can only record predictions for your own experiments' },
+        { status: 403 }
+      )
+    }
+
+    // The prediction is frozen once made so later parameter edits cannot hide model error
+    if (parsePrediction(experiment.prediction)) {
+      return NextResponse.json(
+        { error: 'A prediction is already recorded for this experiment' },
+        { status: 409 }
+      )
+    }
+
+    const result = predictExperiment(
+      parseParameters(experiment.parameters),
+      experiment.design?.type ?? null,
+      await loadPredictionModel()
+    )
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: `Parameters are outside the prediction model: ${result.error}` },
+        { status: 400 }
+      )
+    }
+
+    await prisma.experiment.update({
+      where: { id },
+      data: { prediction: JSON.stringify(result.prediction) }
+    })
+
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'experiment.prediction.snapshot',
+      resource: `experiment:${id}`,
+      summary: `Recorded ${predictionModelLabel(result.prediction)} prediction`,
+      metadata: { predictedPower: result.prediction.predictedPower, modelVersion: result.prediction.modelVersion }
+    })
+
+    return NextResponse.json(result.prediction, { status: 201 })
+  } catch (error) {
+    console.error('Error recording prediction:', error)
+    return NextResponse.json(
+      { error: 'Failed to record prediction' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { feedStatus } from '@/lib/experiment-feed'
+import {
+  UpdateExperimentSchema,
+  parseParameters,
+  serializeExperiment,
+  type ExperimentStats
+} from '@/lib/experiments'
+import { auditChanges, recordAudit } from '@/lib/audit'
+
+const EXPERIMENT_INCLUDE = {
+  design: { select: { id: true, name: true, type: true } },
+  user: { select: { id: true, name: true } }
+}
+
+// GET /api/experiments/[id] - Get an experiment with its most recent measurements
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const measurementLimit = Math.min(5000, Math.max(0, parseInt(searchParams.get('measurements') || '500') || 0))
+
+    const experiment = await prisma.experiment.findUnique({
+      where: { id },
+      include: {
+        ...EXPERIMENT_INCLUDE,
+        measurements: {
+          orderBy: { timestamp: 'desc' },
+          take: measurementLimit
+        }
+      }
+    })
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      )
+    }
+
+    // Check access permissions
+    if (!experiment.isPublic && experiment.userId !== session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const aggregate = await prisma.measurement.aggregate({
+      where: { experimentId: id },
+      _count: { _all: true },
+      _avg: { power: true },
+      _max: { power: true }
+    })
+    const stats: ExperimentStats = {
+      totalMeasurements: aggregate._count._all,
+      averagePower: aggregate._avg.power ?? 0,
+      maxPower: aggregate._max.power ?? 0
+    }
+
+    const summary = serializeExperiment(experiment, stats)
+    return NextResponse.json({
+      ...summary,
+      // The fetched readings give the logger's actual cadence
+      feed: feedStatus({
+        status: summary.status,
+        hasLogger: summary.feed.hasLogger,
+        lastMeasurementAt: experiment.lastMeasurementAt ?? null,
+        recentTimestamps: experiment.measurements.slice(0, 20).map((row: { timestamp: Date }) => row.timestamp),
+        parameters: summary.parameters
+      }),
+      isOwner: experiment.userId === session?.user?.id,
+      // Oldest first for charting
+      measurements: [...experiment.measurements].reverse()
+    })
+  } catch (error) {
+    console.error('Error fetching experiment:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch experiment' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/experiments/[id] - Rename, change status, share or update parameters
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // Check if user owns the experiment
+    const existing = await prisma.experiment.findUnique({
+      where: { id },
+      select: { userId: true, name: true, status: true, isPublic: true, parameters: true }
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existing.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You can only edit your own experiments' },
+        { status: 403 }
+      )
+    }
+
+    const data = UpdateExperimentSchema.parse(await request.json())
+
+    // Update only provided fields; parameters are merged key by key
+    const updateData: any = {}
+    if (data.name !== undefined) updateData.name = data.name
+    if (data.status !== undefined) updateData.status = data.status
+    if (data.isPublic !== undefined) updateData.isPublic = data.isPublic
+    if (data.parameters !== undefined) {
+      updateData.parameters = JSON.stringify({ ...parseParameters(existing.parameters), ...data.parameters })
+    }
+
+    const experiment = await prisma.experiment.update({
+      where: { id },
+      data: updateData,
+      include: EXPERIMENT_INCLUDE
+    })
+
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'experiment.update',
+      resource: `experiment:${id}`,
+      changes: auditChanges(existing, experiment, Object.keys(updateData))
+    })
+
+    return NextResponse.json(serializeExperiment(experiment))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid experiment update',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating experiment:', error)
+    return NextResponse.json(
+      { error: 'Failed to update experiment' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/experiments/[id] - Archive an experiment; its measurements are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const existing = await prisma.experiment.findUnique({
+      where: { id },
+      select: { userId: true, status: true }
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existing.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You can only archive your own experiments' },
+        { status: 403 }
+      )
+    }
+
+    const experiment = await prisma.experiment.update({
+      where: { id },
+      data: { status: 'ARCHIVED' },
+      include: EXPERIMENT_INCLUDE
+    })
+
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'experiment.archive',
+      resource: `experiment:${id}`,
+      changes: auditChanges(existing, experiment, ['status'])
+    })
+
+    return NextResponse.json(serializeExperiment(experiment))
+  } catch (error) {
+    console.error('Error archiving experiment:', error)
+    return NextResponse.json(
+      { error: 'Failed to archive experiment' },
+      { status: 500 }
+    )
+  }
+}
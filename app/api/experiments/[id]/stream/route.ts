@@ -0,0 +1,322 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { parseParameters } from '@/lib/experiments'
+import { completeElectrical, withoutStoredDuplicates } from '@/lib/measurement-ingestion'
+import { measurementHour } from '@/lib/model-accuracy'
+import {
+  LivePayloadSchema,
+  bearerToken,
+  feedStatus,
+  hashIngestionToken,
+  publishMeasurements,
+  subscribeToMeasurements,
+  type LiveMeasurement
+} from '@/lib/experiment-feed'
+
+// Catches readings written by other server instances and refreshes the feed status
+const POLL_INTERVAL_MS = 5000
+const RECENT_READINGS = 20
+// Readings per query, and queries per poll, when catching up on a large batch
+const POLL_PAGE = 1000
+const MAX_POLL_PAGES = 20
+
+const LIVE_SELECT = {
+  timestamp: true,
+  voltage: true,
+  current: true,
+  power: true,
+  temperature: true,
+  ph: true,
+  substrate: true
+}
+
+type LiveRow = Omit<LiveMeasurement, 'timestamp'> & { timestamp: Date }
+
+function toLiveMeasurement(row: LiveRow): LiveMeasurement {
+  return { ...row, timestamp: row.timestamp.toISOString() }
+}
+
+// GET /api/experiments/[id]/stream - Server-Sent Events with new readings and feed status
+//
+// Events: "measurement" (array of readings stored after ?since, default now) and
+// "status" (FeedStatus, sent on connect and every poll). The cursor follows the
+// server's storage time rather than the logger's reading timestamp, so readings
+// from a logger whose clock lags, and backfilled uploads, still reach viewers.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+
+    const experiment = await prisma.experiment.findUnique({
+      where: { id },
+      select: { userId: true, isPublic: true }
+    })
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!experiment.isPublic && experiment.userId !== session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const since = new Date(new URL(request.url).searchParams.get('since') || Date.now())
+    // Position in (createdAt, id) order. One upload stores all its rows with the
+    // same createdAt, so the id breaks ties; a null id means every row stored at
+    // that time was sent.
+    let cursor: { time: number; id: string | null } = {
+      time: Number.isNaN(since.getTime()) ? Date.now() : since.getTime(),
+      id: null
+    }
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream({
+      start(controller) {
+        let closed = false
+        const send = (event: string, data: unknown) => {
+          if (!closed) controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        }
+
+        const sendSorted = (measurements: LiveMeasurement[]) => {
+          send('measurement', [...measurements].sort((a, b) => a.timestamp.localeCompare(b.timestamp)))
+        }
+
+        // A published batch is complete, so it moves the cursor past its whole storage time
+        const sendStored = (measurements: LiveMeasurement[], storedAt: Date) => {
+          if (measurements.length === 0 || storedAt.getTime() <= cursor.time) return
+          cursor = { time: storedAt.getTime(), id: null }
+          sendSorted(measurements)
+        }
+
+        // Rows stored after the cursor, written by this or another server instance
+        const sendNewer = async () => {
+          for (let page = 0; page < MAX_POLL_PAGES; page++) {
+            const after = new Date(cursor.time)
+            const rows: (LiveRow & { id: string; createdAt: Date })[] = await prisma.measurement.findMany({
+              where: {
+                experimentId: id,
+                ...(cursor.id
+                  ? { OR: [{ createdAt: { gt: after } }, { createdAt: after, id: { gt: cursor.id } }] }
+                  : { createdAt: { gt: after } })
+              },
+              select: { ...LIVE_SELECT, id: true, createdAt: true },
+              orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+              take: POLL_PAGE
+            })
+            if (rows.length === 0) return
+
+            const last = rows[rows.length - 1]
+            cursor = { time: last.createdAt.getTime(), id: last.id }
+            sendSorted(rows.map(({ id: _id, createdAt: _createdAt, ...row }) => toLiveMeasurement(row)))
+            if (rows.length < POLL_PAGE) return
+          }
+        }
+
+        const poll = async () => {
+          const [current, recent] = await Promise.all([
+            prisma.experiment.findUnique({
+              where: { id },
+              select: { status: true, parameters: true, ingestionTokenHash: true, lastMeasurementAt: true }
+            }),
+            prisma.measurement.findMany({
+              where: { experimentId: id },
+              select: { timestamp: true },
+              orderBy: { timestamp: 'desc' },
+              take: RECENT_READINGS
+            })
+          ])
+          if (!current) return
+          await sendNewer()
+          send('status', feedStatus({
+            status: current.status,
+            hasLogger: Boolean(current.ingestionTokenHash),
+            lastMeasurementAt: current.lastMeasurementAt,
+            recentTimestamps: recent.map((row: { timestamp: Date }) => row.timestamp),
+            parameters: parseParameters(current.parameters)
+          }))
+        }
+
+        const safePoll = () => poll().catch(error => console.error('Error polling experiment stream:', error))
+        const unsubscribe = subscribeToMeasurements(id, sendStored)
+        const interval = setInterval(safePoll, POLL_INTERVAL_MS)
+        safePoll()
+
+        cleanup = () => {
+          if (closed) return
+          closed = true
+          clearInterval(interval)
+          unsubscribe()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the runtime
+          }
+        }
+        request.signal.addEventListener('abort', cleanup)
+      },
+      cancel() {
+        cleanup()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    })
+  } catch (error) {
+    console.error('Error opening experiment stream:', error)
+    return NextResponse.json(
+      { error: 'Failed to open experiment stream' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/experiments/[id]/stream - Append readings from a data logger
+//
+// Authenticated with the experiment's ingestion token (Authorization: Bearer
+// mfc_...), not a user session. Accepts one reading or { measurements: [...] }.
+// Readings whose timestamp is already stored are skipped, so a logger can
+// safely retry a post. The first reading moves a SETUP experiment to RUNNING.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const token = bearerToken(request.headers.get('authorization'))
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Ingestion token required' },
+        { status: 401 }
+      )
+    }
+
+    const experiment = await prisma.experiment.findUnique({
+      where: { ingestionTokenHash: hashIngestionToken(token) },
+      select: { id: true, status: true, parameters: true, lastMeasurementAt: true }
+    })
+
+    if (!experiment || experiment.id !== id) {
+      return NextResponse.json(
+        { error: 'Invalid ingestion token' },
+        { status: 401 }
+      )
+    }
+
+    if (experiment.status !== 'SETUP' && experiment.status !== 'RUNNING') {
+      return NextResponse.json(
+        { error: `Experiment is ${experiment.status.toLowerCase()} and not accepting data` },
+        { status: 409 }
+      )
+    }
+
+    const payload = LivePayloadSchema.parse(await request.json())
+    const readings = 'measurements' in payload ? payload.measurements : [payload]
+
+    const setpoints = parseParameters(experiment.parameters)
+    const setpoint = (key: string) => {
+      const value = setpoints[key]
+      return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+    }
+
+    const now = new Date()
+    const rows = []
+    for (const [index, reading] of readings.entries()) {
+      const temperature = reading.temperature ?? setpoint('temperature')
+      const ph = reading.ph ?? setpoint('ph')
+      if (temperature === undefined || ph === undefined) {
+        return NextResponse.json(
+          { error: `Reading ${index} has no ${temperature === undefined ? 'temperature' : 'ph'} and the experiment has no setpoint` },
+          { status: 400 }
+        )
+      }
+      const { current, power } = completeElectrical(reading.voltage, reading.current, reading.power)!
+      rows.push({
+        experimentId: id,
+        timestamp: reading.timestamp ?? now,
+        voltage: reading.voltage,
+        current,
+        power,
+        temperature,
+        ph,
+        substrate: reading.substrate ?? setpoint('substrateConcentration') ?? null
+      })
+    }
+
+    const { rows: fresh, duplicates } = await withoutStoredDuplicates(id, rows)
+    if (fresh.length === 0) {
+      return NextResponse.json({
+        accepted: 0,
+        duplicates,
+        lastMeasurementAt: experiment.lastMeasurementAt?.toISOString() ?? null
+      }, { status: 202 })
+    }
+
+    const latest = fresh.reduce(
+      (max, row) => (row.timestamp > max ? row.timestamp : max),
+      experiment.lastMeasurementAt ?? fresh[0].timestamp
+    )
+
+    const storedAt = new Date()
+    await prisma.measurement.createMany({
+      data: fresh.map(row => ({ ...row, hour: measurementHour(row.timestamp), createdAt: storedAt }))
+    })
+    await prisma.experiment.update({
+      where: { id },
+      data: {
+        lastMeasurementAt: latest,
+        ...(experiment.status === 'SETUP' && { status: 'RUNNING' })
+      }
+    })
+
+    publishMeasurements(id, fresh.map(({ experimentId: _experimentId, ...row }) => toLiveMeasurement(row)), storedAt)
+
+    return NextResponse.json({
+      accepted: fresh.length,
+      duplicates,
+      lastMeasurementAt: latest.toISOString()
+    }, { status: 202 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid reading',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Body must be JSON' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error appending live measurements:', error)
+    return NextResponse.json(
+      { error: 'Failed to append measurements' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import {
+  ImportExperimentsSchema,
+  LegacyExperimentSchema,
+  legacyCreatedAt,
+  legacyParameters,
+  loadPredictionModel,
+  normalizeStatus,
+  parseParameters,
+  resolveDesign,
+  setupPrediction
+} from '@/lib/experiments'
+import { recordAudit } from '@/lib/audit'
+
+// POST /api/experiments/import - Move experiments kept in the browser's localStorage into the database
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { experiments: records } = ImportExperimentsSchema.parse(await request.json())
+
+    // Experiments imported earlier carry their local id, so importing twice is harmless
+    const existing = await prisma.experiment.findMany({
+      where: { userId: session.user.id },
+      select: { id: true, parameters: true }
+    })
+    const importedIds = new Map<string, string>()
+    for (const experiment of existing as { id: string; parameters: string }[]) {
+      const legacyId = parseParameters(experiment.parameters).legacyId
+      if (typeof legacyId === 'string') importedIds.set(legacyId, experiment.id)
+    }
+
+    const model = await loadPredictionModel()
+    const imported: { localId: string; id: string }[] = []
+    const skipped: { localId: string; reason: string }[] = []
+
+    for (const [index, record] of records.entries()) {
+      const parsed = LegacyExperimentSchema.safeParse(record)
+      if (!parsed.success) {
+        const localId = (record as { id?: unknown } | null)?.id
+        skipped.push({ localId: typeof localId === 'string' ? localId : `#${index}`, reason: 'Invalid experiment record' })
+        continue
+      }
+
+      const experiment = parsed.data
+      const existingId = importedIds.get(experiment.id)
+      if (existingId) {
+        imported.push({ localId: experiment.id, id: existingId })
+        continue
+      }
+
+      const design = await resolveDesign(experiment)
+      if (!design) {
+        skipped.push({ localId: experiment.id, reason: 'No matching design or system' })
+        continue
+      }
+
+      const parameters = legacyParameters(experiment)
+      const createdAt = legacyCreatedAt(experiment)
+      const created = await prisma.experiment.create({
+        data: {
+          name: experiment.name,
+          userId: session.user.id,
+          designId: design.id,
+          status: normalizeStatus(experiment.status),
+          parameters: JSON.stringify(parameters),
+          prediction: setupPrediction(parameters, design.type, model, createdAt),
+          createdAt
+        },
+        select: { id: true }
+      })
+      await recordAudit(request, {
+        userId: session.user.id,
+        action: 'experiment.import',
+        resource: `experiment:${created.id}`,
+        summary: `Imported "${experiment.name}" from local storage`,
+        metadata: { legacyId: experiment.id, designId: design.id }
+      })
+      importedIds.set(experiment.id, created.id)
+      imported.push({ localId: experiment.id, id: created.id })
+    }
+
+    return NextResponse.json({ imported, skipped })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid import',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error importing experiments:', error)
+    return NextResponse.json(
+      { error: 'Failed to import experiments' },
+      { status: 500 }
+    )
+  }
+}
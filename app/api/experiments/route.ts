@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { createStringFilter } from '@/lib/database-utils'
+import {
+  CreateExperimentSchema,
+  ExperimentStatusSchema,
+  loadPredictionModel,
+  resolveDesign,
+  serializeExperiment,
+  setupPrediction,
+  type ExperimentRecord
+} from '@/lib/experiments'
+import { recordAudit } from '@/lib/audit'
+
+const EXPERIMENT_INCLUDE = {
+  design: { select: { id: true, name: true, type: true } },
+  user: { select: { id: true, name: true } }
+}
+
+// GET /api/experiments - List the caller's experiments, or shared ones with ?visibility=public
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { searchParams } = new URL(request.url)
+
+    const visibility = searchParams.get('visibility') === 'public' ? 'public' : 'own'
+    if (visibility === 'own' && !session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20') || 20))
+    const search = searchParams.get('search') || ''
+    const designId = searchParams.get('designId') || undefined
+    const includeArchived = searchParams.get('includeArchived') === 'true'
+
+    const statusParam = searchParams.get('status')?.split(',').filter(Boolean) || []
+    const statuses = statusParam.map(status => ExperimentStatusSchema.safeParse(status))
+    if (statuses.some(status => !status.success)) {
+      return NextResponse.json(
+        { error: `Unknown status in "${statusParam.join(',')}"` },
+        { status: 400 }
+      )
+    }
+
+    const where: any = visibility === 'public'
+      ? { isPublic: true }
+      : { userId: session!.user.id }
+
+    if (statuses.length > 0) {
+      where.status = { in: statuses.map(status => status.data!) }
+    } else if (!includeArchived) {
+      // Archived experiments only show up when asked for
+      where.status = { not: 'ARCHIVED' }
+    }
+    if (designId) where.designId = designId
+    // Case-insensitive on PostgreSQL; SQLite's LIKE already ignores ASCII case
+    if (search) where.name = createStringFilter(search)
+
+    const [experiments, total] = await Promise.all([
+      prisma.experiment.findMany({
+        where,
+        include: {
+          ...EXPERIMENT_INCLUDE,
+          _count: { select: { measurements: true } }
+        },
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.experiment.count({ where })
+    ])
+
+    return NextResponse.json({
+      experiments: experiments.map((experiment: ExperimentRecord & { _count: { measurements: number } }) => ({
+        ...serializeExperiment(experiment),
+        measurementCount: experiment._count.measurements
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching experiments:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch experiments' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/experiments - Create an experiment from an MFCDesign or a unified catalog system
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const data = CreateExperimentSchema.parse(await request.json())
+
+    const design = await resolveDesign({ designId: data.designId, systemId: data.systemId })
+    if (!design) {
+      return NextResponse.json(
+        { error: data.designId ? `Design ${data.designId} not found` : `System ${data.systemId} not found` },
+        { status: 404 }
+      )
+    }
+
+    const experiment = await prisma.experiment.create({
+      data: {
+        name: data.name,
+        userId: session.user.id,
+        designId: design.id,
+        status: data.status,
+        parameters: JSON.stringify(data.parameters),
+        // Snapshot of what the model expects, compared against measurements later
+        prediction: setupPrediction(data.parameters, design.type, await loadPredictionModel()),
+        isPublic: data.isPublic
+      },
+      include: EXPERIMENT_INCLUDE
+    })
+
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'experiment.create',
+      resource: `experiment:${experiment.id}`,
+      summary: `Created "${experiment.name}"`,
+      metadata: { designId: design.id, status: experiment.status, isPublic: experiment.isPublic }
+    })
+
+    return NextResponse.json(serializeExperiment(experiment), { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid experiment',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating experiment:', error)
+    return NextResponse.json(
+      { error: 'Failed to create experiment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,299 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import { prisma } from '@/lib/db'
+import { auditChanges, recordAudit } from '@/lib/audit'
+import { FuelCellCalibrationEngine, type CalibrationPoint } from '@/lib/fuel-cell-calibration'
+import { FuelCellType } from '@/lib/types/fuel-cell-types'
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const FuelCellTypeSchema = z.enum([FuelCellType.PEM, FuelCellType.SOFC, FuelCellType.PAFC, FuelCellType.MCFC, FuelCellType.AFC])
+
+const CalibratableParameterSchema = z.enum([
+  'openCircuitVoltage',
+  'exchangeCurrentDensity',
+  'tafelSlope',
+  'areaSpecificResistance',
+  'limitingCurrentDensity',
+  'concentrationCoefficient'
+])
+
+const CalibrationRequestSchema = z.object({
+  // Saving is optional and needs a signed-in user; without a name the fit is returned but not stored
+  name: z.string().trim().min(1).max(100).optional(),
+
+  // Conditions the data was measured at
+  conditions: z.object({
+    fuelCellType: FuelCellTypeSchema,
+    cellCount: z.number().int().min(1).max(1000),
+    activeArea: z.number().min(0.1).max(10000), // cm²
+    operatingTemperature: z.number().min(-50).max(1200), // °C
+    operatingPressure: z.number().min(0.1).max(100), // bar
+    humidity: z.number().min(0).max(100), // %
+    anodeCatalyst: z.string().optional(),
+    cathodeCatalyst: z.string().optional(),
+    membraneType: z.string().optional()
+  }),
+
+  // Exactly one data source
+  points: z.array(z.object({
+    currentDensity: z.number(), // A/cm²
+    voltage: z.number() // V per cell
+  })).max(5000).optional(),
+  csv: z.string().max(1_000_000).optional(),
+  measurements: z.array(z.object({
+    voltage: z.number(), // Stack voltage (V)
+    current: z.number(), // Stack current (A)
+    currentDensity: z.number().optional() // A/cm²
+  })).max(5000).optional(),
+
+  fitParameters: z.array(CalibratableParameterSchema).min(1).optional()
+}).refine(
+  request => [request.points, request.csv, request.measurements].filter(source => source !== undefined).length === 1,
+  { message: 'Provide exactly one of points, csv or measurements', path: ['points'] }
+)
+
+// ============================================================================
+// API ROUTE HANDLERS
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const startTime = Date.now()
+
+    // Parse and validate request body
+    const body = await request.json()
+    const validatedInput = CalibrationRequestSchema.parse(body)
+    const { conditions } = validatedInput
+
+    let points: CalibrationPoint[]
+    if (validatedInput.csv !== undefined) {
+      points = FuelCellCalibrationEngine.parseCsv(validatedInput.csv, conditions)
+    } else if (validatedInput.measurements) {
+      points = FuelCellCalibrationEngine.fromMeasurements(validatedInput.measurements, conditions)
+    } else {
+      points = validatedInput.points!
+    }
+
+    const result = FuelCellCalibrationEngine.calibrate({
+      conditions,
+      points,
+      fitParameters: validatedInput.fitParameters
+    })
+
+    let saved: { id: string; name: string } | null = null
+    if (validatedInput.name) {
+      const session = await getServerSession(authOptions)
+      if (!session?.user?.id) {
+        return authenticationRequired()
+      }
+
+      const record = {
+        fuelCellType: result.fuelCellType,
+        parameters: JSON.stringify(result.parameters),
+        conditions: JSON.stringify(conditions),
+        statistics: JSON.stringify({
+          ...result.statistics,
+          fittedParameters: result.fittedParameters,
+          confidenceIntervals: result.confidenceIntervals
+        })
+      }
+      const key = { userId_name: { userId: session.user.id, name: validatedInput.name } }
+      const previous = await prisma.fuelCellCalibration.findUnique({ where: key, select: { parameters: true } })
+      const calibration = await prisma.fuelCellCalibration.upsert({
+        where: key,
+        create: { name: validatedInput.name, userId: session.user.id, ...record },
+        update: record
+      })
+      saved = { id: calibration.id, name: calibration.name }
+
+      // Predictions made with this name change with the parameters, so keep both sides
+      await recordAudit(request, {
+        userId: session.user.id,
+        action: 'calibration.save',
+        resource: `calibration:${calibration.id}`,
+        summary: `${previous ? 'Refitted' : 'Saved'} calibration "${calibration.name}"`,
+        changes: auditChanges(
+          previous ? JSON.parse(previous.parameters) : null,
+          { ...result.parameters },
+          Object.keys(result.parameters)
+        ),
+        metadata: { fuelCellType: result.fuelCellType, points: points.length }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        calibration: result,
+        saved
+      },
+      metadata: {
+        apiVersion: '1.0',
+        processingTime: Date.now() - startTime,
+        requestId: generateRequestId(),
+        timestamp: new Date().toISOString(),
+        fuelCellType: conditions.fuelCellType,
+        points: points.length
+      }
+    }, { status: 200 })
+
+  } catch (error) {
+    // Log error in development only
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Fuel cell calibration API error:', error)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: err.code
+        }))
+      }, { status: 400 })
+    }
+
+    if (error instanceof Error && error.message.startsWith('Invalid calibration data')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Calibration data error',
+        message: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      message: process.env.NODE_ENV === 'development' ? error instanceof Error ? error.message : String(error) : 'Calibration failed'
+    }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return authenticationRequired()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const fuelCellType = searchParams.get('type')
+
+    const calibrations = await prisma.fuelCellCalibration.findMany({
+      where: { userId: session.user.id, ...(fuelCellType && { fuelCellType }) },
+      orderBy: { updatedAt: 'desc' }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: calibrations.map((calibration: {
+        id: string
+        name: string
+        userId: string
+        fuelCellType: string
+        parameters: string
+        conditions: string
+        statistics: string
+        createdAt: Date
+        updatedAt: Date
+      }) => ({
+        ...calibration,
+        parameters: JSON.parse(calibration.parameters),
+        conditions: JSON.parse(calibration.conditions),
+        statistics: JSON.parse(calibration.statistics)
+      })),
+      metadata: {
+        apiVersion: '1.0',
+        timestamp: new Date().toISOString()
+      }
+    })
+
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Fuel cell calibration list error:', error)
+    }
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve calibrations'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return authenticationRequired()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const name = searchParams.get('name')
+    if (!name) {
+      return NextResponse.json({
+        success: false,
+        error: 'Calibration name is required'
+      }, { status: 400 })
+    }
+
+    const calibration = await prisma.fuelCellCalibration.findUnique({
+      where: { userId_name: { userId: session.user.id, name } },
+      select: { id: true, fuelCellType: true, parameters: true }
+    })
+    if (!calibration) {
+      return NextResponse.json({
+        success: false,
+        error: `Calibration "${name}" not found`
+      }, { status: 404 })
+    }
+
+    await prisma.fuelCellCalibration.delete({ where: { id: calibration.id } })
+
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'calibration.delete',
+      resource: `calibration:${calibration.id}`,
+      summary: `Deleted calibration "${name}"`,
+      metadata: { fuelCellType: calibration.fuelCellType, parameters: JSON.parse(calibration.parameters) }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { name },
+      metadata: {
+        apiVersion: '1.0',
+        timestamp: new Date().toISOString()
+      }
+    })
+
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Fuel cell calibration delete error:', error)
+    }
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete calibration'
+    }, { status: 500 })
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function authenticationRequired() {
+  return NextResponse.json({
+    success: false,
+    error: 'Authentication required'
+  }, { status: 401 })
+}
+
+function generateRequestId(): string {
+  return `cal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
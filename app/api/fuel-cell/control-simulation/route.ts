@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { ControlSystemSimulationEngine, SIMULATION_PRESETS } from '@/lib/control-system-simulation'
+import { diagnoseFaults, evaluateDiagnosis } from '@/lib/fault-diagnosis'
+import { FAULT_CATALOGUE, FAULT_TYPES, MONITORED_SIGNALS, type FaultType, type MonitoredSignal } from '@/lib/fuel-cell-faults'
+import { PIDAutoTuningEngine } from '@/lib/pid-auto-tuning'
 import { FuelCellType } from '@/lib/types/fuel-cell-types'
 
 // ============================================================================
@@ -9,6 +12,36 @@ import { FuelCellType } from '@/lib/types/fuel-cell-types'
 
 const FuelCellTypeSchema = z.enum([FuelCellType.PEM, FuelCellType.SOFC, FuelCellType.PAFC, FuelCellType.MCFC, FuelCellType.AFC])
 
+const FuzzyMembershipFunctionSchema = z.object({
+  label: z.string().min(1).max(20),
+  points: z.tuple([z.number(), z.number(), z.number()])
+})
+
+const FuzzyParamsSchema = z.object({
+  errorScale: z.number().positive(),
+  errorRateScale: z.number().positive(),
+  outputScale: z.number().positive(),
+  errorSets: z.array(FuzzyMembershipFunctionSchema).min(1).max(15),
+  errorRateSets: z.array(FuzzyMembershipFunctionSchema).min(1).max(15),
+  outputSets: z.array(FuzzyMembershipFunctionSchema).min(1).max(15),
+  rules: z.array(z.object({
+    error: z.string(),
+    errorRate: z.string(),
+    output: z.string()
+  })).min(1).max(225)
+})
+
+const AdaptiveParamsSchema = z.object({
+  referenceTimeConstant: z.number().min(0.1).max(3600), // seconds
+  adaptationGain: z.number().min(0).max(100)
+})
+
+const NeuralParamsSchema = z.object({
+  hiddenUnits: z.number().int().min(1).max(32),
+  learningRate: z.number().min(0).max(10),
+  seed: z.number().int().optional()
+})
+
 const ControllerConfigSchema = z.object({
   enabled: z.boolean(),
   type: z.enum(['PID', 'FUZZY', 'ADAPTIVE', 'NEURAL']),
@@ -24,7 +57,10 @@ const ControllerConfigSchema = z.object({
     rateLimit: z.number().min(0)
   }),
   deadband: z.number().optional(),
-  windup_limit: z.number().optional()
+  windup_limit: z.number().optional(),
+  fuzzyParams: FuzzyParamsSchema.optional(),
+  adaptiveParams: AdaptiveParamsSchema.optional(),
+  neuralParams: NeuralParamsSchema.optional()
 })
 
 const PurgingControllerSchema = ControllerConfigSchema.extend({
@@ -50,6 +86,17 @@ const SystemDisturbanceSchema = z.object({
   startTime: z.number().min(0)
 })
 
+const MonitoredSignalSchema = z.enum(MONITORED_SIGNALS as [MonitoredSignal, ...MonitoredSignal[]])
+
+const FaultInjectionSchema = z.object({
+  type: z.enum(FAULT_TYPES as [FaultType, ...FaultType[]]),
+  severity: z.number().min(0).max(1),
+  startTime: z.number().min(0),
+  duration: z.number().positive().optional(),
+  rampTime: z.number().min(0).max(3600).optional(),
+  sensor: MonitoredSignalSchema.optional()
+})
+
 const SimulationParametersSchema = z.object({
   duration: z.number().min(10).max(3600), // 10 seconds to 1 hour
   timeStep: z.number().min(0.01).max(1), // 10ms to 1 second
@@ -60,14 +107,57 @@ const SimulationParametersSchema = z.object({
     pressure: z.number().min(0.1).max(100),
     fuelFlow: z.number().min(0.01).max(1000),
     airFlow: z.number().min(0.01).max(10000)
-  })
+  }),
+  plantModel: z.enum(['LUMPED', 'TRANSIENT']).optional(),
+  initialConditions: z.object({
+    temperature: z.number().min(-50).max(1200).optional(),
+    membraneWaterContent: z.number().min(0).max(22).optional()
+  }).optional(),
+  solverOptions: z.object({
+    relativeTolerance: z.number().min(1e-10).max(1e-2).optional(),
+    absoluteTolerance: z.number().min(1e-12).max(1e-2).optional()
+  }).optional(),
+  faults: z.array(FaultInjectionSchema).max(10).optional(),
+  measurementNoise: z.record(MonitoredSignalSchema, z.number().min(0)).optional(),
+  noiseSeed: z.number().int().optional()
+})
+
+const DiagnosisOptionsSchema = z.object({
+  signals: z.array(MonitoredSignalSchema).min(1).optional(),
+  trainingWindow: z.number().min(1).max(3600).optional(), // seconds
+  threshold: z.number().min(1).max(50).optional(), // σ
+  persistence: z.number().int().min(1).max(100).optional(), // samples
+  cusumDrift: z.number().min(0).max(10).optional(), // σ
+  cusumThreshold: z.number().min(1).max(100).optional(), // σ
+  onsetWindow: z.number().min(0.1).max(600).optional() // seconds
 })
 
 const ControlSimulationRequestSchema = z.object({
   fuelCellType: FuelCellTypeSchema,
   controlConfig: ControlSystemConfigSchema,
   simulationParams: SimulationParametersSchema.optional(),
-  preset: z.enum(['BASIC_TEST', 'LOAD_STEP', 'THERMAL_DISTURBANCE', 'COMPREHENSIVE']).optional()
+  preset: z.enum(['BASIC_TEST', 'LOAD_STEP', 'THERMAL_DISTURBANCE', 'COMPREHENSIVE', 'COLD_START', 'FUEL_STARVATION']).optional(),
+  // Overrides the plant model of the preset or simulationParams
+  plantModel: z.enum(['LUMPED', 'TRANSIENT']).optional(),
+  // Overrides the faults of the preset or simulationParams
+  faults: z.array(FaultInjectionSchema).max(10).optional(),
+  // Run fault detection and isolation on the simulated measurements
+  diagnose: z.union([z.boolean(), DiagnosisOptionsSchema]).optional(),
+  // Also rerun the scenario with each strategy on one loop
+  compareStrategies: z.object({
+    loop: z.enum(['thermal', 'humidity', 'pressure']),
+    strategies: z.array(z.enum(['PID', 'FUZZY', 'ADAPTIVE', 'NEURAL'])).min(1).max(4).optional()
+  }).optional(),
+  // Tune PID gains instead of simulating; the tuned config can be sent back for simulation
+  autoTune: z.object({
+    method: z.enum(['ZIEGLER_NICHOLS_STEP', 'ZIEGLER_NICHOLS_RELAY', 'COHEN_COON', 'OPTIMIZATION']),
+    loops: z.array(z.enum(['thermal', 'humidity', 'pressure', 'airIntake'])).min(1).optional(),
+    criterion: z.enum(['ITAE', 'ISE']).optional(),
+    maxOvershoot: z.number().min(0).max(100).optional(), // %
+    stepSize: z.number().min(0.01).max(0.5).optional(), // Fraction of actuator range
+    maxEvaluations: z.number().int().min(10).max(300).optional(),
+    responsePoints: z.number().int().min(20).max(2000).optional()
+  }).optional()
 })
 
 // ============================================================================
@@ -95,10 +185,45 @@ export async function POST(request: NextRequest) {
         message: 'Either provide simulationParams or specify a preset'
       }, { status: 400 })
     }
+    if (validatedInput.plantModel) {
+      simulationParams = { ...simulationParams, plantModel: validatedInput.plantModel }
+    }
+    if (validatedInput.faults) {
+      simulationParams = { ...simulationParams, faults: validatedInput.faults }
+    }
+    // Diagnosis needs the nominal model run alongside, even without faults
+    const diagnose = validatedInput.diagnose
+    if (diagnose && !simulationParams.faults) {
+      simulationParams = { ...simulationParams, faults: [] }
+    }
     
     // Validate fuel cell type specific constraints
     validateControlSystemConstraints(validatedInput.fuelCellType, validatedInput.controlConfig)
     
+    if (validatedInput.autoTune) {
+      const tuning = PIDAutoTuningEngine.tune(
+        validatedInput.controlConfig,
+        validatedInput.fuelCellType,
+        simulationParams,
+        validatedInput.autoTune
+      )
+      
+      return NextResponse.json({
+        success: true,
+        data: tuning,
+        metadata: {
+          apiVersion: '1.0',
+          processingTime: Date.now() - startTime,
+          requestId: generateRequestId(),
+          timestamp: new Date().toISOString(),
+          action: 'AUTO_TUNE',
+          tuningMethod: validatedInput.autoTune.method,
+          plantModel: simulationParams.plantModel || 'LUMPED',
+          fuelCellType: validatedInput.fuelCellType
+        }
+      }, { status: 200 })
+    }
+    
     // Run simulation
     const result = await ControlSystemSimulationEngine.simulate(
       validatedInput.controlConfig,
@@ -106,10 +231,30 @@ export async function POST(request: NextRequest) {
       simulationParams
     )
     
+    const comparison = validatedInput.compareStrategies
+      ? await ControlSystemSimulationEngine.compareStrategies(
+          validatedInput.controlConfig,
+          validatedInput.fuelCellType,
+          simulationParams,
+          validatedInput.compareStrategies.loop,
+          validatedInput.compareStrategies.strategies
+        )
+      : undefined
+    
+    let diagnosis
+    if (diagnose && result.faultSimulation) {
+      const { measured, nominal, faults } = result.faultSimulation
+      const report = diagnoseFaults(measured, nominal, {
+        ...(typeof diagnose === 'object' && diagnose),
+        fuelCellType: validatedInput.fuelCellType
+      })
+      diagnosis = { ...report, evaluation: evaluateDiagnosis(report, faults) }
+    }
+    
     // Add API metadata
     const response = {
       success: true,
-      data: result,
+      data: { ...result, ...(comparison && { comparison }), ...(diagnosis && { diagnosis }) },
       metadata: {
         apiVersion: '1.0',
         processingTime: Date.now() - startTime,
@@ -117,7 +262,9 @@ export async function POST(request: NextRequest) {
         timestamp: new Date().toISOString(),
         simulationDuration: simulationParams.duration,
         timeStep: simulationParams.timeStep,
+        plantModel: simulationParams.plantModel || 'LUMPED',
         fuelCellType: validatedInput.fuelCellType,
+        injectedFaults: simulationParams.faults?.length ?? 0,
         enabledControllers: Object.entries(validatedInput.controlConfig)
           .filter(([_, config]) => (config as any).enabled)
           .map(([name, _]) => name)
@@ -144,6 +291,14 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (error instanceof Error && error.message.startsWith('Invalid ')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Controller configuration error',
+        message: error.message
+      }, { status: 400 })
+    }
+
     if (error instanceof Error && error.message.includes('constraint')) {
       return NextResponse.json({
         success: false,
@@ -174,7 +329,25 @@ export async function GET(request: NextRequest) {
         presetDetails: preset ? SIMULATION_PRESETS[preset as keyof typeof SIMULATION_PRESETS] : SIMULATION_PRESETS,
         supportedFuelCellTypes: ['PEM', 'SOFC', 'PAFC', 'MCFC', 'AFC'],
         controllerTypes: ['PID', 'FUZZY', 'ADAPTIVE', 'NEURAL'],
+        tuningMethods: {
+          ZIEGLER_NICHOLS_STEP: 'Reaction-curve rules on a first-order-plus-dead-time fit of an open-loop step',
+          ZIEGLER_NICHOLS_RELAY: 'Åström-Hägglund relay feedback; classic Ziegler-Nichols rules on the ultimate gain and period',
+          COHEN_COON: 'Cohen-Coon rules on the same step-response fit',
+          OPTIMIZATION: 'Nelder-Mead search minimising ITAE or ISE of a setpoint step, with an overshoot limit'
+        },
+        controllerDescriptions: {
+          PID: 'Parallel PID with integral clamping',
+          FUZZY: 'Mamdani fuzzy PI on error and error rate; membership functions and rule base are editable (fuzzyParams)',
+          ADAPTIVE: 'Model-reference adaptive control tracking a first-order reference model (adaptiveParams)',
+          NEURAL: 'One-hidden-layer network trained online on the tracking error, alongside a fixed PID path (neuralParams)'
+        },
+        plantModels: {
+          LUMPED: 'First-order lags towards the commanded actuator settings; fast, for quick controller sketches',
+          TRANSIENT: 'ODE stack model (thermal mass, manifold filling, membrane water, N2 crossover) integrated with adaptive RK45'
+        },
         disturbanceTypes: ['LOAD_CHANGE', 'TEMPERATURE_SPIKE', 'PRESSURE_DROP', 'HUMIDITY_VARIATION', 'FUEL_INTERRUPTION'],
+        faultCatalogue: FAULT_CATALOGUE,
+        faultDiagnosis: 'Residuals against a fault-free model fed the same commands; threshold and CUSUM tests per signal, isolation by fault signature and onset shape',
         defaultConfigurations: fuelCellType ? getDefaultConfiguration(fuelCellType) : getAllDefaultConfigurations(),
         simulationConstraints: {
           duration: { min: 10, max: 3600, unit: 'seconds' },
@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  HIL_CHANNELS,
+  HIL_FAULT_TYPES,
+  HIL_NOMINAL_CONDITIONS,
+  HIL_REGISTERS,
+  ModbusHILPlant,
+  VirtualHILPlant,
+  runHILTest,
+  scenarioDuration,
+  type HILPlant
+} from '@/lib/hil-test-runner'
+import { FAULT_CATALOGUE } from '@/lib/fuel-cell-faults'
+import { ModbusError } from '@/lib/modbus-tcp'
+import { FuelCellType } from '@/lib/types/fuel-cell-types'
+import type { HILTestConfig } from '@/lib/types/hil-types'
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const FuelCellTypeSchema = z.enum([FuelCellType.PEM, FuelCellType.SOFC, FuelCellType.PAFC, FuelCellType.MCFC, FuelCellType.AFC])
+
+const HILTestStepSchema = z.object({
+  time: z.number().min(0).max(3600),
+  action: z.enum(['SET_INPUT', 'INJECT_FAULT', 'CHANGE_LOAD', 'VERIFY_OUTPUT', 'WAIT']),
+  parameters: z.record(z.any()).default({}),
+  description: z.string().max(500).default('')
+})
+
+const HILTestScenarioSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().min(1).max(200),
+  description: z.string().max(1000).default(''),
+  duration: z.number().min(0).max(3600), // seconds
+  steps: z.array(HILTestStepSchema).max(200),
+  expectedOutcomes: z.array(z.object({
+    parameter: z.string().min(1),
+    expectedValue: z.number(),
+    tolerance: z.number().min(0),
+    unit: z.string().default('')
+  })).max(50).default([])
+})
+
+const HILTestConfigSchema = z.object({
+  testName: z.string().min(1).max(200),
+  testType: z.enum(['VALIDATION', 'STRESS_TEST', 'LONGEVITY', 'FAULT_INJECTION', 'OPTIMIZATION']).default('VALIDATION'),
+  hardwareSetup: z.object({
+    realHardware: z.array(z.string()),
+    simulatedComponents: z.array(z.string()),
+    interfaces: z.array(z.any())
+  }).default({ realHardware: [], simulatedComponents: [], interfaces: [] }),
+  testScenarios: z.array(HILTestScenarioSchema).min(1).max(20),
+  dataAcquisition: z.object({
+    sampleRate: z.number().positive().max(10000), // Hz
+    duration: z.number().min(0),
+    channels: z.array(z.string()).default([])
+  }),
+  safetyLimits: z.object({
+    maxTemperature: z.number(),
+    maxPressure: z.number(),
+    maxCurrent: z.number(),
+    maxVoltage: z.number()
+  })
+})
+
+const NominalConditionsSchema = z.object({
+  temperature: z.number().min(-50).max(1200),
+  humidity: z.number().min(0).max(100),
+  pressure: z.number().min(0.1).max(100),
+  fuelFlow: z.number().min(0.01).max(1000),
+  airFlow: z.number().min(0.01).max(10000)
+})
+
+const PlantSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('virtual'),
+    plantModel: z.enum(['LUMPED', 'TRANSIENT']).optional(),
+    nominalConditions: NominalConditionsSchema.optional()
+  }),
+  z.object({
+    type: z.literal('modbus'),
+    host: z.string().min(1),
+    port: z.number().int().min(1).max(65535),
+    unitId: z.number().int().min(0).max(247).optional(),
+    clock: z.enum(['lockstep', 'realtime']).optional(),
+    timeScale: z.number().min(0.1).max(1000).optional(), // realtime only
+    timeout: z.number().int().min(100).max(30000).optional() // ms
+  })
+])
+
+const HILRequestSchema = z.object({
+  fuelCellType: FuelCellTypeSchema,
+  config: HILTestConfigSchema,
+  plant: PlantSchema.default({ type: 'virtual' }),
+  timeStep: z.number().min(0.01).max(1).default(0.1), // seconds
+  maxMeasurements: z.number().int().min(10).max(10000).optional()
+})
+
+// A realtime run holds the request open for the whole test
+const MAX_REALTIME_SECONDS = 120
+
+// Modbus endpoints the server may connect to, besides this host
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1']
+
+// ============================================================================
+// API ROUTE HANDLERS
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  let plant: HILPlant | null = null
+
+  try {
+    const startTime = Date.now()
+
+    const body = await request.json()
+    const validatedInput = HILRequestSchema.parse(body)
+    const config = validatedInput.config as HILTestConfig
+    const plantConfig = validatedInput.plant
+
+    if (plantConfig.type === 'modbus') {
+      const allowed = [...LOCAL_HOSTS, ...(process.env.HIL_MODBUS_HOSTS?.split(',').map(host => host.trim()) ?? [])]
+      if (!allowed.includes(plantConfig.host)) {
+        throw new Error(`Invalid plant host ${plantConfig.host}: add it to HIL_MODBUS_HOSTS to allow connections`)
+      }
+      const wallClock = config.testScenarios.reduce((sum, scenario) => sum + scenarioDuration(scenario), 0) /
+        (plantConfig.timeScale ?? 1)
+      if (plantConfig.clock === 'realtime' && wallClock > MAX_REALTIME_SECONDS) {
+        throw new Error(`Invalid realtime test: ${Math.ceil(wallClock)} s of wall-clock time exceeds ${MAX_REALTIME_SECONDS} s; raise timeScale or use lockstep`)
+      }
+      plant = await ModbusHILPlant.connect(plantConfig)
+    } else {
+      plant = new VirtualHILPlant(validatedInput.fuelCellType, plantConfig)
+    }
+
+    const report = await runHILTest(config, plant, {
+      timeStep: validatedInput.timeStep,
+      maxMeasurements: validatedInput.maxMeasurements
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      metadata: {
+        apiVersion: '1.0',
+        processingTime: Date.now() - startTime,
+        requestId: generateRequestId(),
+        timestamp: new Date().toISOString(),
+        fuelCellType: validatedInput.fuelCellType,
+        plant: report.plant,
+        timeStep: validatedInput.timeStep
+      }
+    }, { status: 200 })
+
+  } catch (error) {
+    // Log error in development only
+    if (process.env.NODE_ENV === 'development') {
+      console.error('HIL test API error:', error)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: err.code
+        }))
+      }, { status: 400 })
+    }
+
+    if (error instanceof ModbusError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Plant communication error',
+        message: error.message
+      }, { status: 502 })
+    }
+
+    if (error instanceof Error && error.message.startsWith('Invalid ')) {
+      return NextResponse.json({
+        success: false,
+        error: 'HIL test configuration error',
+        message: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      message: process.env.NODE_ENV === 'development' ? error instanceof Error ? error.message : String(error) : 'HIL test failed'
+    }, { status: 500 })
+  } finally {
+    await plant?.close().catch(() => undefined)
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    data: {
+      actions: {
+        SET_INPUT: 'Set actuators: temperature (°C), humidity (%), pressure (bar), airFlow (L/min), purge, current or load (A)',
+        CHANGE_LOAD: 'Step the load to { current } or { load } in A',
+        INJECT_FAULT: `Apply { type, magnitude (0-1), duration (s), sensor (sensor faults) }; types: ${HIL_FAULT_TYPES.join(', ')}`,
+        VERIFY_OUTPUT: 'Check { parameter, expectedValue, tolerance } or { expectedVoltage, ..., tolerance } against the current reading',
+        WAIT: 'No action'
+      },
+      channels: HIL_CHANNELS,
+      derivedOutcomes: {
+        responseTime: 'Worst 2% settling time of delivered power after a load change, s',
+        overshoot: 'Worst power overshoot after a load change, % of the step'
+      },
+      faultTypes: HIL_FAULT_TYPES,
+      faultCatalogue: FAULT_CATALOGUE,
+      nominalConditions: HIL_NOMINAL_CONDITIONS,
+      modbus: {
+        registers: HIL_REGISTERS,
+        encoding: 'float32 across two holding registers, high word first; NaN leaves an actuator at nominal',
+        clocks: {
+          lockstep: 'The runner writes each step size (s) to the advance register',
+          realtime: 'The endpoint keeps its own clock; the runner samples every time step'
+        }
+      }
+    },
+    metadata: {
+      apiVersion: '1.0',
+      timestamp: new Date().toISOString()
+    }
+  })
+}
+
+function generateRequestId(): string {
+  return `hil_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
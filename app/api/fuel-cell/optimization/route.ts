@@ -64,12 +64,13 @@ const OptimizationConstraintsSchema = z.object({
 })
 
 const OptimizationParametersSchema = z.object({
-  algorithm: z.enum(['GRADIENT_DESCENT', 'GENETIC_ALGORITHM', 'PARTICLE_SWARM', 'SIMULATED_ANNEALING', 'BAYESIAN']),
+  algorithm: z.enum(['GRADIENT_DESCENT', 'GENETIC_ALGORITHM', 'PARTICLE_SWARM', 'SIMULATED_ANNEALING', 'BAYESIAN', 'NSGA_II']),
   maxIterations: z.number().min(10).max(1000),
   convergenceTolerance: z.number().min(0.00001).max(0.1),
   populationSize: z.number().min(10).max(200).optional(),
   temperatureSchedule: z.enum(['LINEAR', 'EXPONENTIAL', 'ADAPTIVE']).optional(),
-  acquisitionFunction: z.enum(['EI', 'PI', 'UCB']).optional()
+  acquisitionFunction: z.enum(['EI', 'PI', 'UCB']).optional(),
+  kernelType: z.enum(['RBF', 'MATERN_32', 'MATERN_52']).optional()
 })
 
 const OptimizationRequestSchema = z.object({
@@ -103,8 +104,8 @@ export async function POST(request: NextRequest) {
     // Validate constraints consistency
     validateConstraints(validatedInput.constraints)
     
-    // Validate objective weights for multi-objective
-    if (validatedInput.objective.type === 'MULTI_OBJECTIVE') {
+    // Validate objective weights for multi-objective (NSGA-II returns the full front instead)
+    if (validatedInput.objective.type === 'MULTI_OBJECTIVE' && validatedInput.parameters.algorithm !== 'NSGA_II') {
       const weights = validatedInput.objective.weights || {}
       const totalWeight = (weights.power || 0) + (weights.efficiency || 0) + 
                          (weights.cost || 0) + (weights.durability || 0)
@@ -227,6 +228,24 @@ export async function GET(request: NextRequest) {
             description: 'Gaussian process-based optimization',
             strengths: ['Sample efficient', 'Handles expensive evaluations', 'Uncertainty quantification'],
             parameters: ['acquisitionFunction', 'kernelType']
+          },
+          {
+            name: 'PARTICLE_SWARM',
+            description: 'Swarm of particles sharing personal and global bests',
+            strengths: ['Good for non-convex problems', 'Few tuning parameters', 'No gradient required'],
+            parameters: ['populationSize']
+          },
+          {
+            name: 'SIMULATED_ANNEALING',
+            description: 'Single-point stochastic search with a cooling schedule',
+            strengths: ['Escapes local optima', 'Low memory footprint', 'No gradient required'],
+            parameters: ['temperatureSchedule']
+          },
+          {
+            name: 'NSGA_II',
+            description: 'Non-dominated sorting genetic algorithm returning a Pareto front',
+            strengths: ['True multi-objective trade-offs', 'Power/efficiency/cost/durability front', 'Crowding-based diversity'],
+            parameters: ['populationSize']
           }
         ],
         defaultConstraints: fuelCellType ? getDefaultConstraints(fuelCellType) : getAllDefaultConstraints(),
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
 import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
 import { FuelCellModelingEngine, type FuelCellPredictionInput } from '@/lib/fuel-cell-predictions'
 import { FuelCellType, ModelFidelity } from '@/lib/types/fuel-cell-types'
+import { prisma } from '@/lib/db'
 
 // ============================================================================
 // VALIDATION SCHEMAS
@@ -35,7 +38,22 @@ const FuelCellPredictionSchema = z.object({
   
   // Optional advanced parameters
   stackVoltage: z.number().min(0).max(2000).optional(), // V
-  currentDensity: z.number().min(0).max(10).optional() // A/cm²
+  currentDensity: z.number().min(0).max(10).optional(), // A/cm²
+  
+  // Calibrated electrochemistry: a saved calibration name or explicit values
+  calibrationName: z.string().min(1).optional(),
+  electrochemicalParameters: z.object({
+    openCircuitVoltage: z.number().positive(),
+    exchangeCurrentDensity: z.number().positive(),
+    tafelSlope: z.number().positive(),
+    areaSpecificResistance: z.number().positive(),
+    limitingCurrentDensity: z.number().positive(),
+    concentrationCoefficient: z.number().positive()
+  }).partial().optional(),
+  
+  // Polarization curve output
+  includePolarizationCurve: z.boolean().optional(),
+  curvePoints: z.number().int().min(5).max(500).optional()
 })
 
 // ============================================================================
@@ -48,7 +66,7 @@ export async function POST(request: NextRequest) {
     
     // Parse and validate request body
     const body = await request.json()
-    const validatedInput = FuelCellPredictionSchema.parse(body)
+    const { includePolarizationCurve, curvePoints, calibrationName, ...validatedInput } = FuelCellPredictionSchema.parse(body)
 
     // Convert to prediction input format
     const predictionInput: FuelCellPredictionInput = {
@@ -56,11 +74,26 @@ export async function POST(request: NextRequest) {
       modelFidelity: validatedInput.modelFidelity || 'BASIC'
     }
 
+    // Saved calibrations belong to the user who fitted them
+    if (calibrationName) {
+      const session = await getServerSession(authOptions)
+      if (!session?.user?.id) {
+        return NextResponse.json({
+          success: false,
+          error: 'Authentication required'
+        }, { status: 401 })
+      }
+      predictionInput.electrochemicalParameters = await loadCalibration(session.user.id, calibrationName, predictionInput.fuelCellType)
+    }
+
     // Validate fuel cell type specific constraints
     validateFuelCellConstraints(predictionInput)
 
     // Calculate prediction
     const result = await FuelCellModelingEngine.getPrediction(predictionInput)
+    if (includePolarizationCurve) {
+      result.polarizationCurve = FuelCellModelingEngine.getPolarizationCurve(predictionInput, { points: curvePoints })
+    }
 
     // Add API metadata
     const response = {
@@ -71,7 +104,8 @@ export async function POST(request: NextRequest) {
         processingTime: Date.now() - startTime,
         requestId: generateRequestId(),
         timestamp: new Date().toISOString(),
-        modelVersion: getModelVersion(predictionInput.fuelCellType, predictionInput.modelFidelity)
+        modelVersion: getModelVersion(predictionInput.fuelCellType, predictionInput.modelFidelity),
+        calibration: calibrationName || (predictionInput.electrochemicalParameters ? 'custom' : 'default')
       }
     }
 
@@ -92,6 +126,14 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (error instanceof Error && error.message.startsWith('Calibration')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Calibration error',
+        message: error.message
+      }, { status: error.message.includes('not found') ? 404 : 400 })
+    }
+
     if (error instanceof Error && error.message.includes('constraint')) {
       return NextResponse.json({
         success: false,
@@ -159,6 +201,17 @@ export async function GET(request: NextRequest) {
 // VALIDATION HELPERS
 // ============================================================================
 
+async function loadCalibration(userId: string, name: string, fuelCellType: FuelCellType) {
+  const calibration = await prisma.fuelCellCalibration.findUnique({ where: { userId_name: { userId, name } } })
+  if (!calibration) {
+    throw new Error(`Calibration "${name}" not found`)
+  }
+  if (calibration.fuelCellType !== fuelCellType) {
+    throw new Error(`Calibration "${name}" was fitted for ${calibration.fuelCellType}, not ${fuelCellType}`)
+  }
+  return JSON.parse(calibration.parameters)
+}
+
 function validateFuelCellConstraints(input: FuelCellPredictionInput) {
   const constraints = getFuelCellTypeConstraints()[input.fuelCellType]
   
@@ -237,6 +290,7 @@ function getModelFeatures() {
     BASIC: [
       'Power and efficiency calculations',
       'Basic voltage-current characteristics',
+      'Polarization curve with activation/ohmic/concentration loss breakdown',
       'Material factor analysis',
       'Operating condition optimization'
     ],
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { FuelCellSensitivityEngine } from '@/lib/fuel-cell-sensitivity'
+import { FuelCellType } from '@/lib/types/fuel-cell-types'
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const FuelCellTypeSchema = z.enum([FuelCellType.PEM, FuelCellType.SOFC, FuelCellType.PAFC, FuelCellType.MCFC, FuelCellType.AFC])
+
+const RangeSchema = z.object({
+  min: z.number(),
+  max: z.number()
+}).refine(range => range.min <= range.max, { message: 'min must not exceed max' })
+
+const SensitivityConstraintsSchema = z.object({
+  cellCount: RangeSchema,
+  activeArea: RangeSchema,
+  temperature: RangeSchema,
+  pressure: RangeSchema,
+  humidity: RangeSchema.optional(),
+  fuelFlowRate: RangeSchema,
+  airFlowRate: RangeSchema,
+  availableMaterials: z.object({
+    anodeCatalysts: z.array(z.string()).optional(),
+    cathodeCatalysts: z.array(z.string()).optional(),
+    membraneTypes: z.array(z.string()).optional()
+  }).optional()
+})
+
+const SensitivityRequestSchema = z.object({
+  fuelCellType: FuelCellTypeSchema,
+  constraints: SensitivityConstraintsSchema,
+  method: z.enum(['MORRIS', 'SOBOL']),
+  output: z.enum(['POWER', 'EFFICIENCY', 'VOLTAGE', 'POWER_DENSITY']).default('POWER'),
+  baseline: z.object({
+    cellCount: z.number().optional(),
+    activeArea: z.number().optional(),
+    operatingTemperature: z.number().optional(),
+    operatingPressure: z.number().optional(),
+    humidity: z.number().optional(),
+    fuelFlowRate: z.number().optional(),
+    airFlowRate: z.number().optional(),
+    anodeCatalyst: z.string().optional(),
+    cathodeCatalyst: z.string().optional(),
+    membraneType: z.string().optional(),
+    modelFidelity: z.enum(['BASIC', 'INTERMEDIATE', 'ADVANCED']).optional()
+  }).optional(),
+  options: z.object({
+    trajectories: z.number().int().min(4).max(200).optional(),
+    levels: z.number().int().min(4).max(10).refine(levels => levels % 2 === 0, { message: 'levels must be even' }).optional(),
+    samples: z.number().int().min(32).max(4096).optional(),
+    bootstrapResamples: z.number().int().min(0).max(1000).optional()
+  }).optional()
+})
+
+// ============================================================================
+// API ROUTE HANDLERS
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const startTime = Date.now()
+
+    // Parse and validate request body
+    const body = await request.json()
+    const validatedInput = SensitivityRequestSchema.parse(body)
+
+    const result = await FuelCellSensitivityEngine.analyze(validatedInput)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      metadata: {
+        apiVersion: '1.0',
+        processingTime: Date.now() - startTime,
+        requestId: generateRequestId(),
+        timestamp: new Date().toISOString(),
+        fuelCellType: validatedInput.fuelCellType,
+        method: validatedInput.method,
+        output: validatedInput.output
+      }
+    }, { status: 200 })
+
+  } catch (error) {
+    // Log error in development only
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Fuel cell sensitivity API error:', error)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: err.code
+        }))
+      }, { status: 400 })
+    }
+
+    if (error instanceof Error && error.message.includes('non-zero range')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Constraint validation error',
+        message: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      message: process.env.NODE_ENV === 'development' ? error instanceof Error ? error.message : String(error) : 'Sensitivity analysis failed'
+    }, { status: 500 })
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    data: {
+      methods: [
+        {
+          name: 'MORRIS',
+          description: 'Elementary effects screening along random one-at-a-time trajectories',
+          cost: 'trajectories × (parameters + 1) evaluations',
+          indices: ['mu', 'muStar', 'sigma'],
+          options: { trajectories: 20, levels: 4 }
+        },
+        {
+          name: 'SOBOL',
+          description: 'Variance-based first- and total-order indices with Saltelli sampling',
+          cost: 'samples × (parameters + 2) evaluations',
+          indices: ['firstOrder', 'totalOrder'],
+          options: { samples: 256, bootstrapResamples: 100 }
+        }
+      ],
+      outputs: ['POWER', 'EFFICIENCY', 'VOLTAGE', 'POWER_DENSITY'],
+      parameters: ['cellCount', 'activeArea', 'operatingTemperature', 'operatingPressure', 'humidity', 'fuelFlowRate', 'airFlowRate'],
+      recommendations: [
+        'Run MORRIS first to screen out unimportant parameters cheaply',
+        'Use SOBOL on the remaining parameters to quantify interactions',
+        'A large gap between total and first-order indices signals strong interactions'
+      ]
+    },
+    metadata: {
+      apiVersion: '1.0',
+      timestamp: new Date().toISOString()
+    }
+  })
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function generateRequestId(): string {
+  return `sens_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { buildCitationNetwork } from '@/lib/citation-verifier'
+
+const NetworkQuerySchema = z.object({
+  depth: z.coerce.number().int().min(1).max(3).default(1)
+})
+
+// GET /api/papers/[id]/citations/network - Papers within `depth` citations of this one
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+
+    const { depth } = NetworkQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const paper = await prisma.researchPaper.findUnique({
+      where: { id },
+      select: { isPublic: true, uploadedBy: true }
+    })
+
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!paper.isPublic && paper.uploadedBy !== session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const papers = await buildCitationNetwork(id, depth, session?.user?.id)
+
+    return NextResponse.json({ paperId: id, depth, papers })
+  } catch (error) {
+    console.error('Error building citation network:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid network options',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to build citation network' },
+      { status: 500 }
+    )
+  }
+}
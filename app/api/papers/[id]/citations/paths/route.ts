@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { findCitationPaths } from '@/lib/citation-verifier'
+
+const PathQuerySchema = z.object({
+  to: z.string().min(1),
+  maxDepth: z.coerce.number().int().min(1).max(5).default(3)
+})
+
+// GET /api/papers/[id]/citations/paths?to= - Reference chains from this paper to another
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+
+    const { to, maxDepth } = PathQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const papers: Array<{ id: string; isPublic: boolean; uploadedBy: string | null }> =
+      await prisma.researchPaper.findMany({
+        where: { id: { in: [id, to] } },
+        select: { id: true, isPublic: true, uploadedBy: true }
+      })
+
+    if (![id, to].every(paperId => papers.some(paper => paper.id === paperId))) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      )
+    }
+
+    if (papers.some(paper => !paper.isPublic && paper.uploadedBy !== session?.user?.id)) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const paths = await findCitationPaths(id, to, maxDepth, session?.user?.id)
+
+    return NextResponse.json({ from: id, to, maxDepth, paths })
+  } catch (error) {
+    console.error('Error finding citation paths:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid path options',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to find citation paths' },
+      { status: 500 }
+    )
+  }
+}
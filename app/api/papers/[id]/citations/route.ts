@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { linkReferences } from '@/lib/citation-verifier'
+import { recordAudit } from '@/lib/audit'
+
+const ReferenceListSchema = z.object({
+  references: z.union([
+    z.string().trim().min(1, 'Reference list is empty'),
+    z.array(z.string().trim().min(1)).min(1, 'Reference list is empty').max(1000)
+  ])
+})
+
+// GET /api/papers/[id]/citations - Stored reference list, resolved and stub entries
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+
+    const paper = await prisma.researchPaper.findUnique({
+      where: { id },
+      select: { isPublic: true, uploadedBy: true }
+    })
+
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!paper.isPublic && paper.uploadedBy !== session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const references = await prisma.paperCitation.findMany({
+      where: { citingPaperId: id },
+      orderBy: { position: 'asc' },
+      select: {
+        position: true,
+        rawText: true,
+        title: true,
+        year: true,
+        citedDoi: true,
+        citedPaper: { select: { id: true, title: true } }
+      }
+    })
+
+    return NextResponse.json({ paperId: id, references })
+  } catch (error) {
+    console.error('Error fetching references:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch references' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/papers/[id]/citations - Replace the reference list and link cited papers
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    const paper = await prisma.researchPaper.findUnique({
+      where: { id },
+      select: { uploadedBy: true }
+    })
+
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      )
+    }
+
+    if (paper.uploadedBy !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const { references } = ReferenceListSchema.parse(await request.json())
+    const result = await linkReferences(id, references)
+
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'paper.citations.link',
+      resource: `paper:${id}`,
+      summary: `Replaced reference list: ${result.resolved} of ${result.total} resolved`,
+      metadata: { total: result.total, resolved: result.resolved, unresolved: result.unresolved }
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error linking references:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid reference list',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to link references' },
+      { status: 500 }
+    )
+  }
+}
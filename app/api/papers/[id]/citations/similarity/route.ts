@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { calculateCitationSimilarity } from '@/lib/citation-verifier'
+
+const SimilarityQuerySchema = z.object({
+  with: z.string().min(1)
+})
+
+// GET /api/papers/[id]/citations/similarity?with= - Shared references and citing papers
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+
+    const { with: otherId } = SimilarityQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const papers: Array<{ id: string; isPublic: boolean; uploadedBy: string | null }> =
+      await prisma.researchPaper.findMany({
+        where: { id: { in: [id, otherId] } },
+        select: { id: true, isPublic: true, uploadedBy: true }
+      })
+
+    if (![id, otherId].every(paperId => papers.some(paper => paper.id === paperId))) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      )
+    }
+
+    if (papers.some(paper => !paper.isPublic && paper.uploadedBy !== session?.user?.id)) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const similarity = await calculateCitationSimilarity(id, otherId)
+
+    return NextResponse.json({ paperId: id, otherPaperId: otherId, similarity })
+  } catch (error) {
+    console.error('Error calculating citation similarity:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid similarity options',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to calculate citation similarity' },
+      { status: 500 }
+    )
+  }
+}
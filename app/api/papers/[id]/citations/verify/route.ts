@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/app/api/auth/[...nextauth]/auth'
+import prisma from '@/lib/db'
 import { verifyCitations } from '@/lib/citation-verifier'
 import { getDemoConfig } from '@/lib/demo-mode'
+import { recordAudit } from '@/lib/audit'
 
 export async function POST(
   request: NextRequest,
@@ -11,7 +13,7 @@ export async function POST(
   try {
     // Check authentication
     const session = await getServerSession(authOptions)
-    if (!session) {
+    if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'Authentication required' },
         { status: 401 }
@@ -32,9 +34,42 @@ export async function POST(
 
     const { id: paperId } = await params
 
+    // Verification replaces the stored reference list, so only the uploader may run it
+    const paper = await prisma.researchPaper.findUnique({
+      where: { id: paperId },
+      select: { uploadedBy: true }
+    })
+
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      )
+    }
+
+    if (paper.uploadedBy !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
     // Verify citations
     const result = await verifyCitations(paperId)
 
+    if (result.storedReferences !== undefined) {
+      await recordAudit(request, {
+        userId: session.user.id,
+        action: 'paper.citations.verify',
+        resource: `paper:${paperId}`,
+        summary: `Replaced reference list with ${result.storedReferences} scraped references`,
+        metadata: {
+          verified: result.verifiedCitations.length,
+          unverified: result.unverifiedCitations.length
+        }
+      })
+    }
+
     return NextResponse.json({
       success: true,
       paperId: result.paperId,
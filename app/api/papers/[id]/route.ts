@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth/auth-options'
 import prisma from '@/lib/db'
+import { auditChanges, recordAudit } from '@/lib/audit'
 
 // GET /api/papers/[id] - Get a single paper
 export async function GET(
@@ -177,10 +178,9 @@ export async function PUT(
       )
     }
     
-    // Check if user owns the paper
+    // Check if user owns the paper; the full record is kept for the audit diff
     const existingPaper = await prisma.researchPaper.findUnique({
-      where: { id },
-      select: { uploadedBy: true }
+      where: { id }
     })
     
     if (!existingPaper) {
@@ -255,6 +255,13 @@ export async function PUT(
       data: updateData,
     })
     
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'paper.update',
+      resource: `paper:${id}`,
+      changes: auditChanges(existingPaper, paper, Object.keys(updateData))
+    })
+    
     return NextResponse.json(paper)
   } catch (error: any) {
     console.error('Error updating paper:', error)
@@ -293,7 +300,7 @@ export async function DELETE(
     // Check if user owns the paper
     const paper = await prisma.researchPaper.findUnique({
       where: { id },
-      select: { uploadedBy: true }
+      select: { uploadedBy: true, title: true, doi: true }
     })
     
     if (!paper) {
@@ -314,6 +321,14 @@ export async function DELETE(
       where: { id }
     })
     
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'paper.delete',
+      resource: `paper:${id}`,
+      summary: `Deleted "${paper.title}"`,
+      metadata: { doi: paper.doi }
+    })
+    
     return NextResponse.json({ message: 'Paper deleted successfully' })
   } catch (error) {
     console.error('Error deleting paper:', error)
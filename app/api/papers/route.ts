@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth/auth-options'
 import prisma from '@/lib/db'
 import { createStringFilter, createSearchFilters } from '@/lib/database-utils'
+import { linkReferences, resolveCitationStubs } from '@/lib/citation-verifier'
+import { recordAudit } from '@/lib/audit'
 
 // GET /api/papers - List papers with pagination and advanced filtering
 export async function GET(request: NextRequest) {
@@ -428,6 +430,22 @@ export async function POST(request: NextRequest) {
         isPublic: data.isPublic !== false
       }
     })
+
+    // Link papers that already cite this DOI, then this paper's own references
+    if (paper.doi) {
+      await resolveCitationStubs(paper.id, paper.doi)
+    }
+    if (data.references) {
+      await linkReferences(paper.id, data.references)
+    }
+    
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'paper.create',
+      resource: `paper:${paper.id}`,
+      summary: `Created "${paper.title}"`,
+      metadata: { doi: paper.doi, isPublic: paper.isPublic }
+    })
     
     return NextResponse.json(paper, { status: 201 })
   } catch (error: any) {
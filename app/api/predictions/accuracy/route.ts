@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { chunk } from '@/lib/measurement-ingestion'
+import {
+  aggregateAccuracy,
+  hourlyResidualSeries,
+  parsePrediction,
+  residualMetrics,
+  type ExperimentAccuracy,
+  type HourlyPower,
+  type PredictionSnapshot
+} from '@/lib/model-accuracy'
+
+// Newest experiments pooled per request, and how many share one grouped measurement query
+const MAX_EXPERIMENTS = 200
+const GROUP_BATCH = 25
+
+const AccuracyQuerySchema = z.object({
+  designType: z.string().min(1).optional(),
+  // Bins are built from hourly sums, so they span whole hours
+  binMinutes: z.coerce.number().int().min(60).max(1440).default(60)
+    .refine(minutes => minutes % 60 === 0, 'Must be a whole number of hours'),
+  skipHours: z.coerce.number().min(0).max(720).default(0)
+})
+
+// GET /api/predictions/accuracy - Prediction error per design type across public experiments and the caller's own
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { designType, ...options } = AccuracyQuerySchema.parse(Object.fromEntries(searchParams))
+
+    // Other users' private experiments stay out, even as aggregates: a narrow
+    // design filter could otherwise single one of them out
+    const experiments = await prisma.experiment.findMany({
+      where: {
+        prediction: { not: null },
+        status: { not: 'ARCHIVED' },
+        OR: [{ isPublic: true }, { userId: session.user.id }]
+      },
+      select: { id: true, prediction: true },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_EXPERIMENTS
+    })
+
+    const predictions = new Map<string, PredictionSnapshot>()
+    for (const experiment of experiments as { id: string; prediction: string }[]) {
+      const prediction = parsePrediction(experiment.prediction)
+      if (!prediction || (designType && (prediction.designType ?? 'unspecified') !== designType)) continue
+      predictions.set(experiment.id, prediction)
+    }
+
+    // The database sums power per experiment and hour; only those sums are loaded
+    const entries: ExperimentAccuracy[] = []
+    for (const ids of chunk([...predictions.keys()], GROUP_BATCH)) {
+      const groups = await prisma.measurement.groupBy({
+        by: ['experimentId', 'hour'],
+        where: { experimentId: { in: ids }, hour: { not: null } },
+        _sum: { power: true },
+        _count: { power: true }
+      })
+
+      const hours = new Map<string, HourlyPower[]>()
+      for (const group of groups as { experimentId: string; hour: Date; _sum: { power: number | null }; _count: { power: number } }[]) {
+        const series = hours.get(group.experimentId) ?? []
+        series.push({ hour: group.hour, sum: group._sum.power ?? 0, count: group._count.power })
+        hours.set(group.experimentId, series)
+      }
+
+      for (const id of ids) {
+        const prediction = predictions.get(id)!
+        const metrics = residualMetrics(hourlyResidualSeries(hours.get(id) ?? [], prediction, options))
+        if (metrics.points > 0) entries.push({ experimentId: id, prediction, metrics })
+      }
+    }
+
+    return NextResponse.json({
+      ...aggregateAccuracy(entries),
+      settings: options,
+      truncated: experiments.length === MAX_EXPERIMENTS, // Older experiments were left out
+      generatedAt: new Date().toISOString()
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid accuracy options',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error computing model accuracy:', error)
+    return NextResponse.json(
+      { error: 'Failed to compute model accuracy' },
+      { status: 500 }
+    )
+  }
+}
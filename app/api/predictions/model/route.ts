@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { POWER_MODEL_FEATURES } from '@/lib/power-model'
+
+// GET /api/predictions/model - Trained power model versions and their cross-validated error
+export async function GET() {
+  try {
+    const models = await prisma.powerModel.findMany({
+      select: { version: true, algorithm: true, metrics: true, trainingSize: true, isActive: true, createdAt: true },
+      orderBy: { version: 'desc' }
+    })
+
+    const versions = models.map((model: {
+      version: number
+      algorithm: string
+      metrics: string
+      trainingSize: number
+      isActive: boolean
+      createdAt: Date
+    }) => ({
+      ...model,
+      metrics: JSON.parse(model.metrics),
+      createdAt: model.createdAt.toISOString()
+    }))
+
+    return NextResponse.json({
+      active: versions.find((model: { isActive: boolean }) => model.isActive) ?? null,
+      versions,
+      features: POWER_MODEL_FEATURES,
+      fallback: 'Inputs outside the active model\'s training range use the linear formula'
+    })
+  } catch (error) {
+    console.error('Error fetching power models:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch power models' },
+      { status: 500 }
+    )
+  }
+}
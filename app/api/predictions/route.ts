@@ -1,29 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { DESIGN_MULTIPLIERS } from '@/lib/ai-predictions'
+import { loadActivePowerModel, predictPower } from '@/lib/power-model'
 
 interface PredictionRequest {
   temperature: number
   ph: number
   substrateConcentration: number
   designType?: string
-}
-
-interface PredictionResponse {
-  predictedPower: number
-  confidenceInterval: {
-    lower: number
-    upper: number
-  }
-  factors: {
-    temperature: number
-    ph: number
-    substrate: number
-    designBonus: number
-  }
+  // Optional details used by the data-driven model
+  anodeArea?: number // cm²
+  reactorVolume?: number // mL
+  anodeMaterial?: string
+  organism?: string
+  chambers?: number
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { temperature, ph, substrateConcentration, designType }: PredictionRequest = await request.json()
+    const input: PredictionRequest = await request.json()
+    const { temperature, ph, substrateConcentration } = input
 
     // Validate inputs
     if (!temperature || !ph || !substrateConcentration) {
@@ -33,86 +28,37 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (temperature < 20 || temperature > 40) {
-      return NextResponse.json(
-        { error: 'Temperature must be between 20-40°C' },
-        { status: 400 }
-      )
-    }
-
-    if (ph < 6 || ph > 8) {
-      return NextResponse.json(
-        { error: 'pH must be between 6-8' },
-        { status: 400 }
-      )
-    }
-
-    if (substrateConcentration < 0.5 || substrateConcentration > 2) {
-      return NextResponse.json(
-        { error: 'Substrate concentration must be between 0.5-2 g/L' },
-        { status: 400 }
-      )
-    }
-
-    // Simple linear regression model based on research data
-    const baselinePower = 50 // Base power in mW
-
-    // Factor contributions
-    const temperatureFactor = (temperature - 25) * 5 // 5 mW per degree above 25°C
-    const phFactor = (ph - 6.5) * 20 // 20 mW per pH unit above 6.5
-    const substrateFactor = (substrateConcentration - 1) * 30 // 30 mW per g/L above 1
-
-    // Design-specific multipliers
-    const designMultipliers: Record<string, number> = {
-      'earthen-pot': 0.8,
-      'cardboard': 0.6,
-      'mason-jar': 1.0,
-      '3d-printed': 1.3,
-      'wetland': 2.2,
-      'micro-chip': 0.3,
-      'isolinear-chip': 0.9,
-      'benchtop-bioreactor': 3.5,
-      'wastewater-treatment': 5.0,
-      'brewery-processing': 4.2,
-      'architectural-facade': 8.0,
-      'benthic-fuel-cell': 2.8,
-      'kitchen-sink': 1.5
-    }
-
-    const designBonus = designType ? (designMultipliers[designType] || 1.0) - 1.0 : 0
-    const designBonusPower = baselinePower * designBonus
-
-    // Calculate predicted power
-    const predictedPower = Math.max(0, 
-      baselinePower + temperatureFactor + phFactor + substrateFactor + designBonusPower
-    )
-
-    // Add some realistic noise and confidence interval
-    const noise = Math.random() * 20 - 10 // ±10 mW noise
-    const finalPrediction = Math.max(0, predictedPower + noise)
+    // The trained model checks its own domain and falls back to the formula outside it
+    const model = await loadActivePowerModel().catch(error => {
+      console.error('Failed to load power model, using formula:', error)
+      return null
+    })
+    const prediction = predictPower(input, model)
+
+    if (prediction.model.kind === 'formula') {
+      if (temperature < 20 || temperature > 40) {
+        return NextResponse.json(
+          { error: 'Temperature must be between 20-40°C' },
+          { status: 400 }
+        )
+      }
 
-    // Confidence interval (±15% typically)
-    const confidenceRange = finalPrediction * 0.15
-    const confidenceInterval = {
-      lower: Math.max(0, finalPrediction - confidenceRange),
-      upper: finalPrediction + confidenceRange
-    }
+      if (ph < 6 || ph > 8) {
+        return NextResponse.json(
+          { error: 'pH must be between 6-8' },
+          { status: 400 }
+        )
+      }
 
-    const response: PredictionResponse = {
-      predictedPower: Math.round(finalPrediction * 100) / 100,
-      confidenceInterval: {
-        lower: Math.round(confidenceInterval.lower * 100) / 100,
-        upper: Math.round(confidenceInterval.upper * 100) / 100
-      },
-      factors: {
-        temperature: Math.round(temperatureFactor * 100) / 100,
-        ph: Math.round(phFactor * 100) / 100,
-        substrate: Math.round(substrateFactor * 100) / 100,
-        designBonus: Math.round(designBonusPower * 100) / 100
+      if (substrateConcentration < 0.5 || substrateConcentration > 2) {
+        return NextResponse.json(
+          { error: 'Substrate concentration must be between 0.5-2 g/L' },
+          { status: 400 }
+        )
       }
     }
 
-    return NextResponse.json(response)
+    return NextResponse.json(prediction)
 
   } catch (error) {
     console.error('Prediction API error:', error)
@@ -130,27 +76,19 @@ export async function GET() {
       POST: {
         description: 'Get power output predictions',
         parameters: {
-          temperature: 'number (20-40°C)',
-          ph: 'number (6-8)',
-          substrateConcentration: 'number (0.5-2 g/L)',
-          designType: 'string (optional)'
+          temperature: 'number (20-40°C for the formula; the trained model\'s range otherwise)',
+          ph: 'number (6-8 for the formula)',
+          substrateConcentration: 'number (0.5-2 g/L for the formula)',
+          designType: 'string (optional)',
+          anodeArea: 'number cm² (optional, enables the trained model)',
+          reactorVolume: 'number mL (optional)',
+          anodeMaterial: 'string (optional)',
+          organism: 'string (optional)',
+          chambers: 'number (optional)'
         }
-      }
+      },
+      'GET /api/predictions/model': 'Active trained model version and cross-validated error'
     },
-    supportedDesigns: [
-      'earthen-pot',
-      'cardboard', 
-      'mason-jar',
-      '3d-printed',
-      'wetland',
-      'micro-chip',
-      'isolinear-chip',
-      'benchtop-bioreactor',
-      'wastewater-treatment',
-      'brewery-processing',
-      'architectural-facade',
-      'benthic-fuel-cell',
-      'kitchen-sink'
-    ]
+    supportedDesigns: Object.keys(DESIGN_MULTIPLIERS)
   })
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import prisma from '@/lib/db'
+import { analyzeCitationGraph, type GraphCitation } from '@/lib/citation-graph'
+
+const GraphMetricsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  minShared: z.coerce.number().int().min(1).max(50).default(2),
+  damping: z.coerce.number().gt(0).lt(1).default(0.85)
+})
+
+const parseKeywords = (keywords: string | null): string[] => {
+  if (!keywords) return []
+  try {
+    const parsed = JSON.parse(keywords)
+    return Array.isArray(parsed) ? parsed.filter((keyword): keyword is string => typeof keyword === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+// GET /api/research/graph-metrics - Influence ranking, research clusters and similarity over the citation graph
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { searchParams } = new URL(request.url)
+
+    const { limit, minShared, damping } = GraphMetricsQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const visible = {
+      OR: [
+        { isPublic: true },
+        ...(session?.user?.id ? [{ uploadedBy: session.user.id }] : [])
+      ]
+    }
+
+    // Relation filters keep the graph to visible papers without listing their ids;
+    // a visible paper's references are all kept, since unresolved ones still couple papers
+    const [citations, papers]: [
+      GraphCitation[],
+      Array<{ id: string; title: string; publicationDate: Date | null; keywords: string | null }>
+    ] = await Promise.all([
+      prisma.paperCitation.findMany({
+        where: { citingPaper: visible },
+        select: { citingPaperId: true, citedPaperId: true, citedDoi: true }
+      }),
+      prisma.researchPaper.findMany({
+        where: {
+          AND: [visible, { OR: [{ citations: { some: {} } }, { citedBy: { some: {} } }] }]
+        },
+        select: { id: true, title: true, publicationDate: true, keywords: true }
+      })
+    ])
+
+    const metrics = analyzeCitationGraph(
+      papers.map(paper => ({
+        id: paper.id,
+        title: paper.title,
+        year: paper.publicationDate ? new Date(paper.publicationDate).getFullYear() : null,
+        keywords: parseKeywords(paper.keywords)
+      })),
+      citations,
+      { limit, minShared, damping }
+    )
+
+    return NextResponse.json(metrics)
+  } catch (error) {
+    console.error('Error computing citation graph metrics:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid graph metrics options',
+          details: error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to compute citation graph metrics' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/auth-options';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
+import { auditChanges, recordAudit } from '@/lib/audit';
 
 const onboardingUpdateSchema = z.object({
   step: z.number().min(0).max(5),
@@ -88,6 +89,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'user.onboarding.update',
+      resource: `user:${session.user.id}`,
+      changes: auditChanges(existingProfile, updatedProfile, ['onboardingStep', 'completedOnboarding']),
+    });
+
     return NextResponse.json(updatedProfile);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/auth-options';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
+import { auditChanges, recordAudit } from '@/lib/audit';
 
 const profileUpdateSchema = z.object({
   avatar: z.string().url().optional().nullable(),
@@ -125,6 +126,13 @@ export async function PUT(request: NextRequest) {
       },
     });
 
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'user.profile.update',
+      resource: `user:${session.user.id}`,
+      changes: auditChanges(existingProfile, updatedProfile, Object.keys(validated)),
+    });
+
     // Parse interests back to array
     const responseData = {
       ...updatedProfile,
@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth/auth-options';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
+import { auditChanges, recordAudit } from '@/lib/audit';
 
 const userUpdateSchema = z.object({
   name: z.string().min(1).max(100).optional(),
@@ -65,6 +66,11 @@ export async function PUT(request: NextRequest) {
     const body = await request.json();
     const validated = userUpdateSchema.parse(body);
 
+    const previous = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { name: true, institution: true, researchArea: true, bio: true },
+    });
+
     const updatedUser = await prisma.user.update({
       where: { id: session.user.id },
       data: {
@@ -87,6 +93,13 @@ export async function PUT(request: NextRequest) {
       },
     });
 
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'user.update',
+      resource: `user:${session.user.id}`,
+      changes: auditChanges(previous, updatedUser, Object.keys(validated)),
+    });
+
     return NextResponse.json(updatedUser);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -145,6 +158,13 @@ export async function PATCH(request: NextRequest) {
       data: { password: hashedPassword },
     });
 
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'user.password_change',
+      resource: `user:${session.user.id}`,
+      summary: 'Changed password',
+    });
+
     return NextResponse.json({ message: 'Password updated successfully' });
   } catch (error) {
     if (error instanceof z.ZodError) {
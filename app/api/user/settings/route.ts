@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/auth-options';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
+import { auditChanges, recordAudit } from '@/lib/audit';
 
 const settingsUpdateSchema = z.object({
   emailNotifications: z.boolean().optional(),
@@ -92,6 +93,13 @@ export async function PUT(request: NextRequest) {
       },
     });
 
+    await recordAudit(request, {
+      userId: session.user.id,
+      action: 'user.settings.update',
+      resource: `user:${session.user.id}`,
+      changes: auditChanges(existingSettings, updatedSettings, Object.keys(validated)),
+    });
+
     // Parse dashboard layout back
     const responseData = {
       ...updatedSettings,
@@ -3,6 +3,11 @@
 import { useEffect, useState } from 'react'
 import { useParams } from 'next/navigation'
 import ExperimentChart from '@/components/ExperimentChart'
+import ExperimentAnalyticsPanel from '@/components/ExperimentAnalyticsPanel'
+import PredictionResidualsPanel, { type ExperimentResiduals } from '@/components/PredictionResidualsPanel'
+import { importLocalExperiments, readLocalExperiments } from '@/lib/experiment-storage'
+import type { FeedStatus } from '@/lib/experiment-feed'
+import type { ExperimentAnalytics } from '@/lib/experiment-analytics'
 
 interface ExperimentDetails {
   id: string
@@ -15,13 +20,63 @@ interface ExperimentDetails {
     ph: number
     substrateConcentration: number
     notes?: string
+    [key: string]: unknown // Electrode area, volumes and COD used by the analytics
   }
   stats: {
     totalMeasurements: number
     averagePower: number
     maxPower: number
-    efficiency: number
+    efficiency?: number // Only recorded for browser-only experiments
   }
+  // Only present for experiments stored server-side
+  isOwner?: boolean
+  feed?: FeedStatus
+}
+
+// Map an /api/experiments/[id] response onto the page's view of an experiment
+function fromApiExperiment(data: any): ExperimentDetails {
+  const parameters = data.parameters ?? {}
+  return {
+    id: data.id,
+    name: data.name,
+    designName: data.designName ?? 'Unknown design',
+    status: String(data.status ?? 'setup').toLowerCase(),
+    createdAt: data.createdAt,
+    parameters: {
+      ...parameters,
+      temperature: parameters.temperature,
+      ph: parameters.ph,
+      substrateConcentration: parameters.substrateConcentration,
+      notes: parameters.notes
+    },
+    stats: {
+      totalMeasurements: data.stats?.totalMeasurements ?? data.measurements?.length ?? 0,
+      averagePower: Number((data.stats?.averagePower ?? 0).toFixed(1)),
+      maxPower: Number((data.stats?.maxPower ?? 0).toFixed(1))
+    },
+    isOwner: data.isOwner,
+    feed: data.feed
+  }
+}
+
+function formatAge(seconds: number): string {
+  if (seconds < 120) return `${seconds}s`
+  if (seconds < 7200) return `${Math.round(seconds / 60)} min`
+  if (seconds < 172800) return `${Math.round(seconds / 3600)} h`
+  return `${Math.round(seconds / 86400)} days`
+}
+
+const FEED_BADGES: Record<FeedStatus['state'], { label: string; className: string } | null> = {
+  live: { label: 'Logger live', className: 'bg-green-100 text-green-800' },
+  stale: { label: 'Logger stopped reporting', className: 'bg-red-100 text-red-800' },
+  waiting: { label: 'Waiting for logger', className: 'bg-yellow-100 text-yellow-800' },
+  offline: null
+}
+
+interface UploadStatus {
+  kind: 'info' | 'success' | 'error'
+  message: string
+  details?: string[]
 }
 
 export default function ExperimentPage() {
@@ -29,15 +84,26 @@ export default function ExperimentPage() {
   const [experiment, setExperiment] = useState<ExperimentDetails | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [csvData, setCsvData] = useState<string>('')
-  const [uploadStatus, setUploadStatus] = useState<string>('')
+  const [uploadStatus, setUploadStatus] = useState<UploadStatus | null>(null)
+  const [chartVersion, setChartVersion] = useState(0)
+  const [analytics, setAnalytics] = useState<ExperimentAnalytics | null>(null)
+  const [residuals, setResiduals] = useState<ExperimentResiduals | null>(null)
+  const [loggerToken, setLoggerToken] = useState<string | null>(null)
+  const [loggerError, setLoggerError] = useState<string | null>(null)
 
   useEffect(() => {
-    const loadExperiment = () => {
+    const loadExperiment = async () => {
       try {
-        // Try to load from localStorage first
-        const storedExperiments = JSON.parse(localStorage.getItem('messai-experiments') || '[]')
-        const foundExperiment = storedExperiments.find((exp: any) => exp.id === params.id)
+        // Signed-in users get this browser's experiments moved into their account once
+        const importedIds = await importLocalExperiments().catch(() => null)
+        const experimentId = importedIds?.[params.id as string] ?? (params.id as string)
+        if (experimentId !== params.id) {
+          window.history.replaceState(null, '', `/experiment/${experimentId}`)
+        }
+
+        // Experiments of signed-out visitors only exist in this browser
+        const storedExperiments = readLocalExperiments()
+        const foundExperiment = storedExperiments.find((exp: any) => exp.id === experimentId)
         
         if (foundExperiment) {
           // Use stored experiment data
@@ -45,7 +111,15 @@ export default function ExperimentPage() {
           setLoading(false)
           return
         }
-        
+
+        const response = await fetch(`/api/experiments/${experimentId}`).catch(() => null)
+        if (response?.ok) {
+          setExperiment(fromApiExperiment(await response.json()))
+          loadAnalytics(experimentId)
+          setLoading(false)
+          return
+        }
+
         // Fallback to mock data for demo purposes
         const mockExperiment: ExperimentDetails = {
           id: params.id as string,
@@ -76,23 +150,93 @@ export default function ExperimentPage() {
       }
     }
 
-    setTimeout(loadExperiment, 500)
+    loadExperiment()
   }, [params.id])
 
+  const loadAnalytics = async (experimentId: string) => {
+    const [metrics, prediction] = await Promise.all([
+      fetch(`/api/experiments/${experimentId}/analytics`).catch(() => null),
+      fetch(`/api/experiments/${experimentId}/prediction`).catch(() => null)
+    ])
+    setAnalytics(metrics?.ok ? await metrics.json() : null)
+    setResiduals(prediction?.ok ? await prediction.json() : null)
+  }
+
+  // Stats and metrics after new data or parameters
+  const refreshFromApi = async (experimentId: string) => {
+    const updated = await fetch(`/api/experiments/${experimentId}`).catch(() => null)
+    if (updated?.ok) setExperiment(fromApiExperiment(await updated.json()))
+    await loadAnalytics(experimentId)
+  }
+
   const handleCsvUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
-    if (!file) return
-
-    setUploadStatus('Uploading...')
-    
-    const text = await file.text()
-    setCsvData(text)
-    
-    // Simulate processing
-    setTimeout(() => {
-      setUploadStatus('Upload successful! Data integrated into charts.')
-      setTimeout(() => setUploadStatus(''), 3000)
-    }, 1500)
+    if (!file || !experiment) return
+
+    setUploadStatus({ kind: 'info', message: 'Uploading...' })
+
+    const form = new FormData()
+    form.append('file', file)
+    const response = await fetch(`/api/experiments/${experiment.id}/measurements`, {
+      method: 'POST',
+      body: form
+    }).catch(() => null)
+    const result = response ? await response.json().catch(() => null) : null
+
+    if (!response?.ok || !result) {
+      const message = response?.status === 401 || response?.status === 404
+        ? 'Sign in and save this experiment to your account to store measurements.'
+        : result?.error || 'Upload failed'
+      setUploadStatus({ kind: 'error', message })
+      return
+    }
+
+    const skipped = result.duplicates.inFile + result.duplicates.alreadyStored
+    setUploadStatus({
+      kind: result.inserted > 0 ? 'success' : 'info',
+      message: `Stored ${result.inserted.toLocaleString()} of ${result.totalRows.toLocaleString()} rows` +
+        (skipped > 0 ? `, ${skipped.toLocaleString()} duplicates skipped` : '') +
+        (result.rejectedRows > 0 ? `, ${result.rejectedRows.toLocaleString()} rejected` : ''),
+      details: [
+        ...result.warnings,
+        ...result.errors.slice(0, 5).map((error: { row: number; message: string }) => `Row ${error.row}: ${error.message}`)
+      ]
+    })
+    event.target.value = ''
+
+    if (result.inserted > 0) {
+      setChartVersion(version => version + 1)
+      await refreshFromApi(experiment.id)
+    }
+  }
+
+  const updateFeed = (feed: FeedStatus) => {
+    setExperiment(current => (current ? { ...current, feed } : current))
+  }
+
+  const issueLoggerToken = async () => {
+    if (!experiment) return
+    setLoggerError(null)
+    const response = await fetch(`/api/experiments/${experiment.id}/ingestion-token`, { method: 'POST' }).catch(() => null)
+    if (!response?.ok) {
+      setLoggerError('Could not create a logger token')
+      return
+    }
+    const { token } = await response.json()
+    setLoggerToken(token)
+    if (experiment.feed) updateFeed({ ...experiment.feed, hasLogger: true })
+  }
+
+  const revokeLoggerToken = async () => {
+    if (!experiment) return
+    setLoggerError(null)
+    const response = await fetch(`/api/experiments/${experiment.id}/ingestion-token`, { method: 'DELETE' }).catch(() => null)
+    if (!response?.ok) {
+      setLoggerError('Could not revoke the logger token')
+      return
+    }
+    setLoggerToken(null)
+    if (experiment.feed) updateFeed({ ...experiment.feed, hasLogger: false, state: 'offline' })
   }
 
   const downloadSampleCsv = () => {
@@ -161,6 +305,11 @@ export default function ExperimentPage() {
     )
   }
 
+  // Browser-only records carry their own figure; stored experiments use the measured coulombic efficiency
+  const coulombicEfficiency = analytics?.coulombicEfficiency.percent
+  const efficiency = experiment.stats.efficiency ??
+    (coulombicEfficiency !== null && coulombicEfficiency !== undefined ? Number(coulombicEfficiency.toFixed(1)) : undefined)
+
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
       <div className="flex items-center justify-between mb-8">
@@ -176,6 +325,18 @@ export default function ExperimentPage() {
             }`}>
               {experiment.status.charAt(0).toUpperCase() + experiment.status.slice(1)}
             </span>
+            {experiment.feed && FEED_BADGES[experiment.feed.state] && (
+              <span
+                className={`px-2 py-1 rounded text-xs font-medium ${FEED_BADGES[experiment.feed.state]!.className}`}
+                title={experiment.feed.secondsSinceLast !== null
+                  ? `Last reading ${formatAge(experiment.feed.secondsSinceLast)} ago; expected every ${formatAge(Math.round(experiment.feed.expectedIntervalSeconds))}`
+                  : 'No readings yet'}
+              >
+                {FEED_BADGES[experiment.feed.state]!.label}
+                {experiment.feed.state === 'stale' && experiment.feed.secondsSinceLast !== null &&
+                  ` (${formatAge(experiment.feed.secondsSinceLast)} ago)`}
+              </span>
+            )}
           </div>
         </div>
         <a
@@ -204,15 +365,43 @@ export default function ExperimentPage() {
         </div>
         <div className="bg-white rounded-lg border border-gray-200 p-6">
           <h3 className="text-sm font-medium text-gray-600 mb-2">Efficiency</h3>
-          <div className="text-2xl font-bold text-orange-600">{experiment.stats.efficiency}%</div>
+          <div className="text-2xl font-bold text-orange-600">
+            {efficiency !== undefined ? `${efficiency}%` : '—'}
+          </div>
         </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2">
           <div className="bg-white rounded-lg border border-gray-200 p-6">
-            <ExperimentChart experimentId={experiment.id} realTime={experiment.status === 'running'} />
+            <ExperimentChart
+              experimentId={experiment.id}
+              realTime={experiment.status === 'running'}
+              refreshKey={chartVersion}
+              onFeedStatus={updateFeed}
+            />
           </div>
+          {analytics && (
+            <div className="mt-6">
+              <ExperimentAnalyticsPanel
+                experimentId={experiment.id}
+                analytics={analytics}
+                parameters={experiment.parameters}
+                canEdit={Boolean(experiment.isOwner)}
+                onParametersSaved={() => refreshFromApi(experiment.id)}
+              />
+            </div>
+          )}
+          {residuals && (
+            <div className="mt-6">
+              <PredictionResidualsPanel
+                experimentId={experiment.id}
+                residuals={residuals}
+                canEdit={Boolean(experiment.isOwner)}
+                onPredictionRecorded={() => loadAnalytics(experiment.id)}
+              />
+            </div>
+          )}
         </div>
 
         <div className="space-y-6">
@@ -240,29 +429,79 @@ export default function ExperimentPage() {
             )}
           </div>
 
+          {experiment.isOwner && (
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Data Logger</h3>
+              <div className="space-y-3 text-sm">
+                <p className="text-gray-600">
+                  {experiment.feed?.hasLogger
+                    ? 'A logger token is active. Readings posted with it appear on the chart as they arrive.'
+                    : 'Create a token so a data logger can post readings to this experiment.'}
+                </p>
+                {loggerToken && (
+                  <div className="space-y-2">
+                    <p className="text-gray-700 font-medium">Copy this token now; it will not be shown again.</p>
+                    <code className="block break-all bg-gray-100 rounded p-2 text-xs">{loggerToken}</code>
+                    <code className="block break-all bg-gray-100 rounded p-2 text-xs">
+                      npm run logger:mock -- --experiment {experiment.id} --token {loggerToken}
+                    </code>
+                  </div>
+                )}
+                {loggerError && <p className="text-red-600">{loggerError}</p>}
+                <div className="flex space-x-3">
+                  <button
+                    onClick={issueLoggerToken}
+                    className="bg-primary text-white px-3 py-1.5 rounded-md hover:bg-blue-700"
+                  >
+                    {experiment.feed?.hasLogger ? 'Replace Token' : 'Create Logger Token'}
+                  </button>
+                  {experiment.feed?.hasLogger && (
+                    <button
+                      onClick={revokeLoggerToken}
+                      className="text-red-600 hover:underline"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="bg-white rounded-lg border border-gray-200 p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Data Upload</h3>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
+                <label htmlFor="measurement-upload" className="block text-sm font-medium text-gray-700 mb-2">
                   Upload CSV Data
                 </label>
                 <input
+                  id="measurement-upload"
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.tsv,.txt,.dat,.mpt,.dta"
                   onChange={handleCsvUpload}
                   className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-primary file:text-white hover:file:bg-blue-700"
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Expected columns: timestamp, voltage, current, temperature, ph
+                  CSV/TSV, EC-Lab, Gamry or Campbell logger exports with timestamp, voltage and current or power.
+                  Units in headers such as <code>Voltage (mV)</code> are converted.
                 </p>
               </div>
               
               {uploadStatus && (
                 <div className={`text-sm p-2 rounded ${
-                  uploadStatus.includes('successful') ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'
+                  uploadStatus.kind === 'success' ? 'bg-green-100 text-green-700'
+                    : uploadStatus.kind === 'error' ? 'bg-red-100 text-red-700'
+                      : 'bg-blue-100 text-blue-700'
                 }`}>
-                  {uploadStatus}
+                  <p>{uploadStatus.message}</p>
+                  {uploadStatus.details && uploadStatus.details.length > 0 && (
+                    <ul className="mt-1 text-xs list-disc list-inside">
+                      {uploadStatus.details.map((detail, index) => (
+                        <li key={index}>{detail}</li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               )}
 
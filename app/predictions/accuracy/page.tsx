@@ -0,0 +1,204 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { AccuracyReport, DesignAccuracy } from '@/lib/model-accuracy'
+
+interface AccuracyResponse extends AccuracyReport {
+  settings: { binMinutes: number; skipHours: number }
+  truncated: boolean
+  generatedAt: string
+}
+
+// Start-up periods to leave out, since the model predicts steady operation
+const SKIP_OPTIONS = [
+  { hours: 0, label: 'All data' },
+  { hours: 24, label: 'After day 1' },
+  { hours: 72, label: 'After day 3' }
+]
+
+const format = (value: number | null, digits = 3) =>
+  value === null ? '—' : Number(value.toPrecision(digits)).toLocaleString()
+
+// How much to trust a design's multiplier, from its mean absolute percentage error
+function trustLabel(design: Pick<DesignAccuracy, 'mape' | 'experiments'>) {
+  if (design.mape === null || design.experiments < 3) return { label: 'Too few runs', className: 'bg-gray-100 text-gray-700' }
+  if (design.mape <= 20) return { label: 'Good', className: 'bg-green-100 text-green-800' }
+  if (design.mape <= 50) return { label: 'Fair', className: 'bg-yellow-100 text-yellow-800' }
+  return { label: 'Poor', className: 'bg-red-100 text-red-800' }
+}
+
+export default function PredictionAccuracyPage() {
+  const [report, setReport] = useState<AccuracyResponse | null>(null)
+  const [skipHours, setSkipHours] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/predictions/accuracy?skipHours=${skipHours}`)
+        if (response.status === 401) {
+          setReport(null)
+          setError('Sign in to see model accuracy')
+          return
+        }
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        setReport(await response.json())
+        setError(null)
+      } catch (error) {
+        console.error('Error fetching model accuracy:', error)
+        setError('Failed to load model accuracy')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchReport()
+  }, [skipHours])
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="text-3xl font-bold text-gray-900">Prediction Model Accuracy</h1>
+        <div className="flex space-x-2">
+          {SKIP_OPTIONS.map(option => (
+            <button
+              key={option.hours}
+              onClick={() => setSkipHours(option.hours)}
+              className={`px-3 py-1.5 rounded-md text-sm ${
+                skipHours === option.hours ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-gray-600 mb-8">
+        Setup-time power predictions compared with measured power across public experiments and your own,
+        grouped by design type and by model. Suggested multipliers remove each design&apos;s mean bias in formula predictions.
+      </p>
+
+      {loading && <p className="text-gray-500">Loading accuracy report...</p>}
+      {error && <p className="text-red-600">{error}</p>}
+
+      {!loading && report && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="text-sm text-gray-600">Experiments</div>
+              <div className="text-2xl font-bold text-gray-900">{report.overall.experiments}</div>
+            </div>
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="text-sm text-gray-600">Hourly Points</div>
+              <div className="text-2xl font-bold text-gray-900">{report.overall.points.toLocaleString()}</div>
+            </div>
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="text-sm text-gray-600">MAPE</div>
+              <div className="text-2xl font-bold text-gray-900">{format(report.overall.mape)}%</div>
+            </div>
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="text-sm text-gray-600">RMSE</div>
+              <div className="text-2xl font-bold text-gray-900">{format(report.overall.rmse)} mW</div>
+            </div>
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="text-sm text-gray-600">Within Interval</div>
+              <div className="text-2xl font-bold text-gray-900">
+                {report.overall.coverage === null ? '—' : `${Math.round(report.overall.coverage * 100)}%`}
+              </div>
+            </div>
+          </div>
+
+          {report.designs.length === 0 ? (
+            <p className="text-gray-500">
+              No experiments with both a prediction and measurements yet.{' '}
+              <Link href="/dashboard" className="text-primary hover:underline">Start an experiment</Link>
+            </p>
+          ) : (
+            <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-3">Design</th>
+                    <th className="px-4 py-3">Experiments</th>
+                    <th className="px-4 py-3">MAPE</th>
+                    <th className="px-4 py-3">RMSE</th>
+                    <th className="px-4 py-3">Bias</th>
+                    <th className="px-4 py-3">Within Interval</th>
+                    <th className="px-4 py-3">Multiplier</th>
+                    <th className="px-4 py-3">Trust</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {report.designs.map(design => {
+                    const trust = trustLabel(design)
+                    return (
+                      <tr key={design.designType}>
+                        <td className="px-4 py-3 font-medium text-gray-900">{design.designType}</td>
+                        <td className="px-4 py-3">{design.experiments}</td>
+                        <td className="px-4 py-3">{format(design.mape)}%</td>
+                        <td className="px-4 py-3">{format(design.rmse)} mW</td>
+                        <td className="px-4 py-3">{format(design.bias)} mW</td>
+                        <td className="px-4 py-3">
+                          {design.coverage === null ? '—' : `${Math.round(design.coverage * 100)}%`}
+                        </td>
+                        <td className="px-4 py-3">
+                          {format(design.currentMultiplier)}
+                          {design.suggestedMultiplier !== null && (
+                            <span className="text-gray-500"> → {format(design.suggestedMultiplier)}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${trust.className}`}>
+                            {trust.label}
+                          </span>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {report.models.length > 1 && (
+            <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto mt-8">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-3">Model</th>
+                    <th className="px-4 py-3">Experiments</th>
+                    <th className="px-4 py-3">MAPE</th>
+                    <th className="px-4 py-3">RMSE</th>
+                    <th className="px-4 py-3">Bias</th>
+                    <th className="px-4 py-3">Within Interval</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {report.models.map(model => (
+                    <tr key={model.model}>
+                      <td className="px-4 py-3 font-medium text-gray-900">{model.model}</td>
+                      <td className="px-4 py-3">{model.experiments}</td>
+                      <td className="px-4 py-3">{format(model.mape)}%</td>
+                      <td className="px-4 py-3">{format(model.rmse)} mW</td>
+                      <td className="px-4 py-3">{format(model.bias)} mW</td>
+                      <td className="px-4 py-3">
+                        {model.coverage === null ? '—' : `${Math.round(model.coverage * 100)}%`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {report.truncated && (
+            <p className="text-sm text-gray-500 mt-4">Only the most recent experiments are included.</p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
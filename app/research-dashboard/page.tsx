@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
+import type { CitationGraphMetrics } from '@/lib/citation-graph'
 
 interface DashboardStats {
   totalPapers: number
@@ -52,6 +53,24 @@ export default function ResearchDashboardPage() {
     { area: 'Space Applications', growth: 120, papers: 12, confidence: 78 }
   ])
 
+  const [graphMetrics, setGraphMetrics] = useState<CitationGraphMetrics | null>(null)
+  const [graphError, setGraphError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/research/graph-metrics?limit=10')
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load citation graph')
+        setGraphMetrics(data)
+      })
+      .catch(error => setGraphError(error instanceof Error ? error.message : 'Failed to load citation graph'))
+  }, [])
+
+  const communityLabel = (id: number) => {
+    const community = graphMetrics?.communities.find(c => c.id === id)
+    return community && community.label.length > 0 ? community.label.join(', ') : `Cluster ${id + 1}`
+  }
+
   const getTrendIcon = (trend: string) => {
     switch (trend) {
       case 'increasing': return '📈'
@@ -221,6 +240,89 @@ export default function ResearchDashboardPage() {
           </div>
         </div>
 
+        {/* Citation Graph */}
+        <div className="grid lg:grid-cols-3 gap-8 mb-8">
+          {/* Most Influential Papers */}
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+                🏛️ Most Influential Papers
+                <span className="text-sm font-normal text-gray-500">(citation PageRank)</span>
+              </h2>
+            </div>
+            <div className="p-6">
+              {graphError ? (
+                <p className="text-sm text-red-600">{graphError}</p>
+              ) : !graphMetrics ? (
+                <p className="text-sm text-gray-500">Loading citation graph...</p>
+              ) : graphMetrics.ranking.length === 0 ? (
+                <p className="text-sm text-gray-500">No citations between papers yet. Add reference lists to papers to build the graph.</p>
+              ) : (
+                <div className="space-y-3">
+                  {graphMetrics.ranking.map((paper, index) => (
+                    <Link
+                      key={paper.id}
+                      href={`/research/${paper.id}`}
+                      className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 hover:bg-gray-100"
+                    >
+                      <span className="w-8 h-8 flex-shrink-0 bg-orange-600 text-white rounded-lg flex items-center justify-center text-sm font-bold">
+                        {index + 1}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-semibold text-gray-900 truncate">{paper.title}</div>
+                        <div className="text-xs text-gray-600">
+                          {paper.year ?? 'Undated'} • {paper.citationCount} citations • {communityLabel(paper.community)}
+                        </div>
+                        <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5">
+                          <div
+                            className="bg-orange-500 h-1.5 rounded-full"
+                            style={{ width: `${(paper.pageRank / graphMetrics.ranking[0].pageRank) * 100}%` }}
+                          ></div>
+                        </div>
+                      </div>
+                      <div className="flex items-end gap-0.5 h-8" title="Citations per year">
+                        {paper.citationsByYear.slice(-8).map(point => (
+                          <div
+                            key={point.year}
+                            className="w-1.5 bg-blue-400 rounded-sm"
+                            style={{ height: `${(point.citations / Math.max(...paper.citationsByYear.map(p => p.citations))) * 100}%` }}
+                            title={`${point.year}: ${point.citations}`}
+                          ></div>
+                        ))}
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Research Clusters */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+                🧩 Research Clusters
+              </h2>
+              {graphMetrics && graphMetrics.graph.papers > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {graphMetrics.graph.papers} papers • {graphMetrics.graph.citations} citations • modularity {graphMetrics.graph.modularity.toFixed(2)}
+                </p>
+              )}
+            </div>
+            <div className="p-6 space-y-3">
+              {graphMetrics?.communities.filter(community => community.size > 1).slice(0, 6).map(community => (
+                <div key={community.id} className="p-3 rounded-lg border border-gray-200">
+                  <div className="flex items-center justify-between">
+                    <div className="font-semibold text-gray-900 capitalize">{communityLabel(community.id)}</div>
+                    <div className="text-sm text-gray-600">{community.size} papers</div>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">{community.internalCitations} internal citations</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
         {/* AI Features Grid */}
         <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <Link href="/research/semantic-search" className="group">
@@ -250,7 +352,7 @@ export default function ResearchDashboardPage() {
             <h3 className="text-lg font-semibold mb-2">Citation Network</h3>
             <p className="text-orange-100 text-sm">Intelligent cross-referencing and connections</p>
             <div className="mt-4 text-sm opacity-75">
-              1,011 smart links generated
+              {graphMetrics ? `${graphMetrics.graph.citations.toLocaleString()} citations linked` : '1,011 smart links generated'}
             </div>
           </div>
 
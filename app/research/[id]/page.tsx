@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { CitationNetwork } from '@/components/research/CitationNetwork'
 
 interface PaperDetails {
   id: string
@@ -738,6 +739,11 @@ export default function PaperDetailPage({ params }: { params: Promise<{ id: stri
               </div>
             )}
 
+            {/* Citation Network */}
+            <div className="mb-6">
+              <CitationNetwork paperId={paper.id} />
+            </div>
+
             {/* Metadata */}
             <div className="text-sm text-gray-500 pt-6 border-t">
               {paper.user && (
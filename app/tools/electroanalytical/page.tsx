@@ -4,6 +4,7 @@ import { motion } from 'framer-motion'
 import Link from 'next/link'
 import { useState } from 'react'
 import dynamic from 'next/dynamic'
+import ImpedanceAnalyzer from '@/components/electroanalytical/ImpedanceAnalyzer'
 
 // Dynamic import to avoid SSR issues with Three.js
 const ElectroanalyticalVisualization = dynamic(
@@ -207,6 +208,16 @@ export default function ElectroanalyticalTool() {
           </motion.div>
         </div>
 
+        {/* Impedance Analysis */}
+        {selectedMethod === 'impedance' && (
+          <div className="mt-16">
+            <h2 className="text-3xl font-serif font-bold mb-6 text-gray-900 dark:text-white">
+              Equivalent Circuit Analysis
+            </h2>
+            <ImpedanceAnalyzer />
+          </div>
+        )}
+
         {/* Technique Overview */}
         <motion.div
           initial={{ opacity: 0, y: 30 }}
@@ -8,6 +8,7 @@ import MFCConfigPanel from './MFCConfigPanel'
 import ParameterForm from './ParameterForm'
 import ComprehensiveFuelCellConfig from './ComprehensiveFuelCellConfig'
 import FuelCellStack3D from './fuel-cell/FuelCellStack3D'
+import { createExperiment } from '@/lib/experiment-storage'
 
 interface Enhanced3DSystemModalProps {
   system: UnifiedMESSSystem
@@ -466,32 +467,30 @@ export default function Enhanced3DSystemModal({ system, onClose }: Enhanced3DSys
 
   const handleExperimentSubmit = async (parameters: any) => {
     try {
-      const experimentId = `exp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-      
-      const experimentData = {
-        id: experimentId,
-        name: parameters.name,
-        systemId: system.id,
-        systemName: system.name,
-        systemType: system.systemType,
-        status: 'setup',
-        createdAt: new Date().toISOString(),
-        parameters: {
-          ...parameters,
-          configuration: config,
-          predictions: predictions
-        },
-        stats: {
-          totalMeasurements: 0,
-          averagePower: predictions.power,
-          maxPower: Math.round(predictions.power * 1.2),
-          efficiency: predictions.efficiency
-        }
+      // Stored in the user's account; signed-out visitors keep a browser-only copy
+      const experimentParameters = {
+        ...parameters,
+        configuration: config,
+        predictions: predictions
       }
-      
-      const existingExperiments = JSON.parse(localStorage.getItem('messai-experiments') || '[]')
-      existingExperiments.push(experimentData)
-      localStorage.setItem('messai-experiments', JSON.stringify(existingExperiments))
+      const experimentId = await createExperiment(
+        { name: parameters.name, systemId: system.id, parameters: experimentParameters },
+        () => ({
+          name: parameters.name,
+          systemId: system.id,
+          systemName: system.name,
+          systemType: system.systemType,
+          status: 'setup',
+          createdAt: new Date().toISOString(),
+          parameters: experimentParameters,
+          stats: {
+            totalMeasurements: 0,
+            averagePower: predictions.power,
+            maxPower: Math.round(predictions.power * 1.2),
+            efficiency: predictions.efficiency
+          }
+        })
+      )
       
       window.location.href = `/experiment/${experimentId}`
     } catch (error) {
@@ -0,0 +1,188 @@
+'use client'
+
+import { useState } from 'react'
+import type { ExperimentAnalytics } from '@/lib/experiment-analytics'
+
+interface ExperimentAnalyticsPanelProps {
+  experimentId: string
+  analytics: ExperimentAnalytics
+  parameters: Record<string, unknown>
+  canEdit: boolean
+  onParametersSaved: () => void
+}
+
+// Experiment parameters the metrics depend on
+const ANALYTICS_PARAMETERS = [
+  { key: 'anodeArea', label: 'Anode area', unit: 'cm²' },
+  { key: 'reactorVolume', label: 'Reactor volume', unit: 'mL' },
+  { key: 'anolyteVolume', label: 'Anolyte volume', unit: 'mL' },
+  { key: 'codInitial', label: 'Initial COD', unit: 'mg/L' },
+  { key: 'codFinal', label: 'Final COD', unit: 'mg/L' }
+]
+
+const format = (value: number | null | undefined, digits = 3) =>
+  value === null || value === undefined ? '—' : Number(value.toPrecision(digits)).toLocaleString()
+
+export default function ExperimentAnalyticsPanel({
+  experimentId,
+  analytics,
+  parameters,
+  canEdit,
+  onParametersSaved
+}: ExperimentAnalyticsPanelProps) {
+  const [editing, setEditing] = useState(false)
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(ANALYTICS_PARAMETERS.map(({ key }) => [key, parameters[key] !== undefined ? String(parameters[key]) : '']))
+  )
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { coulombicEfficiency, energy, charge, powerDensity, steadyState, degradation } = analytics
+
+  const metrics = [
+    {
+      label: 'Coulombic Efficiency',
+      value: `${format(coulombicEfficiency.percent)}%`,
+      detail: coulombicEfficiency.codRemoved !== null
+        ? `${format(coulombicEfficiency.codRemoved * 1000)} mg/L COD removed`
+        : 'Needs COD and volume'
+    },
+    {
+      label: 'Energy Yield',
+      value: `${format(energy.wattHours)} Wh`,
+      detail: energy.kWhPerKgCod !== null ? `${format(energy.kWhPerKgCod)} kWh/kg COD` : undefined
+    },
+    {
+      label: 'Cumulative Charge',
+      value: `${format(charge.coulombs)} C`,
+      detail: `${format(charge.ampHours * 1000)} mAh`
+    },
+    {
+      label: 'Power Density',
+      value: `${format(powerDensity.maxMwPerM2)} mW/m²`,
+      detail: powerDensity.averageMwPerM2 !== null ? `avg ${format(powerDensity.averageMwPerM2)} mW/m²` : 'Needs anode area'
+    },
+    {
+      label: 'Volumetric Power',
+      value: `${format(powerDensity.maxWPerM3)} W/m³`,
+      detail: powerDensity.averageWPerM3 !== null ? `avg ${format(powerDensity.averageWPerM3)} W/m³` : 'Needs reactor volume'
+    },
+    {
+      label: 'Start-up Lag',
+      value: `${format(analytics.startupLagHours)} h`,
+      detail: 'To half of steady output'
+    },
+    {
+      label: 'Steady State',
+      value: steadyState.reached ? `${format(steadyState.meanPower)} mW` : 'Not reached',
+      detail: steadyState.start ? `since ${new Date(steadyState.start).toLocaleString()}` : undefined
+    },
+    {
+      label: 'Degradation',
+      value: degradation.percentPerDay !== null ? `${format(degradation.percentPerDay)}%/day` : '—',
+      detail: degradation.mwPerDay !== null ? `${format(degradation.mwPerDay)} mW/day` : undefined
+    }
+  ]
+
+  const saveParameters = async () => {
+    setSaving(true)
+    setError(null)
+    const updates = Object.fromEntries(
+      Object.entries(values)
+        .filter(([, value]) => value.trim() !== '')
+        .map(([key, value]) => [key, Number(value)])
+    )
+    if (Object.values(updates).some(value => !Number.isFinite(value) || value < 0)) {
+      setError('Values must be non-negative numbers')
+      setSaving(false)
+      return
+    }
+
+    const response = await fetch(`/api/experiments/${experimentId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ parameters: updates })
+    }).catch(() => null)
+    setSaving(false)
+
+    if (!response?.ok) {
+      setError('Failed to save parameters')
+      return
+    }
+    setEditing(false)
+    onParametersSaved()
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Performance Metrics</h3>
+        <a
+          href={`/api/experiments/${experimentId}/analytics?format=csv`}
+          download
+          className="text-sm text-primary hover:underline"
+        >
+          Download Report
+        </a>
+      </div>
+
+      {analytics.window.measurementCount === 0 ? (
+        <p className="text-sm text-gray-500">Upload or stream measurements to see performance metrics.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {metrics.map(metric => (
+            <div key={metric.label} className="bg-gray-50 p-3 rounded-lg">
+              <div className="text-sm text-gray-600">{metric.label}</div>
+              <div className="text-lg font-semibold text-gray-900">{metric.value}</div>
+              {metric.detail && <div className="text-xs text-gray-500 mt-1">{metric.detail}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!editing && (analytics.missingParameters.length > 0 || canEdit) && (
+        <div className="mt-4 text-sm text-gray-600">
+          {analytics.missingParameters.length > 0 && `Add ${analytics.missingParameters
+            .map(key => ANALYTICS_PARAMETERS.find(parameter => parameter.key === key)?.label.toLowerCase() ?? key)
+            .join(', ')} to complete these metrics.`}
+          {canEdit && (
+            <button onClick={() => setEditing(true)} className="ml-2 text-primary hover:underline">
+              Edit parameters
+            </button>
+          )}
+        </div>
+      )}
+
+      {editing && (
+        <div className="mt-4 grid grid-cols-2 md:grid-cols-5 gap-3">
+          {ANALYTICS_PARAMETERS.map(({ key, label, unit }) => (
+            <label key={key} className="text-sm text-gray-700">
+              {label} ({unit})
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={values[key]}
+                onChange={event => setValues(prev => ({ ...prev, [key]: event.target.value }))}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1"
+              />
+            </label>
+          ))}
+          <div className="col-span-2 md:col-span-5 flex items-center space-x-3">
+            <button
+              onClick={saveParameters}
+              disabled={saving}
+              className="bg-primary text-white px-3 py-1.5 rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button onClick={() => setEditing(false)} className="text-sm text-gray-600 hover:underline">
+              Cancel
+            </button>
+            {error && <span className="text-sm text-red-600">{error}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
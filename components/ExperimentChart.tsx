@@ -1,7 +1,8 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+import type { FeedStatus } from '@/lib/experiment-feed'
 
 interface ChartData {
   timestamp: string
@@ -13,14 +14,42 @@ interface ChartData {
   predicted?: number
 }
 
+interface StoredMeasurement {
+  timestamp: string
+  voltage: number
+  current: number
+  power: number
+  temperature: number
+  ph: number
+}
+
 interface ExperimentChartProps {
   experimentId: string
   realTime?: boolean
+  refreshKey?: number // Bump to reload the stored series, e.g. after an upload
+  onFeedStatus?: (status: FeedStatus) => void // Logger status pushed by the live stream
 }
 
-export default function ExperimentChart({ experimentId, realTime = false }: ExperimentChartProps) {
+// Points kept on screen while streaming
+const MAX_LIVE_POINTS = 2000
+
+const toChartData = (measurement: StoredMeasurement): ChartData => ({
+  timestamp: new Date(measurement.timestamp).toLocaleTimeString(),
+  power: parseFloat(measurement.power.toFixed(2)),
+  voltage: parseFloat(measurement.voltage.toFixed(3)),
+  current: parseFloat(measurement.current.toFixed(3)),
+  temperature: parseFloat(measurement.temperature.toFixed(1)),
+  ph: parseFloat(measurement.ph.toFixed(1))
+})
+
+export default function ExperimentChart({ experimentId, realTime = false, refreshKey = 0, onFeedStatus }: ExperimentChartProps) {
   const [data, setData] = useState<ChartData[]>([])
   const [loading, setLoading] = useState(true)
+  const [stored, setStored] = useState(false)
+  const [persisted, setPersisted] = useState(false) // Experiment lives in the database
+  const storedRef = useRef(false)
+  const onFeedStatusRef = useRef(onFeedStatus)
+  onFeedStatusRef.current = onFeedStatus
 
   // Mock data generator
   const generateMockData = (count: number = 24): ChartData[] => {
@@ -47,6 +76,51 @@ export default function ExperimentChart({ experimentId, realTime = false }: Expe
   }
 
   useEffect(() => {
+    let cancelled = false
+
+    // Stored measurements win; experiments without uploaded data keep the simulated series
+    const loadStoredSeries = async () => {
+      const response = await fetch(`/api/experiments/${experimentId}/measurements`).catch(() => null)
+      const body = response?.ok ? await response.json() : null
+      if (cancelled || !body) return
+      setPersisted(true)
+      if (!body.measurements?.length) return
+      setData(body.measurements.map(toChartData))
+      storedRef.current = true
+      setStored(true)
+    }
+
+    loadStoredSeries()
+    return () => {
+      cancelled = true
+    }
+  }, [experimentId, refreshKey])
+
+  // Readings posted by the experiment's data logger arrive over Server-Sent Events
+  useEffect(() => {
+    if (!realTime || !persisted || typeof EventSource === 'undefined') return
+
+    const source = new EventSource(`/api/experiments/${experimentId}/stream`)
+    source.addEventListener('measurement', event => {
+      const points: ChartData[] = JSON.parse((event as MessageEvent).data).map(toChartData)
+      // The first live reading replaces the simulated series
+      setData(prevData => [...(storedRef.current ? prevData : []), ...points].slice(-MAX_LIVE_POINTS))
+      storedRef.current = true
+      setStored(true)
+    })
+    source.addEventListener('status', event => {
+      onFeedStatusRef.current?.(JSON.parse((event as MessageEvent).data))
+    })
+
+    return () => source.close()
+  }, [experimentId, realTime, persisted])
+
+  useEffect(() => {
+    if (stored) {
+      setLoading(false)
+      return
+    }
+
     // Initial data load
     const mockData = generateMockData()
     setData(mockData)
@@ -66,7 +140,7 @@ export default function ExperimentChart({ experimentId, realTime = false }: Expe
 
       return () => clearInterval(interval)
     }
-  }, [experimentId, realTime])
+  }, [experimentId, realTime, stored])
 
   if (loading) {
     return (
@@ -121,18 +195,20 @@ export default function ExperimentChart({ experimentId, realTime = false }: Expe
               dataKey="power" 
               stroke="#0066cc" 
               strokeWidth={2}
-              dot={{ fill: '#0066cc', r: 3 }}
+              dot={stored ? false : { fill: '#0066cc', r: 3 }}
               name="Actual Power"
             />
-            <Line 
-              type="monotone" 
-              dataKey="predicted" 
-              stroke="#00ff88" 
-              strokeWidth={2}
-              strokeDasharray="5 5"
-              dot={{ fill: '#00ff88', r: 3 }}
-              name="AI Prediction"
-            />
+            {!stored && (
+              <Line 
+                type="monotone" 
+                dataKey="predicted" 
+                stroke="#00ff88" 
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={{ fill: '#00ff88', r: 3 }}
+                name="AI Prediction"
+              />
+            )}
           </LineChart>
         </ResponsiveContainer>
       </div>
@@ -4,6 +4,7 @@ import { useState } from 'react'
 import dynamic from 'next/dynamic'
 import { DesignType } from '@messai/ui'
 import MFCConfigPanel from './MFCConfigPanel'
+import StartupCurveChart from './StartupCurveChart'
 
 // Dynamic import to avoid SSR issues with Three.js - using new MESSModel3D
 const MESSModel3D = dynamic(
@@ -196,6 +197,18 @@ export default function ParameterForm({ designId, designName, designType, onSubm
               </div>
             </div>
           </div>
+
+          {/* Kinetic start-up simulation */}
+          <div className="p-3 lg:p-4 border-t border-gray-200 bg-white flex-shrink-0">
+            <StartupCurveChart
+              temperature={parameters.temperature}
+              ph={parameters.ph}
+              substrateConcentration={parameters.substrateConcentration}
+              species={mfcConfig.microbial.species}
+              anodeArea={mfcConfig.electrode.surface}
+              volume={mfcConfig.chamber.volume}
+            />
+          </div>
         </div>
 
         {/* Center Panel: Configuration */}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { ComposedChart, Line, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts'
+import type { PredictionSnapshot, ResidualMetrics, ResidualPoint } from '@/lib/model-accuracy'
+
+export interface ExperimentResiduals {
+  prediction: PredictionSnapshot | null
+  binMinutes: number
+  skipHours: number
+  points: ResidualPoint[]
+  metrics: ResidualMetrics
+}
+
+interface PredictionResidualsPanelProps {
+  experimentId: string
+  residuals: ExperimentResiduals
+  canEdit: boolean
+  onPredictionRecorded: () => void
+}
+
+const format = (value: number | null, digits = 3) =>
+  value === null ? '—' : Number(value.toPrecision(digits)).toLocaleString()
+
+export default function PredictionResidualsPanel({
+  experimentId,
+  residuals,
+  canEdit,
+  onPredictionRecorded
+}: PredictionResidualsPanelProps) {
+  const [recording, setRecording] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { prediction, points, metrics } = residuals
+
+  const recordPrediction = async () => {
+    setRecording(true)
+    setError(null)
+    const response = await fetch(`/api/experiments/${experimentId}/prediction`, { method: 'POST' }).catch(() => null)
+    setRecording(false)
+
+    if (!response?.ok) {
+      const body = await response?.json().catch(() => null)
+      setError(body?.error ?? 'Failed to record prediction')
+      return
+    }
+    onPredictionRecorded()
+  }
+
+  if (!prediction) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Prediction vs. Measurement</h3>
+        <p className="text-sm text-gray-600">
+          No prediction was recorded when this experiment was set up.
+          {canEdit && ' Record one from the current temperature, pH and substrate settings to track model error.'}
+        </p>
+        {canEdit && (
+          <div className="mt-3 flex items-center space-x-3">
+            <button
+              onClick={recordPrediction}
+              disabled={recording}
+              className="bg-primary text-white px-3 py-1.5 rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {recording ? 'Recording...' : 'Record prediction'}
+            </button>
+            {error && <span className="text-sm text-red-600">{error}</span>}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const chartData = points.map(point => ({
+    time: new Date(point.timestamp).toLocaleString(),
+    measured: Number(point.measured.toFixed(2)),
+    predicted: point.predicted,
+    residual: Number(point.residual.toFixed(2))
+  }))
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Prediction vs. Measurement</h3>
+        <Link href="/predictions/accuracy" className="text-sm text-primary hover:underline">
+          Model accuracy by design
+        </Link>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Predicted {prediction.predictedPower} mW ({prediction.confidenceInterval.lower}–{prediction.confidenceInterval.upper} mW)
+        {prediction.model === 'data-driven' ? ` by trained model v${prediction.modelVersion}` : ' by the formula'} for {prediction.designType ?? 'an unspecified design'} at {prediction.inputs.temperature}°C,
+        pH {prediction.inputs.ph}, {prediction.inputs.substrateConcentration} g/L substrate.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <div className="text-sm text-gray-600">MAPE</div>
+          <div className="text-lg font-semibold text-gray-900">{format(metrics.mape)}%</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <div className="text-sm text-gray-600">RMSE</div>
+          <div className="text-lg font-semibold text-gray-900">{format(metrics.rmse)} mW</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <div className="text-sm text-gray-600">Bias</div>
+          <div className="text-lg font-semibold text-gray-900">{format(metrics.bias)} mW</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <div className="text-sm text-gray-600">Within Interval</div>
+          <div className="text-lg font-semibold text-gray-900">
+            {metrics.coverage === null ? '—' : `${Math.round(metrics.coverage * 100)}%`}
+          </div>
+        </div>
+      </div>
+
+      {points.length === 0 ? (
+        <p className="text-sm text-gray-500">Residuals appear once measurements are uploaded or streamed.</p>
+      ) : (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="time" tick={{ fontSize: 12 }} />
+              <YAxis tick={{ fontSize: 12 }} label={{ value: 'mW', angle: -90, position: 'insideLeft' }} />
+              <Tooltip />
+              <Legend />
+              <ReferenceLine y={0} stroke="#9ca3af" />
+              <Bar dataKey="residual" name="Residual" fill="#f59e0b" />
+              <Line type="monotone" dataKey="measured" name={`Measured (${residuals.binMinutes} min mean)`} stroke="#2563eb" dot={false} />
+              <Line type="monotone" dataKey="predicted" name="Predicted" stroke="#10b981" strokeDasharray="5 5" dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  )
+}
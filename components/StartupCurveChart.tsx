@@ -0,0 +1,143 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+import { bacteriaDatabase, simulateBiofilm, type FeedingMode } from '@messai/core'
+
+interface StartupCurveChartProps {
+  temperature: number
+  ph: number
+  substrateConcentration: number
+  species: string
+  anodeArea: number
+  volume: number
+}
+
+const FEEDING_MODES = [
+  { id: 'batch', name: 'Batch' },
+  { id: 'fed-batch', name: 'Fed-batch' },
+  { id: 'continuous', name: 'Continuous' }
+] as const
+
+const format = (value: number | null, digits = 3) =>
+  value === null ? '—' : Number(value.toPrecision(digits)).toLocaleString()
+
+export default function StartupCurveChart({
+  temperature,
+  ph,
+  substrateConcentration,
+  species,
+  anodeArea,
+  volume
+}: StartupCurveChartProps) {
+  const [mode, setMode] = useState<FeedingMode['mode']>('batch')
+  const [feedInterval, setFeedInterval] = useState(72)
+  const [hrt, setHrt] = useState(24)
+
+  const simulation = useMemo(() => {
+    const feeding: FeedingMode = mode === 'fed-batch'
+      ? { mode, interval: feedInterval, dose: substrateConcentration }
+      : mode === 'continuous'
+        ? { mode, hrt, influentConcentration: substrateConcentration }
+        : { mode }
+
+    try {
+      return {
+        result: simulateBiofilm({
+          microbe: bacteriaDatabase[species] ?? bacteriaDatabase.geobacter,
+          temperature,
+          ph,
+          initialSubstrate: substrateConcentration,
+          feeding,
+          anodeArea,
+          volume
+        }),
+        error: null
+      }
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : 'Simulation failed' }
+    }
+  }, [temperature, ph, substrateConcentration, species, anodeArea, volume, mode, feedInterval, hrt])
+
+  const { result, error } = simulation
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs lg:text-sm font-semibold text-gray-900">Expected Start-up</h4>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as FeedingMode['mode'])}
+          aria-label="Feeding mode"
+          className="text-xs border border-gray-300 rounded px-1 py-0.5"
+        >
+          {FEEDING_MODES.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {mode === 'fed-batch' && (
+        <label className="flex items-center justify-between text-xs text-gray-600 mb-2">
+          Feed every (h)
+          <input
+            type="number"
+            min="1"
+            value={feedInterval}
+            onChange={(e) => setFeedInterval(Number(e.target.value))}
+            className="w-16 border border-gray-300 rounded px-1 py-0.5"
+          />
+        </label>
+      )}
+      {mode === 'continuous' && (
+        <label className="flex items-center justify-between text-xs text-gray-600 mb-2">
+          HRT (h)
+          <input
+            type="number"
+            min="1"
+            value={hrt}
+            onChange={(e) => setHrt(Number(e.target.value))}
+            className="w-16 border border-gray-300 rounded px-1 py-0.5"
+          />
+        </label>
+      )}
+
+      {error || !result ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : (
+        <>
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={result.points}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="time" tick={{ fontSize: 10 }} tickFormatter={(day: number) => `${Math.round(day)}d`} />
+                <YAxis yAxisId="current" tick={{ fontSize: 10 }} width={36} />
+                <YAxis yAxisId="substrate" orientation="right" tick={{ fontSize: 10 }} width={36} />
+                <Tooltip labelFormatter={(day) => `Day ${format(Number(day))}`} />
+                <Legend wrapperStyle={{ fontSize: 10 }} />
+                <Line yAxisId="current" type="monotone" dataKey="current" name="Current (mA)" stroke="#2563eb" dot={false} />
+                <Line yAxisId="current" type="monotone" dataKey="voltage" name="Voltage (V)" stroke="#10b981" dot={false} />
+                <Line yAxisId="substrate" type="monotone" dataKey="substrate" name="Substrate (g/L)" stroke="#f59e0b" dot={false} />
+                <Line yAxisId="substrate" type="monotone" dataKey="biofilmDensity" name="Biofilm (g/m²)" stroke="#8b5cf6" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-xs mt-2">
+            <div>
+              <div className="text-gray-600">Start-up (days)</div>
+              <div className="font-semibold text-gray-900">{format(result.summary.startupTime, 2)}</div>
+            </div>
+            <div>
+              <div className="text-gray-600">Peak current (mA)</div>
+              <div className="font-semibold text-gray-900">{format(result.summary.peakCurrent)}</div>
+            </div>
+            <div>
+              <div className="text-gray-600">Peak power (mW)</div>
+              <div className="font-semibold text-gray-900">{format(result.summary.peakPower)}</div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { useState } from 'react'
 import Link from 'next/link'
 import { UnifiedMESSSystem, getRelatedSystems, standardizePowerOutput } from '@/lib/unified-systems-catalog'
 import ParameterForm from './ParameterForm'
+import { createExperiment } from '@/lib/experiment-storage'
 
 interface SystemDetailModalProps {
   system: UnifiedMESSSystem
@@ -40,33 +41,26 @@ export default function SystemDetailModal({ system, onClose }: SystemDetailModal
 
   const handleExperimentSubmit = async (parameters: any) => {
     try {
-      // Generate unique experiment ID
-      const experimentId = `exp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      // Stored in the user's account; signed-out visitors keep a browser-only copy
+      const experimentId = await createExperiment(
+        { name: parameters.name, systemId: system.id, parameters },
+        () => ({
+          name: parameters.name,
+          systemId: system.id,
+          systemName: system.name,
+          systemType: system.systemType,
+          status: 'setup',
+          createdAt: new Date().toISOString(),
+          parameters: parameters,
+          stats: {
+            totalMeasurements: 0,
+            averagePower: 0,
+            maxPower: 0,
+            efficiency: 0
+          }
+        })
+      )
       
-      // Create experiment data
-      const experimentData = {
-        id: experimentId,
-        name: parameters.name,
-        systemId: system.id,
-        systemName: system.name,
-        systemType: system.systemType,
-        status: 'setup',
-        createdAt: new Date().toISOString(),
-        parameters: parameters,
-        stats: {
-          totalMeasurements: 0,
-          averagePower: 0,
-          maxPower: 0,
-          efficiency: 0
-        }
-      }
-      
-      // Store in localStorage for demo
-      const existingExperiments = JSON.parse(localStorage.getItem('messai-experiments') || '[]')
-      existingExperiments.push(experimentData)
-      localStorage.setItem('messai-experiments', JSON.stringify(existingExperiments))
-      
-      // Redirect to experiment view
       window.location.href = `/experiment/${experimentId}`
     } catch (error) {
       console.error('Failed to create experiment:', error)
@@ -0,0 +1,288 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ScatterChart, Scatter, ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+import {
+  CIRCUIT_PRESETS,
+  ImpedanceEngine,
+  type CircuitParameters,
+  type ImpedanceFitResult,
+  type ImpedancePoint
+} from '@/lib/impedance-analysis'
+
+const FREQUENCIES = ImpedanceEngine.logFrequencies(0.01, 100000, 10)
+
+// Starting values by parameter kind
+const defaultValue = (name: string) => {
+  if (name.endsWith('_n')) return 0.9
+  if (name.endsWith('_Q') || name.startsWith('C')) return 1e-4
+  if (name.startsWith('W')) return 10
+  return name === 'R0' ? 20 : 100
+}
+
+const format = (value: number | null | undefined, digits = 3) =>
+  value === null || value === undefined ? '—' : Number(value.toPrecision(digits)).toLocaleString(undefined, { maximumSignificantDigits: digits })
+
+export default function ImpedanceAnalyzer() {
+  const [circuit, setCircuit] = useState<string>(CIRCUIT_PRESETS[0].circuit)
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [data, setData] = useState<ImpedancePoint[] | null>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [fit, setFit] = useState<ImpedanceFitResult | null>(null)
+  const [electrodes, setElectrodes] = useState<Record<string, 'anode' | 'cathode' | ''>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  // Re-parse on every edit so the builder reports syntax errors as the user types
+  const parsed = useMemo(() => {
+    try {
+      const node = ImpedanceEngine.parseCircuit(circuit)
+      return { node, names: ImpedanceEngine.parameterNames(node), error: null }
+    } catch (parseError) {
+      return { node: null, names: [], error: parseError instanceof Error ? parseError.message : 'Invalid circuit' }
+    }
+  }, [circuit])
+
+  const parameters: CircuitParameters = useMemo(() => Object.fromEntries(
+    parsed.names.map(name => [name, values[name] !== undefined ? Number(values[name]) : defaultValue(name)])
+  ), [parsed.names, values])
+
+  const simulated = useMemo(() => {
+    if (!parsed.node || Object.values(parameters).some(value => !(value > 0))) return null
+    return ImpedanceEngine.simulate(parsed.node, parameters, data ? data.map(point => point.frequency) : FREQUENCIES)
+  }, [parsed.node, parameters, data])
+
+  const resistances = useMemo(() => {
+    if (!fit) return null
+    const assigned = (electrode: 'anode' | 'cathode') =>
+      Object.entries(electrodes).filter(([, value]) => value === electrode).map(([name]) => name)
+    return ImpedanceEngine.resistances(fit.circuit, fit.parameters, { anode: assigned('anode'), cathode: assigned('cathode') })
+  }, [fit, electrodes])
+
+  const selectCircuit = (next: string) => {
+    setCircuit(next)
+    setFit(null)
+    setElectrodes({})
+  }
+
+  const uploadFile = async (file: File) => {
+    setError(null)
+    setFit(null)
+    try {
+      setData(ImpedanceEngine.parseCsv(await file.text()))
+      setFileName(file.name)
+    } catch (uploadError) {
+      setData(null)
+      setFileName(null)
+      setError(uploadError instanceof Error ? uploadError.message : 'Could not read file')
+    }
+  }
+
+  const runFit = () => {
+    if (!data || !parsed.node) return
+    setError(null)
+    try {
+      const result = ImpedanceEngine.fit({ circuit, data, initialParameters: parameters })
+      setFit(result)
+      setValues(Object.fromEntries(Object.entries(result.parameters).map(([name, value]) => [name, String(Number(value.toPrecision(4)))])))
+      // Default guess: the slowest arc is the anode biofilm
+      const arcs = ImpedanceEngine.resistances(parsed.node, result.parameters).chargeTransfer
+      setElectrodes(Object.fromEntries(arcs.map((arc, i) => [
+        arc.element,
+        arcs.length > 1 && i === arcs.length - 1 ? 'anode' : arcs.length > 1 && i === arcs.length - 2 ? 'cathode' : ''
+      ])))
+    } catch (fitError) {
+      setError(fitError instanceof Error ? fitError.message : 'Fit failed')
+    }
+  }
+
+  const toNyquist = (points: ImpedancePoint[]) => points.map(point => ({ real: point.real, negativeImaginary: -point.imaginary }))
+  const measuredBode = data?.map(point => ({
+    frequency: point.frequency,
+    magnitude: Math.hypot(point.real, point.imaginary),
+    phase: (Math.atan2(point.imaginary, point.real) * 180) / Math.PI
+  }))
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-6 space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Circuit builder */}
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="circuit-preset" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Equivalent Circuit
+            </label>
+            <select
+              id="circuit-preset"
+              value={CIRCUIT_PRESETS.find(preset => preset.circuit === circuit)?.id ?? 'custom'}
+              onChange={(e) => {
+                const preset = CIRCUIT_PRESETS.find(option => option.id === e.target.value)
+                if (preset) selectCircuit(preset.circuit)
+              }}
+              className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {CIRCUIT_PRESETS.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+              <option value="custom">Custom</option>
+            </select>
+            <input
+              type="text"
+              aria-label="Circuit"
+              value={circuit}
+              onChange={(e) => selectCircuit(e.target.value)}
+              className="mt-2 w-full p-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              R, C, CPE, W elements; <code>-</code> in series, <code>p(a,b)</code> in parallel
+            </p>
+            {parsed.error && <p className="mt-1 text-xs text-red-600">{parsed.error}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {parsed.names.map(name => (
+              <label key={name} className="text-xs text-gray-700 dark:text-gray-300">
+                {name}
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={values[name] ?? String(defaultValue(name))}
+                  onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                  className="mt-1 block w-full p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+                {fit?.estimates[name]?.relativeError !== undefined && (
+                  <span className="text-gray-500">± {format(fit.estimates[name].relativeError, 2)}%</span>
+                )}
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label htmlFor="impedance-file" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Potentiostat Export (CSV/TXT)
+            </label>
+            <input
+              id="impedance-file"
+              type="file"
+              accept=".csv,.txt,.tsv"
+              onChange={(e) => e.target.files?.[0] && uploadFile(e.target.files[0])}
+              className="w-full text-sm text-gray-700 dark:text-gray-300"
+            />
+            {fileName && data && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{fileName}: {data.length} frequencies</p>
+            )}
+          </div>
+
+          <button
+            onClick={runFit}
+            disabled={!data || !parsed.node}
+            className="w-full py-2 bg-gradient-to-r from-green-500 to-blue-500 text-white rounded-lg hover:from-green-600 hover:to-blue-600 transition-all duration-300 font-semibold disabled:opacity-50"
+          >
+            Fit Circuit
+          </button>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {/* Nyquist plot */}
+        <div className="h-72">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Nyquist</h3>
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" dataKey="real" name="Z'" unit=" Ω" tick={{ fontSize: 11 }} />
+              <YAxis type="number" dataKey="negativeImaginary" name="-Z''" unit=" Ω" tick={{ fontSize: 11 }} />
+              <Tooltip />
+              <Legend />
+              {data && <Scatter name="Measured" data={toNyquist(data)} fill="#2563eb" />}
+              {simulated && (
+                <Scatter name={fit ? 'Fitted' : 'Simulated'} data={toNyquist(simulated)} fill="#10b981" line shape={() => <g />} />
+              )}
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Bode plot */}
+        <div className="h-72">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Bode</h3>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={simulated ?? []}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="frequency"
+                scale="log"
+                domain={['auto', 'auto']}
+                tick={{ fontSize: 11 }}
+                tickFormatter={(hz: number) => `${format(hz, 2)}`}
+              />
+              <YAxis yAxisId="magnitude" scale="log" domain={['auto', 'auto']} tick={{ fontSize: 11 }} unit=" Ω" />
+              <YAxis yAxisId="phase" orientation="right" tick={{ fontSize: 11 }} unit="°" />
+              <Tooltip />
+              <Legend />
+              <Line yAxisId="magnitude" dataKey="magnitude" name="|Z|" stroke="#2563eb" dot={false} />
+              <Line yAxisId="phase" dataKey="phase" name="Phase" stroke="#f59e0b" dot={false} />
+              {measuredBode && (
+                <Scatter yAxisId="magnitude" data={measuredBode} dataKey="magnitude" name="Measured |Z|" fill="#1e3a8a" />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {fit && resistances && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Ohmic Resistance:</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{format(resistances.ohmic)} Ω</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Anode Charge Transfer:</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{format(resistances.anode)} Ω</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Cathode Charge Transfer:</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{format(resistances.cathode)} Ω</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Fit Error (RMS):</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{format(fit.statistics.rmsRelativeError * 100, 2)}%</span>
+            </div>
+          </div>
+
+          <table className="text-sm w-full">
+            <thead>
+              <tr className="text-left text-gray-600 dark:text-gray-400">
+                <th className="font-medium">Arc</th>
+                <th className="font-medium">R (Ω)</th>
+                <th className="font-medium">Apex (Hz)</th>
+                <th className="font-medium">Electrode</th>
+              </tr>
+            </thead>
+            <tbody>
+              {resistances.chargeTransfer.map(arc => (
+                <tr key={arc.element} className="text-gray-900 dark:text-white">
+                  <td className="font-mono">{arc.element}</td>
+                  <td>{format(arc.resistance)}</td>
+                  <td>{format(arc.peakFrequency)}</td>
+                  <td>
+                    <select
+                      aria-label={`Electrode for ${arc.element}`}
+                      value={electrodes[arc.element] ?? ''}
+                      onChange={(e) => setElectrodes(prev => ({ ...prev, [arc.element]: e.target.value as 'anode' | 'cathode' | '' }))}
+                      className="border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-xs"
+                    >
+                      <option value="">—</option>
+                      <option value="anode">Anode</option>
+                      <option value="cathode">Cathode</option>
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,18 @@ import { useState, useEffect, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { FuelCellType } from '@/lib/types/fuel-cell-types'
 import { ControllerSettings } from '@/lib/fuel-cell-predictions'
+import {
+  createDefaultAdaptiveParams,
+  createDefaultFuzzyParams,
+  createDefaultNeuralParams,
+  type AdaptiveControllerParams,
+  type FuzzyControllerParams,
+  type FuzzyMembershipFunction,
+  type NeuralControllerParams,
+  type StrategyComparison,
+  type TunableLoop
+} from '@/lib/control-system-simulation'
+import type { LoopTuningResult, PIDTuningMethod, StepResponse } from '@/lib/pid-auto-tuning'
 
 // ============================================================================
 // CONTROL SYSTEM INTERFACES
@@ -25,6 +37,9 @@ interface ControllerConfig {
   }
   deadband?: number
   windup_limit?: number
+  fuzzyParams?: FuzzyControllerParams
+  adaptiveParams?: AdaptiveControllerParams
+  neuralParams?: NeuralControllerParams
 }
 
 interface ControlSystemConfig {
@@ -45,11 +60,36 @@ interface ControlSystemDesignerProps {
   fuelCellType: FuelCellType
   systemConfig?: any
   onConfigChange?: (config: ControlSystemConfig) => void
-  onSimulationRequest?: (config: ControlSystemConfig) => void
+  onSimulationRequest?: (config: ControlSystemConfig, options: SimulationRequestOptions) => void
+  onTuneRequest?: (config: ControlSystemConfig, options: TuneRequestOptions) => Promise<LoopTuningResult | null>
   simulationResults?: ControlSystemSimulationResult | null
   className?: string
 }
 
+type SimulationPreset = 'BASIC_TEST' | 'LOAD_STEP' | 'THERMAL_DISTURBANCE' | 'COMPREHENSIVE' | 'COLD_START' | 'FUEL_STARVATION'
+
+type ComparableLoop = 'thermal' | 'humidity' | 'pressure'
+
+interface SimulationRequestOptions {
+  plantModel: 'LUMPED' | 'TRANSIENT'
+  preset: SimulationPreset
+  compareLoop?: ComparableLoop // Rerun the scenario with every strategy on this loop
+}
+
+interface TuneRequestOptions {
+  loop: TunableLoop
+  method: PIDTuningMethod
+  plantModel: 'LUMPED' | 'TRANSIENT'
+  preset: SimulationPreset
+}
+
+const TUNING_METHOD_LABELS: Record<PIDTuningMethod, string> = {
+  ZIEGLER_NICHOLS_STEP: 'Ziegler-Nichols (step)',
+  ZIEGLER_NICHOLS_RELAY: 'Ziegler-Nichols (relay)',
+  COHEN_COON: 'Cohen-Coon',
+  OPTIMIZATION: 'Optimization (ITAE)'
+}
+
 interface ControlSystemSimulationResult {
   stability: number // 0-1
   performance: number // 0-1
@@ -65,6 +105,7 @@ interface ControlSystemSimulationResult {
     pressure: number[]
     power: number[]
   }
+  comparison?: StrategyComparison[]
 }
 
 // ============================================================================
@@ -167,6 +208,7 @@ export default function ControlSystemDesigner({
   systemConfig,
   onConfigChange,
   onSimulationRequest,
+  onTuneRequest,
   simulationResults,
   className = ''
 }: ControlSystemDesignerProps) {
@@ -189,8 +231,13 @@ export default function ControlSystemDesigner({
   })
 
   const [selectedController, setSelectedController] = useState<keyof ControlSystemConfig>('thermal')
-  const [tuningMode, setTuningMode] = useState<'MANUAL' | 'AUTO' | 'ZIEGLER_NICHOLS'>('MANUAL')
+  const [tuningMode, setTuningMode] = useState<'MANUAL' | PIDTuningMethod>('MANUAL')
+  const [isTuning, setIsTuning] = useState(false)
+  const [tuningResult, setTuningResult] = useState<LoopTuningResult | null>(null)
+  const [tuningError, setTuningError] = useState<string | null>(null)
   const [isSimulating, setIsSimulating] = useState(false)
+  const [plantModel, setPlantModel] = useState<'LUMPED' | 'TRANSIENT'>('LUMPED')
+  const [preset, setPreset] = useState<SimulationPreset>('BASIC_TEST')
 
   // Update config when fuel cell type changes
   useEffect(() => {
@@ -221,27 +268,35 @@ export default function ControlSystemDesigner({
     }))
   }, [])
 
-  const handleSimulation = useCallback(() => {
+  const handleSimulation = useCallback((compareLoop?: ComparableLoop) => {
     setIsSimulating(true)
-    onSimulationRequest?.(config)
+    onSimulationRequest?.(config, { plantModel, preset, compareLoop })
     // Simulate delay
     setTimeout(() => setIsSimulating(false), 2000)
-  }, [config, onSimulationRequest])
-
-  const autoTunePID = useCallback((controllerName: keyof ControlSystemConfig) => {
-    // Simplified auto-tuning using Ziegler-Nichols method
-    const currentController = config[controllerName] as ControllerConfig
-    const ku = 2.0 // Ultimate gain (would be determined experimentally)
-    const tu = 10.0 // Ultimate period (would be determined experimentally)
-    
-    const newParams = {
-      kp: 0.6 * ku,
-      ki: (2 * currentController.pidParams.kp) / tu,
-      kd: (currentController.pidParams.kp * tu) / 8
-    }
+  }, [config, plantModel, preset, onSimulationRequest])
+
+  const comparableLoop = (['thermal', 'humidity', 'pressure'] as const).find(loop => loop === selectedController)
+
+  const tunableLoop = (['thermal', 'humidity', 'pressure', 'airIntake'] as const).find(loop => loop === selectedController)
+
+  const autoTunePID = useCallback(async (loop: TunableLoop) => {
+    if (tuningMode === 'MANUAL' || !onTuneRequest) return
 
-    updateController(controllerName, { pidParams: newParams })
-  }, [config, updateController])
+    setIsTuning(true)
+    setTuningError(null)
+    try {
+      const result = await onTuneRequest(config, { loop, method: tuningMode, plantModel, preset })
+      if (result) {
+        // Tuned gains replace the loop's controller with a plain PID
+        updateController(loop, { type: 'PID', pidParams: result.gains })
+        setTuningResult(result)
+      }
+    } catch (error) {
+      setTuningError(error instanceof Error ? error.message : 'Tuning failed')
+    } finally {
+      setIsTuning(false)
+    }
+  }, [config, tuningMode, plantModel, preset, onTuneRequest, updateController])
 
   return (
     <div className={`space-y-6 ${className}`}>
@@ -258,8 +313,9 @@ export default function ControlSystemDesigner({
             className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm"
           >
             <option value="MANUAL">Manual</option>
-            <option value="AUTO">Auto-Tune</option>
-            <option value="ZIEGLER_NICHOLS">Ziegler-Nichols</option>
+            {Object.entries(TUNING_METHOD_LABELS).map(([method, label]) => (
+              <option key={method} value={method}>{label}</option>
+            ))}
           </select>
         </div>
       </div>
@@ -292,10 +348,20 @@ export default function ControlSystemDesigner({
             controller={config[selectedController] as ControllerConfig}
             controllerName={selectedController}
             onUpdate={(updates) => updateController(selectedController, updates)}
-            onAutoTune={() => autoTunePID(selectedController)}
-            tuningMode={tuningMode}
+            onAutoTune={tunableLoop && onTuneRequest && tuningMode !== 'MANUAL' ? () => autoTunePID(tunableLoop) : undefined}
+            isTuning={isTuning}
             fuelCellType={fuelCellType}
           />
+
+          {tuningError && (
+            <div className="p-3 text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 rounded-md">
+              {tuningError}
+            </div>
+          )}
+
+          {tuningResult && tuningResult.loop === selectedController && (
+            <TuningResultPanel result={tuningResult} />
+          )}
         </div>
 
         {/* System Status & Simulation */}
@@ -308,8 +374,40 @@ export default function ControlSystemDesigner({
             fuelCellType={fuelCellType}
           />
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Plant Model
+            </label>
+            <select
+              value={plantModel}
+              onChange={(e) => setPlantModel(e.target.value as 'LUMPED' | 'TRANSIENT')}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="LUMPED">Lumped (fast)</option>
+              <option value="TRANSIENT">Transient ODE (thermal mass, gas dynamics)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Scenario
+            </label>
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as SimulationPreset)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="BASIC_TEST">Basic test</option>
+              <option value="LOAD_STEP">Load step</option>
+              <option value="THERMAL_DISTURBANCE">Thermal disturbance</option>
+              <option value="COMPREHENSIVE">Comprehensive</option>
+              <option value="COLD_START">Cold start (transient)</option>
+              <option value="FUEL_STARVATION">Fuel starvation (transient)</option>
+            </select>
+          </div>
+
           <button
-            onClick={handleSimulation}
+            onClick={() => handleSimulation()}
             disabled={isSimulating}
             className="w-full px-4 py-3 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium flex items-center justify-center gap-2"
           >
@@ -325,6 +423,16 @@ export default function ControlSystemDesigner({
               </>
             )}
           </button>
+
+          {comparableLoop && (
+            <button
+              onClick={() => handleSimulation(comparableLoop)}
+              disabled={isSimulating}
+              className="w-full px-4 py-2 border border-blue-500 text-blue-600 dark:text-blue-400 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+            >
+              Compare Strategies on {comparableLoop.charAt(0).toUpperCase() + comparableLoop.slice(1)} Loop
+            </button>
+          )}
         </div>
       </div>
 
@@ -415,8 +523,8 @@ interface ControllerConfigPanelProps {
   controller: ControllerConfig
   controllerName: keyof ControlSystemConfig
   onUpdate: (updates: Partial<ControllerConfig>) => void
-  onAutoTune: () => void
-  tuningMode: string
+  onAutoTune?: () => void // Only set when a tuning method is selected and the loop can be tuned
+  isTuning: boolean
   fuelCellType: FuelCellType
 }
 
@@ -425,7 +533,7 @@ function ControllerConfigPanel({
   controllerName,
   onUpdate,
   onAutoTune,
-  tuningMode,
+  isTuning,
   fuelCellType
 }: ControllerConfigPanelProps) {
   const getSetpointUnit = (name: keyof ControlSystemConfig) => {
@@ -492,17 +600,20 @@ function ControllerConfigPanel({
             />
           </div>
 
-          {/* PID Parameters */}
-          {controller.type === 'PID' && (
+          {/* PID Parameters (also the base gains of the adaptive and neural controllers) */}
+          {controller.type !== 'FUZZY' && (
             <div className="space-y-3">
               <div className="flex items-center justify-between">
-                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">PID Parameters</span>
-                {tuningMode !== 'MANUAL' && (
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {controller.type === 'PID' ? 'PID Parameters' : 'Base PID Gains'}
+                </span>
+                {onAutoTune && (
                   <button
                     onClick={onAutoTune}
-                    className="px-2 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600"
+                    disabled={isTuning}
+                    className="px-2 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    Auto-Tune
+                    {isTuning ? 'Tuning...' : 'Tune'}
                   </button>
                 )}
               </div>
@@ -548,6 +659,27 @@ function ControllerConfigPanel({
             </div>
           )}
 
+          {controller.type === 'FUZZY' && (
+            <FuzzyParamsEditor
+              params={controller.fuzzyParams ?? createDefaultFuzzyParams(controller)}
+              onChange={(fuzzyParams) => onUpdate({ fuzzyParams })}
+            />
+          )}
+
+          {controller.type === 'ADAPTIVE' && (
+            <AdaptiveParamsEditor
+              params={controller.adaptiveParams ?? createDefaultAdaptiveParams()}
+              onChange={(adaptiveParams) => onUpdate({ adaptiveParams })}
+            />
+          )}
+
+          {controller.type === 'NEURAL' && (
+            <NeuralParamsEditor
+              params={controller.neuralParams ?? createDefaultNeuralParams()}
+              onChange={(neuralParams) => onUpdate({ neuralParams })}
+            />
+          )}
+
           {/* Constraints */}
           <div className="space-y-2">
             <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Constraints</span>
@@ -582,6 +714,285 @@ function ControllerConfigPanel({
   )
 }
 
+const NUMBER_INPUT_CLASS = 'w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+
+interface NumberFieldProps {
+  label: string
+  value: number
+  onChange: (value: number) => void
+  step?: string
+}
+
+function NumberField({ label, value, onChange, step = '0.01' }: NumberFieldProps) {
+  return (
+    <div>
+      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</label>
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        step={step}
+        className={NUMBER_INPUT_CLASS}
+      />
+    </div>
+  )
+}
+
+interface FuzzyParamsEditorProps {
+  params: FuzzyControllerParams
+  onChange: (params: FuzzyControllerParams) => void
+}
+
+function FuzzyParamsEditor({ params, onChange }: FuzzyParamsEditorProps) {
+  const [setGroup, setSetGroup] = useState<'errorSets' | 'errorRateSets' | 'outputSets'>('errorSets')
+
+  const updateSet = (index: number, point: number, value: number) => {
+    const sets = params[setGroup].map((set, i): FuzzyMembershipFunction => {
+      if (i !== index) return set
+      const points = [...set.points] as FuzzyMembershipFunction['points']
+      points[point] = value
+      return { ...set, points }
+    })
+    onChange({ ...params, [setGroup]: sets })
+  }
+
+  const ruleOutput = (error: string, errorRate: string) =>
+    params.rules.find(rule => rule.error === error && rule.errorRate === errorRate)?.output ?? ''
+
+  const updateRule = (error: string, errorRate: string, output: string) => {
+    const others = params.rules.filter(rule => rule.error !== error || rule.errorRate !== errorRate)
+    onChange({ ...params, rules: output ? [...others, { error, errorRate, output }] : others })
+  }
+
+  return (
+    <div className="space-y-3">
+      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Fuzzy Scaling</span>
+      <div className="grid grid-cols-3 gap-2">
+        <NumberField label="Error" value={params.errorScale} onChange={(errorScale) => onChange({ ...params, errorScale })} />
+        <NumberField label="Error rate" value={params.errorRateScale} onChange={(errorRateScale) => onChange({ ...params, errorRateScale })} />
+        <NumberField label="Output rate" value={params.outputScale} onChange={(outputScale) => onChange({ ...params, outputScale })} />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Membership Functions</span>
+        <select
+          value={setGroup}
+          onChange={(e) => setSetGroup(e.target.value as typeof setGroup)}
+          className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+        >
+          <option value="errorSets">Error</option>
+          <option value="errorRateSets">Error rate</option>
+          <option value="outputSets">Output</option>
+        </select>
+      </div>
+      <div className="space-y-1">
+        {params[setGroup].map((set, index) => (
+          <div key={set.label} className="grid grid-cols-4 gap-2 items-center">
+            <span className="text-xs font-mono text-gray-600 dark:text-gray-400">{set.label}</span>
+            {set.points.map((point, k) => (
+              <input
+                key={k}
+                type="number"
+                value={point}
+                onChange={(e) => updateSet(index, k, parseFloat(e.target.value) || 0)}
+                step="0.1"
+                min={-1}
+                max={1}
+                className={NUMBER_INPUT_CLASS}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Rule Base (error ↓ × error rate →)</span>
+      <div className="overflow-x-auto">
+        <table className="text-xs">
+          <thead>
+            <tr>
+              <th />
+              {params.errorRateSets.map(rate => (
+                <th key={rate.label} className="px-1 font-mono text-gray-500 dark:text-gray-400">{rate.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {params.errorSets.map(error => (
+              <tr key={error.label}>
+                <th className="pr-1 font-mono text-gray-500 dark:text-gray-400">{error.label}</th>
+                {params.errorRateSets.map(rate => (
+                  <td key={rate.label} className="p-0.5">
+                    <select
+                      value={ruleOutput(error.label, rate.label)}
+                      onChange={(e) => updateRule(error.label, rate.label, e.target.value)}
+                      className="px-1 py-0.5 font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                    >
+                      <option value="">–</option>
+                      {params.outputSets.map(output => (
+                        <option key={output.label} value={output.label}>{output.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+interface AdaptiveParamsEditorProps {
+  params: AdaptiveControllerParams
+  onChange: (params: AdaptiveControllerParams) => void
+}
+
+function AdaptiveParamsEditor({ params, onChange }: AdaptiveParamsEditorProps) {
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Model-Reference Adaptation</span>
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          label="Reference τ (s)"
+          value={params.referenceTimeConstant}
+          onChange={(referenceTimeConstant) => onChange({ ...params, referenceTimeConstant })}
+          step="1"
+        />
+        <NumberField
+          label="Adaptation gain γ"
+          value={params.adaptationGain}
+          onChange={(adaptationGain) => onChange({ ...params, adaptationGain })}
+        />
+      </div>
+    </div>
+  )
+}
+
+interface NeuralParamsEditorProps {
+  params: NeuralControllerParams
+  onChange: (params: NeuralControllerParams) => void
+}
+
+function NeuralParamsEditor({ params, onChange }: NeuralParamsEditorProps) {
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Neural Network</span>
+      <div className="grid grid-cols-3 gap-2">
+        <NumberField
+          label="Hidden units"
+          value={params.hiddenUnits}
+          onChange={(hiddenUnits) => onChange({ ...params, hiddenUnits: Math.max(1, Math.round(hiddenUnits)) })}
+          step="1"
+        />
+        <NumberField
+          label="Learning rate"
+          value={params.learningRate}
+          onChange={(learningRate) => onChange({ ...params, learningRate })}
+        />
+        <NumberField
+          label="Seed"
+          value={params.seed ?? 1}
+          onChange={(seed) => onChange({ ...params, seed: Math.round(seed) })}
+          step="1"
+        />
+      </div>
+    </div>
+  )
+}
+
+interface TuningResultPanelProps {
+  result: LoopTuningResult
+}
+
+function TuningResultPanel({ result }: TuningResultPanelProps) {
+  const rows: { label: string; format: (response: StepResponse) => string }[] = [
+    { label: 'ITAE', format: response => response.metrics.itae.toPrecision(3) },
+    { label: 'Overshoot', format: response => `${response.metrics.overshoot.toFixed(1)}%` },
+    { label: 'Settling', format: response => response.metrics.settlingTime !== null ? `${response.metrics.settlingTime.toFixed(1)}s` : '—' }
+  ]
+
+  return (
+    <div className="space-y-3 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Tuning Result</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">{TUNING_METHOD_LABELS[result.method]}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-xs text-gray-700 dark:text-gray-300">
+        {(['kp', 'ki', 'kd'] as const).map(gain => (
+          <div key={gain}>
+            <div className="text-gray-500 dark:text-gray-400">{gain.charAt(0).toUpperCase() + gain.slice(1)}</div>
+            <div>{result.previousGains[gain]} → <span className="font-semibold">{result.gains[gain]}</span></div>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        Model: K = {result.processModel.gain.toPrecision(3)}, τ = {result.processModel.timeConstant.toFixed(1)}s, θ = {result.processModel.deadTime.toFixed(1)}s
+        {result.relay && ` · Ku = ${result.relay.ultimateGain.toPrecision(3)}, Tu = ${result.relay.ultimatePeriod.toFixed(1)}s`}
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400">
+            <th className="py-1" />
+            <th className="py-1 text-right">Before</th>
+            <th className="py-1 text-right">After</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-700 dark:text-gray-300">
+          {rows.map(row => (
+            <tr key={row.label} className="border-t border-gray-200 dark:border-gray-700">
+              <td className="py-1">{row.label}</td>
+              <td className="py-1 text-right">{row.format(result.before)}</td>
+              <td className="py-1 text-right font-semibold">{row.format(result.after)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <StepResponseChart before={result.before} after={result.after} />
+
+      {result.warnings.length > 0 && (
+        <ul className="text-xs text-amber-700 dark:text-amber-400 list-disc list-inside">
+          {result.warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function StepResponseChart({ before, after }: { before: StepResponse; after: StepResponse }) {
+  const values = [...before.measurement, ...after.measurement, before.setpoint, before.initialSetpoint]
+  const low = Math.min(...values)
+  const high = Math.max(...values)
+  const range = high - low || 1
+  const end = Math.max(before.time[before.time.length - 1], after.time[after.time.length - 1]) || 1
+  const x = (time: number) => 10 + (time / end) * 580
+  const y = (value: number) => 180 - ((value - low) / range) * 160
+  const path = (response: StepResponse) => response.time.map((time, i) => `${x(time)},${y(response.measurement[i])}`).join(' ')
+
+  return (
+    <div className="h-40 bg-white dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700 p-2">
+      <svg width="100%" height="100%" viewBox="0 0 600 200" className="overflow-visible">
+        <polyline
+          points={`${x(0)},${y(before.initialSetpoint)} ${x(before.stepTime)},${y(before.initialSetpoint)} ${x(before.stepTime)},${y(before.setpoint)} ${x(end)},${y(before.setpoint)}`}
+          fill="none"
+          stroke="#6b7280"
+          strokeDasharray="4 4"
+          strokeWidth="1"
+        />
+        <polyline points={path(before)} fill="none" stroke="#f59e0b" strokeWidth="2" />
+        <polyline points={path(after)} fill="none" stroke="#3b82f6" strokeWidth="2" />
+        <text x="300" y="198" textAnchor="middle" fontSize="11" fill="currentColor" className="text-gray-600 dark:text-gray-400">
+          Setpoint step · amber = before, blue = after tuning
+        </text>
+      </svg>
+    </div>
+  )
+}
+
 interface SystemStatusPanelProps {
   config: ControlSystemConfig
   simulationResults?: ControlSystemSimulationResult | null
@@ -654,6 +1065,10 @@ interface SimulationResultsPanelProps {
 }
 
 function SimulationResultsPanel({ results }: SimulationResultsPanelProps) {
+  const bestIntegralError = results.comparison
+    ? Math.min(...results.comparison.map(row => row.integralAbsoluteError))
+    : null
+
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
@@ -694,6 +1109,41 @@ function SimulationResultsPanel({ results }: SimulationResultsPanelProps) {
         Settling Time: {results.settlingTime.toFixed(1)}s | 
         Overshoot: {results.overshoot.toFixed(1)}%
       </div>
+
+      {results.comparison && (
+        <div className="overflow-x-auto">
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Strategy Comparison</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="py-1">Controller</th>
+                <th className="py-1 text-right">IAE</th>
+                <th className="py-1 text-right">Overshoot</th>
+                <th className="py-1 text-right">Settling</th>
+                <th className="py-1 text-right">Final Error</th>
+                <th className="py-1 text-right">Stability</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.comparison.map(row => (
+                <tr
+                  key={row.type}
+                  className={`border-t border-gray-200 dark:border-gray-700 ${
+                    row.integralAbsoluteError === bestIntegralError ? 'font-semibold text-green-700 dark:text-green-400' : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  <td className="py-1">{row.type}</td>
+                  <td className="py-1 text-right">{row.integralAbsoluteError.toFixed(2)}</td>
+                  <td className="py-1 text-right">{row.overshoot.toFixed(1)}%</td>
+                  <td className="py-1 text-right">{row.settlingTime.toFixed(1)}s</td>
+                  <td className="py-1 text-right">{row.finalError.toFixed(3)}</td>
+                  <td className="py-1 text-right">{(row.stability * 100).toFixed(0)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
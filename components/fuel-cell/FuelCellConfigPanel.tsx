@@ -1,9 +1,14 @@
 'use client'
 
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { FuelCellType, ModelFidelity } from '@/lib/types/fuel-cell-types'
-import { type FuelCellPredictionInput, type FuelCellPredictionResult } from '@/lib/fuel-cell-predictions'
+import {
+  type FuelCellPredictionInput,
+  type FuelCellPredictionResult,
+  type PolarizationCurve,
+  polarizationCurveToCsv
+} from '@/lib/fuel-cell-predictions'
 
 // ============================================================================
 // FUEL CELL CONFIGURATION INTERFACES
@@ -149,8 +154,11 @@ export default function FuelCellConfigPanel({
     advanced: false
   })
 
-  // Update config when fuel cell type changes
+  // Update config when fuel cell type changes (but keep an initial config intact on mount)
+  const previousType = useRef(config.fuelCellType)
   useEffect(() => {
+    if (previousType.current === config.fuelCellType) return
+    previousType.current = config.fuelCellType
     const defaults = FUEL_CELL_DEFAULTS[config.fuelCellType]
     setConfig(prev => ({ ...prev, ...defaults }))
   }, [config.fuelCellType])
@@ -454,6 +462,10 @@ export default function FuelCellConfigPanel({
               Execution Time: {prediction.modelInfo.executionTime}ms |
               Confidence: {prediction.confidenceInterval.lower.toFixed(1)} - {prediction.confidenceInterval.upper.toFixed(1)}W
             </div>
+
+            {prediction.polarizationCurve && (
+              <PolarizationCurveChart curve={prediction.polarizationCurve} />
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -555,4 +567,169 @@ function MaterialSelector({ label, value, onChange, materials }: MaterialSelecto
       )}
     </div>
   )
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// POLARIZATION CURVE
+// ============================================================================
+
+function PolarizationCurveChart({ curve }: { curve: PolarizationCurve }) {
+  const [view, setView] = useState<'curves' | 'losses'>('curves')
+
+  const maxCurrent = curve.points[curve.points.length - 1].currentDensity || 1
+  const maxVoltage = curve.openCircuitVoltage || 1
+  const maxPower = curve.peakPowerDensity || 1
+  const x = (currentDensity: number) => 50 + (currentDensity / maxCurrent) * 500
+  const yVoltage = (voltage: number) => 180 - (voltage / maxVoltage) * 160
+  const yPower = (powerDensity: number) => 180 - (powerDensity / maxPower) * 160
+  const path = (toY: (index: number) => number) =>
+    curve.points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${x(point.currentDensity)} ${toY(i)}`).join(' ')
+
+  // Losses are stacked downwards from the OCV line so the remaining band is the cell voltage
+  const lossBands = [
+    { key: 'activationLoss', label: 'Activation', color: '#f59e0b' },
+    { key: 'ohmicLoss', label: 'Ohmic', color: '#ef4444' },
+    { key: 'concentrationLoss', label: 'Concentration', color: '#8b5cf6' }
+  ] as const
+  const stackedLoss = (index: number, bandCount: number) =>
+    lossBands.slice(0, bandCount).reduce((sum, band) => sum + curve.points[index][band.key], 0)
+  const bandPath = (bandIndex: number) => {
+    const top = curve.points.map((point, i) =>
+      `${i === 0 ? 'M' : 'L'} ${x(point.currentDensity)} ${yVoltage(Math.max(0, maxVoltage - stackedLoss(i, bandIndex)))}`)
+    const bottom = [...curve.points].reverse().map((point, j) => {
+      const i = curve.points.length - 1 - j
+      return `L ${x(point.currentDensity)} ${yVoltage(Math.max(0, maxVoltage - stackedLoss(i, bandIndex + 1)))}`
+    })
+    return [...top, ...bottom, 'Z'].join(' ')
+  }
+
+  const downloadCsv = () => {
+    const blob = new Blob([polarizationCurveToCsv(curve)], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `polarization-curve-${curve.fuelCellType.toLowerCase()}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const showSupplyLimit = curve.supplyLimitedCurrentDensity > 0 && curve.supplyLimitedCurrentDensity < maxCurrent
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium text-gray-900 dark:text-gray-100">Polarization Curve</h4>
+        <div className="flex items-center gap-2">
+          <select
+            value={view}
+            onChange={(e) => setView(e.target.value as 'curves' | 'losses')}
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          >
+            <option value="curves">Voltage & power density</option>
+            <option value="losses">Loss breakdown</option>
+          </select>
+          <button
+            onClick={downloadCsv}
+            className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            Download CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="h-64 bg-white dark:bg-gray-700 rounded-lg p-4">
+        <svg width="100%" height="100%" viewBox="0 0 600 200" className="overflow-visible">
+          <line x1="50" y1="180" x2="550" y2="180" stroke="#9ca3af" strokeWidth="1" />
+          <line x1="50" y1="20" x2="50" y2="180" stroke="#9ca3af" strokeWidth="1" />
+
+          {view === 'curves' ? (
+            <>
+              <path d={path(i => yVoltage(curve.points[i].voltage))} fill="none" stroke="#3b82f6" strokeWidth="2" />
+              <path d={path(i => yPower(curve.points[i].powerDensity))} fill="none" stroke="#f59e0b" strokeWidth="2" />
+              <circle cx={x(curve.currentDensityAtPeakPower)} cy={yPower(curve.peakPowerDensity)} r="4" fill="#f59e0b">
+                <title>{`Peak ${curve.peakPowerDensity.toFixed(3)} W/cm² at ${curve.currentDensityAtPeakPower.toFixed(3)} A/cm²`}</title>
+              </circle>
+              <line x1="550" y1="20" x2="550" y2="180" stroke="#9ca3af" strokeWidth="1" />
+              {[0, 0.5, 1].map(ratio => (
+                <text
+                  key={ratio}
+                  x="555"
+                  y={185 - ratio * 160}
+                  fontSize="12"
+                  fill="currentColor"
+                  className="text-gray-600 dark:text-gray-400"
+                >
+                  {(ratio * maxPower).toFixed(2)}
+                </text>
+              ))}
+            </>
+          ) : (
+            lossBands.map((band, bandIndex) => (
+              <path key={band.key} d={bandPath(bandIndex)} fill={band.color} fillOpacity="0.6">
+                <title>{band.label} loss</title>
+              </path>
+            ))
+          )}
+
+          {showSupplyLimit && (
+            <line
+              x1={x(curve.supplyLimitedCurrentDensity)}
+              y1="20"
+              x2={x(curve.supplyLimitedCurrentDensity)}
+              y2="180"
+              stroke="#6b7280"
+              strokeWidth="1"
+              strokeDasharray="4 3"
+            >
+              <title>{`Configured flows sustain up to ${curve.supplyLimitedCurrentDensity.toFixed(3)} A/cm²`}</title>
+            </line>
+          )}
+
+          {[0, 0.5, 1].map(ratio => (
+            <text
+              key={ratio}
+              x="45"
+              y={185 - ratio * 160}
+              textAnchor="end"
+              fontSize="12"
+              fill="currentColor"
+              className="text-gray-600 dark:text-gray-400"
+            >
+              {(ratio * maxVoltage).toFixed(2)}
+            </text>
+          ))}
+          {[0, 0.5, 1].map(ratio => (
+            <text
+              key={ratio}
+              x={50 + ratio * 500}
+              y="197"
+              textAnchor="middle"
+              fontSize="12"
+              fill="currentColor"
+              className="text-gray-600 dark:text-gray-400"
+            >
+              {(ratio * maxCurrent).toFixed(2)}
+            </text>
+          ))}
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-500 dark:text-gray-400">
+        {view === 'curves' ? (
+          <>
+            <span><span className="inline-block w-3 h-0.5 bg-blue-500 align-middle mr-1" />Cell voltage (V, left)</span>
+            <span><span className="inline-block w-3 h-0.5 bg-amber-500 align-middle mr-1" />Power density (W/cm², right)</span>
+          </>
+        ) : (
+          lossBands.map(band => (
+            <span key={band.key}>
+              <span className="inline-block w-3 h-3 align-middle mr-1" style={{ backgroundColor: band.color, opacity: 0.6 }} />
+              {band.label} loss (V)
+            </span>
+          ))
+        )}
+        <span>Current density (A/cm²) · OCV {curve.openCircuitVoltage.toFixed(3)} V · limiting {curve.limitingCurrentDensity.toFixed(2)} A/cm²</span>
+      </div>
+    </div>
+  )
+}
@@ -3,100 +3,28 @@
 import { useState, useEffect, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { FuelCellType } from '@/lib/types/fuel-cell-types'
+import type { HILTestConfig, HILTestReport, HILTestResult, HILTestScenario } from '@/lib/types/hil-types'
 
 // ============================================================================
 // HIL TESTING INTERFACES
 // ============================================================================
 
-interface HILTestConfig {
-  testName: string
-  testType: 'VALIDATION' | 'STRESS_TEST' | 'LONGEVITY' | 'FAULT_INJECTION' | 'OPTIMIZATION'
-  hardwareSetup: {
-    realHardware: string[] // List of real hardware components
-    simulatedComponents: string[] // List of simulated components
-    interfaces: HILInterface[]
-  }
-  testScenarios: HILTestScenario[]
-  dataAcquisition: {
-    sampleRate: number // Hz
-    duration: number // seconds
-    channels: string[]
-  }
-  safetyLimits: {
-    maxTemperature: number
-    maxPressure: number
-    maxCurrent: number
-    maxVoltage: number
-  }
-}
-
-interface HILInterface {
-  id: string
-  name: string
-  type: 'ANALOG_IN' | 'ANALOG_OUT' | 'DIGITAL_IN' | 'DIGITAL_OUT' | 'CAN' | 'MODBUS' | 'ETHERNET'
-  hardware: string // Hardware device/card
-  channels: number[]
-  sampleRate: number
-  resolution: number // bits
-  range: { min: number; max: number }
-  unit: string
-}
-
-interface HILTestScenario {
-  id: string
-  name: string
-  description: string
-  duration: number
-  steps: HILTestStep[]
-  expectedOutcomes: {
-    parameter: string
-    expectedValue: number
-    tolerance: number
-    unit: string
-  }[]
-}
-
-interface HILTestStep {
-  time: number // seconds from start
-  action: 'SET_INPUT' | 'INJECT_FAULT' | 'CHANGE_LOAD' | 'VERIFY_OUTPUT' | 'WAIT'
-  parameters: Record<string, any>
-  description: string
-}
-
-interface HILTestResult {
-  testId: string
-  status: 'RUNNING' | 'PASSED' | 'FAILED' | 'ABORTED'
-  startTime: string
-  endTime?: string
-  duration: number
-  measurements: {
-    timestamp: number
-    parameters: Record<string, number>
-  }[]
-  faults: {
-    timestamp: number
-    severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
-    message: string
-    parameter?: string
-    value?: number
-  }[]
-  summary: {
-    passedSteps: number
-    totalSteps: number
-    efficiency: number
-    performanceScore: number
-  }
-}
-
 interface HILTestingInterfaceProps {
   fuelCellType: FuelCellType
   onTestStart?: (config: HILTestConfig) => void
   onTestStop?: () => void
+  onTestComplete?: (report: HILTestReport) => void
   testResults?: HILTestResult[]
   isConnected?: boolean
   className?: string
 }
 
+// Where scenarios run: the control-system plant model on the server, or a
+// Modbus/TCP endpoint such as scripts/hil-modbus-simulator.ts
+type PlantSelection =
+  | { type: 'virtual'; plantModel: 'TRANSIENT' | 'LUMPED' }
+  | { type: 'modbus'; host: string; port: number; clock: 'lockstep' | 'realtime' }
+
 // ============================================================================
 // DEFAULT CONFIGURATIONS
 // ============================================================================
@@ -299,6 +227,7 @@ export default function HILTestingInterface({
   fuelCellType,
   onTestStart,
   onTestStop,
+  onTestComplete,
   testResults = [],
   isConnected = false,
   className = ''
@@ -319,8 +248,12 @@ export default function HILTestingInterface({
   
   const [runningTest, setRunningTest] = useState<HILTestResult | null>(null)
   const [selectedScenario, setSelectedScenario] = useState<string>('')
+  const [plant, setPlant] = useState<PlantSelection>({ type: 'virtual', plantModel: 'TRANSIENT' })
+  const [reports, setReports] = useState<HILTestReport[]>([])
+  const [testError, setTestError] = useState<string | null>(null)
+  const [abortController, setAbortController] = useState<AbortController | null>(null)
 
-  const handleStartTest = useCallback(() => {
+  const handleStartTest = useCallback(async () => {
     if (testConfig.testScenarios.length === 0) return
     
     const newTest: HILTestResult = {
@@ -338,14 +271,43 @@ export default function HILTestingInterface({
       }
     }
     
+    const controller = new AbortController()
     setRunningTest(newTest)
+    setAbortController(controller)
+    setTestError(null)
+    setActiveTab('monitor')
     onTestStart?.(testConfig)
-  }, [testConfig, onTestStart])
+
+    try {
+      const response = await fetch('/api/fuel-cell/hil', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fuelCellType, config: testConfig, plant }),
+        signal: controller.signal
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.message || result.error || `HIL test failed: ${response.statusText}`)
+      }
+
+      setReports(prev => [result.data, ...prev])
+      onTestComplete?.(result.data)
+      setActiveTab('results')
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setTestError(error instanceof Error ? error.message : 'HIL test failed')
+      }
+    } finally {
+      setRunningTest(null)
+      setAbortController(null)
+    }
+  }, [testConfig, fuelCellType, plant, onTestStart, onTestComplete])
 
   const handleStopTest = useCallback(() => {
+    abortController?.abort()
     setRunningTest(null)
     onTestStop?.()
-  }, [onTestStop])
+  }, [abortController, onTestStop])
 
   const addScenario = useCallback((scenario: HILTestScenario) => {
     setTestConfig(prev => ({
@@ -363,14 +325,21 @@ export default function HILTestingInterface({
         </h2>
         <div className="flex items-center gap-4">
           {/* Connection Status */}
-          <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm ${
-            isConnected 
-              ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400'
-              : 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400'
-          }`}>
-            <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
-            {isConnected ? 'Connected' : 'Disconnected'}
-          </div>
+          {plant.type === 'virtual' ? (
+            <div className="flex items-center gap-2 px-3 py-1 rounded-full text-sm bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400">
+              <div className="w-2 h-2 rounded-full bg-blue-500" />
+              Virtual Plant
+            </div>
+          ) : (
+            <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm ${
+              isConnected 
+                ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+                : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300'
+            }`}>
+              <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-gray-400'}`} />
+              Modbus {plant.host}:{plant.port}
+            </div>
+          )}
 
           {/* Test Controls */}
           {runningTest ? (
@@ -383,7 +352,7 @@ export default function HILTestingInterface({
           ) : (
             <button
               onClick={handleStartTest}
-              disabled={!isConnected || testConfig.testScenarios.length === 0}
+              disabled={testConfig.testScenarios.length === 0}
               className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               Start Test
@@ -392,6 +361,12 @@ export default function HILTestingInterface({
         </div>
       </div>
 
+      {testError && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-sm text-red-700 dark:text-red-300">
+          {testError}
+        </div>
+      )}
+
       {/* Navigation Tabs */}
       <div className="border-b border-gray-200 dark:border-gray-700">
         <nav className="flex space-x-8">
@@ -431,6 +406,8 @@ export default function HILTestingInterface({
               config={testConfig}
               onConfigChange={setTestConfig}
               fuelCellType={fuelCellType}
+              plant={plant}
+              onPlantChange={setPlant}
             />
           )}
 
@@ -447,15 +424,13 @@ export default function HILTestingInterface({
           {activeTab === 'monitor' && (
             <TestMonitorPanel
               runningTest={runningTest}
-              testConfig={testConfig}
-              isConnected={isConnected}
+              latestReport={reports[0] ?? null}
             />
           )}
 
           {activeTab === 'results' && (
             <TestResultsPanel
-              results={testResults}
-              fuelCellType={fuelCellType}
+              results={[...reports, ...testResults.filter(result => !reports.some(report => report.testId === result.testId))]}
             />
           )}
         </motion.div>
@@ -472,11 +447,71 @@ interface HardwareSetupPanelProps {
   config: HILTestConfig
   onConfigChange: (config: HILTestConfig) => void
   fuelCellType: FuelCellType
+  plant: PlantSelection
+  onPlantChange: (plant: PlantSelection) => void
 }
 
-function HardwareSetupPanel({ config, onConfigChange, fuelCellType }: HardwareSetupPanelProps) {
+function HardwareSetupPanel({ config, onConfigChange, fuelCellType, plant, onPlantChange }: HardwareSetupPanelProps) {
   return (
     <div className="space-y-6">
+      {/* Plant Under Test */}
+      <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Plant Under Test</h3>
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Plant</label>
+            <select
+              value={plant.type === 'virtual' ? plant.plantModel : 'MODBUS'}
+              onChange={(e) => onPlantChange(e.target.value === 'MODBUS'
+                ? { type: 'modbus', host: '127.0.0.1', port: 5020, clock: 'lockstep' }
+                : { type: 'virtual', plantModel: e.target.value as 'TRANSIENT' | 'LUMPED' })}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+            >
+              <option value="TRANSIENT">Virtual {fuelCellType} plant (transient model)</option>
+              <option value="LUMPED">Virtual {fuelCellType} plant (lumped model)</option>
+              <option value="MODBUS">Modbus/TCP endpoint</option>
+            </select>
+          </div>
+          {plant.type === 'modbus' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Host</label>
+                <input
+                  value={plant.host}
+                  onChange={(e) => onPlantChange({ ...plant, host: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Port</label>
+                <input
+                  type="number"
+                  value={plant.port}
+                  onChange={(e) => onPlantChange({ ...plant, port: parseInt(e.target.value) || 0 })}
+                  className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Clock</label>
+                <select
+                  value={plant.clock}
+                  onChange={(e) => onPlantChange({ ...plant, clock: e.target.value as 'lockstep' | 'realtime' })}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+                >
+                  <option value="lockstep">Lockstep</option>
+                  <option value="realtime">Realtime</option>
+                </select>
+              </div>
+            </>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {plant.type === 'virtual'
+            ? 'Scenarios run on the server against the control-system plant model.'
+            : 'Serve a simulated plant with npm run hil:simulator, or point at a rig exposing the same register map.'}
+        </p>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Hardware Components */}
         <div className="space-y-4">
@@ -712,23 +747,55 @@ function ScenarioDetails({ scenario }: { scenario: HILTestScenario }) {
 }
 
 // ============================================================================
-// MONITOR AND RESULTS PANELS (Simplified)
+// MONITOR AND RESULTS PANELS
 // ============================================================================
 
-function TestMonitorPanel({ runningTest, isConnected }: any) {
+const STATUS_STYLES: Record<string, string> = {
+  PASSED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  ABORTED: 'bg-orange-100 text-orange-800',
+  SKIPPED: 'bg-gray-100 text-gray-600',
+  RUNNING: 'bg-yellow-100 text-yellow-800'
+}
+
+const SEVERITY_STYLES: Record<string, string> = {
+  LOW: 'text-gray-600 dark:text-gray-400',
+  MEDIUM: 'text-yellow-700 dark:text-yellow-400',
+  HIGH: 'text-orange-700 dark:text-orange-400',
+  CRITICAL: 'text-red-700 dark:text-red-400 font-semibold'
+}
+
+function isReport(result: HILTestResult): result is HILTestReport {
+  return 'scenarios' in result
+}
+
+function TestMonitorPanel({ runningTest, latestReport }: { runningTest: HILTestResult | null; latestReport: HILTestReport | null }) {
+  const lastMeasurement = latestReport?.measurements[latestReport.measurements.length - 1]
+
   return (
     <div className="space-y-6">
       {runningTest ? (
-        <div className="space-y-4">
-          <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-            <h3 className="font-semibold text-blue-800 dark:text-blue-200">Test Running</h3>
-            <div className="text-sm text-blue-600 dark:text-blue-400">
-              Test ID: {runningTest.testId}<br />
-              Status: {runningTest.status}<br />
-              Duration: {runningTest.duration}s
-            </div>
+        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+          <h3 className="font-semibold text-blue-800 dark:text-blue-200">Test Running</h3>
+          <div className="text-sm text-blue-600 dark:text-blue-400">
+            Test ID: {runningTest.testId}<br />
+            Status: {runningTest.status}<br />
+            Steps: {runningTest.summary.totalSteps}
+          </div>
+        </div>
+      ) : latestReport && lastMeasurement ? (
+        <div className="space-y-3">
+          <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+            Last reading of {latestReport.testName} at {lastMeasurement.timestamp.toFixed(1)} s
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {Object.entries(lastMeasurement.parameters).map(([parameter, value]) => (
+              <div key={parameter} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-md">
+                <div className="text-xs text-gray-500 dark:text-gray-400">{parameter}</div>
+                <div className="text-lg font-semibold">{value.toFixed(2)}</div>
+              </div>
+            ))}
           </div>
-          {/* Add real-time monitoring charts here */}
         </div>
       ) : (
         <div className="text-center text-gray-500 dark:text-gray-400 py-8">
@@ -739,27 +806,78 @@ function TestMonitorPanel({ runningTest, isConnected }: any) {
   )
 }
 
-function TestResultsPanel({ results }: any) {
+function TestResultsPanel({ results }: { results: HILTestResult[] }) {
   return (
     <div className="space-y-6">
       {results.length > 0 ? (
         <div className="space-y-4">
-          {results.map((result: HILTestResult) => (
-            <div key={result.testId} className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
-              <div className="flex items-center justify-between mb-2">
-                <h4 className="font-semibold">{result.testId}</h4>
-                <span className={`px-2 py-1 text-xs rounded ${
-                  result.status === 'PASSED' ? 'bg-green-100 text-green-800' :
-                  result.status === 'FAILED' ? 'bg-red-100 text-red-800' :
-                  'bg-yellow-100 text-yellow-800'
-                }`}>
+          {results.map(result => (
+            <div key={result.testId} className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold">{isReport(result) ? result.testName : result.testId}</h4>
+                <span className={`px-2 py-1 text-xs rounded ${STATUS_STYLES[result.status]}`}>
                   {result.status}
                 </span>
               </div>
               <div className="text-sm text-gray-600 dark:text-gray-400">
-                Duration: {result.duration}s | 
-                Passed Steps: {result.summary.passedSteps}/{result.summary.totalSteps}
+                Duration: {result.duration.toFixed(1)}s | 
+                Passed Steps: {result.summary.passedSteps}/{result.summary.totalSteps} | 
+                Score: {result.summary.performanceScore}% | 
+                Mean Efficiency: {result.summary.efficiency.toFixed(1)}%
+                {isReport(result) && <> | {result.plant}</>}
               </div>
+              {isReport(result) && result.abortReason && (
+                <div className="text-sm text-red-700 dark:text-red-400">Aborted: {result.abortReason}</div>
+              )}
+
+              {isReport(result) && result.scenarios.map(scenario => (
+                <div key={scenario.scenarioId} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-md space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{scenario.name}</span>
+                    <span className={`px-2 py-0.5 text-xs rounded ${STATUS_STYLES[scenario.status]}`}>{scenario.status}</span>
+                  </div>
+                  <ul className="text-xs space-y-1">
+                    {scenario.steps.map((step, index) => (
+                      <li key={index} className="flex gap-2">
+                        <span className={`px-1 rounded ${STATUS_STYLES[step.status]}`}>{step.status}</span>
+                        <span className="text-gray-500">{step.time}s</span>
+                        <span>{step.action}</span>
+                        {step.message && <span className="text-gray-500">{step.message}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                  {scenario.outcomes.length > 0 && (
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th>Outcome</th><th>Expected</th><th>Measured</th><th></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {scenario.outcomes.map(outcome => (
+                          <tr key={outcome.parameter}>
+                            <td>{outcome.parameter}</td>
+                            <td>{outcome.expectedValue} ± {outcome.tolerance} {outcome.unit}</td>
+                            <td>{outcome.measured === null ? 'not measured' : `${outcome.measured.toFixed(2)} ${outcome.unit}`}</td>
+                            <td>{outcome.passed ? '✓' : '✗'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))}
+
+              {result.faults.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">Faults</div>
+                  {result.faults.map((fault, index) => (
+                    <div key={index} className={`text-xs ${SEVERITY_STYLES[fault.severity]}`}>
+                      {fault.timestamp.toFixed(1)}s [{fault.severity}] {fault.message}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -770,4 +888,4 @@ function TestResultsPanel({ results }: any) {
       )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,14 +1,19 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { FuelCellType } from '@/lib/types/fuel-cell-types'
 import { 
   OptimizationObjective, 
   OptimizationConstraints, 
   OptimizationParameters,
-  OptimizationResult 
+  OptimizationResult,
+  ParetoPoint,
+  SurrogateSummary
 } from '@/lib/fuel-cell-optimization'
+import { type FuelCellPredictionInput } from '@/lib/fuel-cell-predictions'
+import { type SensitivityResult } from '@/lib/fuel-cell-sensitivity'
+import SensitivityAnalysis, { type SensitivityAnalysisConfig } from './SensitivityAnalysis'
 
 // ============================================================================
 // INTERFACES
@@ -18,7 +23,11 @@ interface OptimizationInterfaceProps {
   fuelCellType: FuelCellType
   onOptimizationStart?: (config: OptimizationConfig) => void
   optimizationResult?: OptimizationResult | null
+  onApplyParameters?: (parameters: FuelCellPredictionInput) => void
+  onSensitivityAnalysis?: (request: SensitivityAnalysisConfig & { constraints: OptimizationConstraints }) => void
+  sensitivityResult?: SensitivityResult | null
   isOptimizing?: boolean
+  isAnalyzing?: boolean
   className?: string
 }
 
@@ -103,6 +112,45 @@ const DEFAULT_CONSTRAINTS: Record<FuelCellType, OptimizationConstraints> = {
   }
 }
 
+type MaterialList = keyof NonNullable<OptimizationConstraints['availableMaterials']>
+
+const MATERIAL_OPTIONS: { key: MaterialList; label: string; options: { id: string; name: string }[] }[] = [
+  {
+    key: 'anodeCatalysts',
+    label: 'Anode Catalysts',
+    options: [
+      { id: 'pt-c', name: 'Pt/C' },
+      { id: 'pt-alloy', name: 'Pt-alloy' },
+      { id: 'non-pgm', name: 'Non-PGM' },
+      { id: 'ni-based', name: 'Ni-based' }
+    ]
+  },
+  {
+    key: 'cathodeCatalysts',
+    label: 'Cathode Catalysts',
+    options: [
+      { id: 'pt-c', name: 'Pt/C' },
+      { id: 'pt-alloy', name: 'Pt-alloy' },
+      { id: 'non-pgm', name: 'Non-PGM' },
+      { id: 'ni-based', name: 'Ni-based' }
+    ]
+  },
+  {
+    key: 'membraneTypes',
+    label: 'Membranes',
+    options: [
+      { id: 'nafion', name: 'Nafion' },
+      { id: 'pfsa', name: 'PFSA' },
+      { id: 'hydrocarbon', name: 'Hydrocarbon' },
+      { id: 'ceramic', name: 'Ceramic' }
+    ]
+  }
+]
+
+const MATERIAL_NAMES: Record<string, string> = Object.fromEntries(
+  MATERIAL_OPTIONS.flatMap(group => group.options.map(option => [option.id, option.name]))
+)
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -111,7 +159,11 @@ export default function OptimizationInterface({
   fuelCellType,
   onOptimizationStart,
   optimizationResult,
+  onApplyParameters,
+  onSensitivityAnalysis,
+  sensitivityResult,
   isOptimizing = false,
+  isAnalyzing = false,
   className = ''
 }: OptimizationInterfaceProps) {
   const [config, setConfig] = useState<OptimizationConfig>({
@@ -129,7 +181,7 @@ export default function OptimizationInterface({
     }
   })
 
-  const [activeTab, setActiveTab] = useState<'objective' | 'constraints' | 'algorithm' | 'results'>('objective')
+  const [activeTab, setActiveTab] = useState<'objective' | 'constraints' | 'algorithm' | 'sensitivity' | 'results'>('objective')
   const [showAdvanced, setShowAdvanced] = useState(false)
 
   const handleObjectiveChange = useCallback((updates: Partial<OptimizationObjective>) => {
@@ -183,6 +235,7 @@ export default function OptimizationInterface({
             { id: 'objective', label: 'Objective', icon: '🎯' },
             { id: 'constraints', label: 'Constraints', icon: '🔒' },
             { id: 'algorithm', label: 'Algorithm', icon: '🧮' },
+            { id: 'sensitivity', label: 'Sensitivity', icon: '🌪️' },
             { id: 'results', label: 'Results', icon: '📊' }
           ].map(tab => (
             <button
@@ -236,17 +289,26 @@ export default function OptimizationInterface({
             />
           )}
 
+          {activeTab === 'sensitivity' && (
+            <SensitivityAnalysis
+              onAnalyze={(analysis) => onSensitivityAnalysis?.({ ...analysis, constraints: config.constraints })}
+              result={sensitivityResult}
+              isAnalyzing={isAnalyzing}
+            />
+          )}
+
           {activeTab === 'results' && optimizationResult && (
             <OptimizationResults
               result={optimizationResult}
               fuelCellType={fuelCellType}
+              onApplyParameters={onApplyParameters}
             />
           )}
         </motion.div>
       </AnimatePresence>
 
       {/* Action Buttons */}
-      {activeTab !== 'results' && (
+      {activeTab !== 'results' && activeTab !== 'sensitivity' && (
         <div className="flex justify-center gap-4">
           <button
             onClick={handleStartOptimization}
@@ -421,6 +483,14 @@ interface ConstraintsConfigurationProps {
 }
 
 function ConstraintsConfiguration({ constraints, onChange, fuelCellType, showAdvanced }: ConstraintsConfigurationProps) {
+  const toggleMaterial = (list: MaterialList, id: string) => {
+    const current = constraints.availableMaterials?.[list] || []
+    const next = current.includes(id) ? current.filter(m => m !== id) : [...current, id]
+    // The optimizer needs at least one option per material slot
+    if (next.length === 0) return
+    onChange({ availableMaterials: { ...constraints.availableMaterials, [list]: next } })
+  }
+
   return (
     <div className="space-y-6">
       {/* System Constraints */}
@@ -497,7 +567,36 @@ function ConstraintsConfiguration({ constraints, onChange, fuelCellType, showAdv
             Select available materials for optimization
           </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {/* Material selection checkboxes would go here */}
+            {MATERIAL_OPTIONS.map(group => (
+              <div key={group.key} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{group.label}</div>
+                <div className="space-y-1">
+                  {group.options.map(option => (
+                    <label key={option.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={constraints.availableMaterials?.[group.key]?.includes(option.id) || false}
+                        onChange={() => toggleMaterial(group.key, option.id)}
+                        className="rounded border-gray-300 dark:border-gray-600"
+                      />
+                      {option.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="md:w-1/3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Maximum System Cost ($)
+            </label>
+            <input
+              type="number"
+              value={constraints.maxSystemCost || ''}
+              onChange={(e) => onChange({ maxSystemCost: e.target.value ? parseFloat(e.target.value) : undefined })}
+              placeholder="Optional"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+            />
           </div>
         </motion.div>
       )}
@@ -564,7 +663,8 @@ function AlgorithmConfiguration({ parameters, onChange, showAdvanced }: Algorith
             { id: 'GRADIENT_DESCENT', label: 'Gradient Descent', icon: '📉', description: 'Fast for smooth objectives' },
             { id: 'BAYESIAN', label: 'Bayesian Optimization', icon: '🎲', description: 'Efficient with expensive evaluations' },
             { id: 'PARTICLE_SWARM', label: 'Particle Swarm', icon: '🐝', description: 'Good for non-convex problems' },
-            { id: 'SIMULATED_ANNEALING', label: 'Simulated Annealing', icon: '🔥', description: 'Escapes local optima' }
+            { id: 'SIMULATED_ANNEALING', label: 'Simulated Annealing', icon: '🔥', description: 'Escapes local optima' },
+            { id: 'NSGA_II', label: 'Pareto (NSGA-II)', icon: '⚖️', description: 'Trade-off front across all objectives' }
           ].map(alg => (
             <button
               key={alg.id}
@@ -617,7 +717,7 @@ function AlgorithmConfiguration({ parameters, onChange, showAdvanced }: Algorith
       </div>
 
       {/* Algorithm-specific parameters */}
-      {showAdvanced && (parameters.algorithm === 'GENETIC_ALGORITHM' || parameters.algorithm === 'PARTICLE_SWARM') && (
+      {showAdvanced && (parameters.algorithm === 'GENETIC_ALGORITHM' || parameters.algorithm === 'PARTICLE_SWARM' || parameters.algorithm === 'NSGA_II') && (
         <motion.div
           initial={{ opacity: 0, height: 0 }}
           animate={{ opacity: 1, height: 'auto' }}
@@ -637,6 +737,65 @@ function AlgorithmConfiguration({ parameters, onChange, showAdvanced }: Algorith
           </div>
         </motion.div>
       )}
+
+      {showAdvanced && parameters.algorithm === 'SIMULATED_ANNEALING' && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Temperature Schedule
+            </label>
+            <select
+              value={parameters.temperatureSchedule || 'EXPONENTIAL'}
+              onChange={(e) => onChange({ temperatureSchedule: e.target.value as OptimizationParameters['temperatureSchedule'] })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+            >
+              <option value="LINEAR">Linear</option>
+              <option value="EXPONENTIAL">Exponential</option>
+              <option value="ADAPTIVE">Adaptive (acceptance-rate driven)</option>
+            </select>
+          </div>
+        </motion.div>
+      )}
+
+      {showAdvanced && parameters.algorithm === 'BAYESIAN' && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          className="grid grid-cols-1 md:grid-cols-2 gap-4"
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Acquisition Function
+            </label>
+            <select
+              value={parameters.acquisitionFunction || 'EI'}
+              onChange={(e) => onChange({ acquisitionFunction: e.target.value as OptimizationParameters['acquisitionFunction'] })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+            >
+              <option value="EI">Expected Improvement</option>
+              <option value="PI">Probability of Improvement</option>
+              <option value="UCB">Upper Confidence Bound</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Kernel
+            </label>
+            <select
+              value={parameters.kernelType || 'MATERN_52'}
+              onChange={(e) => onChange({ kernelType: e.target.value as OptimizationParameters['kernelType'] })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+            >
+              <option value="MATERN_52">Matérn 5/2</option>
+              <option value="MATERN_32">Matérn 3/2</option>
+              <option value="RBF">Squared Exponential (RBF)</option>
+            </select>
+          </div>
+        </motion.div>
+      )}
     </div>
   )
 }
@@ -648,9 +807,10 @@ function AlgorithmConfiguration({ parameters, onChange, showAdvanced }: Algorith
 interface OptimizationResultsProps {
   result: OptimizationResult
   fuelCellType: FuelCellType
+  onApplyParameters?: (parameters: FuelCellPredictionInput) => void
 }
 
-function OptimizationResults({ result, fuelCellType }: OptimizationResultsProps) {
+function OptimizationResults({ result, fuelCellType, onApplyParameters }: OptimizationResultsProps) {
   return (
     <div className="space-y-6">
       {/* Summary */}
@@ -710,14 +870,54 @@ function OptimizationResults({ result, fuelCellType }: OptimizationResultsProps)
             <div className="text-sm text-gray-600 dark:text-gray-400">Air Flow</div>
             <div className="text-lg font-semibold">{result.optimizedParameters.airFlowRate.toFixed(1)} L/min</div>
           </div>
+          {result.optimizedParameters.anodeCatalyst && (
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="text-sm text-gray-600 dark:text-gray-400">Catalysts (Anode / Cathode)</div>
+              <div className="text-lg font-semibold">
+                {MATERIAL_NAMES[result.optimizedParameters.anodeCatalyst] || result.optimizedParameters.anodeCatalyst}
+                {' / '}
+                {result.optimizedParameters.cathodeCatalyst
+                  ? MATERIAL_NAMES[result.optimizedParameters.cathodeCatalyst] || result.optimizedParameters.cathodeCatalyst
+                  : '—'}
+              </div>
+            </div>
+          )}
+          {result.optimizedParameters.membraneType && (
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="text-sm text-gray-600 dark:text-gray-400">Membrane</div>
+              <div className="text-lg font-semibold">
+                {MATERIAL_NAMES[result.optimizedParameters.membraneType] || result.optimizedParameters.membraneType}
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Pareto Front */}
+      {result.paretoFront && result.paretoFront.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            Pareto Front ({result.paretoFront.length} non-dominated designs)
+          </h3>
+          <ParetoFrontChart front={result.paretoFront} onApplyParameters={onApplyParameters} />
+        </div>
+      )}
+
+      {/* Surrogate Uncertainty */}
+      {result.surrogate && result.surrogate.slices.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            Surrogate Model Uncertainty
+          </h3>
+          <SurrogateChart surrogate={result.surrogate} optimizedParameters={result.optimizedParameters} />
+        </div>
+      )}
+
       {/* Convergence History Chart */}
       {result.convergenceHistory.length > 0 && (
         <div>
           <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
-            Convergence History
+            {result.paretoFront ? 'Hypervolume Progress' : 'Convergence History'}
           </h3>
           <ConvergenceChart history={result.convergenceHistory} />
         </div>
@@ -830,4 +1030,298 @@ function ConvergenceChart({ history }: { history: OptimizationResult['convergenc
       </svg>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// PARETO FRONT CHART
+// ============================================================================
+
+const PARETO_AXES = [
+  { key: 'power', label: 'Power (W)' },
+  { key: 'efficiency', label: 'Efficiency (%)' },
+  { key: 'cost', label: 'Cost ($)' },
+  { key: 'durability', label: 'Durability (h)' }
+] as const
+
+type ParetoAxis = typeof PARETO_AXES[number]['key']
+
+interface ParetoFrontChartProps {
+  front: ParetoPoint[]
+  onApplyParameters?: (parameters: FuelCellPredictionInput) => void
+}
+
+function ParetoFrontChart({ front, onApplyParameters }: ParetoFrontChartProps) {
+  const [mode, setMode] = useState<'2D' | '3D'>('2D')
+  const [xAxis, setXAxis] = useState<ParetoAxis>('cost')
+  const [yAxis, setYAxis] = useState<ParetoAxis>('power')
+  const [zAxis, setZAxis] = useState<ParetoAxis>('efficiency')
+  const [rotation, setRotation] = useState(35)
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
+
+  const ranges = useMemo(() => {
+    const result = {} as Record<ParetoAxis, { min: number; max: number }>
+    for (const axis of PARETO_AXES) {
+      const values = front.map(point => point[axis.key])
+      result[axis.key] = { min: Math.min(...values), max: Math.max(...values) }
+    }
+    return result
+  }, [front])
+
+  const normalize = (point: ParetoPoint, axis: ParetoAxis) => {
+    const { min, max } = ranges[axis]
+    return max > min ? (point[axis] - min) / (max - min) : 0.5
+  }
+
+  // Orthographic projection: rotate about the vertical axis, then tilt towards the viewer
+  const project = (x: number, y: number, z: number) => {
+    const theta = (rotation * Math.PI) / 180
+    const phi = (25 * Math.PI) / 180
+    const px = (x - 0.5) * Math.cos(theta) - (z - 0.5) * Math.sin(theta)
+    const depth = (x - 0.5) * Math.sin(theta) + (z - 0.5) * Math.cos(theta)
+    const py = (y - 0.5) * Math.cos(phi) - depth * Math.sin(phi)
+    return { sx: 300 + px * 300, sy: 100 - py * 150, depth }
+  }
+
+  const points = front.map((point, index) => {
+    const nx = normalize(point, xAxis)
+    const ny = normalize(point, yAxis)
+    if (mode === '2D') {
+      return { index, sx: 60 + nx * 520, sy: 180 - ny * 160, depth: 0 }
+    }
+    return { index, ...project(nx, ny, normalize(point, zAxis)) }
+  })
+
+  // Paint far points first so near points stay clickable
+  const drawOrder = [...points].sort((a, b) => b.depth - a.depth)
+  const selected = selectedIndex !== null ? front[selectedIndex] : null
+  const axisLabel = (axis: ParetoAxis) => PARETO_AXES.find(a => a.key === axis)!.label
+
+  const axisSelect = (label: string, value: ParetoAxis, onChange: (axis: ParetoAxis) => void) => (
+    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as ParetoAxis)}
+        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-sm"
+      >
+        {PARETO_AXES.map(axis => (
+          <option key={axis.key} value={axis.key}>{axis.label}</option>
+        ))}
+      </select>
+    </label>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex bg-gray-200 dark:bg-gray-700 rounded-lg p-1">
+          {(['2D', '3D'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 rounded text-sm transition-colors ${
+                mode === option
+                  ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-gray-100 shadow'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        {axisSelect('X', xAxis, setXAxis)}
+        {axisSelect('Y', yAxis, setYAxis)}
+        {mode === '3D' && axisSelect('Z', zAxis, setZAxis)}
+        {mode === '3D' && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            Rotate
+            <input
+              type="range"
+              min="0"
+              max="360"
+              value={rotation}
+              onChange={(e) => setRotation(parseInt(e.target.value))}
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="h-64 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+        <svg width="100%" height="100%" viewBox="0 0 600 200" className="overflow-visible">
+          {mode === '2D' ? (
+            <g stroke="#9ca3af" strokeWidth="1">
+              <line x1="60" y1="180" x2="580" y2="180" />
+              <line x1="60" y1="20" x2="60" y2="180" />
+            </g>
+          ) : (
+            <g stroke="#9ca3af" strokeWidth="1">
+              {([[1, 0, 0], [0, 1, 0], [0, 0, 1]] as const).map(([x, y, z], i) => {
+                const origin = project(0, 0, 0)
+                const end = project(x, y, z)
+                return <line key={i} x1={origin.sx} y1={origin.sy} x2={end.sx} y2={end.sy} />
+              })}
+            </g>
+          )}
+
+          {drawOrder.map(point => (
+            <circle
+              key={point.index}
+              cx={point.sx}
+              cy={point.sy}
+              r={selectedIndex === point.index ? 6 : 4}
+              fill={selectedIndex === point.index ? '#f59e0b' : '#8b5cf6'}
+              opacity={mode === '3D' ? 0.6 + 0.4 * (0.5 - point.depth) : 0.85}
+              className="cursor-pointer"
+              onClick={() => setSelectedIndex(point.index)}
+            >
+              <title>
+                {`${front[point.index].power.toFixed(1)} W, ${front[point.index].efficiency.toFixed(1)}%, $${front[point.index].cost.toFixed(0)}, ${front[point.index].durability.toFixed(0)} h`}
+              </title>
+            </circle>
+          ))}
+
+          <text x="320" y="198" textAnchor="middle" fontSize="12" fill="currentColor" className="text-gray-600 dark:text-gray-400">
+            {axisLabel(xAxis)}
+            {mode === '3D' ? ` / ${axisLabel(zAxis)}` : ''}
+          </text>
+          <text x="15" y="100" textAnchor="middle" fontSize="12" fill="currentColor" transform="rotate(-90 15 100)" className="text-gray-600 dark:text-gray-400">
+            {axisLabel(yAxis)}
+          </text>
+        </svg>
+      </div>
+
+      {selected ? (
+        <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm mb-3">
+            <div>Power: <span className="font-semibold">{selected.power.toFixed(1)} W</span></div>
+            <div>Efficiency: <span className="font-semibold">{selected.efficiency.toFixed(1)}%</span></div>
+            <div>Cost: <span className="font-semibold">${selected.cost.toFixed(0)}</span></div>
+            <div>Durability: <span className="font-semibold">{selected.durability.toFixed(0)} h</span></div>
+          </div>
+          <div className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+            {selected.parameters.cellCount} cells × {selected.parameters.activeArea.toFixed(1)} cm² at{' '}
+            {selected.parameters.operatingTemperature.toFixed(1)}°C, {selected.parameters.operatingPressure.toFixed(2)} bar
+            {selected.parameters.anodeCatalyst && (
+              <> · {[selected.parameters.anodeCatalyst, selected.parameters.cathodeCatalyst, selected.parameters.membraneType]
+                .filter(Boolean)
+                .map(id => MATERIAL_NAMES[id!] || id)
+                .join(' / ')}</>
+            )}
+          </div>
+          {onApplyParameters && (
+            <button
+              onClick={() => onApplyParameters(selected.parameters)}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors text-sm"
+            >
+              Load into Configuration
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          Select a point to inspect its design and load it into the configuration panel.
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// SURROGATE UNCERTAINTY CHART
+// ============================================================================
+
+const SLICE_LABELS: Record<string, string> = {
+  cellCount: 'Cell Count',
+  activeArea: 'Active Area (cm²)',
+  operatingTemperature: 'Temperature (°C)',
+  operatingPressure: 'Pressure (bar)',
+  humidity: 'Humidity (%)',
+  fuelFlowRate: 'Fuel Flow (L/min)',
+  airFlowRate: 'Air Flow (L/min)'
+}
+
+interface SurrogateChartProps {
+  surrogate: SurrogateSummary
+  optimizedParameters: OptimizationResult['optimizedParameters']
+}
+
+function SurrogateChart({ surrogate, optimizedParameters }: SurrogateChartProps) {
+  const [parameter, setParameter] = useState(surrogate.slices[0].parameter)
+  const slice = surrogate.slices.find(s => s.parameter === parameter) || surrogate.slices[0]
+
+  // Mean ± 2σ band, scaled to the band's own extent
+  const upper = slice.points.map(p => p.mean + 2 * p.stdDev)
+  const lower = slice.points.map(p => p.mean - 2 * p.stdDev)
+  const maxValue = Math.max(...upper)
+  const minValue = Math.min(...lower)
+  const range = maxValue - minValue || 1
+  const first = slice.points[0].value
+  const span = slice.points[slice.points.length - 1].value - first || 1
+
+  const x = (value: number) => 40 + ((value - first) / span) * 540
+  const y = (value: number) => 180 - ((value - minValue) / range) * 160
+  const optimum = optimizedParameters[slice.parameter as keyof typeof optimizedParameters] as number
+
+  const band = [
+    ...slice.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${x(p.value)} ${y(upper[i])}`),
+    ...[...slice.points].reverse().map((p, i) => `L ${x(p.value)} ${y(lower[slice.points.length - 1 - i])}`),
+    'Z'
+  ].join(' ')
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          Parameter
+          <select
+            value={slice.parameter}
+            onChange={(e) => setParameter(e.target.value)}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-sm"
+          >
+            {surrogate.slices.map(s => (
+              <option key={s.parameter} value={s.parameter}>{SLICE_LABELS[s.parameter] || s.parameter}</option>
+            ))}
+          </select>
+        </label>
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          Kernel {surrogate.kernel.replace('_', ' ')} · {surrogate.acquisitionFunction} · length scale{' '}
+          {surrogate.lengthScales[slice.parameter]?.toFixed(2)} · ±{surrogate.optimumStdDev.toFixed(2)} at optimum
+        </div>
+      </div>
+
+      <div className="h-64 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+        <svg width="100%" height="100%" viewBox="0 0 600 200" className="overflow-visible">
+          <path d={band} fill="#8b5cf6" opacity="0.2" />
+          <path
+            d={slice.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${x(p.value)} ${y(p.mean)}`).join(' ')}
+            fill="none"
+            stroke="#8b5cf6"
+            strokeWidth="2"
+          />
+          {Number.isFinite(optimum) && (
+            <line x1={x(optimum)} y1="20" x2={x(optimum)} y2="180" stroke="#f59e0b" strokeDasharray="4 4" />
+          )}
+          {[0, 0.5, 1].map(ratio => (
+            <text
+              key={ratio}
+              x="35"
+              y={185 - ratio * 160}
+              textAnchor="end"
+              fontSize="12"
+              fill="currentColor"
+              className="text-gray-600 dark:text-gray-400"
+            >
+              {(minValue + ratio * range).toFixed(1)}
+            </text>
+          ))}
+          <text x="310" y="198" textAnchor="middle" fontSize="12" fill="currentColor" className="text-gray-600 dark:text-gray-400">
+            {SLICE_LABELS[slice.parameter] || slice.parameter}
+          </text>
+        </svg>
+      </div>
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        Shaded band shows the 95% credible interval of the Gaussian process; wide regions are where another test would be most informative.
+      </div>
+    </div>
+  )
+}
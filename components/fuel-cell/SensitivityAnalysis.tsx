@@ -0,0 +1,337 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  type SensitivityMethod,
+  type SensitivityOutput,
+  type SensitivityResult,
+  type TornadoBar,
+  type SobolIndex,
+  type MorrisIndex
+} from '@/lib/fuel-cell-sensitivity'
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface SensitivityAnalysisConfig {
+  method: SensitivityMethod
+  output: SensitivityOutput
+  options: {
+    trajectories?: number
+    samples?: number
+  }
+}
+
+interface SensitivityAnalysisProps {
+  onAnalyze?: (config: SensitivityAnalysisConfig) => void
+  result?: SensitivityResult | null
+  isAnalyzing?: boolean
+}
+
+const PARAMETER_LABELS: Record<string, string> = {
+  cellCount: 'Cell Count',
+  activeArea: 'Active Area',
+  operatingTemperature: 'Temperature',
+  operatingPressure: 'Pressure',
+  humidity: 'Humidity',
+  fuelFlowRate: 'Fuel Flow',
+  airFlowRate: 'Air Flow'
+}
+
+const OUTPUT_LABELS: Record<SensitivityOutput, string> = {
+  POWER: 'Power (W)',
+  EFFICIENCY: 'Efficiency (%)',
+  VOLTAGE: 'Voltage (V)',
+  POWER_DENSITY: 'Power Density (W/cm²)'
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function SensitivityAnalysis({ onAnalyze, result, isAnalyzing = false }: SensitivityAnalysisProps) {
+  const [config, setConfig] = useState<SensitivityAnalysisConfig>({
+    method: 'MORRIS',
+    output: 'POWER',
+    options: { trajectories: 20, samples: 256 }
+  })
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Method
+          </label>
+          <select
+            value={config.method}
+            onChange={(e) => setConfig(prev => ({ ...prev, method: e.target.value as SensitivityMethod }))}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+          >
+            <option value="MORRIS">Morris elementary effects (screening)</option>
+            <option value="SOBOL">Sobol indices (variance-based)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Output
+          </label>
+          <select
+            value={config.output}
+            onChange={(e) => setConfig(prev => ({ ...prev, output: e.target.value as SensitivityOutput }))}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+          >
+            {Object.entries(OUTPUT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {config.method === 'MORRIS' ? 'Trajectories' : 'Base Samples'}
+          </label>
+          <input
+            type="number"
+            value={config.method === 'MORRIS' ? config.options.trajectories : config.options.samples}
+            onChange={(e) => {
+              const value = parseInt(e.target.value)
+              setConfig(prev => ({
+                ...prev,
+                options: config.method === 'MORRIS'
+                  ? { ...prev.options, trajectories: value }
+                  : { ...prev.options, samples: value }
+              }))
+            }}
+            min={config.method === 'MORRIS' ? 4 : 32}
+            max={config.method === 'MORRIS' ? 200 : 4096}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={() => onAnalyze?.(config)}
+        disabled={isAnalyzing}
+        className="px-6 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {isAnalyzing ? 'Analyzing...' : 'Run Sensitivity Analysis'}
+      </button>
+
+      {result && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-6"
+        >
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            {result.evaluations} model evaluations · baseline {OUTPUT_LABELS[result.output]}: {result.baselineOutput.toFixed(2)}
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+              Tornado: Output Swing Across Each Parameter Range
+            </h3>
+            <TornadoChart bars={result.tornado} baseline={result.baselineOutput} />
+          </div>
+
+          {result.sobol && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                Sobol Indices
+              </h3>
+              <SobolChart indices={result.sobol} />
+            </div>
+          )}
+
+          {result.morris && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                Morris Elementary Effects
+              </h3>
+              <MorrisChart indices={result.morris} />
+            </div>
+          )}
+        </motion.div>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// TORNADO CHART
+// ============================================================================
+
+function TornadoChart({ bars, baseline }: { bars: TornadoBar[]; baseline: number }) {
+  const extent = Math.max(...bars.flatMap(bar => [Math.abs(bar.lowOutput - baseline), Math.abs(bar.highOutput - baseline)])) || 1
+  const rowHeight = 160 / bars.length
+  const x = (output: number) => 320 + ((output - baseline) / extent) * 250
+
+  return (
+    <div className="h-64 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+      <svg width="100%" height="100%" viewBox="0 0 600 200" className="overflow-visible">
+        {bars.map((bar, i) => {
+          const y = 20 + i * rowHeight
+          const height = rowHeight * 0.7
+          return (
+            <g key={bar.parameter}>
+              <rect
+                x={Math.min(x(bar.lowOutput), 320)}
+                y={y}
+                width={Math.abs(x(bar.lowOutput) - 320)}
+                height={height}
+                fill="#3b82f6"
+              >
+                <title>{`${PARAMETER_LABELS[bar.parameter]} at ${bar.lowValue}: ${bar.lowOutput.toFixed(2)}`}</title>
+              </rect>
+              <rect
+                x={Math.min(x(bar.highOutput), 320)}
+                y={y}
+                width={Math.abs(x(bar.highOutput) - 320)}
+                height={height}
+                fill="#f59e0b"
+              >
+                <title>{`${PARAMETER_LABELS[bar.parameter]} at ${bar.highValue}: ${bar.highOutput.toFixed(2)}`}</title>
+              </rect>
+              <text
+                x="65"
+                y={y + height * 0.75}
+                textAnchor="end"
+                fontSize="11"
+                fill="currentColor"
+                className="text-gray-600 dark:text-gray-400"
+              >
+                {PARAMETER_LABELS[bar.parameter] || bar.parameter}
+              </text>
+            </g>
+          )
+        })}
+        <line x1="320" y1="15" x2="320" y2="185" stroke="#6b7280" strokeWidth="1" />
+        <text x="320" y="198" textAnchor="middle" fontSize="11" fill="currentColor" className="text-gray-600 dark:text-gray-400">
+          Baseline {baseline.toFixed(1)} · blue = parameter minimum, amber = parameter maximum
+        </text>
+      </svg>
+    </div>
+  )
+}
+
+// ============================================================================
+// SOBOL CHART
+// ============================================================================
+
+function SobolChart({ indices }: { indices: SobolIndex[] }) {
+  const maxIndex = Math.max(1, ...indices.map(index => index.totalOrder + index.totalOrderConfidence))
+  const groupWidth = 540 / indices.length
+  const barWidth = groupWidth * 0.35
+  const y = (value: number) => 180 - (Math.max(0, value) / maxIndex) * 160
+
+  return (
+    <div className="h-64 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+      <svg width="100%" height="100%" viewBox="0 0 600 200" className="overflow-visible">
+        {indices.map((index, i) => {
+          const x = 50 + i * groupWidth
+          return (
+            <g key={index.parameter}>
+              <rect x={x} y={y(index.firstOrder)} width={barWidth} height={180 - y(index.firstOrder)} fill="#3b82f6">
+                <title>{`S1 = ${index.firstOrder.toFixed(3)} ± ${index.firstOrderConfidence.toFixed(3)}`}</title>
+              </rect>
+              <rect x={x + barWidth} y={y(index.totalOrder)} width={barWidth} height={180 - y(index.totalOrder)} fill="#8b5cf6">
+                <title>{`ST = ${index.totalOrder.toFixed(3)} ± ${index.totalOrderConfidence.toFixed(3)}`}</title>
+              </rect>
+              <line
+                x1={x + barWidth * 1.5}
+                y1={y(index.totalOrder + index.totalOrderConfidence)}
+                x2={x + barWidth * 1.5}
+                y2={y(index.totalOrder - index.totalOrderConfidence)}
+                stroke="#374151"
+                strokeWidth="1"
+              />
+              <text
+                x={x + barWidth}
+                y="195"
+                textAnchor="middle"
+                fontSize="10"
+                fill="currentColor"
+                className="text-gray-600 dark:text-gray-400"
+              >
+                {PARAMETER_LABELS[index.parameter] || index.parameter}
+              </text>
+            </g>
+          )
+        })}
+        <line x1="45" y1="180" x2="590" y2="180" stroke="#9ca3af" strokeWidth="1" />
+        {[0, 0.5, 1].map(ratio => (
+          <text
+            key={ratio}
+            x="40"
+            y={185 - ratio * 160}
+            textAnchor="end"
+            fontSize="12"
+            fill="currentColor"
+            className="text-gray-600 dark:text-gray-400"
+          >
+            {(ratio * maxIndex).toFixed(2)}
+          </text>
+        ))}
+        <g fontSize="11" fill="currentColor" className="text-gray-600 dark:text-gray-400">
+          <rect x="460" y="8" width="10" height="10" fill="#3b82f6" />
+          <text x="475" y="17">First order</text>
+          <rect x="530" y="8" width="10" height="10" fill="#8b5cf6" />
+          <text x="545" y="17">Total</text>
+        </g>
+      </svg>
+    </div>
+  )
+}
+
+// ============================================================================
+// MORRIS CHART
+// ============================================================================
+
+function MorrisChart({ indices }: { indices: MorrisIndex[] }) {
+  const maxMuStar = Math.max(...indices.map(index => index.muStar)) || 1
+  const rowHeight = 160 / indices.length
+
+  return (
+    <div className="space-y-2">
+      <div className="h-64 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+        <svg width="100%" height="100%" viewBox="0 0 600 200" className="overflow-visible">
+          {indices.map((index, i) => {
+            const y = 20 + i * rowHeight
+            const width = (index.muStar / maxMuStar) * 440
+            return (
+              <g key={index.parameter}>
+                <rect x="100" y={y} width={width} height={rowHeight * 0.7} fill="#10b981">
+                  <title>{`μ* = ${index.muStar.toFixed(3)}, μ = ${index.mu.toFixed(3)}, σ = ${index.sigma.toFixed(3)}`}</title>
+                </rect>
+                <text
+                  x="95"
+                  y={y + rowHeight * 0.55}
+                  textAnchor="end"
+                  fontSize="11"
+                  fill="currentColor"
+                  className="text-gray-600 dark:text-gray-400"
+                >
+                  {PARAMETER_LABELS[index.parameter] || index.parameter}
+                </text>
+                <text
+                  x={105 + width}
+                  y={y + rowHeight * 0.55}
+                  fontSize="10"
+                  fill="currentColor"
+                  className="text-gray-600 dark:text-gray-400"
+                >
+                  σ/μ* {(index.sigma / (index.muStar || 1)).toFixed(2)}
+                </text>
+              </g>
+            )
+          })}
+        </svg>
+      </div>
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        Bars show μ* (mean absolute effect over the full parameter range). A high σ/μ* ratio indicates non-linear or interacting effects.
+      </div>
+    </div>
+  )
+}
@@ -76,10 +76,10 @@ export function CitationNetwork({ paperId, depth = 1 }: CitationNetworkProps) {
     centerNode.y = 300
 
     // Place connected nodes in a circle
-    const connected = [
+    const connected = Array.from(new Set([
       ...centerNode.citations,
       ...centerNode.citedBy
-    ].filter(id => nodesMap.has(id))
+    ])).filter(id => nodesMap.has(id))
 
     const angleStep = (2 * Math.PI) / connected.length
     const radius = 200
@@ -91,6 +91,16 @@ export function CitationNetwork({ paperId, depth = 1 }: CitationNetworkProps) {
         node.y = 300 + radius * Math.sin(index * angleStep)
       }
     })
+
+    // Papers further out (depth > 1) go on an outer ring
+    const outer = Array.from(nodesMap.keys())
+      .filter(id => id !== centerId && !connected.includes(id))
+
+    outer.forEach((nodeId, index) => {
+      const node = nodesMap.get(nodeId)!
+      node.x = 400 + 280 * Math.cos(index * (2 * Math.PI) / outer.length)
+      node.y = 300 + 280 * Math.sin(index * (2 * Math.PI) / outer.length)
+    })
   }
 
   if (demoConfig.isDemo) {
@@ -16,7 +16,7 @@ import LoadingSpinner from '../ui/LoadingSpinner'
 import ErrorMessage from '../ui/ErrorMessage'
 import MESSConfigPanel from '../MESSConfigPanel'
 import { VanillaDashboard3D } from '../3d/vanilla-dashboard-3d'
-import { type FuelCellPredictionResult } from '@/lib/fuel-cell-predictions'
+import { type FuelCellPredictionInput, type FuelCellPredictionResult } from '@/lib/fuel-cell-predictions'
 import { type PredictionResult } from '@/lib/ai-predictions'
 import { useKeyboardShortcuts, fuelCellShortcuts } from '@/hooks/useKeyboardShortcuts'
 
@@ -38,6 +38,7 @@ interface SystemState {
   controlSimulationResults?: any
   hilTestResults?: any
   optimizationResult?: any
+  sensitivityResult?: any
 }
 
 // ============================================================================
@@ -59,6 +60,8 @@ export default function UnifiedDashboard({
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isMobile, setIsMobile] = useState(false)
+  const [configPanelKey, setConfigPanelKey] = useState(0)
+  const [isAnalyzingSensitivity, setIsAnalyzingSensitivity] = useState(false)
 
   // Check for mobile device
   useEffect(() => {
@@ -103,6 +106,18 @@ export default function UnifiedDashboard({
     }))
   }, [])
 
+  // Load an optimized design (e.g. a picked Pareto point) into the configuration panel
+  const handleApplyOptimizedParameters = useCallback((parameters: FuelCellPredictionInput) => {
+    setSystemState(prev => ({
+      ...prev,
+      config: { ...prev.config, ...parameters },
+      prediction: null
+    }))
+    // Remount the panel so it picks up the new initial config
+    setConfigPanelKey(prev => prev + 1)
+    setViewMode('split')
+  }, [])
+
   // Handle prediction requests
   const handlePredictionRequest = useCallback(async (config: any) => {
     if (!systemState.type) return
@@ -117,7 +132,7 @@ export default function UnifiedDashboard({
         response = await fetch('/api/fuel-cell/predictions', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(config)
+          body: JSON.stringify({ ...config, includePolarizationCurve: true })
         })
       } else {
         // Microbial system prediction
@@ -160,7 +175,11 @@ export default function UnifiedDashboard({
   }, [])
 
   // Handle control system simulation
-  const handleControlSimulation = useCallback(async (config: any) => {
+  const handleControlSimulation = useCallback(async (config: any, options?: {
+    plantModel: 'LUMPED' | 'TRANSIENT'
+    preset: string
+    compareLoop?: 'thermal' | 'humidity' | 'pressure'
+  }) => {
     if (systemState.type !== 'fuel-cell') return
 
     try {
@@ -170,7 +189,9 @@ export default function UnifiedDashboard({
         body: JSON.stringify({
           fuelCellType: systemState.config?.fuelCellType || 'PEM',
           controlConfig: config,
-          preset: 'BASIC_TEST'
+          preset: options?.preset ?? 'BASIC_TEST',
+          plantModel: options?.plantModel,
+          ...(options?.compareLoop && { compareStrategies: { loop: options.compareLoop } })
         })
       })
 
@@ -189,10 +210,45 @@ export default function UnifiedDashboard({
     }
   }, [systemState.type, systemState.config])
 
+  // Tune one loop's PID gains; the designer applies the returned gains itself
+  const handlePIDAutoTune = useCallback(async (config: any, options: {
+    loop: 'thermal' | 'humidity' | 'pressure' | 'airIntake'
+    method: string
+    plantModel: 'LUMPED' | 'TRANSIENT'
+    preset: string
+  }) => {
+    if (systemState.type !== 'fuel-cell') return null
+
+    const response = await fetch('/api/fuel-cell/control-simulation', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fuelCellType: systemState.config?.fuelCellType || 'PEM',
+        controlConfig: config,
+        preset: options.preset,
+        plantModel: options.plantModel,
+        autoTune: { method: options.method, loops: [options.loop] }
+      })
+    })
+
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.message || result.error || `PID tuning failed: ${response.statusText}`)
+    }
+    return result.data.loops[0] ?? null
+  }, [systemState.type, systemState.config])
+
   // Handle HIL test start
   const handleHILTestStart = useCallback((testConfig: any) => {
     console.log('Starting HIL test:', testConfig)
-    // In a real implementation, this would interface with actual hardware
+  }, [])
+
+  // Keep finished HIL reports with the rest of the system state
+  const handleHILTestComplete = useCallback((report: any) => {
+    setSystemState(prev => ({
+      ...prev,
+      hilTestResults: [report, ...(prev.hilTestResults || [])]
+    }))
   }, [])
 
   // Handle HIL test stop
@@ -229,6 +285,38 @@ export default function UnifiedDashboard({
     }
   }, [systemState.type, systemState.config])
 
+  // Handle global sensitivity analysis
+  const handleSensitivityAnalysis = useCallback(async (sensitivityConfig: any) => {
+    if (systemState.type !== 'fuel-cell') return
+
+    setIsAnalyzingSensitivity(true)
+    try {
+      const response = await fetch('/api/fuel-cell/sensitivity', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fuelCellType: systemState.config?.fuelCellType || 'PEM',
+          ...sensitivityConfig
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error(`Sensitivity analysis failed: ${response.statusText}`)
+      }
+
+      const result = await response.json()
+      setSystemState(prev => ({
+        ...prev,
+        sensitivityResult: result.data
+      }))
+    } catch (error) {
+      console.error('Sensitivity analysis error:', error)
+      alert('Failed to run sensitivity analysis. Please check your constraints.')
+    } finally {
+      setIsAnalyzingSensitivity(false)
+    }
+  }, [systemState.type, systemState.config])
+
   // Mock experiments for microbial dashboard
   const mockExperiments = [
     {
@@ -408,6 +496,7 @@ export default function UnifiedDashboard({
                   />
                 ) : (
                   <FuelCellConfigPanel
+                    key={configPanelKey}
                     initialConfig={systemState.config}
                     onConfigChange={handleConfigChange}
                     onPredictionRequest={handlePredictionRequest}
@@ -476,6 +565,7 @@ export default function UnifiedDashboard({
               systemConfig={systemState.config}
               onConfigChange={handleControlSystemConfigChange}
               onSimulationRequest={handleControlSimulation}
+              onTuneRequest={handlePIDAutoTune}
               simulationResults={systemState.controlSimulationResults}
             />
             
@@ -502,6 +592,7 @@ export default function UnifiedDashboard({
               fuelCellType={systemState.config?.fuelCellType || 'PEM'}
               onTestStart={handleHILTestStart}
               onTestStop={handleHILTestStop}
+              onTestComplete={handleHILTestComplete}
               testResults={systemState.hilTestResults || []}
               isConnected={false} // Would be determined by actual hardware connection
             />
@@ -521,7 +612,11 @@ export default function UnifiedDashboard({
               fuelCellType={systemState.config?.fuelCellType || 'PEM'}
               onOptimizationStart={handleOptimizationStart}
               optimizationResult={systemState.optimizationResult}
+              onApplyParameters={handleApplyOptimizedParameters}
+              onSensitivityAnalysis={handleSensitivityAnalysis}
+              sensitivityResult={systemState.sensitivityResult}
               isOptimizing={false} // Would track actual optimization state
+              isAnalyzing={isAnalyzingSensitivity}
             />
           </motion.div>
         )}
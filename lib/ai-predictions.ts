@@ -19,6 +19,26 @@ export interface PredictionResult {
   }
 }
 
+// Base power in mW; a design adds BASELINE_POWER * (multiplier - 1) on top
+export const BASELINE_POWER = 50
+
+// Design-specific multipliers, shared with /api/predictions
+export const DESIGN_MULTIPLIERS: Record<string, number> = {
+  'earthen-pot': 0.8,
+  'cardboard': 0.6,
+  'mason-jar': 1.0,
+  '3d-printed': 1.3,
+  'wetland': 2.2,
+  'micro-chip': 0.3,
+  'isolinear-chip': 0.9,
+  'benchtop-bioreactor': 3.5,
+  'wastewater-treatment': 5.0,
+  'brewery-processing': 4.2,
+  'architectural-facade': 8.0,
+  'benthic-fuel-cell': 2.8,
+  'kitchen-sink': 1.5
+}
+
 export async function getPowerPrediction(input: PredictionInput): Promise<PredictionResult> {
   try {
     const response = await fetch('/api/predictions', {
@@ -46,28 +66,12 @@ export function getSimplePrediction(input: PredictionInput): PredictionResult {
   const { temperature, ph, substrateConcentration, designType } = input
   
   // Simple linear model
-  const baselinePower = 50
+  const baselinePower = BASELINE_POWER
   const temperatureFactor = (temperature - 25) * 5
   const phFactor = (ph - 6.5) * 20
   const substrateFactor = (substrateConcentration - 1) * 30
   
-  const designMultipliers: Record<string, number> = {
-    'earthen-pot': 0.8,
-    'cardboard': 0.6,
-    'mason-jar': 1.0,
-    '3d-printed': 1.3,
-    'wetland': 2.2,
-    'micro-chip': 0.3,
-    'isolinear-chip': 0.9,
-    'benchtop-bioreactor': 3.5,
-    'wastewater-treatment': 5.0,
-    'brewery-processing': 4.2,
-    'architectural-facade': 8.0,
-    'benthic-fuel-cell': 2.8,
-    'kitchen-sink': 1.5
-  }
-  
-  const designBonus = designType ? (designMultipliers[designType] || 1.0) - 1.0 : 0
+  const designBonus = designType ? (DESIGN_MULTIPLIERS[designType] || 1.0) - 1.0 : 0
   const designBonusPower = baselinePower * designBonus
   
   const predictedPower = Math.max(0, 
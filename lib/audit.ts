@@ -0,0 +1,231 @@
+import prisma from './db'
+import { csvCell } from './csv'
+
+// ============================================================================
+// AUDIT INTERFACES
+// ============================================================================
+
+/**
+ * Actions recorded by the mutating API routes. Device measurement streams
+ * (/api/experiments/[id]/stream) are not audited per reading; issuing and
+ * revoking the ingestion token that authorises them is.
+ */
+export const AUDIT_ACTIONS = [
+  'paper.create',
+  'paper.update',
+  'paper.delete',
+  'paper.citations.link',
+  'paper.citations.verify',
+  'user.update',
+  'user.password_change',
+  'user.profile.update',
+  'user.settings.update',
+  'user.onboarding.update',
+  'experiment.create',
+  'experiment.update',
+  'experiment.archive',
+  'experiment.import',
+  'experiment.measurements.upload',
+  'experiment.prediction.snapshot',
+  'experiment.ingestion_token.issue',
+  'experiment.ingestion_token.revoke',
+  'calibration.save',
+  'calibration.delete'
+] as const
+
+export type AuditAction = typeof AUDIT_ACTIONS[number]
+
+export interface AuditChange {
+  from: unknown
+  to: unknown
+}
+
+export interface AuditEntry {
+  userId: string | null
+  action: AuditAction
+  resource: string // "<type>:<id>", e.g. "paper:abc123"
+  changes?: Record<string, AuditChange>
+  summary?: string // Generated from the changed fields when omitted
+  metadata?: Record<string, unknown>
+}
+
+// Shape stored as JSON in AuditLog.details
+export interface AuditDetails {
+  summary: string | null
+  changes?: Record<string, AuditChange>
+  metadata?: Record<string, unknown>
+}
+
+export interface AuditLogRecord {
+  id: string
+  userId: string | null
+  action: string
+  resource: string
+  details: string | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: Date
+}
+
+const REDACTED = '[redacted]'
+const SENSITIVE_FIELD = /password|token|hash|secret/i
+const MAX_VALUE_LENGTH = 200
+const MAX_USER_AGENT_LENGTH = 500
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+function comparable(value: unknown): unknown {
+  if (value === undefined) return null
+  return value instanceof Date ? value.toISOString() : value
+}
+
+function auditValue(field: string, value: unknown): unknown {
+  if (SENSITIVE_FIELD.test(field)) return value === null ? null : REDACTED
+  if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) return `${value.slice(0, MAX_VALUE_LENGTH)}…`
+  return value
+}
+
+/**
+ * Field-level diff of a record before and after an update. Only `fields` are
+ * compared, so callers pass the keys they actually wrote; secrets are redacted
+ * and long text is truncated.
+ */
+export function auditChanges(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>,
+  fields: string[]
+): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {}
+  for (const field of fields) {
+    const from = comparable(before?.[field])
+    const to = comparable(after[field])
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from: auditValue(field, from), to: auditValue(field, to) }
+    }
+  }
+  return changes
+}
+
+/** Client address and user agent; the first X-Forwarded-For hop is the client behind our proxy. */
+export function requestContext(request: Request): { ipAddress: string | null; userAgent: string | null } {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  const ipAddress = forwarded || request.headers.get('x-real-ip') || null
+  const userAgent = request.headers.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) || null
+  return { ipAddress, userAgent }
+}
+
+function summarize(entry: AuditEntry): string | null {
+  if (entry.summary) return entry.summary
+  const fields = Object.keys(entry.changes ?? {})
+  return fields.length > 0 ? `Changed ${fields.join(', ')}` : null
+}
+
+/**
+ * Writes one audit log row. Best-effort: a failed audit write is logged in
+ * every environment, with enough of the entry to reconstruct it, and then
+ * swallowed so it never undoes a mutation that has already been committed.
+ */
+export async function recordAudit(request: Request, entry: AuditEntry): Promise<void> {
+  const details: AuditDetails = { summary: summarize(entry) }
+  if (entry.changes && Object.keys(entry.changes).length > 0) details.changes = entry.changes
+  if (entry.metadata) details.metadata = entry.metadata
+
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: entry.userId,
+        action: entry.action,
+        resource: entry.resource,
+        details: JSON.stringify(details),
+        ...requestContext(request)
+      }
+    })
+  } catch (error) {
+    console.error('Failed to record audit log entry:', {
+      userId: entry.userId,
+      action: entry.action,
+      resource: entry.resource,
+      details,
+      error
+    })
+  }
+}
+
+// ============================================================================
+// QUERYING
+// ============================================================================
+
+export interface AuditLogQuery {
+  userId?: string
+  action?: string // Exact action, or a prefix such as "paper" for all paper actions
+  resource?: string // "<type>:<id>", or just "<type>"
+  from?: Date
+  to?: Date
+  page?: number
+  limit?: number
+}
+
+function auditWhere(query: AuditLogQuery) {
+  const where: Record<string, unknown> = {}
+  if (query.userId) where.userId = query.userId
+  if (query.action) {
+    where.OR = [{ action: query.action }, { action: { startsWith: `${query.action}.` } }]
+  }
+  if (query.resource) {
+    where.resource = query.resource.includes(':') ? query.resource : { startsWith: `${query.resource}:` }
+  }
+  if (query.from || query.to) {
+    where.createdAt = {
+      ...(query.from && { gte: query.from }),
+      ...(query.to && { lte: query.to })
+    }
+  }
+  return where
+}
+
+/** Newest first, paginated. */
+export async function findAuditLogs(query: AuditLogQuery): Promise<{ logs: AuditLogRecord[]; total: number }> {
+  const page = query.page ?? 1
+  const limit = query.limit ?? 50
+  const where = auditWhere(query)
+
+  const [logs, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.auditLog.count({ where })
+  ])
+  return { logs, total }
+}
+
+export function parseAuditDetails(details: string | null): AuditDetails | null {
+  if (!details) return null
+  try {
+    return JSON.parse(details)
+  } catch {
+    return { summary: details }
+  }
+}
+
+export function auditLogsToCsv(logs: AuditLogRecord[]): string {
+  const header = ['createdAt', 'userId', 'action', 'resource', 'summary', 'changes', 'ipAddress', 'userAgent']
+  const rows = logs.map(log => {
+    const details = parseAuditDetails(log.details)
+    return [
+      log.createdAt.toISOString(),
+      log.userId,
+      log.action,
+      log.resource,
+      details?.summary,
+      details?.changes ? JSON.stringify(details.changes) : null,
+      log.ipAddress,
+      log.userAgent
+    ].map(csvCell).join(',')
+  })
+  return [header.join(','), ...rows].join('\n') + '\n'
+}
@@ -0,0 +1,384 @@
+// ============================================================================
+// CITATION GRAPH METRICS
+// ============================================================================
+//
+// Bibliometrics over the PaperCitation graph. Edges point from the citing
+// paper to the cited one; stub references (cited work not in the corpus) only
+// take part in bibliographic coupling, keyed by DOI.
+//   pageRank               influence, damping 0.85, dangling mass spread evenly
+//   coCitation             papers cited together (Salton cosine over citers)
+//   bibliographicCoupling  papers sharing references (Salton cosine over refs)
+//   communities            Louvain modularity clustering of the undirected graph,
+//                          labelled by distinctive keywords
+
+export interface GraphPaper {
+  id: string
+  title: string
+  year: number | null
+  keywords: string[]
+}
+
+export interface GraphCitation {
+  citingPaperId: string
+  citedPaperId: string | null
+  citedDoi: string | null
+}
+
+export interface GraphMetricsOptions {
+  damping?: number
+  limit?: number // Ranked papers and similarity pairs returned
+  minShared?: number // Shared citers/references before a pair counts as similar
+}
+
+export interface YearCount {
+  year: number
+  citations: number
+}
+
+export interface RankedPaper {
+  id: string
+  title: string
+  year: number | null
+  pageRank: number
+  citationCount: number
+  referenceCount: number
+  community: number
+  citationsByYear: YearCount[]
+}
+
+export interface ResearchCommunity {
+  id: number
+  label: string[]
+  size: number
+  internalCitations: number
+  topPapers: string[] // Ids, most influential first
+}
+
+export interface SimilarPair {
+  a: string
+  b: string
+  shared: number
+  similarity: number
+}
+
+export interface CitationGraphMetrics {
+  graph: {
+    papers: number
+    citations: number
+    communities: number
+    modularity: number
+  }
+  ranking: RankedPaper[]
+  communities: ResearchCommunity[]
+  coCitation: SimilarPair[]
+  bibliographicCoupling: SimilarPair[]
+  citationsByYear: YearCount[]
+}
+
+const DEFAULT_DAMPING = 0.85
+const PAGERANK_TOLERANCE = 1e-10
+const PAGERANK_MAX_ITERATIONS = 200
+const LABEL_KEYWORDS = 3
+const TOP_COMMUNITY_PAPERS = 5
+
+// ============================================================================
+// INFLUENCE
+// ============================================================================
+
+export function pageRank(
+  ids: string[],
+  edges: Array<[string, string]>,
+  damping: number = DEFAULT_DAMPING
+): Map<string, number> {
+  const n = ids.length
+  const index = new Map(ids.map((id, i) => [id, i]))
+  const outgoing: number[][] = ids.map(() => [])
+  edges.forEach(([from, to]) => outgoing[index.get(from)!].push(index.get(to)!))
+
+  let rank = new Array<number>(n).fill(1 / n)
+  for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+    const dangling = outgoing.reduce((sum, targets, i) => targets.length === 0 ? sum + rank[i] : sum, 0)
+    const next = new Array<number>(n).fill((1 - damping) / n + damping * dangling / n)
+
+    outgoing.forEach((targets, i) => {
+      targets.forEach(j => { next[j] += damping * rank[i] / targets.length })
+    })
+
+    const change = next.reduce((sum, value, i) => sum + Math.abs(value - rank[i]), 0)
+    rank = next
+    if (change < PAGERANK_TOLERANCE) break
+  }
+
+  return new Map(ids.map((id, i) => [id, rank[i]]))
+}
+
+// ============================================================================
+// SIMILARITY
+// ============================================================================
+
+/**
+ * Salton cosine between members that appear together in the same groups:
+ * groups are citing papers' reference lists for co-citation and cited works'
+ * citer lists for bibliographic coupling.
+ */
+function cooccurrence(groups: string[][], minShared: number): SimilarPair[] {
+  const occurrences = new Map<string, number>()
+  const shared = new Map<string, number>()
+
+  for (const group of groups) {
+    const members = [...new Set(group)].sort()
+    members.forEach(member => occurrences.set(member, (occurrences.get(member) ?? 0) + 1))
+
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = `${members[i]}\u0000${members[j]}`
+        shared.set(key, (shared.get(key) ?? 0) + 1)
+      }
+    }
+  }
+
+  const pairs: SimilarPair[] = []
+  shared.forEach((count, key) => {
+    if (count < minShared) return
+    const [a, b] = key.split('\u0000')
+    pairs.push({
+      a,
+      b,
+      shared: count,
+      similarity: count / Math.sqrt(occurrences.get(a)! * occurrences.get(b)!)
+    })
+  })
+
+  return pairs.sort((x, y) => y.similarity - x.similarity || y.shared - x.shared)
+}
+
+export function coCitation(edges: Array<[string, string]>, minShared: number = 2): SimilarPair[] {
+  const references = new Map<string, string[]>()
+  edges.forEach(([from, to]) => references.set(from, [...(references.get(from) ?? []), to]))
+  return cooccurrence([...references.values()], minShared)
+}
+
+export function bibliographicCoupling(citations: GraphCitation[], minShared: number = 2): SimilarPair[] {
+  const citers = new Map<string, string[]>()
+  citations.forEach(citation => {
+    const reference = citation.citedPaperId ?? (citation.citedDoi ? `doi:${citation.citedDoi}` : null)
+    if (reference) {
+      citers.set(reference, [...(citers.get(reference) ?? []), citation.citingPaperId])
+    }
+  })
+  return cooccurrence([...citers.values()], minShared)
+}
+
+// ============================================================================
+// COMMUNITIES
+// ============================================================================
+
+/**
+ * Louvain modularity optimisation on an undirected weighted graph. Nodes are
+ * visited in input order so results are reproducible.
+ */
+export function detectCommunities(
+  ids: string[],
+  edges: Array<[string, string]>
+): { membership: Map<string, number>; modularity: number } {
+  const index = new Map(ids.map((id, i) => [id, i]))
+
+  // adjacency[i] holds symmetric weights; self-loops carry twice their internal weight
+  let adjacency: Array<Map<number, number>> = ids.map(() => new Map())
+  edges.forEach(([from, to]) => {
+    const i = index.get(from)!
+    const j = index.get(to)!
+    if (i === j) return
+    adjacency[i].set(j, (adjacency[i].get(j) ?? 0) + 1)
+    adjacency[j].set(i, (adjacency[j].get(i) ?? 0) + 1)
+  })
+
+  const totalWeight = adjacency.reduce((sum, row) => sum + [...row.values()].reduce((a, b) => a + b, 0), 0)
+  let membership = ids.map((_, i) => i)
+  if (totalWeight === 0) {
+    return { membership: new Map(ids.map((id, i) => [id, i])), modularity: 0 }
+  }
+
+  while (true) {
+    const size = adjacency.length
+    const degree = adjacency.map(row => [...row.values()].reduce((a, b) => a + b, 0))
+    const community = adjacency.map((_, i) => i)
+    const total = [...degree]
+    let improved = false
+    let moved = true
+
+    while (moved) {
+      moved = false
+      for (let i = 0; i < size; i++) {
+        const current = community[i]
+        const links = new Map<number, number>()
+        adjacency[i].forEach((weight, j) => {
+          if (j !== i) links.set(community[j], (links.get(community[j]) ?? 0) + weight)
+        })
+
+        total[current] -= degree[i]
+        let best = current
+        let bestGain = (links.get(current) ?? 0) - total[current] * degree[i] / totalWeight
+        links.forEach((weight, candidate) => {
+          const gain = weight - total[candidate] * degree[i] / totalWeight
+          if (gain > bestGain + 1e-12) {
+            best = candidate
+            bestGain = gain
+          }
+        })
+        total[best] += degree[i]
+
+        if (best !== current) {
+          community[i] = best
+          moved = true
+          improved = true
+        }
+      }
+    }
+
+    if (!improved) break
+
+    // Aggregate each community into a single node and go again
+    const renumber = new Map<number, number>()
+    community.forEach(c => { if (!renumber.has(c)) renumber.set(c, renumber.size) })
+    const aggregated: Array<Map<number, number>> = [...renumber.keys()].map(() => new Map())
+    adjacency.forEach((row, i) => {
+      const ci = renumber.get(community[i])!
+      row.forEach((weight, j) => {
+        const cj = renumber.get(community[j])!
+        aggregated[ci].set(cj, (aggregated[ci].get(cj) ?? 0) + weight)
+      })
+    })
+
+    membership = membership.map(node => renumber.get(community[node])!)
+    adjacency = aggregated
+  }
+
+  // Modularity of the final partition, from the aggregated graph
+  const modularity = adjacency.reduce((sum, row, c) => {
+    const internal = row.get(c) ?? 0
+    const degree = [...row.values()].reduce((a, b) => a + b, 0)
+    return sum + internal / totalWeight - (degree / totalWeight) ** 2
+  }, 0)
+
+  return { membership: new Map(ids.map((id, i) => [id, membership[i]])), modularity }
+}
+
+/**
+ * Keywords frequent in the community but not across the whole graph
+ */
+function labelCommunity(members: GraphPaper[], keywordFrequency: Map<string, number>, paperCount: number): string[] {
+  const counts = new Map<string, number>()
+  members.forEach(paper => {
+    new Set(paper.keywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean))
+      .forEach(keyword => counts.set(keyword, (counts.get(keyword) ?? 0) + 1))
+  })
+
+  const minimum = members.length > 1 ? 2 : 1
+  return [...counts.entries()]
+    .filter(([keyword, count]) =>
+      count >= minimum && count / members.length > keywordFrequency.get(keyword)! / paperCount
+    )
+    .map(([keyword, count]) => ({
+      keyword,
+      score: count * Math.log(1 + paperCount / keywordFrequency.get(keyword)!)
+    }))
+    .sort((a, b) => b.score - a.score || a.keyword.localeCompare(b.keyword))
+    .slice(0, LABEL_KEYWORDS)
+    .map(({ keyword }) => keyword)
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+export function analyzeCitationGraph(
+  papers: GraphPaper[],
+  citations: GraphCitation[],
+  options: GraphMetricsOptions = {}
+): CitationGraphMetrics {
+  const { damping = DEFAULT_DAMPING, limit = 20, minShared = 2 } = options
+  const byId = new Map(papers.map(paper => [paper.id, paper]))
+
+  // Only citations between papers we know about form graph edges
+  const known = citations.filter(citation => byId.has(citation.citingPaperId))
+  const edges: Array<[string, string]> = known
+    .filter(citation => citation.citedPaperId && byId.has(citation.citedPaperId))
+    .map(citation => [citation.citingPaperId, citation.citedPaperId!])
+
+  const ids = papers.map(paper => paper.id)
+  const rank = pageRank(ids, edges, damping)
+  const { membership, modularity } = detectCommunities(ids, edges)
+
+  // Community ids by size, largest first
+  const groups = new Map<number, GraphPaper[]>()
+  papers.forEach(paper => {
+    const community = membership.get(paper.id)!
+    groups.set(community, [...(groups.get(community) ?? []), paper])
+  })
+  const ordered = [...groups.entries()].sort((a, b) => b[1].length - a[1].length || a[0] - b[0])
+  const communityId = new Map(ordered.map(([community], i) => [community, i]))
+
+  const citedBy = new Map<string, string[]>()
+  const referenceCount = new Map<string, number>()
+  edges.forEach(([from, to]) => citedBy.set(to, [...(citedBy.get(to) ?? []), from]))
+  known.forEach(citation => referenceCount.set(citation.citingPaperId, (referenceCount.get(citation.citingPaperId) ?? 0) + 1))
+
+  const byYear = (citers: string[]): YearCount[] => {
+    const counts = new Map<number, number>()
+    citers.forEach(citer => {
+      const year = byId.get(citer)!.year
+      if (year !== null) counts.set(year, (counts.get(year) ?? 0) + 1)
+    })
+    return [...counts.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([year, count]) => ({ year, citations: count }))
+  }
+
+  const ranking: RankedPaper[] = papers
+    .map(paper => ({
+      id: paper.id,
+      title: paper.title,
+      year: paper.year,
+      pageRank: rank.get(paper.id)!,
+      citationCount: citedBy.get(paper.id)?.length ?? 0,
+      referenceCount: referenceCount.get(paper.id) ?? 0,
+      community: communityId.get(membership.get(paper.id)!)!,
+      citationsByYear: byYear(citedBy.get(paper.id) ?? [])
+    }))
+    .sort((a, b) => b.pageRank - a.pageRank || b.citationCount - a.citationCount || a.id.localeCompare(b.id))
+
+  const keywordFrequency = new Map<string, number>()
+  papers.forEach(paper => {
+    new Set(paper.keywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean))
+      .forEach(keyword => keywordFrequency.set(keyword, (keywordFrequency.get(keyword) ?? 0) + 1))
+  })
+
+  const communities: ResearchCommunity[] = ordered.map(([community, members], i) => {
+    const memberIds = new Set(members.map(paper => paper.id))
+    return {
+      id: i,
+      label: labelCommunity(members, keywordFrequency, papers.length),
+      size: members.length,
+      internalCitations: edges.filter(([from, to]) => memberIds.has(from) && memberIds.has(to)).length,
+      topPapers: ranking
+        .filter(paper => membership.get(paper.id) === community)
+        .slice(0, TOP_COMMUNITY_PAPERS)
+        .map(paper => paper.id)
+    }
+  })
+
+  return {
+    graph: {
+      papers: papers.length,
+      citations: edges.length,
+      communities: communities.length,
+      modularity
+    },
+    ranking: ranking.slice(0, limit),
+    communities,
+    coCitation: coCitation(edges, minShared).slice(0, limit),
+    bibliographicCoupling: bibliographicCoupling(known, minShared).slice(0, limit),
+    citationsByYear: byYear(edges.map(([from]) => from))
+  }
+}
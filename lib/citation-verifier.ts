@@ -5,10 +5,9 @@
  * using Zen MCP browser automation for accurate citation checking.
  */
 
-import { zenBrowser, PaperData } from './zen-browser'
-import { PrismaClient } from '@prisma/client'
-
-const prisma = new PrismaClient()
+import { zenBrowser } from './zen-browser'
+import prisma from './db'
+import { getDatabaseProvider } from './database-utils'
 
 export interface Citation {
   title: string
@@ -25,8 +24,32 @@ export interface CitationVerificationResult {
   unverifiedCitations: Citation[]
   citedByCount?: number
   citationNetworkSize?: number
+  storedReferences?: number // Set when the scraped list replaced the stored one
+}
+
+export interface ParsedReference extends Citation {
+  rawText: string
+}
+
+export interface ReferenceLinkResult {
+  paperId: string
+  total: number
+  resolved: number
+  unresolved: number
+}
+
+export interface CitationNetworkPaper {
+  id: string
+  title: string
+  doi: string | null
+  citations: Array<{ citedPaperId: string }>
+  citedBy: Array<{ citingPaperId: string }>
+  unresolvedCount: number
 }
 
+const DOI_PATTERN = /10\.\d{4,}\/[-._;()\/:a-zA-Z0-9]+/
+const REFERENCE_MARKER = /^\s*(?:\[\d+\]|\d+[.)])\s+/
+
 /**
  * Extract citations from paper content
  */
@@ -99,10 +122,10 @@ function parseCitationText(text: string): Citation | null {
   }
 
   // Extract DOI if present
-  const doiMatch = text.match(/10\.\d{4,}\/[-._;()\/:a-zA-Z0-9]+/)
+  const doiMatch = text.match(DOI_PATTERN)
   if (doiMatch) {
-    citation.doi = doiMatch[0]
-    citation.url = `https://doi.org/${doiMatch[0]}`
+    citation.doi = normalizeDOI(doiMatch[0])
+    citation.url = `https://doi.org/${citation.doi}`
   }
 
   // Extract year
@@ -112,7 +135,9 @@ function parseCitationText(text: string): Citation | null {
   }
 
   // Simple heuristic to extract title (text between quotes or after authors)
-  const titleMatch = text.match(/"([^"]+)"/) || text.match(/['']([^'']+)['']/)
+  const titleMatch = text.match(/"([^"]+)"/) ||
+    text.match(/['']([^'']+)['']/) ||
+    text.match(/\((?:19|20)\d{2}[a-z]?\)\.?\s+([^.?!]{10,}[?!]?)/)
   if (titleMatch) {
     citation.title = titleMatch[1].trim()
   }
@@ -136,19 +161,189 @@ function parseCitationText(text: string): Citation | null {
  * Extract DOI from a link
  */
 function extractDOIFromLink(link: string): string | null {
-  const doiMatch = link.match(/10\.\d{4,}\/[-._;()\/:a-zA-Z0-9]+/)
-  return doiMatch ? doiMatch[0] : null
+  const doiMatch = link.match(DOI_PATTERN)
+  return doiMatch ? normalizeDOI(doiMatch[0]) : null
+}
+
+/**
+ * Normalize a DOI for matching: no resolver prefix, no trailing
+ * punctuation picked up from the surrounding sentence, lowercase
+ * (DOIs are case-insensitive)
+ */
+export function normalizeDOI(doi: string): string {
+  let normalized = doi
+    .trim()
+    .replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '')
+    .replace(/[.,;:]+$/, '')
+
+  const open = (normalized.match(/\(/g) || []).length
+  const close = (normalized.match(/\)/g) || []).length
+  if (normalized.endsWith(')') && close > open) {
+    normalized = normalized.slice(0, -1)
+  }
+
+  return normalized.toLowerCase()
+}
+
+/**
+ * Split a pasted reference list into entries and parse each one.
+ * Numbered lists ("[1]", "1.", "1)") may wrap entries over several
+ * lines; unnumbered lists use one entry per line or per paragraph.
+ */
+export function parseReferenceList(references: string | string[]): ParsedReference[] {
+  const entries = Array.isArray(references) ? references : splitReferenceList(references)
+
+  return entries
+    .map(entry => entry.replace(REFERENCE_MARKER, '').replace(/\s+/g, ' ').trim())
+    .filter(entry => entry.length > 0)
+    .map(rawText => ({
+      ...(parseCitationText(rawText) ?? { title: '', authors: [] }),
+      rawText
+    }))
+}
+
+function splitReferenceList(text: string): string[] {
+  const lines = text.split(/\r?\n/)
+
+  if (!lines.some(line => REFERENCE_MARKER.test(line))) {
+    return /\n\s*\n/.test(text) ? text.split(/\r?\n\s*\r?\n/) : lines
+  }
+
+  const entries: string[] = []
+  for (const line of lines) {
+    if (REFERENCE_MARKER.test(line) || entries.length === 0) {
+      entries.push(line)
+    } else {
+      entries[entries.length - 1] += ` ${line}`
+    }
+  }
+  return entries
+}
+
+
+/**
+ * Restrict paper queries to what the viewer may see
+ */
+function visibleTo(viewerId?: string) {
+  return {
+    OR: [
+      { isPublic: true },
+      ...(viewerId ? [{ uploadedBy: viewerId }] : [])
+    ]
+  }
+}
+
+/**
+ * Papers carrying any of these normalized DOIs. Stored DOIs keep the case
+ * their source used: PostgreSQL compares case-insensitively on request, and
+ * SQLite's LIKE (startsWith) already ignores ASCII case. Callers confirm
+ * candidates by comparing normalized DOIs.
+ */
+function doiFilter(dois: string[]) {
+  return getDatabaseProvider().isPostgreSQL
+    ? { doi: { in: dois, mode: 'insensitive' as const } }
+    : { OR: dois.map(doi => ({ doi: { startsWith: doi } })) }
+}
+
+/**
+ * Replace a paper's reference list. References whose DOI matches a paper
+ * in the corpus are linked to it; the rest are kept as stubs until that
+ * paper is added (see resolveCitationStubs).
+ */
+async function storeReferences(paperId: string, references: ParsedReference[]) {
+  const refDois = references.map(ref => ref.doi ? normalizeDOI(ref.doi) : null)
+  const dois = new Set(refDois.filter((doi): doi is string => doi !== null))
+
+  const matches: Array<{ id: string; doi: string }> = dois.size > 0
+    ? await prisma.researchPaper.findMany({
+        where: doiFilter([...dois]),
+        select: { id: true, doi: true }
+      })
+    : []
+  const byDoi = new Map<string, string>()
+  for (const match of matches) {
+    const doi = normalizeDOI(match.doi)
+    if (dois.has(doi)) byDoi.set(doi, match.id)
+  }
+
+  const rows = references.map((ref, position) => {
+    const doi = refDois[position]
+    const citedPaperId = doi ? byDoi.get(doi) ?? null : null
+
+    return {
+      citingPaperId: paperId,
+      citedPaperId: citedPaperId === paperId ? null : citedPaperId,
+      citedDoi: doi,
+      position,
+      rawText: ref.rawText,
+      title: ref.title || null,
+      year: ref.year ?? null
+    }
+  })
+
+  await prisma.$transaction([
+    prisma.paperCitation.deleteMany({ where: { citingPaperId: paperId } }),
+    prisma.paperCitation.createMany({ data: rows })
+  ])
+
+  return rows
+}
+
+/**
+ * Parse and store a paper's reference list
+ */
+export async function linkReferences(
+  paperId: string,
+  references: string | string[]
+): Promise<ReferenceLinkResult> {
+  const paper = await prisma.researchPaper.findUnique({
+    where: { id: paperId },
+    select: { id: true }
+  })
+
+  if (!paper) {
+    throw new Error('Paper not found')
+  }
+
+  const rows = await storeReferences(paperId, parseReferenceList(references))
+  const resolved = rows.filter(row => row.citedPaperId).length
+
+  return {
+    paperId,
+    total: rows.length,
+    resolved,
+    unresolved: rows.length - resolved
+  }
+}
+
+/**
+ * Point stub citations of a DOI at the paper that now carries it
+ */
+export async function resolveCitationStubs(paperId: string, doi: string): Promise<number> {
+  const { count } = await prisma.paperCitation.updateMany({
+    where: {
+      citedDoi: normalizeDOI(doi),
+      citedPaperId: null,
+      citingPaperId: { not: paperId }
+    },
+    data: { citedPaperId: paperId }
+  })
+
+  return count
 }
 
 /**
  * Verify citations for a paper
  */
 export async function verifyCitations(paperId: string): Promise<CitationVerificationResult> {
-  const paper = await prisma.paper.findUnique({
+  const paper = await prisma.researchPaper.findUnique({
     where: { id: paperId },
-    include: {
-      citations: true,
-      citedBy: true
+    select: {
+      id: true,
+      title: true,
+      doi: true,
+      externalUrl: true,
+      _count: { select: { citations: true, citedBy: true } }
     }
   })
 
@@ -161,8 +356,8 @@ export async function verifyCitations(paperId: string): Promise<CitationVerifica
     title: paper.title,
     verifiedCitations: [],
     unverifiedCitations: [],
-    citedByCount: paper.citedBy.length,
-    citationNetworkSize: paper.citations.length + paper.citedBy.length
+    citedByCount: paper._count.citedBy,
+    citationNetworkSize: paper._count.citations + paper._count.citedBy
   }
 
   // Get paper URL
@@ -176,37 +371,22 @@ export async function verifyCitations(paperId: string): Promise<CitationVerifica
   // Extract citations from paper
   const extractedCitations = await extractCitations(paperUrl)
 
-  // Verify each citation
-  for (const citation of extractedCitations) {
-    let verified = false
-
-    // Try to find in database
-    if (citation.doi) {
-      const existingPaper = await prisma.paper.findFirst({
-        where: { doi: citation.doi }
-      })
+  // Keep the stored reference list when nothing could be scraped
+  if (extractedCitations.length === 0) {
+    return result
+  }
 
-      if (existingPaper) {
-        // Add citation relationship if not exists
-        const relationExists = await prisma.citation.findFirst({
-          where: {
-            citingPaperId: paperId,
-            citedPaperId: existingPaper.id
-          }
-        })
-
-        if (!relationExists) {
-          await prisma.citation.create({
-            data: {
-              citingPaperId: paperId,
-              citedPaperId: existingPaper.id
-            }
-          })
-        }
+  const rows = await storeReferences(paperId, extractedCitations.map(citation => ({
+    ...citation,
+    rawText: citation.title || citation.doi || citation.authors.join(', ')
+  })))
+  result.storedReferences = rows.length
+  result.citationNetworkSize = rows.length + paper._count.citedBy
 
-        verified = true
-      }
-    }
+  // Verify each citation
+  for (const [index, citation] of extractedCitations.entries()) {
+    // Citations resolved to a paper in the corpus are verified
+    let verified = Boolean(rows[index].citedPaperId)
 
     // Try to verify via URL
     if (!verified && citation.url) {
@@ -231,128 +411,135 @@ export async function verifyCitations(paperId: string): Promise<CitationVerifica
 }
 
 /**
- * Build citation network for a paper
+ * Build citation network for a paper, breadth-first in both directions.
+ * Edges are limited to papers inside the network.
  */
 export async function buildCitationNetwork(
   paperId: string,
-  depth: number = 1
-): Promise<Map<string, Set<string>>> {
-  const network = new Map<string, Set<string>>()
-  const visited = new Set<string>()
-  const queue: Array<{ id: string; level: number }> = [{ id: paperId, level: 0 }]
-
-  while (queue.length > 0) {
-    const { id, level } = queue.shift()!
-    
-    if (visited.has(id) || level > depth) continue
-    visited.add(id)
-
-    const paper = await prisma.paper.findUnique({
-      where: { id },
-      include: {
-        citations: {
-          include: { citedPaper: true }
-        },
-        citedBy: {
-          include: { citingPaper: true }
-        }
+  depth: number = 1,
+  viewerId?: string
+): Promise<CitationNetworkPaper[]> {
+  const network = new Map<string, {
+    id: string
+    title: string
+    doi: string | null
+    cites: string[]
+    citedBy: string[]
+    unresolvedCount: number
+  }>()
+  let frontier = [paperId]
+
+  for (let level = 0; level <= depth && frontier.length > 0; level++) {
+    const papers = await prisma.researchPaper.findMany({
+      where: { id: { in: frontier }, ...visibleTo(viewerId) },
+      select: {
+        id: true,
+        title: true,
+        doi: true,
+        citations: { select: { citedPaperId: true } },
+        citedBy: { select: { citingPaperId: true } }
       }
     })
 
-    if (!paper) continue
-
-    // Add to network
-    if (!network.has(id)) {
-      network.set(id, new Set())
-    }
-
-    // Add citations
-    for (const citation of paper.citations) {
-      network.get(id)!.add(citation.citedPaperId)
-      
-      if (level < depth) {
-        queue.push({ id: citation.citedPaperId, level: level + 1 })
-      }
+    const next = new Set<string>()
+    for (const paper of papers) {
+      const cites = paper.citations
+        .map((citation: { citedPaperId: string | null }) => citation.citedPaperId)
+        .filter((id: string | null): id is string => id !== null)
+      const citedBy = paper.citedBy.map((citation: { citingPaperId: string }) => citation.citingPaperId)
+
+      network.set(paper.id, {
+        id: paper.id,
+        title: paper.title,
+        doi: paper.doi,
+        cites,
+        citedBy,
+        unresolvedCount: paper.citations.length - cites.length
+      })
+      cites.concat(citedBy).forEach((id: string) => next.add(id))
     }
 
-    // Add cited by (reverse citations)
-    for (const citedBy of paper.citedBy) {
-      if (!network.has(citedBy.citingPaperId)) {
-        network.set(citedBy.citingPaperId, new Set())
-      }
-      network.get(citedBy.citingPaperId)!.add(id)
-      
-      if (level < depth) {
-        queue.push({ id: citedBy.citingPaperId, level: level + 1 })
-      }
-    }
+    frontier = [...next].filter(id => !network.has(id))
   }
 
-  return network
+  return [...network.values()].map(({ cites, citedBy, ...paper }) => ({
+    ...paper,
+    citations: cites.filter(id => network.has(id)).map(citedPaperId => ({ citedPaperId })),
+    citedBy: citedBy.filter(id => network.has(id)).map(citingPaperId => ({ citingPaperId }))
+  }))
 }
 
 /**
- * Find citation paths between two papers
+ * Find citation paths between two papers, following references only,
+ * shortest first
  */
 export async function findCitationPaths(
   fromPaperId: string,
   toPaperId: string,
-  maxDepth: number = 3
+  maxDepth: number = 3,
+  viewerId?: string
 ): Promise<string[][]> {
+  const references = new Map<string, string[]>()
+  let frontier = [fromPaperId]
+
+  for (let level = 0; level < maxDepth && frontier.length > 0; level++) {
+    const papers = await prisma.researchPaper.findMany({
+      where: { id: { in: frontier }, ...visibleTo(viewerId) },
+      select: {
+        id: true,
+        citations: {
+          where: { citedPaperId: { not: null } },
+          select: { citedPaperId: true }
+        }
+      }
+    })
+
+    const next = new Set<string>()
+    for (const paper of papers) {
+      const cited = paper.citations.map((citation: { citedPaperId: string }) => citation.citedPaperId)
+      references.set(paper.id, cited)
+      cited.forEach((id: string) => next.add(id))
+    }
+
+    frontier = [...next].filter(id => !references.has(id))
+  }
+
   const paths: string[][] = []
-  const visited = new Set<string>()
 
-  async function dfs(currentId: string, path: string[], depth: number) {
-    if (depth > maxDepth) return
+  function walk(path: string[]) {
+    const currentId = path[path.length - 1]
     if (currentId === toPaperId) {
-      paths.push([...path])
+      paths.push(path)
       return
     }
+    if (path.length > maxDepth) return
 
-    visited.add(currentId)
-
-    const paper = await prisma.paper.findUnique({
-      where: { id: currentId },
-      include: {
-        citations: true
-      }
-    })
-
-    if (paper) {
-      for (const citation of paper.citations) {
-        if (!visited.has(citation.citedPaperId)) {
-          await dfs(
-            citation.citedPaperId,
-            [...path, citation.citedPaperId],
-            depth + 1
-          )
-        }
+    for (const citedId of references.get(currentId) ?? []) {
+      if (!path.includes(citedId)) {
+        walk([...path, citedId])
       }
     }
-
-    visited.delete(currentId)
   }
 
-  await dfs(fromPaperId, [fromPaperId], 0)
-  return paths
+  walk([fromPaperId])
+  return paths.sort((a, b) => a.length - b.length)
 }
 
 /**
- * Calculate citation-based similarity between papers
+ * Calculate citation-based similarity between papers: Jaccard index of
+ * their references and citing papers. Stub references count by DOI.
  */
 export async function calculateCitationSimilarity(
   paperId1: string,
   paperId2: string
 ): Promise<number> {
+  const select = {
+    citations: { select: { citedPaperId: true, citedDoi: true } },
+    citedBy: { select: { citingPaperId: true } }
+  }
   const [paper1, paper2] = await Promise.all([
-    prisma.paper.findUnique({
-      where: { id: paperId1 },
-      include: { citations: true, citedBy: true }
-    }),
-    prisma.paper.findUnique({
-      where: { id: paperId2 },
-      include: { citations: true, citedBy: true }
-    })
+    prisma.researchPaper.findUnique({ where: { id: paperId1 }, select }),
+    prisma.researchPaper.findUnique({ where: { id: paperId2 }, select })
   ])
 
   if (!paper1 || !paper2) {
@@ -360,15 +547,14 @@ export async function calculateCitationSimilarity(
   }
 
   // Get citation sets
-  const citations1 = new Set([
-    ...paper1.citations.map(c => c.citedPaperId),
-    ...paper1.citedBy.map(c => c.citingPaperId)
-  ])
-  
-  const citations2 = new Set([
-    ...paper2.citations.map(c => c.citedPaperId),
-    ...paper2.citedBy.map(c => c.citingPaperId)
+  const neighbours = (paper: typeof paper1): Set<string> => new Set([
+    ...paper.citations.flatMap((citation: { citedPaperId: string | null; citedDoi: string | null }) =>
+      citation.citedPaperId ? [citation.citedPaperId] : citation.citedDoi ? [`doi:${citation.citedDoi}`] : []
+    ),
+    ...paper.citedBy.map((citation: { citingPaperId: string }) => citation.citingPaperId)
   ])
+  const citations1 = neighbours(paper1)
+  const citations2 = neighbours(paper2)
 
   // Calculate Jaccard similarity
   const intersection = new Set([...citations1].filter(x => citations2.has(x)))
@@ -376,4 +562,4 @@ export async function calculateCitationSimilarity(
 
   if (union.size === 0) return 0
   return intersection.size / union.size
-}
\ No newline at end of file
+}
@@ -1,4 +1,18 @@
 import { FuelCellType } from './types/fuel-cell-types'
+import { FuelCellModelingEngine } from './fuel-cell-predictions'
+import { integrateRK45 } from './ode-solver'
+import { createRng, sampleNormal } from './random'
+import {
+  NO_FAULT_EFFECTS,
+  REVERSED_CELL_VOLTAGE,
+  SensorFaultModel,
+  stackFaultEffects,
+  validateFaultInjection,
+  type FaultInjection,
+  type MonitoredSeries,
+  type MonitoredSignal,
+  type PlantFaultEffects
+} from './fuel-cell-faults'
 
 // ============================================================================
 // CONTROL SYSTEM SIMULATION ENGINE
@@ -20,6 +34,44 @@ export interface ControllerConfig {
   }
   deadband?: number
   windup_limit?: number
+  // Strategy-specific tuning; defaults are derived from pidParams and constraints when omitted
+  fuzzyParams?: FuzzyControllerParams
+  adaptiveParams?: AdaptiveControllerParams
+  neuralParams?: NeuralControllerParams
+}
+
+export type ControllerType = ControllerConfig['type']
+
+export interface FuzzyMembershipFunction {
+  label: string
+  points: [number, number, number] // Triangle feet and peak on the normalised [-1, 1] universe
+}
+
+export interface FuzzyRule {
+  error: string // Label of an errorSets entry
+  errorRate: string // Label of an errorRateSets entry
+  output: string // Label of an outputSets entry
+}
+
+export interface FuzzyControllerParams {
+  errorScale: number // Error mapped to ±1 (setpoint units)
+  errorRateScale: number // Error rate mapped to ±1 (setpoint units/s)
+  outputScale: number // Output rate at ±1 (actuator units/s); the controller is incremental (fuzzy PI)
+  errorSets: FuzzyMembershipFunction[]
+  errorRateSets: FuzzyMembershipFunction[]
+  outputSets: FuzzyMembershipFunction[]
+  rules: FuzzyRule[]
+}
+
+export interface AdaptiveControllerParams {
+  referenceTimeConstant: number // s, first-order reference model the loop should follow
+  adaptationGain: number // γ of the normalised MIT rule
+}
+
+export interface NeuralControllerParams {
+  hiddenUnits: number
+  learningRate: number
+  seed?: number // Weight initialisation
 }
 
 export interface ControlSystemConfig {
@@ -51,6 +103,54 @@ export interface ControlSystemSimulationResult {
     pressure: number[]
     power: number[]
   }
+  // Internal plant states (TRANSIENT plant model only)
+  transient?: {
+    stackVoltage: number[] // V
+    current: number[] // A
+    membraneWaterContent: number[] // λ, H2O per sulfonic acid site
+    cathodePressure: number[] // bar
+    anodePressure: number[] // bar
+    hydrogenPartialPressure: number[] // bar
+    nitrogenFraction: number[] // Anode N2 mole fraction
+    solverSteps: number
+    rejectedSteps: number
+  }
+  // Present when the run was given a fault list (which may be empty)
+  faultSimulation?: {
+    faults: FaultInjection[]
+    measured: MonitoredSeries // What the sensors reported, with sensor faults and noise
+    nominal: MonitoredSeries // Fault-free model fed the same actuator commands and disturbances
+  }
+}
+
+export type ComparableLoop = 'thermal' | 'humidity' | 'pressure'
+
+export type TunableLoop = ComparableLoop | 'airIntake'
+
+// Plant variable each loop measures (and the nominal condition its actuator starts at)
+export const LOOP_MEASUREMENTS = {
+  thermal: 'temperature',
+  humidity: 'humidity',
+  pressure: 'pressure',
+  airIntake: 'airFlow'
+} as const
+
+export type LoopCommand = (time: number, measurement: number, dt: number) => number
+
+export interface LoopExperimentResult {
+  time: number[] // s
+  measurement: number[] // Loop variable after each step
+  command: number[] // Actuator command applied during each step
+}
+
+export interface StrategyComparison {
+  type: ControllerType
+  stability: number
+  performance: number
+  overshoot: number // % of setpoint
+  settlingTime: number // s
+  integralAbsoluteError: number // ∫|setpoint − measurement| dt over the run
+  finalError: number // setpoint − measurement at the end of the run
 }
 
 export interface SystemDisturbance {
@@ -60,6 +160,8 @@ export interface SystemDisturbance {
   startTime: number // seconds
 }
 
+export type PlantModelType = 'LUMPED' | 'TRANSIENT'
+
 export interface SimulationParameters {
   duration: number // seconds
   timeStep: number // seconds
@@ -71,13 +173,63 @@ export interface SimulationParameters {
     fuelFlow: number
     airFlow: number
   }
+  plantModel?: PlantModelType // Defaults to LUMPED
+  // TRANSIENT only: start away from nominal, e.g. a cold, dry stack
+  initialConditions?: {
+    temperature?: number // °C
+    membraneWaterContent?: number // λ
+  }
+  solverOptions?: {
+    relativeTolerance?: number
+    absoluteTolerance?: number
+  }
+  faults?: FaultInjection[]
+  // Gaussian measurement noise, standard deviation in each signal's units
+  measurementNoise?: Partial<Record<MonitoredSignal, number>>
+  noiseSeed?: number
+}
+
+interface PlantControlInputs {
+  // null means the loop is open and the actuator stays at its nominal setting
+  thermalControl: number | null
+  humidityControl: number | null
+  pressureControl: number | null
+  airFlowControl: number | null
+  purgeSignal: boolean
+  loadFactor?: number // Load current relative to nominal, 1 when omitted
+}
+
+interface PlantStepResult {
+  temperature: number
+  humidity: number
+  pressure: number
+  stackVoltage: number
+  current: number
+  power: number
+  efficiency: number
+}
+
+interface PlantState {
+  temperature: number
+  humidity: number
+  pressure: number
+  fuelFlow: number
+  airFlow: number
+  stackVoltage: number
+  nitrogenFraction: number
+}
+
+interface FuelCellPlant {
+  readonly nominalCurrent: number // A
+  step(dt: number, controlInputs: PlantControlInputs, disturbance?: SystemDisturbance, faults?: PlantFaultEffects): PlantStepResult
+  getState(): PlantState
 }
 
 // ============================================================================
 // FUEL CELL SYSTEM MODELS
 // ============================================================================
 
-class FuelCellSystemModel {
+class FuelCellSystemModel implements FuelCellPlant {
   private fuelCellType: FuelCellType
   private nominalConditions: SimulationParameters['nominalConditions']
   
@@ -96,6 +248,10 @@ class FuelCellSystemModel {
   private pressureTimeConstant: number = 10
   private voltageTimeConstant: number = 5
   
+  public readonly nominalCurrent = 50 // A
+  private static readonly CELL_COUNT = 50
+  private faultEffects: PlantFaultEffects = NO_FAULT_EFFECTS
+  
   constructor(fuelCellType: FuelCellType, nominalConditions: SimulationParameters['nominalConditions']) {
     this.fuelCellType = fuelCellType
     this.nominalConditions = nominalConditions
@@ -128,22 +284,12 @@ class FuelCellSystemModel {
   
   public step(
     dt: number,
-    controlInputs: {
-      thermalControl: number
-      humidityControl: number
-      pressureControl: number
-      airFlowControl: number
-      purgeSignal: boolean
-    },
-    disturbance?: SystemDisturbance
-  ): {
-    temperature: number
-    humidity: number
-    pressure: number
-    stackVoltage: number
-    power: number
-    efficiency: number
-  } {
+    controlInputs: PlantControlInputs,
+    disturbance?: SystemDisturbance,
+    faults: PlantFaultEffects = NO_FAULT_EFFECTS
+  ): PlantStepResult {
+    this.faultEffects = faults
+    
     // Apply disturbances
     let tempDisturbance = 0
     let pressureDisturbance = 0
@@ -163,22 +309,24 @@ class FuelCellSystemModel {
       }
     }
     
-    // First-order system dynamics with control inputs
-    const tempSetpoint = this.nominalConditions.temperature + controlInputs.thermalControl + tempDisturbance
+    // First-order lags towards the commanded actuator settings
+    const tempSetpoint = (controlInputs.thermalControl ?? this.nominalConditions.temperature) + tempDisturbance
     this.temperature += (dt / this.thermalTimeConstant) * (tempSetpoint - this.temperature)
     
     if (this.fuelCellType !== 'SOFC' && this.fuelCellType !== 'MCFC') {
-      const humiditySetpoint = this.nominalConditions.humidity + controlInputs.humidityControl + humidityDisturbance
+      const humiditySetpoint = (controlInputs.humidityControl ?? this.nominalConditions.humidity) * faults.humidityFactor + humidityDisturbance
       this.humidity += (dt / this.humidityTimeConstant) * (humiditySetpoint - this.humidity)
       this.humidity = Math.max(0, Math.min(100, this.humidity))
     }
     
-    const pressureSetpoint = this.nominalConditions.pressure + controlInputs.pressureControl + pressureDisturbance
+    // Flooded channels raise the cathode pressure drop, a failing compressor lowers it
+    const pressureFaultShift = 0.5 * (1 - faults.cathodeFlowFactor) - 0.5 * (1 - faults.airFlowFactor)
+    const pressureSetpoint = (controlInputs.pressureControl ?? this.nominalConditions.pressure) + pressureDisturbance + pressureFaultShift
     this.pressure += (dt / this.pressureTimeConstant) * (pressureSetpoint - this.pressure)
     this.pressure = Math.max(0.1, this.pressure)
     
     // Air flow affects nitrogen accumulation
-    this.airFlow = this.nominalConditions.airFlow + controlInputs.airFlowControl
+    this.airFlow = (controlInputs.airFlowControl ?? this.nominalConditions.airFlow) * faults.airFlowFactor
     
     // Nitrogen accumulation model
     const nitrogenGeneration = 0.001 * dt // Simplified nitrogen crossover
@@ -187,19 +335,20 @@ class FuelCellSystemModel {
     this.nitrogenFraction = Math.max(0, Math.min(1, this.nitrogenFraction))
     
     // Calculate performance based on operating conditions
-    const { power, efficiency, voltage } = this.calculatePerformance()
+    const { power, efficiency, voltage, current } = this.calculatePerformance(controlInputs.loadFactor ?? 1)
     
     return {
       temperature: this.temperature,
       humidity: this.humidity,
       pressure: this.pressure,
       stackVoltage: voltage,
+      current,
       power,
       efficiency
     }
   }
   
-  private calculatePerformance(): { power: number; efficiency: number; voltage: number } {
+  private calculatePerformance(loadFactor: number): { power: number; efficiency: number; voltage: number; current: number } {
     // Simplified fuel cell performance model
     const optimalConditions = this.getOptimalConditions()
     
@@ -219,19 +368,29 @@ class FuelCellSystemModel {
     // Nitrogen contamination factor
     const nitrogenPenalty = -this.nitrogenFraction * 0.3
     
+    // Injected faults: transport losses grow with load, air starvation below half the commanded flow
+    const faults = this.faultEffects
+    const faultPenalty = -0.3 * (1 - faults.transportFactor) * loadFactor - 0.5 * Math.max(0, 0.5 - faults.airFlowFactor)
+    
     // Base performance
+    const cells = FuelCellSystemModel.CELL_COUNT
     const baseVoltage = this.getBaseVoltage()
-    const voltage = baseVoltage * (1 + tempFactor + pressureFactor + humidityFactor + nitrogenPenalty)
-    const current = 50 // Simplified current calculation
+    const healthyVoltage = baseVoltage * (1 + tempFactor + pressureFactor + humidityFactor + nitrogenPenalty)
+    const cellVoltage = healthyVoltage / cells * (1 + faultPenalty) - faults.anodeOverpotential
+    const reversed = Math.min(faults.reversedCells, cells)
+    const voltage = cellVoltage * (cells - reversed) + REVERSED_CELL_VOLTAGE * reversed
+    const current = this.nominalCurrent * loadFactor // Simplified current calculation
     const power = Math.max(0, voltage * current)
     
     const baseEfficiency = this.getBaseEfficiency()
-    const efficiency = baseEfficiency * (1 + tempFactor + pressureFactor + humidityFactor + nitrogenPenalty)
+    const efficiency = baseEfficiency * (1 + tempFactor + pressureFactor + humidityFactor + nitrogenPenalty) *
+      (healthyVoltage > 0 ? Math.max(0, voltage) / healthyVoltage : 0)
     
     return {
       power: Math.max(0, power),
       efficiency: Math.max(0, Math.min(100, efficiency * 100)),
-      voltage: Math.max(0, voltage)
+      voltage: Math.max(0, voltage),
+      current
     }
   }
   
@@ -248,7 +407,7 @@ class FuelCellSystemModel {
   
   private getBaseVoltage(): number {
     const voltages = { PEM: 0.7, SOFC: 0.8, PAFC: 0.75, MCFC: 0.85, AFC: 0.9 }
-    return voltages[this.fuelCellType] * 50 // 50 cells
+    return voltages[this.fuelCellType] * FuelCellSystemModel.CELL_COUNT
   }
   
   private getBaseEfficiency(): number {
@@ -261,7 +420,7 @@ class FuelCellSystemModel {
     return Math.max(-0.5, -deviation / optimal * 0.3)
   }
   
-  public getState() {
+  public getState(): PlantState {
     return {
       temperature: this.temperature,
       humidity: this.humidity,
@@ -274,19 +433,410 @@ class FuelCellSystemModel {
   }
 }
 
+// ----------------------------------------------------------------------------
+// Transient ODE plant
+// ----------------------------------------------------------------------------
+
+// Stack and balance-of-plant constants per fuel cell type
+const TRANSIENT_PLANT_PARAMS: Record<FuelCellType, {
+  thermalCapacitance: number // J/K
+  coolantConductance: number // W/K, stack to coolant/preheat loop
+  ambientConductance: number // W/K, stack to surroundings
+  cathodeVolume: number // m³
+  anodeVolume: number // m³
+  hydrationTimeConstant: number // s; 0 for electrolytes without membrane water dynamics
+  nitrogenPermeance: number // mol/(s·bar) across the whole stack
+}> = {
+  PEM: { thermalCapacitance: 2.0e4, coolantConductance: 60, ambientConductance: 3, cathodeVolume: 5e-3, anodeVolume: 1e-3, hydrationTimeConstant: 30, nitrogenPermeance: 1.5e-4 },
+  SOFC: { thermalCapacitance: 2.0e5, coolantConductance: 40, ambientConductance: 5, cathodeVolume: 8e-3, anodeVolume: 2e-3, hydrationTimeConstant: 0, nitrogenPermeance: 1e-5 },
+  PAFC: { thermalCapacitance: 6.0e4, coolantConductance: 60, ambientConductance: 4, cathodeVolume: 6e-3, anodeVolume: 1.5e-3, hydrationTimeConstant: 0, nitrogenPermeance: 5e-5 },
+  MCFC: { thermalCapacitance: 1.5e5, coolantConductance: 40, ambientConductance: 5, cathodeVolume: 8e-3, anodeVolume: 2e-3, hydrationTimeConstant: 0, nitrogenPermeance: 1e-5 },
+  AFC: { thermalCapacitance: 1.5e4, coolantConductance: 60, ambientConductance: 3, cathodeVolume: 4e-3, anodeVolume: 1e-3, hydrationTimeConstant: 25, nitrogenPermeance: 1e-4 }
+}
+
+const GAS_CONSTANT = 8.314 // J/(mol·K)
+const FARADAY = 96485 // C/mol
+const MOLAR_VOLUME = 22.414 // L/mol at STP
+const THERMONEUTRAL_VOLTAGE_LHV = 1.253 // V
+const AMBIENT_PRESSURE = 1.013 // bar
+const AMBIENT_TEMPERATURE = 20 // °C
+
+/**
+ * Physically based stack model integrated with adaptive RK45 between control updates.
+ * States: stack temperature, cathode O2/N2 and anode H2/N2 partial pressures,
+ * membrane water content and delivered air flow (blower lag). Controller outputs
+ * are absolute actuator commands: coolant temperature (°C), inlet relative
+ * humidity (%), cathode back-pressure setpoint (bar) and air flow (L/min).
+ */
+class TransientFuelCellModel implements FuelCellPlant {
+  private static readonly CELL_COUNT = 50
+  private static readonly ANODE_STOICHIOMETRY = 1.2 // Nominal fuel flow is sized for this
+  private static readonly BLOWER_TIME_CONSTANT = 1 // s
+  private static readonly REGULATOR_GAIN = 0.1 // mol/(s·bar)
+  private static readonly REGULATOR_CAPACITY = 1.5 // Fully open supply, relative to nominal fuel flow
+  private static readonly BLEED_CONDUCTANCE = 1e-5 // mol/(s·bar)
+  private static readonly REFERENCE_WATER_CONTENT = 14 // λ at which the reference ASR applies
+
+  private fuelCellType: FuelCellType
+  private nominalConditions: SimulationParameters['nominalConditions']
+  private solverOptions: NonNullable<SimulationParameters['solverOptions']>
+  private params: typeof TRANSIENT_PLANT_PARAMS[FuelCellType]
+  public readonly nominalCurrent: number // A
+  private activeArea: number // cm²
+  private purgeConductance: number // mol/(s·bar)
+
+  // [temperature °C, pO2 cathode, pN2 cathode, pH2 anode, pN2 anode (bar), λ, air flow L/min]
+  private y: number[]
+  private lastStepSize = 0.01
+  private outputs = { voltage: 0, current: 0, power: 0, efficiency: 0 }
+  private faultEffects: PlantFaultEffects = NO_FAULT_EFFECTS
+  public solverSteps = 0
+  public rejectedSteps = 0
+
+  constructor(
+    fuelCellType: FuelCellType,
+    nominalConditions: SimulationParameters['nominalConditions'],
+    initialConditions: SimulationParameters['initialConditions'] = {},
+    solverOptions: SimulationParameters['solverOptions'] = {}
+  ) {
+    this.fuelCellType = fuelCellType
+    this.nominalConditions = nominalConditions
+    this.solverOptions = solverOptions
+    this.params = TRANSIENT_PLANT_PARAMS[fuelCellType]
+
+    // Size the stack so the nominal fuel flow carries the nominal load at 40% of limiting current
+    const hydrogenFlow = nominalConditions.fuelFlow / 60 / MOLAR_VOLUME
+    this.nominalCurrent = 2 * FARADAY * hydrogenFlow / (TransientFuelCellModel.CELL_COUNT * TransientFuelCellModel.ANODE_STOICHIOMETRY)
+    const limitingCurrentDensity = FuelCellModelingEngine.getDefaultElectrochemicalParameters(fuelCellType).limitingCurrentDensity
+    this.activeArea = this.nominalCurrent / (0.4 * limitingCurrentDensity)
+    // Purge valve passes half the nominal fuel flow at nominal pressure
+    this.purgeConductance = 0.5 * hydrogenFlow / Math.max(nominalConditions.pressure - AMBIENT_PRESSURE, 0.1)
+
+    const pressure = nominalConditions.pressure
+    this.y = [
+      initialConditions.temperature ?? nominalConditions.temperature,
+      0.21 * pressure,
+      0.79 * pressure,
+      pressure,
+      0,
+      initialConditions.membraneWaterContent ?? TransientFuelCellModel.REFERENCE_WATER_CONTENT,
+      nominalConditions.airFlow
+    ]
+    this.outputs = this.evaluateStack(this.y, 1).outputs
+  }
+
+  public step(
+    dt: number,
+    controlInputs: PlantControlInputs,
+    disturbance?: SystemDisturbance,
+    faults: PlantFaultEffects = NO_FAULT_EFFECTS
+  ): PlantStepResult {
+    this.faultEffects = faults
+    const loadFactor = (controlInputs.loadFactor ?? 1) * (disturbance?.type === 'LOAD_CHANGE' ? 1 + disturbance.magnitude : 1)
+    const actuators = {
+      coolantTemperature: controlInputs.thermalControl ?? this.nominalConditions.temperature,
+      inletHumidity: Math.max(0, Math.min(100,
+        (controlInputs.humidityControl ?? this.nominalConditions.humidity) * faults.humidityFactor +
+        (disturbance?.type === 'HUMIDITY_VARIATION' ? disturbance.magnitude * 30 : 0))),
+      backPressure: Math.max(AMBIENT_PRESSURE + 0.01,
+        (controlInputs.pressureControl ?? this.nominalConditions.pressure) -
+        (disturbance?.type === 'PRESSURE_DROP' ? disturbance.magnitude * 0.5 : 0)),
+      airFlowCommand: Math.max(0, controlInputs.airFlowControl ?? this.nominalConditions.airFlow) * faults.airFlowFactor,
+      purge: controlInputs.purgeSignal,
+      extraHeat: disturbance?.type === 'TEMPERATURE_SPIKE' ? disturbance.magnitude * 20 * this.params.coolantConductance : 0,
+      fuelAvailability: disturbance?.type === 'FUEL_INTERRUPTION' ? 1 - disturbance.magnitude : 1
+    }
+
+    // Zero-order hold on the actuators across the control interval
+    const solution = integrateRK45(
+      (_, y) => this.derivatives(y, actuators, loadFactor),
+      0,
+      this.y,
+      dt,
+      {
+        relativeTolerance: this.solverOptions.relativeTolerance ?? 1e-5,
+        absoluteTolerance: this.solverOptions.absoluteTolerance ?? 1e-6,
+        initialStep: Math.min(this.lastStepSize, dt),
+        maxStep: dt
+      }
+    )
+    this.y = this.clampStates(solution.y)
+    this.lastStepSize = solution.lastStep
+    this.solverSteps += solution.acceptedSteps
+    this.rejectedSteps += solution.rejectedSteps
+    this.outputs = this.evaluateStack(this.y, loadFactor).outputs
+
+    return {
+      temperature: this.y[0],
+      humidity: this.getHumidity(this.y, actuators.inletHumidity),
+      pressure: this.getCathodePressure(this.y),
+      stackVoltage: this.outputs.voltage,
+      current: this.outputs.current,
+      power: this.outputs.power,
+      efficiency: this.outputs.efficiency
+    }
+  }
+
+  public getState(): PlantState {
+    return {
+      temperature: this.y[0],
+      humidity: this.getHumidity(this.y, this.nominalConditions.humidity * this.faultEffects.humidityFactor),
+      pressure: this.getCathodePressure(this.y),
+      fuelFlow: this.nominalConditions.fuelFlow,
+      airFlow: this.y[6],
+      stackVoltage: this.outputs.voltage,
+      nitrogenFraction: this.getNitrogenFraction(this.y)
+    }
+  }
+
+  public getDiagnostics() {
+    return {
+      stackVoltage: this.outputs.voltage,
+      current: this.outputs.current,
+      membraneWaterContent: this.y[5],
+      cathodePressure: this.getCathodePressure(this.y),
+      anodePressure: this.y[3] + this.y[4],
+      hydrogenPartialPressure: this.y[3],
+      nitrogenFraction: this.getNitrogenFraction(this.y)
+    }
+  }
+
+  private derivatives(
+    y: number[],
+    actuators: {
+      coolantTemperature: number
+      inletHumidity: number
+      backPressure: number
+      airFlowCommand: number
+      purge: boolean
+      extraHeat: number
+      fuelAvailability: number
+    },
+    loadFactor: number
+  ): number[] {
+    const state = this.clampStates(y)
+    const [temperature, oxygenPressure, cathodeNitrogen, hydrogenPressure, anodeNitrogen, waterContent, airFlow] = state
+    const { outputs, currentDensity } = this.evaluateStack(state, loadFactor)
+    const cells = TransientFuelCellModel.CELL_COUNT
+    const current = outputs.current
+    const temperatureK = temperature + 273.15
+
+    // Thermal balance: reaction heat (LHV basis) against coolant and ambient losses
+    const heatGenerated = (THERMONEUTRAL_VOLTAGE_LHV * cells - outputs.voltage) * current + actuators.extraHeat
+    const heatRemoved = this.params.coolantConductance * (temperature - actuators.coolantTemperature) +
+      this.params.ambientConductance * (temperature - AMBIENT_TEMPERATURE)
+    const dTemperature = (heatGenerated - heatRemoved) / this.params.thermalCapacitance
+
+    // Cathode manifold: air in, O2 consumed, back-pressure valve sized for nominal flow at its setpoint
+    const cathodePressure = oxygenPressure + cathodeNitrogen
+    const airMolarFlow = airFlow / 60 / MOLAR_VOLUME
+    const nominalAirMolarFlow = this.nominalConditions.airFlow / 60 / MOLAR_VOLUME
+    // Liquid water in the channels (flooding) chokes the outlet
+    const valveConductance = this.faultEffects.cathodeFlowFactor * nominalAirMolarFlow / (actuators.backPressure - AMBIENT_PRESSURE)
+    const cathodeOutflow = valveConductance * Math.max(0, cathodePressure - AMBIENT_PRESSURE)
+    const oxygenConsumed = cells * current / (4 * FARADAY)
+    const nitrogenCrossover = this.params.nitrogenPermeance * (cathodeNitrogen - anodeNitrogen)
+    const cathodeScale = GAS_CONSTANT * temperatureK / this.params.cathodeVolume * 1e-5 // bar per mol
+    const outflowFraction = cathodePressure > 0 ? cathodeOutflow / cathodePressure : 0
+    const dOxygen = cathodeScale * (0.21 * airMolarFlow - oxygenConsumed - outflowFraction * oxygenPressure)
+    const dCathodeNitrogen = cathodeScale * (0.79 * airMolarFlow - nitrogenCrossover - outflowFraction * cathodeNitrogen)
+
+    // Anode: pressure regulator limited by fuel supply capacity, dead-ended with purge valve
+    const anodePressure = hydrogenPressure + anodeNitrogen
+    const supplyCapacity = actuators.fuelAvailability * TransientFuelCellModel.REGULATOR_CAPACITY *
+      this.nominalConditions.fuelFlow / 60 / MOLAR_VOLUME
+    const hydrogenSupply = Math.min(supplyCapacity,
+      Math.max(0, TransientFuelCellModel.REGULATOR_GAIN * (actuators.backPressure - anodePressure)))
+    const hydrogenConsumed = cells * current / (2 * FARADAY)
+    const purgeConductance = actuators.purge ? this.purgeConductance : TransientFuelCellModel.BLEED_CONDUCTANCE
+    const anodeOutflow = purgeConductance * Math.max(0, anodePressure - AMBIENT_PRESSURE)
+    const anodeScale = GAS_CONSTANT * temperatureK / this.params.anodeVolume * 1e-5
+    const anodeOutflowFraction = anodePressure > 0 ? anodeOutflow / anodePressure : 0
+    const dHydrogen = anodeScale * (hydrogenSupply - hydrogenConsumed - anodeOutflowFraction * hydrogenPressure)
+    const dAnodeNitrogen = anodeScale * (nitrogenCrossover - anodeOutflowFraction * anodeNitrogen)
+
+    // Membrane water content relaxes towards the Springer equilibrium with the gas activity
+    let dWaterContent = 0
+    if (this.params.hydrationTimeConstant > 0) {
+      const activity = this.getWaterActivity(state, actuators.inletHumidity, currentDensity)
+      dWaterContent = (equilibriumWaterContent(activity) - waterContent) / this.params.hydrationTimeConstant
+    }
+
+    const dAirFlow = (actuators.airFlowCommand - airFlow) / TransientFuelCellModel.BLOWER_TIME_CONSTANT
+
+    return [dTemperature, dOxygen, dCathodeNitrogen, dHydrogen, dAnodeNitrogen, dWaterContent, dAirFlow]
+  }
+
+  private evaluateStack(state: number[], loadFactor: number): {
+    outputs: { voltage: number; current: number; power: number; efficiency: number }
+    currentDensity: number
+  } {
+    const [temperature, oxygenPressure, , hydrogenPressure, , waterContent] = state
+    const temperatureK = temperature + 273.15
+
+    // Reference electrochemistry at 1 bar air; humidity effects come from the membrane state instead
+    const reference = FuelCellModelingEngine.resolveElectrochemicalParameters({
+      fuelCellType: this.fuelCellType,
+      operatingTemperature: temperature,
+      operatingPressure: 1,
+      humidity: 100
+    })
+    const nernstShift = (GAS_CONSTANT * temperatureK) / (2 * FARADAY) *
+      Math.log(Math.max(hydrogenPressure, 1e-6) * Math.sqrt(Math.max(oxygenPressure, 1e-6) / 0.21))
+    const hydrationFactor = this.params.hydrationTimeConstant > 0
+      ? membraneConductivity(TransientFuelCellModel.REFERENCE_WATER_CONTENT) / membraneConductivity(waterContent)
+      : 1
+    // Mass transport limit from whichever electrode is starved first
+    const transportFactor = Math.min(oxygenPressure / 0.21, 5 * hydrogenPressure)
+    const params = {
+      ...reference,
+      openCircuitVoltage: reference.openCircuitVoltage + nernstShift,
+      areaSpecificResistance: reference.areaSpecificResistance * hydrationFactor,
+      limitingCurrentDensity: Math.max(reference.limitingCurrentDensity * transportFactor * this.faultEffects.transportFactor, 1e-6)
+    }
+
+    const demand = this.nominalCurrent * loadFactor / this.activeArea
+    const currentDensity = Math.min(demand, 0.98 * params.limitingCurrentDensity)
+    const cellVoltage = Math.max(0,
+      FuelCellModelingEngine.calculateCellVoltage(currentDensity, params).voltage - this.faultEffects.anodeOverpotential)
+    const current = currentDensity * this.activeArea
+    // Reversed cells consume power the healthy ones deliver
+    const cells = TransientFuelCellModel.CELL_COUNT
+    const reversed = Math.min(this.faultEffects.reversedCells, cells)
+    const voltage = Math.max(0, cellVoltage * (cells - reversed) + REVERSED_CELL_VOLTAGE * reversed)
+
+    return {
+      outputs: {
+        voltage,
+        current,
+        power: voltage * current,
+        efficiency: Math.min(100, voltage / cells / THERMONEUTRAL_VOLTAGE_LHV * 100)
+      },
+      currentDensity
+    }
+  }
+
+  private getWaterActivity(state: number[], inletHumidity: number, currentDensity: number): number {
+    const [temperature, oxygenPressure, cathodeNitrogen] = state
+    const cathodePressure = oxygenPressure + cathodeNitrogen
+    // Humidifier saturates the inlet at the nominal temperature; product water is added along the channel
+    const inletVapour = inletHumidity / 100 * saturationPressure(this.nominalConditions.temperature)
+    const airMolarFlow = Math.max(state[6] / 60 / MOLAR_VOLUME, 1e-6)
+    const waterProduced = TransientFuelCellModel.CELL_COUNT * currentDensity * this.activeArea / (2 * FARADAY)
+    const outletVapour = inletVapour + waterProduced / airMolarFlow * cathodePressure
+    return ((inletVapour + outletVapour) / 2) / saturationPressure(temperature)
+  }
+
+  private getHumidity(state: number[], inletHumidity: number): number {
+    if (this.params.hydrationTimeConstant === 0) return inletHumidity
+    const currentDensity = this.outputs.current / this.activeArea
+    return Math.max(0, Math.min(100, this.getWaterActivity(state, inletHumidity, currentDensity) * 100))
+  }
+
+  private getCathodePressure(state: number[]): number {
+    return state[1] + state[2]
+  }
+
+  private getNitrogenFraction(state: number[]): number {
+    const anodePressure = state[3] + state[4]
+    return anodePressure > 0 ? state[4] / anodePressure : 0
+  }
+
+  private clampStates(y: number[]): number[] {
+    // Partial pressures and water content cannot go negative between solver stages
+    return y.map((value, i) => (i === 0 ? value : Math.max(0, value)))
+  }
+}
+
+function saturationPressure(temperature: number): number {
+  // Springer et al. (1991) correlation, bar; valid for low-temperature cells
+  const t = Math.max(-20, Math.min(120, temperature))
+  return 1.01325 * Math.pow(10, -2.1794 + 0.02953 * t - 9.1837e-5 * t * t + 1.4454e-7 * t * t * t)
+}
+
+function equilibriumWaterContent(activity: number): number {
+  // Springer et al. (1991) sorption isotherm, with linear uptake from liquid water above saturation
+  const a = Math.max(0, activity)
+  if (a <= 1) return 0.043 + 17.18 * a - 39.85 * a * a + 36 * a * a * a
+  return Math.min(16.8, 14 + 1.4 * (a - 1))
+}
+
+function membraneConductivity(waterContent: number): number {
+  // Springer et al. (1991) λ-dependence of Nafion conductivity (temperature handled by the Arrhenius ASR)
+  return Math.max(0.005139 * waterContent - 0.00326, 1e-4)
+}
+
 // ============================================================================
-// PID CONTROLLER
+// CONTROLLERS
 // ============================================================================
 
-class PIDController {
+/**
+ * Common interface of all feedback controllers driven by the simulation loop.
+ * Learning controllers (ADAPTIVE, NEURAL) assume a positive plant gain, which
+ * holds for every loop the simulator exposes.
+ */
+interface FeedbackController {
+  update(processVariable: number, dt: number): number
+  setSetpoint(setpoint: number): void
+  initialize(output: number): void
+  reset(): void
+}
+
+abstract class ConstrainedController implements FeedbackController {
+  protected setpoint: number
+  protected constraints: { min: number; max: number; rateLimit: number }
+  protected previousOutput: number = 0
+  protected bias: number = 0 // Output at zero error (manual reset)
+
+  constructor(setpoint: number, constraints: { min: number; max: number; rateLimit: number }) {
+    this.setpoint = setpoint
+    this.constraints = constraints
+  }
+
+  public abstract update(processVariable: number, dt: number): number
+
+  public setSetpoint(setpoint: number): void {
+    this.setpoint = setpoint
+  }
+
+  /**
+   * Bumpless start: hold `output` at zero error, as when switching an actuator
+   * already running at that setting from manual to automatic.
+   */
+  public initialize(output: number): void {
+    this.bias = output
+    this.previousOutput = output
+  }
+
+  public reset(): void {
+    this.previousOutput = this.bias
+  }
+
+  // Clamp to the actuator range, then to the rate limit
+  protected limit(output: number, dt: number): number {
+    output = Math.max(this.constraints.min, Math.min(this.constraints.max, output))
+
+    const maxChange = this.constraints.rateLimit * dt
+    const deltaOutput = output - this.previousOutput
+    if (Math.abs(deltaOutput) > maxChange) {
+      output = this.previousOutput + Math.sign(deltaOutput) * maxChange
+    }
+
+    this.previousOutput = output
+    return output
+  }
+
+  protected get span(): number {
+    return Math.max(this.constraints.max - this.constraints.min, 1e-6)
+  }
+}
+
+class PIDController extends ConstrainedController {
   private kp: number
   private ki: number
   private kd: number
-  private setpoint: number
   private integral: number = 0
   private previousError: number = 0
-  private constraints: { min: number; max: number; rateLimit: number }
-  private previousOutput: number = 0
   
   constructor(
     kp: number,
@@ -295,11 +845,10 @@ class PIDController {
     setpoint: number,
     constraints: { min: number; max: number; rateLimit: number }
   ) {
+    super(setpoint, constraints)
     this.kp = kp
     this.ki = ki
     this.kd = kd
-    this.setpoint = setpoint
-    this.constraints = constraints
   }
   
   public update(processVariable: number, dt: number): number {
@@ -318,33 +867,510 @@ class PIDController {
     const derivative = (error - this.previousError) / dt
     const derivativeTerm = this.kd * derivative
     
-    // Calculate output
-    let output = proportional + integralTerm + derivativeTerm
-    
-    // Apply constraints
-    output = Math.max(this.constraints.min, Math.min(this.constraints.max, output))
-    
-    // Apply rate limiting
-    const maxChange = this.constraints.rateLimit * dt
-    const deltaOutput = output - this.previousOutput
-    if (Math.abs(deltaOutput) > maxChange) {
-      output = this.previousOutput + Math.sign(deltaOutput) * maxChange
-    }
-    
     this.previousError = error
-    this.previousOutput = output
     
-    return output
-  }
-  
-  public setSetpoint(setpoint: number): void {
-    this.setpoint = setpoint
+    return this.limit(this.bias + proportional + integralTerm + derivativeTerm, dt)
   }
   
   public reset(): void {
+    super.reset()
     this.integral = 0
     this.previousError = 0
-    this.previousOutput = 0
+  }
+}
+
+/**
+ * Mamdani fuzzy PI controller: min inference, max aggregation and centroid
+ * defuzzification of the output rate, which is integrated into the command.
+ */
+class FuzzyController extends ConstrainedController {
+  private params: FuzzyControllerParams
+  private previousError: number | null = null
+
+  constructor(params: FuzzyControllerParams, setpoint: number, constraints: { min: number; max: number; rateLimit: number }) {
+    super(setpoint, constraints)
+    validateFuzzyParams(params)
+    this.params = params
+  }
+
+  public update(processVariable: number, dt: number): number {
+    const error = this.setpoint - processVariable
+    const errorRate = this.previousError === null ? 0 : (error - this.previousError) / dt
+    this.previousError = error
+
+    const change = this.params.outputScale * this.infer(
+      clamp(error / this.params.errorScale, -1, 1),
+      clamp(errorRate / this.params.errorRateScale, -1, 1)
+    )
+
+    // Integrate from the applied output so saturation cannot wind up the command
+    return this.limit(this.previousOutput + change * dt, dt)
+  }
+
+  public reset(): void {
+    super.reset()
+    this.previousError = null
+  }
+
+  // Normalised output in [-1, 1] for normalised inputs
+  private infer(error: number, errorRate: number): number {
+    const errorDegrees = new Map(this.params.errorSets.map(set => [set.label, membership(set, error)]))
+    const rateDegrees = new Map(this.params.errorRateSets.map(set => [set.label, membership(set, errorRate)]))
+
+    const activation = new Map<string, number>()
+    for (const rule of this.params.rules) {
+      const strength = Math.min(errorDegrees.get(rule.error) ?? 0, rateDegrees.get(rule.errorRate) ?? 0)
+      if (strength > (activation.get(rule.output) ?? 0)) activation.set(rule.output, strength)
+    }
+
+    let area = 0
+    let moment = 0
+    for (let k = 0; k <= FUZZY_RESOLUTION; k++) {
+      const z = -1 + (2 * k) / FUZZY_RESOLUTION
+      let degree = 0
+      for (const set of this.params.outputSets) {
+        const clipped = Math.min(activation.get(set.label) ?? 0, membership(set, z))
+        if (clipped > degree) degree = clipped
+      }
+      area += degree
+      moment += degree * z
+    }
+    return area > 0 ? moment / area : 0
+  }
+}
+
+/**
+ * Model-reference adaptive controller: u = bias + θr·r − θy·y with both gains
+ * adapted by the normalised MIT rule so the loop tracks a first-order
+ * reference model. Adaptation freezes while the actuator saturates.
+ */
+class AdaptiveController extends ConstrainedController {
+  private params: AdaptiveControllerParams
+  private feedforwardGain: number
+  private feedbackGain: number
+  private maxGain: number
+  private modelOutput: number | null = null
+  private filteredMeasurement: number = 0
+
+  constructor(
+    params: AdaptiveControllerParams,
+    initialGain: number,
+    setpoint: number,
+    constraints: { min: number; max: number; rateLimit: number }
+  ) {
+    super(setpoint, constraints)
+    if (!(params.referenceTimeConstant > 0) || !(params.adaptationGain >= 0)) {
+      throw new Error('Invalid adaptive controller parameters: reference time constant must be positive and adaptation gain non-negative')
+    }
+    this.params = params
+    this.feedforwardGain = initialGain
+    this.feedbackGain = initialGain
+    this.maxGain = Math.max(100 * initialGain, 10)
+  }
+
+  public update(processVariable: number, dt: number): number {
+    if (this.modelOutput === null) {
+      this.modelOutput = processVariable
+      this.filteredMeasurement = processVariable
+    }
+
+    // Reference model and measurement filter share the model time constant (MIT-rule sensitivities)
+    const alpha = dt / (this.params.referenceTimeConstant + dt)
+    this.modelOutput += alpha * (this.setpoint - this.modelOutput)
+    this.filteredMeasurement += alpha * (processVariable - this.filteredMeasurement)
+
+    const unlimited = this.bias + this.feedforwardGain * this.setpoint - this.feedbackGain * processVariable
+    const output = this.limit(unlimited, dt)
+
+    if (output === unlimited) {
+      const trackingError = processVariable - this.modelOutput
+      const gamma = this.params.adaptationGain * dt
+      this.feedforwardGain -= gamma * trackingError * this.modelOutput / (1 + this.modelOutput ** 2)
+      this.feedbackGain += gamma * trackingError * this.filteredMeasurement / (1 + this.filteredMeasurement ** 2)
+      this.feedforwardGain = clamp(this.feedforwardGain, 0, this.maxGain)
+      this.feedbackGain = clamp(this.feedbackGain, 0, this.maxGain)
+    }
+
+    return output
+  }
+
+  public reset(): void {
+    super.reset()
+    this.modelOutput = null
+  }
+}
+
+/**
+ * Feed-forward network (one tanh hidden layer) on the normalised error, its
+ * integral and its rate, added to a fixed PID path so the loop is usable from
+ * the first step. The network weights are trained online by back-propagating
+ * the squared tracking error through the (positive) plant gain; learning
+ * freezes while the actuator saturates.
+ */
+class NeuralController extends ConstrainedController {
+  private params: NeuralControllerParams
+  private pid: { kp: number; ki: number; kd: number }
+  private errorScale: number
+  private inputWeights: number[][] // hidden × 3
+  private hiddenBiases: number[]
+  private outputWeights: number[]
+  private integral: number = 0
+  private previousError: number | null = null
+
+  constructor(
+    params: NeuralControllerParams,
+    pid: { kp: number; ki: number; kd: number },
+    setpoint: number,
+    constraints: { min: number; max: number; rateLimit: number }
+  ) {
+    super(setpoint, constraints)
+    if (!Number.isInteger(params.hiddenUnits) || params.hiddenUnits < 1 || !(params.learningRate >= 0)) {
+      throw new Error('Invalid neural controller parameters: hiddenUnits must be a positive integer and learningRate non-negative')
+    }
+    this.params = params
+    this.pid = pid
+    this.errorScale = 0.1 * this.span
+
+    // Deterministic weight initialisation
+    const random = createRng(params.seed ?? 1)
+    const spread = 1 / Math.sqrt(3)
+    this.inputWeights = Array.from({ length: params.hiddenUnits }, () => [0, 0, 0].map(() => (2 * random() - 1) * spread))
+    this.hiddenBiases = Array.from({ length: params.hiddenUnits }, () => (2 * random() - 1) * 0.1)
+    this.outputWeights = Array.from({ length: params.hiddenUnits }, () => (2 * random() - 1) * 0.01 * this.span)
+  }
+
+  public update(processVariable: number, dt: number): number {
+    const error = this.setpoint - processVariable
+    const errorRate = this.previousError === null ? 0 : (error - this.previousError) / dt
+    this.previousError = error
+
+    const maxIntegral = this.span / Math.max(this.pid.ki, 1e-3)
+    this.integral = clamp(this.integral + error * dt, -maxIntegral, maxIntegral)
+
+    const inputs = [
+      error / this.errorScale,
+      this.integral / (this.errorScale * 100),
+      errorRate / this.errorScale
+    ].map(x => clamp(x, -5, 5))
+    const hidden = this.inputWeights.map((weights, j) =>
+      Math.tanh(weights.reduce((sum, w, k) => sum + w * inputs[k], this.hiddenBiases[j]))
+    )
+    const network = hidden.reduce((sum, h, j) => sum + this.outputWeights[j] * h, 0)
+
+    const unlimited = this.bias + this.pid.kp * error + this.pid.ki * this.integral + this.pid.kd * errorRate + network
+    const output = this.limit(unlimited, dt)
+
+    if (output === unlimited && this.params.learningRate > 0) {
+      // ∂(½e²)/∂u = −e·∂y/∂u; the plant gain is taken as +1 and the step normalised
+      const delta = this.params.learningRate * dt * (error / this.errorScale) * this.span
+      const gradientNorm = 1 + hidden.reduce((sum, h) => sum + h * h, 0)
+      for (let j = 0; j < hidden.length; j++) {
+        const hiddenDelta = delta * this.outputWeights[j] * (1 - hidden[j] * hidden[j]) / (gradientNorm * this.span ** 2)
+        this.outputWeights[j] += delta * hidden[j] / gradientNorm
+        this.hiddenBiases[j] += hiddenDelta
+        for (let k = 0; k < 3; k++) this.inputWeights[j][k] += hiddenDelta * inputs[k]
+      }
+    }
+
+    return output
+  }
+
+  public reset(): void {
+    super.reset()
+    this.integral = 0
+    this.previousError = null
+  }
+}
+
+// Replaces a loop's controller with an externally computed command (tuning experiments)
+class CommandedActuator extends ConstrainedController {
+  private command: LoopCommand
+  private time: number = 0
+
+  constructor(command: LoopCommand, constraints: { min: number; max: number; rateLimit: number }) {
+    super(0, constraints)
+    this.command = command
+  }
+
+  public update(processVariable: number, dt: number): number {
+    const output = this.limit(this.command(this.time, processVariable, dt), dt)
+    this.time += dt
+    return output
+  }
+}
+
+const FUZZY_RESOLUTION = 200
+
+const FUZZY_LABELS = ['NB', 'NS', 'ZE', 'PS', 'PB'] as const
+
+// PI-type rule base indexed [error][errorRate]
+const FUZZY_RULE_TABLE: (typeof FUZZY_LABELS[number])[][] = [
+  ['NB', 'NB', 'NB', 'NS', 'ZE'],
+  ['NB', 'NB', 'NS', 'ZE', 'PS'],
+  ['NB', 'NS', 'ZE', 'PS', 'PB'],
+  ['NS', 'ZE', 'PS', 'PB', 'PB'],
+  ['ZE', 'PS', 'PB', 'PB', 'PB']
+]
+
+function defaultFuzzySets(): FuzzyMembershipFunction[] {
+  return [
+    { label: 'NB', points: [-1, -1, -0.5] },
+    { label: 'NS', points: [-1, -0.5, 0] },
+    { label: 'ZE', points: [-0.5, 0, 0.5] },
+    { label: 'PS', points: [0, 0.5, 1] },
+    { label: 'PB', points: [0.5, 1, 1] }
+  ]
+}
+
+/**
+ * Five-set fuzzy PI tuning equivalent, near zero error, to the controller's
+ * PID gains: du/dt ≈ Ki·e + Kp·de/dt.
+ */
+export function createDefaultFuzzyParams(controller: Pick<ControllerConfig, 'pidParams' | 'constraints'>): FuzzyControllerParams {
+  const span = Math.max(controller.constraints.max - controller.constraints.min, 1e-6)
+  const errorScale = 0.1 * span
+  // The diagonal rule base gives a normalised output of about (ê + ė̂)/2 near the origin
+  const outputScale = Math.max(2 * controller.pidParams.ki * errorScale, 0.05 * span)
+  const errorRateScale = outputScale / (2 * Math.max(controller.pidParams.kp, 1e-3))
+
+  return {
+    errorScale,
+    errorRateScale,
+    outputScale,
+    errorSets: defaultFuzzySets(),
+    errorRateSets: defaultFuzzySets(),
+    outputSets: defaultFuzzySets(),
+    rules: FUZZY_RULE_TABLE.flatMap((row, i) => row.map((output, j) => ({
+      error: FUZZY_LABELS[i],
+      errorRate: FUZZY_LABELS[j],
+      output
+    })))
+  }
+}
+
+export function createDefaultAdaptiveParams(): AdaptiveControllerParams {
+  return { referenceTimeConstant: 20, adaptationGain: 0.5 }
+}
+
+export function createDefaultNeuralParams(): NeuralControllerParams {
+  return { hiddenUnits: 6, learningRate: 0.05, seed: 1 }
+}
+
+function createController(config: ControllerConfig): FeedbackController {
+  const { kp, ki, kd } = config.pidParams
+  switch (config.type) {
+    case 'FUZZY':
+      return new FuzzyController(config.fuzzyParams ?? createDefaultFuzzyParams(config), config.setpoint, config.constraints)
+    case 'ADAPTIVE':
+      return new AdaptiveController(config.adaptiveParams ?? createDefaultAdaptiveParams(), kp, config.setpoint, config.constraints)
+    case 'NEURAL':
+      return new NeuralController(config.neuralParams ?? createDefaultNeuralParams(), { kp, ki, kd }, config.setpoint, config.constraints)
+    default:
+      return new PIDController(kp, ki, kd, config.setpoint, config.constraints)
+  }
+}
+
+function validateFuzzyParams(params: FuzzyControllerParams): void {
+  if (!(params.errorScale > 0) || !(params.errorRateScale > 0) || !(params.outputScale > 0)) {
+    throw new Error('Invalid fuzzy controller parameters: scales must be positive')
+  }
+  for (const [name, sets] of [['error', params.errorSets], ['errorRate', params.errorRateSets], ['output', params.outputSets]] as const) {
+    if (sets.length === 0) {
+      throw new Error(`Invalid fuzzy controller parameters: ${name} sets are empty`)
+    }
+    for (const { label, points: [a, b, c] } of sets) {
+      if (!(a <= b && b <= c)) {
+        throw new Error(`Invalid fuzzy controller parameters: ${name} set ${label} must satisfy a ≤ b ≤ c`)
+      }
+    }
+  }
+  const labels = {
+    error: new Set(params.errorSets.map(set => set.label)),
+    errorRate: new Set(params.errorRateSets.map(set => set.label)),
+    output: new Set(params.outputSets.map(set => set.label))
+  }
+  for (const rule of params.rules) {
+    if (!labels.error.has(rule.error) || !labels.errorRate.has(rule.errorRate) || !labels.output.has(rule.output)) {
+      throw new Error(`Invalid fuzzy controller parameters: rule ${rule.error}/${rule.errorRate} → ${rule.output} references an unknown set`)
+    }
+  }
+}
+
+// Triangular membership; a === b or b === c makes a shoulder that stays at 1 beyond the peak
+function membership(set: FuzzyMembershipFunction, x: number): number {
+  const [a, b, c] = set.points
+  if (x < a) return a === b ? 1 : 0
+  if (x > c) return b === c ? 1 : 0
+  if (x <= b) return a === b ? 1 : (x - a) / (b - a)
+  return b === c ? 1 : (c - x) / (c - b)
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+// ----------------------------------------------------------------------------
+// Measurement helpers
+// ----------------------------------------------------------------------------
+
+type MonitoredReading = Record<MonitoredSignal, number>
+
+function monitoredReading(state: PlantState, current: number, result?: PlantStepResult): MonitoredReading {
+  return {
+    voltage: result?.stackVoltage ?? state.stackVoltage,
+    current,
+    temperature: result?.temperature ?? state.temperature,
+    humidity: result?.humidity ?? state.humidity,
+    pressure: result?.pressure ?? state.pressure,
+    airFlow: state.airFlow
+  }
+}
+
+// Zero-mean Gaussian noise (Box-Muller on a seeded stream), then sensor faults, so a stuck sensor reads flat
+function createSensors(
+  faults: FaultInjection[],
+  noise: Partial<Record<MonitoredSignal, number>>,
+  seed: number
+): (reading: MonitoredReading, time: number) => MonitoredReading {
+  const sensorFaults = new SensorFaultModel(faults)
+  const random = createRng(seed)
+
+  return (reading, time) => {
+    const noisy = { ...reading }
+    for (const [signal, sigma] of Object.entries(noise) as [MonitoredSignal, number][]) {
+      if (sigma > 0) noisy[signal] += sigma * sampleNormal(random)
+    }
+    return sensorFaults.apply(noisy, time)
+  }
+}
+
+function emptyMonitoredSeries(): MonitoredSeries {
+  return { time: [], voltage: [], current: [], temperature: [], humidity: [], pressure: [], airFlow: [] }
+}
+
+function pushMonitored(series: MonitoredSeries, time: number, reading: MonitoredReading) {
+  series.time.push(time)
+  for (const signal of Object.keys(reading) as MonitoredSignal[]) series[signal].push(reading[signal])
+}
+
+// ============================================================================
+// VIRTUAL PLANT
+// ============================================================================
+
+export interface VirtualPlantInputs {
+  temperature: number | null // Coolant/preheat setpoint, °C
+  humidity: number | null // Inlet relative humidity, %
+  pressure: number | null // Cathode back-pressure, bar
+  airFlow: number | null // L/min
+  purge: boolean
+  loadFactor: number // Load current relative to nominal
+}
+
+export interface VirtualPlantOutputs {
+  temperature: number // °C
+  humidity: number // %
+  pressure: number // bar
+  voltage: number // V
+  current: number // A
+  power: number // W
+  efficiency: number // %
+  airFlow: number // L/min
+  nitrogenFraction: number
+}
+
+/**
+ * Stateful plant for stepping from outside the controller loop, e.g. a
+ * hardware-in-the-loop rig. Actuator inputs hold until changed; a null input
+ * leaves that actuator at its nominal setting. Injected faults are timed on
+ * the plant clock, and readings come through the (possibly faulty) sensors.
+ */
+export class VirtualFuelCellPlant {
+  private fuelCellType: FuelCellType
+  private plant: FuelCellPlant
+  private inputs: VirtualPlantInputs = {
+    temperature: null,
+    humidity: null,
+    pressure: null,
+    airFlow: null,
+    purge: false,
+    loadFactor: 1
+  }
+  private outputs: VirtualPlantOutputs
+  private faults: FaultInjection[] = []
+  private sensors = new SensorFaultModel([])
+  public time = 0
+
+  constructor(
+    fuelCellType: FuelCellType,
+    nominalConditions: SimulationParameters['nominalConditions'],
+    plantModel: PlantModelType = 'TRANSIENT'
+  ) {
+    this.fuelCellType = fuelCellType
+    this.plant = plantModel === 'TRANSIENT'
+      ? new TransientFuelCellModel(fuelCellType, nominalConditions)
+      : new FuelCellSystemModel(fuelCellType, nominalConditions)
+    // Settle for an instant so the first reading reflects the nominal load
+    this.outputs = this.toOutputs(this.plant.step(1e-3, this.controlInputs()))
+  }
+
+  public get nominalCurrent(): number {
+    return this.plant.nominalCurrent
+  }
+
+  public setInputs(inputs: Partial<VirtualPlantInputs>): void {
+    this.inputs = { ...this.inputs, ...inputs }
+  }
+
+  public getInputs(): VirtualPlantInputs {
+    return { ...this.inputs }
+  }
+
+  /** Replace the injected faults; throws for faults that do not apply to this fuel cell type. */
+  public setFaults(faults: FaultInjection[]): void {
+    faults.forEach(fault => validateFaultInjection(fault, this.fuelCellType))
+    this.faults = [...faults]
+    this.sensors = new SensorFaultModel(this.faults)
+  }
+
+  public getFaults(): FaultInjection[] {
+    return [...this.faults]
+  }
+
+  public step(dt: number, disturbance?: SystemDisturbance): VirtualPlantOutputs {
+    const result = this.plant.step(dt, this.controlInputs(), disturbance, stackFaultEffects(this.faults, this.time))
+    this.outputs = this.toOutputs(result)
+    this.time += dt
+    return this.read()
+  }
+
+  public read(): VirtualPlantOutputs {
+    return this.sensors.apply({ ...this.outputs }, this.time)
+  }
+
+  private controlInputs(): PlantControlInputs {
+    return {
+      thermalControl: this.inputs.temperature,
+      humidityControl: this.inputs.humidity,
+      pressureControl: this.inputs.pressure,
+      airFlowControl: this.inputs.airFlow,
+      purgeSignal: this.inputs.purge,
+      loadFactor: Math.max(0, this.inputs.loadFactor)
+    }
+  }
+
+  private toOutputs(result: PlantStepResult): VirtualPlantOutputs {
+    const state = this.plant.getState()
+    return {
+      temperature: result.temperature,
+      humidity: result.humidity,
+      pressure: result.pressure,
+      voltage: result.stackVoltage,
+      current: result.current,
+      power: result.power,
+      efficiency: result.efficiency,
+      airFlow: state.airFlow,
+      nitrogenFraction: state.nitrogenFraction
+    }
   }
 }
 
@@ -358,54 +1384,107 @@ export class ControlSystemSimulationEngine {
     fuelCellType: FuelCellType,
     parameters: SimulationParameters
   ): Promise<ControlSystemSimulationResult> {
-    const startTime = Date.now()
+    return this.run(config, fuelCellType, parameters).result
+  }
+  
+  /**
+   * Drive one loop's actuator from `command` (open-loop steps, relay tests)
+   * while the other loops run as configured. Commands are clamped and
+   * rate-limited by the loop's constraints, like a controller output.
+   */
+  public static runLoopExperiment(
+    config: ControlSystemConfig,
+    fuelCellType: FuelCellType,
+    parameters: SimulationParameters,
+    loop: TunableLoop,
+    command: LoopCommand
+  ): LoopExperimentResult {
+    return this.run(config, fuelCellType, parameters, { loop, command }).trace!
+  }
+  
+  /**
+   * Closed-loop response of one loop under `controller` to a setpoint step,
+   * starting from the nominal operating point.
+   */
+  public static simulateSetpointStep(
+    config: ControlSystemConfig,
+    fuelCellType: FuelCellType,
+    parameters: SimulationParameters,
+    loop: TunableLoop,
+    controller: ControllerConfig,
+    step: { time: number; setpoint: number }
+  ): LoopExperimentResult {
+    const nominal = parameters.nominalConditions[LOOP_MEASUREMENTS[loop]]
+    const feedback = createController({ ...controller, setpoint: nominal })
+    feedback.initialize(nominal)
     
+    return this.runLoopExperiment(config, fuelCellType, parameters, loop, (time, measurement, dt) => {
+      if (time >= step.time) feedback.setSetpoint(step.setpoint)
+      return feedback.update(measurement, dt)
+    })
+  }
+  
+  private static run(
+    config: ControlSystemConfig,
+    fuelCellType: FuelCellType,
+    parameters: SimulationParameters,
+    driver?: { loop: TunableLoop; command: LoopCommand }
+  ): { result: ControlSystemSimulationResult; trace?: LoopExperimentResult } {
     // Initialize system model
-    const systemModel = new FuelCellSystemModel(fuelCellType, parameters.nominalConditions)
+    const plantModel = parameters.plantModel || 'LUMPED'
+    const transientModel = plantModel === 'TRANSIENT'
+      ? new TransientFuelCellModel(fuelCellType, parameters.nominalConditions, parameters.initialConditions, parameters.solverOptions)
+      : null
+    const systemModel: FuelCellPlant = transientModel || new FuelCellSystemModel(fuelCellType, parameters.nominalConditions)
+    
+    // Faults act on the plant; a fault-free twin fed the same commands gives the nominal response
+    const faults = parameters.faults ?? []
+    faults.forEach(fault => validateFaultInjection(fault, fuelCellType))
+    const nominalModel: FuelCellPlant | null = parameters.faults
+      ? plantModel === 'TRANSIENT'
+        ? new TransientFuelCellModel(fuelCellType, parameters.nominalConditions, parameters.initialConditions, parameters.solverOptions)
+        : new FuelCellSystemModel(fuelCellType, parameters.nominalConditions)
+      : null
+    const sensors = createSensors(faults, parameters.measurementNoise ?? {}, parameters.noiseSeed ?? 1)
     
     // Initialize controllers
-    const controllers = {
-      thermal: config.thermal.enabled ? new PIDController(
-        config.thermal.pidParams.kp,
-        config.thermal.pidParams.ki,
-        config.thermal.pidParams.kd,
-        config.thermal.setpoint,
-        config.thermal.constraints
-      ) : null,
-      
-      humidity: config.humidity.enabled ? new PIDController(
-        config.humidity.pidParams.kp,
-        config.humidity.pidParams.ki,
-        config.humidity.pidParams.kd,
-        config.humidity.setpoint,
-        config.humidity.constraints
-      ) : null,
-      
-      pressure: config.pressure.enabled ? new PIDController(
-        config.pressure.pidParams.kp,
-        config.pressure.pidParams.ki,
-        config.pressure.pidParams.kd,
-        config.pressure.setpoint,
-        config.pressure.constraints
-      ) : null,
-      
-      airIntake: config.airIntake.enabled ? new PIDController(
-        config.airIntake.pidParams.kp,
-        config.airIntake.pidParams.ki,
-        config.airIntake.pidParams.kd,
-        config.airIntake.setpoint,
-        config.airIntake.constraints
-      ) : null
+    const controllers: Record<TunableLoop, FeedbackController | null> = {
+      thermal: config.thermal.enabled ? createController(config.thermal) : null,
+      humidity: config.humidity.enabled ? createController(config.humidity) : null,
+      pressure: config.pressure.enabled ? createController(config.pressure) : null,
+      airIntake: config.airIntake.enabled ? createController(config.airIntake) : null
+    }
+    if (driver) {
+      controllers[driver.loop] = new CommandedActuator(driver.command, config[driver.loop].constraints)
     }
     
+    // Both plants take absolute actuator commands, so start each loop at its nominal setting
+    controllers.thermal?.initialize(parameters.nominalConditions.temperature)
+    controllers.humidity?.initialize(parameters.nominalConditions.humidity)
+    controllers.pressure?.initialize(parameters.nominalConditions.pressure)
+    controllers.airIntake?.initialize(parameters.nominalConditions.airFlow)
+    
     // Simulation arrays
     const timeData: number[] = []
     const temperatureData: number[] = []
     const humidityData: number[] = []
     const pressureData: number[] = []
     const powerData: number[] = []
+    const transientData = {
+      stackVoltage: [] as number[],
+      current: [] as number[],
+      membraneWaterContent: [] as number[],
+      cathodePressure: [] as number[],
+      anodePressure: [] as number[],
+      hydrogenPartialPressure: [] as number[],
+      nitrogenFraction: [] as number[]
+    }
+    const trace: LoopExperimentResult = { time: [], measurement: [], command: [] }
+    const measuredSeries = emptyMonitoredSeries()
+    const nominalSeries = emptyMonitoredSeries()
     
     let currentTime = 0
+    let lastCurrent = 0
     let purgeActive = false
     let purgeTimer = 0
     
@@ -422,17 +1501,17 @@ export class ControlSystemSimulationEngine {
         currentTime >= d.startTime && currentTime <= d.startTime + d.duration
       )
       
-      // Update controllers
-      const systemState = systemModel.getState()
+      // Update controllers from what the sensors report
+      const systemState = { ...systemModel.getState(), ...sensors(monitoredReading(systemModel.getState(), lastCurrent), currentTime) }
       
       const thermalControl = controllers.thermal ? 
-        controllers.thermal.update(systemState.temperature, parameters.timeStep) : 0
+        controllers.thermal.update(systemState.temperature, parameters.timeStep) : null
       const humidityControl = controllers.humidity ? 
-        controllers.humidity.update(systemState.humidity, parameters.timeStep) : 0
+        controllers.humidity.update(systemState.humidity, parameters.timeStep) : null
       const pressureControl = controllers.pressure ? 
-        controllers.pressure.update(systemState.pressure, parameters.timeStep) : 0
+        controllers.pressure.update(systemState.pressure, parameters.timeStep) : null
       const airFlowControl = controllers.airIntake ? 
-        controllers.airIntake.update(systemState.airFlow, parameters.timeStep) : 0
+        controllers.airIntake.update(systemState.airFlow, parameters.timeStep) : null
       
       // Purging logic
       if (config.purging.enabled) {
@@ -457,17 +1536,21 @@ export class ControlSystemSimulationEngine {
       }
       
       // Step system model
-      const result = systemModel.step(
-        parameters.timeStep,
-        {
-          thermalControl,
-          humidityControl,
-          pressureControl,
-          airFlowControl,
-          purgeSignal: purgeActive
-        },
-        activeDisturbance
-      )
+      const controlInputs: PlantControlInputs = {
+        thermalControl,
+        humidityControl,
+        pressureControl,
+        airFlowControl,
+        purgeSignal: purgeActive
+      }
+      const result = systemModel.step(parameters.timeStep, controlInputs, activeDisturbance, stackFaultEffects(faults, currentTime))
+      const measured = sensors(monitoredReading(systemModel.getState(), result.current, result), currentTime)
+      lastCurrent = result.current
+      if (nominalModel) {
+        const nominal = nominalModel.step(parameters.timeStep, controlInputs, activeDisturbance)
+        pushMonitored(nominalSeries, currentTime, monitoredReading(nominalModel.getState(), nominal.current, nominal))
+        pushMonitored(measuredSeries, currentTime, measured)
+      }
       
       // Track performance metrics
       const tempError = Math.abs(result.temperature - config.thermal.setpoint)
@@ -486,10 +1569,26 @@ export class ControlSystemSimulationEngine {
       
       // Store data
       timeData.push(currentTime)
-      temperatureData.push(result.temperature)
-      humidityData.push(result.humidity)
-      pressureData.push(result.pressure)
+      temperatureData.push(measured.temperature)
+      humidityData.push(measured.humidity)
+      pressureData.push(measured.pressure)
       powerData.push(result.power)
+      if (driver) {
+        const controls = { thermal: thermalControl, humidity: humidityControl, pressure: pressureControl, airIntake: airFlowControl }
+        trace.time.push(currentTime)
+        trace.measurement.push(systemModel.getState()[LOOP_MEASUREMENTS[driver.loop]])
+        trace.command.push(controls[driver.loop]!)
+      }
+      if (transientModel) {
+        const diagnostics = transientModel.getDiagnostics()
+        transientData.stackVoltage.push(diagnostics.stackVoltage)
+        transientData.current.push(diagnostics.current)
+        transientData.membraneWaterContent.push(diagnostics.membraneWaterContent)
+        transientData.cathodePressure.push(diagnostics.cathodePressure)
+        transientData.anodePressure.push(diagnostics.anodePressure)
+        transientData.hydrogenPartialPressure.push(diagnostics.hydrogenPartialPressure)
+        transientData.nitrogenFraction.push(diagnostics.nitrogenFraction)
+      }
       
       currentTime += parameters.timeStep
     }
@@ -508,7 +1607,7 @@ export class ControlSystemSimulationEngine {
       responseTime
     })
     
-    return {
+    const result: ControlSystemSimulationResult = {
       stability,
       performance,
       efficiency,
@@ -522,8 +1621,67 @@ export class ControlSystemSimulationEngine {
         humidity: humidityData,
         pressure: pressureData,
         power: powerData
-      }
+      },
+      ...(transientModel && {
+        transient: {
+          ...transientData,
+          solverSteps: transientModel.solverSteps,
+          rejectedSteps: transientModel.rejectedSteps
+        }
+      }),
+      ...(nominalModel && {
+        faultSimulation: { faults, measured: measuredSeries, nominal: nominalSeries }
+      })
     }
+    
+    return { result, ...(driver && { trace }) }
+  }
+  
+  /**
+   * Run the same scenario once per strategy on one loop, leaving the other
+   * loops as configured, so strategies see identical disturbances.
+   */
+  public static async compareStrategies(
+    config: ControlSystemConfig,
+    fuelCellType: FuelCellType,
+    parameters: SimulationParameters,
+    loop: ComparableLoop,
+    strategies: ControllerType[] = ['PID', 'FUZZY', 'ADAPTIVE', 'NEURAL']
+  ): Promise<StrategyComparison[]> {
+    const series = { thermal: 'temperature', humidity: 'humidity', pressure: 'pressure' } as const
+    const setpoint = config[loop].setpoint
+    const band = 0.02 * Math.max(Math.abs(setpoint), 1e-6)
+    const comparisons: StrategyComparison[] = []
+    
+    for (const type of strategies) {
+      const result = await this.simulate(
+        { ...config, [loop]: { ...config[loop], enabled: true, type } },
+        fuelCellType,
+        parameters
+      )
+      const errors = result.timeSeriesData[series[loop]].map(value => setpoint - value)
+      
+      // Peak excursion once the setpoint has first been reached
+      const firstReached = errors.findIndex((error, i) =>
+        Math.abs(error) <= band || (i > 0 && Math.sign(error) !== Math.sign(errors[i - 1]))
+      )
+      const peak = firstReached < 0 ? 0 : Math.max(...errors.slice(firstReached).map(Math.abs))
+      const lastOutside = errors.map(error => Math.abs(error) > band).lastIndexOf(true)
+      
+      comparisons.push({
+        type,
+        stability: result.stability,
+        performance: result.performance,
+        overshoot: (peak / Math.max(Math.abs(setpoint), 1e-6)) * 100,
+        settlingTime: lastOutside < 0 ? 0 : lastOutside === errors.length - 1
+          ? parameters.duration
+          : result.timeSeriesData.time[lastOutside + 1],
+        integralAbsoluteError: errors.reduce((sum, error) => sum + Math.abs(error) * parameters.timeStep, 0),
+        finalError: errors.length > 0 ? errors[errors.length - 1] : 0
+      })
+    }
+    
+    return comparisons
   }
   
   private static calculateStability(temperatureData: number[], pressureData: number[]): number {
@@ -698,5 +1856,44 @@ export const SIMULATION_PRESETS = {
       fuelFlow: 5.0,
       airFlow: 25.0
     }
+  },
+  
+  COLD_START: {
+    duration: 900, // 15 minutes
+    timeStep: 0.5,
+    disturbances: [],
+    nominalConditions: {
+      temperature: 80,
+      humidity: 100,
+      pressure: 2.5,
+      fuelFlow: 5.0,
+      airFlow: 25.0
+    },
+    plantModel: 'TRANSIENT' as const,
+    initialConditions: {
+      temperature: 20,
+      membraneWaterContent: 4
+    }
+  },
+  
+  FUEL_STARVATION: {
+    duration: 180,
+    timeStep: 0.1,
+    disturbances: [
+      {
+        type: 'FUEL_INTERRUPTION' as const,
+        magnitude: 1.0,
+        duration: 45,
+        startTime: 60
+      }
+    ],
+    nominalConditions: {
+      temperature: 80,
+      humidity: 100,
+      pressure: 2.5,
+      fuelFlow: 5.0,
+      airFlow: 25.0
+    },
+    plantModel: 'TRANSIENT' as const
   }
 } as const
\ No newline at end of file
@@ -0,0 +1,16 @@
+// ============================================================================
+// CSV EXPORT
+// ============================================================================
+
+// Spreadsheets evaluate cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * One CSV cell: text that a spreadsheet would run as a formula is prefixed
+ * with a quote, then cells containing delimiters are quoted.
+ */
+export function csvCell(value: unknown): string {
+  const raw = value === null || value === undefined ? '' : String(value)
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,567 @@
+import { csvCell } from './csv'
+
+// ============================================================================
+// EXPERIMENT ANALYTICS
+// ============================================================================
+//
+// Derived performance metrics for a measured experiment. Inputs follow the
+// Measurement table (voltage V, current A, power mW, substrate g/L COD) and
+// these optional experiment parameters:
+//   anodeArea       cm²   -> areal power density
+//   reactorVolume   mL    -> volumetric power density
+//   anolyteVolume   mL    -> coulombic efficiency (defaults to reactorVolume)
+//   codInitial      mg/L  -> coulombic efficiency, energy per COD removed
+//   codFinal        mg/L
+
+const FARADAY = 96485 // C/mol e-
+const ELECTRONS_PER_O2 = 4
+const O2_MOLAR_MASS = 32 // g/mol
+
+export interface AnalyticsMeasurement {
+  timestamp: Date
+  voltage: number
+  current: number
+  power: number
+  substrate?: number | null
+}
+
+export interface AnalyticsOptions {
+  rollingWindowMinutes?: number
+  steadyStateWindowHours?: number
+  steadyStateCv?: number // Max coefficient of variation over the window
+  maxSeriesPoints?: number
+}
+
+export interface SeriesStatistics {
+  mean: number
+  std: number
+  min: number
+  max: number
+}
+
+export interface AnalyticsPoint {
+  timestamp: string
+  power: number // mW
+  rollingPower: number // mW
+  cumulativeCharge: number // C
+  cumulativeEnergy: number // Wh
+}
+
+export interface ExperimentAnalytics {
+  window: {
+    start: string | null
+    end: string | null
+    durationHours: number
+    measurementCount: number
+    gapsSkipped: number // Logger outages left out of the integrals
+  }
+  statistics: Record<'voltage' | 'current' | 'power', SeriesStatistics | null>
+  charge: {
+    coulombs: number
+    ampHours: number
+  }
+  energy: {
+    wattHours: number
+    kWhPerKgCod: number | null
+    kWhPerM3: number | null
+  }
+  coulombicEfficiency: {
+    percent: number | null
+    codRemoved: number | null // g/L
+    theoreticalCharge: number | null // C
+    source: 'parameters' | 'measurements' | null
+  }
+  powerDensity: {
+    averageMwPerM2: number | null
+    maxMwPerM2: number | null
+    averageWPerM3: number | null
+    maxWPerM3: number | null
+  }
+  startupLagHours: number | null
+  steadyState: {
+    reached: boolean
+    start: string | null
+    meanPower: number | null // mW
+    coefficientOfVariation: number | null
+  }
+  degradation: {
+    mwPerDay: number | null
+    percentPerDay: number | null // Positive when output is falling
+    fitFrom: string | null
+  }
+  series: AnalyticsPoint[]
+  missingParameters: string[]
+  settings: Required<Omit<AnalyticsOptions, 'maxSeriesPoints'>>
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function numberParameter(parameters: Record<string, unknown>, key: string): number | null {
+  const value = parameters[key]
+  const parsed = typeof value === 'string' ? Number(value) : value
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+interface RunningStatistics {
+  n: number
+  mean: number
+  m2: number // Sum of squared deviations (Welford)
+  min: number
+  max: number
+}
+
+const emptyStatistics = (): RunningStatistics => ({ n: 0, mean: 0, m2: 0, min: Infinity, max: -Infinity })
+
+function addStatistic(stats: RunningStatistics, value: number) {
+  stats.n++
+  const delta = value - stats.mean
+  stats.mean += delta / stats.n
+  stats.m2 += delta * (value - stats.mean)
+  stats.min = Math.min(stats.min, value)
+  stats.max = Math.max(stats.max, value)
+}
+
+function statistics(stats: RunningStatistics): SeriesStatistics | null {
+  if (stats.n === 0) return null
+  return { mean: stats.mean, std: Math.sqrt(stats.m2 / stats.n), min: stats.min, max: stats.max }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+interface TimedValue {
+  time: number // ms
+  value: number
+}
+
+// Array-backed FIFO; shifting a plain array copies it
+class Queue<T> {
+  private items: T[] = []
+  private head = 0
+
+  get length() {
+    return this.items.length - this.head
+  }
+
+  get first(): T {
+    return this.items[this.head]
+  }
+
+  get last(): T {
+    return this.items[this.items.length - 1]
+  }
+
+  push(item: T) {
+    this.items.push(item)
+  }
+
+  shift(): T {
+    const item = this.items[this.head++]
+    if (this.head > 1024 && this.head * 2 > this.items.length) {
+      this.items = this.items.slice(this.head)
+      this.head = 0
+    }
+    return item
+  }
+
+  forEach(callback: (item: T) => void) {
+    for (let i = this.head; i < this.items.length; i++) callback(this.items[i])
+  }
+
+  clear() {
+    this.items = []
+    this.head = 0
+  }
+}
+
+// Least-squares sums for value against days since the first point
+interface LinearSums {
+  origin: number // ms
+  n: number
+  sx: number
+  sy: number
+  sxx: number
+  sxy: number
+}
+
+function startFit(origin: number): LinearSums {
+  return { origin, n: 0, sx: 0, sy: 0, sxx: 0, sxy: 0 }
+}
+
+function addToFit(fit: LinearSums, { time, value }: TimedValue) {
+  const x = (time - fit.origin) / 86400000
+  fit.n++
+  fit.sx += x
+  fit.sy += value
+  fit.sxx += x * x
+  fit.sxy += x * value
+}
+
+function linearFit(fit: LinearSums): { slope: number; intercept: number } | null {
+  if (fit.n < 3) return null
+  const meanX = fit.sx / fit.n
+  const meanY = fit.sy / fit.n
+  const sxx = fit.sxx - fit.n * meanX * meanX
+  const sxy = fit.sxy - fit.n * meanX * meanY
+  if (sxx <= 0) return null
+  const slope = sxy / sxx
+  return { slope, intercept: meanY - slope * meanX }
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Accumulates experiment metrics over measurements added in timestamp order,
+ * so a long series can be read in pages. Charge and energy are trapezoidal
+ * integrals; gaps longer than ten typical sampling intervals (and at least an
+ * hour) are treated as logger outages and not integrated across, with the
+ * typical interval taken from the first page. Start-up lag is the time from
+ * the first reading until the rolling power reaches half its steady-state (or
+ * peak) value. Steady state begins at the first full window whose rolling
+ * power varies by less than steadyStateCv; degradation is the linear trend
+ * from there (or from the peak) onward.
+ *
+ * Memory is bounded by the rolling and steady-state windows and the returned
+ * series, not by the number of measurements.
+ */
+export class ExperimentAnalyzer {
+  private readonly settings: ExperimentAnalytics['settings']
+  private readonly rollingMs: number
+  private readonly windowMs: number
+  private readonly seriesStride: number
+
+  private count = 0
+  private first: AnalyticsMeasurement | null = null
+  private previous: AnalyticsMeasurement | null = null
+  private gapMs: number | null = null
+  private gapsSkipped = 0
+  private charge = 0
+  private energy = 0
+  private readonly stats = { voltage: emptyStatistics(), current: emptyStatistics(), power: emptyStatistics() }
+  private firstSubstrate: number | null = null
+  private lastSubstrate: number | null = null
+  private substrateCount = 0
+
+  private readonly rollingWindow = new Queue<TimedValue>()
+  private rollingSum = 0
+
+  // Rolling power at each new maximum; the first reading past any fraction of the peak is one of them
+  private readonly peaks: TimedValue[] = []
+  private peakFit: LinearSums | null = null
+
+  // Rolling power from the earliest window start still in contention
+  private readonly steadyWindow = new Queue<TimedValue>()
+  private steadySum = 0
+  private steadySumSq = 0
+  private steadySearchDone = false
+  private steady: { start: number; mean: number; cv: number } | null = null
+  private steadyFit: LinearSums | null = null
+
+  private readonly series: AnalyticsPoint[] = []
+  private lastPoint: AnalyticsPoint | null = null
+
+  /**
+   * measurementCount is the expected number of readings, used to spread the
+   * returned series evenly over the experiment.
+   */
+  constructor(
+    private readonly parameters: Record<string, unknown> = {},
+    options: AnalyticsOptions = {},
+    measurementCount = 0
+  ) {
+    this.settings = {
+      rollingWindowMinutes: options.rollingWindowMinutes ?? 60,
+      steadyStateWindowHours: options.steadyStateWindowHours ?? 6,
+      steadyStateCv: options.steadyStateCv ?? 0.05
+    }
+    this.rollingMs = this.settings.rollingWindowMinutes * 60000
+    this.windowMs = this.settings.steadyStateWindowHours * 3600000
+    this.seriesStride = Math.max(1, Math.ceil(measurementCount / (options.maxSeriesPoints ?? 500)))
+  }
+
+  /** Add the next page of measurements, sorted by timestamp. */
+  add(measurements: AnalyticsMeasurement[]) {
+    if (this.gapMs === null) {
+      const times = [this.previous, ...measurements].filter(row => row !== null).map(row => row!.timestamp.getTime())
+      const intervals = times.slice(1).map((time, i) => time - times[i])
+      if (intervals.length > 0) this.gapMs = Math.max(3600000, 10 * median(intervals))
+    }
+    for (const row of measurements) this.addMeasurement(row)
+  }
+
+  private addMeasurement(row: AnalyticsMeasurement) {
+    const time = row.timestamp.getTime()
+    const index = this.count++
+    if (!this.first) this.first = row
+
+    // Integrals
+    const previous = this.previous
+    if (previous) {
+      const dt = (time - previous.timestamp.getTime()) / 1000
+      if (dt * 1000 > (this.gapMs ?? Infinity)) {
+        this.gapsSkipped++
+      } else {
+        this.charge += ((row.current + previous.current) / 2) * dt
+        this.energy += ((row.power + previous.power) / 2) * dt / 1000 / 3600 // mW·s -> Wh
+      }
+    }
+    this.previous = row
+
+    addStatistic(this.stats.voltage, row.voltage)
+    addStatistic(this.stats.current, row.current)
+    addStatistic(this.stats.power, row.power)
+    if (typeof row.substrate === 'number') {
+      if (this.firstSubstrate === null) this.firstSubstrate = row.substrate
+      this.lastSubstrate = row.substrate
+      this.substrateCount++
+    }
+
+    // Trailing time-window mean
+    this.rollingWindow.push({ time, value: row.power })
+    this.rollingSum += row.power
+    while (time - this.rollingWindow.first.time > this.rollingMs) this.rollingSum -= this.rollingWindow.shift().value
+    const rolling: TimedValue = { time, value: this.rollingSum / this.rollingWindow.length }
+
+    // Degradation is fitted from the latest peak until steady state is found
+    if (this.peaks.length === 0 || rolling.value > this.peaks[this.peaks.length - 1].value) {
+      this.peaks.push(rolling)
+      this.peakFit = startFit(time)
+    }
+    addToFit(this.peakFit!, rolling)
+
+    this.closeSteadyWindows(time)
+    if (this.steadyFit) {
+      addToFit(this.steadyFit, rolling)
+    } else if (!this.steadySearchDone) {
+      this.steadyWindow.push(rolling)
+      this.steadySum += rolling.value
+      this.steadySumSq += rolling.value * rolling.value
+    }
+
+    const point: AnalyticsPoint = {
+      timestamp: row.timestamp.toISOString(),
+      power: row.power,
+      rollingPower: rolling.value,
+      cumulativeCharge: this.charge,
+      cumulativeEnergy: this.energy
+    }
+    if (index % this.seriesStride === 0) this.series.push(point)
+    this.lastPoint = point
+  }
+
+  // Judge each window that readings up to `until` can no longer extend
+  private closeSteadyWindows(until: number) {
+    const window = this.steadyWindow
+    while (!this.steadySearchDone && window.length > 0 && until - window.first.time > this.windowMs) {
+      const start = window.first
+      if (window.last.time - start.time < 0.9 * this.windowMs) {
+        this.steadySearchDone = true // No full window left
+        break
+      }
+      const n = window.length
+      const mean = this.steadySum / n
+      const variance = Math.max(0, this.steadySumSq / n - mean * mean)
+      const cv = mean > 0 ? Math.sqrt(variance) / mean : Infinity
+      if (cv <= this.settings.steadyStateCv) {
+        this.steady = { start: start.time, mean, cv }
+        this.steadyFit = startFit(start.time)
+        window.forEach(point => addToFit(this.steadyFit!, point))
+        this.steadySearchDone = true
+        break
+      }
+      window.shift()
+      this.steadySum -= start.value
+      this.steadySumSq -= start.value * start.value
+    }
+    if (this.steadySearchDone) window.clear()
+  }
+
+  /** Metrics for the measurements added so far. */
+  result(): ExperimentAnalytics {
+    this.closeSteadyWindows(Infinity)
+    const { parameters, settings, first, previous: last, steady } = this
+
+    const anodeArea = numberParameter(parameters, 'anodeArea')
+    const reactorVolume = numberParameter(parameters, 'reactorVolume')
+    const anolyteVolume = numberParameter(parameters, 'anolyteVolume') ?? reactorVolume
+    const codInitial = numberParameter(parameters, 'codInitial')
+    const codFinal = parameters.codFinal === 0 ? 0 : numberParameter(parameters, 'codFinal')
+
+    // Start-up lag against the steady-state (or peak) output
+    let startupLagHours: number | null = null
+    const peak = this.peaks.length > 0 ? this.peaks[this.peaks.length - 1] : null
+    const reference = steady?.mean ?? peak?.value ?? 0
+    if (first && reference > 0) {
+      const reached = this.peaks.find(point => point.value >= 0.5 * reference)
+      if (reached) startupLagHours = (reached.time - first.timestamp.getTime()) / 3600000
+    }
+
+    // Degradation trend after steady state begins, else after the peak
+    const fit = steady ? this.steadyFit : this.peakFit
+    let mwPerDay: number | null = null
+    let percentPerDay: number | null = null
+    if (last && fit && last.timestamp.getTime() - fit.origin >= 2 * this.rollingMs) {
+      const line = linearFit(fit)
+      if (line) {
+        mwPerDay = line.slope
+        percentPerDay = line.intercept > 0 ? (-line.slope / line.intercept) * 100 : null
+      }
+    }
+
+    // Coulombic efficiency against COD removed
+    const missingParameters: string[] = []
+    let codRemoved: number | null = null
+    let codSource: ExperimentAnalytics['coulombicEfficiency']['source'] = null
+    if (codInitial !== null && codFinal !== null) {
+      codRemoved = (codInitial - codFinal) / 1000
+      codSource = 'parameters'
+    } else if (this.substrateCount >= 2) {
+      codRemoved = this.firstSubstrate! - this.lastSubstrate!
+      codSource = 'measurements'
+    } else {
+      missingParameters.push('codInitial', 'codFinal')
+    }
+    if (anolyteVolume === null) missingParameters.push('anolyteVolume')
+    if (anodeArea === null) missingParameters.push('anodeArea')
+    if (reactorVolume === null) missingParameters.push('reactorVolume')
+
+    const { charge, energy } = this
+    const volumeL = anolyteVolume !== null ? anolyteVolume / 1000 : null
+    const theoreticalCharge = codRemoved !== null && codRemoved > 0 && volumeL !== null
+      ? (FARADAY * ELECTRONS_PER_O2 * volumeL * codRemoved) / O2_MOLAR_MASS
+      : null
+    const codRemovedKg = codRemoved !== null && codRemoved > 0 && volumeL !== null ? (codRemoved * volumeL) / 1000 : null
+
+    const powerStats = statistics(this.stats.power)
+    const areaM2 = anodeArea !== null ? anodeArea / 1e4 : null
+    const volumeM3 = reactorVolume !== null ? reactorVolume / 1e6 : null
+
+    // The last reading always ends the series
+    const series = this.lastPoint && this.series[this.series.length - 1] !== this.lastPoint
+      ? [...this.series, this.lastPoint]
+      : [...this.series]
+
+    return {
+      window: {
+        start: first ? first.timestamp.toISOString() : null,
+        end: last ? last.timestamp.toISOString() : null,
+        durationHours: first && last ? (last.timestamp.getTime() - first.timestamp.getTime()) / 3600000 : 0,
+        measurementCount: this.count,
+        gapsSkipped: this.gapsSkipped
+      },
+      statistics: {
+        voltage: statistics(this.stats.voltage),
+        current: statistics(this.stats.current),
+        power: powerStats
+      },
+      charge: {
+        coulombs: charge,
+        ampHours: charge / 3600
+      },
+      energy: {
+        wattHours: energy,
+        kWhPerKgCod: codRemovedKg ? energy / 1000 / codRemovedKg : null,
+        kWhPerM3: volumeL !== null ? energy / 1000 / (volumeL / 1000) : null
+      },
+      coulombicEfficiency: {
+        percent: theoreticalCharge ? (charge / theoreticalCharge) * 100 : null,
+        codRemoved,
+        theoreticalCharge,
+        source: codSource
+      },
+      powerDensity: {
+        averageMwPerM2: powerStats && areaM2 ? powerStats.mean / areaM2 : null,
+        maxMwPerM2: powerStats && areaM2 ? powerStats.max / areaM2 : null,
+        averageWPerM3: powerStats && volumeM3 ? powerStats.mean / 1000 / volumeM3 : null,
+        maxWPerM3: powerStats && volumeM3 ? powerStats.max / 1000 / volumeM3 : null
+      },
+      startupLagHours,
+      steadyState: {
+        reached: steady !== null,
+        start: steady ? new Date(steady.start).toISOString() : null,
+        meanPower: steady?.mean ?? null,
+        coefficientOfVariation: steady?.cv ?? null
+      },
+      degradation: {
+        mwPerDay,
+        percentPerDay,
+        fitFrom: fit && mwPerDay !== null ? new Date(fit.origin).toISOString() : null
+      },
+      series,
+      missingParameters,
+      settings: { ...settings }
+    }
+  }
+}
+
+/** Compute experiment metrics from all of its measurements at once. */
+export function analyzeExperiment(
+  measurements: AnalyticsMeasurement[],
+  parameters: Record<string, unknown> = {},
+  options: AnalyticsOptions = {}
+): ExperimentAnalytics {
+  const rows = [...measurements].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  const analyzer = new ExperimentAnalyzer(parameters, options, rows.length)
+  analyzer.add(rows)
+  return analyzer.result()
+}
+
+// ============================================================================
+// REPORT EXPORT
+// ============================================================================
+
+const formatValue = (value: number | null, digits = 4) => (value === null ? '' : Number(value.toPrecision(digits)).toString())
+
+/**
+ * Downloadable report: a metric/value/unit summary followed by the
+ * (downsampled) time series, separated by a blank line.
+ */
+export function experimentAnalyticsToCsv(analytics: ExperimentAnalytics, experimentName: string): string {
+  const { window, charge, energy, coulombicEfficiency, powerDensity, steadyState, degradation, statistics } = analytics
+  const summary: [string, string, string][] = [
+    ['Experiment', csvCell(experimentName), ''],
+    ['Start', window.start ?? '', ''],
+    ['End', window.end ?? '', ''],
+    ['Duration', formatValue(window.durationHours), 'h'],
+    ['Measurements', String(window.measurementCount), ''],
+    ['Gaps skipped', String(window.gapsSkipped), ''],
+    ['Mean voltage', formatValue(statistics.voltage?.mean ?? null), 'V'],
+    ['Mean power', formatValue(statistics.power?.mean ?? null), 'mW'],
+    ['Max power', formatValue(statistics.power?.max ?? null), 'mW'],
+    ['Cumulative charge', formatValue(charge.coulombs), 'C'],
+    ['Energy', formatValue(energy.wattHours), 'Wh'],
+    ['Energy per COD removed', formatValue(energy.kWhPerKgCod), 'kWh/kg COD'],
+    ['Energy per volume', formatValue(energy.kWhPerM3), 'kWh/m³'],
+    ['Coulombic efficiency', formatValue(coulombicEfficiency.percent), '%'],
+    ['COD removed', formatValue(coulombicEfficiency.codRemoved), 'g/L'],
+    ['Average power density', formatValue(powerDensity.averageMwPerM2), 'mW/m²'],
+    ['Max power density', formatValue(powerDensity.maxMwPerM2), 'mW/m²'],
+    ['Average volumetric power', formatValue(powerDensity.averageWPerM3), 'W/m³'],
+    ['Max volumetric power', formatValue(powerDensity.maxWPerM3), 'W/m³'],
+    ['Start-up lag', formatValue(analytics.startupLagHours), 'h'],
+    ['Steady state from', steadyState.start ?? '', ''],
+    ['Steady-state power', formatValue(steadyState.meanPower), 'mW'],
+    ['Degradation', formatValue(degradation.percentPerDay), '%/day']
+  ]
+
+  return [
+    'Metric,Value,Unit',
+    ...summary.map(row => row.join(',')),
+    '',
+    'Timestamp,Power (mW),Rolling Power (mW),Cumulative Charge (C),Cumulative Energy (Wh)',
+    ...analytics.series.map(point => [
+      point.timestamp,
+      formatValue(point.power, 6),
+      formatValue(point.rollingPower, 6),
+      formatValue(point.cumulativeCharge, 6),
+      formatValue(point.cumulativeEnergy, 6)
+    ].join(','))
+  ].join('\n')
+}
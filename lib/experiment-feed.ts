@@ -0,0 +1,174 @@
+import { createHash, randomBytes } from 'crypto'
+import { EventEmitter } from 'events'
+import { z } from 'zod'
+
+// ============================================================================
+// LIVE FEED INTERFACES
+// ============================================================================
+
+export type FeedState = 'live' | 'stale' | 'waiting' | 'offline'
+
+export interface FeedStatus {
+  state: FeedState
+  hasLogger: boolean
+  lastMeasurementAt: string | null
+  secondsSinceLast: number | null
+  expectedIntervalSeconds: number
+  staleAfterSeconds: number
+}
+
+export interface LiveMeasurement {
+  timestamp: string
+  voltage: number
+  current: number
+  power: number
+  temperature: number
+  ph: number
+  substrate: number | null
+}
+
+// ============================================================================
+// INGESTION TOKENS
+// ============================================================================
+
+const TOKEN_PREFIX = 'mfc_'
+
+// Shown to the owner once; only the hash is stored
+export function generateIngestionToken(): string {
+  return TOKEN_PREFIX + randomBytes(24).toString('base64url')
+}
+
+export function hashIngestionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function bearerToken(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+  return match && match[1].startsWith(TOKEN_PREFIX) ? match[1] : null
+}
+
+// ============================================================================
+// LOGGER PAYLOADS
+// ============================================================================
+
+// Loggers post whatever their sensors provide; the rest comes from experiment setpoints
+export const LiveReadingSchema = z.object({
+  timestamp: z.coerce.date().optional(),
+  voltage: z.number().finite().min(-10).max(10),
+  current: z.number().finite().optional(), // A
+  power: z.number().finite().optional(), // mW
+  temperature: z.number().finite().min(-20).max(120).optional(),
+  ph: z.number().finite().min(0).max(14).optional(),
+  substrate: z.number().finite().min(0).optional()
+}).refine(
+  reading => reading.current !== undefined || reading.power !== undefined,
+  { message: 'Provide current or power', path: ['current'] }
+)
+
+export const LivePayloadSchema = z.union([
+  LiveReadingSchema,
+  z.object({ measurements: z.array(LiveReadingSchema).min(1).max(1000) })
+])
+
+export type LiveReading = z.infer<typeof LiveReadingSchema>
+
+// ============================================================================
+// STALE-FEED DETECTION
+// ============================================================================
+
+const DEFAULT_INTERVAL_SECONDS = 60
+const MIN_STALE_SECONDS = 60
+const STALE_INTERVAL_MULTIPLE = 5
+
+/**
+ * Median spacing of recent readings, used as the logger's reporting interval.
+ * Timestamps may be in any order.
+ */
+export function observedInterval(timestamps: Date[]): number | null {
+  if (timestamps.length < 2) return null
+  const sorted = timestamps.map(date => date.getTime()).sort((a, b) => a - b)
+  const gaps = sorted.slice(1).map((time, i) => (time - sorted[i]) / 1000).filter(gap => gap > 0)
+  if (gaps.length === 0) return null
+  gaps.sort((a, b) => a - b)
+  const middle = Math.floor(gaps.length / 2)
+  return gaps.length % 2 ? gaps[middle] : (gaps[middle - 1] + gaps[middle]) / 2
+}
+
+export interface FeedStatusInput {
+  status: string
+  hasLogger: boolean
+  lastMeasurementAt: Date | null
+  recentTimestamps?: Date[]
+  // Experiment parameter overrides
+  parameters?: Record<string, unknown>
+  now?: Date
+}
+
+/**
+ * A running experiment with a logger is stale once nothing has arrived for
+ * five reporting intervals (at least a minute). The interval is the
+ * loggerIntervalSeconds parameter, else the observed cadence, else 60 s;
+ * staleAfterSeconds overrides the threshold outright.
+ */
+export function feedStatus(input: FeedStatusInput): FeedStatus {
+  const now = input.now ?? new Date()
+  const configured = (key: string) => {
+    const value = input.parameters?.[key]
+    return typeof value === 'number' && value > 0 ? value : undefined
+  }
+
+  const expectedIntervalSeconds = configured('loggerIntervalSeconds')
+    ?? observedInterval(input.recentTimestamps ?? [])
+    ?? DEFAULT_INTERVAL_SECONDS
+  const staleAfterSeconds = configured('staleAfterSeconds')
+    ?? Math.max(MIN_STALE_SECONDS, STALE_INTERVAL_MULTIPLE * expectedIntervalSeconds)
+  const secondsSinceLast = input.lastMeasurementAt
+    ? Math.max(0, (now.getTime() - input.lastMeasurementAt.getTime()) / 1000)
+    : null
+
+  let state: FeedState
+  if (!input.hasLogger || input.status !== 'RUNNING') {
+    state = 'offline'
+  } else if (secondsSinceLast === null) {
+    state = 'waiting'
+  } else {
+    state = secondsSinceLast > staleAfterSeconds ? 'stale' : 'live'
+  }
+
+  return {
+    state,
+    hasLogger: input.hasLogger,
+    lastMeasurementAt: input.lastMeasurementAt?.toISOString() ?? null,
+    secondsSinceLast: secondsSinceLast === null ? null : Math.round(secondsSinceLast),
+    expectedIntervalSeconds,
+    staleAfterSeconds
+  }
+}
+
+// ============================================================================
+// IN-PROCESS FANOUT
+// ============================================================================
+
+// Pushes newly stored readings to stream subscribers in the same server
+// process, with the time they were stored. Other instances pick them up
+// through the stream's database polling on Measurement.createdAt.
+const globalForFeed = globalThis as unknown as {
+  measurementFeed: EventEmitter | undefined
+}
+
+const measurementFeed = globalForFeed.measurementFeed ?? new EventEmitter().setMaxListeners(0)
+globalForFeed.measurementFeed = measurementFeed
+
+export function publishMeasurements(experimentId: string, measurements: LiveMeasurement[], storedAt: Date) {
+  if (measurements.length > 0) measurementFeed.emit(experimentId, measurements, storedAt)
+}
+
+export function subscribeToMeasurements(
+  experimentId: string,
+  listener: (measurements: LiveMeasurement[], storedAt: Date) => void
+): () => void {
+  measurementFeed.on(experimentId, listener)
+  return () => {
+    measurementFeed.off(experimentId, listener)
+  }
+}
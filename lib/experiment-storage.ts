@@ -0,0 +1,87 @@
+// ============================================================================
+// BROWSER EXPERIMENT STORAGE
+// ============================================================================
+
+// Experiments used to live only in this key; signed-out visitors still use it
+export const LEGACY_EXPERIMENTS_KEY = 'messai-experiments'
+
+// Local id -> database id for experiments that have been imported
+export const IMPORTED_EXPERIMENTS_KEY = 'messai-experiments-imported'
+
+export interface ExperimentImportResult {
+  imported: { localId: string; id: string }[]
+  skipped: { localId: string; reason: string }[]
+}
+
+export interface NewExperiment {
+  name: string
+  systemId: string
+  parameters: Record<string, unknown>
+}
+
+export function readLocalExperiments(): any[] {
+  return JSON.parse(localStorage.getItem(LEGACY_EXPERIMENTS_KEY) || '[]')
+}
+
+export function getImportedExperimentIds(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(IMPORTED_EXPERIMENTS_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * One-time move of this browser's experiments into the signed-in user's
+ * account. Imported records are removed locally and remembered by id so old
+ * links keep resolving; records the server skipped stay in localStorage.
+ * Returns null when the user is not signed in or the import failed.
+ */
+export async function importLocalExperiments(): Promise<Record<string, string> | null> {
+  const local = readLocalExperiments()
+  if (!Array.isArray(local) || local.length === 0) return getImportedExperimentIds()
+
+  const response = await fetch('/api/experiments/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ experiments: local })
+  })
+  if (!response.ok) return null
+
+  const result: ExperimentImportResult = await response.json()
+  const ids = { ...getImportedExperimentIds() }
+  for (const { localId, id } of result.imported) ids[localId] = id
+  localStorage.setItem(IMPORTED_EXPERIMENTS_KEY, JSON.stringify(ids))
+  localStorage.setItem(
+    LEGACY_EXPERIMENTS_KEY,
+    JSON.stringify(local.filter(experiment => !(experiment?.id in ids)))
+  )
+  return ids
+}
+
+/**
+ * Create an experiment in the database, or in localStorage when nobody is
+ * signed in. Returns the id to open at /experiment/[id].
+ */
+export async function createExperiment(experiment: NewExperiment, localRecord: () => Record<string, unknown>): Promise<string> {
+  const response = await fetch('/api/experiments', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(experiment)
+  })
+
+  if (response.ok) {
+    const created = await response.json()
+    return created.id
+  }
+  if (response.status !== 401) {
+    throw new Error(`Failed to create experiment: ${response.statusText}`)
+  }
+
+  const record = {
+    id: `exp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    ...localRecord()
+  }
+  localStorage.setItem(LEGACY_EXPERIMENTS_KEY, JSON.stringify([...readLocalExperiments(), record]))
+  return record.id
+}
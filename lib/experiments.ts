@@ -0,0 +1,256 @@
+import { z } from 'zod'
+import prisma from './db'
+import { getSystemById, type UnifiedMESSSystem } from './unified-systems-catalog'
+import { feedStatus, type FeedStatus } from './experiment-feed'
+import { parsePrediction, predictExperiment, type PredictionSnapshot } from './model-accuracy'
+import { loadActivePowerModel, type PowerModelArtifact } from './power-model'
+
+// ============================================================================
+// EXPERIMENT INTERFACES
+// ============================================================================
+
+export const EXPERIMENT_STATUSES = ['SETUP', 'RUNNING', 'PAUSED', 'COMPLETED', 'FAILED', 'ARCHIVED'] as const
+
+export type ExperimentStatus = typeof EXPERIMENT_STATUSES[number]
+
+// Row shape returned by prisma.experiment with the design (and optionally owner) included
+export interface ExperimentRecord {
+  id: string
+  name: string
+  userId: string
+  designId: string
+  status: string
+  parameters: string // JSON object
+  isPublic: boolean
+  createdAt: Date
+  updatedAt: Date
+  ingestionTokenHash?: string | null
+  lastMeasurementAt?: Date | null
+  prediction?: string | null // JSON PredictionSnapshot
+  design?: { id: string; name: string; type: string } | null
+  user?: { id: string; name: string | null } | null
+}
+
+export interface ExperimentStats {
+  totalMeasurements: number
+  averagePower: number // mW
+  maxPower: number // mW
+}
+
+export interface ExperimentSummary {
+  id: string
+  name: string
+  status: ExperimentStatus
+  isPublic: boolean
+  designId: string
+  designName: string | null
+  designType: string | null
+  owner: { id: string; name: string | null } | null
+  parameters: Record<string, unknown>
+  createdAt: string
+  updatedAt: string
+  feed: FeedStatus
+  prediction: PredictionSnapshot | null
+  stats?: ExperimentStats
+}
+
+// Data needed to create the MFCDesign row a catalog system's experiments hang off
+export interface DesignRecord {
+  id: string
+  name: string
+  type: string
+  cost: string
+  powerOutput: string
+  materials: string // JSON object
+}
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+// Statuses are stored upper-case; the browser-only records used lower-case
+export const ExperimentStatusSchema = z.string()
+  .transform(status => status.toUpperCase())
+  .pipe(z.enum(EXPERIMENT_STATUSES))
+
+const ParametersSchema = z.record(z.unknown())
+
+export const CreateExperimentSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  // Exactly one design source: a stored MFCDesign or a unified catalog system
+  designId: z.string().min(1).optional(),
+  systemId: z.string().min(1).optional(),
+  parameters: ParametersSchema.default({}),
+  status: ExperimentStatusSchema.default('SETUP'),
+  isPublic: z.boolean().default(false)
+}).refine(
+  request => (request.designId === undefined) !== (request.systemId === undefined),
+  { message: 'Provide exactly one of designId or systemId', path: ['designId'] }
+)
+
+export const UpdateExperimentSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  parameters: ParametersSchema.optional(), // Merged into the stored parameters
+  status: ExperimentStatusSchema.optional(),
+  isPublic: z.boolean().optional()
+}).refine(
+  update => Object.values(update).some(value => value !== undefined),
+  { message: 'Nothing to update' }
+)
+
+// Records written to localStorage('messai-experiments') before experiments were stored server-side
+export const LegacyExperimentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1).max(200),
+  systemId: z.string().optional(),
+  designId: z.string().optional(),
+  designName: z.string().optional(),
+  designType: z.string().optional(),
+  status: z.string().optional(),
+  createdAt: z.string().optional(),
+  parameters: ParametersSchema.optional()
+}).passthrough()
+
+// Records are validated one by one so a single malformed entry does not block the rest
+export const ImportExperimentsSchema = z.object({
+  experiments: z.array(z.unknown()).max(500)
+})
+
+export type CreateExperimentInput = z.infer<typeof CreateExperimentSchema>
+export type UpdateExperimentInput = z.infer<typeof UpdateExperimentSchema>
+export type LegacyExperiment = z.infer<typeof LegacyExperimentSchema>
+
+// ============================================================================
+// RECORD CONVERSION
+// ============================================================================
+
+export function normalizeStatus(status: string | undefined): ExperimentStatus {
+  const parsed = ExperimentStatusSchema.safeParse(status ?? 'SETUP')
+  return parsed.success ? parsed.data : 'SETUP'
+}
+
+export function parseParameters(parameters: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(parameters)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+export function serializeExperiment(record: ExperimentRecord, stats?: ExperimentStats): ExperimentSummary {
+  const parameters = parseParameters(record.parameters)
+  return {
+    id: record.id,
+    name: record.name,
+    status: normalizeStatus(record.status),
+    isPublic: record.isPublic,
+    designId: record.designId,
+    designName: record.design?.name ?? null,
+    designType: record.design?.type ?? null,
+    owner: record.user ? { id: record.user.id, name: record.user.name } : null,
+    parameters,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+    // The token hash itself never leaves the server
+    feed: feedStatus({
+      status: record.status,
+      hasLogger: Boolean(record.ingestionTokenHash),
+      lastMeasurementAt: record.lastMeasurementAt ?? null,
+      parameters
+    }),
+    prediction: parsePrediction(record.prediction),
+    ...(stats && { stats })
+  }
+}
+
+/**
+ * MFCDesign row for a unified catalog system. The catalog id is reused as the
+ * design id so repeated experiments on one system share a single design.
+ */
+export function designFromSystem(system: UnifiedMESSSystem): DesignRecord {
+  const { value, unit, range } = system.powerOutput
+  return {
+    id: system.id,
+    name: system.name,
+    type: system.designType ?? system.systemType,
+    cost: system.cost.value,
+    powerOutput: range ? `${range} ${unit}` : `${value} ${unit}`,
+    materials: JSON.stringify(system.materials)
+  }
+}
+
+export interface DesignSource {
+  designId?: string
+  systemId?: string
+  designName?: string // Legacy records only name the design
+  designType?: string
+}
+
+/**
+ * MFCDesign an experiment should reference, creating the design for catalog
+ * systems on first use. Returns null when nothing matches.
+ */
+export async function resolveDesign(source: DesignSource): Promise<{ id: string; type: string } | null> {
+  const select = { id: true, type: true }
+
+  if (source.designId) {
+    const design = await prisma.mFCDesign.findUnique({ where: { id: source.designId }, select })
+    if (design) return design
+  }
+
+  const system = source.systemId ? getSystemById(source.systemId) : undefined
+  if (system) {
+    const record = designFromSystem(system)
+    return prisma.mFCDesign.upsert({
+      where: { id: record.id },
+      create: record,
+      update: {},
+      select
+    })
+  }
+
+  const byName = [
+    ...(source.designType ? [{ type: source.designType }] : []),
+    ...(source.designName ? [{ name: source.designName }] : [])
+  ]
+  if (byName.length > 0) {
+    const design = await prisma.mFCDesign.findFirst({ where: { OR: byName }, select })
+    if (design) return design
+  }
+
+  return null
+}
+
+// Active trained power model for prediction snapshots; null (the formula) when it cannot be loaded
+export async function loadPredictionModel(): Promise<{ version: number; artifact: PowerModelArtifact } | null> {
+  return loadActivePowerModel().catch(error => {
+    console.error('Failed to load power model, using formula:', error)
+    return null
+  })
+}
+
+// Prediction stored with a new experiment; null when its parameters are outside the model
+export function setupPrediction(
+  parameters: Record<string, unknown>,
+  designType: string | null,
+  model: { version: number; artifact: PowerModelArtifact } | null,
+  at?: Date
+): string | null {
+  const result = predictExperiment(parameters, designType, model, at)
+  return 'prediction' in result ? JSON.stringify(result.prediction) : null
+}
+
+/**
+ * Parameters for an imported browser record. The local id is kept so a
+ * repeated import is recognised instead of duplicating the experiment.
+ */
+export function legacyParameters(experiment: LegacyExperiment): Record<string, unknown> {
+  return { ...(experiment.parameters ?? {}), legacyId: experiment.id }
+}
+
+export function legacyCreatedAt(experiment: LegacyExperiment): Date | undefined {
+  if (!experiment.createdAt) return undefined
+  const date = new Date(experiment.createdAt)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
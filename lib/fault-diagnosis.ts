@@ -0,0 +1,303 @@
+import { FuelCellType } from './types/fuel-cell-types'
+import {
+  FAULT_CATALOGUE,
+  FAULT_TYPES,
+  MONITORED_SIGNALS,
+  faultSignature,
+  isSensorFault,
+  type FaultInjection,
+  type FaultSignature,
+  type FaultType,
+  type MonitoredSeries,
+  type MonitoredSignal
+} from './fuel-cell-faults'
+
+// ============================================================================
+// DIAGNOSIS INTERFACES
+// ============================================================================
+
+export interface DiagnosisOptions {
+  fuelCellType?: FuelCellType // Limits isolation to faults that apply
+  signals?: MonitoredSignal[] // Defaults to every monitored signal
+  trainingWindow?: number // s of fault-free data at the start used for residual statistics, default 20
+  threshold?: number // Threshold test limit in σ, default 5
+  persistence?: number // Consecutive samples beyond the threshold to alarm, default 3
+  cusumDrift?: number // CUSUM allowance ν in σ, default 0.5
+  cusumThreshold?: number // CUSUM decision interval h in σ, default 12
+  onsetWindow?: number // s after onset compared to the next window to tell abrupt from gradual, default 10
+}
+
+export type DetectionTest = 'THRESHOLD' | 'CUSUM'
+
+export interface SignalDiagnosis {
+  alarmed: boolean
+  direction: -1 | 0 | 1 // Sign of the residual (measured minus nominal) at the alarm
+  detectionTime: number | null // s
+  onsetTime: number | null // s; CUSUM change point, else the start of the threshold excursion
+  test: DetectionTest | null // Which test alarmed first
+  bias: number // Residual mean over the training window
+  sigma: number // Residual standard deviation over the training window, floored at sensor resolution
+  peakScore: number // Largest |residual - bias| / σ
+}
+
+export interface FaultCandidate {
+  fault: FaultType
+  sensor?: MonitoredSignal
+  score: number // 0-1, agreement of the alarms with the fault signature and onset
+}
+
+export interface FaultDiagnosis {
+  detected: boolean
+  fault: FaultType | null
+  sensor?: MonitoredSignal
+  onsetTime: number | null // s
+  detectionTime: number | null // s
+  onsetType: 'ABRUPT' | 'GRADUAL' | null
+  confidence: number // 0-1
+  candidates: FaultCandidate[] // Best first
+  signals: Record<MonitoredSignal, SignalDiagnosis>
+}
+
+export interface DiagnosisEvaluation {
+  detected: boolean
+  falseAlarm: boolean // Alarm with no fault injected, or before the first one began
+  detectionDelay: number | null // s from the first injected fault to detection
+  onsetError: number | null // s, estimated minus injected onset
+  correctIsolation: boolean
+}
+
+// Smallest residual standard deviation assumed per signal, about one sensor count
+const RESOLUTION_FLOOR: Record<MonitoredSignal, number> = {
+  voltage: 0.05, // V
+  current: 0.05, // A
+  temperature: 0.05, // °C
+  humidity: 0.2, // %
+  pressure: 0.002, // bar
+  airFlow: 0.1 // L/min
+}
+
+const ABRUPT_RATIO = 0.6 // Mean |residual| just after onset relative to the window after it
+const ONSET_MISMATCH_PENALTY = 0.5
+const CANDIDATE_COUNT = 5
+
+// ============================================================================
+// FAULT DETECTION AND ISOLATION
+// ============================================================================
+
+/**
+ * Detect and isolate a fault from measured signals and the nominal model's
+ * response to the same inputs. Residuals are normalised by their statistics
+ * over the (fault-free) training window; each signal alarms on a persistent
+ * threshold crossing or a two-sided CUSUM. The alarm pattern is matched
+ * against the fault signatures, with the onset shape breaking ties.
+ */
+export function diagnoseFaults(measured: MonitoredSeries, nominal: MonitoredSeries, options: DiagnosisOptions = {}): FaultDiagnosis {
+  const length = Math.min(measured.time.length, nominal.time.length)
+  if (length < 2) throw new Error('Invalid diagnosis input: need at least two samples')
+  const time = measured.time.slice(0, length)
+  const signals = options.signals ?? MONITORED_SIGNALS
+
+  // Runs shorter than the training window train on their first tenth
+  const trainingEnd = time.findIndex(t => t > time[0] + (options.trainingWindow ?? 20))
+  const training = trainingEnd === -1 ? Math.max(2, Math.floor(length / 10)) : Math.max(2, trainingEnd)
+
+  const residuals = {} as Record<MonitoredSignal, number[]>
+  const diagnoses = {} as Record<MonitoredSignal, SignalDiagnosis>
+  for (const signal of MONITORED_SIGNALS) {
+    residuals[signal] = time.map((_, i) => measured[signal][i] - nominal[signal][i])
+    diagnoses[signal] = signals.includes(signal)
+      ? detectChange(time, residuals[signal], training, RESOLUTION_FLOOR[signal], options)
+      : quietSignal()
+  }
+
+  const alarmed = signals.filter(signal => diagnoses[signal].alarmed)
+  if (alarmed.length === 0) {
+    return {
+      detected: false,
+      fault: null,
+      onsetTime: null,
+      detectionTime: null,
+      onsetType: null,
+      confidence: 0,
+      candidates: [],
+      signals: diagnoses
+    }
+  }
+
+  const detectionTime = Math.min(...alarmed.map(signal => diagnoses[signal].detectionTime!))
+  const onsetTime = Math.min(...alarmed.map(signal => diagnoses[signal].onsetTime!))
+  const dominant = alarmed.reduce((best, signal) => diagnoses[signal].peakScore > diagnoses[best].peakScore ? signal : best)
+  const onsetType = classifyOnset(time, residuals[dominant], diagnoses[dominant], options.onsetWindow ?? 10)
+
+  const candidates = isolationCandidates(options.fuelCellType)
+    .map(({ fault, sensor }) => ({
+      fault,
+      ...(sensor && { sensor }),
+      score: candidateScore(fault, sensor, diagnoses, signals, onsetType, measured)
+    }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CANDIDATE_COUNT)
+
+  const [best, second] = candidates
+  return {
+    detected: true,
+    fault: best?.fault ?? null,
+    ...(best?.sensor && { sensor: best.sensor }),
+    onsetTime,
+    detectionTime,
+    onsetType,
+    // A close runner-up halves the confidence
+    confidence: best ? best.score * (1 - 0.5 * (second?.score ?? 0) / best.score) : 0,
+    candidates,
+    signals: diagnoses
+  }
+}
+
+/** Score a diagnosis against the faults that were actually injected. */
+export function evaluateDiagnosis(diagnosis: FaultDiagnosis, injected: FaultInjection[]): DiagnosisEvaluation {
+  const first = injected.length > 0 ? injected.reduce((a, b) => a.startTime <= b.startTime ? a : b) : null
+  const falseAlarm = diagnosis.detected && (!first || diagnosis.detectionTime! < first.startTime)
+
+  return {
+    detected: diagnosis.detected,
+    falseAlarm,
+    detectionDelay: diagnosis.detected && first && !falseAlarm ? diagnosis.detectionTime! - first.startTime : null,
+    onsetError: diagnosis.detected && first ? diagnosis.onsetTime! - first.startTime : null,
+    correctIsolation: diagnosis.detected && injected.some(fault =>
+      fault.type === diagnosis.fault && (!isSensorFault(fault.type) || (fault.sensor ?? 'temperature') === diagnosis.sensor))
+  }
+}
+
+// ============================================================================
+// CHANGE DETECTION
+// ============================================================================
+
+function quietSignal(): SignalDiagnosis {
+  return { alarmed: false, direction: 0, detectionTime: null, onsetTime: null, test: null, bias: 0, sigma: 0, peakScore: 0 }
+}
+
+function detectChange(
+  time: number[],
+  residual: number[],
+  training: number,
+  floor: number,
+  options: DiagnosisOptions
+): SignalDiagnosis {
+  const threshold = options.threshold ?? 5
+  const persistence = options.persistence ?? 3
+  const drift = options.cusumDrift ?? 0.5
+  const decision = options.cusumThreshold ?? 12
+
+  const window = residual.slice(0, training)
+  const bias = window.reduce((sum, value) => sum + value, 0) / window.length
+  const variance = window.reduce((sum, value) => sum + (value - bias) ** 2, 0) / Math.max(1, window.length - 1)
+  const sigma = Math.max(Math.sqrt(variance), floor)
+
+  let run = 0
+  let runDirection = 0
+  let positive = 0
+  let negative = 0
+  let positiveStart = training
+  let negativeStart = training
+  let peakScore = 0
+  let alarm: Pick<SignalDiagnosis, 'direction' | 'detectionTime' | 'onsetTime' | 'test'> | null = null
+
+  for (let i = training; i < residual.length; i++) {
+    const z = (residual[i] - bias) / sigma
+    peakScore = Math.max(peakScore, Math.abs(z))
+    if (alarm) continue
+
+    // Threshold test with persistence: the excursion starts at its first sample
+    const direction = Math.abs(z) > threshold ? Math.sign(z) : 0
+    run = direction !== 0 && direction === runDirection ? run + 1 : direction !== 0 ? 1 : 0
+    runDirection = direction
+    if (run >= persistence) {
+      alarm = { direction: direction as -1 | 1, detectionTime: time[i], onsetTime: time[i - run + 1], test: 'THRESHOLD' }
+      continue
+    }
+
+    // Two-sided CUSUM; the change point is where the statistic last left zero
+    positive = Math.max(0, positive + z - drift)
+    negative = Math.max(0, negative - z - drift)
+    if (positive === 0) positiveStart = i + 1
+    if (negative === 0) negativeStart = i + 1
+    if (positive > decision || negative > decision) {
+      const up = positive > decision
+      const start = Math.min(up ? positiveStart : negativeStart, i)
+      alarm = { direction: up ? 1 : -1, detectionTime: time[i], onsetTime: time[start], test: 'CUSUM' }
+    }
+  }
+
+  return alarm
+    ? { alarmed: true, ...alarm, bias, sigma, peakScore }
+    : { alarmed: false, direction: 0, detectionTime: null, onsetTime: null, test: null, bias, sigma, peakScore }
+}
+
+// A step settles at once, a drift keeps growing: compare the mean residual
+// just after onset with the window that follows
+function classifyOnset(time: number[], residual: number[], signal: SignalDiagnosis, window: number): 'ABRUPT' | 'GRADUAL' | null {
+  const onset = signal.onsetTime!
+  const meanShift = (from: number, to: number) => {
+    const values = residual.filter((_, i) => time[i] >= from && time[i] < to).map(value => Math.abs(value - signal.bias))
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+  }
+  const early = meanShift(onset, onset + window)
+  const late = meanShift(onset + window, onset + 2 * window)
+  if (early === null || late === null || late === 0) return null
+  return early / late >= ABRUPT_RATIO ? 'ABRUPT' : 'GRADUAL'
+}
+
+// ============================================================================
+// FAULT ISOLATION
+// ============================================================================
+
+function isolationCandidates(fuelCellType?: FuelCellType): { fault: FaultType; sensor?: MonitoredSignal }[] {
+  return FAULT_TYPES
+    .filter(fault => !fuelCellType || FAULT_CATALOGUE[fault].fuelCellTypes.includes(fuelCellType))
+    .flatMap((fault): { fault: FaultType; sensor?: MonitoredSignal }[] => isSensorFault(fault)
+      ? MONITORED_SIGNALS.map(sensor => ({ fault, sensor }))
+      : [{ fault }])
+}
+
+function candidateScore(
+  fault: FaultType,
+  sensor: MonitoredSignal | undefined,
+  diagnoses: Record<MonitoredSignal, SignalDiagnosis>,
+  signals: MonitoredSignal[],
+  onsetType: 'ABRUPT' | 'GRADUAL' | null,
+  measured: MonitoredSeries
+): number {
+  const signature: FaultSignature = faultSignature(fault, sensor)
+  let matched = 0
+  let considered = 0
+  let symptoms = 0 // Expected deviations that showed
+
+  for (const signal of signals) {
+    const expected = signature[signal]
+    if (expected === null || expected === undefined) continue
+    const { alarmed, direction } = diagnoses[signal]
+    considered++
+    if (expected === 0 ? !alarmed : alarmed && direction === expected) matched++
+    if (expected !== 0 && alarmed && direction === expected) symptoms++
+  }
+
+  if (sensor) {
+    // The faulty sensor itself must alarm; a stuck one reads flat once it has
+    if (!signals.includes(sensor) || !diagnoses[sensor].alarmed) return 0
+    if (isFlat(measured, sensor, diagnoses[sensor].detectionTime!) !== (fault === 'SENSOR_STUCK')) return 0
+    matched++
+    considered++
+    symptoms++
+  }
+  if (considered === 0 || symptoms === 0) return 0
+
+  const expectedOnset = FAULT_CATALOGUE[fault].onset
+  const onsetFactor = onsetType && expectedOnset !== 'ANY' && expectedOnset !== onsetType ? ONSET_MISMATCH_PENALTY : 1
+  return matched / considered * onsetFactor
+}
+
+function isFlat(series: MonitoredSeries, signal: MonitoredSignal, from: number): boolean {
+  const values = series[signal].filter((_, i) => series.time[i] >= from)
+  return values.length > 1 && values.every(value => value === values[values.length - 1])
+}
@@ -0,0 +1,295 @@
+import { FuelCellType, type FuelCellMeasurementData } from './types/fuel-cell-types'
+import {
+  FuelCellModelingEngine,
+  type ElectrochemicalConditions,
+  type ElectrochemicalParameters
+} from './fuel-cell-predictions'
+import { invertMatrix, jacobian, levenbergMarquardt, multiplyTransposed } from './least-squares'
+
+// ============================================================================
+// CALIBRATION INTERFACES
+// ============================================================================
+
+export type CalibratableParameter = keyof ElectrochemicalParameters
+
+export interface CalibrationPoint {
+  currentDensity: number // A/cm²
+  voltage: number // V per cell
+}
+
+export interface CalibrationConditions extends ElectrochemicalConditions {
+  cellCount: number
+  activeArea: number // cm²
+}
+
+export interface CalibrationRequest {
+  conditions: CalibrationConditions // Conditions the measurements were taken at
+  points: CalibrationPoint[]
+  fitParameters?: CalibratableParameter[] // Defaults to i0, Tafel slope, ASR and limiting current
+}
+
+export interface ParameterEstimate {
+  estimate: number
+  standardError: number | null // null when the data cannot identify the parameter
+  lower: number | null // 95% confidence bounds
+  upper: number | null
+}
+
+export interface CalibrationStatistics {
+  points: number
+  degreesOfFreedom: number
+  sse: number // V²
+  rmse: number // V
+  rSquared: number
+  maxAbsoluteResidual: number // V
+  iterations: number
+  converged: boolean
+}
+
+export interface CalibrationResidual {
+  currentDensity: number
+  measured: number
+  predicted: number
+  residual: number
+}
+
+export interface CalibrationResult {
+  fuelCellType: FuelCellType
+  parameters: ElectrochemicalParameters // Reference conditions; pass as `electrochemicalParameters`
+  effectiveParameters: ElectrochemicalParameters // At the measured conditions
+  fittedParameters: CalibratableParameter[]
+  confidenceIntervals: Partial<Record<CalibratableParameter, ParameterEstimate>> // Reference conditions
+  statistics: CalibrationStatistics
+  residuals: CalibrationResidual[]
+}
+
+const DEFAULT_FIT_PARAMETERS: CalibratableParameter[] = [
+  'exchangeCurrentDensity',
+  'tafelSlope',
+  'areaSpecificResistance',
+  'limitingCurrentDensity'
+]
+
+// Two-sided 95% Student-t quantiles for 1-30 degrees of freedom
+const T_QUANTILES_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042
+]
+
+// ============================================================================
+// CALIBRATION ENGINE
+// ============================================================================
+
+export class FuelCellCalibrationEngine {
+  /**
+   * Fit electrochemical parameters to measured I-V points with Levenberg-Marquardt.
+   * Parameters are searched in transformed space (log for positive quantities, and
+   * the limiting current kept above the highest measured current) so every trial
+   * point is physical; confidence intervals are mapped back through the transform.
+   */
+  static calibrate(request: CalibrationRequest): CalibrationResult {
+    const { conditions } = request
+    const fitParameters = [...new Set(request.fitParameters ?? DEFAULT_FIT_PARAMETERS)]
+    const points = this.validatePoints(request.points, fitParameters.length)
+
+    const defaults = FuelCellModelingEngine.getDefaultElectrochemicalParameters(conditions.fuelCellType)
+    const defaultsEffective = FuelCellModelingEngine.resolveElectrochemicalParameters(conditions, defaults)
+    const maxCurrentDensity = Math.max(...points.map(point => point.currentDensity))
+
+    const transforms = fitParameters.map(name => this.getTransform(name, maxCurrentDensity))
+    const toParameters = (theta: number[]): ElectrochemicalParameters => {
+      const params = { ...defaultsEffective }
+      fitParameters.forEach((name, k) => { params[name] = transforms[k].toValue(theta[k]) })
+      return params
+    }
+    const residualsAt = (theta: number[]) => {
+      const params = toParameters(theta)
+      return points.map(point => point.voltage - FuelCellModelingEngine.calculateCellVoltage(point.currentDensity, params).voltage)
+    }
+
+    // Multi-start over exchange current density, which is the least well-conditioned parameter
+    const initial = fitParameters.map((name, k) => {
+      const value = name === 'limitingCurrentDensity'
+        ? Math.max(defaultsEffective.limitingCurrentDensity, maxCurrentDensity * 1.2)
+        : defaultsEffective[name]
+      return transforms[k].toTheta(value)
+    })
+    const i0Index = fitParameters.indexOf('exchangeCurrentDensity')
+    const starts = i0Index < 0
+      ? [initial]
+      : [0, Math.log(100), -Math.log(100)].map(shift => initial.map((v, k) => (k === i0Index ? v + shift : v)))
+
+    let best = levenbergMarquardt(residualsAt, starts[0])
+    for (const start of starts.slice(1)) {
+      const candidate = levenbergMarquardt(residualsAt, start)
+      if (candidate.sse < best.sse) best = candidate
+    }
+
+    const effectiveParameters = toParameters(best.theta)
+    const parameters = this.toReferenceParameters(effectiveParameters, defaults, defaultsEffective)
+    const toReference = (name: CalibratableParameter, value: number) => name === 'openCircuitVoltage'
+      ? value + defaults.openCircuitVoltage - defaultsEffective.openCircuitVoltage
+      : value * defaults[name] / defaultsEffective[name]
+
+    // Covariance of the transformed parameters: s²(JᵀJ)⁻¹
+    const n = points.length
+    const degreesOfFreedom = n - fitParameters.length
+    const residualVariance = best.sse / degreesOfFreedom
+    const covariance = invertMatrix(multiplyTransposed(jacobian(residualsAt, best.theta, best.residuals)))
+    const tQuantile = degreesOfFreedom <= T_QUANTILES_95.length ? T_QUANTILES_95[degreesOfFreedom - 1] : 1.96
+
+    const confidenceIntervals: Partial<Record<CalibratableParameter, ParameterEstimate>> = {}
+    fitParameters.forEach((name, k) => {
+      const variance = covariance ? covariance[k][k] * residualVariance : NaN
+      const thetaError = Number.isFinite(variance) && variance >= 0 ? Math.sqrt(variance) : null
+      const estimate = parameters[name]
+      if (thetaError === null) {
+        confidenceIntervals[name] = { estimate, standardError: null, lower: null, upper: null }
+        return
+      }
+
+      // Delta method for the standard error, transformed bounds for the interval
+      const atTheta = (theta: number) => toReference(name, transforms[k].toValue(theta))
+      const derivative = (atTheta(best.theta[k] + 1e-6) - atTheta(best.theta[k] - 1e-6)) / 2e-6
+      const bounds = [-1, 1].map(sign => atTheta(best.theta[k] + sign * tQuantile * thetaError))
+      confidenceIntervals[name] = {
+        estimate,
+        standardError: Math.abs(derivative) * thetaError,
+        lower: Math.min(...bounds),
+        upper: Math.max(...bounds)
+      }
+    })
+
+    const meanVoltage = points.reduce((sum, point) => sum + point.voltage, 0) / n
+    const sst = points.reduce((sum, point) => sum + (point.voltage - meanVoltage) ** 2, 0)
+
+    return {
+      fuelCellType: conditions.fuelCellType,
+      parameters,
+      effectiveParameters,
+      fittedParameters: fitParameters,
+      confidenceIntervals,
+      statistics: {
+        points: n,
+        degreesOfFreedom,
+        sse: best.sse,
+        rmse: Math.sqrt(best.sse / n),
+        rSquared: sst > 0 ? 1 - best.sse / sst : 1,
+        maxAbsoluteResidual: Math.max(...best.residuals.map(Math.abs)),
+        iterations: best.iterations,
+        converged: best.converged
+      },
+      residuals: points.map((point, i) => ({
+        currentDensity: point.currentDensity,
+        measured: point.voltage,
+        predicted: point.voltage - best.residuals[i],
+        residual: best.residuals[i]
+      }))
+    }
+  }
+
+  /**
+   * Parse I-V data from CSV. Recognised columns (case and unit suffix insensitive):
+   * current density (A/cm²) or current (A), and cell voltage or stack voltage (V).
+   * The polarization curve export from `polarizationCurveToCsv` round-trips.
+   */
+  static parseCsv(csv: string, stack: { cellCount: number; activeArea: number }): CalibrationPoint[] {
+    const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'))
+    if (lines.length < 2) {
+      throw new Error('Invalid calibration data: CSV needs a header row and at least one data row')
+    }
+
+    const header = lines[0].split(',').map(column => column.trim().toLowerCase().replace(/[^a-z]/g, ''))
+    const find = (predicate: (column: string) => boolean) => header.findIndex(predicate)
+    const densityColumn = find(column => column.startsWith('currentdensity'))
+    const currentColumn = find(column => column.startsWith('current') && !column.startsWith('currentdensity'))
+    const cellVoltageColumn = find(column => column.startsWith('cellvoltage'))
+    const stackVoltageColumn = find(column => column.startsWith('stackvoltage') || column.startsWith('voltage'))
+
+    if (densityColumn < 0 && currentColumn < 0) {
+      throw new Error('Invalid calibration data: CSV needs a current_density or current column')
+    }
+    if (cellVoltageColumn < 0 && stackVoltageColumn < 0) {
+      throw new Error('Invalid calibration data: CSV needs a cell_voltage or voltage column')
+    }
+
+    return lines.slice(1).map((line, row) => {
+      const values = line.split(',').map(value => parseFloat(value))
+      const currentDensity = densityColumn >= 0 ? values[densityColumn] : values[currentColumn] / stack.activeArea
+      const voltage = cellVoltageColumn >= 0 ? values[cellVoltageColumn] : values[stackVoltageColumn] / stack.cellCount
+      if (!Number.isFinite(currentDensity) || !Number.isFinite(voltage)) {
+        throw new Error(`Invalid calibration data: non-numeric value on CSV row ${row + 2}`)
+      }
+      return { currentDensity, voltage }
+    })
+  }
+
+  /**
+   * Convert stack-level measurement rows to per-cell I-V points.
+   */
+  static fromMeasurements(
+    measurements: Pick<FuelCellMeasurementData, 'voltage' | 'current' | 'currentDensity'>[],
+    stack: { cellCount: number; activeArea: number }
+  ): CalibrationPoint[] {
+    return measurements.map(measurement => ({
+      currentDensity: measurement.currentDensity ?? measurement.current / stack.activeArea,
+      voltage: measurement.voltage / stack.cellCount
+    }))
+  }
+
+  // ==========================================================================
+  // FITTING HELPERS
+  // ==========================================================================
+
+  private static validatePoints(points: CalibrationPoint[], parameterCount: number): CalibrationPoint[] {
+    const minimum = Math.max(3, parameterCount + 1)
+    if (points.length < minimum) {
+      throw new Error(`Invalid calibration data: fitting ${parameterCount} parameters needs at least ${minimum} points`)
+    }
+    if (points.some(point => !Number.isFinite(point.currentDensity) || !Number.isFinite(point.voltage))) {
+      throw new Error('Invalid calibration data: points must be finite numbers')
+    }
+    if (points.some(point => point.currentDensity < 0 || point.voltage <= 0)) {
+      throw new Error('Invalid calibration data: current density must be non-negative and voltage positive')
+    }
+    if (new Set(points.map(point => point.currentDensity)).size < 2) {
+      throw new Error('Invalid calibration data: points must span more than one current density')
+    }
+    return [...points].sort((a, b) => a.currentDensity - b.currentDensity)
+  }
+
+  private static getTransform(
+    name: CalibratableParameter,
+    maxCurrentDensity: number
+  ): { toValue: (theta: number) => number; toTheta: (value: number) => number } {
+    switch (name) {
+      case 'openCircuitVoltage':
+        return { toValue: theta => theta, toTheta: value => value }
+      case 'limitingCurrentDensity':
+        // Keep the limiting current strictly above the highest measured current
+        return {
+          toValue: theta => maxCurrentDensity * (1 + Math.exp(theta)),
+          toTheta: value => Math.log(Math.max(value / maxCurrentDensity - 1, 1e-6))
+        }
+      default:
+        return { toValue: theta => Math.exp(theta), toTheta: value => Math.log(value) }
+    }
+  }
+
+  private static toReferenceParameters(
+    effective: ElectrochemicalParameters,
+    defaults: ElectrochemicalParameters,
+    defaultsEffective: ElectrochemicalParameters
+  ): ElectrochemicalParameters {
+    // Condition corrections are multiplicative, except the additive Nernst/entropy shift on OCV
+    return {
+      openCircuitVoltage: effective.openCircuitVoltage + defaults.openCircuitVoltage - defaultsEffective.openCircuitVoltage,
+      exchangeCurrentDensity: effective.exchangeCurrentDensity * defaults.exchangeCurrentDensity / defaultsEffective.exchangeCurrentDensity,
+      tafelSlope: effective.tafelSlope * defaults.tafelSlope / defaultsEffective.tafelSlope,
+      areaSpecificResistance: effective.areaSpecificResistance * defaults.areaSpecificResistance / defaultsEffective.areaSpecificResistance,
+      limitingCurrentDensity: effective.limitingCurrentDensity * defaults.limitingCurrentDensity / defaultsEffective.limitingCurrentDensity,
+      concentrationCoefficient: effective.concentrationCoefficient * defaults.concentrationCoefficient / defaultsEffective.concentrationCoefficient
+    }
+  }
+}
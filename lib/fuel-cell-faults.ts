@@ -0,0 +1,247 @@
+import { FuelCellType } from './types/fuel-cell-types'
+
+// ============================================================================
+// FAULT TYPES
+// ============================================================================
+
+export type StackFaultType = 'MEMBRANE_DEHYDRATION' | 'FLOODING' | 'CO_POISONING' | 'CELL_REVERSAL' | 'COMPRESSOR_FAILURE'
+export type SensorFaultType = 'SENSOR_DRIFT' | 'SENSOR_STUCK'
+export type FaultType = StackFaultType | SensorFaultType
+
+export const FAULT_TYPES: FaultType[] = [
+  'MEMBRANE_DEHYDRATION', 'FLOODING', 'CO_POISONING', 'CELL_REVERSAL', 'COMPRESSOR_FAILURE', 'SENSOR_DRIFT', 'SENSOR_STUCK'
+]
+
+// Measurements a diagnoser can watch, and the sensors a sensor fault can hit
+export type MonitoredSignal = 'voltage' | 'current' | 'temperature' | 'humidity' | 'pressure' | 'airFlow'
+
+export const MONITORED_SIGNALS: MonitoredSignal[] = ['voltage', 'current', 'temperature', 'humidity', 'pressure', 'airFlow']
+
+export type MonitoredSeries = { time: number[] } & Record<MonitoredSignal, number[]>
+
+export interface FaultInjection {
+  type: FaultType
+  severity: number // 0-1
+  startTime: number // seconds
+  duration?: number // seconds; lasts to the end when omitted
+  rampTime?: number // seconds to full severity; abrupt when omitted
+  sensor?: MonitoredSignal // Sensor faults only, defaults to temperature
+}
+
+/**
+ * Expected residual direction (measured minus nominal model) per signal:
+ * 1 or -1 must show, 0 must stay quiet, null is not informative. Sensor
+ * fault signatures are built per sensor.
+ */
+export type FaultSignature = Partial<Record<MonitoredSignal, -1 | 0 | 1 | null>>
+
+export interface FaultModel {
+  name: string
+  category: 'STACK' | 'BALANCE_OF_PLANT' | 'SENSOR'
+  description: string
+  fuelCellTypes: FuelCellType[]
+  onset: 'ABRUPT' | 'GRADUAL' | 'ANY' // Typical development of the fault, used for isolation
+  signature: FaultSignature
+}
+
+const ALL_TYPES: FuelCellType[] = ['PEM', 'SOFC', 'PAFC', 'MCFC', 'AFC']
+const LOW_TEMPERATURE_TYPES: FuelCellType[] = ['PEM', 'PAFC', 'AFC']
+
+// ============================================================================
+// FAULT CATALOGUE
+// ============================================================================
+
+export const FAULT_CATALOGUE: Record<FaultType, FaultModel> = {
+  MEMBRANE_DEHYDRATION: {
+    name: 'Membrane dehydration',
+    category: 'STACK',
+    description: 'Humidifier failure dries the inlet gas; membrane water content falls and ohmic resistance rises',
+    fuelCellTypes: ['PEM', 'AFC'],
+    onset: 'ANY', // Inlet humidity drops at once, the membrane dries out over its hydration time
+    signature: { voltage: -1, humidity: -1, pressure: 0, airFlow: 0, current: 0, temperature: null }
+  },
+  FLOODING: {
+    name: 'Cathode flooding',
+    category: 'STACK',
+    description: 'Liquid water blocks the gas diffusion layer and channels: mass transport losses and cathode pressure drop rise',
+    fuelCellTypes: LOW_TEMPERATURE_TYPES,
+    onset: 'ANY',
+    signature: { voltage: -1, pressure: 1, humidity: 0, airFlow: 0, current: null, temperature: null }
+  },
+  CO_POISONING: {
+    name: 'CO poisoning',
+    category: 'STACK',
+    description: 'CO in the fuel adsorbs on the anode catalyst; activation overpotential builds up with coverage',
+    fuelCellTypes: LOW_TEMPERATURE_TYPES,
+    onset: 'GRADUAL',
+    signature: { voltage: -1, pressure: 0, humidity: 0, airFlow: 0, current: 0, temperature: null }
+  },
+  CELL_REVERSAL: {
+    name: 'Cell reversal',
+    category: 'STACK',
+    description: 'Fuel-starved cells are driven to negative voltage by the rest of the stack',
+    fuelCellTypes: ALL_TYPES,
+    onset: 'ABRUPT',
+    signature: { voltage: -1, pressure: 0, humidity: 0, airFlow: 0, current: 0, temperature: null }
+  },
+  COMPRESSOR_FAILURE: {
+    name: 'Compressor failure',
+    category: 'BALANCE_OF_PLANT',
+    description: 'The air compressor delivers only part of the commanded flow; cathode pressure falls and the stack starves',
+    fuelCellTypes: ALL_TYPES,
+    onset: 'ANY',
+    signature: { airFlow: -1, pressure: -1, humidity: null, current: null, voltage: null, temperature: null }
+  },
+  SENSOR_DRIFT: {
+    name: 'Sensor drift',
+    category: 'SENSOR',
+    description: 'A measurement offset grows steadily while the process is unaffected',
+    fuelCellTypes: ALL_TYPES,
+    onset: 'GRADUAL',
+    signature: {}
+  },
+  SENSOR_STUCK: {
+    name: 'Stuck sensor',
+    category: 'SENSOR',
+    description: 'A measurement freezes at its last value',
+    fuelCellTypes: ALL_TYPES,
+    onset: 'ANY', // The residual grows only as the true value moves away
+    signature: {}
+  }
+}
+
+export function isSensorFault(type: FaultType): type is SensorFaultType {
+  return FAULT_CATALOGUE[type].category === 'SENSOR'
+}
+
+/** Residual directions for a fault; for sensor faults only that sensor moves, either way. */
+export function faultSignature(type: FaultType, sensor?: MonitoredSignal): FaultSignature {
+  if (!isSensorFault(type)) return FAULT_CATALOGUE[type].signature
+  return Object.fromEntries(MONITORED_SIGNALS.map(signal => [signal, signal === (sensor ?? 'temperature') ? null : 0]))
+}
+
+export function validateFaultInjection(fault: FaultInjection, fuelCellType: FuelCellType) {
+  const model = FAULT_CATALOGUE[fault.type]
+  if (!model) throw new Error(`Invalid fault type ${fault.type}`)
+  if (!model.fuelCellTypes.includes(fuelCellType)) {
+    throw new Error(`Invalid fault ${fault.type}: ${model.name.toLowerCase()} does not apply to ${fuelCellType} fuel cells`)
+  }
+  if (fault.sensor && !isSensorFault(fault.type)) throw new Error(`Invalid fault ${fault.type}: only sensor faults take a sensor`)
+}
+
+// ============================================================================
+// PLANT EFFECTS
+// ============================================================================
+
+export interface PlantFaultEffects {
+  humidityFactor: number // Multiplies inlet relative humidity
+  transportFactor: number // Multiplies limiting current density
+  cathodeFlowFactor: number // Multiplies cathode outlet conductance
+  anodeOverpotential: number // V per cell
+  reversedCells: number
+  airFlowFactor: number // Delivered fraction of the commanded air flow
+}
+
+export const NO_FAULT_EFFECTS: PlantFaultEffects = {
+  humidityFactor: 1,
+  transportFactor: 1,
+  cathodeFlowFactor: 1,
+  anodeOverpotential: 0,
+  reversedCells: 0,
+  airFlowFactor: 1
+}
+
+const CO_COVERAGE_TIME_CONSTANT = 60 // s
+const MAX_CO_OVERPOTENTIAL = 0.15 // V per cell at full severity and coverage
+const MAX_REVERSED_CELLS = 5
+export const REVERSED_CELL_VOLTAGE = -0.6 // V
+
+function isActive(fault: FaultInjection, time: number): boolean {
+  return time >= fault.startTime && (fault.duration === undefined || time < fault.startTime + fault.duration)
+}
+
+// Severity after the ramp, 0 outside the fault window
+function currentSeverity(fault: FaultInjection, time: number): number {
+  if (!isActive(fault, time)) return 0
+  const ramp = fault.rampTime && fault.rampTime > 0 ? Math.min(1, (time - fault.startTime) / fault.rampTime) : 1
+  return Math.max(0, Math.min(1, fault.severity)) * ramp
+}
+
+/** Combined effect of the active stack and balance-of-plant faults at `time`. */
+export function stackFaultEffects(faults: FaultInjection[], time: number): PlantFaultEffects {
+  const effects = { ...NO_FAULT_EFFECTS }
+
+  for (const fault of faults) {
+    const severity = currentSeverity(fault, time)
+    if (severity === 0) continue
+
+    switch (fault.type) {
+      case 'MEMBRANE_DEHYDRATION':
+        effects.humidityFactor *= 1 - 0.7 * severity
+        break
+      case 'FLOODING':
+        effects.transportFactor *= 1 - 0.6 * severity
+        effects.cathodeFlowFactor *= 1 - 0.5 * severity
+        break
+      case 'CO_POISONING': {
+        const coverage = 1 - Math.exp(-(time - fault.startTime) / CO_COVERAGE_TIME_CONSTANT)
+        effects.anodeOverpotential += MAX_CO_OVERPOTENTIAL * severity * coverage
+        break
+      }
+      case 'CELL_REVERSAL':
+        effects.reversedCells += Math.max(1, Math.round(MAX_REVERSED_CELLS * severity))
+        break
+      case 'COMPRESSOR_FAILURE':
+        effects.airFlowFactor *= 1 - 0.8 * severity
+        break
+    }
+  }
+  return effects
+}
+
+// ============================================================================
+// SENSOR FAULTS
+// ============================================================================
+
+// Drift per minute at full severity
+const SENSOR_DRIFT_RATES: Record<MonitoredSignal, number> = {
+  voltage: 1, // V
+  current: 1, // A
+  temperature: 2, // °C
+  humidity: 5, // %
+  pressure: 0.05, // bar
+  airFlow: 2 // L/min
+}
+
+/**
+ * Turns true plant readings into what the sensors report. Stateful: a stuck
+ * sensor holds the value it read when the fault began.
+ */
+export class SensorFaultModel {
+  private held = new Map<FaultInjection, number>()
+
+  constructor(private faults: FaultInjection[]) {}
+
+  public apply<T extends Partial<Record<MonitoredSignal, number>>>(reading: T, time: number): T {
+    const measured: Record<string, number | undefined> = { ...reading }
+
+    for (const fault of this.faults) {
+      if (!isSensorFault(fault.type)) continue
+      const sensor = fault.sensor ?? 'temperature'
+      const value = measured[sensor]
+      if (value === undefined) continue
+
+      if (!isActive(fault, time)) {
+        this.held.delete(fault)
+        continue
+      }
+      if (fault.type === 'SENSOR_STUCK') {
+        if (!this.held.has(fault)) this.held.set(fault, value)
+        measured[sensor] = this.held.get(fault)
+      } else {
+        measured[sensor] = value + currentSeverity(fault, time) * SENSOR_DRIFT_RATES[sensor] * (time - fault.startTime) / 60
+      }
+    }
+    return measured as T
+  }
+}
@@ -1,5 +1,7 @@
-import { FuelCellType, ModelFidelity } from './types/fuel-cell-types'
+import { FuelCellType } from './types/fuel-cell-types'
 import { FuelCellPredictionInput, FuelCellModelingEngine } from './fuel-cell-predictions'
+import { FuelCellSensitivityEngine } from './fuel-cell-sensitivity'
+import { GaussianProcess, GaussianProcessPrediction, KernelType, normalCdf, normalPdf } from './gaussian-process'
 
 // ============================================================================
 // OPTIMIZATION INTERFACES
@@ -48,12 +50,44 @@ export interface OptimizationConstraints {
 }
 
 export interface OptimizationParameters {
-  algorithm: 'GRADIENT_DESCENT' | 'GENETIC_ALGORITHM' | 'PARTICLE_SWARM' | 'SIMULATED_ANNEALING' | 'BAYESIAN'
+  algorithm: 'GRADIENT_DESCENT' | 'GENETIC_ALGORITHM' | 'PARTICLE_SWARM' | 'SIMULATED_ANNEALING' | 'BAYESIAN' | 'NSGA_II'
   maxIterations: number
   convergenceTolerance: number
-  populationSize?: number // For GA and PSO
+  populationSize?: number // For GA, PSO and NSGA-II
   temperatureSchedule?: 'LINEAR' | 'EXPONENTIAL' | 'ADAPTIVE' // For SA
-  acquisitionFunction?: 'EI' | 'PI' | 'UCB' // For Bayesian
+  acquisitionFunction?: AcquisitionFunction // For Bayesian
+  kernelType?: KernelType // For Bayesian
+}
+
+export type AcquisitionFunction = 'EI' | 'PI' | 'UCB'
+
+export interface ParetoPoint {
+  power: number // W
+  efficiency: number // %
+  cost: number // $
+  durability: number // hours
+  crowdingDistance: number // -1 marks boundary points (infinite distance)
+  parameters: FuelCellPredictionInput
+}
+
+export interface SurrogateSummary {
+  kernel: KernelType
+  acquisitionFunction: AcquisitionFunction
+  lengthScales: Record<string, number> // Normalised units; short = objective sensitive to the variable
+  signalVariance: number
+  noiseVariance: number
+  logMarginalLikelihood: number
+  optimumStdDev: number // Surrogate uncertainty at the reported optimum
+  samples: {
+    iteration: number
+    predictedMean: number
+    predictedStdDev: number
+    observedValue: number
+  }[]
+  slices: {
+    parameter: string
+    points: { value: number; mean: number; stdDev: number }[]
+  }[]
 }
 
 export interface OptimizationResult {
@@ -67,12 +101,8 @@ export interface OptimizationResult {
     objectiveValue: number
     parameters: Partial<FuelCellPredictionInput>
   }[]
-  paretoFront?: { // For multi-objective
-    power: number
-    efficiency: number
-    cost: number
-    parameters: FuelCellPredictionInput
-  }[]
+  paretoFront?: ParetoPoint[] // For multi-objective
+  surrogate?: SurrogateSummary // For Bayesian
   sensitivity?: {
     parameter: string
     sensitivity: number
@@ -84,6 +114,31 @@ export interface OptimizationResult {
 // OPTIMIZATION ALGORITHMS
 // ============================================================================
 
+type ContinuousParameter = 'cellCount' | 'activeArea' | 'operatingTemperature' |
+  'operatingPressure' | 'humidity' | 'fuelFlowRate' | 'airFlowRate'
+
+type CategoricalParameter = 'anodeCatalyst' | 'cathodeCatalyst' | 'membraneType'
+
+const MATERIAL_LABELS: Record<CategoricalParameter, string> = {
+  anodeCatalyst: 'Anode catalyst',
+  cathodeCatalyst: 'Cathode catalyst',
+  membraneType: 'Membrane'
+}
+
+interface CategoricalGene {
+  name: CategoricalParameter
+  options: string[]
+}
+
+// Categorical genes are searched as ordinal indices into their option list
+interface SearchBound {
+  name: ContinuousParameter | CategoricalParameter
+  min: number
+  max: number
+  integer: boolean
+  options?: string[]
+}
+
 abstract class OptimizationAlgorithm {
   protected objective: OptimizationObjective
   protected constraints: OptimizationConstraints
@@ -105,6 +160,19 @@ abstract class OptimizationAlgorithm {
   abstract optimize(initialGuess: FuelCellPredictionInput): Promise<OptimizationResult>
   
   protected async evaluateObjective(params: FuelCellPredictionInput): Promise<number> {
+    const value = await this.calculateObjective(params)
+    
+    // Penalize designs over budget so single-objective searches respect the cost cap
+    const maxCost = Math.min(this.objective.targets?.maxCost ?? Infinity, this.constraints.maxSystemCost ?? Infinity)
+    if (Number.isFinite(maxCost)) {
+      const excess = (this.calculateSystemCost(params) - maxCost) / maxCost
+      if (excess > 0) return value + Math.max(Math.abs(value), 1) * (1 + 10 * excess)
+    }
+    
+    return value
+  }
+  
+  private async calculateObjective(params: FuelCellPredictionInput): Promise<number> {
     const prediction = await FuelCellModelingEngine.getPrediction(params)
     
     switch (this.objective.type) {
@@ -155,9 +223,18 @@ abstract class OptimizationAlgorithm {
     }
     
     // Check material constraints
-    if (this.constraints.availableMaterials) {
-      if (params.anodeCatalyst && !this.constraints.availableMaterials.anodeCatalysts?.includes(params.anodeCatalyst)) {
-        violations.push(`Anode catalyst ${params.anodeCatalyst} not available`)
+    for (const gene of this.getCategoricalGenes()) {
+      const material = params[gene.name]
+      if (material && !gene.options.includes(material)) {
+        violations.push(`${MATERIAL_LABELS[gene.name]} ${material} not available`)
+      }
+    }
+
+    // Check economic constraints
+    if (this.constraints.maxSystemCost) {
+      const cost = this.calculateSystemCost(params)
+      if (cost > this.constraints.maxSystemCost) {
+        violations.push(`System cost $${Math.round(cost)} exceeds maximum $${this.constraints.maxSystemCost}`)
       }
     }
     
@@ -183,24 +260,10 @@ abstract class OptimizationAlgorithm {
     const cellCost = 50 * params.cellCount
     const areaCost = 10 * params.activeArea
     
-    // Material costs
-    const catalystCosts: Record<string, number> = {
-      'pt-c': 100,
-      'pt-alloy': 80,
-      'non-pgm': 20,
-      'ni-based': 10
-    }
-    
-    const membraneCosts: Record<string, number> = {
-      'nafion': 50,
-      'pfsa': 40,
-      'hydrocarbon': 30,
-      'ceramic': 60
-    }
-    
-    const anodeCost = (params.anodeCatalyst ? catalystCosts[params.anodeCatalyst] || 50 : 50) * params.activeArea
-    const cathodeCost = (params.cathodeCatalyst ? catalystCosts[params.cathodeCatalyst] || 50 : 50) * params.activeArea
-    const membraneCost = (params.membraneType ? membraneCosts[params.membraneType] || 40 : 40) * params.activeArea
+    // Material costs come from the modeling engine's material database
+    const anodeCost = (FuelCellModelingEngine.getCatalystProperties(params.anodeCatalyst)?.cost ?? 50) * params.activeArea
+    const cathodeCost = (FuelCellModelingEngine.getCatalystProperties(params.cathodeCatalyst)?.cost ?? 50) * params.activeArea
+    const membraneCost = (FuelCellModelingEngine.getMembraneProperties(params.membraneType)?.cost ?? 40) * params.activeArea
     
     return baseCost + cellCost + areaCost + anodeCost + cathodeCost + membraneCost
   }
@@ -223,10 +286,91 @@ abstract class OptimizationAlgorithm {
     if (params.membraneType === 'hydrocarbon') {
       baseDurability *= 0.8 // Hydrocarbon membranes have lower durability
     }
+    if (params.anodeCatalyst === 'non-pgm') {
+      baseDurability *= 0.85 // Non-PGM catalysts degrade faster
+    }
     
     return baseDurability
   }
-  
+
+  protected getCategoricalGenes(): CategoricalGene[] {
+    const materials = this.constraints.availableMaterials
+    if (!materials) return []
+
+    const genes: CategoricalGene[] = [
+      { name: 'anodeCatalyst', options: materials.anodeCatalysts || [] },
+      { name: 'cathodeCatalyst', options: materials.cathodeCatalysts || [] },
+      { name: 'membraneType', options: materials.membraneTypes || [] }
+    ]
+    return genes.filter(gene => gene.options.length > 0)
+  }
+
+  protected getSearchBounds(): SearchBound[] {
+    const categoricalBounds: SearchBound[] = this.getCategoricalGenes().map(gene => ({
+      name: gene.name,
+      min: 0,
+      max: gene.options.length - 1,
+      integer: true,
+      options: gene.options
+    }))
+
+    return [
+      { name: 'cellCount', ...this.constraints.cellCount, integer: true },
+      { name: 'activeArea', ...this.constraints.activeArea, integer: false },
+      { name: 'operatingTemperature', ...this.constraints.temperature, integer: false },
+      { name: 'operatingPressure', ...this.constraints.pressure, integer: false },
+      { name: 'humidity', ...(this.constraints.humidity || { min: 100, max: 100 }), integer: false },
+      { name: 'fuelFlowRate', ...this.constraints.fuelFlowRate, integer: false },
+      { name: 'airFlowRate', ...this.constraints.airFlowRate, integer: false },
+      ...categoricalBounds
+    ]
+  }
+
+  protected sampleBound(bound: SearchBound): number {
+    return bound.options
+      ? Math.floor(Math.random() * bound.options.length)
+      : bound.min + Math.random() * (bound.max - bound.min)
+  }
+
+  protected encodePosition(params: FuelCellPredictionInput, bounds: SearchBound[]): number[] {
+    return bounds.map(bound => {
+      if (bound.options) {
+        return Math.max(0, bound.options.indexOf(params[bound.name] as string))
+      }
+      return this.clampToBound(params[bound.name] as number, bound)
+    })
+  }
+
+  protected clampToBound(value: number, bound: SearchBound): number {
+    const clamped = Math.max(bound.min, Math.min(bound.max, value))
+    return bound.integer ? Math.round(clamped) : clamped
+  }
+
+  protected applyPosition(
+    base: FuelCellPredictionInput,
+    position: number[],
+    bounds: SearchBound[]
+  ): FuelCellPredictionInput {
+    const candidate = { ...base, fuelCellType: this.fuelCellType }
+    bounds.forEach((bound, i) => {
+      const value = this.clampToBound(position[i], bound)
+      if (bound.options) {
+        candidate[bound.name as CategoricalParameter] = bound.options[value]
+      } else {
+        candidate[bound.name as ContinuousParameter] = value
+      }
+    })
+    return candidate
+  }
+
+  protected hasStalled(history: OptimizationResult['convergenceHistory'], window: number): boolean {
+    if (history.length <= window) return false
+    const latest = history[history.length - 1].objectiveValue
+    const previous = history[history.length - 1 - window].objectiveValue
+    const relativeImprovement = (latest - previous) / Math.max(Math.abs(previous), 1)
+    return relativeImprovement < this.parameters.convergenceTolerance
+  }
+
   private getOptimalTemperature(fuelCellType: FuelCellType): number {
     const temps: Record<FuelCellType, number> = {
       PEM: 80,
@@ -447,23 +591,8 @@ class GeneticAlgorithmOptimizer extends OptimizationAlgorithm {
       }
       
       // Random material selection
-      if (this.constraints.availableMaterials) {
-        const materials = this.constraints.availableMaterials
-        if (materials.anodeCatalysts && materials.anodeCatalysts.length > 0) {
-          individual.anodeCatalyst = materials.anodeCatalysts[
-            Math.floor(Math.random() * materials.anodeCatalysts.length)
-          ]
-        }
-        if (materials.cathodeCatalysts && materials.cathodeCatalysts.length > 0) {
-          individual.cathodeCatalyst = materials.cathodeCatalysts[
-            Math.floor(Math.random() * materials.cathodeCatalysts.length)
-          ]
-        }
-        if (materials.membraneTypes && materials.membraneTypes.length > 0) {
-          individual.membraneType = materials.membraneTypes[
-            Math.floor(Math.random() * materials.membraneTypes.length)
-          ]
-        }
+      for (const gene of this.getCategoricalGenes()) {
+        individual[gene.name] = gene.options[Math.floor(Math.random() * gene.options.length)]
       }
       
       population.push(individual)
@@ -507,11 +636,13 @@ class GeneticAlgorithmOptimizer extends OptimizationAlgorithm {
       }
     }
     
-    // Crossover for discrete variables
-    if (Math.random() < 0.5) {
-      const temp = child1.anodeCatalyst
-      child1.anodeCatalyst = child2.anodeCatalyst
-      child2.anodeCatalyst = temp
+    // Uniform crossover for categorical material genes
+    for (const gene of this.getCategoricalGenes()) {
+      if (Math.random() < 0.5) {
+        const temp = child1[gene.name]
+        child1[gene.name] = child2[gene.name]
+        child2[gene.name] = temp
+      }
     }
     
     return [child1, child2]
@@ -541,10 +672,11 @@ class GeneticAlgorithmOptimizer extends OptimizationAlgorithm {
                                               Math.min(this.constraints.temperature.max, mutated.operatingTemperature))
     }
     
-    // Mutate discrete parameters
-    if (Math.random() < rate && this.constraints.availableMaterials?.anodeCatalysts) {
-      const catalysts = this.constraints.availableMaterials.anodeCatalysts
-      mutated.anodeCatalyst = catalysts[Math.floor(Math.random() * catalysts.length)]
+    // Mutate categorical material genes by resampling from the available options
+    for (const gene of this.getCategoricalGenes()) {
+      if (Math.random() < rate) {
+        mutated[gene.name] = gene.options[Math.floor(Math.random() * gene.options.length)]
+      }
     }
     
     return mutated
@@ -562,48 +694,73 @@ class GeneticAlgorithmOptimizer extends OptimizationAlgorithm {
 // ============================================================================
 
 class BayesianOptimizer extends OptimizationAlgorithm {
-  private observations: { params: FuelCellPredictionInput; value: number }[] = []
+  private observations: { position: number[]; params: FuelCellPredictionInput; value: number }[] = []
   
   async optimize(initialGuess: FuelCellPredictionInput): Promise<OptimizationResult> {
+    const acquisitionFunction = this.parameters.acquisitionFunction || 'EI'
+    const kernel = this.parameters.kernelType || 'MATERN_52'
+    const bounds = this.getSearchBounds()
+    const gp = new GaussianProcess({ kernel, inputBounds: this.getFeatureBounds(bounds) })
     const history: OptimizationResult['convergenceHistory'] = []
+    const samples: SurrogateSummary['samples'] = [] // Per-sample observed values of the acquisition steps
     let iteration = 0
     
-    // Initial samples
-    const initialSamples = this.generateInitialSamples(initialGuess, 10)
-    for (const sample of initialSamples) {
-      const value = -(await this.evaluateObjective(sample))
-      this.observations.push({ params: sample, value })
+    // History records the best observation so far, like the other optimizers
+    const observe = (position: number[], params: FuelCellPredictionInput, value: number) => {
+      this.observations.push({ position, params, value })
+      const best = this.bestObservation()
       history.push({
         iteration: iteration++,
-        objectiveValue: value,
-        parameters: { ...sample }
+        objectiveValue: best.value,
+        parameters: { ...best.params }
       })
     }
     
+    // Space-filling initial design, seeded with the initial guess
+    const initialCount = Math.min(this.parameters.maxIterations, 10)
+    const initialPositions = [this.encodePosition(initialGuess, bounds), ...this.latinHypercube(bounds, initialCount - 1)]
+    for (const position of initialPositions) {
+      const params = this.applyPosition(initialGuess, position, bounds)
+      observe(position, params, -(await this.evaluateObjective(params)))
+    }
+    
     // Bayesian optimization loop
     while (iteration < this.parameters.maxIterations) {
-      // Find next point to evaluate using acquisition function
-      const nextPoint = await this.selectNextPoint()
-      const value = -(await this.evaluateObjective(nextPoint))
+      // Re-fit kernel hyperparameters periodically; condition on new data every step
+      gp.fit(
+        this.observations.map(o => this.toFeatures(o.position, bounds)),
+        this.observations.map(o => o.value),
+        (iteration - initialCount) % 5 === 0
+      )
       
-      this.observations.push({ params: nextPoint, value })
-      history.push({
-        iteration: iteration++,
-        objectiveValue: value,
-        parameters: { ...nextPoint }
-      })
+      const currentBest = Math.max(...this.observations.map(o => o.value))
+      const next = this.selectNextPoint(gp, bounds, currentBest, acquisitionFunction)
       
-      // Check convergence
-      if (iteration > 20) {
-        const recentBest = history.slice(-10).map(h => h.objectiveValue)
-        const improvement = Math.max(...recentBest) - Math.min(...recentBest)
-        if (improvement < this.parameters.convergenceTolerance) break
+      // Stop once no candidate is expected to improve meaningfully on the incumbent
+      const expectedGain = this.acquisition('EI', next.prediction, currentBest)
+      if (iteration >= initialCount + 5 &&
+          expectedGain < this.parameters.convergenceTolerance * Math.max(Math.abs(currentBest), 1)) {
+        break
       }
+      
+      const params = this.applyPosition(initialGuess, next.position, bounds)
+      const value = -(await this.evaluateObjective(params))
+      
+      samples.push({
+        iteration,
+        predictedMean: next.prediction.mean,
+        predictedStdDev: Math.sqrt(next.prediction.variance),
+        observedValue: value
+      })
+      observe(next.position, params, value)
     }
     
-    // Find best observation
-    const best = this.observations.reduce((prev, curr) => 
-      curr.value > prev.value ? curr : prev
+    const best = this.bestObservation()
+    
+    // Final fit so the reported surrogate reflects every observation
+    gp.fit(
+      this.observations.map(o => this.toFeatures(o.position, bounds)),
+      this.observations.map(o => o.value)
     )
     
     const violations = this.checkConstraints(best.params)
@@ -614,118 +771,713 @@ class BayesianOptimizer extends OptimizationAlgorithm {
       objectiveValue: best.value,
       constraintViolations: violations,
       iterations: iteration,
-      convergenceHistory: history
+      convergenceHistory: history,
+      surrogate: this.summarizeSurrogate(gp, bounds, best.position, acquisitionFunction, kernel, samples)
     }
   }
   
-  private generateInitialSamples(
-    initialGuess: FuelCellPredictionInput, 
-    count: number
-  ): FuelCellPredictionInput[] {
-    // Latin Hypercube Sampling for better coverage
-    const samples: FuelCellPredictionInput[] = []
-    
-    for (let i = 0; i < count; i++) {
-      const sample: FuelCellPredictionInput = {
-        ...initialGuess,
-        cellCount: Math.round(
-          this.constraints.cellCount.min + 
-          (i + Math.random()) / count * (this.constraints.cellCount.max - this.constraints.cellCount.min)
-        ),
-        activeArea:
-          this.constraints.activeArea.min + 
-          (i + Math.random()) / count * (this.constraints.activeArea.max - this.constraints.activeArea.min),
-        operatingTemperature:
-          this.constraints.temperature.min + 
-          (i + Math.random()) / count * (this.constraints.temperature.max - this.constraints.temperature.min),
-        operatingPressure:
-          this.constraints.pressure.min + 
-          (i + Math.random()) / count * (this.constraints.pressure.max - this.constraints.pressure.min)
+  private bestObservation() {
+    return this.observations.reduce((prev, curr) => 
+      curr.value > prev.value ? curr : prev
+    )
+  }
+  
+  private latinHypercube(bounds: SearchBound[], count: number): number[][] {
+    // One stratified, independently shuffled column per dimension
+    const columns = bounds.map(bound => {
+      const strata = Array.from({ length: count }, (_, i) => i)
+      for (let i = strata.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1))
+        ;[strata[i], strata[j]] = [strata[j], strata[i]]
       }
-      samples.push(sample)
-    }
+      return strata.map(stratum => bound.options
+        ? stratum % bound.options.length
+        : bound.min + ((stratum + Math.random()) / count) * (bound.max - bound.min)
+      )
+    })
     
-    return samples
+    return Array.from({ length: count }, (_, i) => columns.map(column => column[i]))
   }
   
-  private async selectNextPoint(): Promise<FuelCellPredictionInput> {
-    // Simplified acquisition function (Expected Improvement)
-    // In practice, this would use Gaussian Process regression
-    
-    const currentBest = Math.max(...this.observations.map(o => o.value))
-    let bestAcquisition = -Infinity
-    let bestPoint = this.observations[0].params
-    
-    // Sample random points and evaluate acquisition
-    for (let i = 0; i < 100; i++) {
-      const candidate = this.generateRandomPoint()
-      const acquisition = await this.expectedImprovement(candidate, currentBest)
-      
-      if (acquisition > bestAcquisition) {
-        bestAcquisition = acquisition
-        bestPoint = candidate
+  private getFeatureBounds(bounds: SearchBound[]): { min: number; max: number }[] {
+    return bounds.flatMap(bound => bound.options
+      ? bound.options.map(() => ({ min: 0, max: 1 }))
+      : [{ min: bound.min, max: bound.max }]
+    )
+  }
+  
+  private toFeatures(position: number[], bounds: SearchBound[]): number[] {
+    // Continuous values pass through; categorical genes are one-hot encoded
+    return bounds.flatMap((bound, i) => {
+      const value = this.clampToBound(position[i], bound)
+      return bound.options ? bound.options.map((_, k) => (k === value ? 1 : 0)) : [value]
+    })
+  }
+  
+  private selectNextPoint(
+    gp: GaussianProcess,
+    bounds: SearchBound[],
+    currentBest: number,
+    acquisitionFunction: AcquisitionFunction
+  ): { position: number[]; prediction: GaussianProcessPrediction } {
+    const randomCandidates = 300
+    const localCandidates = 100
+    const incumbents = [...this.observations].sort((a, b) => b.value - a.value).slice(0, 5)
+    
+    const candidates: number[][] = []
+    for (let i = 0; i < randomCandidates; i++) {
+      candidates.push(bounds.map(bound => this.sampleBound(bound)))
+    }
+    // Local perturbations around the best observations refine promising regions
+    for (let i = 0; i < localCandidates; i++) {
+      const centre = incumbents[i % incumbents.length].position
+      candidates.push(centre.map((value, d) => {
+        const bound = bounds[d]
+        if (bound.options) return Math.random() < 0.2 ? this.sampleBound(bound) : value
+        return this.clampToBound(value + this.gaussianNoise() * 0.05 * (bound.max - bound.min), bound)
+      }))
+    }
+    
+    let best = { position: candidates[0], prediction: gp.predict(this.toFeatures(candidates[0], bounds)) }
+    let bestScore = -Infinity
+    for (const position of candidates) {
+      const prediction = gp.predict(this.toFeatures(position, bounds))
+      const score = this.acquisition(acquisitionFunction, prediction, currentBest)
+      if (score > bestScore) {
+        bestScore = score
+        best = { position, prediction }
       }
     }
     
-    return bestPoint
+    return best
   }
   
-  private async expectedImprovement(
-    point: FuelCellPredictionInput, 
+  private acquisition(
+    acquisitionFunction: AcquisitionFunction,
+    prediction: GaussianProcessPrediction,
     currentBest: number
-  ): Promise<number> {
-    // Simplified EI calculation
-    // In practice, this would use GP predictions
+  ): number {
+    const stdDev = Math.sqrt(prediction.variance)
+    const xi = 0.01 * Math.max(Math.abs(currentBest), 1) // Exploration margin
+    const z = (prediction.mean - currentBest - xi) / stdDev
     
-    // Find nearest neighbor
-    let minDistance = Infinity
-    let nearestValue = 0
+    switch (acquisitionFunction) {
+      case 'PI':
+        return normalCdf(z)
+      case 'UCB':
+        return prediction.mean + 2 * stdDev
+      case 'EI':
+      default:
+        return (prediction.mean - currentBest - xi) * normalCdf(z) + stdDev * normalPdf(z)
+    }
+  }
+  
+  private summarizeSurrogate(
+    gp: GaussianProcess,
+    bounds: SearchBound[],
+    bestPosition: number[],
+    acquisitionFunction: AcquisitionFunction,
+    kernel: KernelType,
+    samples: SurrogateSummary['samples']
+  ): SurrogateSummary {
+    const hyperparameters = gp.hyperparameters!
+    const optimum = gp.predict(this.toFeatures(bestPosition, bounds))
     
-    for (const obs of this.observations) {
-      const distance = this.calculateDistance(point, obs.params)
-      if (distance < minDistance) {
-        minDistance = distance
-        nearestValue = obs.value
-      }
+    // Report one length scale per design variable (shortest over a gene's one-hot columns)
+    const lengthScales: Record<string, number> = {}
+    let column = 0
+    for (const bound of bounds) {
+      const width = bound.options ? bound.options.length : 1
+      lengthScales[bound.name] = Math.min(...hyperparameters.lengthScales.slice(column, column + width))
+      column += width
     }
     
-    // Simple uncertainty estimate based on distance
-    const uncertainty = minDistance * 10
-    const improvement = Math.max(0, nearestValue - currentBest)
+    // Profile the surrogate along each continuous variable through the optimum
+    const slicePoints = 25
+    const slices = bounds
+      .map((bound, d) => ({ bound, d }))
+      .filter(({ bound }) => !bound.options && bound.max > bound.min)
+      .map(({ bound, d }) => ({
+        parameter: bound.name,
+        points: Array.from({ length: slicePoints }, (_, i) => {
+          const value = bound.min + (i / (slicePoints - 1)) * (bound.max - bound.min)
+          const position = [...bestPosition]
+          position[d] = value
+          const prediction = gp.predict(this.toFeatures(position, bounds))
+          return { value, mean: prediction.mean, stdDev: Math.sqrt(prediction.variance) }
+        })
+      }))
     
-    return improvement + uncertainty
+    return {
+      kernel,
+      acquisitionFunction,
+      lengthScales,
+      signalVariance: hyperparameters.signalVariance,
+      noiseVariance: hyperparameters.noiseVariance,
+      logMarginalLikelihood: gp.logMarginalLikelihood,
+      optimumStdDev: Math.sqrt(optimum.variance),
+      samples,
+      slices
+    }
   }
   
-  private calculateDistance(p1: FuelCellPredictionInput, p2: FuelCellPredictionInput): number {
-    return Math.sqrt(
-      Math.pow((p1.cellCount - p2.cellCount) / 100, 2) +
-      Math.pow((p1.activeArea - p2.activeArea) / 1000, 2) +
-      Math.pow((p1.operatingTemperature - p2.operatingTemperature) / 100, 2) +
-      Math.pow((p1.operatingPressure - p2.operatingPressure) / 10, 2)
-    )
+  private gaussianNoise(): number {
+    // Box-Muller transform
+    const u = 1 - Math.random()
+    const v = Math.random()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
   }
-  
-  private generateRandomPoint(): FuelCellPredictionInput {
+}
+
+// ============================================================================
+// PARTICLE SWARM OPTIMIZER
+// ============================================================================
+
+class ParticleSwarmOptimizer extends OptimizationAlgorithm {
+  async optimize(initialGuess: FuelCellPredictionInput): Promise<OptimizationResult> {
+    const swarmSize = this.parameters.populationSize || 30
+    const inertiaStart = 0.9
+    const inertiaEnd = 0.4
+    const cognitiveWeight = 1.5
+    const socialWeight = 1.5
+    const maxVelocityFraction = 0.2 // Of each parameter's range
+
+    const bounds = this.getSearchBounds()
+    const history: OptimizationResult['convergenceHistory'] = []
+
+    // Initialize swarm, seeding the first particle with the initial guess
+    const particles = Array.from({ length: swarmSize }, (_, i) => {
+      const position = i === 0
+        ? this.encodePosition(initialGuess, bounds)
+        : bounds.map(bound => this.sampleBound(bound))
+      const velocity = bounds.map(bound => (Math.random() - 0.5) * (bound.max - bound.min) * maxVelocityFraction)
+      return { position, velocity, bestPosition: [...position], bestValue: -Infinity }
+    })
+
+    let globalBestPosition = [...particles[0].position]
+    let globalBestValue = -Infinity
+    let iteration = 0
+
+    while (iteration < this.parameters.maxIterations) {
+      // Evaluate particles and update personal/global bests
+      for (const particle of particles) {
+        const value = -(await this.evaluateObjective(this.applyPosition(initialGuess, particle.position, bounds)))
+
+        if (value > particle.bestValue) {
+          particle.bestValue = value
+          particle.bestPosition = [...particle.position]
+        }
+        if (value > globalBestValue) {
+          globalBestValue = value
+          globalBestPosition = [...particle.position]
+        }
+      }
+
+      history.push({
+        iteration,
+        objectiveValue: globalBestValue,
+        parameters: this.applyPosition(initialGuess, globalBestPosition, bounds)
+      })
+
+      // Check convergence
+      if (this.hasStalled(history, 10)) break
+
+      // Linearly decreasing inertia balances exploration and exploitation
+      const inertia = inertiaStart - (inertiaStart - inertiaEnd) * (iteration / this.parameters.maxIterations)
+
+      for (const particle of particles) {
+        bounds.forEach((bound, d) => {
+          const range = bound.max - bound.min
+          const maxVelocity = range * maxVelocityFraction
+
+          let velocity = inertia * particle.velocity[d] +
+            cognitiveWeight * Math.random() * (particle.bestPosition[d] - particle.position[d]) +
+            socialWeight * Math.random() * (globalBestPosition[d] - particle.position[d])
+          velocity = Math.max(-maxVelocity, Math.min(maxVelocity, velocity))
+
+          let position = particle.position[d] + velocity
+          if (position <= bound.min || position >= bound.max) {
+            // Absorbing walls: stop at the boundary and lose momentum
+            position = Math.max(bound.min, Math.min(bound.max, position))
+            velocity = 0
+          }
+
+          particle.velocity[d] = velocity
+          particle.position[d] = position
+        })
+      }
+
+      iteration++
+    }
+
+    const optimizedParameters = this.applyPosition(initialGuess, globalBestPosition, bounds)
+    const violations = this.checkConstraints(optimizedParameters)
+
+    return {
+      success: violations.length === 0,
+      optimizedParameters,
+      objectiveValue: globalBestValue,
+      constraintViolations: violations,
+      iterations: iteration,
+      convergenceHistory: history
+    }
+  }
+}
+
+// ============================================================================
+// SIMULATED ANNEALING OPTIMIZER
+// ============================================================================
+
+class SimulatedAnnealingOptimizer extends OptimizationAlgorithm {
+  async optimize(initialGuess: FuelCellPredictionInput): Promise<OptimizationResult> {
+    const schedule = this.parameters.temperatureSchedule || 'EXPONENTIAL'
+    const maxIterations = this.parameters.maxIterations
+    const bounds = this.getSearchBounds()
+    const history: OptimizationResult['convergenceHistory'] = []
+
+    let currentPosition = this.encodePosition(initialGuess, bounds)
+    let currentValue = -(await this.evaluateObjective(this.applyPosition(initialGuess, currentPosition, bounds)))
+    let bestPosition = [...currentPosition]
+    let bestValue = currentValue
+
+    // Calibrate the starting temperature so ~80% of typical worsening moves are accepted
+    const initialTemperature = await this.estimateInitialTemperature(initialGuess, currentPosition, currentValue, bounds)
+    const finalTemperature = initialTemperature * 1e-3
+    const coolingRate = Math.pow(finalTemperature / initialTemperature, 1 / maxIterations)
+
+    let temperature = initialTemperature
+    let accepted = 0
+    let iteration = 0
+    const adaptiveWindow = 10
+    const targetAcceptance = 0.44
+
+    while (iteration < maxIterations) {
+      // Step size shrinks with temperature, with a floor to keep local refinement alive
+      const stepScale = 0.02 + 0.2 * (temperature / initialTemperature)
+      const candidatePosition = this.perturb(currentPosition, bounds, stepScale)
+      const candidateValue = -(await this.evaluateObjective(this.applyPosition(initialGuess, candidatePosition, bounds)))
+
+      // Metropolis acceptance criterion
+      const delta = candidateValue - currentValue
+      if (delta >= 0 || Math.random() < Math.exp(delta / temperature)) {
+        currentPosition = candidatePosition
+        currentValue = candidateValue
+        accepted++
+
+        if (currentValue > bestValue) {
+          bestValue = currentValue
+          bestPosition = [...currentPosition]
+        }
+      }
+
+      history.push({
+        iteration,
+        objectiveValue: bestValue,
+        parameters: this.applyPosition(initialGuess, bestPosition, bounds)
+      })
+
+      // Stop once the system has frozen and the best value no longer improves
+      if (temperature < initialTemperature * 0.01 && this.hasStalled(history, 20)) break
+
+      iteration++
+
+      switch (schedule) {
+        case 'LINEAR':
+          temperature = initialTemperature - (initialTemperature - finalTemperature) * (iteration / maxIterations)
+          break
+
+        case 'ADAPTIVE':
+          // Cool faster when too many moves are accepted, slower when the walk is stuck
+          if (iteration % adaptiveWindow === 0) {
+            const acceptanceRatio = accepted / adaptiveWindow
+            const factor = acceptanceRatio > targetAcceptance ? coolingRate * coolingRate : Math.sqrt(coolingRate)
+            temperature = Math.max(finalTemperature, temperature * Math.pow(factor, adaptiveWindow))
+            accepted = 0
+          }
+          break
+
+        case 'EXPONENTIAL':
+        default:
+          temperature *= coolingRate
+      }
+    }
+
+    const optimizedParameters = this.applyPosition(initialGuess, bestPosition, bounds)
+    const violations = this.checkConstraints(optimizedParameters)
+
     return {
-      fuelCellType: this.fuelCellType,
-      cellCount: Math.round(
-        this.constraints.cellCount.min + 
-        Math.random() * (this.constraints.cellCount.max - this.constraints.cellCount.min)
-      ),
-      activeArea:
-        this.constraints.activeArea.min + 
-        Math.random() * (this.constraints.activeArea.max - this.constraints.activeArea.min),
-      operatingTemperature:
-        this.constraints.temperature.min + 
-        Math.random() * (this.constraints.temperature.max - this.constraints.temperature.min),
-      operatingPressure:
-        this.constraints.pressure.min + 
-        Math.random() * (this.constraints.pressure.max - this.constraints.pressure.min),
-      humidity: 100,
-      fuelFlowRate: 5,
-      airFlowRate: 25,
-      modelFidelity: 'INTERMEDIATE' as ModelFidelity
+      success: violations.length === 0,
+      optimizedParameters,
+      objectiveValue: bestValue,
+      constraintViolations: violations,
+      iterations: iteration,
+      convergenceHistory: history
+    }
+  }
+
+  private async estimateInitialTemperature(
+    base: FuelCellPredictionInput,
+    position: number[],
+    value: number,
+    bounds: SearchBound[]
+  ): Promise<number> {
+    const samples = 10
+    let totalWorsening = 0
+    let worseningCount = 0
+
+    for (let i = 0; i < samples; i++) {
+      const neighbour = this.perturb(position, bounds, 0.2)
+      const neighbourValue = -(await this.evaluateObjective(this.applyPosition(base, neighbour, bounds)))
+      if (neighbourValue < value) {
+        totalWorsening += value - neighbourValue
+        worseningCount++
+      }
     }
+
+    const meanWorsening = worseningCount > 0 ? totalWorsening / worseningCount : Math.max(Math.abs(value), 1) * 0.1
+    return Math.max(meanWorsening / -Math.log(0.8), 1e-6)
+  }
+
+  private perturb(position: number[], bounds: SearchBound[], scale: number): number[] {
+    return position.map((value, d) => {
+      const bound = bounds[d]
+      // Categorical genes jump to a random option rather than drifting along an arbitrary ordering
+      if (bound.options) {
+        return Math.random() < scale ? this.sampleBound(bound) : value
+      }
+      const range = bound.max - bound.min
+      return Math.max(bound.min, Math.min(bound.max, value + (Math.random() - 0.5) * 2 * scale * range))
+    })
+  }
+}
+
+// ============================================================================
+// NSGA-II MULTI-OBJECTIVE OPTIMIZER
+// ============================================================================
+
+interface ObjectiveVector {
+  power: number
+  efficiency: number
+  cost: number
+  durability: number
+}
+
+interface NSGAIndividual {
+  position: number[]
+  objectives: ObjectiveVector
+  violation: number
+  rank: number
+  crowdingDistance: number
+}
+
+class NSGAIIOptimizer extends OptimizationAlgorithm {
+  private readonly crossoverEta = 15
+  private readonly mutationEta = 20
+  private readonly hypervolumeSamples = 4000
+
+  async optimize(initialGuess: FuelCellPredictionInput): Promise<OptimizationResult> {
+    // Binary tournament needs an even population
+    const populationSize = Math.max(4, 2 * Math.ceil((this.parameters.populationSize || 40) / 2))
+    const bounds = this.getSearchBounds()
+    const history: OptimizationResult['convergenceHistory'] = []
+
+    // Initialize population, seeding the first individual with the initial guess
+    let population: NSGAIndividual[] = []
+    for (let i = 0; i < populationSize; i++) {
+      const position = i === 0
+        ? this.encodePosition(initialGuess, bounds)
+        : bounds.map(bound => this.sampleBound(bound))
+      population.push(await this.evaluateIndividual(initialGuess, position, bounds))
+    }
+    this.assignRanksAndCrowding(population)
+
+    // Fix the hypervolume reference box on the initial population so progress is comparable
+    const normalization = this.buildNormalization(population)
+    const samples = Array.from({ length: this.hypervolumeSamples }, () => [
+      Math.random(), Math.random(), Math.random(), Math.random()
+    ])
+
+    let iteration = 0
+    while (iteration < this.parameters.maxIterations) {
+      const front = population.filter(individual => individual.rank === 0 && individual.violation === 0)
+
+      history.push({
+        iteration,
+        objectiveValue: this.estimateHypervolume(front, normalization, samples),
+        parameters: this.applyPosition(initialGuess, (front[0] || population[0]).position, bounds)
+      })
+
+      // Check convergence once a feasible front exists
+      if (front.length > 0 && this.hasStalled(history, 10)) break
+
+      // Create offspring with binary tournament, SBX crossover and polynomial mutation
+      const offspring: NSGAIndividual[] = []
+      while (offspring.length < populationSize) {
+        const parent1 = this.tournamentSelection(population)
+        const parent2 = this.tournamentSelection(population)
+        const [child1, child2] = this.simulatedBinaryCrossover(parent1.position, parent2.position, bounds)
+
+        offspring.push(await this.evaluateIndividual(initialGuess, this.polynomialMutation(child1, bounds), bounds))
+        offspring.push(await this.evaluateIndividual(initialGuess, this.polynomialMutation(child2, bounds), bounds))
+      }
+
+      // Elitist environmental selection over parents and offspring
+      population = this.selectSurvivors([...population, ...offspring], populationSize)
+      iteration++
+    }
+
+    const feasible = population.filter(individual => individual.violation === 0)
+    const finalFront = (feasible.length > 0 ? feasible : population).filter(individual => individual.rank === 0)
+
+    const paretoFront: ParetoPoint[] = finalFront.map(individual => ({
+      ...individual.objectives,
+      crowdingDistance: Number.isFinite(individual.crowdingDistance) ? individual.crowdingDistance : -1,
+      parameters: this.applyPosition(initialGuess, individual.position, bounds)
+    }))
+
+    // Report the front member that best satisfies the requested scalar objective
+    let best = paretoFront[0]
+    let bestValue = -Infinity
+    for (const point of paretoFront) {
+      const value = -(await this.evaluateObjective(point.parameters))
+      if (value > bestValue) {
+        bestValue = value
+        best = point
+      }
+    }
+
+    const violations = this.checkConstraints(best.parameters)
+
+    return {
+      success: violations.length === 0 && feasible.length > 0,
+      optimizedParameters: best.parameters,
+      objectiveValue: bestValue,
+      constraintViolations: feasible.length > 0 ? violations : [...violations, 'No feasible solution satisfies the targets'],
+      iterations: iteration,
+      convergenceHistory: history,
+      paretoFront
+    }
+  }
+
+  private async evaluateIndividual(
+    base: FuelCellPredictionInput,
+    position: number[],
+    bounds: SearchBound[]
+  ): Promise<NSGAIndividual> {
+    const params = this.applyPosition(base, position, bounds)
+    const prediction = await FuelCellModelingEngine.getPrediction(params)
+    const objectives: ObjectiveVector = {
+      power: prediction.predictedPower,
+      efficiency: prediction.efficiency,
+      cost: this.calculateSystemCost(params),
+      durability: this.estimateDurability(params)
+    }
+
+    // Sum of relative constraint violations for constrained domination
+    let violation = 0
+    const targets = this.objective.targets || {}
+    const maxCost = Math.min(targets.maxCost ?? Infinity, this.constraints.maxSystemCost ?? Infinity)
+    if (objectives.cost > maxCost) violation += (objectives.cost - maxCost) / maxCost
+    if (targets.minPower && objectives.power < targets.minPower) {
+      violation += (targets.minPower - objectives.power) / targets.minPower
+    }
+    if (targets.minEfficiency && objectives.efficiency < targets.minEfficiency) {
+      violation += (targets.minEfficiency - objectives.efficiency) / targets.minEfficiency
+    }
+    if (targets.minDurability && objectives.durability < targets.minDurability) {
+      violation += (targets.minDurability - objectives.durability) / targets.minDurability
+    }
+
+    return { position: bounds.map((bound, i) => this.clampToBound(position[i], bound)), objectives, violation, rank: 0, crowdingDistance: 0 }
+  }
+
+  private dominates(a: NSGAIndividual, b: NSGAIndividual): boolean {
+    // Feasible solutions dominate infeasible ones; infeasible ones compare by violation
+    if (a.violation !== b.violation) return a.violation < b.violation
+
+    const aValues = this.toMaximizationVector(a.objectives)
+    const bValues = this.toMaximizationVector(b.objectives)
+    let strictlyBetter = false
+    for (let i = 0; i < aValues.length; i++) {
+      if (aValues[i] < bValues[i]) return false
+      if (aValues[i] > bValues[i]) strictlyBetter = true
+    }
+    return strictlyBetter
+  }
+
+  private toMaximizationVector(objectives: ObjectiveVector): number[] {
+    return [objectives.power, objectives.efficiency, -objectives.cost, objectives.durability]
+  }
+
+  private fastNonDominatedSort(population: NSGAIndividual[]): NSGAIndividual[][] {
+    const dominatedBy: number[][] = population.map(() => [])
+    const dominationCount = population.map(() => 0)
+    const fronts: number[][] = [[]]
+
+    for (let p = 0; p < population.length; p++) {
+      for (let q = 0; q < population.length; q++) {
+        if (p === q) continue
+        if (this.dominates(population[p], population[q])) {
+          dominatedBy[p].push(q)
+        } else if (this.dominates(population[q], population[p])) {
+          dominationCount[p]++
+        }
+      }
+      if (dominationCount[p] === 0) {
+        population[p].rank = 0
+        fronts[0].push(p)
+      }
+    }
+
+    let current = 0
+    while (fronts[current].length > 0) {
+      const next: number[] = []
+      for (const p of fronts[current]) {
+        for (const q of dominatedBy[p]) {
+          dominationCount[q]--
+          if (dominationCount[q] === 0) {
+            population[q].rank = current + 1
+            next.push(q)
+          }
+        }
+      }
+      current++
+      fronts.push(next)
+    }
+
+    return fronts.filter(front => front.length > 0).map(front => front.map(i => population[i]))
+  }
+
+  private assignCrowdingDistance(front: NSGAIndividual[]): void {
+    front.forEach(individual => { individual.crowdingDistance = 0 })
+    if (front.length <= 2) {
+      front.forEach(individual => { individual.crowdingDistance = Infinity })
+      return
+    }
+
+    for (let m = 0; m < 4; m++) {
+      const sorted = [...front].sort((a, b) =>
+        this.toMaximizationVector(a.objectives)[m] - this.toMaximizationVector(b.objectives)[m]
+      )
+      const min = this.toMaximizationVector(sorted[0].objectives)[m]
+      const max = this.toMaximizationVector(sorted[sorted.length - 1].objectives)[m]
+      const range = max - min || 1
+
+      sorted[0].crowdingDistance = Infinity
+      sorted[sorted.length - 1].crowdingDistance = Infinity
+      for (let i = 1; i < sorted.length - 1; i++) {
+        const previous = this.toMaximizationVector(sorted[i - 1].objectives)[m]
+        const next = this.toMaximizationVector(sorted[i + 1].objectives)[m]
+        sorted[i].crowdingDistance += (next - previous) / range
+      }
+    }
+  }
+
+  private assignRanksAndCrowding(population: NSGAIndividual[]): NSGAIndividual[][] {
+    const fronts = this.fastNonDominatedSort(population)
+    fronts.forEach(front => this.assignCrowdingDistance(front))
+    return fronts
+  }
+
+  private selectSurvivors(combined: NSGAIndividual[], size: number): NSGAIndividual[] {
+    const fronts = this.assignRanksAndCrowding(combined)
+    const survivors: NSGAIndividual[] = []
+
+    for (const front of fronts) {
+      if (survivors.length + front.length <= size) {
+        survivors.push(...front)
+      } else {
+        // Fill the remaining slots with the least crowded members of the last front
+        const remaining = [...front].sort((a, b) => b.crowdingDistance - a.crowdingDistance)
+        survivors.push(...remaining.slice(0, size - survivors.length))
+        break
+      }
+    }
+
+    return survivors
+  }
+
+  private tournamentSelection(population: NSGAIndividual[]): NSGAIndividual {
+    const a = population[Math.floor(Math.random() * population.length)]
+    const b = population[Math.floor(Math.random() * population.length)]
+    if (a.rank !== b.rank) return a.rank < b.rank ? a : b
+    return a.crowdingDistance >= b.crowdingDistance ? a : b
+  }
+
+  private simulatedBinaryCrossover(
+    parent1: number[],
+    parent2: number[],
+    bounds: SearchBound[]
+  ): [number[], number[]] {
+    const child1 = [...parent1]
+    const child2 = [...parent2]
+
+    bounds.forEach((bound, i) => {
+      if (Math.random() > 0.5) return
+      const u = Math.random()
+      const beta = u <= 0.5
+        ? Math.pow(2 * u, 1 / (this.crossoverEta + 1))
+        : Math.pow(1 / (2 * (1 - u)), 1 / (this.crossoverEta + 1))
+
+      child1[i] = Math.max(bound.min, Math.min(bound.max, 0.5 * ((1 + beta) * parent1[i] + (1 - beta) * parent2[i])))
+      child2[i] = Math.max(bound.min, Math.min(bound.max, 0.5 * ((1 - beta) * parent1[i] + (1 + beta) * parent2[i])))
+    })
+
+    return [child1, child2]
+  }
+
+  private polynomialMutation(position: number[], bounds: SearchBound[]): number[] {
+    const rate = 1 / bounds.length
+    return position.map((value, i) => {
+      if (Math.random() >= rate) return value
+      const u = Math.random()
+      const delta = u < 0.5
+        ? Math.pow(2 * u, 1 / (this.mutationEta + 1)) - 1
+        : 1 - Math.pow(2 * (1 - u), 1 / (this.mutationEta + 1))
+      return Math.max(bounds[i].min, Math.min(bounds[i].max, value + delta * (bounds[i].max - bounds[i].min)))
+    })
+  }
+
+  private buildNormalization(population: NSGAIndividual[]): { lower: number[]; upper: number[] } {
+    const vectors = population.map(individual => this.toMaximizationVector(individual.objectives))
+    const lower: number[] = []
+    const upper: number[] = []
+
+    for (let m = 0; m < 4; m++) {
+      const values = vectors.map(v => v[m])
+      const min = Math.min(...values)
+      const max = Math.max(...values)
+      const range = max - min || Math.abs(max) || 1
+      // Reference point sits below the worst initial value; headroom above the best allows progress
+      lower.push(min - 0.1 * range)
+      upper.push(max + 0.5 * range)
+    }
+
+    return { lower, upper }
+  }
+
+  private estimateHypervolume(
+    front: NSGAIndividual[],
+    normalization: { lower: number[]; upper: number[] },
+    samples: number[][]
+  ): number {
+    if (front.length === 0) return 0
+
+    // Monte Carlo estimate of the normalized dominated volume
+    const normalized = front.map(individual =>
+      this.toMaximizationVector(individual.objectives).map((value, m) =>
+        (value - normalization.lower[m]) / (normalization.upper[m] - normalization.lower[m])
+      )
+    )
+
+    let dominated = 0
+    for (const sample of samples) {
+      if (normalized.some(point => point.every((value, m) => value >= sample[m]))) {
+        dominated++
+      }
+    }
+
+    return dominated / samples.length
   }
 }
 
@@ -752,6 +1504,9 @@ export class FuelCellOptimizationEngine {
       fuelFlowRate: (constraints.fuelFlowRate.min + constraints.fuelFlowRate.max) / 2,
       airFlowRate: (constraints.airFlowRate.min + constraints.airFlowRate.max) / 2,
       modelFidelity: 'INTERMEDIATE',
+      anodeCatalyst: constraints.availableMaterials?.anodeCatalysts?.[0],
+      cathodeCatalyst: constraints.availableMaterials?.cathodeCatalysts?.[0],
+      membraneType: constraints.availableMaterials?.membraneTypes?.[0],
       ...initialGuess
     }
     
@@ -772,7 +1527,17 @@ export class FuelCellOptimizationEngine {
         break
         
       case 'PARTICLE_SWARM':
+        optimizer = new ParticleSwarmOptimizer(objective, constraints, parameters, fuelCellType)
+        break
+
       case 'SIMULATED_ANNEALING':
+        optimizer = new SimulatedAnnealingOptimizer(objective, constraints, parameters, fuelCellType)
+        break
+
+      case 'NSGA_II':
+        optimizer = new NSGAIIOptimizer(objective, constraints, parameters, fuelCellType)
+        break
+
       default:
         // Default to genetic algorithm
         optimizer = new GeneticAlgorithmOptimizer(objective, constraints, parameters, fuelCellType)
@@ -781,8 +1546,9 @@ export class FuelCellOptimizationEngine {
     // Run optimization
     const result = await optimizer.optimize(defaultGuess)
     
-    // Add sensitivity analysis for successful optimizations
-    if (result.success && parameters.algorithm !== 'GENETIC_ALGORITHM') {
+    // Add local sensitivity around the optimum for successful optimizations
+    // (see FuelCellSensitivityEngine for global Morris/Sobol analysis)
+    if (result.success) {
       result.sensitivity = await this.performSensitivityAnalysis(
         result.optimizedParameters,
         objective,
@@ -803,13 +1569,8 @@ export class FuelCellOptimizationEngine {
     
     const baseObjective = await this.evaluateObjectiveValue(optimalParams, objective)
     
-    // Analyze continuous parameters
-    const continuousParams = [
-      { name: 'cellCount', min: constraints.cellCount.min, max: constraints.cellCount.max },
-      { name: 'activeArea', min: constraints.activeArea.min, max: constraints.activeArea.max },
-      { name: 'operatingTemperature', min: constraints.temperature.min, max: constraints.temperature.max },
-      { name: 'operatingPressure', min: constraints.pressure.min, max: constraints.pressure.max }
-    ]
+    // Analyze every continuous parameter with a non-zero range
+    const continuousParams = FuelCellSensitivityEngine.getParameterRanges(constraints)
     
     for (const param of continuousParams) {
       const currentValue = optimalParams[param.name as keyof FuelCellPredictionInput] as number
@@ -30,6 +30,9 @@ export interface FuelCellPredictionInput {
   // Optional advanced parameters
   stackVoltage?: number // V
   currentDensity?: number // A/cm²
+  
+  // Calibrated electrochemistry at reference conditions (replaces built-in defaults)
+  electrochemicalParameters?: Partial<ElectrochemicalParameters>
 }
 
 export interface FuelCellPredictionResult {
@@ -75,6 +78,9 @@ export interface FuelCellPredictionResult {
     optimizationSuggestions?: OptimizationSuggestion[]
   }
   
+  // Full I-V sweep (when requested)
+  polarizationCurve?: PolarizationCurve
+  
   // Model metadata
   modelInfo: {
     fidelity: ModelFidelity
@@ -83,6 +89,42 @@ export interface FuelCellPredictionResult {
   }
 }
 
+export interface ElectrochemicalParameters {
+  openCircuitVoltage: number // V per cell at reference temperature and 1 bar
+  exchangeCurrentDensity: number // A/cm²
+  tafelSlope: number // V/decade
+  areaSpecificResistance: number // Ω·cm²
+  limitingCurrentDensity: number // A/cm²
+  concentrationCoefficient: number // V
+}
+
+export type ElectrochemicalConditions = Pick<
+  FuelCellPredictionInput,
+  'fuelCellType' | 'operatingTemperature' | 'operatingPressure' | 'humidity' | 'cathodeCatalyst' | 'membraneType'
+>
+
+export interface PolarizationPoint {
+  currentDensity: number // A/cm²
+  voltage: number // V per cell
+  powerDensity: number // W/cm²
+  activationLoss: number // V
+  ohmicLoss: number // V
+  concentrationLoss: number // V
+  stackVoltage: number // V
+  stackPower: number // W
+}
+
+export interface PolarizationCurve {
+  fuelCellType: FuelCellType
+  parameters: ElectrochemicalParameters // Effective values at the operating conditions
+  openCircuitVoltage: number // V per cell
+  limitingCurrentDensity: number // A/cm²
+  peakPowerDensity: number // W/cm²
+  currentDensityAtPeakPower: number // A/cm²
+  supplyLimitedCurrentDensity: number // A/cm² sustainable by the configured fuel/air flows
+  points: PolarizationPoint[]
+}
+
 export interface TemperatureDistribution {
   stackAverage: number // °C
   cellTemperatures: number[] // °C per cell
@@ -192,6 +234,64 @@ export class FuelCellModelingEngine {
     }
   }
 
+  // Electrochemical parameters at each type's optimal temperature and 1 bar
+  private static readonly ELECTROCHEMICAL_PARAMS: Record<FuelCellType, ElectrochemicalParameters> = {
+    PEM: {
+      openCircuitVoltage: 1.0,
+      exchangeCurrentDensity: 2e-4,
+      tafelSlope: 0.065,
+      areaSpecificResistance: 0.1,
+      limitingCurrentDensity: 1.6,
+      concentrationCoefficient: 0.05
+    },
+    SOFC: {
+      openCircuitVoltage: 1.05,
+      exchangeCurrentDensity: 0.01,
+      tafelSlope: 0.1,
+      areaSpecificResistance: 0.3,
+      limitingCurrentDensity: 2.0,
+      concentrationCoefficient: 0.06
+    },
+    PAFC: {
+      openCircuitVoltage: 0.95,
+      exchangeCurrentDensity: 1e-4,
+      tafelSlope: 0.09,
+      areaSpecificResistance: 0.15,
+      limitingCurrentDensity: 0.6,
+      concentrationCoefficient: 0.05
+    },
+    MCFC: {
+      openCircuitVoltage: 1.05,
+      exchangeCurrentDensity: 0.01,
+      tafelSlope: 0.1,
+      areaSpecificResistance: 0.8,
+      limitingCurrentDensity: 0.5,
+      concentrationCoefficient: 0.05
+    },
+    AFC: {
+      openCircuitVoltage: 1.05,
+      exchangeCurrentDensity: 1e-4,
+      tafelSlope: 0.06,
+      areaSpecificResistance: 0.15,
+      limitingCurrentDensity: 0.8,
+      concentrationCoefficient: 0.05
+    }
+  }
+
+  // Activation energies (J/mol) for electrode kinetics and ionic conduction
+  private static readonly ACTIVATION_ENERGIES: Record<FuelCellType, { kinetics: number; conduction: number }> = {
+    PEM: { kinetics: 66000, conduction: 10000 },
+    SOFC: { kinetics: 120000, conduction: 80000 },
+    PAFC: { kinetics: 70000, conduction: 15000 },
+    MCFC: { kinetics: 90000, conduction: 50000 },
+    AFC: { kinetics: 40000, conduction: 12000 }
+  }
+
+  private static readonly GAS_CONSTANT = 8.314 // J/(mol·K)
+  private static readonly FARADAY = 96485 // C/mol
+  private static readonly MOLAR_VOLUME = 22.414 // L/mol at STP
+  private static readonly THERMONEUTRAL_VOLTAGE_LHV = 1.253 // V, H2 lower heating value
+
   // Material property database
   private static readonly MATERIAL_PROPERTIES = {
     catalysts: {
@@ -208,6 +308,30 @@ export class FuelCellModelingEngine {
     }
   }
 
+  // Material ids used by the UI and API (e.g. 'pt-c') mapped to property database keys
+  private static readonly MATERIAL_ALIASES: Record<string, string> = {
+    'pt-c': 'Pt/C',
+    'pt-alloy': 'Pt-alloy',
+    'non-pgm': 'Non-PGM',
+    'ni-based': 'Ni-based',
+    'nafion': 'Nafion',
+    'pfsa': 'PFSA',
+    'hydrocarbon': 'Hydrocarbon',
+    'ceramic': 'Ceramic'
+  }
+
+  public static getCatalystProperties(catalyst?: string): { activityFactor: number; cost: number } | undefined {
+    if (!catalyst) return undefined
+    const key = this.MATERIAL_ALIASES[catalyst.toLowerCase()] || catalyst
+    return this.MATERIAL_PROPERTIES.catalysts[key as keyof typeof this.MATERIAL_PROPERTIES.catalysts]
+  }
+
+  public static getMembraneProperties(membrane?: string): { conductivity: number; cost: number } | undefined {
+    if (!membrane) return undefined
+    const key = this.MATERIAL_ALIASES[membrane.toLowerCase()] || membrane
+    return this.MATERIAL_PROPERTIES.membranes[key as keyof typeof this.MATERIAL_PROPERTIES.membranes]
+  }
+
   public static async getPrediction(input: FuelCellPredictionInput): Promise<FuelCellPredictionResult> {
     const startTime = Date.now()
 
@@ -242,16 +366,25 @@ export class FuelCellModelingEngine {
     const humidityFactor = this.calculateHumidityFactor(input.humidity, params.humidityOptimal)
     const materialFactor = this.calculateMaterialFactor(input.anodeCatalyst, input.cathodeCatalyst, input.membraneType)
     
-    const cellVoltage = params.baseVoltage + temperatureFactor + pressureFactor + humidityFactor + materialFactor
-    const stackVoltage = Math.max(0, cellVoltage * input.cellCount)
-    
     // Current calculation based on flow rates
-    const currentDensity = this.calculateCurrentDensity(input.fuelFlowRate, input.airFlowRate, input.activeArea)
+    let currentDensity = this.calculateCurrentDensity(input.fuelFlowRate, input.airFlowRate, input.activeArea)
+    
+    let cellVoltage = params.baseVoltage + temperatureFactor + pressureFactor + humidityFactor + materialFactor
+    let efficiency = params.efficiency * (temperatureFactor + 1) * (materialFactor + 1)
+    
+    // Calibrated parameters: read the operating point off the fitted polarization curve
+    if (input.electrochemicalParameters) {
+      const electrochemistry = this.resolveElectrochemicalParameters(input, input.electrochemicalParameters)
+      currentDensity = Math.min(currentDensity, electrochemistry.limitingCurrentDensity * 0.99)
+      cellVoltage = Math.max(0, this.calculateCellVoltage(currentDensity, electrochemistry).voltage)
+      efficiency = cellVoltage / this.THERMONEUTRAL_VOLTAGE_LHV
+    }
+    
+    const stackVoltage = Math.max(0, cellVoltage * input.cellCount)
     const totalCurrent = currentDensity * input.activeArea
     
     // Power and efficiency
     const power = stackVoltage * totalCurrent
-    const efficiency = params.efficiency * (temperatureFactor + 1) * (materialFactor + 1)
     
     const executionTime = Date.now() - startTime
 
@@ -412,6 +545,125 @@ export class FuelCellModelingEngine {
     }
   }
 
+  // ==========================================================================
+  // POLARIZATION CURVES
+  // ==========================================================================
+
+  public static getDefaultElectrochemicalParameters(fuelCellType: FuelCellType): ElectrochemicalParameters {
+    return { ...this.ELECTROCHEMICAL_PARAMS[fuelCellType] }
+  }
+
+  /**
+   * Adjust reference electrochemical parameters to the operating conditions:
+   * Arrhenius kinetics and conduction, Nernst pressure gain, membrane drying
+   * and catalyst/membrane material factors.
+   */
+  public static resolveElectrochemicalParameters(
+    input: ElectrochemicalConditions,
+    overrides?: Partial<ElectrochemicalParameters>
+  ): ElectrochemicalParameters {
+    const base = { ...this.ELECTROCHEMICAL_PARAMS[input.fuelCellType], ...overrides }
+    const typeParams = this.FUEL_CELL_PARAMS[input.fuelCellType]
+    const energies = this.ACTIVATION_ENERGIES[input.fuelCellType]
+
+    const temperature = input.operatingTemperature + 273.15
+    const reference = typeParams.optimalTemp + 273.15
+    const arrhenius = (energy: number) =>
+      Math.exp(-energy / this.GAS_CONSTANT * (1 / temperature - 1 / reference))
+    const pressure = Math.max(input.operatingPressure, 0.1)
+
+    const catalystActivity = this.getCatalystProperties(input.cathodeCatalyst)?.activityFactor ?? 1
+    const membraneConductivity = this.getMembraneProperties(input.membraneType)?.conductivity ?? 1
+    const dryingPenalty = typeParams.humidityOptimal > 0
+      ? 1 + 0.02 * Math.max(0, typeParams.humidityOptimal - input.humidity)
+      : 1
+
+    return {
+      openCircuitVoltage: base.openCircuitVoltage
+        - 0.00085 * (temperature - reference)
+        + (this.GAS_CONSTANT * temperature) / (2 * this.FARADAY) * Math.log(Math.pow(pressure, 1.5)),
+      exchangeCurrentDensity: base.exchangeCurrentDensity * arrhenius(energies.kinetics) * catalystActivity,
+      tafelSlope: base.tafelSlope * temperature / reference,
+      areaSpecificResistance: base.areaSpecificResistance / arrhenius(energies.conduction) / membraneConductivity * dryingPenalty,
+      limitingCurrentDensity: base.limitingCurrentDensity * Math.sqrt(pressure),
+      concentrationCoefficient: base.concentrationCoefficient
+    }
+  }
+
+  /**
+   * Cell voltage and loss breakdown at a current density (A/cm²).
+   * Activation uses the Butler-Volmer high-field form via asinh so it is smooth at zero current.
+   */
+  public static calculateCellVoltage(
+    currentDensity: number,
+    params: ElectrochemicalParameters
+  ): { voltage: number; activationLoss: number; ohmicLoss: number; concentrationLoss: number } {
+    const i = Math.max(0, currentDensity)
+    const activationLoss = (params.tafelSlope / Math.LN10) * Math.asinh(i / (2 * params.exchangeCurrentDensity))
+    const ohmicLoss = i * params.areaSpecificResistance
+    const utilization = Math.min(i / params.limitingCurrentDensity, 0.999999)
+    const concentrationLoss = -params.concentrationCoefficient * Math.log(1 - utilization)
+
+    return {
+      voltage: params.openCircuitVoltage - activationLoss - ohmicLoss - concentrationLoss,
+      activationLoss,
+      ohmicLoss,
+      concentrationLoss
+    }
+  }
+
+  /**
+   * Sweep current density from open circuit to just below the limiting current.
+   * Reactant flows are assumed to scale with current (constant stoichiometry), as in
+   * standard I-V test protocols; `supplyLimitedCurrentDensity` reports what the
+   * configured flows can actually sustain.
+   */
+  public static getPolarizationCurve(
+    input: FuelCellPredictionInput,
+    options: { points?: number; parameters?: Partial<ElectrochemicalParameters> } = {}
+  ): PolarizationCurve {
+    const pointCount = Math.max(2, options.points ?? 50)
+    const params = this.resolveElectrochemicalParameters(input, options.parameters ?? input.electrochemicalParameters)
+    const maxCurrentDensity = params.limitingCurrentDensity * 0.99
+
+    const points: PolarizationPoint[] = []
+    for (let k = 0; k < pointCount; k++) {
+      const currentDensity = (k / (pointCount - 1)) * maxCurrentDensity
+      const cell = this.calculateCellVoltage(currentDensity, params)
+      if (cell.voltage <= 0 && k > 0) break
+
+      const voltage = Math.max(0, cell.voltage)
+      points.push({
+        currentDensity,
+        voltage,
+        powerDensity: voltage * currentDensity,
+        activationLoss: cell.activationLoss,
+        ohmicLoss: cell.ohmicLoss,
+        concentrationLoss: cell.concentrationLoss,
+        stackVoltage: voltage * input.cellCount,
+        stackPower: voltage * currentDensity * input.activeArea * input.cellCount
+      })
+    }
+
+    const peak = points.reduce((best, point) => point.powerDensity > best.powerDensity ? point : best, points[0])
+
+    // Series stack: every cell carries the full current, so the flows are shared across cells
+    const hydrogenMolarFlow = input.fuelFlowRate / 60 / this.MOLAR_VOLUME
+    const oxygenMolarFlow = 0.21 * input.airFlowRate / 60 / this.MOLAR_VOLUME
+    const supplyCurrent = Math.min(2 * this.FARADAY * hydrogenMolarFlow, 4 * this.FARADAY * oxygenMolarFlow) / input.cellCount
+
+    return {
+      fuelCellType: input.fuelCellType,
+      parameters: params,
+      openCircuitVoltage: params.openCircuitVoltage,
+      limitingCurrentDensity: params.limitingCurrentDensity,
+      peakPowerDensity: peak.powerDensity,
+      currentDensityAtPeakPower: peak.currentDensity,
+      supplyLimitedCurrentDensity: supplyCurrent / input.activeArea,
+      points
+    }
+  }
+
   // Helper calculation methods
   private static calculateTemperatureFactor(temp: number, optimal: number, max: number): number {
     if (temp > max) return -0.5 // Severe penalty for overheating
@@ -428,16 +680,19 @@ export class FuelCellModelingEngine {
   private static calculateMaterialFactor(anode?: string, cathode?: string, membrane?: string): number {
     let factor = 0
     
-    if (anode && this.MATERIAL_PROPERTIES.catalysts[anode as keyof typeof this.MATERIAL_PROPERTIES.catalysts]) {
-      factor += (this.MATERIAL_PROPERTIES.catalysts[anode as keyof typeof this.MATERIAL_PROPERTIES.catalysts].activityFactor - 1) * 0.1
+    const anodeProperties = this.getCatalystProperties(anode)
+    if (anodeProperties) {
+      factor += (anodeProperties.activityFactor - 1) * 0.1
     }
     
-    if (cathode && this.MATERIAL_PROPERTIES.catalysts[cathode as keyof typeof this.MATERIAL_PROPERTIES.catalysts]) {
-      factor += (this.MATERIAL_PROPERTIES.catalysts[cathode as keyof typeof this.MATERIAL_PROPERTIES.catalysts].activityFactor - 1) * 0.1
+    const cathodeProperties = this.getCatalystProperties(cathode)
+    if (cathodeProperties) {
+      factor += (cathodeProperties.activityFactor - 1) * 0.1
     }
     
-    if (membrane && this.MATERIAL_PROPERTIES.membranes[membrane as keyof typeof this.MATERIAL_PROPERTIES.membranes]) {
-      factor += (this.MATERIAL_PROPERTIES.membranes[membrane as keyof typeof this.MATERIAL_PROPERTIES.membranes].conductivity - 1) * 0.05
+    const membraneProperties = this.getMembraneProperties(membrane)
+    if (membraneProperties) {
+      factor += (membraneProperties.conductivity - 1) * 0.05
     }
     
     return factor
@@ -452,6 +707,31 @@ export class FuelCellModelingEngine {
   }
 }
 
+export function polarizationCurveToCsv(curve: PolarizationCurve): string {
+  const header = [
+    'current_density_A_cm2',
+    'cell_voltage_V',
+    'power_density_W_cm2',
+    'activation_loss_V',
+    'ohmic_loss_V',
+    'concentration_loss_V',
+    'stack_voltage_V',
+    'stack_power_W'
+  ]
+  const rows = curve.points.map(point => [
+    point.currentDensity,
+    point.voltage,
+    point.powerDensity,
+    point.activationLoss,
+    point.ohmicLoss,
+    point.concentrationLoss,
+    point.stackVoltage,
+    point.stackPower
+  ].map(value => value.toFixed(6)).join(','))
+
+  return [header.join(','), ...rows].join('\n')
+}
+
 // ============================================================================
 // UNIFIED PREDICTION API
 // ============================================================================
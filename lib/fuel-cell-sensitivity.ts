@@ -0,0 +1,367 @@
+import { FuelCellType } from './types/fuel-cell-types'
+import { FuelCellPredictionInput, FuelCellPredictionResult, FuelCellModelingEngine } from './fuel-cell-predictions'
+import type { OptimizationConstraints } from './fuel-cell-optimization'
+
+// ============================================================================
+// SENSITIVITY ANALYSIS INTERFACES
+// ============================================================================
+
+export type SensitivityMethod = 'MORRIS' | 'SOBOL'
+
+export type SensitivityOutput = 'POWER' | 'EFFICIENCY' | 'VOLTAGE' | 'POWER_DENSITY'
+
+export type SensitivityParameter = 'cellCount' | 'activeArea' | 'operatingTemperature' |
+  'operatingPressure' | 'humidity' | 'fuelFlowRate' | 'airFlowRate'
+
+export interface SensitivityRequest {
+  fuelCellType: FuelCellType
+  constraints: OptimizationConstraints
+  method: SensitivityMethod
+  output: SensitivityOutput
+  baseline?: Partial<FuelCellPredictionInput> // Centre point for the tornado; defaults to mid-range
+  options?: {
+    trajectories?: number // Morris
+    levels?: number // Morris
+    samples?: number // Sobol base sample size
+    bootstrapResamples?: number // Sobol confidence intervals
+  }
+}
+
+export interface MorrisIndex {
+  parameter: SensitivityParameter
+  mu: number // Mean elementary effect (signed)
+  muStar: number // Mean absolute elementary effect (importance)
+  sigma: number // Spread of effects (non-linearity / interactions)
+}
+
+export interface SobolIndex {
+  parameter: SensitivityParameter
+  firstOrder: number
+  firstOrderConfidence: number // 95% half-width
+  totalOrder: number
+  totalOrderConfidence: number // 95% half-width
+}
+
+export interface TornadoBar {
+  parameter: SensitivityParameter
+  lowValue: number // Parameter value at the lower bound
+  highValue: number // Parameter value at the upper bound
+  lowOutput: number
+  highOutput: number
+  swing: number // |highOutput - lowOutput|
+}
+
+export interface SensitivityResult {
+  method: SensitivityMethod
+  output: SensitivityOutput
+  baselineOutput: number
+  outputVariance: number
+  evaluations: number
+  parameters: { name: SensitivityParameter; min: number; max: number }[]
+  tornado: TornadoBar[] // Sorted by swing, largest first
+  morris?: MorrisIndex[] // Sorted by muStar, largest first
+  sobol?: SobolIndex[] // Sorted by totalOrder, largest first
+}
+
+interface ParameterRange {
+  name: SensitivityParameter
+  min: number
+  max: number
+}
+
+// ============================================================================
+// SENSITIVITY ANALYSIS ENGINE
+// ============================================================================
+
+export class FuelCellSensitivityEngine {
+  static async analyze(request: SensitivityRequest): Promise<SensitivityResult> {
+    const ranges = this.getParameterRanges(request.constraints)
+    if (ranges.length === 0) {
+      throw new Error('Sensitivity analysis needs at least one parameter with a non-zero range')
+    }
+
+    const base = this.buildBaseline(request)
+    let evaluations = 0
+    const evaluate = async (unitPoint: number[]): Promise<number> => {
+      evaluations++
+      const prediction = await FuelCellModelingEngine.getPrediction(this.toInput(base, unitPoint, ranges))
+      return this.extractOutput(prediction, request.output)
+    }
+
+    const baselinePoint = ranges.map(range => this.toUnit(base[range.name] as number, range))
+    const baselineOutput = await evaluate(baselinePoint)
+    const tornado = await this.computeTornado(baselinePoint, ranges, evaluate)
+
+    const result: SensitivityResult = {
+      method: request.method,
+      output: request.output,
+      baselineOutput,
+      outputVariance: 0,
+      evaluations: 0,
+      parameters: ranges.map(({ name, min, max }) => ({ name, min, max })),
+      tornado
+    }
+
+    if (request.method === 'MORRIS') {
+      const { indices, outputs } = await this.computeMorris(
+        ranges,
+        evaluate,
+        request.options?.trajectories ?? 20,
+        request.options?.levels ?? 4
+      )
+      result.morris = indices
+      result.outputVariance = this.variance(outputs)
+    } else {
+      const { indices, variance } = await this.computeSobol(
+        ranges,
+        evaluate,
+        request.options?.samples ?? 256,
+        request.options?.bootstrapResamples ?? 100
+      )
+      result.sobol = indices
+      result.outputVariance = variance
+    }
+
+    result.evaluations = evaluations
+    return result
+  }
+
+  static getParameterRanges(constraints: OptimizationConstraints): ParameterRange[] {
+    const ranges: ParameterRange[] = [
+      { name: 'cellCount', ...constraints.cellCount },
+      { name: 'activeArea', ...constraints.activeArea },
+      { name: 'operatingTemperature', ...constraints.temperature },
+      { name: 'operatingPressure', ...constraints.pressure },
+      ...(constraints.humidity ? [{ name: 'humidity' as const, ...constraints.humidity }] : []),
+      { name: 'fuelFlowRate', ...constraints.fuelFlowRate },
+      { name: 'airFlowRate', ...constraints.airFlowRate }
+    ]
+    // Fixed parameters carry no variance and would only add cost
+    return ranges.filter(range => range.max > range.min)
+  }
+
+  // ==========================================================================
+  // MORRIS ELEMENTARY EFFECTS
+  // ==========================================================================
+
+  private static async computeMorris(
+    ranges: ParameterRange[],
+    evaluate: (unitPoint: number[]) => Promise<number>,
+    trajectories: number,
+    levels: number
+  ): Promise<{ indices: MorrisIndex[]; outputs: number[] }> {
+    const k = ranges.length
+    const delta = levels / (2 * (levels - 1))
+    const effects: number[][] = ranges.map(() => [])
+    const outputs: number[] = []
+
+    // Starting levels are restricted so a +delta step stays inside the unit cube
+    const startLevels = Array.from({ length: Math.floor(levels / 2) }, (_, i) => i / (levels - 1))
+
+    for (let t = 0; t < trajectories; t++) {
+      const point = ranges.map(() => startLevels[Math.floor(Math.random() * startLevels.length)])
+      // Random direction per factor: step up from a low start or down from a high one
+      const direction = ranges.map(() => (Math.random() < 0.5 ? 1 : -1))
+      direction.forEach((sign, i) => {
+        if (sign < 0) point[i] += delta
+      })
+
+      let previousOutput = await evaluate(point)
+      outputs.push(previousOutput)
+
+      for (const i of this.shuffle(Array.from({ length: k }, (_, index) => index))) {
+        point[i] += direction[i] * delta
+        const output = await evaluate(point)
+        outputs.push(output)
+        effects[i].push((output - previousOutput) / (direction[i] * delta))
+        previousOutput = output
+      }
+    }
+
+    const indices = ranges.map((range, i) => {
+      const values = effects[i]
+      const mu = values.reduce((sum, v) => sum + v, 0) / values.length
+      return {
+        parameter: range.name,
+        mu,
+        muStar: values.reduce((sum, v) => sum + Math.abs(v), 0) / values.length,
+        sigma: Math.sqrt(values.reduce((sum, v) => sum + (v - mu) ** 2, 0) / Math.max(values.length - 1, 1))
+      }
+    })
+
+    return { indices: indices.sort((a, b) => b.muStar - a.muStar), outputs }
+  }
+
+  // ==========================================================================
+  // SOBOL INDICES (SALTELLI SAMPLING)
+  // ==========================================================================
+
+  private static async computeSobol(
+    ranges: ParameterRange[],
+    evaluate: (unitPoint: number[]) => Promise<number>,
+    samples: number,
+    bootstrapResamples: number
+  ): Promise<{ indices: SobolIndex[]; variance: number }> {
+    const k = ranges.length
+    const A = Array.from({ length: samples }, () => ranges.map(() => Math.random()))
+    const B = Array.from({ length: samples }, () => ranges.map(() => Math.random()))
+
+    const fA: number[] = []
+    const fB: number[] = []
+    for (let j = 0; j < samples; j++) {
+      fA.push(await evaluate(A[j]))
+      fB.push(await evaluate(B[j]))
+    }
+
+    // f(AB_i): matrix A with column i taken from B
+    const fAB: number[][] = []
+    for (let i = 0; i < k; i++) {
+      const column: number[] = []
+      for (let j = 0; j < samples; j++) {
+        const point = [...A[j]]
+        point[i] = B[j][i]
+        column.push(await evaluate(point))
+      }
+      fAB.push(column)
+    }
+
+    const estimate = (rows: number[]) => {
+      const variance = this.variance([...rows.map(j => fA[j]), ...rows.map(j => fB[j])])
+      if (variance <= 0) return { variance, first: ranges.map(() => 0), total: ranges.map(() => 0) }
+
+      // Saltelli (2010) first-order and Jansen total-order estimators
+      const first = fAB.map(column =>
+        rows.reduce((sum, j) => sum + fB[j] * (column[j] - fA[j]), 0) / rows.length / variance
+      )
+      const total = fAB.map(column =>
+        rows.reduce((sum, j) => sum + (fA[j] - column[j]) ** 2, 0) / (2 * rows.length) / variance
+      )
+      return { variance, first, total }
+    }
+
+    const allRows = Array.from({ length: samples }, (_, j) => j)
+    const point = estimate(allRows)
+
+    // Bootstrap the estimators over the existing evaluations for confidence intervals
+    const firstDraws: number[][] = ranges.map(() => [])
+    const totalDraws: number[][] = ranges.map(() => [])
+    for (let b = 0; b < bootstrapResamples; b++) {
+      const rows = allRows.map(() => Math.floor(Math.random() * samples))
+      const draw = estimate(rows)
+      draw.first.forEach((value, i) => firstDraws[i].push(value))
+      draw.total.forEach((value, i) => totalDraws[i].push(value))
+    }
+    const halfWidth = (values: number[]) => values.length > 1 ? 1.96 * Math.sqrt(this.variance(values)) : 0
+
+    const indices = ranges.map((range, i) => ({
+      parameter: range.name,
+      firstOrder: point.first[i],
+      firstOrderConfidence: halfWidth(firstDraws[i]),
+      totalOrder: point.total[i],
+      totalOrderConfidence: halfWidth(totalDraws[i])
+    }))
+
+    return { indices: indices.sort((a, b) => b.totalOrder - a.totalOrder), variance: point.variance }
+  }
+
+  // ==========================================================================
+  // TORNADO (ONE-AT-A-TIME SWING)
+  // ==========================================================================
+
+  private static async computeTornado(
+    baselinePoint: number[],
+    ranges: ParameterRange[],
+    evaluate: (unitPoint: number[]) => Promise<number>
+  ): Promise<TornadoBar[]> {
+    const bars: TornadoBar[] = []
+
+    for (let i = 0; i < ranges.length; i++) {
+      const low = [...baselinePoint]
+      low[i] = 0
+      const high = [...baselinePoint]
+      high[i] = 1
+      const lowOutput = await evaluate(low)
+      const highOutput = await evaluate(high)
+
+      bars.push({
+        parameter: ranges[i].name,
+        lowValue: ranges[i].min,
+        highValue: ranges[i].max,
+        lowOutput,
+        highOutput,
+        swing: Math.abs(highOutput - lowOutput)
+      })
+    }
+
+    return bars.sort((a, b) => b.swing - a.swing)
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private static buildBaseline(request: SensitivityRequest): FuelCellPredictionInput {
+    const { constraints } = request
+    const mid = (range: { min: number; max: number }) => (range.min + range.max) / 2
+
+    return {
+      fuelCellType: request.fuelCellType,
+      cellCount: Math.round(mid(constraints.cellCount)),
+      activeArea: mid(constraints.activeArea),
+      operatingTemperature: mid(constraints.temperature),
+      operatingPressure: mid(constraints.pressure),
+      humidity: constraints.humidity ? mid(constraints.humidity) : 100,
+      fuelFlowRate: mid(constraints.fuelFlowRate),
+      airFlowRate: mid(constraints.airFlowRate),
+      anodeCatalyst: constraints.availableMaterials?.anodeCatalysts?.[0],
+      cathodeCatalyst: constraints.availableMaterials?.cathodeCatalysts?.[0],
+      membraneType: constraints.availableMaterials?.membraneTypes?.[0],
+      modelFidelity: 'BASIC',
+      ...request.baseline
+    }
+  }
+
+  private static toUnit(value: number, range: ParameterRange): number {
+    return Math.max(0, Math.min(1, (value - range.min) / (range.max - range.min)))
+  }
+
+  private static toInput(
+    base: FuelCellPredictionInput,
+    unitPoint: number[],
+    ranges: ParameterRange[]
+  ): FuelCellPredictionInput {
+    const input = { ...base }
+    ranges.forEach((range, i) => {
+      const value = range.min + unitPoint[i] * (range.max - range.min)
+      input[range.name] = range.name === 'cellCount' ? Math.round(value) : value
+    })
+    return input
+  }
+
+  private static extractOutput(prediction: FuelCellPredictionResult, output: SensitivityOutput): number {
+    switch (output) {
+      case 'EFFICIENCY':
+        return prediction.efficiency
+      case 'VOLTAGE':
+        return prediction.voltage
+      case 'POWER_DENSITY':
+        return prediction.powerDensity
+      case 'POWER':
+      default:
+        return prediction.predictedPower
+    }
+  }
+
+  private static variance(values: number[]): number {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+    return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+  }
+
+  private static shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1))
+      ;[items[i], items[j]] = [items[j], items[i]]
+    }
+    return items
+  }
+}
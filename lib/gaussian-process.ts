@@ -0,0 +1,334 @@
+// ============================================================================
+// GAUSSIAN PROCESS REGRESSION
+// ============================================================================
+
+export type KernelType = 'RBF' | 'MATERN_32' | 'MATERN_52'
+
+export interface GaussianProcessOptions {
+  kernel?: KernelType
+  // Known input ranges; inputs are scaled to [0, 1] before the kernel is applied
+  inputBounds?: { min: number; max: number }[]
+  // Previously fitted hyperparameters, reused by fit(X, y, false)
+  hyperparameters?: GaussianProcessHyperparameters
+}
+
+export interface GaussianProcessHyperparameters {
+  lengthScales: number[] // In normalised input units
+  signalVariance: number // In standardised output units
+  noiseVariance: number // In standardised output units
+}
+
+export interface GaussianProcessPrediction {
+  mean: number
+  variance: number
+}
+
+// Search box for log-hyperparameters during marginal likelihood fitting
+const LOG_LENGTH_SCALE_RANGE = { min: Math.log(0.01), max: Math.log(10) }
+const LOG_SIGNAL_VARIANCE_RANGE = { min: Math.log(0.01), max: Math.log(100) }
+const LOG_NOISE_VARIANCE_RANGE = { min: Math.log(1e-6), max: Math.log(1) }
+
+export class GaussianProcess {
+  private kernel: KernelType
+  private inputBounds?: { min: number; max: number }[]
+  private X: number[][] = []
+  private yMean = 0
+  private yStd = 1
+  private L: number[][] = []
+  private alpha: number[] = []
+  private params: GaussianProcessHyperparameters | null = null
+  private lml = -Infinity
+
+  constructor(options: GaussianProcessOptions = {}) {
+    this.kernel = options.kernel || 'MATERN_52'
+    this.inputBounds = options.inputBounds
+    this.params = options.hyperparameters ?? null
+  }
+
+  get hyperparameters(): GaussianProcessHyperparameters | null {
+    return this.params
+  }
+
+  get logMarginalLikelihood(): number {
+    return this.lml
+  }
+
+  /**
+   * Condition the GP on observations. Hyperparameters are re-fitted by
+   * maximising the log marginal likelihood unless `optimizeHyperparameters`
+   * is false and a previous fit exists.
+   */
+  fit(X: number[][], y: number[], optimizeHyperparameters = true): void {
+    if (X.length === 0 || X.length !== y.length) {
+      throw new Error('Gaussian process needs a non-empty, matching set of inputs and outputs')
+    }
+
+    this.X = X.map(x => this.normalizeInput(x))
+    this.yMean = y.reduce((sum, v) => sum + v, 0) / y.length
+    const variance = y.reduce((sum, v) => sum + (v - this.yMean) ** 2, 0) / y.length
+    this.yStd = variance > 1e-12 ? Math.sqrt(variance) : 1
+    const yStandardized = y.map(v => (v - this.yMean) / this.yStd)
+
+    const dimensions = this.X[0].length
+    if (optimizeHyperparameters || !this.params || this.params.lengthScales.length !== dimensions) {
+      this.params = this.fitHyperparameters(yStandardized, dimensions)
+    }
+
+    const factorization = this.factorize(this.params, yStandardized)
+    if (!factorization) {
+      throw new Error('Gaussian process covariance matrix is not positive definite')
+    }
+    this.L = factorization.L
+    this.alpha = factorization.alpha
+    this.lml = factorization.logMarginalLikelihood
+  }
+
+  predict(x: number[]): GaussianProcessPrediction {
+    if (!this.params) {
+      throw new Error('Gaussian process must be fitted before predicting')
+    }
+
+    const xNorm = this.normalizeInput(x)
+    const kStar = this.X.map(xi => this.covariance(xNorm, xi, this.params!))
+    const meanStandardized = kStar.reduce((sum, k, i) => sum + k * this.alpha[i], 0)
+    const v = this.forwardSubstitute(this.L, kStar)
+    const varianceStandardized = Math.max(
+      this.params.signalVariance - v.reduce((sum, vi) => sum + vi * vi, 0),
+      1e-12
+    )
+
+    return {
+      mean: this.yMean + this.yStd * meanStandardized,
+      variance: varianceStandardized * this.yStd * this.yStd
+    }
+  }
+
+  // ==========================================================================
+  // KERNEL
+  // ==========================================================================
+
+  private covariance(a: number[], b: number[], params: GaussianProcessHyperparameters): number {
+    let r2 = 0
+    for (let d = 0; d < a.length; d++) {
+      const scaled = (a[d] - b[d]) / params.lengthScales[d]
+      r2 += scaled * scaled
+    }
+    const r = Math.sqrt(r2)
+
+    switch (this.kernel) {
+      case 'RBF':
+        return params.signalVariance * Math.exp(-0.5 * r2)
+      case 'MATERN_32':
+        return params.signalVariance * (1 + Math.sqrt(3) * r) * Math.exp(-Math.sqrt(3) * r)
+      case 'MATERN_52':
+      default:
+        return params.signalVariance * (1 + Math.sqrt(5) * r + (5 / 3) * r2) * Math.exp(-Math.sqrt(5) * r)
+    }
+  }
+
+  private normalizeInput(x: number[]): number[] {
+    if (!this.inputBounds) return [...x]
+    return x.map((value, d) => {
+      const bound = this.inputBounds![d]
+      const range = bound.max - bound.min
+      return range > 0 ? (value - bound.min) / range : 0.5
+    })
+  }
+
+  // ==========================================================================
+  // HYPERPARAMETER FITTING
+  // ==========================================================================
+
+  private fitHyperparameters(y: number[], dimensions: number): GaussianProcessHyperparameters {
+    // Log-parameter vector: [log lengthScale_1..d, log signalVariance, log noiseVariance]
+    const toParams = (theta: number[]): GaussianProcessHyperparameters => ({
+      lengthScales: theta.slice(0, dimensions).map(v => Math.exp(clamp(v, LOG_LENGTH_SCALE_RANGE))),
+      signalVariance: Math.exp(clamp(theta[dimensions], LOG_SIGNAL_VARIANCE_RANGE)),
+      noiseVariance: Math.exp(clamp(theta[dimensions + 1], LOG_NOISE_VARIANCE_RANGE))
+    })
+    const negativeLml = (theta: number[]) => {
+      const result = this.factorize(toParams(theta), y)
+      return result ? -result.logMarginalLikelihood : Infinity
+    }
+
+    // Restart from the previous fit (if any) and from short/long length-scale guesses
+    const starts: number[][] = [0.2, 1].map(lengthScale => [
+      ...Array(dimensions).fill(Math.log(lengthScale)),
+      0,
+      Math.log(1e-4)
+    ])
+    if (this.params && this.params.lengthScales.length === dimensions) {
+      starts.unshift([
+        ...this.params.lengthScales.map(Math.log),
+        Math.log(this.params.signalVariance),
+        Math.log(this.params.noiseVariance)
+      ])
+    }
+
+    let best = starts[0]
+    let bestValue = negativeLml(best)
+    for (const start of starts) {
+      const { point, value } = nelderMead(negativeLml, start, 60 * (dimensions + 2))
+      if (value < bestValue) {
+        best = point
+        bestValue = value
+      }
+    }
+
+    return toParams(best)
+  }
+
+  private factorize(
+    params: GaussianProcessHyperparameters,
+    y: number[]
+  ): { L: number[][]; alpha: number[]; logMarginalLikelihood: number } | null {
+    const n = this.X.length
+    const K: number[][] = []
+    for (let i = 0; i < n; i++) {
+      K.push(new Array(n))
+      for (let j = 0; j <= i; j++) {
+        const k = this.covariance(this.X[i], this.X[j], params)
+        K[i][j] = k
+        K[j][i] = k
+      }
+      K[i][i] += params.noiseVariance
+    }
+
+    // Add jitter progressively if the matrix is numerically singular
+    for (const jitter of [0, 1e-8, 1e-6, 1e-4]) {
+      const L = cholesky(K, jitter)
+      if (!L) continue
+
+      const alpha = this.backSubstitute(L, this.forwardSubstitute(L, y))
+      const dataFit = y.reduce((sum, yi, i) => sum + yi * alpha[i], 0)
+      const logDeterminant = L.reduce((sum, row, i) => sum + Math.log(row[i]), 0)
+      const logMarginalLikelihood = -0.5 * dataFit - logDeterminant - 0.5 * n * Math.log(2 * Math.PI)
+      return { L, alpha, logMarginalLikelihood }
+    }
+
+    return null
+  }
+
+  private forwardSubstitute(L: number[][], b: number[]): number[] {
+    const x = new Array(b.length).fill(0)
+    for (let i = 0; i < b.length; i++) {
+      let sum = b[i]
+      for (let j = 0; j < i; j++) sum -= L[i][j] * x[j]
+      x[i] = sum / L[i][i]
+    }
+    return x
+  }
+
+  private backSubstitute(L: number[][], b: number[]): number[] {
+    const n = b.length
+    const x = new Array(n).fill(0)
+    for (let i = n - 1; i >= 0; i--) {
+      let sum = b[i]
+      for (let j = i + 1; j < n; j++) sum -= L[j][i] * x[j]
+      x[i] = sum / L[i][i]
+    }
+    return x
+  }
+}
+
+// ============================================================================
+// NUMERICAL HELPERS
+// ============================================================================
+
+export function normalPdf(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI)
+}
+
+export function normalCdf(z: number): number {
+  // Abramowitz & Stegun 7.1.26 approximation of erf
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x)
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf)
+}
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.max(range.min, Math.min(range.max, value))
+}
+
+function cholesky(A: number[][], jitter: number): number[][] | null {
+  const n = A.length
+  const L: number[][] = Array.from({ length: n }, () => new Array(n).fill(0))
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = A[i][j] + (i === j ? jitter : 0)
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k]
+
+      if (i === j) {
+        if (sum <= 0 || !Number.isFinite(sum)) return null
+        L[i][i] = Math.sqrt(sum)
+      } else {
+        L[i][j] = sum / L[j][j]
+      }
+    }
+  }
+
+  return L
+}
+
+export function nelderMead(
+  f: (x: number[]) => number,
+  start: number[],
+  maxEvaluations: number
+): { point: number[]; value: number } {
+  const n = start.length
+  const simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + 0.5 : v)))]
+  let values = simplex.map(f)
+  let evaluations = simplex.length
+
+  while (evaluations < maxEvaluations) {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b])
+    const sorted = order.map(i => simplex[i])
+    values = order.map(i => values[i])
+    sorted.forEach((point, i) => { simplex[i] = point })
+
+    if (Math.abs(values[n] - values[0]) < 1e-6) break
+
+    const centroid = start.map((_, d) => simplex.slice(0, n).reduce((sum, p) => sum + p[d], 0) / n)
+    const along = (coefficient: number) => centroid.map((c, d) => c + coefficient * (simplex[n][d] - c))
+
+    const reflected = along(-1)
+    const reflectedValue = f(reflected)
+    evaluations++
+
+    if (reflectedValue < values[0]) {
+      const expanded = along(-2)
+      const expandedValue = f(expanded)
+      evaluations++
+      if (expandedValue < reflectedValue) {
+        simplex[n] = expanded
+        values[n] = expandedValue
+      } else {
+        simplex[n] = reflected
+        values[n] = reflectedValue
+      }
+    } else if (reflectedValue < values[n - 1]) {
+      simplex[n] = reflected
+      values[n] = reflectedValue
+    } else {
+      const contracted = along(0.5)
+      const contractedValue = f(contracted)
+      evaluations++
+      if (contractedValue < values[n]) {
+        simplex[n] = contracted
+        values[n] = contractedValue
+      } else {
+        // Shrink towards the best vertex
+        for (let i = 1; i <= n; i++) {
+          simplex[i] = simplex[i].map((v, d) => simplex[0][d] + 0.5 * (v - simplex[0][d]))
+          values[i] = f(simplex[i])
+          evaluations++
+        }
+      }
+    }
+  }
+
+  const bestIndex = values.indexOf(Math.min(...values))
+  return { point: simplex[bestIndex], value: values[bestIndex] }
+}
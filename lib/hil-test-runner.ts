@@ -0,0 +1,773 @@
+import {
+  VirtualFuelCellPlant,
+  type PlantModelType,
+  type SimulationParameters,
+  type SystemDisturbance,
+  type VirtualPlantOutputs
+} from './control-system-simulation'
+import { FAULT_CATALOGUE, FAULT_TYPES, MONITORED_SIGNALS, type FaultType, type MonitoredSignal } from './fuel-cell-faults'
+import { ILLEGAL_DATA_VALUE, ModbusError, ModbusTcpClient, decodeFloat32, encodeFloat32, type RegisterBank } from './modbus-tcp'
+import { FuelCellType } from './types/fuel-cell-types'
+import type {
+  HILFault,
+  HILFaultSeverity,
+  HILOutcomeReport,
+  HILScenarioReport,
+  HILStepReport,
+  HILTestConfig,
+  HILTestReport,
+  HILTestScenario,
+  HILTestStep
+} from './types/hil-types'
+
+// ============================================================================
+// PLANT INTERFACE
+// ============================================================================
+
+export type HILReading = VirtualPlantOutputs
+
+// Operating disturbances, then the fault catalogue in lib/fuel-cell-faults.ts
+export type HILFaultType = SystemDisturbance['type'] | FaultType
+
+const DISTURBANCE_TYPES: SystemDisturbance['type'][] = ['LOAD_CHANGE', 'TEMPERATURE_SPIKE', 'PRESSURE_DROP', 'HUMIDITY_VARIATION', 'FUEL_INTERRUPTION']
+
+export const HIL_FAULT_TYPES: HILFaultType[] = [...DISTURBANCE_TYPES, ...FAULT_TYPES]
+
+export interface HILFaultCommand {
+  type: HILFaultType
+  magnitude: number // 0-1; the severity of catalogue faults
+  sensor?: MonitoredSignal // Sensor faults only
+}
+
+// Measured channels, in the order of the Modbus output registers
+export const HIL_CHANNELS: (keyof HILReading)[] = [
+  'temperature', 'humidity', 'pressure', 'voltage', 'current', 'power', 'efficiency', 'airFlow', 'nitrogenFraction'
+]
+
+export interface HILActuatorInputs {
+  temperature?: number | null // °C; null returns the actuator to nominal
+  humidity?: number | null // %
+  pressure?: number | null // bar
+  airFlow?: number | null // L/min
+  purge?: boolean
+  current?: number // Load current, A
+}
+
+export interface HILPlant {
+  readonly description: string
+  reset(): Promise<void>
+  setInputs(inputs: HILActuatorInputs): Promise<void>
+  setFault(fault: HILFaultCommand | null): Promise<void>
+  advance(dt: number): Promise<void>
+  read(): Promise<HILReading>
+  close(): Promise<void>
+}
+
+// Nominal operating point of the virtual plant. Flows size the transient stack
+// for a 50 A nominal load, the same as the lumped model, at an air stoichiometry of 2
+export const HIL_NOMINAL_CONDITIONS: Record<FuelCellType, SimulationParameters['nominalConditions']> = {
+  PEM: { temperature: 80, humidity: 100, pressure: 2.5, fuelFlow: 21, airFlow: 83 },
+  SOFC: { temperature: 750, humidity: 0, pressure: 1.5, fuelFlow: 21, airFlow: 83 },
+  PAFC: { temperature: 200, humidity: 85, pressure: 2.0, fuelFlow: 21, airFlow: 83 },
+  MCFC: { temperature: 650, humidity: 0, pressure: 2.0, fuelFlow: 21, airFlow: 83 },
+  AFC: { temperature: 70, humidity: 95, pressure: 1.5, fuelFlow: 21, airFlow: 83 }
+}
+
+export interface VirtualPlantOptions {
+  plantModel?: PlantModelType // Defaults to TRANSIENT
+  nominalConditions?: SimulationParameters['nominalConditions']
+}
+
+export function createVirtualPlant(fuelCellType: FuelCellType, options: VirtualPlantOptions = {}): VirtualFuelCellPlant {
+  return new VirtualFuelCellPlant(
+    fuelCellType,
+    options.nominalConditions ?? HIL_NOMINAL_CONDITIONS[fuelCellType],
+    options.plantModel ?? 'TRANSIENT'
+  )
+}
+
+function isDisturbance(type: HILFaultType): type is SystemDisturbance['type'] {
+  return (DISTURBANCE_TYPES as string[]).includes(type)
+}
+
+function toDisturbance(fault: HILFaultCommand | null, time: number, dt: number): SystemDisturbance | undefined {
+  return fault && isDisturbance(fault.type)
+    ? { type: fault.type, magnitude: fault.magnitude, startTime: time, duration: dt }
+    : undefined
+}
+
+// Catalogue faults live in the plant from now on; disturbances are applied step by step
+function injectFault(plant: VirtualFuelCellPlant, fault: HILFaultCommand | null) {
+  plant.setFaults(fault && !isDisturbance(fault.type)
+    ? [{ type: fault.type, severity: fault.magnitude, startTime: plant.time, ...(fault.sensor && { sensor: fault.sensor }) }]
+    : [])
+}
+
+/** The control-system plant model, stepped in-process. */
+export class VirtualHILPlant implements HILPlant {
+  private plant: VirtualFuelCellPlant
+  private fault: HILFaultCommand | null = null
+  public readonly description: string
+
+  constructor(private fuelCellType: FuelCellType, private options: VirtualPlantOptions = {}) {
+    this.plant = createVirtualPlant(fuelCellType, options)
+    this.description = `Virtual ${fuelCellType} plant (${options.plantModel ?? 'TRANSIENT'} model)`
+  }
+
+  public async reset(): Promise<void> {
+    this.plant = createVirtualPlant(this.fuelCellType, this.options)
+    this.fault = null
+  }
+
+  public async setInputs(inputs: HILActuatorInputs): Promise<void> {
+    const { current, ...actuators } = inputs
+    this.plant.setInputs({
+      ...actuators,
+      ...(current !== undefined && { loadFactor: current / this.plant.nominalCurrent })
+    })
+  }
+
+  public async setFault(fault: HILFaultCommand | null): Promise<void> {
+    injectFault(this.plant, fault)
+    this.fault = fault
+  }
+
+  public async advance(dt: number): Promise<void> {
+    this.plant.step(dt, toDisturbance(this.fault, this.plant.time, dt))
+  }
+
+  public async read(): Promise<HILReading> {
+    return this.plant.read()
+  }
+
+  public async close(): Promise<void> {}
+}
+
+// ============================================================================
+// MODBUS REGISTER MAP
+// ============================================================================
+// Every value is a float32 over two holding registers. NaN in an actuator
+// register leaves that actuator at its nominal setting. In lockstep mode the
+// runner owns the clock and writes the step size to `advance`; in realtime
+// mode the simulator steps itself and the runner only samples.
+
+export const HIL_REGISTERS = {
+  inputs: {
+    temperature: 0,
+    humidity: 2,
+    pressure: 4,
+    airFlow: 6,
+    current: 8,
+    purge: 10,
+    fault: 12, // 0 for none, else 1 + index in HIL_FAULT_TYPES
+    faultMagnitude: 14,
+    faultSensor: 16 // Sensor faults: 1 + index in MONITORED_SIGNALS, 0 for temperature
+  },
+  outputs: 100, // HIL_CHANNELS, then simulated time at 118
+  advance: 200,
+  reset: 202
+} as const
+
+const INPUT_REGISTER_COUNT = 18
+const REGISTER_COUNT = 204
+const MAX_ADVANCE = 60 // s per lockstep request
+
+/** Serves a virtual plant over Modbus/TCP, e.g. from scripts/hil-modbus-simulator.ts. */
+export class VirtualPlantRegisterBank implements RegisterBank {
+  private plant: VirtualFuelCellPlant
+  private registers = new Uint16Array(REGISTER_COUNT)
+  private fault: HILFaultCommand | null = null
+
+  constructor(private createPlant: () => VirtualFuelCellPlant, private clock: 'lockstep' | 'realtime' = 'lockstep') {
+    this.plant = createPlant()
+    this.resetRegisters()
+  }
+
+  public get time(): number {
+    return this.plant.time
+  }
+
+  public read(address: number, count: number): number[] | false {
+    if (address + count > REGISTER_COUNT) return false
+    const outputs = this.plant.read()
+    const values = [...HIL_CHANNELS.map(channel => outputs[channel]), this.plant.time]
+    values.forEach((value, i) => this.setFloat(HIL_REGISTERS.outputs + 2 * i, value))
+    return Array.from(this.registers.subarray(address, address + count))
+  }
+
+  public write(address: number, values: number[]): boolean {
+    const end = address + values.length
+    const inputs = end <= INPUT_REGISTER_COUNT
+    const control = address >= HIL_REGISTERS.advance && end <= REGISTER_COUNT
+    if (!inputs && !control) return false
+    if (this.clock === 'realtime' && address < HIL_REGISTERS.reset && end > HIL_REGISTERS.advance) return false
+
+    if (inputs) {
+      const previous = Array.from(this.registers.subarray(address, end))
+      values.forEach((value, i) => { this.registers[address + i] = value })
+      try {
+        this.applyInputs()
+      } catch (error) {
+        // Fault not applicable to this plant: keep the registers as they were
+        previous.forEach((value, i) => { this.registers[address + i] = value })
+        throw new ModbusError(error instanceof Error ? error.message : String(error), ILLEGAL_DATA_VALUE)
+      }
+      return true
+    }
+    values.forEach((value, i) => { this.registers[address + i] = value })
+
+    if (address < HIL_REGISTERS.reset) {
+      const dt = this.getFloat(HIL_REGISTERS.advance)
+      if (!(dt > 0 && dt <= MAX_ADVANCE)) throw new ModbusError(`Invalid step ${dt} s`, ILLEGAL_DATA_VALUE)
+      this.advance(dt)
+    }
+    if (end > HIL_REGISTERS.reset && this.getFloat(HIL_REGISTERS.reset)) {
+      this.plant = this.createPlant()
+      this.fault = null
+      this.resetRegisters()
+    }
+    return true
+  }
+
+  public advance(dt: number): void {
+    this.plant.step(dt, toDisturbance(this.fault, this.plant.time, dt))
+  }
+
+  private applyInputs() {
+    const value = (address: number) => {
+      const decoded = this.getFloat(address)
+      return Number.isFinite(decoded) ? decoded : null
+    }
+    const { inputs } = HIL_REGISTERS
+    this.plant.setInputs({
+      temperature: value(inputs.temperature),
+      humidity: value(inputs.humidity),
+      pressure: value(inputs.pressure),
+      airFlow: value(inputs.airFlow),
+      purge: Boolean(value(inputs.purge)),
+      loadFactor: (value(inputs.current) ?? this.plant.nominalCurrent) / this.plant.nominalCurrent
+    })
+
+    const type = HIL_FAULT_TYPES[Math.round(value(inputs.fault) ?? 0) - 1]
+    const sensor = MONITORED_SIGNALS[Math.round(value(inputs.faultSensor) ?? 0) - 1]
+    const fault: HILFaultCommand | null = type
+      ? { type, magnitude: Math.max(0, Math.min(1, value(inputs.faultMagnitude) ?? 0)), ...(sensor && { sensor }) }
+      : null
+    // Restart a catalogue fault's clock only when the command changes
+    if (JSON.stringify(fault) !== JSON.stringify(this.fault)) {
+      injectFault(this.plant, fault)
+      this.fault = fault
+    }
+  }
+
+  private resetRegisters() {
+    this.registers.fill(0)
+    const { inputs } = HIL_REGISTERS
+    for (const address of [inputs.temperature, inputs.humidity, inputs.pressure, inputs.airFlow]) this.setFloat(address, NaN)
+    this.setFloat(inputs.current, this.plant.nominalCurrent)
+  }
+
+  private getFloat(address: number): number {
+    return decodeFloat32(this.registers[address], this.registers[address + 1])
+  }
+
+  private setFloat(address: number, value: number) {
+    const [high, low] = encodeFloat32(value)
+    this.registers[address] = high
+    this.registers[address + 1] = low
+  }
+}
+
+export interface ModbusPlantOptions {
+  host: string
+  port: number
+  unitId?: number
+  clock?: 'lockstep' | 'realtime' // Defaults to lockstep
+  timeScale?: number // realtime only: simulated seconds per wall-clock second
+  timeout?: number // ms per request
+}
+
+/** A plant, real or simulated, behind a Modbus/TCP endpoint using HIL_REGISTERS. */
+export class ModbusHILPlant implements HILPlant {
+  public readonly description: string
+  private clock: 'lockstep' | 'realtime'
+
+  private constructor(private client: ModbusTcpClient, private options: ModbusPlantOptions) {
+    this.clock = options.clock ?? 'lockstep'
+    this.description = `Modbus/TCP plant at ${options.host}:${options.port} (${this.clock})`
+  }
+
+  public static async connect(options: ModbusPlantOptions): Promise<ModbusHILPlant> {
+    const client = new ModbusTcpClient(options)
+    await client.connect()
+    return new ModbusHILPlant(client, options)
+  }
+
+  public async reset(): Promise<void> {
+    await this.client.writeFloats(HIL_REGISTERS.reset, [1])
+  }
+
+  public async setInputs(inputs: HILActuatorInputs): Promise<void> {
+    for (const [key, value] of Object.entries(inputs)) {
+      if (value === undefined) continue
+      const address = HIL_REGISTERS.inputs[key as keyof HILActuatorInputs]
+      await this.client.writeFloats(address, [value === null ? NaN : Number(value)])
+    }
+  }
+
+  public async setFault(fault: HILFaultCommand | null): Promise<void> {
+    await this.client.writeFloats(HIL_REGISTERS.inputs.fault, fault
+      ? [HIL_FAULT_TYPES.indexOf(fault.type) + 1, fault.magnitude, fault.sensor ? MONITORED_SIGNALS.indexOf(fault.sensor) + 1 : 0]
+      : [0, 0, 0])
+  }
+
+  public async advance(dt: number): Promise<void> {
+    if (this.clock === 'lockstep') {
+      await this.client.writeFloats(HIL_REGISTERS.advance, [dt])
+    } else {
+      await new Promise(resolve => setTimeout(resolve, dt * 1000 / (this.options.timeScale ?? 1)))
+    }
+  }
+
+  public async read(): Promise<HILReading> {
+    const values = await this.client.readFloats(HIL_REGISTERS.outputs, HIL_CHANNELS.length)
+    return Object.fromEntries(HIL_CHANNELS.map((channel, i) => [channel, values[i]])) as unknown as HILReading
+  }
+
+  public async close(): Promise<void> {
+    await this.client.close()
+  }
+}
+
+// ============================================================================
+// SCENARIO RUNNER
+// ============================================================================
+
+export interface HILRunOptions {
+  timeStep?: number // Simulated seconds between plant samples, default 0.1
+  maxMeasurements?: number // Recorded measurements are decimated to at most this many, default 2000
+}
+
+const MAX_PLANT_STEPS = 100000
+const SAFETY_WARNING_FRACTION = 0.95
+const DEFAULT_VERIFY_TOLERANCE = 0.05 // Relative, when a VERIFY_OUTPUT step gives none
+const SETTLING_BAND = 0.02 // Fraction of the step amplitude
+const STEADY_STATE_FRACTION = 0.1 // Outcomes use the mean over the last 10% of a scenario
+
+const SAFETY_CHECKS: { channel: keyof HILReading; limit: keyof HILTestConfig['safetyLimits']; unit: string }[] = [
+  { channel: 'temperature', limit: 'maxTemperature', unit: '°C' },
+  { channel: 'pressure', limit: 'maxPressure', unit: 'bar' },
+  { channel: 'current', limit: 'maxCurrent', unit: 'A' },
+  { channel: 'voltage', limit: 'maxVoltage', unit: 'V' }
+]
+
+const ACTUATOR_INPUTS = ['temperature', 'humidity', 'pressure', 'airFlow'] as const
+
+export interface HILSample {
+  time: number
+  reading: HILReading
+}
+
+interface RunContext {
+  config: HILTestConfig
+  plant: HILPlant
+  dt: number
+  sampleInterval: number
+  channels: (keyof HILReading)[]
+  offset: number // Test time at which the scenario started
+  faults: HILFault[]
+  measurements: HILTestReport['measurements']
+  lastRecorded: number
+  warned: Set<string>
+  efficiencySum: number
+  sampleCount: number
+}
+
+export function scenarioDuration(scenario: HILTestScenario): number {
+  return Math.max(scenario.duration, ...scenario.steps.map(step => step.time), 0)
+}
+
+/**
+ * Run every scenario of `config` against `plant` in turn, resetting the
+ * plant in between. A safety limit violation sheds the load and aborts the
+ * whole test; the remaining steps and scenarios are reported as skipped.
+ */
+export async function runHILTest(config: HILTestConfig, plant: HILPlant, options: HILRunOptions = {}): Promise<HILTestReport> {
+  const dt = options.timeStep ?? 0.1
+  const totalDuration = config.testScenarios.reduce((sum, scenario) => sum + scenarioDuration(scenario), 0)
+  if (!(dt > 0)) throw new Error('Invalid time step: must be positive')
+  if (totalDuration / dt > MAX_PLANT_STEPS) {
+    throw new Error(`Invalid HIL test: ${Math.ceil(totalDuration / dt)} plant steps exceed the limit of ${MAX_PLANT_STEPS}; use a larger time step`)
+  }
+
+  const requested = config.dataAcquisition.channels.filter((channel): channel is keyof HILReading =>
+    (HIL_CHANNELS as string[]).includes(channel))
+  const context: RunContext = {
+    config,
+    plant,
+    dt,
+    sampleInterval: Math.max(dt, 1 / Math.max(config.dataAcquisition.sampleRate, 1e-6), totalDuration / ((options.maxMeasurements ?? 2000) - 1)),
+    channels: requested.length > 0 ? requested : HIL_CHANNELS,
+    offset: 0,
+    faults: [],
+    measurements: [],
+    lastRecorded: -Infinity,
+    warned: new Set(),
+    efficiencySum: 0,
+    sampleCount: 0
+  }
+
+  const startTime = new Date().toISOString()
+  const scenarios: HILScenarioReport[] = []
+  let abortReason: string | undefined
+
+  for (const scenario of config.testScenarios) {
+    if (abortReason) {
+      scenarios.push(skippedScenario(scenario, context.offset))
+      continue
+    }
+    await plant.reset()
+    const result = await runScenario(scenario, context)
+    scenarios.push(result.report)
+    context.offset += result.report.duration
+    abortReason = result.abortReason
+  }
+
+  const steps = scenarios.flatMap(scenario => scenario.steps)
+  const outcomes = scenarios.flatMap(scenario => scenario.outcomes)
+  const passedSteps = steps.filter(step => step.status === 'PASSED').length
+  const passedOutcomes = outcomes.filter(outcome => outcome.passed).length
+
+  return {
+    testId: `hil_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    testName: config.testName,
+    plant: plant.description,
+    status: abortReason ? 'ABORTED' : scenarios.every(scenario => scenario.status === 'PASSED') ? 'PASSED' : 'FAILED',
+    startTime,
+    endTime: new Date().toISOString(),
+    duration: context.offset,
+    measurements: context.measurements,
+    faults: context.faults,
+    summary: {
+      passedSteps,
+      totalSteps: steps.length,
+      efficiency: context.sampleCount > 0 ? context.efficiencySum / context.sampleCount : 0,
+      performanceScore: Math.round(100 * (passedSteps + passedOutcomes) / Math.max(1, steps.length + outcomes.length))
+    },
+    scenarios,
+    ...(abortReason && { abortReason })
+  }
+}
+
+async function runScenario(
+  scenario: HILTestScenario,
+  context: RunContext
+): Promise<{ report: HILScenarioReport; abortReason?: string }> {
+  const { plant, dt } = context
+  const duration = scenarioDuration(scenario)
+  const order = scenario.steps.map((step, index) => ({ step, index })).sort((a, b) => a.step.time - b.step.time)
+  const stepReports: HILStepReport[] = scenario.steps.map(step => ({
+    time: step.time,
+    action: step.action,
+    description: step.description,
+    status: 'SKIPPED'
+  }))
+  const samples: HILSample[] = []
+  const loadChanges: number[] = []
+  let fault: { until: number } | null = null
+  let abortReason: string | undefined
+  let time = 0
+  let next = 0
+
+  const sample = async () => {
+    const reading = await plant.read()
+    samples.push({ time, reading })
+    record(context, time, reading)
+    abortReason = checkSafety(context, time, reading)
+    if (abortReason) await plant.setInputs({ current: 0 })
+    return reading
+  }
+
+  let reading = await sample()
+  while (!abortReason) {
+    for (; next < order.length && order[next].step.time <= time + 1e-9; next++) {
+      const { step, index } = order[next]
+      const outcome = await executeStep(step, { context, reading, time, duration })
+      stepReports[index] = { ...stepReports[index], ...outcome.report }
+      if (outcome.loadChanged) loadChanges.push(time)
+      if (outcome.faultUntil !== undefined) fault = { until: outcome.faultUntil }
+    }
+    if (time >= duration - 1e-9) break
+
+    if (fault && time >= fault.until - 1e-9) {
+      await plant.setFault(null)
+      fault = null
+    }
+    const h = Math.min(dt, duration - time)
+    await plant.advance(h)
+    time = Math.round((time + h) * 1e9) / 1e9 // Keep step times on the grid
+    reading = await sample()
+  }
+  if (fault) await plant.setFault(null)
+
+  const outcomes = evaluateOutcomes(scenario, samples, loadChanges, duration)
+  const passed = stepReports.every(step => step.status === 'PASSED') && outcomes.every(outcome => outcome.passed)
+
+  return {
+    report: {
+      scenarioId: scenario.id,
+      name: scenario.name,
+      status: abortReason ? 'ABORTED' : passed ? 'PASSED' : 'FAILED',
+      startedAt: context.offset,
+      duration: time,
+      steps: stepReports,
+      outcomes
+    },
+    abortReason
+  }
+}
+
+function skippedScenario(scenario: HILTestScenario, startedAt: number): HILScenarioReport {
+  return {
+    scenarioId: scenario.id,
+    name: scenario.name,
+    status: 'ABORTED',
+    startedAt,
+    duration: 0,
+    steps: scenario.steps.map(step => ({ time: step.time, action: step.action, description: step.description, status: 'SKIPPED' })),
+    outcomes: scenario.expectedOutcomes.map(outcome => ({ ...outcome, measured: null, passed: false }))
+  }
+}
+
+function record(context: RunContext, time: number, reading: HILReading) {
+  context.efficiencySum += reading.efficiency
+  context.sampleCount++
+
+  const timestamp = context.offset + time
+  if (timestamp < context.lastRecorded + context.sampleInterval - 1e-9) return
+  context.lastRecorded = timestamp
+  context.measurements.push({
+    timestamp,
+    parameters: Object.fromEntries(context.channels.map(channel => [channel, reading[channel]]))
+  })
+}
+
+function checkSafety(context: RunContext, time: number, reading: HILReading): string | undefined {
+  const timestamp = context.offset + time
+  for (const { channel, limit, unit } of SAFETY_CHECKS) {
+    const value = reading[channel]
+    const max = context.config.safetyLimits[limit]
+    if (value > max) {
+      const message = `${channel} ${value.toFixed(2)} ${unit} exceeded the safety limit of ${max} ${unit}; load shed and test aborted`
+      context.faults.push({ timestamp, severity: 'CRITICAL', message, parameter: channel, value })
+      return message
+    }
+    if (value > SAFETY_WARNING_FRACTION * max && !context.warned.has(channel)) {
+      context.warned.add(channel)
+      context.faults.push({
+        timestamp,
+        severity: 'HIGH',
+        message: `${channel} ${value.toFixed(2)} ${unit} is within ${Math.round((1 - SAFETY_WARNING_FRACTION) * 100)}% of the safety limit`,
+        parameter: channel,
+        value
+      })
+    }
+  }
+  return undefined
+}
+
+// ============================================================================
+// STEP EXECUTION
+// ============================================================================
+
+interface StepOutcome {
+  report: Pick<HILStepReport, 'status' | 'message'>
+  loadChanged?: boolean
+  faultUntil?: number
+}
+
+function failed(message: string): StepOutcome {
+  return { report: { status: 'FAILED', message } }
+}
+
+async function executeStep(
+  step: HILTestStep,
+  state: { context: RunContext; reading: HILReading; time: number; duration: number }
+): Promise<StepOutcome> {
+  const { context, reading, time, duration } = state
+  const { plant } = context
+  const parameters = step.parameters ?? {}
+
+  switch (step.action) {
+    case 'SET_INPUT': {
+      const inputs: HILActuatorInputs = {}
+      const ignored: string[] = []
+      for (const [key, value] of Object.entries(parameters)) {
+        if (key === 'purge') {
+          inputs.purge = Boolean(value)
+        } else if (key === 'current' || key === 'load') {
+          if (typeof value !== 'number' || value < 0) return failed(`${key} must be a non-negative current in A`)
+          inputs.current = value
+        } else if ((ACTUATOR_INPUTS as readonly string[]).includes(key)) {
+          if (value !== null && typeof value !== 'number') return failed(`${key} must be a number`)
+          inputs[key as typeof ACTUATOR_INPUTS[number]] = value
+        } else {
+          ignored.push(key)
+        }
+      }
+
+      await plant.setInputs(inputs)
+      if (ignored.length > 0) {
+        context.faults.push({
+          timestamp: context.offset + time,
+          severity: 'LOW',
+          message: `${ignored.join(', ')} ${ignored.length === 1 ? 'is' : 'are'} not an input of this plant and ${ignored.length === 1 ? 'was' : 'were'} ignored`
+        })
+      }
+      return {
+        report: { status: 'PASSED', ...(ignored.length > 0 && { message: `Ignored ${ignored.join(', ')}` }) },
+        loadChanged: inputs.current !== undefined
+      }
+    }
+
+    case 'CHANGE_LOAD': {
+      const current = parameters.current ?? parameters.load
+      if (typeof current !== 'number' || current < 0) return failed('CHANGE_LOAD needs a non-negative current (or load) in A')
+      await plant.setInputs({ current })
+      return { report: { status: 'PASSED', message: `Load set to ${current} A` }, loadChanged: true }
+    }
+
+    case 'INJECT_FAULT': {
+      const type = parameters.type ?? parameters.fault
+      if (!HIL_FAULT_TYPES.includes(type)) return failed(`Unknown fault type ${type}; expected one of ${HIL_FAULT_TYPES.join(', ')}`)
+      const sensor = parameters.sensor
+      if (sensor !== undefined && (FAULT_CATALOGUE[type as FaultType]?.category !== 'SENSOR' || !MONITORED_SIGNALS.includes(sensor))) {
+        return failed(`sensor must be one of ${MONITORED_SIGNALS.join(', ')}, for sensor faults only`)
+      }
+      const magnitude = Math.max(0, Math.min(1, typeof parameters.magnitude === 'number' ? parameters.magnitude : 0.5))
+      const faultDuration = typeof parameters.duration === 'number' && parameters.duration > 0 ? parameters.duration : duration - time
+      const severity: HILFaultSeverity = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'].includes(parameters.severity) ? parameters.severity : 'MEDIUM'
+
+      try {
+        await plant.setFault({ type, magnitude, ...(sensor && { sensor }) })
+      } catch (error) {
+        // Faults the plant cannot take (e.g. flooding in an SOFC) fail the step, not the test
+        const rejected = error instanceof ModbusError ? error.exceptionCode === ILLEGAL_DATA_VALUE : error instanceof Error && error.message.startsWith('Invalid ')
+        if (!rejected) throw error
+        return failed((error as Error).message)
+      }
+      const message = `Injected ${type}${sensor ? ` on the ${sensor} sensor` : ''} (magnitude ${magnitude}) for ${faultDuration} s`
+      context.faults.push({ timestamp: context.offset + time, severity, message })
+      return { report: { status: 'PASSED', message }, faultUntil: time + faultDuration }
+    }
+
+    case 'VERIFY_OUTPUT': {
+      const checks = verificationTargets(parameters)
+      if (checks.length === 0) return failed('VERIFY_OUTPUT needs a parameter and expectedValue, or expected<Parameter> values')
+
+      const results = checks.map(({ parameter, expectedValue, tolerance }) => {
+        const measured = (reading as unknown as Record<string, number>)[parameter]
+        if (typeof measured !== 'number') return { passed: false, text: `${parameter} is not measured` }
+        const passed = Math.abs(measured - expectedValue) <= tolerance
+        return { passed, text: `${parameter} ${measured.toFixed(2)} (expected ${expectedValue} ± ${tolerance})` }
+      })
+      return {
+        report: {
+          status: results.every(result => result.passed) ? 'PASSED' : 'FAILED',
+          message: results.map(result => result.text).join('; ')
+        }
+      }
+    }
+
+    case 'WAIT':
+      return { report: { status: 'PASSED' } }
+
+    default:
+      return failed(`Unknown action ${(step as HILTestStep).action}`)
+  }
+}
+
+// Either { parameter, expectedValue, tolerance } or { expectedVoltage: 45, tolerance: 5 }
+function verificationTargets(parameters: Record<string, any>): { parameter: string; expectedValue: number; tolerance: number }[] {
+  const tolerance = (expectedValue: number) => typeof parameters.tolerance === 'number'
+    ? parameters.tolerance
+    : Math.abs(expectedValue) * DEFAULT_VERIFY_TOLERANCE
+
+  if (typeof parameters.parameter === 'string' && typeof parameters.expectedValue === 'number') {
+    return [{ parameter: parameters.parameter, expectedValue: parameters.expectedValue, tolerance: tolerance(parameters.expectedValue) }]
+  }
+  return Object.entries(parameters)
+    .filter(([key, value]) => /^expected[A-Z]/.test(key) && typeof value === 'number')
+    .map(([key, value]) => ({
+      parameter: key.charAt(8).toLowerCase() + key.slice(9),
+      expectedValue: value as number,
+      tolerance: tolerance(value as number)
+    }))
+}
+
+// ============================================================================
+// OUTCOME EVALUATION
+// ============================================================================
+
+/**
+ * Settling time (2% band) and overshoot of delivered power after each load
+ * change, worst case over the scenario. Null without a measurable step.
+ */
+export function loadStepResponse(samples: HILSample[], loadChanges: number[], end: number): { responseTime: number; overshoot: number } | null {
+  let responseTime: number | null = null
+  let overshoot = 0
+
+  loadChanges.forEach((start, i) => {
+    const stop = loadChanges[i + 1] ?? end
+    const before = samples.filter(sample => sample.time <= start + 1e-9).pop()
+    const segment = samples.filter(sample => sample.time > start + 1e-9 && sample.time <= stop + 1e-9)
+    if (!before || segment.length === 0) return
+
+    const initial = before.reading.power
+    const final = mean(steadyState(segment, stop - start).map(sample => sample.reading.power))
+    const amplitude = final - initial
+    if (Math.abs(amplitude) < 1e-3 * Math.max(Math.abs(initial), 1)) return
+
+    const outside = segment.filter(sample => Math.abs(sample.reading.power - final) > SETTLING_BAND * Math.abs(amplitude))
+    const settled = outside.length > 0 ? outside[outside.length - 1].time - start : segment[0].time - start
+    const peak = Math.max(...segment.map(sample => (sample.reading.power - final) * Math.sign(amplitude)))
+
+    responseTime = Math.max(responseTime ?? 0, settled)
+    overshoot = Math.max(overshoot, Math.max(0, peak) / Math.abs(amplitude) * 100)
+  })
+
+  return responseTime === null ? null : { responseTime, overshoot }
+}
+
+function steadyState(samples: HILSample[], duration: number): HILSample[] {
+  const from = samples[samples.length - 1].time - STEADY_STATE_FRACTION * duration
+  return samples.filter(sample => sample.time >= from - 1e-9)
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function evaluateOutcomes(
+  scenario: HILTestScenario,
+  samples: HILSample[],
+  loadChanges: number[],
+  duration: number
+): HILOutcomeReport[] {
+  const window = steadyState(samples, duration)
+  const response = loadStepResponse(samples, loadChanges, samples[samples.length - 1].time)
+
+  return scenario.expectedOutcomes.map(outcome => {
+    let measured: number | null = null
+    if ((HIL_CHANNELS as string[]).includes(outcome.parameter)) {
+      measured = mean(window.map(sample => sample.reading[outcome.parameter as keyof HILReading]))
+    } else if (outcome.parameter === 'responseTime' || outcome.parameter === 'overshoot') {
+      measured = response?.[outcome.parameter] ?? null
+    }
+    return {
+      ...outcome,
+      measured,
+      passed: measured !== null && Math.abs(measured - outcome.expectedValue) <= outcome.tolerance
+    }
+  })
+}
@@ -0,0 +1,600 @@
+import { invertMatrix, jacobian, levenbergMarquardt, multiplyTransposed, type LevenbergMarquardtOptions } from './least-squares'
+
+// ============================================================================
+// EQUIVALENT CIRCUIT INTERFACES
+// ============================================================================
+
+export type CircuitElementType = 'R' | 'C' | 'CPE' | 'W'
+
+// Parsed circuit, e.g. "R0-p(R1,C1)" is a series of R0 and a parallel R1/C1 block
+export type CircuitNode =
+  | { kind: 'element'; type: CircuitElementType; name: string }
+  | { kind: 'series'; children: CircuitNode[] }
+  | { kind: 'parallel'; children: CircuitNode[] }
+
+// Parameter values keyed by name: R and C by element name (Ω, F), CPE by
+// `${name}_Q` (F·s^(n-1)) and `${name}_n`, Warburg by element name (σ, Ω·s^-½)
+export type CircuitParameters = Record<string, number>
+
+export interface ImpedancePoint {
+  frequency: number // Hz
+  real: number // Z' (Ω)
+  imaginary: number // Z'' (Ω), negative for capacitive behaviour
+}
+
+export interface SpectrumPoint extends ImpedancePoint {
+  magnitude: number // |Z| (Ω)
+  phase: number // degrees
+}
+
+export interface ImpedanceFitRequest {
+  circuit: string
+  data: ImpedancePoint[]
+  initialParameters?: CircuitParameters // Starting values; omitted ones are estimated from the data
+  fixedParameters?: CircuitParameters // Held constant during the fit
+  electrodes?: ElectrodeAssignments
+}
+
+// Charge transfer resistor names attributed to each electrode
+export interface ElectrodeAssignments {
+  anode?: string[]
+  cathode?: string[]
+}
+
+export interface FittedParameter {
+  estimate: number
+  standardError: number | null // null when the data cannot identify the parameter
+  relativeError: number | null // %
+  fixed: boolean
+}
+
+export interface ImpedanceFitStatistics {
+  points: number
+  degreesOfFreedom: number
+  chiSquared: number // Sum of squared modulus-weighted residuals
+  rmsRelativeError: number // sqrt(χ² / 2N)
+  iterations: number
+  converged: boolean
+}
+
+export interface ChargeTransferArc {
+  element: string // Resistor name
+  resistance: number // Ω
+  capacitance: number | null // Effective double-layer capacitance (F)
+  peakFrequency: number | null // Hz, apex of the arc
+  electrode: 'anode' | 'cathode' | null
+}
+
+export interface ResistanceSummary {
+  ohmic: number // Series resistances outside any parallel block (Ω)
+  chargeTransfer: ChargeTransferArc[] // Sorted by peak frequency, highest first
+  anode: number | null // Sum of anode charge transfer resistances (Ω)
+  cathode: number | null
+  total: number // Sum of ohmic and charge transfer resistances (Ω)
+}
+
+export interface ImpedanceFitResult {
+  circuit: string
+  parameters: CircuitParameters
+  estimates: Record<string, FittedParameter>
+  statistics: ImpedanceFitStatistics
+  residuals: ImpedancePoint[] // Relative to |Z|, measured minus fitted
+  spectrum: SpectrumPoint[] // Fitted impedance at the measured frequencies
+  resistances: ResistanceSummary
+}
+
+export const CIRCUIT_PRESETS = [
+  { id: 'randles', name: 'Randles cell', circuit: 'R0-p(R1,C1)' },
+  { id: 'randles-cpe', name: 'Randles with CPE', circuit: 'R0-p(R1,CPE1)' },
+  { id: 'randles-warburg', name: 'Randles with Warburg diffusion', circuit: 'R0-p(CPE1,R1-W1)' },
+  // Fitted arcs are listed from high to low frequency
+  { id: 'two-electrode', name: 'Whole cell (two arcs)', circuit: 'R0-p(R1,CPE1)-p(R2,CPE2)' },
+  { id: 'biofilm', name: 'Nested biofilm layer', circuit: 'R0-p(CPE1,R1-p(R2,CPE2))' }
+] as const
+
+interface Complex {
+  re: number
+  im: number
+}
+
+const ELEMENT_PATTERN = /^(CPE|R|C|W)[A-Za-z0-9_]*/
+
+// Impedance spans decades, so the fit runs longer and to tighter tolerances than the defaults
+const CNLS_SOLVER: LevenbergMarquardtOptions = { maxIterations: 300, relativeTolerance: 1e-12, stepTolerance: 1e-9 }
+
+// ============================================================================
+// IMPEDANCE ENGINE
+// ============================================================================
+
+export class ImpedanceEngine {
+  /**
+   * Parse circuit notation: elements R, C, CPE and W followed by a unique
+   * suffix, `-` for series and `p(a,b,...)` for parallel branches, nested freely,
+   * e.g. "R0-p(CPE1,R1-p(R2,C2))".
+   */
+  static parseCircuit(expression: string): CircuitNode {
+    const source = expression.replace(/\s+/g, '')
+    let position = 0
+    const names = new Set<string>()
+
+    const fail = (message: string): never => {
+      throw new Error(`Invalid circuit: ${message} at position ${position + 1} in "${expression}"`)
+    }
+
+    const parseSeries = (): CircuitNode => {
+      const children = [parseTerm()]
+      while (source[position] === '-') {
+        position++
+        children.push(parseTerm())
+      }
+      return children.length === 1 ? children[0] : { kind: 'series', children }
+    }
+
+    const parseTerm = (): CircuitNode => {
+      if (source.startsWith('p(', position)) {
+        position += 2
+        const children = [parseSeries()]
+        while (source[position] === ',') {
+          position++
+          children.push(parseSeries())
+        }
+        if (source[position] !== ')') fail('expected ")"')
+        position++
+        if (children.length < 2) fail('a parallel block needs at least two branches')
+        return { kind: 'parallel', children }
+      }
+
+      const match = ELEMENT_PATTERN.exec(source.slice(position))
+      if (!match) return fail('expected an element (R, C, CPE, W) or p(...)')
+      const name = match[0]
+      if (names.has(name)) fail(`duplicate element name ${name}`)
+      names.add(name)
+      position += name.length
+      return { kind: 'element', type: match[1] as CircuitElementType, name }
+    }
+
+    if (!source) fail('empty circuit')
+    const circuit = parseSeries()
+    if (position < source.length) fail(`unexpected "${source[position]}"`)
+    return circuit
+  }
+
+  /**
+   * Names of the parameters a circuit needs, in element order.
+   */
+  static parameterNames(circuit: CircuitNode): string[] {
+    return elements(circuit).flatMap(element =>
+      element.type === 'CPE' ? [`${element.name}_Q`, `${element.name}_n`] : [element.name])
+  }
+
+  /**
+   * Complex impedance of a circuit at one frequency.
+   */
+  static impedance(circuit: CircuitNode, parameters: CircuitParameters, frequency: number): { real: number; imaginary: number } {
+    const z = evaluate(circuit, parameters, 2 * Math.PI * frequency)
+    return { real: z.re, imaginary: z.im }
+  }
+
+  /**
+   * Simulate the spectrum of a circuit over the given frequencies.
+   */
+  static simulate(circuit: string | CircuitNode, parameters: CircuitParameters, frequencies: number[]): SpectrumPoint[] {
+    const node = typeof circuit === 'string' ? this.parseCircuit(circuit) : circuit
+    const missing = this.parameterNames(node).filter(name => !Number.isFinite(parameters[name]))
+    if (missing.length > 0) {
+      throw new Error(`Invalid circuit parameters: missing ${missing.join(', ')}`)
+    }
+    return frequencies.map(frequency => toSpectrumPoint(frequency, evaluate(node, parameters, 2 * Math.PI * frequency)))
+  }
+
+  /**
+   * Logarithmically spaced frequencies from high to low, as potentiostats sweep.
+   */
+  static logFrequencies(minimum: number, maximum: number, pointsPerDecade = 10): number[] {
+    if (!(minimum > 0) || !(maximum > minimum)) {
+      throw new Error('Invalid frequency range: need 0 < minimum < maximum')
+    }
+    const decades = Math.log10(maximum / minimum)
+    const count = Math.max(2, Math.round(decades * pointsPerDecade) + 1)
+    return Array.from({ length: count }, (_, i) => maximum * Math.pow(10, -(decades * i) / (count - 1)))
+  }
+
+  /**
+   * Fit a circuit to measured impedance with complex nonlinear least squares.
+   * Residuals are weighted by |Z| so every decade counts, parameters are searched
+   * in log space (logistic for CPE exponents) and several starts guard against
+   * swapped or merged arcs.
+   */
+  static fit(request: ImpedanceFitRequest): ImpedanceFitResult {
+    const circuit = this.parseCircuit(request.circuit)
+    const names = this.parameterNames(circuit)
+    const fixed = request.fixedParameters ?? {}
+    const free = names.filter(name => fixed[name] === undefined)
+    const data = this.validateData(request.data, free.length)
+
+    const unknown = Object.keys({ ...request.initialParameters, ...fixed }).filter(name => !names.includes(name))
+    if (unknown.length > 0) {
+      throw new Error(`Invalid circuit parameters: ${unknown.join(', ')} not in circuit ${request.circuit}`)
+    }
+
+    const transforms = free.map(name => (name.endsWith('_n') && isCpeExponent(circuit, name) ? LOGISTIC : LOG))
+    const toParameters = (theta: number[]): CircuitParameters => {
+      const parameters: CircuitParameters = { ...fixed }
+      free.forEach((name, k) => { parameters[name] = transforms[k].toValue(theta[k]) })
+      return parameters
+    }
+    const residualsAt = (theta: number[]) => {
+      const parameters = toParameters(theta)
+      return data.flatMap(point => {
+        const z = evaluate(circuit, parameters, 2 * Math.PI * point.frequency)
+        const weight = Math.hypot(point.real, point.imaginary)
+        return [(point.real - z.re) / weight, (point.imaginary - z.im) / weight]
+      })
+    }
+
+    const guess = { ...estimateInitialParameters(circuit, data), ...request.initialParameters }
+    const capacitive = free.filter(name => isCapacitive(circuit, name))
+    const starts = [1, 10, 0.1, 100, 0.01, -1].map(scale => free.map((name, k) => {
+      const index = capacitive.indexOf(name)
+      // Negative scale spreads the time constants apart to separate overlapping arcs
+      const factor = index < 0 ? 1 : scale > 0 ? scale : Math.pow(100, index - (capacitive.length - 1) / 2)
+      return transforms[k].toTheta(guess[name] * factor)
+    }))
+
+    let best = levenbergMarquardt(residualsAt, starts[0], CNLS_SOLVER)
+    for (const start of starts.slice(1)) {
+      const candidate = levenbergMarquardt(residualsAt, start, CNLS_SOLVER)
+      if (candidate.sse < best.sse) best = candidate
+    }
+
+    const parameters = orderEquivalentBlocks(circuit, toParameters(best.theta), free)
+    best.theta = free.map((name, k) => transforms[k].toTheta(parameters[name]))
+    const degreesOfFreedom = 2 * data.length - free.length
+    const residualVariance = degreesOfFreedom > 0 ? best.sse / degreesOfFreedom : NaN
+    const covariance = invertMatrix(multiplyTransposed(jacobian(residualsAt, best.theta, best.residuals)))
+
+    const estimates: Record<string, FittedParameter> = {}
+    names.forEach(name => {
+      const k = free.indexOf(name)
+      if (k < 0) {
+        estimates[name] = { estimate: fixed[name], standardError: null, relativeError: null, fixed: true }
+        return
+      }
+      const variance = covariance ? covariance[k][k] * residualVariance : NaN
+      // Delta method through the transform
+      const derivative = (transforms[k].toValue(best.theta[k] + 1e-6) - transforms[k].toValue(best.theta[k] - 1e-6)) / 2e-6
+      const standardError = Number.isFinite(variance) && variance >= 0 ? Math.abs(derivative) * Math.sqrt(variance) : null
+      estimates[name] = {
+        estimate: parameters[name],
+        standardError,
+        relativeError: standardError === null ? null : (standardError / Math.abs(parameters[name])) * 100,
+        fixed: false
+      }
+    })
+
+    return {
+      circuit: request.circuit,
+      parameters,
+      estimates,
+      statistics: {
+        points: data.length,
+        degreesOfFreedom,
+        chiSquared: best.sse,
+        rmsRelativeError: Math.sqrt(best.sse / (2 * data.length)),
+        iterations: best.iterations,
+        converged: best.converged
+      },
+      residuals: data.map((point, i) => ({
+        frequency: point.frequency,
+        real: best.residuals[2 * i],
+        imaginary: best.residuals[2 * i + 1]
+      })),
+      spectrum: this.simulate(circuit, parameters, data.map(point => point.frequency)),
+      resistances: this.resistances(circuit, parameters, request.electrodes)
+    }
+  }
+
+  /**
+   * Ohmic and charge transfer resistances of a circuit. A resistor in series
+   * with the whole circuit is ohmic; one inside a parallel block with a
+   * capacitor or CPE is a charge transfer resistance, whose arc apex follows
+   * from the effective capacitance (Brug formula for CPEs).
+   */
+  static resistances(circuit: string | CircuitNode, parameters: CircuitParameters, electrodes: ElectrodeAssignments = {}): ResistanceSummary {
+    const node = typeof circuit === 'string' ? this.parseCircuit(circuit) : circuit
+    const topLevel = node.kind === 'series' ? node.children : [node]
+    const resistors = elements(node).filter(element => element.type === 'R')
+
+    const unknown = [...(electrodes.anode ?? []), ...(electrodes.cathode ?? [])].filter(name =>
+      !resistors.some(resistor => resistor.name === name))
+    if (unknown.length > 0) {
+      throw new Error(`Invalid electrode assignment: ${unknown.join(', ')} is not a resistor in the circuit`)
+    }
+
+    const ohmic = topLevel
+      .filter((child): child is Extract<CircuitNode, { kind: 'element' }> => child.kind === 'element' && child.type === 'R')
+      .reduce((sum, element) => sum + parameters[element.name], 0)
+
+    const chargeTransfer: ChargeTransferArc[] = []
+    collectArcs(node, parameters, chargeTransfer)
+    chargeTransfer.forEach(arc => {
+      arc.electrode = electrodes.anode?.includes(arc.element)
+        ? 'anode'
+        : electrodes.cathode?.includes(arc.element) ? 'cathode' : null
+    })
+    chargeTransfer.sort((a, b) => (b.peakFrequency ?? 0) - (a.peakFrequency ?? 0))
+
+    const electrodeTotal = (electrode: 'anode' | 'cathode') => {
+      const arcs = chargeTransfer.filter(arc => arc.electrode === electrode)
+      return arcs.length > 0 ? arcs.reduce((sum, arc) => sum + arc.resistance, 0) : null
+    }
+
+    return {
+      ohmic,
+      chargeTransfer,
+      anode: electrodeTotal('anode'),
+      cathode: electrodeTotal('cathode'),
+      total: ohmic + chargeTransfer.reduce((sum, arc) => sum + arc.resistance, 0)
+    }
+  }
+
+  /**
+   * Parse a potentiostat impedance export (CSV, semicolon or tab separated).
+   * Recognises frequency, Z'/Re(Z) and Z''/Im(Z) columns, including "-Z''" and
+   * "-Im(Z)" exports, or |Z| with phase. Without a header the columns are taken
+   * as frequency, Z', Z''.
+   */
+  static parseCsv(text: string): ImpedancePoint[] {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'))
+    if (lines.length === 0) {
+      throw new Error('Invalid impedance data: file is empty')
+    }
+
+    const delimiter = ['\t', ';', ','].find(candidate => lines[0].includes(candidate)) ?? ','
+    const split = (line: string) => line.split(delimiter).map(value => value.trim().replace(/^"|"$/g, ''))
+    const firstRow = split(lines[0])
+    const hasHeader = firstRow.some(value => value !== '' && !Number.isFinite(Number(value)))
+
+    let columns = { frequency: 0, real: 1, imaginary: 2, magnitude: -1, phase: -1 }
+    let negateImaginary = false
+    if (hasHeader) {
+      // "Re(Z)/Ohm" -> "re", "-Z'' (Ω)" -> "-z''", "Freq/Hz" -> "freq"
+      const header = firstRow.map(column => column.toLowerCase().replace(/\s+/g, '').replace(/[([/].*$/, ''))
+      const find = (pattern: RegExp) => header.findIndex(column => pattern.test(column))
+
+      columns = {
+        frequency: find(/^freq/),
+        real: find(/^(z'|zre|zreal|real|re)$/),
+        imaginary: find(/^-?(z''|z"|zim|zimag|zimaginary|imag|im)$/),
+        magnitude: find(/^(\|z\||zmod|mod|magnitude)$/),
+        phase: find(/^-?(phase|zphz|phz|phi)/)
+      }
+      negateImaginary = columns.imaginary >= 0 && header[columns.imaginary].startsWith('-')
+
+      if (columns.frequency < 0) {
+        throw new Error('Invalid impedance data: no frequency column')
+      }
+      if ((columns.real < 0 || columns.imaginary < 0) && (columns.magnitude < 0 || columns.phase < 0)) {
+        throw new Error("Invalid impedance data: need Z' and Z'' columns or |Z| and phase columns")
+      }
+    }
+    const useRectangular = columns.real >= 0 && columns.imaginary >= 0
+
+    const rows = hasHeader ? lines.slice(1) : lines
+    const points = rows.map((line, row) => {
+      const values = split(line).map(Number)
+      const frequency = values[columns.frequency]
+      let real: number
+      let imaginary: number
+      if (useRectangular) {
+        real = values[columns.real]
+        imaginary = negateImaginary ? -values[columns.imaginary] : values[columns.imaginary]
+      } else {
+        const phase = (values[columns.phase] * Math.PI) / 180
+        real = values[columns.magnitude] * Math.cos(phase)
+        imaginary = values[columns.magnitude] * Math.sin(phase)
+      }
+      if (![frequency, real, imaginary].every(Number.isFinite)) {
+        throw new Error(`Invalid impedance data: non-numeric value on row ${row + (hasHeader ? 2 : 1)}`)
+      }
+      return { frequency, real, imaginary }
+    })
+
+    // Some exports give -Z'' without saying so; capacitive spectra have Z'' < 0
+    const positive = points.filter(point => point.imaginary > 0).length
+    return useRectangular && !negateImaginary && positive > points.length / 2
+      ? points.map(point => ({ ...point, imaginary: -point.imaginary }))
+      : points
+  }
+
+  // ==========================================================================
+  // FITTING HELPERS
+  // ==========================================================================
+
+  private static validateData(data: ImpedancePoint[], parameterCount: number): ImpedancePoint[] {
+    const minimum = Math.max(3, Math.ceil(parameterCount / 2) + 1)
+    if (data.length < minimum) {
+      throw new Error(`Invalid impedance data: fitting ${parameterCount} parameters needs at least ${minimum} frequencies`)
+    }
+    if (data.some(point => ![point.frequency, point.real, point.imaginary].every(Number.isFinite))) {
+      throw new Error('Invalid impedance data: values must be finite numbers')
+    }
+    if (data.some(point => point.frequency <= 0 || Math.hypot(point.real, point.imaginary) === 0)) {
+      throw new Error('Invalid impedance data: frequencies must be positive and |Z| non-zero')
+    }
+    return [...data].sort((a, b) => b.frequency - a.frequency)
+  }
+}
+
+// ============================================================================
+// CIRCUIT HELPERS
+// ============================================================================
+
+const LOG = { toValue: (theta: number) => Math.exp(theta), toTheta: (value: number) => Math.log(value) }
+const LOGISTIC = {
+  toValue: (theta: number) => 1 / (1 + Math.exp(-theta)),
+  toTheta: (value: number) => {
+    const bounded = Math.min(Math.max(value, 1e-6), 1 - 1e-6)
+    return Math.log(bounded / (1 - bounded))
+  }
+}
+
+function elements(node: CircuitNode): Extract<CircuitNode, { kind: 'element' }>[] {
+  return node.kind === 'element' ? [node] : node.children.flatMap(elements)
+}
+
+function isCpeExponent(circuit: CircuitNode, name: string): boolean {
+  return elements(circuit).some(element => element.type === 'CPE' && `${element.name}_n` === name)
+}
+
+function isCapacitive(circuit: CircuitNode, name: string): boolean {
+  return elements(circuit).some(element =>
+    (element.type === 'C' && element.name === name) || (element.type === 'CPE' && `${element.name}_Q` === name))
+}
+
+function evaluate(node: CircuitNode, parameters: CircuitParameters, omega: number): Complex {
+  switch (node.kind) {
+    case 'series':
+      return node.children.reduce((sum, child) => add(sum, evaluate(child, parameters, omega)), { re: 0, im: 0 })
+    case 'parallel':
+      return invert(node.children.reduce((sum, child) => add(sum, invert(evaluate(child, parameters, omega))), { re: 0, im: 0 }))
+    case 'element':
+      switch (node.type) {
+        case 'R':
+          return { re: parameters[node.name], im: 0 }
+        case 'C':
+          return { re: 0, im: -1 / (omega * parameters[node.name]) }
+        case 'CPE': {
+          // Z = 1 / (Q (jω)^n)
+          const q = parameters[`${node.name}_Q`]
+          const n = parameters[`${node.name}_n`]
+          const magnitude = 1 / (q * Math.pow(omega, n))
+          const angle = (-n * Math.PI) / 2
+          return { re: magnitude * Math.cos(angle), im: magnitude * Math.sin(angle) }
+        }
+        case 'W': {
+          // Semi-infinite Warburg: Z = σ (1 - j) / √ω
+          const sigma = parameters[node.name] / Math.sqrt(omega)
+          return { re: sigma, im: -sigma }
+        }
+      }
+  }
+}
+
+function collectArcs(node: CircuitNode, parameters: CircuitParameters, arcs: ChargeTransferArc[]): void {
+  if (node.kind === 'element') return
+
+  if (node.kind === 'parallel') {
+    const capacitor = node.children.find(child => child.kind === 'element' && (child.type === 'C' || child.type === 'CPE'))
+    for (const child of node.children) {
+      // The resistor may sit in series with diffusion or a nested block on its branch
+      const branch = child.kind === 'series' ? child.children : [child]
+      const resistor = branch.find(element => element.kind === 'element' && element.type === 'R')
+      if (!resistor || resistor.kind !== 'element' || !capacitor || capacitor.kind !== 'element') continue
+
+      const resistance = parameters[resistor.name]
+      let capacitance: number | null = null
+      if (capacitor.type === 'C') {
+        capacitance = parameters[capacitor.name]
+      } else {
+        // Brug et al.: C = (Q R^(1-n))^(1/n)
+        const q = parameters[`${capacitor.name}_Q`]
+        const n = parameters[`${capacitor.name}_n`]
+        capacitance = Math.pow(q * Math.pow(resistance, 1 - n), 1 / n)
+      }
+      arcs.push({
+        element: resistor.name,
+        resistance,
+        capacitance,
+        peakFrequency: capacitance > 0 ? 1 / (2 * Math.PI * resistance * capacitance) : null,
+        electrode: null
+      })
+    }
+  }
+
+  node.children.forEach(child => collectArcs(child, parameters, arcs))
+}
+
+// Identical blocks in series (e.g. two RC arcs) fit equally well in either order;
+// list them from high to low peak frequency so results are reproducible
+function orderEquivalentBlocks(circuit: CircuitNode, parameters: CircuitParameters, free: string[]): CircuitParameters {
+  if (circuit.kind !== 'series') return parameters
+
+  const signature = (node: CircuitNode): string =>
+    node.kind === 'element' ? node.type : `${node.kind}(${node.children.map(signature).join(',')})`
+  const groups = new Map<string, CircuitNode[]>()
+  circuit.children
+    .filter(child => child.kind === 'parallel')
+    .forEach(child => groups.set(signature(child), [...(groups.get(signature(child)) ?? []), child]))
+
+  const ordered = { ...parameters }
+  groups.forEach(blocks => {
+    const names = blocks.map(block => ImpedanceEngine.parameterNames(block))
+    // Only reorder when every parameter of the blocks is fitted
+    if (blocks.length < 2 || names.flat().some(name => !free.includes(name))) return
+
+    const peak = (block: CircuitNode) => {
+      const arcs: ChargeTransferArc[] = []
+      collectArcs(block, parameters, arcs)
+      return Math.max(0, ...arcs.map(arc => arc.peakFrequency ?? 0))
+    }
+    const sorted = blocks.map((block, i) => ({ i, peak: peak(block) })).sort((a, b) => b.peak - a.peak)
+    sorted.forEach(({ i }, position) => {
+      names[position].forEach((name, k) => { ordered[name] = parameters[names[i][k]] })
+    })
+  })
+  return ordered
+}
+
+function estimateInitialParameters(circuit: CircuitNode, data: ImpedancePoint[]): CircuitParameters {
+  // data is sorted from high to low frequency
+  const highFrequencyReal = Math.max(Math.min(...data.map(point => point.real)), 1e-3)
+  const span = Math.max(data[data.length - 1].real - data[0].real, highFrequencyReal * 0.1, 1e-3)
+  const apex = data.reduce((best, point) => (-point.imaginary > -best.imaginary ? point : best), data[0])
+
+  const topLevel = circuit.kind === 'series' ? circuit.children : [circuit]
+  const seriesResistors = topLevel.filter(child => child.kind === 'element' && child.type === 'R').length
+  const arcResistors = elements(circuit).filter(element => element.type === 'R').length - seriesResistors
+  const arcResistance = span / Math.max(arcResistors, 1)
+  const capacitance = 1 / (2 * Math.PI * apex.frequency * arcResistance)
+  const lowestOmega = 2 * Math.PI * data[data.length - 1].frequency
+
+  const guess: CircuitParameters = {}
+  for (const element of elements(circuit)) {
+    switch (element.type) {
+      case 'R':
+        guess[element.name] = topLevel.includes(element) ? highFrequencyReal / Math.max(seriesResistors, 1) : arcResistance
+        break
+      case 'C':
+        guess[element.name] = capacitance
+        break
+      case 'CPE':
+        guess[`${element.name}_Q`] = capacitance
+        guess[`${element.name}_n`] = 0.9
+        break
+      case 'W':
+        guess[element.name] = Math.max(0.1 * span * Math.sqrt(lowestOmega), 1e-3)
+        break
+    }
+  }
+  return guess
+}
+
+function toSpectrumPoint(frequency: number, z: Complex): SpectrumPoint {
+  return {
+    frequency,
+    real: z.re,
+    imaginary: z.im,
+    magnitude: Math.hypot(z.re, z.im),
+    phase: (Math.atan2(z.im, z.re) * 180) / Math.PI
+  }
+}
+
+function add(a: Complex, b: Complex): Complex {
+  return { re: a.re + b.re, im: a.im + b.im }
+}
+
+function invert(z: Complex): Complex {
+  const denominator = z.re * z.re + z.im * z.im
+  return { re: z.re / denominator, im: -z.im / denominator }
+}
@@ -0,0 +1,141 @@
+// ============================================================================
+// NONLINEAR LEAST SQUARES
+// ============================================================================
+
+export interface LevenbergMarquardtOptions {
+  maxIterations?: number
+  relativeTolerance?: number // Stop when an accepted step lowers the SSE by less than this fraction
+  stepTolerance?: number // Stop when an accepted step is shorter than this
+}
+
+export interface LevenbergMarquardtResult {
+  theta: number[]
+  residuals: number[]
+  sse: number
+  iterations: number
+  converged: boolean
+}
+
+/**
+ * Minimises the sum of squared residuals (measured - model) over theta,
+ * starting from `start`. Callers reparameterise (log, logit) so that theta is
+ * unconstrained.
+ */
+export function levenbergMarquardt(
+  residualsAt: (theta: number[]) => number[],
+  start: number[],
+  { maxIterations = 200, relativeTolerance = 1e-10, stepTolerance = 1e-8 }: LevenbergMarquardtOptions = {}
+): LevenbergMarquardtResult {
+  let theta = [...start]
+  let residuals = residualsAt(theta)
+  let sse = sumOfSquares(residuals)
+  let lambda = 1e-3
+  let converged = false
+  let iterations = 0
+
+  while (iterations < maxIterations && !converged) {
+    iterations++
+    const J = jacobian(residualsAt, theta, residuals)
+    const JtJ = multiplyTransposed(J)
+    // Residuals are measured - model, so the Gauss-Newton step solves (JᵀJ)δ = Jᵀr
+    const gradient = theta.map((_, k) => J.reduce((sum, row, i) => sum + row[k] * residuals[i], 0))
+
+    let improved = false
+    while (lambda < 1e10) {
+      const damped = JtJ.map((row, k) => row.map((value, l) => (k === l ? value * (1 + lambda) + 1e-12 : value)))
+      const step = solveLinearSystem(damped, gradient)
+      if (!step) {
+        lambda *= 10
+        continue
+      }
+
+      const trial = theta.map((value, k) => value + step[k])
+      const trialResiduals = residualsAt(trial)
+      const trialSse = sumOfSquares(trialResiduals)
+
+      if (Number.isFinite(trialSse) && trialSse < sse) {
+        const relativeChange = (sse - trialSse) / Math.max(sse, 1e-30)
+        const stepNorm = Math.sqrt(step.reduce((sum, v) => sum + v * v, 0))
+        theta = trial
+        residuals = trialResiduals
+        sse = trialSse
+        lambda = Math.max(lambda / 3, 1e-12)
+        improved = true
+        converged = relativeChange < relativeTolerance || stepNorm < stepTolerance
+        break
+      }
+      lambda *= 5
+    }
+
+    // No downhill step at any damping: we are at a (local) minimum
+    if (!improved) converged = true
+  }
+
+  return { theta, residuals, sse, iterations, converged }
+}
+
+export function jacobian(residualsAt: (theta: number[]) => number[], theta: number[], residuals: number[]): number[][] {
+  // J[i][k] = ∂model_i/∂theta_k = -∂residual_i/∂theta_k (forward differences)
+  const columns = theta.map((value, k) => {
+    const h = 1e-6 * Math.max(1, Math.abs(value))
+    const shifted = residualsAt(theta.map((v, l) => (l === k ? v + h : v)))
+    return shifted.map((r, i) => -(r - residuals[i]) / h)
+  })
+  return residuals.map((_, i) => columns.map(column => column[i]))
+}
+
+// ============================================================================
+// LINEAR ALGEBRA HELPERS
+// ============================================================================
+
+export function sumOfSquares(values: number[]): number {
+  return values.reduce((sum, v) => sum + v * v, 0)
+}
+
+/** JᵀJ */
+export function multiplyTransposed(J: number[][]): number[][] {
+  const p = J[0].length
+  return Array.from({ length: p }, (_, k) =>
+    Array.from({ length: p }, (_, l) => J.reduce((sum, row) => sum + row[k] * row[l], 0)))
+}
+
+export function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  // Gaussian elimination with partial pivoting
+  const n = b.length
+  const M = A.map((row, i) => [...row, b[i]])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(M[row][col]) > Math.abs(M[pivot][col])) pivot = row
+    }
+    if (Math.abs(M[pivot][col]) < 1e-300 || !Number.isFinite(M[pivot][col])) return null
+    const swap = M[col]
+    M[col] = M[pivot]
+    M[pivot] = swap
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = M[row][col] / M[col][col]
+      for (let k = col; k <= n; k++) M[row][k] -= factor * M[col][k]
+    }
+  }
+
+  const x = new Array(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = M[row][n]
+    for (let k = row + 1; k < n; k++) sum -= M[row][k] * x[k]
+    x[row] = sum / M[row][row]
+  }
+  return x
+}
+
+export function invertMatrix(A: number[][]): number[][] | null {
+  const n = A.length
+  const columns: number[][] = []
+  for (let k = 0; k < n; k++) {
+    const column = solveLinearSystem(A, A.map((_, i) => (i === k ? 1 : 0)))
+    if (!column) return null
+    columns.push(column)
+  }
+  return A.map((_, i) => columns.map(column => column[i]))
+}
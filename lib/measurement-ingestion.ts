@@ -0,0 +1,532 @@
+import prisma from './db'
+
+// ============================================================================
+// MEASUREMENT FILE INGESTION
+// ============================================================================
+//
+// Parses CSV/TSV uploads and common potentiostat / data-logger exports into
+// Measurement rows. Stored units match the rest of the app: voltage in V,
+// current in A, power in mW, temperature in °C and substrate in g/L.
+
+export const MEASUREMENT_FIELDS = [
+  'timestamp',
+  'voltage',
+  'current',
+  'power',
+  'temperature',
+  'ph',
+  'substrate',
+  'notes'
+] as const
+
+export type MeasurementField = typeof MEASUREMENT_FIELDS[number]
+
+export type NumericField = Exclude<MeasurementField, 'timestamp' | 'notes'>
+
+// Header -> field, as detected or supplied by the uploader
+export type ColumnMapping = Record<string, MeasurementField>
+
+export interface ParsedMeasurement {
+  timestamp: Date
+  voltage: number
+  current: number
+  power: number
+  temperature: number
+  ph: number
+  substrate: number | null
+  notes: string | null
+}
+
+export interface RowError {
+  row: number // 1-based line in the uploaded file
+  column?: string
+  message: string
+}
+
+export interface IngestionOptions {
+  // Header -> field overrides; unmapped headers fall back to detection
+  mapping?: Partial<ColumnMapping>
+  // Used for elapsed-time columns (EC-Lab time/s, Gamry T)
+  startTime?: Date
+  // Filled in when the file has no temperature / pH column
+  defaults?: Partial<Record<'temperature' | 'ph' | 'substrate', number>>
+  maxErrors?: number
+}
+
+export interface IngestionResult {
+  format: 'csv' | 'tsv' | 'semicolon' | 'ec-lab' | 'gamry' | 'campbell'
+  delimiter: string
+  mapping: ColumnMapping
+  units: Partial<Record<NumericField, string>>
+  measurements: ParsedMeasurement[]
+  totalRows: number
+  duplicateRows: number // Repeated timestamps within the file
+  rejectedRows: number
+  errors: RowError[] // First maxErrors row errors
+  warnings: string[]
+}
+
+export class MeasurementFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MeasurementFileError'
+  }
+}
+
+// ============================================================================
+// COLUMN DETECTION
+// ============================================================================
+
+// Compared after lower-casing and stripping the unit and punctuation
+const FIELD_ALIASES: Record<MeasurementField, string[]> = {
+  timestamp: ['timestamp', 'time', 'datetime', 'date time', 'date', 'time s', 't', 'elapsed time', 'timestamp utc'],
+  voltage: ['voltage', 'v', 'ewe', 'ecell', 'e', 'vf', 'potential', 'cell voltage', 'ucell', 'cell potential'],
+  current: ['current', 'i', 'im', 'cell current', 'control i'],
+  power: ['power', 'p', 'power output'],
+  temperature: ['temperature', 'temp', 'temp c', 'water temp', 'reactor temp'],
+  ph: ['ph', 'ph value'],
+  substrate: ['substrate', 'substrate concentration', 'cod', 'acetate'],
+  notes: ['notes', 'note', 'comment', 'comments']
+}
+
+const UNIT_PATTERN = /\(([^)]*)\)|\[([^\]]*)\]|\/\s*([^/\s]+)\s*$|_(mv|uv|µv|ma|ua|µa|na|mw|uw|µw|w|v|a|degc|c|k|f)$/i
+
+interface UnitConversion {
+  label: string
+  convert: (value: number) => number
+}
+
+const SCALE = (label: string, factor: number): UnitConversion => ({ label, convert: value => value * factor })
+
+const UNIT_CONVERSIONS: Record<NumericField, Record<string, UnitConversion>> = {
+  voltage: {
+    v: SCALE('V', 1),
+    volts: SCALE('V', 1),
+    mv: SCALE('mV', 1e-3),
+    millivolts: SCALE('mV', 1e-3),
+    uv: SCALE('µV', 1e-6)
+  },
+  current: {
+    a: SCALE('A', 1),
+    amps: SCALE('A', 1),
+    ma: SCALE('mA', 1e-3),
+    milliamps: SCALE('mA', 1e-3),
+    ua: SCALE('µA', 1e-6),
+    na: SCALE('nA', 1e-9)
+  },
+  power: {
+    w: SCALE('W', 1e3),
+    watts: SCALE('W', 1e3),
+    mw: SCALE('mW', 1),
+    uw: SCALE('µW', 1e-3)
+  },
+  temperature: {
+    c: SCALE('°C', 1),
+    k: { label: 'K', convert: value => value - 273.15 },
+    f: { label: '°F', convert: value => (value - 32) * 5 / 9 }
+  },
+  ph: {},
+  substrate: {
+    gl: SCALE('g/L', 1),
+    mgl: SCALE('mg/L', 1e-3)
+  }
+}
+
+const CANONICAL_UNITS: Record<NumericField, string> = {
+  voltage: 'V',
+  current: 'A',
+  power: 'mW',
+  temperature: '°C',
+  ph: 'pH',
+  substrate: 'g/L'
+}
+
+function splitHeader(header: string): { name: string; unit: string | null } {
+  const match = header.match(UNIT_PATTERN)
+  const unit = match ? (match[1] ?? match[2] ?? match[3] ?? match[4]) : null
+  const name = (match ? header.slice(0, match.index) + header.slice(match.index! + match[0].length) : header)
+    .toLowerCase()
+    .replace(/[<>]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+  return { name, unit: unit?.trim() || null }
+}
+
+function unitKey(unit: string): string {
+  return unit
+    .toLowerCase()
+    .replace(/vs\..*$/, '') // Gamry "V vs. Ref."
+    .replace(/[µμ]/g, 'u')
+    .replace(/°|deg|\s|\//g, '')
+}
+
+export function detectField(header: string): MeasurementField | null {
+  const { name } = splitHeader(header)
+  for (const field of MEASUREMENT_FIELDS) {
+    if (FIELD_ALIASES[field].includes(name)) return field
+  }
+  return null
+}
+
+export function detectUnit(field: NumericField, unit: string | null): UnitConversion | null {
+  if (!unit) return null
+  return UNIT_CONVERSIONS[field][unitKey(unit)] ?? null
+}
+
+// ============================================================================
+// TEXT PARSING
+// ============================================================================
+
+export function detectDelimiter(line: string): string {
+  const candidates = ['\t', ';', ',']
+  let best = ','
+  let bestCount = 0
+  for (const delimiter of candidates) {
+    const count = splitLine(line, delimiter).length - 1
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+  return best
+}
+
+// RFC 4180 quoting within a single line; quoted line breaks are not supported
+export function splitLine(line: string, delimiter: string): string[] {
+  if (!line.includes('"')) return line.split(delimiter).map(cell => cell.trim())
+
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+// Decimal commas are common in European logger exports ("0,452" with ; delimiters)
+function parseNumber(cell: string, delimiter: string): number {
+  if (cell === '') return NaN
+  const normalized = delimiter !== ',' && /^-?\d+,\d+(e-?\d+)?$/i.test(cell) ? cell.replace(',', '.') : cell
+  return Number(normalized)
+}
+
+/**
+ * Timestamps may be ISO strings, "YYYY-MM-DD HH:MM:SS" (read as UTC), Unix
+ * epochs in seconds or milliseconds, or elapsed seconds from startTime.
+ */
+export function parseTimestamp(cell: string, startTime: Date | undefined, delimiter = ','): Date | null {
+  if (cell === '') return null
+
+  const numeric = parseNumber(cell, delimiter)
+  if (Number.isFinite(numeric)) {
+    if (numeric >= 1e12) return new Date(numeric)
+    if (numeric >= 1e9) return new Date(numeric * 1000)
+    return startTime ? new Date(startTime.getTime() + numeric * 1000) : null
+  }
+
+  const localFormat = cell.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(:\d{2}(\.\d+)?)?)$/)
+  const date = new Date(localFormat ? `${localFormat[1]}T${localFormat[2]}Z` : cell)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// ============================================================================
+// FILE LAYOUTS
+// ============================================================================
+
+interface FileLayout {
+  format: IngestionResult['format']
+  headerIndex: number
+  unitsIndex: number | null // Separate units row (Campbell TOA5, Gamry)
+  dataIndex: number
+}
+
+function detectLayout(lines: string[]): FileLayout {
+  // EC-Lab: "Nb header lines : 58" counts every line up to and including the column header
+  const ecLab = lines.slice(0, 5).join('\n').match(/Nb header lines\s*:\s*(\d+)/i)
+  if (lines[0]?.startsWith('EC-Lab') && ecLab) {
+    const headerIndex = parseInt(ecLab[1]) - 1
+    return { format: 'ec-lab', headerIndex, unitsIndex: null, dataIndex: headerIndex + 1 }
+  }
+
+  // Campbell Scientific TOA5: environment line, field names, units, processing
+  if (lines[0]?.replace(/"/g, '').startsWith('TOA5')) {
+    return { format: 'campbell', headerIndex: 1, unitsIndex: 2, dataIndex: 4 }
+  }
+
+  // Gamry DTA: column names and units follow the CURVE TABLE line
+  const curve = lines.findIndex(line => /^CURVE\d*\tTABLE/.test(line))
+  if (curve !== -1) {
+    return { format: 'gamry', headerIndex: curve + 1, unitsIndex: curve + 2, dataIndex: curve + 3 }
+  }
+
+  // Plain delimited text, possibly after a few comment or metadata lines
+  const headerIndex = lines.slice(0, 50).findIndex(line => {
+    if (line.startsWith('#')) return false
+    const cells = splitLine(line, detectDelimiter(line))
+    return cells.filter(cell => detectField(cell) !== null).length >= 2
+  })
+  return { format: 'csv', headerIndex: Math.max(0, headerIndex), unitsIndex: null, dataIndex: Math.max(0, headerIndex) + 1 }
+}
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+const VALID_RANGES: Partial<Record<NumericField, [number, number]>> = {
+  voltage: [-10, 10],
+  temperature: [-20, 120],
+  ph: [0, 14],
+  substrate: [0, 1000]
+}
+
+/**
+ * Fill in whichever of current and power a reading lacks, using
+ * P[mW] = V[V] * I[A] * 1000. Returns null when both are missing.
+ */
+export function completeElectrical(
+  voltage: number,
+  current: number | undefined,
+  power: number | undefined
+): { current: number; power: number } | null {
+  if (current !== undefined && power !== undefined) return { current, power }
+  if (current !== undefined) return { current, power: voltage * current * 1000 }
+  if (power !== undefined) return { current: voltage !== 0 ? power / 1000 / voltage : 0, power }
+  return null
+}
+
+/**
+ * Parse an uploaded measurement file. Bad rows are collected as errors rather
+ * than failing the whole upload; a file without a usable header or without
+ * timestamp and voltage columns throws MeasurementFileError.
+ */
+export function parseMeasurementFile(text: string, options: IngestionOptions = {}): IngestionResult {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const maxErrors = options.maxErrors ?? 100
+  const layout = detectLayout(lines)
+  const headerLine = lines[layout.headerIndex]
+  if (!headerLine?.trim()) throw new MeasurementFileError('File has no header row')
+
+  const delimiter = detectDelimiter(headerLine)
+  const headers = splitLine(headerLine.replace(/^#\s*/, ''), delimiter)
+  const unitCells = layout.unitsIndex !== null ? splitLine(lines[layout.unitsIndex] ?? '', delimiter) : []
+
+  // Resolve the column for each field: explicit mapping first, then the first detected match
+  const mapping: ColumnMapping = {}
+  const columns: Partial<Record<MeasurementField, number>> = {}
+  const assign = (field: MeasurementField, index: number) => {
+    if (columns[field] !== undefined) return
+    columns[field] = index
+    mapping[headers[index]] = field
+  }
+  for (const [header, field] of Object.entries(options.mapping ?? {})) {
+    const index = headers.indexOf(header)
+    if (index === -1) throw new MeasurementFileError(`Mapped column "${header}" is not in the file`)
+    if (field) assign(field, index)
+  }
+  headers.forEach((header, index) => {
+    if (Object.values(columns).includes(index)) return
+    const field = detectField(header)
+    if (field) assign(field, index)
+  })
+
+  if (columns.timestamp === undefined) throw new MeasurementFileError('No timestamp column found')
+  if (columns.voltage === undefined) throw new MeasurementFileError('No voltage column found')
+  if (columns.current === undefined && columns.power === undefined) {
+    throw new MeasurementFileError('Either a current or a power column is required')
+  }
+
+  const warnings: string[] = []
+  const units: Partial<Record<NumericField, string>> = {}
+  const converters: Partial<Record<NumericField, (value: number) => number>> = {}
+  for (const field of ['voltage', 'current', 'power', 'temperature', 'ph', 'substrate'] as NumericField[]) {
+    const index = columns[field]
+    if (index === undefined) continue
+    const unit = unitCells[index] || splitHeader(headers[index]).unit
+    const conversion = detectUnit(field, unit)
+    if (unit && !conversion && field !== 'ph') {
+      warnings.push(`Unrecognised unit "${unit}" for ${field}; values are read as ${CANONICAL_UNITS[field]}`)
+    }
+    units[field] = conversion?.label ?? CANONICAL_UNITS[field]
+    if (conversion) converters[field] = conversion.convert
+  }
+
+  for (const field of ['temperature', 'ph'] as const) {
+    if (columns[field] === undefined && options.defaults?.[field] === undefined) {
+      throw new MeasurementFileError(`No ${field} column found and no default ${field} was given`)
+    }
+    if (columns[field] === undefined) warnings.push(`No ${field} column; using ${options.defaults![field]} for every row`)
+  }
+
+  const measurements: ParsedMeasurement[] = []
+  const errors: RowError[] = []
+  const seen = new Set<number>()
+  let totalRows = 0
+  let duplicateRows = 0
+  let rejectedRows = 0
+
+  const reject = (error: RowError) => {
+    rejectedRows++
+    if (errors.length < maxErrors) errors.push(error)
+  }
+
+  for (let i = layout.dataIndex; i < lines.length; i++) {
+    const line = lines[i]
+    if (!line.trim() || line.startsWith('#')) continue
+    totalRows++
+    const row = i + 1
+    const cells = splitLine(line, delimiter)
+
+    const timestamp = parseTimestamp(cells[columns.timestamp] ?? '', options.startTime, delimiter)
+    if (!timestamp) {
+      reject({ row, column: headers[columns.timestamp], message: `Invalid timestamp "${cells[columns.timestamp] ?? ''}"` })
+      continue
+    }
+
+    const values: Partial<Record<NumericField, number>> = {}
+    let rowError: RowError | null = null
+    for (const field of ['voltage', 'current', 'power', 'temperature', 'ph', 'substrate'] as NumericField[]) {
+      const index = columns[field]
+      if (index === undefined || (cells[index] ?? '') === '') continue
+      const raw = parseNumber(cells[index], delimiter)
+      if (!Number.isFinite(raw)) {
+        rowError = { row, column: headers[index], message: `"${cells[index]}" is not a number` }
+        break
+      }
+      const value = converters[field] ? converters[field]!(raw) : raw
+      const range = VALID_RANGES[field]
+      if (range && (value < range[0] || value > range[1])) {
+        rowError = { row, column: headers[index], message: `${field} ${value} ${CANONICAL_UNITS[field]} is outside ${range[0]}–${range[1]}` }
+        break
+      }
+      values[field] = value
+    }
+    if (rowError) {
+      reject(rowError)
+      continue
+    }
+
+    const voltage = values.voltage
+    if (voltage === undefined) {
+      reject({ row, column: headers[columns.voltage], message: 'Missing voltage' })
+      continue
+    }
+    const electrical = completeElectrical(voltage, values.current, values.power)
+    if (!electrical) {
+      reject({ row, message: 'Missing current and power' })
+      continue
+    }
+    const { current, power } = electrical
+
+    const temperature = values.temperature ?? options.defaults?.temperature
+    const ph = values.ph ?? options.defaults?.ph
+    if (temperature === undefined || ph === undefined) {
+      reject({ row, message: `Missing ${temperature === undefined ? 'temperature' : 'pH'}` })
+      continue
+    }
+
+    const time = timestamp.getTime()
+    if (seen.has(time)) {
+      duplicateRows++
+      continue
+    }
+    seen.add(time)
+
+    const notes = columns.notes !== undefined ? cells[columns.notes] || null : null
+    measurements.push({
+      timestamp,
+      voltage,
+      current,
+      power,
+      temperature,
+      ph,
+      substrate: values.substrate ?? options.defaults?.substrate ?? null,
+      notes
+    })
+  }
+
+  return {
+    format: layout.format === 'csv'
+      ? (delimiter === '\t' ? 'tsv' : delimiter === ';' ? 'semicolon' : 'csv')
+      : layout.format,
+    delimiter,
+    mapping,
+    units,
+    measurements,
+    totalRows,
+    duplicateRows,
+    rejectedRows,
+    errors,
+    warnings
+  }
+}
+
+/**
+ * Drops rows whose timestamp is already stored for the experiment or repeats
+ * an earlier row, so re-sent files and retried logger posts are idempotent.
+ */
+export async function withoutStoredDuplicates<T extends { timestamp: Date }>(
+  experimentId: string,
+  rows: T[]
+): Promise<{ rows: T[]; duplicates: number }> {
+  if (rows.length === 0) return { rows, duplicates: 0 }
+
+  let first = Infinity
+  let last = -Infinity
+  for (const row of rows) {
+    first = Math.min(first, row.timestamp.getTime())
+    last = Math.max(last, row.timestamp.getTime())
+  }
+  const stored = await prisma.measurement.findMany({
+    where: {
+      experimentId,
+      timestamp: { gte: new Date(first), lte: new Date(last) }
+    },
+    select: { timestamp: true }
+  })
+  const seen = new Set(stored.map((row: { timestamp: Date }) => row.timestamp.getTime()))
+  const unique = rows.filter(row => {
+    const time = row.timestamp.getTime()
+    if (seen.has(time)) return false
+    seen.add(time)
+    return true
+  })
+  return { rows: unique, duplicates: rows.length - unique.length }
+}
+
+// SQLite binds at most 32766 values per statement, PostgreSQL 65535
+const MAX_BIND_VARIABLES = 32766
+
+// Values a Measurement createMany binds per row: the parsed fields plus id, experimentId, hour and createdAt
+const MEASUREMENT_INSERT_COLUMNS = MEASUREMENT_FIELDS.length + 4
+
+/** Rows per Measurement createMany that stay within the bind limit of both databases. */
+export const MEASUREMENT_INSERT_BATCH = Math.floor(MAX_BIND_VARIABLES / MEASUREMENT_INSERT_COLUMNS)
+
+/**
+ * Split rows into insert batches of `size` rows. A createMany INSERT binds one
+ * SQL value per column of every row, so the default is sized for Measurement.
+ */
+export function chunk<T>(items: T[], size = MEASUREMENT_INSERT_BATCH): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
@@ -0,0 +1,294 @@
+import net from 'net'
+
+// ============================================================================
+// MODBUS/TCP
+// ============================================================================
+// Minimal Modbus/TCP (holding registers only): function 3 reads and
+// function 16 writes. Analog values travel as IEEE-754 float32 across two
+// registers, high word first.
+
+export const READ_HOLDING_REGISTERS = 0x03
+export const WRITE_MULTIPLE_REGISTERS = 0x10
+
+export const ILLEGAL_FUNCTION = 0x01
+export const ILLEGAL_DATA_ADDRESS = 0x02
+export const ILLEGAL_DATA_VALUE = 0x03
+export const SERVER_DEVICE_FAILURE = 0x04
+
+const MAX_READ_REGISTERS = 125
+const MAX_WRITE_REGISTERS = 123
+const HEADER_LENGTH = 7 // MBAP: transaction, protocol, length, unit
+
+export class ModbusError extends Error {
+  constructor(
+    message: string,
+    public exceptionCode?: number
+  ) {
+    super(message)
+    this.name = 'ModbusError'
+  }
+}
+
+export function encodeFloat32(value: number): [number, number] {
+  const buffer = Buffer.alloc(4)
+  buffer.writeFloatBE(value)
+  return [buffer.readUInt16BE(0), buffer.readUInt16BE(2)]
+}
+
+export function decodeFloat32(high: number, low: number): number {
+  const buffer = Buffer.alloc(4)
+  buffer.writeUInt16BE(high & 0xffff, 0)
+  buffer.writeUInt16BE(low & 0xffff, 2)
+  return buffer.readFloatBE(0)
+}
+
+function frame(transactionId: number, unitId: number, pdu: Buffer): Buffer {
+  const header = Buffer.alloc(HEADER_LENGTH)
+  header.writeUInt16BE(transactionId, 0)
+  header.writeUInt16BE(0, 2)
+  header.writeUInt16BE(pdu.length + 1, 4)
+  header.writeUInt8(unitId, 6)
+  return Buffer.concat([header, pdu])
+}
+
+// Split a byte stream into complete frames, returning what is left over
+function readFrames(buffer: Buffer, onFrame: (transactionId: number, unitId: number, pdu: Buffer) => void): Buffer {
+  let offset = 0
+  while (buffer.length - offset >= HEADER_LENGTH) {
+    const length = buffer.readUInt16BE(offset + 4)
+    if (buffer.length - offset < 6 + length) break
+    onFrame(buffer.readUInt16BE(offset), buffer.readUInt8(offset + 6), buffer.subarray(offset + HEADER_LENGTH, offset + 6 + length))
+    offset += 6 + length
+  }
+  return buffer.subarray(offset)
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+export interface ModbusClientOptions {
+  host: string
+  port: number
+  unitId?: number
+  timeout?: number // ms per request
+}
+
+export class ModbusTcpClient {
+  private socket: net.Socket | null = null
+  private buffer = Buffer.alloc(0)
+  private nextTransactionId = 1
+  private pending = new Map<number, {
+    resolve: (pdu: Buffer) => void
+    reject: (error: Error) => void
+    timer: ReturnType<typeof setTimeout>
+  }>()
+  private unitId: number
+  private timeout: number
+
+  constructor(private options: ModbusClientOptions) {
+    this.unitId = options.unitId ?? 1
+    this.timeout = options.timeout ?? 2000
+  }
+
+  public connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.options.host, port: this.options.port })
+      const timer = setTimeout(() => {
+        socket.destroy()
+        reject(new ModbusError(`Connection to ${this.options.host}:${this.options.port} timed out`))
+      }, this.timeout)
+
+      socket.once('connect', () => {
+        clearTimeout(timer)
+        this.socket = socket
+        resolve()
+      })
+      socket.once('error', error => {
+        clearTimeout(timer)
+        reject(new ModbusError(`Cannot connect to ${this.options.host}:${this.options.port}: ${error.message}`))
+      })
+      socket.on('data', data => {
+        this.buffer = readFrames(Buffer.concat([this.buffer, data]), (transactionId, _, pdu) => {
+          const request = this.pending.get(transactionId)
+          if (!request) return
+          this.pending.delete(transactionId)
+          clearTimeout(request.timer)
+          request.resolve(pdu)
+        })
+      })
+      socket.on('close', () => this.failPending(new ModbusError('Connection closed')))
+    })
+  }
+
+  public async readHoldingRegisters(address: number, count: number): Promise<number[]> {
+    if (count < 1 || count > MAX_READ_REGISTERS) throw new ModbusError(`Cannot read ${count} registers in one request`)
+    const pdu = Buffer.alloc(5)
+    pdu.writeUInt8(READ_HOLDING_REGISTERS, 0)
+    pdu.writeUInt16BE(address, 1)
+    pdu.writeUInt16BE(count, 3)
+
+    const response = await this.request(pdu)
+    const registers: number[] = []
+    for (let i = 0; i < count; i++) registers.push(response.readUInt16BE(2 + 2 * i))
+    return registers
+  }
+
+  public async writeMultipleRegisters(address: number, values: number[]): Promise<void> {
+    if (values.length < 1 || values.length > MAX_WRITE_REGISTERS) {
+      throw new ModbusError(`Cannot write ${values.length} registers in one request`)
+    }
+    const pdu = Buffer.alloc(6 + 2 * values.length)
+    pdu.writeUInt8(WRITE_MULTIPLE_REGISTERS, 0)
+    pdu.writeUInt16BE(address, 1)
+    pdu.writeUInt16BE(values.length, 3)
+    pdu.writeUInt8(2 * values.length, 5)
+    values.forEach((value, i) => pdu.writeUInt16BE(value & 0xffff, 6 + 2 * i))
+
+    await this.request(pdu)
+  }
+
+  public async readFloats(address: number, count: number): Promise<number[]> {
+    const registers = await this.readHoldingRegisters(address, 2 * count)
+    return Array.from({ length: count }, (_, i) => decodeFloat32(registers[2 * i], registers[2 * i + 1]))
+  }
+
+  public async writeFloats(address: number, values: number[]): Promise<void> {
+    await this.writeMultipleRegisters(address, values.flatMap(encodeFloat32))
+  }
+
+  public close(): Promise<void> {
+    const socket = this.socket
+    this.socket = null
+    if (!socket) return Promise.resolve()
+    return new Promise(resolve => socket.end(() => resolve()))
+  }
+
+  private request(pdu: Buffer): Promise<Buffer> {
+    const socket = this.socket
+    if (!socket) return Promise.reject(new ModbusError('Not connected'))
+
+    const transactionId = this.nextTransactionId
+    this.nextTransactionId = (this.nextTransactionId % 0xffff) + 1
+    const functionCode = pdu.readUInt8(0)
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(transactionId)
+        reject(new ModbusError(`Request timed out after ${this.timeout} ms`))
+      }, this.timeout)
+      this.pending.set(transactionId, { resolve, reject, timer })
+      socket.write(frame(transactionId, this.unitId, pdu))
+    }).then(response => {
+      if (response.readUInt8(0) === (functionCode | 0x80)) {
+        const code = response.readUInt8(1)
+        throw new ModbusError(`Device returned exception ${code} for function ${functionCode}`, code)
+      }
+      return response
+    })
+  }
+
+  private failPending(error: Error) {
+    this.pending.forEach(request => {
+      clearTimeout(request.timer)
+      request.reject(error)
+    })
+    this.pending.clear()
+  }
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Register bank behind a server. Return false (or throw a ModbusError with an
+ * exception code) to reject an address range.
+ */
+export interface RegisterBank {
+  read(address: number, count: number): number[] | false
+  write(address: number, values: number[]): boolean
+}
+
+export class ModbusTcpServer {
+  private server: net.Server
+  private sockets = new Set<net.Socket>()
+
+  constructor(private bank: RegisterBank, private unitId?: number) {
+    this.server = net.createServer(socket => this.accept(socket))
+  }
+
+  /** Resolves with the bound port, which is useful with port 0. */
+  public listen(port: number, host = '127.0.0.1'): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject)
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject)
+        resolve((this.server.address() as net.AddressInfo).port)
+      })
+    })
+  }
+
+  public close(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy())
+    return new Promise(resolve => this.server.close(() => resolve()))
+  }
+
+  private accept(socket: net.Socket) {
+    let buffer = Buffer.alloc(0)
+    this.sockets.add(socket)
+    socket.on('close', () => this.sockets.delete(socket))
+    socket.on('error', () => socket.destroy())
+    socket.on('data', data => {
+      buffer = readFrames(Buffer.concat([buffer, data]), (transactionId, unitId, pdu) => {
+        // Unit 0 is broadcast; otherwise a server bound to a unit ignores the rest
+        if (this.unitId !== undefined && unitId !== 0 && unitId !== this.unitId) return
+        socket.write(frame(transactionId, unitId, this.handle(pdu)))
+      })
+    })
+  }
+
+  private handle(pdu: Buffer): Buffer {
+    const functionCode = pdu.readUInt8(0)
+    try {
+      switch (functionCode) {
+        case READ_HOLDING_REGISTERS: {
+          if (pdu.length < 5) return this.exception(functionCode, ILLEGAL_DATA_VALUE)
+          const address = pdu.readUInt16BE(1)
+          const count = pdu.readUInt16BE(3)
+          if (count < 1 || count > MAX_READ_REGISTERS) return this.exception(functionCode, ILLEGAL_DATA_VALUE)
+
+          const registers = this.bank.read(address, count)
+          if (!registers) return this.exception(functionCode, ILLEGAL_DATA_ADDRESS)
+
+          const response = Buffer.alloc(2 + 2 * count)
+          response.writeUInt8(functionCode, 0)
+          response.writeUInt8(2 * count, 1)
+          registers.forEach((value, i) => response.writeUInt16BE(value & 0xffff, 2 + 2 * i))
+          return response
+        }
+        case WRITE_MULTIPLE_REGISTERS: {
+          if (pdu.length < 6) return this.exception(functionCode, ILLEGAL_DATA_VALUE)
+          const address = pdu.readUInt16BE(1)
+          const count = pdu.readUInt16BE(3)
+          if (count < 1 || count > MAX_WRITE_REGISTERS || pdu.readUInt8(5) !== 2 * count || pdu.length < 6 + 2 * count) {
+            return this.exception(functionCode, ILLEGAL_DATA_VALUE)
+          }
+
+          const values = Array.from({ length: count }, (_, i) => pdu.readUInt16BE(6 + 2 * i))
+          if (!this.bank.write(address, values)) return this.exception(functionCode, ILLEGAL_DATA_ADDRESS)
+          return pdu.subarray(0, 5)
+        }
+        default:
+          return this.exception(functionCode, ILLEGAL_FUNCTION)
+      }
+    } catch (error) {
+      const code = error instanceof ModbusError && error.exceptionCode ? error.exceptionCode : SERVER_DEVICE_FAILURE
+      return this.exception(functionCode, code)
+    }
+  }
+
+  private exception(functionCode: number, code: number): Buffer {
+    return Buffer.from([functionCode | 0x80, code])
+  }
+}
@@ -0,0 +1,386 @@
+// ============================================================================
+// PREDICTION ACCURACY
+// ============================================================================
+//
+// Every experiment stores the power prediction made when it was set up
+// (Experiment.prediction), by the same model /api/predictions serves. Measured
+// power is averaged into fixed bins and compared against that prediction; the
+// per-experiment residuals are pooled by design type to show how far each
+// DESIGN_MULTIPLIERS entry can be trusted, and by model version.
+
+import { z } from 'zod'
+import { BASELINE_POWER, DESIGN_MULTIPLIERS } from './ai-predictions'
+import { predictPower, type PowerModelArtifact } from './power-model'
+
+export interface PredictionSnapshot {
+  model: string // 'data-driven' or 'formula'; 'linear' in snapshots that predate the trained model
+  modelVersion?: number | null // Trained model version, null for the formula
+  createdAt: string
+  designType: string | null
+  designMultiplier: number | null // Multiplier in effect when the prediction was made; the trained model has none
+  inputs: {
+    temperature: number // °C
+    ph: number
+    substrateConcentration: number // g/L
+    anodeArea?: number // cm²
+    reactorVolume?: number // mL
+    anodeMaterial?: string
+    organism?: string
+    chambers?: number
+  }
+  predictedPower: number // mW
+  confidenceInterval: {
+    lower: number
+    upper: number
+  }
+}
+
+export interface ResidualPoint {
+  timestamp: string // Bin start
+  measured: number // Mean power in the bin, mW
+  predicted: number // mW
+  residual: number // measured - predicted, mW
+  withinInterval: boolean
+}
+
+export interface ResidualMetrics {
+  points: number
+  mape: number | null // % over bins with positive measured power
+  rmse: number | null // mW
+  bias: number | null // Mean residual, mW; positive when the model under-predicts
+  coverage: number | null // Share of bins inside the confidence interval, 0-1
+}
+
+interface PowerBin {
+  sum: number // mW
+  count: number
+}
+
+// Power summed per experiment and UTC hour (Measurement.hour) by a database groupBy
+export interface HourlyPower extends PowerBin {
+  hour: Date
+}
+
+export interface ResidualOptions {
+  binMinutes?: number
+  skipHours?: number // Leave out the start-up period
+}
+
+export interface ExperimentAccuracy {
+  experimentId: string
+  prediction: PredictionSnapshot
+  metrics: ResidualMetrics
+}
+
+export interface DesignAccuracy {
+  designType: string
+  experiments: number
+  points: number
+  // Experiments are weighted equally so long runs do not dominate
+  mape: number | null
+  rmse: number | null
+  bias: number | null
+  coverage: number | null
+  currentMultiplier: number | null
+  suggestedMultiplier: number | null // Multiplier that would remove the mean bias
+}
+
+type AccuracySummary = Omit<DesignAccuracy, 'designType' | 'currentMultiplier' | 'suggestedMultiplier'>
+
+export interface ModelAccuracy extends AccuracySummary {
+  model: string // 'formula' or 'data-driven v<version>'
+}
+
+export interface AccuracyReport {
+  designs: DesignAccuracy[]
+  models: ModelAccuracy[]
+  overall: AccuracySummary
+}
+
+// ============================================================================
+// PREDICTION SNAPSHOTS
+// ============================================================================
+
+// Experiment parameters the models use. The details are optional and ignored
+// when malformed; anodeArea lets the trained model turn density into power.
+export const PredictionInputsSchema = z.object({
+  temperature: z.coerce.number(),
+  ph: z.coerce.number(),
+  substrateConcentration: z.coerce.number(),
+  anodeArea: z.coerce.number().positive().optional().catch(undefined),
+  reactorVolume: z.coerce.number().positive().optional().catch(undefined),
+  anodeMaterial: z.string().optional().catch(undefined),
+  organism: z.string().optional().catch(undefined),
+  chambers: z.coerce.number().int().positive().optional().catch(undefined)
+})
+
+// Ranges /api/predictions accepts when it falls back to the formula
+const FormulaInputsSchema = z.object({
+  temperature: z.number().min(20).max(40),
+  ph: z.number().min(6).max(8),
+  substrateConcentration: z.number().min(0.5).max(2)
+})
+
+function firstIssue(error: z.ZodError): string {
+  const issue = error.errors[0]
+  return `${issue.path.join('.')}: ${issue.message}`
+}
+
+/**
+ * Prediction for an experiment's setup parameters, or the reason none can be
+ * made. Goes through predictPower like /api/predictions, so the trained model
+ * is used inside its domain and the formula otherwise; both are deterministic,
+ * so the stored value is reproducible.
+ */
+export function predictExperiment(
+  parameters: Record<string, unknown>,
+  designType: string | null,
+  model: { version: number; artifact: PowerModelArtifact } | null,
+  now: Date = new Date()
+): { prediction: PredictionSnapshot } | { error: string } {
+  const parsed = PredictionInputsSchema.safeParse(parameters)
+  if (!parsed.success) return { error: firstIssue(parsed.error) }
+
+  const knownType = designType && designType in DESIGN_MULTIPLIERS ? designType : null
+  const result = predictPower({ ...parsed.data, designType: knownType ?? undefined }, model)
+
+  const formula = result.model.kind === 'formula'
+  if (formula) {
+    const inRange = FormulaInputsSchema.safeParse(parsed.data)
+    if (!inRange.success) return { error: firstIssue(inRange.error) }
+  }
+
+  return {
+    prediction: {
+      model: result.model.kind,
+      modelVersion: result.model.version,
+      createdAt: now.toISOString(),
+      designType: knownType,
+      designMultiplier: formula ? (knownType ? DESIGN_MULTIPLIERS[knownType] : 1) : null,
+      inputs: parsed.data,
+      predictedPower: result.predictedPower,
+      confidenceInterval: result.confidenceInterval
+    }
+  }
+}
+
+/** 'formula' or 'data-driven v<version>', for grouping accuracy by model. */
+export function predictionModelLabel(prediction: PredictionSnapshot): string {
+  return prediction.model === 'data-driven' ? `data-driven v${prediction.modelVersion ?? '?'}` : 'formula'
+}
+
+export function parsePrediction(prediction: string | null | undefined): PredictionSnapshot | null {
+  if (!prediction) return null
+  try {
+    const parsed = JSON.parse(prediction)
+    return parsed && typeof parsed.predictedPower === 'number' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+// ============================================================================
+// RESIDUALS
+// ============================================================================
+
+/**
+ * Bin-averaged measured power against the stored prediction. Averaging first
+ * keeps sensor noise and sampling rate out of the error metrics.
+ */
+export function residualSeries(
+  measurements: { timestamp: Date; power: number }[],
+  prediction: PredictionSnapshot,
+  options: ResidualOptions = {}
+): ResidualPoint[] {
+  const bins = new ResidualBins(options)
+  bins.add(measurements)
+  return bins.points(prediction)
+}
+
+/**
+ * residualSeries over measurements added in pages, so a long series is never
+ * held in memory. Bins start at the earliest reading of the first page, so
+ * later pages must not reach further back.
+ */
+export class ResidualBins {
+  private readonly bins = new Map<number, PowerBin>()
+  private readonly binMs: number
+  private readonly skipMs: number
+  private from: number | null = null
+
+  constructor({ binMinutes = 60, skipHours = 0 }: ResidualOptions = {}) {
+    this.binMs = binMinutes * 60000
+    this.skipMs = skipHours * 3600000
+  }
+
+  add(measurements: { timestamp: Date; power: number }[]) {
+    if (measurements.length === 0) return
+    if (this.from === null) {
+      let first = Infinity
+      for (const measurement of measurements) first = Math.min(first, measurement.timestamp.getTime())
+      this.from = first + this.skipMs
+    }
+
+    for (const { timestamp, power } of measurements) {
+      const time = timestamp.getTime()
+      if (time < this.from || !Number.isFinite(power)) continue
+      addToBin(this.bins, Math.floor((time - this.from) / this.binMs), power, 1)
+    }
+  }
+
+  points(prediction: PredictionSnapshot): ResidualPoint[] {
+    return this.from === null ? [] : residualPoints(this.bins, this.from, this.binMs, prediction)
+  }
+}
+
+/** Start of the UTC hour a reading falls in, stored as Measurement.hour. */
+export function measurementHour(timestamp: Date): Date {
+  return new Date(Math.floor(timestamp.getTime() / 3600000) * 3600000)
+}
+
+/**
+ * residualSeries over hourly power sums grouped in the database, so the
+ * readings themselves are never loaded. Bins start on the hour of the first
+ * reading, and binMinutes must be a whole number of hours.
+ */
+export function hourlyResidualSeries(
+  hours: HourlyPower[],
+  prediction: PredictionSnapshot,
+  { binMinutes = 60, skipHours = 0 }: ResidualOptions = {}
+): ResidualPoint[] {
+  if (hours.length === 0) return []
+
+  const binMs = binMinutes * 60000
+  let first = Infinity
+  for (const { hour } of hours) first = Math.min(first, hour.getTime())
+  const from = first + skipHours * 3600000
+
+  const bins = new Map<number, PowerBin>()
+  for (const { hour, sum, count } of hours) {
+    const time = hour.getTime()
+    if (time < from || count === 0 || !Number.isFinite(sum)) continue
+    addToBin(bins, Math.floor((time - from) / binMs), sum, count)
+  }
+
+  return residualPoints(bins, from, binMs, prediction)
+}
+
+function addToBin(bins: Map<number, PowerBin>, key: number, sum: number, count: number) {
+  const bin = bins.get(key) ?? { sum: 0, count: 0 }
+  bin.sum += sum
+  bin.count += count
+  bins.set(key, bin)
+}
+
+function residualPoints(
+  bins: Map<number, PowerBin>,
+  from: number,
+  binMs: number,
+  { predictedPower, confidenceInterval }: PredictionSnapshot
+): ResidualPoint[] {
+  return [...bins.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([key, { sum, count }]) => {
+      const measured = sum / count
+      return {
+        timestamp: new Date(from + key * binMs).toISOString(),
+        measured,
+        predicted: predictedPower,
+        residual: measured - predictedPower,
+        withinInterval: measured >= confidenceInterval.lower && measured <= confidenceInterval.upper
+      }
+    })
+}
+
+export function residualMetrics(points: ResidualPoint[]): ResidualMetrics {
+  if (points.length === 0) {
+    return { points: 0, mape: null, rmse: null, bias: null, coverage: null }
+  }
+
+  let squared = 0
+  let sum = 0
+  let inside = 0
+  let percent = 0
+  let percentCount = 0
+  for (const point of points) {
+    squared += point.residual ** 2
+    sum += point.residual
+    if (point.withinInterval) inside++
+    if (point.measured > 0) {
+      percent += Math.abs(point.residual) / point.measured
+      percentCount++
+    }
+  }
+
+  return {
+    points: points.length,
+    mape: percentCount > 0 ? (percent / percentCount) * 100 : null,
+    rmse: Math.sqrt(squared / points.length),
+    bias: sum / points.length,
+    coverage: inside / points.length
+  }
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+const mean = (values: (number | null)[]): number | null => {
+  const present = values.filter((value): value is number => value !== null)
+  return present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : null
+}
+
+function summarize(entries: ExperimentAccuracy[]) {
+  const measured = entries.filter(entry => entry.metrics.points > 0)
+  return {
+    experiments: measured.length,
+    points: measured.reduce((total, entry) => total + entry.metrics.points, 0),
+    mape: mean(measured.map(entry => entry.metrics.mape)),
+    rmse: mean(measured.map(entry => entry.metrics.rmse)),
+    bias: mean(measured.map(entry => entry.metrics.bias)),
+    coverage: mean(measured.map(entry => entry.metrics.coverage))
+  }
+}
+
+/**
+ * Pool experiment accuracy by the design type each prediction was made for,
+ * and by the model that made it. The formula's design bonus is additive
+ * (BASELINE_POWER per unit of multiplier), so the multiplier that cancels an
+ * experiment's mean bias is m + bias / BASELINE_POWER; trained-model
+ * predictions apply no multiplier and do not count towards the suggestion.
+ */
+export function aggregateAccuracy(entries: ExperimentAccuracy[]): AccuracyReport {
+  const byDesign = new Map<string, ExperimentAccuracy[]>()
+  for (const entry of entries) {
+    const designType = entry.prediction.designType ?? 'unspecified'
+    byDesign.set(designType, [...(byDesign.get(designType) ?? []), entry])
+  }
+
+  const designs = [...byDesign.entries()].map(([designType, group]): DesignAccuracy => {
+    const summary = summarize(group)
+    const typed = designType in DESIGN_MULTIPLIERS
+    const corrected = group
+      .filter(entry => entry.metrics.bias !== null && entry.prediction.designMultiplier !== null)
+      .map(entry => entry.prediction.designMultiplier! + entry.metrics.bias! / BASELINE_POWER)
+
+    return {
+      designType,
+      ...summary,
+      currentMultiplier: typed ? DESIGN_MULTIPLIERS[designType] : null,
+      suggestedMultiplier: typed && corrected.length > 0 ? Math.max(0, mean(corrected)!) : null
+    }
+  })
+
+  const byModel = new Map<string, ExperimentAccuracy[]>()
+  for (const entry of entries) {
+    const model = predictionModelLabel(entry.prediction)
+    byModel.set(model, [...(byModel.get(model) ?? []), entry])
+  }
+  const models = [...byModel.entries()].map(([model, group]): ModelAccuracy => ({ model, ...summarize(group) }))
+
+  return {
+    designs: designs.sort((a, b) => b.experiments - a.experiments || a.designType.localeCompare(b.designType)),
+    models: models.sort((a, b) => b.experiments - a.experiments || a.model.localeCompare(b.model)),
+    overall: summarize(entries)
+  }
+}
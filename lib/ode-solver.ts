@@ -0,0 +1,110 @@
+// ============================================================================
+// ADAPTIVE ODE INTEGRATION (DORMAND-PRINCE RK45)
+// ============================================================================
+
+export type OdeDerivative = (t: number, y: number[]) => number[]
+
+export interface OdeSolverOptions {
+  relativeTolerance?: number
+  absoluteTolerance?: number | number[] // Scalar or per-state
+  initialStep?: number
+  maxStep?: number
+  minStep?: number
+  maxSteps?: number
+}
+
+export interface OdeSolution {
+  t: number
+  y: number[]
+  acceptedSteps: number
+  rejectedSteps: number
+  lastStep: number // Suggested size for the next call (reuse across zero-order-hold intervals)
+}
+
+// Dormand-Prince 5(4) tableau
+const C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1]
+const A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+]
+const B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0]
+const B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40]
+
+/**
+ * Integrate dy/dt = f(t, y) from t0 to t1 with embedded error control.
+ * Steps are accepted when the RMS of the scaled local error is at most 1.
+ */
+export function integrateRK45(
+  f: OdeDerivative,
+  t0: number,
+  y0: number[],
+  t1: number,
+  options: OdeSolverOptions = {}
+): OdeSolution {
+  const rtol = options.relativeTolerance ?? 1e-6
+  const atol = options.absoluteTolerance ?? 1e-9
+  const span = t1 - t0
+  const maxStep = options.maxStep ?? Math.abs(span)
+  const minStep = options.minStep ?? Math.abs(span) * 1e-12
+  const maxSteps = options.maxSteps ?? 100000
+
+  let t = t0
+  let y = [...y0]
+  let h = Math.min(options.initialStep ?? Math.abs(span) / 10, maxStep)
+  let acceptedSteps = 0
+  let rejectedSteps = 0
+
+  if (span === 0) return { t, y, acceptedSteps, rejectedSteps, lastStep: h }
+  if (span < 0) throw new Error('integrateRK45 requires t1 >= t0')
+
+  let k1 = f(t, y)
+
+  while (t < t1) {
+    if (acceptedSteps + rejectedSteps >= maxSteps) {
+      throw new Error(`ODE solver exceeded ${maxSteps} steps at t = ${t}`)
+    }
+
+    const lastStep = t + h >= t1
+    const step = lastStep ? t1 - t : h
+
+    const k: number[][] = [k1]
+    for (let stage = 1; stage < 7; stage++) {
+      const yStage = y.map((yi, i) => yi + step * A[stage].reduce((sum, a, j) => sum + a * k[j][i], 0))
+      k.push(f(t + C[stage] * step, yStage))
+    }
+
+    const yNew = y.map((yi, i) => yi + step * B5.reduce((sum, b, j) => sum + b * k[j][i], 0))
+    let errorNorm = 0
+    for (let i = 0; i < y.length; i++) {
+      const error = step * B5.reduce((sum, b, j) => sum + (b - B4[j]) * k[j][i], 0)
+      const tolerance = (Array.isArray(atol) ? atol[i] : atol) + rtol * Math.max(Math.abs(y[i]), Math.abs(yNew[i]))
+      errorNorm += (error / tolerance) ** 2
+    }
+    errorNorm = Math.sqrt(errorNorm / y.length)
+
+    if (errorNorm <= 1 && yNew.every(Number.isFinite)) {
+      t = lastStep ? t1 : t + step
+      y = yNew
+      k1 = k[6] // First-same-as-last
+      acceptedSteps++
+    } else {
+      rejectedSteps++
+    }
+
+    // Standard step-size controller with safety factor and growth limits
+    const factor = Number.isFinite(errorNorm) && errorNorm > 0 ? 0.9 * Math.pow(errorNorm, -0.2) : 5
+    const proposed = step * Math.min(5, Math.max(0.2, factor))
+    if (!(errorNorm <= 1) && proposed < minStep) {
+      throw new Error(`ODE solver step size fell below ${minStep} at t = ${t}`)
+    }
+    // Do not let the shortened final step shrink the suggestion for the next interval
+    h = Math.min(maxStep, lastStep && errorNorm <= 1 ? Math.max(h, proposed) : proposed)
+  }
+
+  return { t, y, acceptedSteps, rejectedSteps, lastStep: h }
+}
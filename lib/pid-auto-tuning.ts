@@ -0,0 +1,487 @@
+import { FuelCellType } from './types/fuel-cell-types'
+import { nelderMead } from './gaussian-process'
+import {
+  ControlSystemSimulationEngine,
+  LOOP_MEASUREMENTS,
+  type ControlSystemConfig,
+  type ControllerConfig,
+  type LoopExperimentResult,
+  type SimulationParameters,
+  type TunableLoop
+} from './control-system-simulation'
+
+// ============================================================================
+// AUTO-TUNING INTERFACES
+// ============================================================================
+
+export type PIDTuningMethod = 'ZIEGLER_NICHOLS_STEP' | 'ZIEGLER_NICHOLS_RELAY' | 'COHEN_COON' | 'OPTIMIZATION'
+
+export type TuningCriterion = 'ITAE' | 'ISE'
+
+export interface PIDGains {
+  kp: number
+  ki: number
+  kd: number
+}
+
+export interface PIDTuningOptions {
+  method: PIDTuningMethod
+  loops?: TunableLoop[] // Defaults to every enabled loop
+  criterion?: TuningCriterion // OPTIMIZATION only, default ITAE
+  maxOvershoot?: number // %, OPTIMIZATION only, default 10
+  stepSize?: number // Identification step as a fraction of the actuator range, default 0.1
+  maxEvaluations?: number // OPTIMIZATION only, default 60
+  responsePoints?: number // Samples kept in the returned step responses, default 300
+}
+
+// First-order-plus-dead-time fit of the open-loop step response
+export interface ProcessModel {
+  gain: number // Measurement units per actuator unit
+  timeConstant: number // s
+  deadTime: number // s
+}
+
+export interface RelayExperiment {
+  relayAmplitude: number // Actuator units
+  oscillationAmplitude: number // Measurement units
+  ultimateGain: number
+  ultimatePeriod: number // s
+  cycles: number
+}
+
+export interface StepResponseMetrics {
+  itae: number
+  ise: number
+  iae: number
+  overshoot: number // % of the setpoint change
+  riseTime: number | null // s, 10–90%; null if never reached
+  settlingTime: number | null // s, ±2% band; null if never settled
+  steadyStateError: number
+}
+
+export interface StepResponse extends LoopExperimentResult {
+  stepTime: number // s
+  initialSetpoint: number
+  setpoint: number
+  metrics: StepResponseMetrics
+}
+
+export interface LoopTuningResult {
+  loop: TunableLoop
+  method: PIDTuningMethod
+  gains: PIDGains
+  previousGains: PIDGains
+  processModel: ProcessModel
+  relay?: RelayExperiment
+  criterion?: TuningCriterion
+  evaluations?: number
+  before: StepResponse // Closed-loop setpoint step with the loop's current controller
+  after: StepResponse // Same step with the tuned PID
+  warnings: string[]
+}
+
+export interface PIDTuningResult {
+  fuelCellType: FuelCellType
+  method: PIDTuningMethod
+  loops: LoopTuningResult[]
+  skippedLoops: { loop: TunableLoop; reason: string }[] // Loops whose experiments failed
+  tunedConfig: ControlSystemConfig // Input config with the tuned loops switched to PID and the new gains
+}
+
+// ============================================================================
+// PID AUTO-TUNING ENGINE
+// ============================================================================
+
+export class PIDAutoTuningEngine {
+  // Gain limits accepted by the control-simulation API
+  private static readonly GAIN_LIMITS: PIDGains = { kp: 10, ki: 5, kd: 2 }
+  private static readonly MAX_EXPERIMENT_DURATION = 3600 // s
+
+  public static tune(
+    config: ControlSystemConfig,
+    fuelCellType: FuelCellType,
+    parameters: SimulationParameters,
+    options: PIDTuningOptions
+  ): PIDTuningResult {
+    const loops = options.loops ?? (['thermal', 'humidity', 'pressure', 'airIntake'] as const).filter(loop => config[loop].enabled)
+    if (loops.length === 0) {
+      throw new Error('Invalid tuning request: no loops selected and none enabled')
+    }
+    const stepSize = options.stepSize ?? 0.1
+    if (!(stepSize > 0 && stepSize <= 0.5)) {
+      throw new Error('Invalid tuning request: stepSize must be in (0, 0.5]')
+    }
+
+    // Tuning experiments run without the scenario's disturbances
+    const experiment: SimulationParameters = { ...parameters, disturbances: [] }
+    const tunedConfig: ControlSystemConfig = { ...config }
+    const results: LoopTuningResult[] = []
+    const skippedLoops: PIDTuningResult['skippedLoops'] = []
+
+    // Loops are tuned in turn; later loops see the earlier loops' new gains
+    for (const loop of loops) {
+      try {
+        const result = this.tuneLoop(tunedConfig, fuelCellType, experiment, loop, options, stepSize)
+        tunedConfig[loop] = { ...tunedConfig[loop], type: 'PID', pidParams: result.gains } as ControlSystemConfig[typeof loop]
+        results.push(result)
+      } catch (error) {
+        if (!(error instanceof Error && error.message.startsWith('Invalid tuning experiment'))) throw error
+        skippedLoops.push({ loop, reason: error.message })
+      }
+    }
+
+    if (results.length === 0) {
+      throw new Error(skippedLoops[0].reason)
+    }
+
+    return { fuelCellType, method: options.method, loops: results, skippedLoops, tunedConfig }
+  }
+
+  /**
+   * Performance of a closed-loop setpoint step. ITAE and ISE integrate from the
+   * step onwards; overshoot and bands are relative to the size of the step.
+   */
+  public static evaluateStepResponse(
+    response: LoopExperimentResult,
+    stepTime: number,
+    initialSetpoint: number,
+    setpoint: number
+  ): StepResponseMetrics {
+    const change = setpoint - initialSetpoint
+    const dt = response.time.length > 1 ? response.time[1] - response.time[0] : 0
+    const band = 0.02 * Math.abs(change)
+
+    let itae = 0
+    let ise = 0
+    let iae = 0
+    let peak = 0
+    let riseStart: number | null = null
+    let riseEnd: number | null = null
+    let lastOutside: number | null = null
+
+    response.time.forEach((time, i) => {
+      if (time < stepTime) return
+      const error = setpoint - response.measurement[i]
+      const progress = change !== 0 ? (response.measurement[i] - initialSetpoint) / change : 1
+
+      itae += (time - stepTime) * Math.abs(error) * dt
+      ise += error * error * dt
+      iae += Math.abs(error) * dt
+      peak = Math.max(peak, progress - 1)
+      if (riseStart === null && progress >= 0.1) riseStart = time
+      if (riseEnd === null && progress >= 0.9) riseEnd = time
+      if (Math.abs(error) > band) lastOutside = i
+    })
+
+    const lastIndex = response.time.length - 1
+    const settlingTime = lastOutside === null
+      ? 0
+      : lastOutside < lastIndex ? response.time[lastOutside + 1] - stepTime : null
+
+    return {
+      itae,
+      ise,
+      iae,
+      overshoot: Math.max(0, peak) * 100,
+      riseTime: riseStart !== null && riseEnd !== null ? riseEnd - riseStart : null,
+      settlingTime,
+      steadyStateError: lastIndex >= 0 ? setpoint - response.measurement[lastIndex] : 0
+    }
+  }
+
+  private static tuneLoop(
+    config: ControlSystemConfig,
+    fuelCellType: FuelCellType,
+    parameters: SimulationParameters,
+    loop: TunableLoop,
+    options: PIDTuningOptions,
+    stepSize: number
+  ): LoopTuningResult {
+    const controller = config[loop]
+    const warnings: string[] = []
+
+    // Open-loop step identifies the process and sizes the closed-loop test
+    const identification = this.identifyProcess(config, fuelCellType, parameters, loop, stepSize)
+    const { processModel } = identification
+    const testParameters: SimulationParameters = { ...parameters, duration: identification.duration }
+    const nominal = parameters.nominalConditions[LOOP_MEASUREMENTS[loop]]
+    const step = {
+      time: 0.05 * identification.duration,
+      setpoint: nominal + 0.5 * identification.responseChange
+    }
+    const respond = (candidate: ControllerConfig, points?: number): StepResponse => {
+      const response = ControlSystemSimulationEngine.simulateSetpointStep(
+        config, fuelCellType, testParameters, loop, candidate, step
+      )
+      return {
+        ...(points ? downsample(response, points) : response),
+        stepTime: step.time,
+        initialSetpoint: nominal,
+        setpoint: step.setpoint,
+        metrics: this.evaluateStepResponse(response, step.time, nominal, step.setpoint)
+      }
+    }
+
+    let gains: PIDGains
+    let relay: RelayExperiment | undefined
+    let evaluations: number | undefined
+    switch (options.method) {
+      case 'ZIEGLER_NICHOLS_STEP':
+        gains = this.zieglerNicholsStep(processModel)
+        break
+      case 'COHEN_COON':
+        gains = this.cohenCoon(processModel)
+        break
+      case 'ZIEGLER_NICHOLS_RELAY': {
+        relay = this.relayExperiment(config, fuelCellType, parameters, loop, identification)
+        gains = {
+          kp: 0.6 * relay.ultimateGain,
+          ki: (0.6 * relay.ultimateGain) / (relay.ultimatePeriod / 2),
+          kd: 0.6 * relay.ultimateGain * (relay.ultimatePeriod / 8)
+        }
+        break
+      }
+      case 'OPTIMIZATION': {
+        const optimized = this.optimizeGains(controller, processModel, respond, options)
+        gains = optimized.gains
+        evaluations = optimized.evaluations
+        if (optimized.overshoot > (options.maxOvershoot ?? 10)) {
+          warnings.push(`Best gains found still overshoot by ${optimized.overshoot.toFixed(1)}%`)
+        }
+        break
+      }
+      default:
+        throw new Error(`Invalid tuning method: ${options.method}`)
+    }
+
+    const limited = this.limitGains(gains)
+    for (const name of ['kp', 'ki', 'kd'] as const) {
+      if (gains[name] > this.GAIN_LIMITS[name]) {
+        warnings.push(`${name} clamped from ${gains[name].toPrecision(3)} to ${limited[name]}`)
+      }
+    }
+
+    return {
+      loop,
+      method: options.method,
+      gains: limited,
+      previousGains: controller.pidParams,
+      processModel,
+      ...(relay && { relay }),
+      ...(options.method === 'OPTIMIZATION' && { criterion: options.criterion ?? 'ITAE', evaluations }),
+      before: respond(controller, options.responsePoints ?? 300),
+      after: respond({ ...controller, type: 'PID', pidParams: limited }, options.responsePoints ?? 300),
+      warnings
+    }
+  }
+
+  /**
+   * Open-loop actuator step, lengthened until the response settles, fitted by
+   * Smith's two-point method (28.3% and 63.2% of the final change).
+   */
+  private static identifyProcess(
+    config: ControlSystemConfig,
+    fuelCellType: FuelCellType,
+    parameters: SimulationParameters,
+    loop: TunableLoop,
+    stepSize: number
+  ): { processModel: ProcessModel; duration: number; responseChange: number; actuatorStep: number } {
+    const { constraints } = config[loop]
+    const nominalCommand = parameters.nominalConditions[LOOP_MEASUREMENTS[loop]]
+    const span = constraints.max - constraints.min
+    // Step towards whichever side of the actuator range has room
+    const actuatorStep = nominalCommand + stepSize * span <= constraints.max ? stepSize * span : -stepSize * span
+
+    for (let duration = parameters.duration; ; duration *= 2) {
+      duration = Math.min(duration, this.MAX_EXPERIMENT_DURATION)
+      const stepTime = 0.05 * duration
+      const response = ControlSystemSimulationEngine.runLoopExperiment(
+        config, fuelCellType, { ...parameters, duration }, loop,
+        time => time >= stepTime ? nominalCommand + actuatorStep : nominalCommand
+      )
+
+      const before = response.measurement[Math.max(0, response.time.findIndex(time => time >= stepTime) - 1)]
+      const tail = response.measurement.slice(Math.floor(0.9 * response.measurement.length))
+      const final = tail[tail.length - 1]
+      const change = final - before
+      const settled = Math.max(...tail) - Math.min(...tail) <= 0.02 * Math.abs(change)
+
+      if (settled || duration >= this.MAX_EXPERIMENT_DURATION) {
+        if (!settled) {
+          throw new Error(`Invalid tuning experiment: ${loop} response did not settle within ${this.MAX_EXPERIMENT_DURATION} s`)
+        }
+        if (!(change / actuatorStep > 0)) {
+          throw new Error(`Invalid tuning experiment: ${loop} shows no positive response to its actuator`)
+        }
+
+        const crossing = (fraction: number) => {
+          const index = response.measurement.findIndex((value, i) =>
+            response.time[i] >= stepTime && (value - before) / change >= fraction
+          )
+          return response.time[index] - stepTime
+        }
+        const t28 = crossing(0.283)
+        const t63 = crossing(0.632)
+        const timeConstant = Math.max(1.5 * (t63 - t28), parameters.timeStep)
+
+        return {
+          processModel: {
+            gain: change / actuatorStep,
+            timeConstant,
+            deadTime: Math.max(t63 - timeConstant, parameters.timeStep)
+          },
+          duration,
+          responseChange: change,
+          actuatorStep
+        }
+      }
+    }
+  }
+
+  // Ziegler-Nichols reaction-curve rules
+  private static zieglerNicholsStep({ gain, timeConstant, deadTime }: ProcessModel): PIDGains {
+    const kp = (1.2 * timeConstant) / (gain * deadTime)
+    return { kp, ki: kp / (2 * deadTime), kd: kp * 0.5 * deadTime }
+  }
+
+  private static cohenCoon({ gain, timeConstant, deadTime }: ProcessModel): PIDGains {
+    const ratio = deadTime / timeConstant
+    const kp = (1 / gain) * (1 / ratio) * (4 / 3 + ratio / 4)
+    const integralTime = (deadTime * (32 + 6 * ratio)) / (13 + 8 * ratio)
+    const derivativeTime = (4 * deadTime) / (11 + 2 * ratio)
+    return { kp, ki: kp / integralTime, kd: kp * derivativeTime }
+  }
+
+  /**
+   * Åström-Hägglund relay feedback around the nominal operating point. The
+   * describing function of a relay with hysteresis ε gives
+   * Ku = 4d / (π·√(a² − ε²)) from the limit-cycle amplitude a.
+   */
+  private static relayExperiment(
+    config: ControlSystemConfig,
+    fuelCellType: FuelCellType,
+    parameters: SimulationParameters,
+    loop: TunableLoop,
+    identification: { processModel: ProcessModel; duration: number; responseChange: number; actuatorStep: number }
+  ): RelayExperiment {
+    const { constraints } = config[loop]
+    const nominal = parameters.nominalConditions[LOOP_MEASUREMENTS[loop]]
+    const relayAmplitude = Math.abs(identification.actuatorStep)
+    const hysteresis = 0.01 * Math.abs(identification.responseChange)
+    // Keep both relay levels inside the actuator range and switch around the matching steady state
+    const center = Math.min(Math.max(nominal, constraints.min + relayAmplitude), constraints.max - relayAmplitude)
+    const target = nominal + identification.processModel.gain * (center - nominal)
+
+    for (let duration = identification.duration; ; duration *= 2) {
+      duration = Math.min(duration, this.MAX_EXPERIMENT_DURATION)
+      let high = true
+      const response = ControlSystemSimulationEngine.runLoopExperiment(
+        config, fuelCellType, { ...parameters, duration }, loop,
+        (_, measurement) => {
+          const error = target - measurement
+          if (error > hysteresis) high = true
+          else if (error < -hysteresis) high = false
+          return center + (high ? relayAmplitude : -relayAmplitude)
+        }
+      )
+
+      // Upward crossings of the setpoint mark full periods
+      const crossings: number[] = []
+      for (let i = 1; i < response.measurement.length; i++) {
+        if (response.measurement[i - 1] < target && response.measurement[i] >= target) crossings.push(i)
+      }
+
+      // Skip the first cycle, which still carries the start-up transient
+      if (crossings.length >= 4) {
+        const periods = crossings.slice(1).map((index, i) => response.time[index] - response.time[crossings[i]]).slice(1)
+        const ultimatePeriod = periods.reduce((sum, period) => sum + period, 0) / periods.length
+        const lastCycle = response.measurement.slice(crossings[crossings.length - 2], crossings[crossings.length - 1] + 1)
+        const oscillationAmplitude = (Math.max(...lastCycle) - Math.min(...lastCycle)) / 2
+        const effective = Math.sqrt(Math.max(oscillationAmplitude ** 2 - hysteresis ** 2, (0.1 * oscillationAmplitude) ** 2))
+
+        return {
+          relayAmplitude,
+          oscillationAmplitude,
+          ultimateGain: (4 * relayAmplitude) / (Math.PI * effective),
+          ultimatePeriod,
+          cycles: crossings.length - 1
+        }
+      }
+
+      if (duration >= this.MAX_EXPERIMENT_DURATION) {
+        throw new Error(`Invalid tuning experiment: ${loop} relay test did not reach a limit cycle within ${this.MAX_EXPERIMENT_DURATION} s`)
+      }
+    }
+  }
+
+  /**
+   * Minimise ITAE or ISE of the closed-loop setpoint step over log-gains,
+   * with a quadratic penalty on overshoot above the limit. The search starts
+   * from the best of the current gains, the Ziegler-Nichols step rules and
+   * SIMC, so the result is never worse than the loop's current tuning.
+   */
+  private static optimizeGains(
+    controller: ControllerConfig,
+    processModel: ProcessModel,
+    respond: (candidate: ControllerConfig) => StepResponse,
+    options: PIDTuningOptions
+  ): { gains: PIDGains; evaluations: number; overshoot: number } {
+    const criterion = options.criterion ?? 'ITAE'
+    const maxOvershoot = options.maxOvershoot ?? 10
+    const floor = 1e-4
+
+    let evaluations = 0
+    let reference = 0
+    const toGains = (x: number[]): PIDGains => this.limitGains({ kp: Math.exp(x[0]), ki: Math.exp(x[1]), kd: Math.exp(x[2]) })
+    const toLog = (gains: PIDGains) => [gains.kp, gains.ki, gains.kd].map(gain => Math.log(Math.max(gain, floor)))
+    const evaluate = (gains: PIDGains) => {
+      evaluations++
+      const { metrics } = respond({ ...controller, type: 'PID', pidParams: gains })
+      return { value: criterion === 'ITAE' ? metrics.itae : metrics.ise, overshoot: metrics.overshoot }
+    }
+    const penalised = ({ value, overshoot }: { value: number; overshoot: number }) => {
+      const excess = Math.max(0, overshoot - maxOvershoot) / Math.max(maxOvershoot, 1)
+      return value / reference + 10 * excess * excess
+    }
+
+    const starts = [controller.pidParams, this.zieglerNicholsStep(processModel), this.simc(processModel)]
+      .map(gains => this.limitGains(gains))
+      .map(gains => ({ gains, ...evaluate(gains) }))
+    reference = Math.max(Math.min(...starts.map(start => start.value)), 1e-12)
+    const start = starts
+      .map(candidate => ({ ...candidate, cost: penalised(candidate) }))
+      .sort((a, b) => a.cost - b.cost)[0]
+
+    const { point, value } = nelderMead(x => penalised(evaluate(toGains(x))), toLog(start.gains), options.maxEvaluations ?? 60)
+    const best = value < start.cost ? toGains(point) : start.gains
+
+    return { gains: best, evaluations, overshoot: evaluate(best).overshoot }
+  }
+
+  // Skogestad's SIMC PI rules with closed-loop time constant max(θ, τ/10)
+  private static simc({ gain, timeConstant, deadTime }: ProcessModel): PIDGains {
+    const closedLoop = Math.max(deadTime, timeConstant / 10)
+    const kp = timeConstant / (gain * (closedLoop + deadTime))
+    return { kp, ki: kp / Math.min(timeConstant, 4 * (closedLoop + deadTime)), kd: 0 }
+  }
+
+  private static limitGains(gains: PIDGains): PIDGains {
+    const round = (value: number) => Number(value.toPrecision(4))
+    return {
+      kp: round(Math.min(Math.max(gains.kp, 0), this.GAIN_LIMITS.kp)),
+      ki: round(Math.min(Math.max(gains.ki, 0), this.GAIN_LIMITS.ki)),
+      kd: round(Math.min(Math.max(gains.kd, 0), this.GAIN_LIMITS.kd))
+    }
+  }
+}
+
+// Every k-th sample plus the last, so long experiments stay small in API responses
+function downsample(response: LoopExperimentResult, maxPoints: number): LoopExperimentResult {
+  const stride = Math.max(1, Math.ceil(response.time.length / maxPoints))
+  const keep = (_: number, i: number) => i % stride === 0 || i === response.time.length - 1
+  return {
+    time: response.time.filter(keep),
+    measurement: response.measurement.filter(keep),
+    command: response.command.filter(keep)
+  }
+}
@@ -0,0 +1,468 @@
+// ============================================================================
+// DATA-DRIVEN POWER MODEL
+// ============================================================================
+//
+// Gaussian process regression of reported power density (ResearchPaper.powerOutput,
+// mW/m²) on the operating conditions, electrode, organism and reactor details
+// extracted from each paper. The extracted JSON comes from several extractors
+// with different shapes, so every feature is read tolerantly and may be missing;
+// missing values are filled with the training median.
+//
+// Power densities span orders of magnitude, so the GP models log10(mW/m²).
+// Fitting is deterministic (fixed Nelder-Mead starts, samples sorted by id), so
+// the same corpus always yields the same artifact and the same predictions.
+
+import prisma from './db'
+import { GaussianProcess, type GaussianProcessHyperparameters } from './gaussian-process'
+import { getSimplePrediction, type PredictionInput, type PredictionResult } from './ai-predictions'
+
+export const POWER_MODEL_ALGORITHM = 'gp-matern52-log10'
+
+export const POWER_MODEL_FEATURES = [
+  'temperature', // °C
+  'ph',
+  'logSubstrate', // log10 g/L
+  'logVolume', // log10 mL
+  'nanomaterialAnode', // 0/1: graphene, CNT, MXene...
+  'metalAnode', // 0/1: stainless steel, titanium...
+  'pureCulture', // 0/1
+  'dualChamber' // 0/1
+] as const
+
+// Inputs a prediction request can supply; the rest are imputed
+const DOMAIN_FEATURES = ['temperature', 'ph', 'logSubstrate', 'logVolume'] as const
+
+export type PowerModelFeature = typeof POWER_MODEL_FEATURES[number]
+
+export interface PaperRecord {
+  id: string
+  powerOutput: number | null
+  systemType?: string | null
+  experimentalConditions?: string | null
+  anodeMaterials?: string | null
+  organismTypes?: string | null
+  reactorConfiguration?: string | null
+  systemConfiguration?: string | null
+}
+
+export interface PowerModelSample {
+  id: string
+  features: (number | null)[] // In POWER_MODEL_FEATURES order
+  powerDensity: number // mW/m²
+}
+
+export interface PowerModelArtifact {
+  algorithm: string
+  features: string[]
+  imputation: number[] // Training median per feature
+  bounds: { min: number; max: number }[] // Training range per feature (the model's domain)
+  hyperparameters: GaussianProcessHyperparameters
+  sampleIds: string[]
+  X: number[][] // Imputed training inputs
+  y: number[] // log10 power density
+}
+
+export interface CrossValidationMetrics {
+  folds: number
+  samples: number
+  rmseLog10: number // Root mean squared error in decades
+  maeLog10: number
+  mape: number // % on power density
+  r2: number // On log10 power density
+  coverage95: number // Share of held-out papers inside the 95% interval, 0-1
+}
+
+export interface PowerModelInput {
+  temperature: number // °C
+  ph: number
+  substrateConcentration?: number // g/L
+  reactorVolume?: number // mL
+  anodeMaterial?: string
+  organism?: string
+  chambers?: number
+  anodeArea?: number // cm², converts power density into power
+}
+
+export interface PowerModelPrediction {
+  powerDensity: number // mW/m²
+  interval: { lower: number; upper: number } // 95%, mW/m²
+}
+
+export interface TrainingOptions {
+  maxSamples?: number // GP cost grows with n³; larger corpora are thinned evenly
+  folds?: number
+}
+
+// ============================================================================
+// FEATURE EXTRACTION
+// ============================================================================
+
+function parseJson(text: string | null | undefined): unknown {
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Numbers may be plain, strings with units, ranges as arrays or {operating, value, ...} objects
+function numeric(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value)
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  if (Array.isArray(value)) {
+    const numbers = value.map(numeric).filter((item): item is number => item !== null)
+    return numbers.length > 0 ? median(numbers) : null
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    for (const key of ['operating', 'value', 'optimal', 'mean', 'average', 'min']) {
+      const found = numeric(record[key])
+      if (found !== null) return found
+    }
+  }
+  return null
+}
+
+// Case-insensitive lookup at the top level and one level down
+function findValue(source: unknown, keys: string[]): unknown {
+  if (!source || typeof source !== 'object' || Array.isArray(source)) return undefined
+  const wanted = keys.map(key => key.toLowerCase())
+  const entries = Object.entries(source as Record<string, unknown>)
+  const direct = entries.find(([key]) => wanted.includes(key.toLowerCase()))
+  if (direct) return direct[1]
+  for (const [, nested] of entries) {
+    const found = findValue(nested, keys)
+    if (found !== undefined) return found
+  }
+  return undefined
+}
+
+// "250 mL", "1.5 L" or a bare number taken as mL
+function volumeInMl(value: unknown): number | null {
+  const amount = numeric(value)
+  if (amount === null || amount <= 0) return null
+  return typeof value === 'string' && /\d\s*(l|liters?|litres?)\b/i.test(value) ? amount * 1000 : amount
+}
+
+function text(value: unknown): string {
+  return value === null || value === undefined ? '' : JSON.stringify(value).toLowerCase()
+}
+
+const NANOMATERIAL = /graphene|nanotube|\bcnts?\b|mxene|nano/
+const METAL = /stainless|steel|titanium|copper|nickel|gold|platinum/
+const MIXED_CULTURE = /mixed|consortium|consortia|sludge|wastewater|sediment|community|inoculum/
+const DUAL_CHAMBER = /dual|two-chamber|two chamber|double|h-type/
+const SINGLE_CHAMBER = /single|one-chamber|air-cathode|membrane-less|membraneless/
+
+function anodeFlags(materials: string): [number | null, number | null] {
+  if (!materials) return [null, null]
+  return [NANOMATERIAL.test(materials) ? 1 : 0, METAL.test(materials) ? 1 : 0]
+}
+
+function pureCultureFlag(organisms: unknown): number | null {
+  const list = Array.isArray(organisms) ? organisms : organisms ? [organisms] : []
+  if (list.length === 0) return null
+  return list.length === 1 && !MIXED_CULTURE.test(text(list)) ? 1 : 0
+}
+
+function chamberFlag(configuration: string): number | null {
+  if (DUAL_CHAMBER.test(configuration)) return 1
+  if (SINGLE_CHAMBER.test(configuration)) return 0
+  return null
+}
+
+const log10OrNull = (value: number | null) => (value !== null && value > 0 ? Math.log10(value) : null)
+
+/**
+ * Training sample for a paper, or null when it reports no power density, is
+ * not an MFC, or gives neither temperature nor pH.
+ */
+export function paperFeatures(paper: PaperRecord): PowerModelSample | null {
+  if (!paper.powerOutput || paper.powerOutput <= 0) return null
+  if (paper.systemType && paper.systemType.toUpperCase() !== 'MFC') return null
+
+  const conditions = parseJson(paper.experimentalConditions)
+  const reactor = parseJson(paper.reactorConfiguration)
+  const system = parseJson(paper.systemConfiguration)
+
+  const temperature = numeric(findValue(conditions, ['temperature', 'operatingTemperature', 'temp']))
+  const ph = numeric(findValue(conditions, ['ph', 'pHRange', 'phRange']))
+  if (temperature === null && ph === null) return null
+
+  const substrate = numeric(findValue(conditions, ['substrateConcentration', 'substrate_concentration', 'concentration']))
+  const volume = volumeInMl(findValue(reactor, ['volume', 'reactorVolume', 'workingVolume', 'anodeVolume']) ??
+    findValue(conditions, ['reactorVolume', 'volume']))
+  const [nanomaterial, metal] = anodeFlags(text(parseJson(paper.anodeMaterials) ?? paper.anodeMaterials ?? ''))
+
+  return {
+    id: paper.id,
+    features: [
+      temperature !== null && temperature > 0 && temperature < 100 ? temperature : null,
+      ph !== null && ph >= 0 && ph <= 14 ? ph : null,
+      log10OrNull(substrate),
+      log10OrNull(volume),
+      nanomaterial,
+      metal,
+      pureCultureFlag(parseJson(paper.organismTypes)),
+      chamberFlag(`${text(reactor)} ${text(system)}`)
+    ],
+    powerDensity: paper.powerOutput
+  }
+}
+
+export function inputFeatures(input: PowerModelInput): (number | null)[] {
+  const [nanomaterial, metal] = anodeFlags((input.anodeMaterial ?? '').toLowerCase())
+  return [
+    input.temperature,
+    input.ph,
+    log10OrNull(input.substrateConcentration ?? null),
+    log10OrNull(input.reactorVolume ?? null),
+    nanomaterial,
+    metal,
+    input.organism ? pureCultureFlag([input.organism]) : null,
+    input.chambers === undefined ? null : input.chambers >= 2 ? 1 : 0
+  ]
+}
+
+// ============================================================================
+// TRAINING
+// ============================================================================
+
+function impute(features: (number | null)[], fill: number[]): number[] {
+  return features.map((value, d) => value ?? fill[d])
+}
+
+function thin<T>(items: T[], maxItems: number): T[] {
+  if (items.length <= maxItems) return items
+  const step = items.length / maxItems
+  return Array.from({ length: maxItems }, (_, i) => items[Math.floor(i * step)])
+}
+
+function fitArtifact(samples: PowerModelSample[], hyperparameters?: GaussianProcessHyperparameters): PowerModelArtifact {
+  const dimensions = POWER_MODEL_FEATURES.length
+  const imputation: number[] = []
+  const bounds: { min: number; max: number }[] = []
+  for (let d = 0; d < dimensions; d++) {
+    const present = samples.map(sample => sample.features[d]).filter((value): value is number => value !== null)
+    const fill = present.length > 0 ? median(present) : 0
+    imputation.push(fill)
+    bounds.push(present.length > 0
+      ? { min: Math.min(...present), max: Math.max(...present) }
+      : { min: fill, max: fill })
+  }
+
+  const X = samples.map(sample => impute(sample.features, imputation))
+  const y = samples.map(sample => Math.log10(sample.powerDensity))
+
+  const gp = new GaussianProcess({ kernel: 'MATERN_52', inputBounds: bounds, hyperparameters })
+  gp.fit(X, y, !hyperparameters)
+
+  return {
+    algorithm: POWER_MODEL_ALGORITHM,
+    features: [...POWER_MODEL_FEATURES],
+    imputation,
+    bounds,
+    hyperparameters: gp.hyperparameters!,
+    sampleIds: samples.map(sample => sample.id),
+    X,
+    y
+  }
+}
+
+/**
+ * K-fold cross-validation. Folds are assigned round-robin over the id-sorted
+ * samples; each fold reuses the full-data hyperparameters and is only
+ * re-conditioned on its training papers, which keeps this affordable.
+ */
+export function crossValidate(
+  samples: PowerModelSample[],
+  hyperparameters: GaussianProcessHyperparameters,
+  folds = 5
+): CrossValidationMetrics {
+  const k = Math.max(2, Math.min(folds, samples.length))
+  const residuals: number[] = []
+  const percentErrors: number[] = []
+  const observed: number[] = []
+  let covered = 0
+
+  for (let fold = 0; fold < k; fold++) {
+    const training = samples.filter((_, i) => i % k !== fold)
+    const heldOut = samples.filter((_, i) => i % k === fold)
+    const artifact = fitArtifact(training, hyperparameters)
+    const gp = conditionedProcess(artifact)
+
+    for (const sample of heldOut) {
+      const prediction = predictFromProcess(gp, artifact, sample.features)
+      const actual = Math.log10(sample.powerDensity)
+      residuals.push(Math.log10(prediction.powerDensity) - actual)
+      percentErrors.push(Math.abs(prediction.powerDensity - sample.powerDensity) / sample.powerDensity)
+      observed.push(actual)
+      if (sample.powerDensity >= prediction.interval.lower && sample.powerDensity <= prediction.interval.upper) covered++
+    }
+  }
+
+  const n = residuals.length
+  const meanObserved = observed.reduce((a, b) => a + b, 0) / n
+  const totalSquares = observed.reduce((sum, value) => sum + (value - meanObserved) ** 2, 0)
+  const residualSquares = residuals.reduce((sum, value) => sum + value ** 2, 0)
+
+  return {
+    folds: k,
+    samples: n,
+    rmseLog10: Math.sqrt(residualSquares / n),
+    maeLog10: residuals.reduce((sum, value) => sum + Math.abs(value), 0) / n,
+    mape: (percentErrors.reduce((a, b) => a + b, 0) / n) * 100,
+    r2: totalSquares > 0 ? 1 - residualSquares / totalSquares : 0,
+    coverage95: covered / n
+  }
+}
+
+/**
+ * Fit the model on papers and cross-validate it. Throws when fewer than ten
+ * papers carry usable data.
+ */
+export function trainPowerModel(
+  papers: PaperRecord[],
+  { maxSamples = 300, folds = 5 }: TrainingOptions = {}
+): { artifact: PowerModelArtifact; metrics: CrossValidationMetrics } {
+  const samples = papers
+    .map(paperFeatures)
+    .filter((sample): sample is PowerModelSample => sample !== null)
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+
+  if (samples.length < 10) {
+    throw new Error(`Only ${samples.length} papers have power output and operating conditions; at least 10 are needed`)
+  }
+
+  const training = thin(samples, maxSamples)
+  const artifact = fitArtifact(training)
+  return { artifact, metrics: crossValidate(training, artifact.hyperparameters, folds) }
+}
+
+// ============================================================================
+// PREDICTION
+// ============================================================================
+
+// Conditioning costs O(n³), so processes are kept per artifact
+const processCache = new WeakMap<PowerModelArtifact, GaussianProcess>()
+
+function conditionedProcess(artifact: PowerModelArtifact): GaussianProcess {
+  let gp = processCache.get(artifact)
+  if (!gp) {
+    gp = new GaussianProcess({ kernel: 'MATERN_52', inputBounds: artifact.bounds, hyperparameters: artifact.hyperparameters })
+    gp.fit(artifact.X, artifact.y, false)
+    processCache.set(artifact, gp)
+  }
+  return gp
+}
+
+function predictFromProcess(gp: GaussianProcess, artifact: PowerModelArtifact, features: (number | null)[]): PowerModelPrediction {
+  const { mean, variance } = gp.predict(impute(features, artifact.imputation))
+
+  // Observation noise is in standardised units; scale it back with the training spread
+  const yMean = artifact.y.reduce((a, b) => a + b, 0) / artifact.y.length
+  const yVariance = artifact.y.reduce((sum, value) => sum + (value - yMean) ** 2, 0) / artifact.y.length
+  const sd = Math.sqrt(variance + artifact.hyperparameters.noiseVariance * (yVariance > 1e-12 ? yVariance : 1))
+
+  return {
+    powerDensity: 10 ** mean,
+    interval: { lower: 10 ** (mean - 1.96 * sd), upper: 10 ** (mean + 1.96 * sd) }
+  }
+}
+
+/**
+ * Why the artifact cannot be trusted for these inputs, or null when they lie
+ * inside the training range of every supplied condition.
+ */
+export function outOfDomain(artifact: PowerModelArtifact, features: (number | null)[]): string | null {
+  for (const name of DOMAIN_FEATURES) {
+    const d = artifact.features.indexOf(name)
+    const value = features[d]
+    if (d < 0 || value === null || value === undefined) continue
+    const { min, max } = artifact.bounds[d]
+    if (value < min || value > max) {
+      const label = name.startsWith('log') ? `${name.slice(3)} (log10)` : name
+      return `${label} ${Number(value.toFixed(3))} is outside the training range ${Number(min.toFixed(3))}–${Number(max.toFixed(3))}`
+    }
+  }
+  return null
+}
+
+// Parsed artifact of the active version, kept so its conditioned process is reused across requests
+let activeModel: { id: string; version: number; artifact: PowerModelArtifact } | null = null
+
+export async function loadActivePowerModel(): Promise<{ version: number; artifact: PowerModelArtifact } | null> {
+  const record = await prisma.powerModel.findFirst({
+    where: { isActive: true },
+    select: { id: true, version: true, artifact: true },
+    orderBy: { version: 'desc' }
+  })
+  if (!record) return null
+  if (activeModel?.id !== record.id) {
+    activeModel = { id: record.id, version: record.version, artifact: JSON.parse(record.artifact) }
+  }
+  return activeModel
+}
+
+export function predictPowerDensity(artifact: PowerModelArtifact, input: PowerModelInput): PowerModelPrediction {
+  return predictFromProcess(conditionedProcess(artifact), artifact, inputFeatures(input))
+}
+
+export interface ModelledPrediction extends PredictionResult {
+  powerDensity?: PowerModelPrediction
+  model: {
+    kind: 'data-driven' | 'formula'
+    version: number | null
+    fallbackReason?: string
+  }
+}
+
+/**
+ * Data-driven prediction when a model is available, the inputs are in its
+ * domain and an anode area converts density into power; the hand-written
+ * formula otherwise.
+ */
+export function predictPower(
+  input: PowerModelInput & PredictionInput,
+  model: { version: number; artifact: PowerModelArtifact } | null
+): ModelledPrediction {
+  const formula = (fallbackReason: string): ModelledPrediction => ({
+    ...getSimplePrediction(input),
+    model: { kind: 'formula', version: null, fallbackReason }
+  })
+
+  if (!model) return formula('No trained model is active')
+  const reason = outOfDomain(model.artifact, inputFeatures(input))
+  if (reason) return formula(reason)
+  if (!input.anodeArea) return formula('anodeArea is needed to convert power density into power')
+
+  const density = predictPowerDensity(model.artifact, input)
+  const areaM2 = input.anodeArea / 10000
+  const round = (value: number) => Math.round(value * 100) / 100
+  const formulaFactors = getSimplePrediction(input).factors
+
+  return {
+    predictedPower: round(density.powerDensity * areaM2),
+    confidenceInterval: {
+      lower: round(density.interval.lower * areaM2),
+      upper: round(density.interval.upper * areaM2)
+    },
+    // Factor contributions only exist for the formula; reported for comparison
+    factors: formulaFactors,
+    powerDensity: {
+      powerDensity: round(density.powerDensity),
+      interval: { lower: round(density.interval.lower), upper: round(density.interval.upper) }
+    },
+    model: { kind: 'data-driven', version: model.version }
+  }
+}
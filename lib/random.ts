@@ -0,0 +1,8 @@
+// ============================================================================
+// SEEDED RANDOM NUMBERS
+// ============================================================================
+
+// One mulberry32 implementation for the app and the published @messai/core
+// package, which cannot depend on the app: same seed, same sequence everywhere.
+export { createRng, sampleNormal } from '@messai/core'
+export type { RandomSource } from '@messai/core'
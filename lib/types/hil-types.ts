@@ -0,0 +1,127 @@
+// ============================================================================
+// HARDWARE-IN-THE-LOOP TEST TYPES
+// ============================================================================
+
+export interface HILTestConfig {
+  testName: string
+  testType: 'VALIDATION' | 'STRESS_TEST' | 'LONGEVITY' | 'FAULT_INJECTION' | 'OPTIMIZATION'
+  hardwareSetup: {
+    realHardware: string[] // List of real hardware components
+    simulatedComponents: string[] // List of simulated components
+    interfaces: HILInterface[]
+  }
+  testScenarios: HILTestScenario[]
+  dataAcquisition: {
+    sampleRate: number // Hz
+    duration: number // seconds
+    channels: string[]
+  }
+  safetyLimits: {
+    maxTemperature: number // °C
+    maxPressure: number // bar
+    maxCurrent: number // A
+    maxVoltage: number // V
+  }
+}
+
+export interface HILInterface {
+  id: string
+  name: string
+  type: 'ANALOG_IN' | 'ANALOG_OUT' | 'DIGITAL_IN' | 'DIGITAL_OUT' | 'CAN' | 'MODBUS' | 'ETHERNET'
+  hardware: string // Hardware device/card
+  channels: number[]
+  sampleRate: number
+  resolution: number // bits
+  range: { min: number; max: number }
+  unit: string
+}
+
+export interface HILTestScenario {
+  id: string
+  name: string
+  description: string
+  duration: number
+  steps: HILTestStep[]
+  expectedOutcomes: {
+    parameter: string
+    expectedValue: number
+    tolerance: number
+    unit: string
+  }[]
+}
+
+export type HILStepAction = 'SET_INPUT' | 'INJECT_FAULT' | 'CHANGE_LOAD' | 'VERIFY_OUTPUT' | 'WAIT'
+
+export interface HILTestStep {
+  time: number // seconds from start
+  action: HILStepAction
+  parameters: Record<string, any>
+  description: string
+}
+
+export type HILFaultSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+
+export interface HILFault {
+  timestamp: number
+  severity: HILFaultSeverity
+  message: string
+  parameter?: string
+  value?: number
+}
+
+export interface HILTestResult {
+  testId: string
+  status: 'RUNNING' | 'PASSED' | 'FAILED' | 'ABORTED'
+  startTime: string
+  endTime?: string
+  duration: number
+  measurements: {
+    timestamp: number
+    parameters: Record<string, number>
+  }[]
+  faults: HILFault[]
+  summary: {
+    passedSteps: number
+    totalSteps: number
+    efficiency: number
+    performanceScore: number
+  }
+}
+
+// ============================================================================
+// SCENARIO RUNNER REPORT
+// ============================================================================
+
+export interface HILStepReport {
+  time: number
+  action: HILStepAction
+  description: string
+  status: 'PASSED' | 'FAILED' | 'SKIPPED'
+  message?: string
+}
+
+export interface HILOutcomeReport {
+  parameter: string
+  expectedValue: number
+  tolerance: number
+  unit: string
+  measured: number | null // null when the parameter is not measured
+  passed: boolean
+}
+
+export interface HILScenarioReport {
+  scenarioId: string
+  name: string
+  status: 'PASSED' | 'FAILED' | 'ABORTED'
+  startedAt: number // seconds from test start
+  duration: number // simulated seconds actually run
+  steps: HILStepReport[]
+  outcomes: HILOutcomeReport[]
+}
+
+export interface HILTestReport extends HILTestResult {
+  testName: string
+  plant: string // Description of the plant the test ran against
+  scenarios: HILScenarioReport[]
+  abortReason?: string
+}
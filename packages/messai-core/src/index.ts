@@ -8,7 +8,12 @@
 export * from './types';
 
 // Export prediction functions
-export { calculatePower } from './predictions/power-calculator';
+export { calculatePower, DEFAULT_SEED } from './predictions/power-calculator';
+export { createRng, sampleNormal, percentileOf } from './predictions/random';
+export { resolveOrganisms, electrodeMultiplier } from './predictions/system-factors';
+
+// Export time-domain simulation
+export { simulateBiofilm } from './simulation/biofilm-simulator';
 
 // Export microbe database and utilities
 export {
@@ -18,6 +23,7 @@ export {
   getAllMicrobes,
   getMicrobeById,
   getMicrobesByType,
+  getConsortiumById,
   calculateConsortiumPower
 } from './microbes/database';
 
@@ -28,6 +34,7 @@ export {
   metalElectrodes,
   compositeElectrodes,
   getAllElectrodes,
+  getElectrodeById,
   getElectrodesByType,
   calculateCostEffectiveness,
   getRecommendedMaterials
@@ -183,6 +183,13 @@ export function getAllElectrodes(): ElectrodeMaterial[] {
   ];
 }
 
+/**
+ * Get electrode material by database key, e.g. 'carbon-felt'
+ */
+export function getElectrodeById(id: string): ElectrodeMaterial | undefined {
+  return carbonMaterials[id] ?? nanomaterials[id] ?? metalElectrodes[id] ?? compositeElectrodes[id];
+}
+
 /**
  * Get electrodes by type
  */
@@ -3,7 +3,7 @@
  * Includes algae, bacteria, and microbial consortia
  */
 
-import { MicrobeSpecies } from '../types';
+import { MicrobeSpecies, MicrobialConsortium } from '../types';
 
 export const algaeDatabase: Record<string, MicrobeSpecies> = {
   chlorella: {
@@ -131,14 +131,7 @@ export const bacteriaDatabase: Record<string, MicrobeSpecies> = {
   }
 };
 
-export const consortiaDatabase: Record<string, {
-  id: string;
-  name: string;
-  composition: string[];
-  synergyFactor: number;
-  description: string;
-  applications: string[];
-}> = {
+export const consortiaDatabase: Record<string, MicrobialConsortium> = {
   'algae-bacteria-1': {
     id: 'algae-bacteria-consortium-1',
     name: 'Chlorella-Geobacter Consortium',
@@ -182,6 +175,13 @@ export function getMicrobeById(id: string): MicrobeSpecies | undefined {
   return getAllMicrobes().find(microbe => microbe.id === id);
 }
 
+/**
+ * Get consortium by database key or ID
+ */
+export function getConsortiumById(id: string): MicrobialConsortium | undefined {
+  return consortiaDatabase[id] ?? Object.values(consortiaDatabase).find(consortium => consortium.id === id);
+}
+
 /**
  * Get microbes by type
  */
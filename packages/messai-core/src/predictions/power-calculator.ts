@@ -3,7 +3,15 @@
  * Based on empirical data and research models
  */
 
-import { PredictionInput, PredictionResult, DesignType } from '../types';
+import { PredictionInput, PredictionResult, PredictionOptions, InputUncertainty, DesignType, ElectrodeRole } from '../types';
+import { getElectrodeById } from '../materials/electrode-database';
+import { createRng, sampleNormal, percentileOf } from './random';
+import { electrodeMultiplier, resolveOrganisms } from './system-factors';
+
+/**
+ * Base power in milliwatts
+ */
+const BASELINE_POWER = 50;
 
 /**
  * Design-specific multipliers based on empirical data
@@ -24,88 +32,170 @@ const DESIGN_MULTIPLIERS: Record<DesignType, number> = {
   'kitchen-sink': 1.5
 };
 
+/**
+ * Default input uncertainties for Monte-Carlo propagation
+ */
+const DEFAULT_UNCERTAINTY: InputUncertainty = {
+  temperature: 0.5,
+  ph: 0.1,
+  substrateConcentration: 0.05
+};
+
+/** Seed used by deterministic calls that do not pass their own */
+export const DEFAULT_SEED = 42;
+
+const DEFAULT_SAMPLES = 1000;
+
+/**
+ * Optimal conditions of a typical mixed anodic culture
+ */
+const DEFAULT_OPTIMAL_TEMP = 30;
+const DEFAULT_OPTIMAL_PH = 7.0;
+
 /**
  * Calculate power output prediction for MFC
  * @param input - Experimental parameters
- * @returns Predicted power output with confidence intervals
+ * @param options - Seed, random source and Monte-Carlo settings
+ * @returns Predicted power output with percentiles under input uncertainty
  */
-export function calculatePower(input: PredictionInput): PredictionResult {
+export function calculatePower(input: PredictionInput, options: PredictionOptions = {}): PredictionResult {
   const { temperature, ph, substrateConcentration, designType } = input;
 
   // Validate inputs
   validateInput(input);
 
-  // Base power in milliwatts
-  const baselinePower = 50;
-
-  // Calculate factor contributions
-  const temperatureFactor = calculateTemperatureFactor(temperature);
-  const phFactor = calculatePhFactor(ph);
-  const substrateFactor = calculateSubstrateFactor(substrateConcentration);
-
   // Design-specific bonus
   const designMultiplier = designType ? (DESIGN_MULTIPLIERS[designType] || 1.0) : 1.0;
-  const designBonus = baselinePower * (designMultiplier - 1.0);
 
-  // Calculate total predicted power
-  const predictedPower = Math.max(0, 
-    baselinePower + temperatureFactor + phFactor + substrateFactor + designBonus
-  );
+  // Organisms set their own temperature and pH optima
+  const organisms = resolveOrganisms(input);
+  const optima = organisms
+    ? organisms.members.map(m => ({ temperature: m.optimalTemp, ph: m.optimalPH }))
+    : [{ temperature: DEFAULT_OPTIMAL_TEMP, ph: DEFAULT_OPTIMAL_PH }];
 
-  // Add realistic variance (±10%)
-  const variance = predictedPower * 0.1;
-  const noise = (Math.random() - 0.5) * 2 * variance;
-  const finalPrediction = Math.max(0, predictedPower + noise);
+  // Calculate factor contributions
+  const temperatureFactor = conditionFactor(optima, o => calculateTemperatureFactor(temperature, o.temperature));
+  const phFactor = conditionFactor(optima, o => calculatePhFactor(ph, o.ph));
+  const substrateFactor = calculateSubstrateFactor(substrateConcentration);
+  const designBonus = BASELINE_POWER * (designMultiplier - 1.0);
+  const microbialBonus = organisms ? BASELINE_POWER * (organisms.activity - 1.0) : 0;
+  const anodeBonus = materialBonus(input.anodeMaterial, 'anode');
+  const cathodeBonus = materialBonus(input.cathodeMaterial, 'cathode');
+
+  // Contributions that do not depend on the uncertain inputs
+  const fixedBonus = designBonus + microbialBonus + anodeBonus + cathodeBonus;
+  const modelPower = (t: number, p: number, s: number) => Math.max(0,
+    BASELINE_POWER +
+    conditionFactor(optima, o => calculateTemperatureFactor(t, o.temperature)) +
+    conditionFactor(optima, o => calculatePhFactor(p, o.ph)) +
+    calculateSubstrateFactor(s) +
+    fixedBonus
+  );
 
-  // Calculate confidence interval (±15%)
-  const confidenceRange = finalPrediction * 0.15;
-  const confidenceInterval = {
-    lower: Math.max(0, finalPrediction - confidenceRange),
-    upper: finalPrediction + confidenceRange
+  const predictedPower = modelPower(temperature, ph, substrateConcentration);
+
+  // Propagate measurement uncertainty of the inputs through the model
+  const uncertainty: InputUncertainty = { ...DEFAULT_UNCERTAINTY, ...options.uncertainty };
+  const samples = Math.max(0, Math.floor(options.samples ?? DEFAULT_SAMPLES));
+  const seed = options.rng ? null : options.seed ?? (options.deterministic === false ? null : DEFAULT_SEED);
+  const rng = options.rng ?? (seed !== null ? createRng(seed) : Math.random);
+
+  const draws: number[] = [];
+  for (let i = 0; i < samples; i++) {
+    draws.push(modelPower(
+      temperature + uncertainty.temperature * sampleNormal(rng),
+      ph + uncertainty.ph * sampleNormal(rng),
+      Math.max(0, substrateConcentration * (1 + uncertainty.substrateConcentration * sampleNormal(rng)))
+    ));
+  }
+  draws.sort((a, b) => a - b);
+
+  const percentile = (p: number) => round(draws.length > 0 ? percentileOf(draws, p) : predictedPower);
+  const percentiles = {
+    p5: percentile(5),
+    p25: percentile(25),
+    p50: percentile(50),
+    p75: percentile(75),
+    p95: percentile(95)
   };
 
   return {
-    predictedPower: Math.round(finalPrediction * 100) / 100,
+    predictedPower: round(predictedPower),
     confidenceInterval: {
-      lower: Math.round(confidenceInterval.lower * 100) / 100,
-      upper: Math.round(confidenceInterval.upper * 100) / 100
+      lower: percentiles.p5,
+      upper: percentiles.p95
+    },
+    percentiles,
+    uncertainty: {
+      samples,
+      seed,
+      inputs: uncertainty
     },
     factors: {
-      temperature: Math.round(temperatureFactor * 100) / 100,
-      ph: Math.round(phFactor * 100) / 100,
-      substrate: Math.round(substrateFactor * 100) / 100,
-      designBonus: Math.round(designBonus * 100) / 100
+      temperature: round(temperatureFactor),
+      ph: round(phFactor),
+      substrate: round(substrateFactor),
+      designBonus: round(designBonus),
+      microbial: round(microbialBonus),
+      anode: round(anodeBonus),
+      cathode: round(cathodeBonus)
     },
-    efficiency: calculateEfficiency(finalPrediction, designMultiplier)
+    efficiency: calculateEfficiency(predictedPower, designMultiplier)
   };
 }
 
+/**
+ * Average a condition factor over the organisms' optima
+ */
+function conditionFactor(
+  optima: Array<{ temperature: number; ph: number }>,
+  factor: (optimum: { temperature: number; ph: number }) => number
+): number {
+  return optima.reduce((sum, optimum) => sum + factor(optimum), 0) / optima.length;
+}
+
+/**
+ * Power contribution of an electrode material relative to carbon cloth
+ */
+function materialBonus(materialId: string | undefined, role: ElectrodeRole): number {
+  if (!materialId) return 0;
+
+  const material = getElectrodeById(materialId);
+  if (!material) {
+    throw new Error(`Unknown ${role} material: ${materialId}`);
+  }
+
+  return BASELINE_POWER * (electrodeMultiplier(material, role) - 1.0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 /**
  * Calculate temperature contribution to power output
  * Based on Arrhenius equation approximation
  */
-function calculateTemperatureFactor(temperature: number): number {
-  const optimalTemp = 30;
-  const tempDiff = temperature - 25;
+function calculateTemperatureFactor(temperature: number, optimalTemp: number = DEFAULT_OPTIMAL_TEMP): number {
+  const peak = 25; // mW at the optimum
   
   // Exponential growth up to optimal, then decline
   if (temperature <= optimalTemp) {
-    return tempDiff * 5; // 5 mW per degree above 25°C
+    return peak - (optimalTemp - temperature) * 5; // 5 mW per degree below optimum
   } else {
     const penalty = (temperature - optimalTemp) * 3;
-    return (optimalTemp - 25) * 5 - penalty;
+    return peak - penalty;
   }
 }
 
 /**
  * Calculate pH contribution to power output
- * Optimal around neutral pH
+ * Optimal around neutral pH unless the organisms prefer otherwise
  */
-function calculatePhFactor(ph: number): number {
-  const optimalPh = 7.0;
+function calculatePhFactor(ph: number, optimalPh: number = DEFAULT_OPTIMAL_PH): number {
   const phDiff = Math.abs(ph - optimalPh);
   
-  // Bell curve centered at pH 7
+  // Bell curve centered at the optimum
   return -phDiff * phDiff * 10 + 20;
 }
 
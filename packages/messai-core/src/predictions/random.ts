@@ -0,0 +1,57 @@
+/**
+ * Seedable random number generation for reproducible predictions
+ */
+
+import { RandomSource } from '../types';
+
+/**
+ * Hash a string seed into a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded uniform generator on [0, 1) (mulberry32).
+ * The same seed always yields the same sequence.
+ * @param seed - Number or string seed
+ */
+export function createRng(seed: number | string): RandomSource {
+  let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw a standard normal sample (Box-Muller)
+ */
+export function sampleNormal(rng: RandomSource): number {
+  // 1 - u keeps the logarithm finite when the generator returns 0
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Linearly interpolated percentile of sorted values
+ * @param sorted - Values in ascending order
+ * @param percentile - 0-100
+ */
+export function percentileOf(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
@@ -0,0 +1,113 @@
+/**
+ * Organism and electrode material factors for power predictions
+ * Built on the microbe and electrode databases
+ */
+
+import { ElectrodeMaterial, ElectrodeRole, MicrobeSpecies, MicrobialConsortium, OrganismProfile, PredictionInput } from '../types';
+import { consortiaDatabase, getConsortiumById, getMicrobeById } from '../microbes/database';
+
+/**
+ * Typical mixed anodic culture that the base model is calibrated to
+ */
+const REFERENCE_ELECTRON_TRANSFER_RATE = 4.0e8; // electrons/s
+const REFERENCE_EFFICIENCY = 0.75;
+
+/**
+ * Bonus for undocumented multi-species communities, as in calculateConsortiumPower
+ */
+const DIVERSITY_BONUS = 1.1;
+
+/**
+ * Carbon cloth is the reference electrode (multiplier 1.0)
+ */
+const REFERENCE_CONDUCTIVITY = 100; // S/cm
+const REFERENCE_SURFACE_AREA = 2000; // m²/g
+
+/**
+ * Conductivity at which half of the ohmic benefit is reached
+ */
+const CONDUCTIVITY_HALF_SATURATION = 50; // S/cm
+
+/**
+ * Sensitivity of each electrode to conductivity and surface area.
+ * Anodes are limited by the biofilm area; cathodes by oxygen reduction kinetics
+ * and current collection.
+ */
+const ELECTRODE_WEIGHTS: Record<ElectrodeRole, { conductivity: number; surfaceArea: number }> = {
+  anode: { conductivity: 0.3, surfaceArea: 1.0 },
+  cathode: { conductivity: 0.5, surfaceArea: 0.3 }
+};
+
+/**
+ * Resolve the organisms selected in a prediction input
+ * @returns The organism profile, or null when no organisms were selected
+ * @throws If an ID is unknown or both microbes and consortium are given
+ */
+export function resolveOrganisms(input: Pick<PredictionInput, 'microbes' | 'consortium'>): OrganismProfile | null {
+  const { microbes, consortium: consortiumId } = input;
+
+  if (consortiumId && microbes?.length) {
+    throw new Error('Specify either microbes or consortium, not both');
+  }
+
+  let consortium: MicrobialConsortium | null = null;
+  let ids: string[];
+
+  if (consortiumId) {
+    consortium = getConsortiumById(consortiumId) ?? null;
+    if (!consortium) {
+      throw new Error(`Unknown consortium: ${consortiumId}`);
+    }
+    ids = consortium.composition;
+  } else if (microbes?.length) {
+    ids = microbes;
+    const key = [...new Set(ids)].sort().join('|');
+    consortium = Object.values(consortiaDatabase).find(c => [...c.composition].sort().join('|') === key) ?? null;
+  } else {
+    return null;
+  }
+
+  const members = ids.map(id => {
+    const microbe = getMicrobeById(id);
+    if (!microbe) {
+      throw new Error(`Unknown microbe: ${id}`);
+    }
+    return microbe;
+  });
+
+  const synergy = consortium ? consortium.synergyFactor : members.length > 1 ? DIVERSITY_BONUS : 1.0;
+  const transferRate = mean(members, m => m.electronTransferRate) / REFERENCE_ELECTRON_TRANSFER_RATE;
+  const efficiency = mean(members, m => m.efficiency) / REFERENCE_EFFICIENCY;
+
+  return {
+    members,
+    consortium,
+    synergy,
+    activity: transferRate * efficiency * synergy
+  };
+}
+
+/**
+ * Performance multiplier of an electrode material relative to carbon cloth
+ * @param material - Electrode material
+ * @param role - Anode or cathode
+ */
+export function electrodeMultiplier(material: ElectrodeMaterial, role: ElectrodeRole): number {
+  const weights = ELECTRODE_WEIGHTS[role];
+
+  // Ohmic benefit saturates once the electrode is no longer the main resistance
+  const conductivity = saturate(material.conductivity) / saturate(REFERENCE_CONDUCTIVITY);
+
+  // Usable area grows roughly logarithmically with specific surface area
+  const surfaceArea = Math.log10(1 + material.surfaceArea) / Math.log10(1 + REFERENCE_SURFACE_AREA);
+
+  return Math.pow(conductivity, weights.conductivity) * Math.pow(surfaceArea, weights.surfaceArea);
+}
+
+function saturate(conductivity: number): number {
+  return conductivity / (conductivity + CONDUCTIVITY_HALF_SATURATION);
+}
+
+function mean(members: MicrobeSpecies[], value: (microbe: MicrobeSpecies) => number): number {
+  return members.reduce((sum, m) => sum + value(m), 0) / members.length;
+}
@@ -29,24 +29,95 @@ export interface PredictionInput {
   
   /** Optional MFC design type */
   designType?: DesignType;
+  
+  /** Optional microbe IDs from the microbe database, e.g. 'geobacter-sulfurreducens' */
+  microbes?: string[];
+  
+  /** Optional consortium key or ID from the consortia database; replaces microbes */
+  consortium?: string;
+  
+  /** Optional anode material key from the electrode database, e.g. 'carbon-felt' */
+  anodeMaterial?: string;
+  
+  /** Optional cathode material key from the electrode database */
+  cathodeMaterial?: string;
+}
+
+/** Uniform random generator on [0, 1), e.g. Math.random or createRng(seed) */
+export type RandomSource = () => number;
+
+/** Standard deviations of the measured inputs, propagated by Monte-Carlo sampling */
+export interface InputUncertainty {
+  /** Temperature standard deviation in °C */
+  temperature: number;
+  
+  /** pH standard deviation */
+  ph: number;
+  
+  /** Substrate concentration standard deviation as a fraction of the value */
+  substrateConcentration: number;
+}
+
+export interface PredictionOptions {
+  /** Seed for reproducible Monte-Carlo sampling */
+  seed?: number | string;
+  
+  /** Custom random source; takes precedence over seed */
+  rng?: RandomSource;
+  
+  /**
+   * Sample with a fixed seed when neither seed nor rng is given (default true).
+   * Set to false to draw from Math.random.
+   */
+  deterministic?: boolean;
+  
+  /** Monte-Carlo sample count (default 1000); 0 skips uncertainty propagation */
+  samples?: number;
+  
+  /** Input uncertainties (defaults: ±0.5 °C, ±0.1 pH, ±5% substrate) */
+  uncertainty?: Partial<InputUncertainty>;
+}
+
+export interface PredictionPercentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
 }
 
 export interface PredictionResult {
-  /** Predicted power output in milliwatts */
+  /** Predicted power output in milliwatts at the nominal inputs */
   predictedPower: number;
   
-  /** Confidence interval for the prediction */
+  /** 90% interval (5th to 95th percentile) of the Monte-Carlo distribution */
   confidenceInterval: {
     lower: number;
     upper: number;
   };
   
+  /** Percentiles of predicted power in milliwatts under input uncertainty */
+  percentiles: PredictionPercentiles;
+  
+  /** How the percentiles were sampled */
+  uncertainty: {
+    samples: number;
+    seed: number | string | null;
+    inputs: InputUncertainty;
+  };
+  
   /** Individual factor contributions */
   factors: {
     temperature: number;
     ph: number;
     substrate: number;
     designBonus: number;
+    /** Electron transfer rate, efficiency and synergy of the selected organisms */
+    microbial: number;
+    /** Anode conductivity and surface area relative to carbon cloth */
+    anode: number;
+    /** Cathode conductivity and surface area relative to carbon cloth */
+    cathode: number;
   };
   
   /** System efficiency percentage */
@@ -78,6 +149,31 @@ export interface MicrobeSpecies {
   color?: number; // Hex color for visualization
 }
 
+export interface MicrobialConsortium {
+  id: string;
+  name: string;
+  composition: string[]; // microbe IDs
+  synergyFactor: number; // power multiplier over the members alone
+  description: string;
+  applications: string[];
+}
+
+export interface OrganismProfile {
+  /** Member species, in input order */
+  members: MicrobeSpecies[];
+  
+  /** Matching consortium from the database, if any */
+  consortium: MicrobialConsortium | null;
+  
+  /** Synergy multiplier (consortium factor, diversity bonus or 1) */
+  synergy: number;
+  
+  /** Biological activity relative to a typical mixed anodic culture (1.0) */
+  activity: number;
+}
+
+export type ElectrodeRole = 'anode' | 'cathode';
+
 export interface MFCDesign {
   id: string;
   name: string;
@@ -105,4 +201,108 @@ export interface MFCDesign {
   applications: string[];
   advantages: string[];
   limitations: string[];
-}
\ No newline at end of file
+}
+/** Substrate feeding regime for time-domain simulation */
+export type FeedingMode =
+  | { mode: 'batch' }
+  | {
+      mode: 'fed-batch';
+      /** Hours between feeds */
+      interval: number;
+      /** Substrate added per feed in g/L */
+      dose: number;
+    }
+  | {
+      mode: 'continuous';
+      /** Hydraulic retention time in hours */
+      hrt: number;
+      /** Influent substrate concentration in g/L */
+      influentConcentration?: number;
+      /** Organic loading rate in g/L/day; sets the influent concentration when given */
+      organicLoadingRate?: number;
+    };
+
+export interface SimulationInput {
+  /** Anode-respiring organism */
+  microbe: MicrobeSpecies;
+  
+  /** Temperature in Celsius */
+  temperature: number;
+  
+  /** pH level */
+  ph: number;
+  
+  /** Initial substrate concentration in g/L (as COD) */
+  initialSubstrate: number;
+  
+  /** Feeding regime (default batch) */
+  feeding?: FeedingMode;
+  
+  /** Anolyte volume in liters (default 0.25) */
+  volume?: number;
+  
+  /** Anode geometric area in cm² (default 100) */
+  anodeArea?: number;
+  
+  /** External load in ohms (default 1000) */
+  externalResistance?: number;
+  
+  /** Internal resistance in ohms (default 100) */
+  internalResistance?: number;
+  
+  /** Inoculum biofilm density in g/m² (default 0.005) */
+  initialBiofilm?: number;
+  
+  /** Simulated time in days (default 30) */
+  duration?: number;
+  
+  /** Integration step in hours (default 0.1) */
+  timeStep?: number;
+  
+  /** Hours between returned points (default 6) */
+  outputInterval?: number;
+}
+
+export interface SimulationPoint {
+  /** Time in days */
+  time: number;
+  
+  /** Biofilm density in g/m² */
+  biofilmDensity: number;
+  
+  /** Substrate concentration in g/L */
+  substrate: number;
+  
+  /** Current in milliamps */
+  current: number;
+  
+  /** Cell voltage in volts */
+  voltage: number;
+  
+  /** Power in milliwatts */
+  power: number;
+}
+
+export interface SimulationResult {
+  points: SimulationPoint[];
+  
+  summary: {
+    /** Days until current first reaches 90% of its peak */
+    startupTime: number | null;
+    
+    /** Peak current in milliamps */
+    peakCurrent: number;
+    
+    /** Peak power in milliwatts */
+    peakPower: number;
+    
+    /** Total charge delivered in coulombs */
+    charge: number;
+    
+    /** Substrate fed over the run in grams, including the initial charge */
+    substrateFed: number;
+    
+    /** Substrate oxidised by the biofilm in grams */
+    substrateConsumed: number;
+  };
+}
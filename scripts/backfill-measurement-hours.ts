@@ -0,0 +1,69 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Fill in Measurement.hour for readings stored before the column existed.
+ *
+ * /api/predictions/accuracy groups measured power by experiment and hour in
+ * the database and skips readings without an hour. New readings get it when
+ * they are ingested; run this once after pushing the schema.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-measurement-hours.ts [--batch 5000]
+ */
+
+import { PrismaClient } from '@prisma/client'
+import dotenv from 'dotenv'
+import { measurementHour } from '../lib/model-accuracy'
+
+// Load environment variables
+dotenv.config({ path: '.env.local' })
+
+// Fix DATABASE_URL protocol if needed
+if (process.env.DATABASE_URL?.startsWith('postgres://')) {
+  process.env.DATABASE_URL = process.env.DATABASE_URL.replace('postgres://', 'postgresql://')
+}
+
+const prisma = new PrismaClient()
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function backfillHours() {
+  const batchSize = Number(option('batch') || 5000)
+  let updated = 0
+
+  console.log('🕐 Backfilling measurement hours...')
+
+  // Updated rows drop out of the filter, so each pass reads the next batch
+  for (;;) {
+    const rows: { id: string; timestamp: Date }[] = await prisma.measurement.findMany({
+      where: { hour: null },
+      select: { id: true, timestamp: true },
+      take: batchSize
+    })
+    if (rows.length === 0) break
+
+    const byHour = new Map<number, string[]>()
+    for (const row of rows) {
+      const hour = measurementHour(row.timestamp).getTime()
+      byHour.set(hour, [...(byHour.get(hour) ?? []), row.id])
+    }
+    for (const [hour, ids] of byHour) {
+      await prisma.measurement.updateMany({ where: { id: { in: ids } }, data: { hour: new Date(hour) } })
+    }
+
+    updated += rows.length
+    console.log(`   ${updated.toLocaleString()} readings updated`)
+  }
+
+  console.log(`✅ Done; ${updated.toLocaleString()} readings now have an hour`)
+}
+
+backfillHours()
+  .catch(error => {
+    console.error('❌ Backfill failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
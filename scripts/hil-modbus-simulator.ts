@@ -0,0 +1,69 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Serve the virtual fuel cell plant over Modbus/TCP for HIL tests.
+ *
+ * Exposes the register map in lib/hil-test-runner.ts (HIL_REGISTERS). In
+ * lockstep mode the test runner advances the plant by writing the step size;
+ * with --realtime the plant steps itself every --step seconds, scaled by
+ * --time-scale, like a rig with its own clock.
+ *
+ * Usage:
+ *   npx tsx scripts/hil-modbus-simulator.ts [--type PEM] [--model TRANSIENT|LUMPED] \
+ *     [--host 127.0.0.1] [--port 5020] [--unit 1] [--realtime] [--step 0.1] [--time-scale 1]
+ *
+ * Then POST /api/fuel-cell/hil with
+ *   "plant": { "type": "modbus", "host": "127.0.0.1", "port": 5020, "clock": "lockstep" }
+ */
+
+import { VirtualPlantRegisterBank, createVirtualPlant } from '../lib/hil-test-runner'
+import { ModbusTcpServer } from '../lib/modbus-tcp'
+import { FuelCellType } from '../lib/types/fuel-cell-types'
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function main() {
+  const type = (option('type') ?? 'PEM').toUpperCase() as FuelCellType
+  const model = (option('model') ?? 'TRANSIENT').toUpperCase()
+  const host = option('host') ?? '127.0.0.1'
+  const port = Number(option('port') ?? 5020)
+  const unitId = option('unit') ? Number(option('unit')) : undefined
+  const realtime = process.argv.includes('--realtime')
+  const step = Number(option('step') ?? 0.1)
+  const timeScale = Number(option('time-scale') ?? 1)
+
+  if (!Object.values(FuelCellType).includes(type)) {
+    throw new Error(`Unknown fuel cell type ${type}; expected one of ${Object.values(FuelCellType).join(', ')}`)
+  }
+  if (model !== 'TRANSIENT' && model !== 'LUMPED') throw new Error(`Unknown plant model ${model}`)
+  if (!(step > 0) || !(timeScale > 0)) throw new Error('--step and --time-scale must be positive')
+
+  const bank = new VirtualPlantRegisterBank(
+    () => createVirtualPlant(type, { plantModel: model }),
+    realtime ? 'realtime' : 'lockstep'
+  )
+  const server = new ModbusTcpServer(bank, unitId)
+  const boundPort = await server.listen(port, host)
+
+  const timer = realtime ? setInterval(() => bank.advance(step), step * 1000 / timeScale) : null
+
+  console.log(`🔌 Virtual ${type} plant (${model}) on modbus://${host}:${boundPort}`)
+  console.log(realtime ? `   Realtime clock: ${step} s steps at ${timeScale}x` : '   Lockstep clock: the test runner advances the plant')
+
+  const shutdown = async () => {
+    if (timer) clearInterval(timer)
+    await server.close()
+    console.log(`\n⏹  Stopped at t = ${bank.time.toFixed(1)} s`)
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
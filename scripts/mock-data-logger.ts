@@ -0,0 +1,136 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Mock MFC data logger for the live streaming endpoint.
+ *
+ * Posts a simulated reading every --interval seconds to
+ * /api/experiments/<id>/stream using the experiment's ingestion token
+ * (created from the experiment page). Readings that fail to send are
+ * buffered and retried with the next post, like a real logger would.
+ *
+ * Usage:
+ *   npx tsx scripts/mock-data-logger.ts --experiment <id> --token mfc_... \
+ *     [--url http://localhost:3003] [--interval 5] [--count 100] [--resistance 1000]
+ *
+ * Stop it (Ctrl+C or --count) and the experiment page flags the feed as stale
+ * after five missed intervals.
+ */
+
+interface LoggerOptions {
+  url: string
+  experiment: string
+  token: string
+  interval: number
+  count: number | null
+  resistance: number
+}
+
+interface Reading {
+  timestamp: string
+  voltage: number
+  current: number
+  temperature: number
+  ph: number
+}
+
+function parseArgs(argv: string[]): LoggerOptions {
+  const args: Record<string, string> = {}
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) args[argv[i].slice(2)] = argv[i + 1] ?? ''
+  }
+
+  const experiment = args.experiment || process.env.MESSAI_EXPERIMENT_ID
+  const token = args.token || process.env.MESSAI_LOGGER_TOKEN
+  if (!experiment || !token) {
+    console.error('Usage: npx tsx scripts/mock-data-logger.ts --experiment <id> --token <ingestion token>')
+    process.exit(1)
+  }
+
+  return {
+    url: (args.url || 'http://localhost:3003').replace(/\/$/, ''),
+    experiment,
+    token,
+    interval: Number(args.interval || 5),
+    count: args.count ? Number(args.count) : null,
+    resistance: Number(args.resistance || 1000)
+  }
+}
+
+// Slowly climbing voltage as the biofilm matures, a daily temperature swing and sensor noise
+function simulateReading(step: number, options: LoggerOptions, start: number): Reading {
+  const now = Date.now()
+  const hours = (now - start) / 3600000
+  const noise = (scale: number) => (Math.random() - 0.5) * scale
+  const voltage = 0.35 + 0.15 * (1 - Math.exp(-hours / 12)) + 0.02 * Math.sin(step / 10) + noise(0.01)
+  const temperature = 28 + 2 * Math.sin((2 * Math.PI * hours) / 24) + noise(0.2)
+
+  return {
+    timestamp: new Date(now).toISOString(),
+    voltage: Number(voltage.toFixed(4)),
+    current: Number((voltage / options.resistance).toFixed(7)), // A through the external load
+    temperature: Number(temperature.toFixed(2)),
+    ph: Number((7.1 - 0.1 * Math.min(1, hours / 48) + noise(0.04)).toFixed(2))
+  }
+}
+
+async function runLogger() {
+  const options = parseArgs(process.argv.slice(2))
+  const endpoint = `${options.url}/api/experiments/${options.experiment}/stream`
+  const start = Date.now()
+  let buffer: Reading[] = []
+  let sent = 0
+  let step = 0
+
+  console.log('📡 Mock MFC data logger')
+  console.log(`   Endpoint: ${endpoint}`)
+  console.log(`   Interval: ${options.interval}s, load ${options.resistance} Ω`)
+
+  const tick = async () => {
+    // The stream endpoint takes at most 1000 readings per post; the oldest go first
+    buffer = [...buffer, simulateReading(step++, options, start)].slice(-1000)
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${options.token}`
+        },
+        body: JSON.stringify({ measurements: buffer })
+      })
+
+      if (response.status === 401 || response.status === 409) {
+        const { error } = await response.json()
+        console.error(`❌ ${error}; stopping`)
+        process.exit(1)
+      }
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+
+      sent += buffer.length
+      const latest = buffer[buffer.length - 1]
+      console.log(`✅ ${latest.timestamp}  ${latest.voltage.toFixed(3)} V  ${(latest.current * 1000).toFixed(3)} mA  (${sent} sent)`)
+      buffer = []
+    } catch (error) {
+      console.warn(`⚠️ Send failed (${(error as Error).message}); ${buffer.length} reading(s) buffered`)
+    }
+
+    if (options.count !== null && step >= options.count) {
+      console.log(`\nDone after ${step} readings`)
+      process.exit(buffer.length === 0 ? 0 : 1)
+    }
+  }
+
+  // Sequential so a slow server never sees the same buffered readings twice
+  const loop = async () => {
+    await tick()
+    setTimeout(loop, options.interval * 1000)
+  }
+  loop()
+}
+
+process.on('SIGINT', () => {
+  console.log('\nLogger stopped')
+  process.exit(0)
+})
+
+runLogger()
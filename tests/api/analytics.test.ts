@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/experiments/[id]/analytics/route'
+import { analyzeExperiment, experimentAnalyticsToCsv, ExperimentAnalyzer } from '@/lib/experiment-analytics'
+import { getServerSession } from 'next-auth/next'
+import prisma from '@/lib/db'
+
+// Mock dependencies
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({
+  default: {
+    experiment: {
+      findUnique: vi.fn()
+    },
+    measurement: {
+      findMany: vi.fn(),
+      count: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/auth/auth-options', () => ({
+  authOptions: {}
+}))
+
+const start = Date.parse('2025-03-01T00:00:00Z')
+
+// 1 mA through 500 mV every 10 minutes for 10 hours
+const constantRun = Array.from({ length: 61 }, (_, i) => ({
+  timestamp: new Date(start + i * 600000),
+  voltage: 0.5,
+  current: 0.001,
+  power: 0.5
+}))
+
+// Hourly readings: exponential start-up, then a 2 %/day decline after the first day
+const agingRun = Array.from({ length: 240 }, (_, hour) => {
+  const power = (1 - Math.exp(-hour / 3)) * (1 - (0.02 * Math.max(0, hour - 24)) / 24)
+  const voltage = Math.sqrt(power)
+  return { timestamp: new Date(start + hour * 3600000), voltage, current: voltage / 1000, power }
+})
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+
+describe('experiment analytics', () => {
+  it('integrates charge and energy into coulombic efficiency', () => {
+    const analytics = analyzeExperiment(constantRun, {
+      anodeArea: 25,
+      reactorVolume: 100,
+      codInitial: 1000,
+      codFinal: 500
+    })
+
+    expect(analytics.charge.coulombs).toBeCloseTo(36) // 1 mA for 10 h
+    expect(analytics.energy.wattHours).toBeCloseTo(0.005)
+
+    // Theoretical charge F * 4 * 0.1 L * 0.5 g/L / 32 g/mol
+    expect(analytics.coulombicEfficiency).toMatchObject({ codRemoved: 0.5, source: 'parameters' })
+    expect(analytics.coulombicEfficiency.theoreticalCharge).toBeCloseTo(603.0, 0)
+    expect(analytics.coulombicEfficiency.percent).toBeCloseTo(5.97, 2)
+
+    expect(analytics.powerDensity.averageMwPerM2).toBeCloseTo(200) // 0.5 mW over 25 cm²
+    expect(analytics.powerDensity.averageWPerM3).toBeCloseTo(5) // 0.5 mW over 100 mL
+    expect(analytics.missingParameters).toEqual([])
+  })
+
+  it('skips logger outages instead of integrating across them', () => {
+    const withGap = constantRun.map((row, i) => (
+      i > 30 ? { ...row, timestamp: new Date(row.timestamp.getTime() + 24 * 3600000) } : row
+    ))
+    const analytics = analyzeExperiment(withGap)
+
+    expect(analytics.window.gapsSkipped).toBe(1)
+    expect(analytics.charge.coulombs).toBeCloseTo(36 - 0.6) // The 10-minute step across the outage is left out
+  })
+
+  it('detects start-up lag, steady state and degradation', () => {
+    const analytics = analyzeExperiment(agingRun)
+
+    expect(analytics.startupLagHours).toBeGreaterThan(1)
+    expect(analytics.startupLagHours).toBeLessThan(6)
+    expect(analytics.steadyState.reached).toBe(true)
+    expect(analytics.steadyState.coefficientOfVariation).toBeLessThanOrEqual(0.05)
+    expect(analytics.degradation.percentPerDay).toBeGreaterThan(1)
+    expect(analytics.degradation.percentPerDay).toBeLessThan(3)
+    expect(analytics.missingParameters).toContain('anodeArea')
+  })
+
+  it('gives the same metrics when the series is added in pages', () => {
+    const whole = analyzeExperiment(agingRun, {}, { maxSeriesPoints: 50 })
+    const analyzer = new ExperimentAnalyzer({}, { maxSeriesPoints: 50 }, agingRun.length)
+    for (let i = 0; i < agingRun.length; i += 37) analyzer.add(agingRun.slice(i, i + 37))
+    const paged = analyzer.result()
+
+    expect(paged.window).toEqual(whole.window)
+    expect(paged.steadyState).toEqual(whole.steadyState)
+    expect(paged.startupLagHours).toBe(whole.startupLagHours)
+    expect(paged.charge.coulombs).toBeCloseTo(whole.charge.coulombs, 10)
+    expect(paged.degradation.mwPerDay).toBeCloseTo(whole.degradation.mwPerDay!, 10)
+    expect(paged.series).toEqual(whole.series)
+  })
+
+  it('writes a summary and time series report', () => {
+    const csv = experimentAnalyticsToCsv(analyzeExperiment(constantRun), 'Run, "A"')
+    const [summary, series] = csv.split('\n\n')
+
+    expect(summary.split('\n')[0]).toBe('Metric,Value,Unit')
+    expect(summary).toContain('Experiment,"Run, ""A""",')
+    expect(summary).toContain('Cumulative charge,36,C')
+    expect(series.split('\n')).toHaveLength(62)
+
+    const formula = experimentAnalyticsToCsv(analyzeExperiment(constantRun), '=HYPERLINK("http://evil")')
+    expect(formula).toContain('Experiment,"\'=HYPERLINK(""http://evil"")",')
+  })
+})
+
+describe('/api/experiments/[id]/analytics API Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.measurement.findMany).mockResolvedValue(constantRun)
+    vi.mocked(prisma.measurement.count).mockResolvedValue(constantRun.length)
+  })
+
+  it('denies private experiments to other users', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-2' }, expires: '' })
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ name: 'Run', userId: 'user-1', isPublic: false, parameters: '{}' })
+
+    const response = await GET(new NextRequest(new URL('http://localhost/api/experiments/exp-1/analytics')), params('exp-1'))
+
+    expect(response.status).toBe(403)
+    expect(prisma.measurement.findMany).not.toHaveBeenCalled()
+  })
+
+  it('returns metrics as JSON or as a CSV attachment', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' }, expires: '' })
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({
+      name: 'Anode trial 3',
+      userId: 'user-1',
+      isPublic: false,
+      parameters: JSON.stringify({ anodeArea: 25 })
+    })
+
+    const json = await GET(new NextRequest(new URL('http://localhost/api/experiments/exp-1/analytics?rollingWindowMinutes=30')), params('exp-1'))
+    const analytics = await json.json()
+    expect(json.status).toBe(200)
+    expect(analytics.powerDensity.maxMwPerM2).toBeCloseTo(200)
+    expect(analytics.settings.rollingWindowMinutes).toBe(30)
+
+    const csv = await GET(new NextRequest(new URL('http://localhost/api/experiments/exp-1/analytics?format=csv')), params('exp-1'))
+    expect(csv.headers.get('content-type')).toContain('text/csv')
+    expect(csv.headers.get('content-disposition')).toBe('attachment; filename="Anode-trial-3-report.csv"')
+    expect(await csv.text()).toMatch(/^Metric,Value,Unit\n/)
+
+    const query = vi.mocked(prisma.measurement.findMany).mock.calls[0][0]
+    expect(query.orderBy).toEqual([{ timestamp: 'asc' }, { id: 'asc' }])
+    expect(query.take).toBe(5000)
+
+    const invalid = await GET(new NextRequest(new URL('http://localhost/api/experiments/exp-1/analytics?steadyStateCv=5')), params('exp-1'))
+    expect(invalid.status).toBe(400)
+  })
+
+  it('reads long series in keyset pages', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' }, expires: '' })
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ name: 'Run', userId: 'user-1', isPublic: true, parameters: '{}' })
+    const rows = Array.from({ length: 7000 }, (_, i) => ({
+      id: `m-${i}`,
+      timestamp: new Date(start + i * 60000),
+      voltage: 0.5,
+      current: 0.001,
+      power: 0.5
+    }))
+    vi.mocked(prisma.measurement.count).mockResolvedValue(rows.length)
+    vi.mocked(prisma.measurement.findMany)
+      .mockResolvedValueOnce(rows.slice(0, 5000))
+      .mockResolvedValueOnce(rows.slice(5000))
+
+    const response = await GET(new NextRequest(new URL('http://localhost/api/experiments/exp-1/analytics')), params('exp-1'))
+    const analytics = await response.json()
+
+    expect(analytics.window.measurementCount).toBe(7000)
+    expect(analytics.charge.coulombs).toBeCloseTo(0.001 * 6999 * 60)
+    expect(analytics.series.length).toBeLessThanOrEqual(501)
+    expect(prisma.measurement.findMany).toHaveBeenCalledTimes(2)
+    expect(vi.mocked(prisma.measurement.findMany).mock.calls[1][0]).toMatchObject({ cursor: { id: 'm-4999' }, skip: 1 })
+  })
+})
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { getServerSession as getUserSession } from 'next-auth'
+import { GET as getAudit } from '@/app/api/admin/audit/route'
+import { DELETE as deletePaper, PUT as updatePaper } from '@/app/api/papers/[id]/route'
+import { PUT as updateSettings } from '@/app/api/user/settings/route'
+import { auditChanges, auditLogsToCsv, recordAudit } from '@/lib/audit'
+
+const db = vi.hoisted(() => ({
+  auditLog: {
+    create: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn()
+  },
+  user: {
+    findUnique: vi.fn()
+  },
+  researchPaper: {
+    findUnique: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn()
+  },
+  userSettings: {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn()
+  }
+}))
+
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn()
+}))
+
+// The /api/user routes use the root next-auth export and the named prisma client
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({
+  default: db,
+  prisma: db
+}))
+
+vi.mock('@/lib/auth/auth-options', () => ({
+  authOptions: {}
+}))
+
+const headers = { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'vitest' }
+
+const request = (url: string, method = 'GET', body?: unknown) => new NextRequest(
+  new URL(url, 'http://localhost'),
+  { method, headers, ...(body !== undefined && { body: JSON.stringify(body) }) }
+)
+
+const paperParams = { params: Promise.resolve({ id: 'paper-1' }) }
+
+const auditDetails = () => JSON.parse(db.auditLog.create.mock.calls[0][0].data.details)
+
+const log = {
+  id: 'log-1',
+  userId: 'user-1',
+  action: 'paper.update',
+  resource: 'paper:paper-1',
+  details: JSON.stringify({ summary: 'Changed title', changes: { title: { from: 'Old, "draft"', to: 'New' } } }),
+  ipAddress: '203.0.113.7',
+  userAgent: 'vitest',
+  createdAt: new Date('2026-03-01T12:00:00Z')
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' } } as any)
+  vi.mocked(getUserSession).mockResolvedValue({ user: { id: 'user-1' } } as any)
+  db.auditLog.create.mockResolvedValue({})
+})
+
+describe('recordAudit', () => {
+  it('stores who, what, the diff and the client address', async () => {
+    const changes = auditChanges(
+      { title: 'Old', password: 'a', abstract: 'same', publicationDate: new Date('2025-01-01T00:00:00Z') },
+      { title: 'New', password: 'b', abstract: 'same', publicationDate: null },
+      ['title', 'password', 'abstract', 'publicationDate']
+    )
+    expect(changes).toEqual({
+      title: { from: 'Old', to: 'New' },
+      password: { from: '[redacted]', to: '[redacted]' },
+      publicationDate: { from: '2025-01-01T00:00:00.000Z', to: null }
+    })
+
+    await recordAudit(request('/api/papers/paper-1', 'PUT'), {
+      userId: 'user-1',
+      action: 'paper.update',
+      resource: 'paper:paper-1',
+      changes
+    })
+
+    expect(db.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-1',
+        action: 'paper.update',
+        resource: 'paper:paper-1',
+        ipAddress: '203.0.113.7',
+        userAgent: 'vitest'
+      })
+    })
+    expect(auditDetails()).toEqual({ summary: 'Changed title, password, publicationDate', changes })
+  })
+
+  it('never fails the request when the audit write fails, but logs the lost entry', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    db.auditLog.create.mockRejectedValue(new Error('database is locked'))
+    await expect(recordAudit(request('/api/papers'), {
+      userId: 'user-1',
+      action: 'paper.create',
+      resource: 'paper:paper-1'
+    })).resolves.toBeUndefined()
+    expect(consoleError).toHaveBeenCalledWith('Failed to record audit log entry:', expect.objectContaining({
+      userId: 'user-1',
+      action: 'paper.create',
+      resource: 'paper:paper-1'
+    }))
+    consoleError.mockRestore()
+  })
+})
+
+describe('audited routes', () => {
+  it('records paper updates with a field diff', async () => {
+    db.researchPaper.findUnique.mockResolvedValue({ id: 'paper-1', uploadedBy: 'user-1', title: 'Old', isPublic: true })
+    db.researchPaper.update.mockResolvedValue({ id: 'paper-1', uploadedBy: 'user-1', title: 'New', isPublic: true })
+
+    const response = await updatePaper(request('/api/papers/paper-1', 'PUT', { title: 'New', isPublic: true }), paperParams)
+
+    expect(response.status).toBe(200)
+    expect(db.auditLog.create.mock.calls[0][0].data).toMatchObject({ action: 'paper.update', resource: 'paper:paper-1' })
+    expect(auditDetails().changes).toEqual({ title: { from: 'Old', to: 'New' } })
+  })
+
+  it('records paper deletion but not refused attempts', async () => {
+    db.researchPaper.findUnique.mockResolvedValue({ uploadedBy: 'someone-else', title: 'Shared data', doi: null })
+    expect((await deletePaper(request('/api/papers/paper-1', 'DELETE'), paperParams)).status).toBe(403)
+    expect(db.auditLog.create).not.toHaveBeenCalled()
+
+    db.researchPaper.findUnique.mockResolvedValue({ uploadedBy: 'user-1', title: 'Shared data', doi: '10.1000/x' })
+    expect((await deletePaper(request('/api/papers/paper-1', 'DELETE'), paperParams)).status).toBe(200)
+    expect(db.auditLog.create.mock.calls[0][0].data).toMatchObject({ userId: 'user-1', action: 'paper.delete' })
+    expect(auditDetails()).toEqual({ summary: 'Deleted "Shared data"', metadata: { doi: '10.1000/x' } })
+  })
+
+  it('records settings changes under the user', async () => {
+    db.userSettings.findUnique.mockResolvedValue({ userId: 'user-1', theme: 'dark', units: 'metric', dashboardLayout: null })
+    db.userSettings.update.mockResolvedValue({ userId: 'user-1', theme: 'light', units: 'metric', dashboardLayout: null })
+
+    const response = await updateSettings(request('/api/user/settings', 'PUT', { theme: 'light', units: 'metric' }))
+
+    expect(response.status).toBe(200)
+    expect(db.auditLog.create.mock.calls[0][0].data).toMatchObject({ action: 'user.settings.update', resource: 'user:user-1' })
+    expect(auditDetails().changes).toEqual({ theme: { from: 'dark', to: 'light' } })
+  })
+})
+
+describe('/api/admin/audit', () => {
+  beforeEach(() => {
+    db.user.findUnique.mockResolvedValue({ role: 'ADMIN' })
+    db.auditLog.findMany.mockResolvedValue([log])
+    db.auditLog.count.mockResolvedValue(1)
+  })
+
+  it('is limited to admins', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null)
+    expect((await getAudit(request('/api/admin/audit'))).status).toBe(401)
+
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-2' } } as any)
+    db.user.findUnique.mockResolvedValue({ role: 'USER' })
+    expect((await getAudit(request('/api/admin/audit'))).status).toBe(403)
+    expect(db.auditLog.findMany).not.toHaveBeenCalled()
+  })
+
+  it('filters by user, action prefix, resource type and date', async () => {
+    const response = await getAudit(request(
+      '/api/admin/audit?userId=user-1&action=paper&resource=paper&from=2026-03-01&to=2026-03-31T23:59:59Z&page=2&limit=10'
+    ))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(db.auditLog.findMany).toHaveBeenCalledWith({
+      where: {
+        userId: 'user-1',
+        OR: [{ action: 'paper' }, { action: { startsWith: 'paper.' } }],
+        resource: { startsWith: 'paper:' },
+        createdAt: { gte: new Date('2026-03-01'), lte: new Date('2026-03-31T23:59:59Z') }
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: 10,
+      take: 10
+    })
+    expect(body.logs[0].details.summary).toBe('Changed title')
+    expect(body.pagination).toEqual({ page: 2, limit: 10, total: 1, totalPages: 1 })
+  })
+
+  it('rejects invalid dates', async () => {
+    const response = await getAudit(request('/api/admin/audit?from=yesterday'))
+    expect(response.status).toBe(400)
+    expect((await response.json()).details[0]).toMatchObject({ field: 'from', message: 'Invalid date' })
+  })
+
+  it('exports CSV', async () => {
+    const response = await getAudit(request('/api/admin/audit?action=paper.update&format=csv'))
+    const csv = await response.text()
+
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8')
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="audit-log-\d{4}-\d{2}-\d{2}\.csv"$/)
+    expect(db.auditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({ skip: 0, take: 10000 }))
+    expect(response.headers.get('X-Total-Count')).toBe('1')
+    expect(response.headers.get('X-Next-Page')).toBeNull()
+    expect(csv).toBe(auditLogsToCsv([log]))
+    expect(csv.split('\n')[0]).toBe('createdAt,userId,action,resource,summary,changes,ipAddress,userAgent')
+    expect(csv.split('\n')[1]).toBe(
+      '2026-03-01T12:00:00.000Z,user-1,paper.update,paper:paper-1,Changed title,' +
+      '"{""title"":{""from"":""Old, \\""draft\\"""",""to"":""New""}}",203.0.113.7,vitest'
+    )
+  })
+})
+
+describe('/api/admin/audit CSV paging', () => {
+  it('tells the caller when the export continues on another page', async () => {
+    db.user.findUnique.mockResolvedValue({ role: 'ADMIN' })
+    db.auditLog.findMany.mockResolvedValue([log])
+    db.auditLog.count.mockResolvedValue(25000)
+
+    const first = await getAudit(request('/api/admin/audit?format=csv'))
+    expect(first.headers.get('X-Total-Count')).toBe('25000')
+    expect(first.headers.get('X-Next-Page')).toBe('2')
+    expect(first.headers.get('Content-Disposition')).toMatch(/-part-1-of-3\.csv"$/)
+
+    const last = await getAudit(request('/api/admin/audit?format=csv&page=3'))
+    expect(db.auditLog.findMany).toHaveBeenLastCalledWith(expect.objectContaining({ skip: 20000, take: 10000 }))
+    expect(last.headers.get('X-Next-Page')).toBeNull()
+  })
+})
+
+describe('auditLogsToCsv', () => {
+  it('neutralises spreadsheet formulas in exported cells', () => {
+    const csv = auditLogsToCsv([{
+      ...log,
+      details: JSON.stringify({ summary: '=HYPERLINK("http://evil.example","Deleted")' }),
+      userAgent: '@SUM(1+1)'
+    }])
+    const [, row] = csv.split('\n')
+
+    expect(row).toContain(`,"'=HYPERLINK(""http://evil.example"",""Deleted"")",`)
+    expect(row.endsWith(",'@SUM(1+1)")).toBe(true)
+  })
+})
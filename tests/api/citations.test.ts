@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import prisma from '@/lib/db'
+import { GET as getNetwork } from '@/app/api/papers/[id]/citations/network/route'
+import { GET as getPaths } from '@/app/api/papers/[id]/citations/paths/route'
+import { GET as getSimilarity } from '@/app/api/papers/[id]/citations/similarity/route'
+import { POST as postReferences } from '@/app/api/papers/[id]/citations/route'
+import { POST as verifyReferences } from '@/app/api/papers/[id]/citations/verify/route'
+import { getServerSession as getVerifySession } from 'next-auth'
+import { zenBrowser } from '@/lib/zen-browser'
+import { normalizeDOI, parseReferenceList } from '@/lib/citation-verifier'
+
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn()
+}))
+
+// The verify route uses the root next-auth export and the route-local auth options
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn()
+}))
+
+vi.mock('@/app/api/auth/[...nextauth]/auth', () => ({
+  authOptions: {}
+}))
+
+vi.mock('@/lib/zen-browser', () => ({
+  zenBrowser: {
+    scrape: vi.fn(),
+    validateLink: vi.fn()
+  }
+}))
+
+vi.mock('@/lib/db', () => ({
+  default: {
+    researchPaper: {
+      findUnique: vi.fn(),
+      findMany: vi.fn()
+    },
+    paperCitation: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn()
+    },
+    auditLog: {
+      create: vi.fn()
+    },
+    $transaction: vi.fn()
+  }
+}))
+
+vi.mock('@/lib/auth/auth-options', () => ({
+  authOptions: {}
+}))
+
+interface Paper {
+  id: string
+  title: string
+  doi: string | null
+  isPublic: boolean
+  uploadedBy: string | null
+}
+
+// A cites B and C, B cites C, D cites A; E is private and cites A
+const papers: Paper[] = [
+  { id: 'A', title: 'Paper A', doi: '10.1000/a', isPublic: true, uploadedBy: 'owner' },
+  { id: 'B', title: 'Paper B', doi: '10.1000/b', isPublic: true, uploadedBy: 'owner' },
+  { id: 'C', title: 'Paper C', doi: null, isPublic: true, uploadedBy: null },
+  { id: 'D', title: 'Paper D', doi: null, isPublic: true, uploadedBy: null },
+  { id: 'E', title: 'Paper E', doi: null, isPublic: false, uploadedBy: 'owner' }
+]
+const citations = [
+  { citingPaperId: 'A', citedPaperId: 'B', citedDoi: '10.1000/b' },
+  { citingPaperId: 'A', citedPaperId: 'C', citedDoi: null },
+  { citingPaperId: 'A', citedPaperId: null, citedDoi: '10.9999/stub' },
+  { citingPaperId: 'B', citedPaperId: 'C', citedDoi: null },
+  { citingPaperId: 'B', citedPaperId: null, citedDoi: '10.9999/stub' },
+  { citingPaperId: 'D', citedPaperId: 'A', citedDoi: null },
+  { citingPaperId: 'E', citedPaperId: 'A', citedDoi: null }
+]
+
+// Just enough of Prisma's where/select semantics for the citation queries
+const visible = (paper: Paper, where: any) =>
+  !where.OR || where.OR.some((rule: any) =>
+    rule.isPublic ? paper.isPublic : paper.uploadedBy === rule.uploadedBy
+  )
+
+const shape = (paper: Paper) => ({
+  ...paper,
+  citations: citations.filter(c => c.citingPaperId === paper.id),
+  citedBy: citations.filter(c => c.citedPaperId === paper.id),
+  _count: {
+    citations: citations.filter(c => c.citingPaperId === paper.id).length,
+    citedBy: citations.filter(c => c.citedPaperId === paper.id).length
+  }
+})
+
+const findMany = async ({ where, select }: any) => papers
+  .filter(paper => where.id.in.includes(paper.id) && visible(paper, where))
+  .map(paper => {
+    const shaped = shape(paper)
+    return select?.citations?.where
+      ? { ...shaped, citations: shaped.citations.filter(c => c.citedPaperId !== null) }
+      : shaped
+  })
+
+const get = (path: string) => new NextRequest(new URL(`http://localhost${path}`))
+const context = (id: string) => ({ params: Promise.resolve({ id }) })
+
+describe('reference list parsing', () => {
+  it('splits numbered lists with wrapped entries and normalizes DOIs', () => {
+    const references = parseReferenceList([
+      '[1] Logan, B. E., Rabaey, K. (2012). Conversion of wastes into bioelectricity and chemicals',
+      'by using microbial electrochemical technologies. Science 337, 686. https://doi.org/10.1126/Science.1217412.',
+      '[2] Smith, J. (2019). An uncited preprint without identifiers. arXiv.'
+    ].join('\n'))
+
+    expect(references).toHaveLength(2)
+    expect(references[0]).toMatchObject({
+      doi: '10.1126/science.1217412',
+      year: 2012,
+      title: 'Conversion of wastes into bioelectricity and chemicals by using microbial electrochemical technologies'
+    })
+    expect(references[0].rawText).not.toMatch(/^\[1\]/)
+    expect(references[1].doi).toBeUndefined()
+    expect(normalizeDOI('doi: 10.1016/S0960-8524(09)00123-4).')).toBe('10.1016/s0960-8524(09)00123-4')
+  })
+})
+
+describe('/api/papers/[id]/citations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getServerSession).mockResolvedValue(null)
+    vi.mocked(prisma.researchPaper.findMany).mockImplementation(findMany as any)
+    vi.mocked(prisma.researchPaper.findUnique).mockImplementation((async ({ where }: any) => {
+      const paper = papers.find(p => p.id === where.id)
+      return paper ? shape(paper) : null
+    }) as any)
+  })
+
+  it('links references to papers in the corpus and keeps the rest as stubs', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'owner' } })
+    vi.mocked(prisma.researchPaper.findMany).mockResolvedValue([{ id: 'B', doi: '10.1000/B' }])
+
+    const response = await postReferences(new NextRequest(new URL('http://localhost/api/papers/A/citations'), {
+      method: 'POST',
+      body: JSON.stringify({ references: '1. Paper B. doi:10.1000/b\n2. Unknown work, 2020. doi:10.9999/stub' }),
+      headers: { 'Content-Type': 'application/json' }
+    }), context('A'))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ paperId: 'A', total: 2, resolved: 1, unresolved: 1 })
+    expect(prisma.paperCitation.deleteMany).toHaveBeenCalledWith({ where: { citingPaperId: 'A' } })
+    expect(vi.mocked(prisma.paperCitation.createMany).mock.calls[0][0].data).toMatchObject([
+      { citingPaperId: 'A', citedPaperId: 'B', citedDoi: '10.1000/b', position: 0 },
+      { citingPaperId: 'A', citedPaperId: null, citedDoi: '10.9999/stub', position: 1, year: 2020 }
+    ])
+  })
+
+  it('matches DOIs whatever case the paper and the reference use', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'owner' } })
+    vi.mocked(prisma.researchPaper.findMany).mockResolvedValue([
+      { id: 'B', doi: '10.1000/Mixed.Case' },
+      { id: 'C', doi: '10.1000/mixed.case2' } // Shares the prefix only
+    ])
+
+    const response = await postReferences(new NextRequest(new URL('http://localhost/api/papers/A/citations'), {
+      method: 'POST',
+      body: JSON.stringify({ references: ['Paper B, 2021. https://doi.org/10.1000/MIXED.case'] }),
+      headers: { 'Content-Type': 'application/json' }
+    }), context('A'))
+
+    expect(await response.json()).toMatchObject({ total: 1, resolved: 1 })
+    expect(vi.mocked(prisma.researchPaper.findMany).mock.calls[0][0].where).toEqual({
+      OR: [{ doi: { startsWith: '10.1000/mixed.case' } }]
+    })
+    expect(vi.mocked(prisma.paperCitation.createMany).mock.calls[0][0].data).toMatchObject([
+      { citedPaperId: 'B', citedDoi: '10.1000/mixed.case' }
+    ])
+  })
+
+  it('only lets the uploader replace the reference list', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'someone-else' } })
+
+    const response = await postReferences(new NextRequest(new URL('http://localhost/api/papers/A/citations'), {
+      method: 'POST',
+      body: JSON.stringify({ references: [] })
+    }), context('A'))
+
+    expect(response.status).toBe(403)
+    expect(prisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('only lets the uploader overwrite references by verification, and audits it', async () => {
+    vi.mocked(getVerifySession).mockResolvedValue({ user: { id: 'someone-else' }, expires: '' })
+    const verify = () => verifyReferences(new NextRequest(new URL('http://localhost/api/papers/A/citations/verify'), {
+      method: 'POST'
+    }), context('A'))
+
+    expect((await verify()).status).toBe(403)
+    expect(zenBrowser.scrape).not.toHaveBeenCalled()
+    expect(prisma.$transaction).not.toHaveBeenCalled()
+
+    vi.mocked(getVerifySession).mockResolvedValue({ user: { id: 'owner' }, expires: '' })
+    vi.mocked(zenBrowser.scrape).mockResolvedValue({
+      references: ['Logan, B. E. (2012). Conversion of wastes into bioelectricity. doi:10.1000/B']
+    } as any)
+    vi.mocked(prisma.researchPaper.findMany).mockResolvedValue([{ id: 'B', doi: '10.1000/b' }])
+
+    const response = await verify()
+
+    expect(response.status).toBe(200)
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(prisma.auditLog.create).mock.calls[0][0].data).toMatchObject({
+      userId: 'owner',
+      action: 'paper.citations.verify',
+      resource: 'paper:A'
+    })
+  })
+
+  it('returns the network the citation graph renders, without private papers', async () => {
+    const response = await getNetwork(get('/api/papers/A/citations/network?depth=1'), context('A'))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.papers.map((paper: any) => paper.id).sort()).toEqual(['A', 'B', 'C', 'D'])
+
+    const root = body.papers.find((paper: any) => paper.id === 'A')
+    expect(root.citations).toEqual([{ citedPaperId: 'B' }, { citedPaperId: 'C' }])
+    expect(root.citedBy).toEqual([{ citingPaperId: 'D' }])
+    expect(root.unresolvedCount).toBe(1)
+
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'owner' } })
+    const withPrivate = await getNetwork(get('/api/papers/A/citations/network'), context('A'))
+    expect((await withPrivate.json()).papers).toHaveLength(5)
+  })
+
+  it('validates depth and access', async () => {
+    expect((await getNetwork(get('/api/papers/A/citations/network?depth=9'), context('A'))).status).toBe(400)
+    expect((await getNetwork(get('/api/papers/E/citations/network'), context('E'))).status).toBe(403)
+    expect((await getNetwork(get('/api/papers/Z/citations/network'), context('Z'))).status).toBe(404)
+  })
+
+  it('finds reference chains shortest first', async () => {
+    const response = await getPaths(get('/api/papers/D/citations/paths?to=C'), context('D'))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.paths).toEqual([['D', 'A', 'C'], ['D', 'A', 'B', 'C']])
+
+    const shallow = await getPaths(get('/api/papers/D/citations/paths?to=C&maxDepth=2'), context('D'))
+    expect((await shallow.json()).paths).toEqual([['D', 'A', 'C']])
+    expect((await getPaths(get('/api/papers/D/citations/paths?to=E'), context('D'))).status).toBe(403)
+  })
+
+  it('scores shared references, counting stubs by DOI', async () => {
+    const response = await getSimilarity(get('/api/papers/A/citations/similarity?with=B'), context('A'))
+    const body = await response.json()
+
+    // A: {B, C, doi:stub, D, E}, B: {C, doi:stub, A} share C and the stub
+    expect(response.status).toBe(200)
+    expect(body.similarity).toBeCloseTo(2 / 6, 6)
+    expect((await getSimilarity(get('/api/papers/A/citations/similarity'), context('A'))).status).toBe(400)
+  })
+})
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as listExperiments, POST as createExperiment } from '@/app/api/experiments/route'
+import { GET as getExperiment, PUT as updateExperiment, DELETE as archiveExperiment } from '@/app/api/experiments/[id]/route'
+import { POST as importExperiments } from '@/app/api/experiments/import/route'
+import { getServerSession } from 'next-auth/next'
+import prisma from '@/lib/db'
+
+// Mock dependencies
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({
+  default: {
+    experiment: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    mFCDesign: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      upsert: vi.fn()
+    },
+    measurement: {
+      aggregate: vi.fn()
+    },
+    powerModel: {
+      findFirst: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/auth/auth-options', () => ({
+  authOptions: {}
+}))
+
+const signedIn = (id: string) => vi.mocked(getServerSession).mockResolvedValue({ user: { id }, expires: '' })
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return new NextRequest(new URL(url), {
+    method,
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+function record(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'exp-1',
+    name: 'Graphene anode run',
+    userId: 'user-1',
+    designId: 'earthen-pot',
+    status: 'RUNNING',
+    parameters: JSON.stringify({ temperature: 30, ph: 7 }),
+    isPublic: false,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-02T00:00:00Z'),
+    design: { id: 'earthen-pot', name: 'Earthen Pot MFC', type: 'earthen-pot' },
+    user: { id: 'user-1', name: 'Lab User' },
+    ...overrides
+  }
+}
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+
+describe('/api/experiments API Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('lists only the caller\'s experiments and hides archived ones by default', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null)
+    const unauthenticated = await listExperiments(new NextRequest(new URL('http://localhost/api/experiments')))
+    expect(unauthenticated.status).toBe(401)
+
+    signedIn('user-1')
+    vi.mocked(prisma.experiment.findMany).mockResolvedValue([{ ...record(), _count: { measurements: 12 } }])
+    vi.mocked(prisma.experiment.count).mockResolvedValue(1)
+
+    const response = await listExperiments(new NextRequest(new URL('http://localhost/api/experiments?status=running,paused')))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.experiments[0]).toMatchObject({ id: 'exp-1', status: 'RUNNING', designName: 'Earthen Pot MFC', measurementCount: 12 })
+    expect(data.experiments[0].parameters).toEqual({ temperature: 30, ph: 7 })
+    expect(vi.mocked(prisma.experiment.findMany).mock.calls[0][0].where).toEqual({
+      userId: 'user-1',
+      status: { in: ['RUNNING', 'PAUSED'] }
+    })
+
+    await listExperiments(new NextRequest(new URL('http://localhost/api/experiments?visibility=public')))
+    expect(vi.mocked(prisma.experiment.findMany).mock.calls[1][0].where).toEqual({
+      isPublic: true,
+      status: { not: 'ARCHIVED' }
+    })
+  })
+
+  it('only asks PostgreSQL for case-insensitive name search', async () => {
+    signedIn('user-1')
+    vi.mocked(prisma.experiment.findMany).mockResolvedValue([])
+    vi.mocked(prisma.experiment.count).mockResolvedValue(0)
+    const search = () => listExperiments(new NextRequest(new URL('http://localhost/api/experiments?search=Graphene')))
+
+    vi.stubEnv('DATABASE_URL', 'postgresql://localhost:5432/messai')
+    await search()
+    expect(vi.mocked(prisma.experiment.findMany).mock.calls[0][0].where.name).toEqual({ contains: 'Graphene', mode: 'insensitive' })
+
+    vi.stubEnv('DATABASE_URL', 'file:./prisma/dev.db')
+    await search()
+    expect(vi.mocked(prisma.experiment.findMany).mock.calls[1][0].where.name).toEqual({ contains: 'Graphene' })
+
+    vi.unstubAllEnvs()
+  })
+
+  it('creates experiments from catalog systems, reusing the system id as design', async () => {
+    signedIn('user-1')
+    vi.mocked(prisma.mFCDesign.upsert).mockResolvedValue({ id: 'earthen-pot' })
+    vi.mocked(prisma.experiment.create).mockResolvedValue(record({ status: 'SETUP' }))
+
+    const response = await createExperiment(jsonRequest('http://localhost/api/experiments', 'POST', {
+      name: 'Graphene anode run',
+      systemId: 'earthen-pot',
+      parameters: { temperature: 30, ph: 7 }
+    }))
+
+    expect(response.status).toBe(201)
+    expect((await response.json()).status).toBe('SETUP')
+    const upsert = vi.mocked(prisma.mFCDesign.upsert).mock.calls[0][0]
+    expect(upsert.where).toEqual({ id: 'earthen-pot' })
+    expect(upsert.create.name).toBe('Earthen Pot MFC')
+    expect(vi.mocked(prisma.experiment.create).mock.calls[0][0].data).toMatchObject({
+      userId: 'user-1',
+      designId: 'earthen-pot',
+      status: 'SETUP',
+      isPublic: false
+    })
+
+    const unknown = await createExperiment(jsonRequest('http://localhost/api/experiments', 'POST', { name: 'X', systemId: 'no-such-system' }))
+    expect(unknown.status).toBe(404)
+    const ambiguous = await createExperiment(jsonRequest('http://localhost/api/experiments', 'POST', { name: 'X', designId: 'a', systemId: 'b' }))
+    expect(ambiguous.status).toBe(400)
+  })
+
+  it('only shows private experiments to their owner', async () => {
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ ...record(), measurements: [] })
+    vi.mocked(prisma.measurement.aggregate).mockResolvedValue({ _count: { _all: 0 }, _avg: { power: null }, _max: { power: null } })
+
+    signedIn('user-2')
+    expect((await getExperiment(new NextRequest(new URL('http://localhost/api/experiments/exp-1')), params('exp-1'))).status).toBe(403)
+
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ ...record({ isPublic: true }), measurements: [] })
+    const shared = await getExperiment(new NextRequest(new URL('http://localhost/api/experiments/exp-1')), params('exp-1'))
+    const data = await shared.json()
+    expect(shared.status).toBe(200)
+    expect(data.isOwner).toBe(false)
+    expect(data.stats).toEqual({ totalMeasurements: 0, averagePower: 0, maxPower: 0 })
+  })
+
+  it('merges parameter updates and archives instead of deleting', async () => {
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ userId: 'user-1', parameters: JSON.stringify({ temperature: 30, ph: 7 }) })
+    vi.mocked(prisma.experiment.update).mockResolvedValue(record({ isPublic: true }))
+
+    signedIn('user-2')
+    const forbidden = await updateExperiment(jsonRequest('http://localhost/api/experiments/exp-1', 'PUT', { isPublic: true }), params('exp-1'))
+    expect(forbidden.status).toBe(403)
+
+    signedIn('user-1')
+    const response = await updateExperiment(
+      jsonRequest('http://localhost/api/experiments/exp-1', 'PUT', { parameters: { ph: 7.4 }, isPublic: true }),
+      params('exp-1')
+    )
+    expect(response.status).toBe(200)
+    const update = vi.mocked(prisma.experiment.update).mock.calls[0][0]
+    expect(JSON.parse(update.data.parameters)).toEqual({ temperature: 30, ph: 7.4 })
+    expect(update.data.isPublic).toBe(true)
+
+    await archiveExperiment(new NextRequest(new URL('http://localhost/api/experiments/exp-1'), { method: 'DELETE' }), params('exp-1'))
+    expect(vi.mocked(prisma.experiment.update).mock.calls[1][0].data).toEqual({ status: 'ARCHIVED' })
+  })
+
+  it('imports browser experiments once and reports the ones it cannot place', async () => {
+    signedIn('user-1')
+    vi.mocked(prisma.experiment.findMany).mockResolvedValue([
+      { id: 'db-1', parameters: JSON.stringify({ legacyId: 'exp-local-1' }) }
+    ])
+    vi.mocked(prisma.mFCDesign.upsert).mockResolvedValue({ id: 'earthen-pot' })
+    vi.mocked(prisma.mFCDesign.findFirst).mockResolvedValue(null)
+    vi.mocked(prisma.experiment.create).mockResolvedValue({ id: 'db-2' })
+
+    const response = await importExperiments(jsonRequest('http://localhost/api/experiments/import', 'POST', {
+      experiments: [
+        { id: 'exp-local-1', name: 'Already imported', systemId: 'earthen-pot' },
+        { id: 'exp-local-2', name: 'New run', systemId: 'earthen-pot', status: 'running', createdAt: '2024-01-15T10:00:00Z', parameters: { ph: 7 } },
+        { id: 'exp-local-3', name: 'Unknown design', designName: 'Prototype' },
+        { name: 'No id' }
+      ]
+    }))
+    const data = await response.json()
+
+    expect(data.imported).toEqual([
+      { localId: 'exp-local-1', id: 'db-1' },
+      { localId: 'exp-local-2', id: 'db-2' }
+    ])
+    expect(data.skipped.map((entry: { localId: string }) => entry.localId)).toEqual(['exp-local-3', '#3'])
+    expect(prisma.experiment.create).toHaveBeenCalledTimes(1)
+    const created = vi.mocked(prisma.experiment.create).mock.calls[0][0].data
+    expect(created.status).toBe('RUNNING')
+    expect(created.createdAt).toEqual(new Date('2024-01-15T10:00:00Z'))
+    expect(JSON.parse(created.parameters)).toEqual({ ph: 7, legacyId: 'exp-local-2' })
+  })
+})
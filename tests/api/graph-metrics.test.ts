@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import prisma from '@/lib/db'
+import { GET } from '@/app/api/research/graph-metrics/route'
+import { analyzeCitationGraph, detectCommunities, pageRank, type GraphCitation, type GraphPaper } from '@/lib/citation-graph'
+
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({
+  default: {
+    researchPaper: {
+      findMany: vi.fn()
+    },
+    paperCitation: {
+      findMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/auth/auth-options', () => ({
+  authOptions: {}
+}))
+
+// Two literatures that barely talk to each other: cathode catalysts (c*)
+// around the review c1, algal systems (a*) around a1, bridged once by a4
+const cathode = ['c1', 'c2', 'c3', 'c4', 'c5']
+const algal = ['a1', 'a2', 'a3', 'a4']
+
+const papers: GraphPaper[] = [
+  ...cathode.map((id, i) => ({ id, title: `Cathode ${id}`, year: 2015 + i, keywords: ['cathode catalyst', 'oxygen reduction', 'MFC'] })),
+  ...algal.map((id, i) => ({ id, title: `Algae ${id}`, year: 2016 + i, keywords: ['microalgae', 'photosynthetic', 'MFC'] }))
+]
+
+const cite = (citingPaperId: string, citedPaperId: string | null, citedDoi: string | null = null): GraphCitation =>
+  ({ citingPaperId, citedPaperId, citedDoi })
+
+const citations: GraphCitation[] = [
+  cite('c2', 'c1'), cite('c3', 'c1'), cite('c4', 'c1'), cite('c5', 'c1'),
+  cite('c3', 'c2'), cite('c4', 'c2'), cite('c5', 'c3'), cite('c4', 'c3'),
+  cite('a2', 'a1'), cite('a3', 'a1'), cite('a4', 'a1'), cite('a3', 'a2'), cite('a4', 'a2'),
+  cite('a4', 'c1'),
+  cite('c4', null, '10.9999/platinum'), cite('c5', null, '10.9999/platinum')
+]
+
+describe('citation graph metrics', () => {
+  it('ranks the most cited hub first and conserves PageRank', () => {
+    const rank = pageRank(['x', 'y', 'z'], [['x', 'z'], ['y', 'z']])
+    expect([...rank.values()].reduce((a, b) => a + b, 0)).toBeCloseTo(1, 9)
+    expect(rank.get('z')).toBeGreaterThan(rank.get('x')!)
+    expect(rank.get('x')).toBeCloseTo(rank.get('y')!, 12)
+
+    const metrics = analyzeCitationGraph(papers, citations)
+    expect(metrics.ranking[0]).toMatchObject({ id: 'c1', citationCount: 5, referenceCount: 0 })
+    expect(metrics.ranking[0].citationsByYear).toEqual([
+      { year: 2016, citations: 1 }, { year: 2017, citations: 1 }, { year: 2018, citations: 1 },
+      { year: 2019, citations: 2 }
+    ])
+  })
+
+  it('separates research clusters and labels them by distinctive keywords', () => {
+    const metrics = analyzeCitationGraph(papers, citations)
+    const community = (id: string) => metrics.ranking.find(paper => paper.id === id)!.community
+
+    expect(metrics.graph.communities).toBe(2)
+    expect(metrics.graph.modularity).toBeGreaterThan(0.3)
+    expect(new Set(cathode.map(community)).size).toBe(1)
+    expect(new Set(algal.map(community)).size).toBe(1)
+    expect(community('c1')).not.toBe(community('a1'))
+
+    const [largest, second] = metrics.communities
+    expect(largest).toMatchObject({ size: 5, internalCitations: 8, topPapers: expect.arrayContaining(['c1']) })
+    expect(largest.label.slice(0, 2).sort()).toEqual(['cathode catalyst', 'oxygen reduction'])
+    expect(second.label).not.toContain('mfc')
+
+    const single = detectCommunities(['x', 'y'], [])
+    expect(single.modularity).toBe(0)
+    expect(single.membership.get('x')).not.toBe(single.membership.get('y'))
+  })
+
+  it('measures co-citation and bibliographic coupling, stubs included', () => {
+    const metrics = analyzeCitationGraph(papers, citations)
+
+    // a1 and a2 are cited together by both papers citing a2
+    expect(metrics.coCitation[0]).toMatchObject({ a: 'a1', b: 'a2', shared: 2 })
+    expect(metrics.coCitation[0].similarity).toBeCloseTo(2 / Math.sqrt(3 * 2), 9)
+
+    // c1 and c2 are cited together by c3 and c4, but c1 is cited widely
+    const hub = metrics.coCitation.find(pair => pair.a === 'c1' && pair.b === 'c2')
+    expect(hub?.similarity).toBeCloseTo(2 / Math.sqrt(5 * 2), 9)
+
+    // c4 and c5 share c1, c3 and the unresolved platinum reference
+    const coupled = metrics.bibliographicCoupling.find(pair => pair.a === 'c4' && pair.b === 'c5')
+    expect(coupled).toMatchObject({ shared: 3 })
+    expect(metrics.bibliographicCoupling.every(pair => pair.shared >= 2)).toBe(true)
+  })
+})
+
+describe('/api/research/graph-metrics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getServerSession).mockResolvedValue(null)
+  })
+
+  it('analyzes the visible part of the citation graph', async () => {
+    vi.mocked(prisma.paperCitation.findMany).mockResolvedValue(citations)
+    vi.mocked(prisma.researchPaper.findMany).mockResolvedValue(papers.map(paper => ({
+      id: paper.id,
+      title: paper.title,
+      publicationDate: new Date(`${paper.year}-06-01`),
+      keywords: JSON.stringify(paper.keywords)
+    })))
+
+    const response = await GET(new NextRequest(new URL('http://localhost/api/research/graph-metrics?limit=3')))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.ranking).toHaveLength(3)
+    expect(body.ranking[0].id).toBe('c1')
+    expect(body.graph).toMatchObject({ papers: 9, citations: 14, communities: 2 })
+
+    // Both queries are scoped to visible papers by relation filters, not id lists
+    const where = vi.mocked(prisma.researchPaper.findMany).mock.calls[0][0].where
+    expect(where.AND).toEqual([
+      { OR: [{ isPublic: true }] },
+      { OR: [{ citations: { some: {} } }, { citedBy: { some: {} } }] }
+    ])
+    expect(vi.mocked(prisma.paperCitation.findMany).mock.calls[0][0].where).toEqual({ citingPaper: { OR: [{ isPublic: true }] } })
+
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' }, expires: '' })
+    await GET(new NextRequest(new URL('http://localhost/api/research/graph-metrics')))
+    expect(vi.mocked(prisma.paperCitation.findMany).mock.calls[1][0].where.citingPaper.OR)
+      .toEqual([{ isPublic: true }, { uploadedBy: 'user-1' }])
+  })
+
+  it('rejects invalid options', async () => {
+    const response = await GET(new NextRequest(new URL('http://localhost/api/research/graph-metrics?damping=1')))
+    expect(response.status).toBe(400)
+  })
+})
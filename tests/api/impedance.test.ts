@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST as simulate } from '@/app/api/electroanalytical/impedance/route'
+import { POST as fit } from '@/app/api/electroanalytical/impedance/fit/route'
+import { ImpedanceEngine } from '@/lib/impedance-analysis'
+
+const wholeCell = 'R0-p(R1,CPE1)-p(R2,CPE2)'
+const truth = { R0: 20, R1: 150, CPE1_Q: 2e-3, CPE1_n: 0.85, R2: 60, CPE2_Q: 5e-5, CPE2_n: 0.9 }
+const frequencies = ImpedanceEngine.logFrequencies(0.01, 1e5, 8)
+
+// Deterministic pseudo-noise of about 0.5%
+const measured = ImpedanceEngine.simulate(wholeCell, truth, frequencies).map((point, i) => ({
+  frequency: point.frequency,
+  real: point.real * (1 + 0.005 * Math.sin(i * 1.7)),
+  imaginary: point.imaginary * (1 + 0.005 * Math.cos(i * 2.1))
+}))
+
+const post = (path: string, body: unknown) => new NextRequest(
+  new URL(`http://localhost${path}`),
+  { method: 'POST', body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } }
+)
+
+describe('ImpedanceEngine', () => {
+  it('parses nested circuits and simulates textbook limits', () => {
+    const circuit = ImpedanceEngine.parseCircuit('R0-p(CPE1,R1-p(R2,C2))')
+    expect(ImpedanceEngine.parameterNames(circuit)).toEqual(['R0', 'CPE1_Q', 'CPE1_n', 'R1', 'R2', 'C2'])
+
+    const [high, low] = ImpedanceEngine.simulate('R0-p(R1,C1)', { R0: 10, R1: 100, C1: 1e-5 }, [1e7, 1e-4])
+    expect(high.real).toBeCloseTo(10, 2)
+    expect(low.real).toBeCloseTo(110, 2)
+    // Apex of the arc at 1/(2πRC)
+    const [apex] = ImpedanceEngine.simulate('R0-p(R1,C1)', { R0: 10, R1: 100, C1: 1e-5 }, [1 / (2 * Math.PI * 1e-3)])
+    expect(apex.imaginary).toBeCloseTo(-50, 6)
+    expect(apex.phase).toBeLessThan(0)
+
+    expect(() => ImpedanceEngine.parseCircuit('R0-p(R1)')).toThrow(/at least two branches/)
+    expect(() => ImpedanceEngine.parseCircuit('R0-R0')).toThrow(/duplicate element name R0/)
+    expect(() => ImpedanceEngine.parseCircuit('R0-X1')).toThrow(/Invalid circuit/)
+  })
+
+  it('recovers whole-cell parameters and reports resistances by arc', () => {
+    const result = ImpedanceEngine.fit({ circuit: wholeCell, data: measured, electrodes: { anode: ['R2'], cathode: ['R1'] } })
+
+    expect(result.statistics.converged).toBe(true)
+    expect(result.statistics.rmsRelativeError).toBeLessThan(0.005)
+    // Interchangeable arcs come back ordered from high to low frequency
+    expect(result.parameters.R0).toBeCloseTo(20, 0)
+    expect(result.parameters.R1 / 60).toBeCloseTo(1, 1)
+    expect(result.parameters.R2 / 150).toBeCloseTo(1, 1)
+    expect(result.estimates.R2.standardError).toBeGreaterThan(0)
+
+    const { resistances } = result
+    expect(resistances.ohmic).toBeCloseTo(result.parameters.R0, 6)
+    expect(resistances.chargeTransfer.map(arc => arc.element)).toEqual(['R1', 'R2'])
+    expect(resistances.anode).toBeCloseTo(result.parameters.R2, 6)
+    expect(resistances.cathode).toBeCloseTo(result.parameters.R1, 6)
+    expect(resistances.total).toBeCloseTo(230, -1)
+  })
+
+  it('reads potentiostat exports with either sign convention', () => {
+    const biologic = 'freq/Hz;Re(Z)/Ohm;-Im(Z)/Ohm\n1000;10;5\n100;20;8\n'
+    const gamry = 'Pt\tFreq\tZreal\tZimag\tZmod\n0\t1000\t10\t-5\t11.18\n1\t100\t20\t-8\t21.5\n'
+    const polar = 'Frequency (Hz),|Z| (Ohm),Phase (deg)\n1000,10,-90\n'
+    const expected = [{ frequency: 1000, real: 10, imaginary: -5 }, { frequency: 100, real: 20, imaginary: -8 }]
+
+    expect(ImpedanceEngine.parseCsv(biologic)).toEqual(expected)
+    expect(ImpedanceEngine.parseCsv(gamry)).toEqual(expected)
+    expect(ImpedanceEngine.parseCsv('1000,10,5\n100,20,8')).toEqual(expected)
+    expect(ImpedanceEngine.parseCsv(polar)[0].imaginary).toBeCloseTo(-10, 6)
+    expect(() => ImpedanceEngine.parseCsv('time,voltage\n1,2')).toThrow(/no frequency column/)
+  })
+})
+
+describe('/api/electroanalytical/impedance', () => {
+  it('simulates a spectrum over a log sweep', async () => {
+    const response = await simulate(post('/api/electroanalytical/impedance', {
+      circuit: 'R0-p(R1,C1)',
+      parameters: { R0: 10, R1: 100, C1: 1e-5 },
+      range: { minimum: 1, maximum: 1000, pointsPerDecade: 5 }
+    }))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.data.spectrum).toHaveLength(16)
+    expect(body.data.resistances).toMatchObject({ ohmic: 10, total: 110 })
+  })
+
+  it('rejects missing parameters and malformed circuits', async () => {
+    const missing = await simulate(post('/api/electroanalytical/impedance', { circuit: 'R0-p(R1,C1)', parameters: { R0: 10 } }))
+    expect(missing.status).toBe(400)
+    expect((await missing.json()).message).toMatch(/missing R1, C1/)
+
+    const malformed = await fit(post('/api/electroanalytical/impedance/fit', { circuit: 'R0-p(R1,C1', data: measured }))
+    expect(malformed.status).toBe(400)
+  })
+
+  it('fits an uploaded export', async () => {
+    const csv = ['Freq/Hz;Re(Z)/Ohm;-Im(Z)/Ohm', ...measured.map(point => `${point.frequency};${point.real};${-point.imaginary}`)].join('\n')
+    const response = await fit(post('/api/electroanalytical/impedance/fit', { circuit: wholeCell, csv }))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.data.fit.parameters.R2 / 150).toBeCloseTo(1, 1)
+    expect(body.metadata.points).toBe(measured.length)
+
+    const both = await fit(post('/api/electroanalytical/impedance/fit', { circuit: wholeCell, csv, data: measured }))
+    expect(both.status).toBe(400)
+  })
+})
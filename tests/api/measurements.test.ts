@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET, POST } from '@/app/api/experiments/[id]/measurements/route'
+import { parseMeasurementFile, MeasurementFileError, MEASUREMENT_INSERT_BATCH } from '@/lib/measurement-ingestion'
+import { getServerSession } from 'next-auth/next'
+import prisma from '@/lib/db'
+
+// Mock dependencies
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({
+  default: {
+    experiment: {
+      findUnique: vi.fn()
+    },
+    measurement: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+      createMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/auth/auth-options', () => ({
+  authOptions: {}
+}))
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+
+const upload = (body: string, query = '') => new NextRequest(
+  new URL(`http://localhost/api/experiments/exp-1/measurements${query}`),
+  { method: 'POST', body, headers: { 'Content-Type': 'text/csv' } }
+)
+
+describe('measurement file parsing', () => {
+  it('maps columns, converts units and derives power', () => {
+    const result = parseMeasurementFile([
+      'Timestamp,Voltage (mV),Current [mA],Temp (K),pH,COD (mg/L)',
+      '2024-01-15 10:00:00,450,2,301.15,7.1,800',
+      '2024-01-15T10:01:00Z,460,2.5,301.15,7.0,790'
+    ].join('\n'))
+
+    expect(result.format).toBe('csv')
+    expect(result.units).toMatchObject({ voltage: 'mV', current: 'mA', temperature: 'K', substrate: 'mg/L' })
+    expect(result.measurements).toHaveLength(2)
+    const [first] = result.measurements
+    expect(first.timestamp.toISOString()).toBe('2024-01-15T10:00:00.000Z')
+    expect(first.voltage).toBeCloseTo(0.45)
+    expect(first.current).toBeCloseTo(0.002)
+    expect(first.power).toBeCloseTo(0.9) // mW
+    expect(first.temperature).toBeCloseTo(28)
+    expect(first.substrate).toBeCloseTo(0.8)
+  })
+
+  it('reports row errors and in-file duplicates without failing the upload', () => {
+    const result = parseMeasurementFile([
+      'time;voltage;power;ph',
+      '1705312800;0,45;54;7.1',
+      '1705312800;0,46;55;7.1',
+      'yesterday;0,46;55;7.1',
+      '1705312920;abc;55;7.1',
+      '1705312980;0,47;56;15'
+    ].join('\n'), { defaults: { temperature: 30 } })
+
+    expect(result.format).toBe('semicolon')
+    expect(result.measurements).toHaveLength(1)
+    expect(result.measurements[0].current).toBeCloseTo(0.12)
+    expect(result.measurements[0].temperature).toBe(30)
+    expect(result.duplicateRows).toBe(1)
+    expect(result.rejectedRows).toBe(3)
+    expect(result.errors.map(error => error.row)).toEqual([4, 5, 6])
+    expect(result.warnings).toContain('No temperature column; using 30 for every row')
+  })
+
+  it('reads EC-Lab exports with elapsed time and honours explicit mappings', () => {
+    const ecLab = [
+      'EC-Lab ASCII FILE',
+      'Nb header lines : 4',
+      'Technique : Chronoamperometry',
+      'mode\ttime/s\tEwe/V\t<I>/mA\tT/°C',
+      '1\t0\t0.612\t0.41\t29.5',
+      '1\t60\t0.608\t0.43\t29.6'
+    ].join('\n')
+    const startTime = new Date('2024-01-15T10:00:00Z')
+
+    const result = parseMeasurementFile(ecLab, {
+      startTime,
+      mapping: { 'T/°C': 'temperature' },
+      defaults: { ph: 7 }
+    })
+
+    expect(result.format).toBe('ec-lab')
+    expect(result.mapping).toMatchObject({ 'time/s': 'timestamp', 'Ewe/V': 'voltage', '<I>/mA': 'current', 'T/°C': 'temperature' })
+    expect(result.measurements[1].timestamp.toISOString()).toBe('2024-01-15T10:01:00.000Z')
+    expect(result.measurements[1].current).toBeCloseTo(0.00043)
+    expect(result.measurements[1].temperature).toBeCloseTo(29.6)
+
+    expect(() => parseMeasurementFile('voltage,current\n0.4,0.1')).toThrow(MeasurementFileError)
+  })
+})
+
+describe('/api/experiments/[id]/measurements API Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' }, expires: '' })
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({
+      userId: 'user-1',
+      isPublic: false,
+      createdAt: new Date('2024-01-15T10:00:00Z'),
+      parameters: JSON.stringify({ temperature: 30, ph: 7 })
+    })
+  })
+
+  it('skips readings that are already stored and inserts in batches', async () => {
+    const rows = Array.from({ length: 12001 }, (_, i) => `${i * 10},0.5,0.1`)
+    vi.mocked(prisma.measurement.findMany).mockResolvedValue([{ timestamp: new Date('2024-01-15T10:00:00Z') }])
+    vi.mocked(prisma.measurement.createMany).mockImplementation(async ({ data }: { data: unknown[] }) => ({ count: data.length }))
+
+    const response = await POST(upload(['elapsed time,voltage,current', ...rows].join('\n')), params('exp-1'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.totalRows).toBe(12001)
+    expect(data.duplicates).toEqual({ inFile: 0, alreadyStored: 1 })
+    expect(data.inserted).toBe(12000)
+    expect(prisma.measurement.createMany).toHaveBeenCalledTimes(Math.ceil(12000 / MEASUREMENT_INSERT_BATCH))
+    const firstBatch = vi.mocked(prisma.measurement.createMany).mock.calls[0][0].data
+    // Every bound value of a batch fits SQLite's 32766 limit
+    expect(firstBatch.length * (Object.keys(firstBatch[0]).length + 2)).toBeLessThanOrEqual(32766) // + id, createdAt
+    expect(firstBatch[0]).toMatchObject({ experimentId: 'exp-1', voltage: 0.5, temperature: 30, ph: 7 })
+    expect(firstBatch[0].power).toBeCloseTo(50)
+    expect(data.range).toEqual({ from: '2024-01-15T10:00:00.000Z', to: '2024-01-16T19:20:00.000Z' })
+  })
+
+  it('validates without writing on dry runs and rejects unusable files', async () => {
+    vi.mocked(prisma.measurement.findMany).mockResolvedValue([])
+
+    const dryRun = await POST(upload('timestamp,voltage,current\n2024-01-15T10:00:00Z,0.5,0.1', '?dryRun=true'), params('exp-1'))
+    expect((await dryRun.json()).accepted).toBe(1)
+    expect(prisma.measurement.createMany).not.toHaveBeenCalled()
+
+    const noVoltage = await POST(upload('timestamp,current\n2024-01-15T10:00:00Z,0.1'), params('exp-1'))
+    expect(noVoltage.status).toBe(400)
+    expect((await noVoltage.json()).error).toBe('No voltage column found')
+
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-2' }, expires: '' })
+    const forbidden = await POST(upload('timestamp,voltage,current'), params('exp-1'))
+    expect(forbidden.status).toBe(403)
+  })
+
+  it('thins long series for charting', async () => {
+    vi.mocked(prisma.measurement.count).mockResolvedValue(10)
+    vi.mocked(prisma.measurement.findMany).mockResolvedValue(
+      Array.from({ length: 10 }, (_, i) => ({ id: `m${i}`, timestamp: new Date(i * 1000), voltage: 0.5, current: 0.1, power: 50, temperature: 30, ph: 7 }))
+    )
+
+    const response = await GET(
+      new NextRequest(new URL('http://localhost/api/experiments/exp-1/measurements?limit=4')),
+      params('exp-1')
+    )
+    const data = await response.json()
+
+    expect(data.total).toBe(10)
+    expect(data.sampled).toBe(true)
+    expect(data.measurements.map((m: { timestamp: string }) => new Date(m.timestamp).getTime())).toEqual([0, 3000, 6000, 9000])
+  })
+
+  it('pages through long series in bounded batches', async () => {
+    const total = 12000
+    const series = Array.from({ length: total }, (_, i) => ({
+      id: `m${String(i).padStart(5, '0')}`, timestamp: new Date(i * 1000), voltage: 0.5, current: 0.1, power: 50, temperature: 30, ph: 7
+    }))
+    vi.mocked(prisma.measurement.count).mockResolvedValue(total)
+    vi.mocked(prisma.measurement.findMany).mockImplementation((async (query: { take: number; cursor?: { id: string } }) => {
+      const start = query.cursor ? series.findIndex(row => row.id === query.cursor!.id) + 1 : 0
+      return series.slice(start, start + query.take)
+    }) as any)
+
+    const response = await GET(
+      new NextRequest(new URL('http://localhost/api/experiments/exp-1/measurements?limit=1000')),
+      params('exp-1')
+    )
+    const data = await response.json()
+
+    const queries = vi.mocked(prisma.measurement.findMany).mock.calls.map(([query]) => query as { take: number })
+    expect(queries).toHaveLength(3)
+    expect(queries.every(query => query.take === 5000)).toBe(true)
+    expect(data).toMatchObject({ total, sampled: true })
+    expect(data.measurements).toHaveLength(1001)
+    expect(data.measurements[0]).not.toHaveProperty('id')
+    expect(new Date(data.measurements[1000].timestamp).getTime()).toBe((total - 1) * 1000)
+  })
+
+  it('reuses a thinned series and only reads rows stored after it', async () => {
+    const series = Array.from({ length: 11000 }, (_, i) => ({
+      id: `m${String(i).padStart(5, '0')}`, timestamp: new Date(i * 1000), voltage: 0.5, current: 0.1, power: 50, temperature: 30, ph: 7
+    }))
+    let stored = series.slice(0, 10500)
+    vi.mocked(prisma.measurement.count).mockImplementation((async (query: { where: { AND?: unknown } }) => (
+      query.where.AND ? 10500 : stored.length
+    )) as any)
+    vi.mocked(prisma.measurement.findMany).mockImplementation((async (query: { take: number; cursor?: { id: string } }) => {
+      const start = query.cursor ? stored.findIndex(row => row.id === query.cursor!.id) + 1 : 0
+      return stored.slice(start, start + query.take)
+    }) as any)
+    const request = () => GET(new NextRequest(new URL('http://localhost/api/experiments/exp-cached/measurements?limit=1000')), params('exp-cached'))
+
+    const first = await (await request()).json()
+    expect(prisma.measurement.findMany).toHaveBeenCalledTimes(3)
+
+    // Unchanged: no rows are read again
+    vi.mocked(prisma.measurement.findMany).mockClear()
+    const again = await (await request()).json()
+    expect(prisma.measurement.findMany).not.toHaveBeenCalled()
+    expect(again).toEqual(first)
+
+    // Appended readings at the same stride: the scan resumes after the cached last row
+    stored = series
+    const grown = await (await request()).json()
+    expect(prisma.measurement.findMany).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(prisma.measurement.findMany).mock.calls[0][0]).toMatchObject({ cursor: { id: 'm10499' }, skip: 1 })
+    expect(grown.measurements).toHaveLength(1001)
+    expect(new Date(grown.measurements[1000].timestamp).getTime()).toBe(10999 * 1000)
+
+    // The rows up to the cached position no longer match (the mock still counts 10500): read everything again
+    vi.mocked(prisma.measurement.findMany).mockClear()
+    expect(await (await request()).json()).toEqual(grown)
+    expect(vi.mocked(prisma.measurement.findMany).mock.calls[0][0]).not.toHaveProperty('cursor')
+  })
+})
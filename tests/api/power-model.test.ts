@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/predictions/route'
+import { paperFeatures, predictPower, trainPowerModel, type PaperRecord } from '@/lib/power-model'
+import { predictExperiment } from '@/lib/model-accuracy'
+import prisma from '@/lib/db'
+
+// Mock dependencies
+vi.mock('@/lib/db', () => ({
+  default: {
+    powerModel: {
+      findFirst: vi.fn()
+    }
+  }
+}))
+
+// Power density peaks near 30 °C and pH 7; nanomaterial anodes double it
+const corpus: PaperRecord[] = Array.from({ length: 36 }, (_, i) => {
+  const temperature = 20 + (i % 6) * 3
+  const ph = 6 + (Math.floor(i / 6) % 6) * 0.4
+  const nano = i % 3 === 0
+  const powerOutput = 400 * Math.exp(-(((temperature - 30) / 8) ** 2) - ((ph - 7) / 1.2) ** 2) * (nano ? 2 : 1)
+  return {
+    id: `paper-${String(i).padStart(2, '0')}`,
+    powerOutput,
+    systemType: 'MFC',
+    // The extractors store conditions in different shapes
+    experimentalConditions: i % 2
+      ? JSON.stringify({ temperature: { operating: temperature }, ph })
+      : JSON.stringify({ operatingTemperature: [temperature], pHRange: [ph, ph] }),
+    anodeMaterials: JSON.stringify([nano ? 'Graphene-coated carbon cloth' : 'Carbon felt']),
+    organismTypes: JSON.stringify(['mixed anaerobic sludge']),
+    reactorConfiguration: JSON.stringify({ volume: '250 mL', design: 'single-chamber air-cathode' })
+  }
+})
+
+const post = (body: unknown) => new NextRequest(
+  new URL('http://localhost/api/predictions'),
+  { method: 'POST', body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } }
+)
+
+describe('data-driven power model', () => {
+  const { artifact, metrics } = trainPowerModel(corpus, { folds: 4 })
+
+  it('reads features from differently shaped paper extractions', () => {
+    expect(paperFeatures(corpus[0])!.features).toEqual([20, 6, null, Math.log10(250), 1, 0, 0, 0])
+    expect(paperFeatures(corpus[1])!.features.slice(0, 2)).toEqual([23, 6])
+    expect(paperFeatures({ ...corpus[1], reactorConfiguration: JSON.stringify({ workingVolume: '1.5 L' }) })!.features[3])
+      .toBeCloseTo(Math.log10(1500))
+
+    expect(paperFeatures({ ...corpus[0], systemType: 'MEC' })).toBeNull()
+    expect(paperFeatures({ ...corpus[0], experimentalConditions: JSON.stringify({ substrate: 'acetate' }) })).toBeNull()
+  })
+
+  it('fits deterministically and reports cross-validated error', () => {
+    const again = trainPowerModel(corpus, { folds: 4 })
+    expect(again.artifact.hyperparameters).toEqual(artifact.hyperparameters)
+    expect(again.metrics).toEqual(metrics)
+
+    expect(metrics).toMatchObject({ folds: 4, samples: 36 })
+    expect(metrics.rmseLog10).toBeLessThan(0.3)
+    expect(metrics.r2).toBeGreaterThan(0.5)
+  })
+
+  it('converts density into power and falls back to the formula out of domain', () => {
+    const model = { version: 3, artifact }
+    const input = { temperature: 29, ph: 7, anodeMaterial: 'graphene', substrateConcentration: 1 }
+
+    const prediction = predictPower({ ...input, anodeArea: 25 }, model)
+    expect(prediction.model).toEqual({ kind: 'data-driven', version: 3 })
+    expect(prediction.powerDensity!.powerDensity).toBeGreaterThan(500)
+    expect(prediction.predictedPower).toBeCloseTo(prediction.powerDensity!.powerDensity * 0.0025, 1)
+    expect(predictPower({ ...input, anodeArea: 25 }, model)).toEqual(prediction)
+
+    const tooHot = predictPower({ ...input, temperature: 45, anodeArea: 25 }, model)
+    expect(tooHot.model.kind).toBe('formula')
+    expect(tooHot.model.fallbackReason).toMatch(/temperature 45 is outside the training range 20–35/)
+    expect(predictPower(input, model).model.fallbackReason).toMatch(/anodeArea/)
+  })
+})
+
+describe('/api/predictions API Route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('returns the same formula prediction every time without a trained model', async () => {
+    vi.mocked(prisma.powerModel.findFirst).mockResolvedValue(null)
+    const body = { temperature: 30, ph: 7, substrateConcentration: 1, designType: 'mason-jar' }
+
+    const first = await (await POST(post(body))).json()
+    const second = await (await POST(post(body))).json()
+
+    expect(first).toEqual(second)
+    expect(first).toMatchObject({ predictedPower: 85, model: { kind: 'formula', version: null } })
+    expect((await POST(post({ ...body, temperature: 45 }))).status).toBe(400)
+  })
+
+  it('serves the active model inside its domain', async () => {
+    const { artifact } = trainPowerModel(corpus, { folds: 2 })
+    vi.mocked(prisma.powerModel.findFirst).mockResolvedValue({ id: 'model-1', version: 1, artifact: JSON.stringify(artifact) })
+
+    const response = await POST(post({ temperature: 30, ph: 7, substrateConcentration: 1, anodeArea: 10 }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.model).toEqual({ kind: 'data-driven', version: 1 })
+    expect(data.confidenceInterval.lower).toBeLessThan(data.predictedPower)
+  })
+
+  it('snapshots experiments with the model the predictions API serves', () => {
+    const { artifact } = trainPowerModel(corpus, { folds: 2 })
+    const model = { version: 3, artifact }
+    const parameters = { temperature: 30, ph: 7, substrateConcentration: 1, anodeArea: 10 }
+
+    const result = predictExperiment(parameters, 'mason-jar', model)
+    const served = predictPower({ ...parameters, designType: 'mason-jar' }, model)
+    expect(result).toMatchObject({
+      prediction: {
+        model: 'data-driven',
+        modelVersion: 3,
+        designMultiplier: null,
+        predictedPower: served.predictedPower,
+        confidenceInterval: served.confidenceInterval
+      }
+    })
+
+    // Without an anode area the trained model cannot give power, so the formula is snapshotted
+    expect(predictExperiment({ ...parameters, anodeArea: 'n/a' }, 'mason-jar', model))
+      .toMatchObject({ prediction: { model: 'formula', modelVersion: null, designMultiplier: 1 } })
+  })
+})
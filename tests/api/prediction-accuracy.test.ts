@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as getResiduals, POST as recordPrediction } from '@/app/api/experiments/[id]/prediction/route'
+import { GET as getAccuracy } from '@/app/api/predictions/accuracy/route'
+import {
+  aggregateAccuracy,
+  hourlyResidualSeries,
+  measurementHour,
+  predictExperiment,
+  residualMetrics,
+  residualSeries,
+  type PredictionSnapshot
+} from '@/lib/model-accuracy'
+import { getServerSession } from 'next-auth/next'
+import prisma from '@/lib/db'
+
+// Mock dependencies
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({
+  default: {
+    experiment: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn()
+    },
+    measurement: {
+      findMany: vi.fn(),
+      groupBy: vi.fn()
+    },
+    powerModel: {
+      findFirst: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/auth/auth-options', () => ({
+  authOptions: {}
+}))
+
+const start = Date.parse('2025-03-01T00:00:00Z')
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+
+const snapshot = (overrides: Partial<PredictionSnapshot> = {}): PredictionSnapshot => ({
+  model: 'linear',
+  createdAt: '2025-03-01T00:00:00.000Z',
+  designType: 'mason-jar',
+  designMultiplier: 1,
+  inputs: { temperature: 30, ph: 7, substrateConcentration: 1 },
+  predictedPower: 100,
+  confidenceInterval: { lower: 85, upper: 115 },
+  ...overrides
+})
+
+// Readings every 15 minutes; the power of each hour comes from hourlyPower
+const readings = (hourlyPower: number[]) => hourlyPower.flatMap((power, hour) =>
+  [0, 1, 2, 3].map(quarter => ({
+    timestamp: new Date(start + hour * 3600000 + quarter * 900000),
+    power: power + (quarter % 2 ? 1 : -1) // Noise that cancels within the hour
+  }))
+)
+
+// The same readings as the database's per-hour groupBy returns them
+const hourlyGroups = (experimentId: string, hourlyPower: number[]) => hourlyPower.map((power, hour) => ({
+  experimentId,
+  hour: new Date(start + hour * 3600000),
+  _sum: { power: power * 4 },
+  _count: { power: 4 }
+}))
+
+describe('prediction residuals', () => {
+  it('snapshots the formula when no trained model is active', () => {
+    const result = predictExperiment({ temperature: '30', ph: 7, substrateConcentration: 1 }, 'wetland', null, new Date(start))
+
+    expect(result).toEqual({
+      prediction: expect.objectContaining({
+        designType: 'wetland',
+        designMultiplier: 2.2,
+        inputs: { temperature: 30, ph: 7, substrateConcentration: 1 },
+        model: 'formula',
+        modelVersion: null,
+        predictedPower: 145, // 50 + 25 + 10 + 0 + 50 * 1.2
+        createdAt: '2025-03-01T00:00:00.000Z'
+      })
+    })
+    expect(predictExperiment({ temperature: 30, ph: 7, substrateConcentration: 1 }, 'not-a-design', null))
+      .toMatchObject({ prediction: { designType: null, designMultiplier: 1 } })
+    expect(predictExperiment({ temperature: 15, ph: 7, substrateConcentration: 1 }, 'wetland', null))
+      .toEqual({ error: expect.stringContaining('temperature') })
+  })
+
+  it('bins measured power before computing MAPE, RMSE, bias and coverage', () => {
+    const points = residualSeries(readings([80, 100, 120, 0]), snapshot())
+
+    expect(points.map(point => point.measured)).toEqual([80, 100, 120, 0])
+    expect(points.map(point => point.withinInterval)).toEqual([false, true, false, false])
+
+    const metrics = residualMetrics(points)
+    expect(metrics.points).toBe(4)
+    expect(metrics.mape).toBeCloseTo(((20 / 80 + 0 + 20 / 120) / 3) * 100) // Zero-power bins are left out
+    expect(metrics.rmse).toBeCloseTo(Math.sqrt((400 + 0 + 400 + 10000) / 4))
+    expect(metrics.bias).toBeCloseTo(-25)
+    expect(metrics.coverage).toBe(0.25)
+
+    expect(residualSeries(readings([10, 100, 100]), snapshot(), { skipHours: 1 })).toHaveLength(2)
+  })
+
+  it('bins hourly sums from the database like the readings they summarise', () => {
+    expect(measurementHour(new Date('2025-03-01T10:59:59.999Z'))).toEqual(new Date('2025-03-01T10:00:00Z'))
+
+    const hours = hourlyGroups('exp-1', [80, 100, 120, 0]).map(group => ({
+      hour: group.hour,
+      sum: group._sum.power,
+      count: group._count.power
+    }))
+    expect(hourlyResidualSeries(hours, snapshot())).toEqual(residualSeries(readings([80, 100, 120, 0]), snapshot()))
+    expect(hourlyResidualSeries(hours, snapshot(), { binMinutes: 120, skipHours: 1 }).map(point => point.measured)).toEqual([110, 0])
+  })
+
+  it('pools experiments by design and suggests multipliers that remove the bias', () => {
+    const report = aggregateAccuracy([
+      { experimentId: 'a', prediction: snapshot(), metrics: residualMetrics(residualSeries(readings([110, 110]), snapshot())) },
+      { experimentId: 'b', prediction: snapshot(), metrics: residualMetrics(residualSeries(readings([130]), snapshot())) },
+      { experimentId: 'c', prediction: snapshot({ designType: null }), metrics: residualMetrics(residualSeries(readings([50]), snapshot())) }
+    ])
+
+    const jar = report.designs.find(design => design.designType === 'mason-jar')!
+    expect(jar).toMatchObject({ experiments: 2, points: 3, currentMultiplier: 1 })
+    expect(jar.bias).toBeCloseTo(20) // Each experiment counts once: (10 + 30) / 2
+    expect(jar.suggestedMultiplier).toBeCloseTo(1.4) // 1 + 20 mW / 50 mW baseline
+
+    expect(report.designs.find(design => design.designType === 'unspecified')).toMatchObject({ suggestedMultiplier: null })
+    expect(report.overall.experiments).toBe(3)
+  })
+
+  it('breaks accuracy down by model and leaves trained-model bias out of the multipliers', () => {
+    const trained = snapshot({ model: 'data-driven', modelVersion: 2, designMultiplier: null })
+    const report = aggregateAccuracy([
+      { experimentId: 'a', prediction: snapshot(), metrics: residualMetrics(residualSeries(readings([110]), snapshot())) },
+      { experimentId: 'b', prediction: snapshot({ model: 'linear' }), metrics: residualMetrics(residualSeries(readings([130]), snapshot())) },
+      { experimentId: 'c', prediction: trained, metrics: residualMetrics(residualSeries(readings([200]), trained)) }
+    ])
+
+    expect(report.models.map(model => [model.model, model.experiments])).toEqual([['formula', 2], ['data-driven v2', 1]])
+    expect(report.models[1].bias).toBeCloseTo(100)
+    expect(report.designs[0].suggestedMultiplier).toBeCloseTo(1.4) // Formula experiments only
+  })
+})
+
+describe('/api/experiments/[id]/prediction API Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('returns residuals for visible experiments only', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null)
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ userId: 'user-1', isPublic: false, prediction: JSON.stringify(snapshot()) })
+    const request = new NextRequest(new URL('http://localhost/api/experiments/exp-1/prediction?binMinutes=30'))
+    expect((await getResiduals(request, params('exp-1'))).status).toBe(403)
+
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ userId: 'user-1', isPublic: true, prediction: JSON.stringify(snapshot()) })
+    vi.mocked(prisma.measurement.findMany).mockResolvedValue(readings([90]))
+    const response = await getResiduals(request, params('exp-1'))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.binMinutes).toBe(30)
+    expect(body.points).toHaveLength(2)
+    expect(body.metrics.bias).toBeCloseTo(-10)
+  })
+
+  it('bins long series page by page', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null)
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ userId: 'user-1', isPublic: true, prediction: JSON.stringify(snapshot()) })
+    const rows = readings(Array(1500).fill(110)).map((row, i) => ({ ...row, id: `m-${i}` }))
+    vi.mocked(prisma.measurement.findMany)
+      .mockResolvedValueOnce(rows.slice(0, 5000))
+      .mockResolvedValueOnce(rows.slice(5000))
+
+    const response = await getResiduals(new NextRequest(new URL('http://localhost/api/experiments/exp-1/prediction')), params('exp-1'))
+    const body = await response.json()
+
+    expect(body.points).toHaveLength(1500)
+    expect(body.metrics.bias).toBeCloseTo(10)
+    const [first, second] = vi.mocked(prisma.measurement.findMany).mock.calls.map(([query]) => query)
+    expect(first).toMatchObject({ orderBy: [{ timestamp: 'asc' }, { id: 'asc' }], take: 5000 })
+    expect(second).toMatchObject({ cursor: { id: 'm-4999' }, skip: 1 })
+  })
+
+  it('records a missing prediction once and keeps it frozen', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' }, expires: '' })
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({
+      userId: 'user-1',
+      parameters: JSON.stringify({ temperature: 28, ph: 7, substrateConcentration: 1.5 }),
+      prediction: null,
+      design: { type: 'mason-jar' }
+    })
+
+    const response = await recordPrediction(new NextRequest(new URL('http://localhost/api/experiments/exp-1/prediction'), { method: 'POST' }), params('exp-1'))
+    expect(response.status).toBe(201)
+    const stored = JSON.parse(vi.mocked(prisma.experiment.update).mock.calls[0][0].data.prediction)
+    expect(stored).toMatchObject({ designType: 'mason-jar', model: 'formula', predictedPower: 90 }) // 50 + 15 + 10 + 15
+
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({
+      userId: 'user-1',
+      parameters: '{}',
+      prediction: JSON.stringify(stored),
+      design: { type: 'mason-jar' }
+    })
+    const again = await recordPrediction(new NextRequest(new URL('http://localhost/api/experiments/exp-1/prediction'), { method: 'POST' }), params('exp-1'))
+    expect(again.status).toBe(409)
+  })
+})
+
+describe('/api/predictions/accuracy API Route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' }, expires: '' })
+  })
+
+  it('requires a session', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null)
+
+    const response = await getAccuracy(new NextRequest(new URL('http://localhost/api/predictions/accuracy')))
+
+    expect(response.status).toBe(401)
+    expect(prisma.experiment.findMany).not.toHaveBeenCalled()
+  })
+
+  it('aggregates public and own experiments from hourly sums grouped in the database', async () => {
+    vi.mocked(prisma.experiment.findMany).mockResolvedValue([
+      { id: 'exp-1', prediction: JSON.stringify(snapshot()) },
+      { id: 'exp-2', prediction: JSON.stringify(snapshot({ designType: 'wetland', designMultiplier: 2.2 })) },
+      { id: 'exp-3', prediction: JSON.stringify(snapshot()) }
+    ])
+    vi.mocked(prisma.measurement.groupBy).mockResolvedValue([
+      ...hourlyGroups('exp-1', [120]),
+      ...hourlyGroups('exp-2', [60])
+    ])
+
+    const response = await getAccuracy(new NextRequest(new URL('http://localhost/api/predictions/accuracy')))
+    const body = await response.json()
+
+    expect(vi.mocked(prisma.experiment.findMany).mock.calls[0][0]).toMatchObject({
+      where: {
+        prediction: { not: null },
+        status: { not: 'ARCHIVED' },
+        OR: [{ isPublic: true }, { userId: 'user-1' }]
+      },
+      take: 200
+    })
+    expect(vi.mocked(prisma.measurement.groupBy).mock.calls[0][0]).toMatchObject({
+      by: ['experimentId', 'hour'],
+      where: { experimentId: { in: ['exp-1', 'exp-2', 'exp-3'] } }
+    })
+    expect(prisma.measurement.findMany).not.toHaveBeenCalled()
+    expect(body.overall.experiments).toBe(2) // exp-3 has no measurements yet
+    expect(body.designs.map((design: { designType: string }) => design.designType)).toEqual(['mason-jar', 'wetland'])
+    expect(body.designs[1].suggestedMultiplier).toBeCloseTo(1.4)
+    expect(body.truncated).toBe(false)
+  })
+
+  it('groups many experiments in bounded batches and rejects sub-hour bins', async () => {
+    vi.mocked(prisma.experiment.findMany).mockResolvedValue(
+      Array.from({ length: 200 }, (_, i) => ({ id: `exp-${i}`, prediction: JSON.stringify(snapshot()) }))
+    )
+    vi.mocked(prisma.measurement.groupBy).mockResolvedValue([])
+
+    const body = await (await getAccuracy(new NextRequest(new URL('http://localhost/api/predictions/accuracy')))).json()
+
+    expect(prisma.measurement.groupBy).toHaveBeenCalledTimes(8)
+    expect(vi.mocked(prisma.measurement.groupBy).mock.calls[0][0].where.experimentId.in).toHaveLength(25)
+    expect(body.truncated).toBe(true)
+
+    const invalid = await getAccuracy(new NextRequest(new URL('http://localhost/api/predictions/accuracy?binMinutes=90')))
+    expect(invalid.status).toBe(400)
+  })
+})
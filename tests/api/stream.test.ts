@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET, POST } from '@/app/api/experiments/[id]/stream/route'
+import { POST as issueToken } from '@/app/api/experiments/[id]/ingestion-token/route'
+import { feedStatus, hashIngestionToken, observedInterval, publishMeasurements, subscribeToMeasurements } from '@/lib/experiment-feed'
+import { getServerSession } from 'next-auth/next'
+import prisma from '@/lib/db'
+
+// Mock dependencies
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({
+  default: {
+    experiment: {
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    measurement: {
+      findMany: vi.fn(),
+      createMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/auth/auth-options', () => ({
+  authOptions: {}
+}))
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+
+const post = (body: unknown, token?: string) => new NextRequest(
+  new URL('http://localhost/api/experiments/exp-1/stream'),
+  {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` })
+    }
+  }
+)
+
+describe('stale-feed detection', () => {
+  const now = new Date('2025-03-01T12:00:00Z')
+  const ago = (seconds: number) => new Date(now.getTime() - seconds * 1000)
+
+  it('derives the threshold from the logger cadence', () => {
+    expect(observedInterval([ago(30), ago(0), ago(10), ago(20)])).toBe(10)
+
+    // 10 s cadence -> stale after max(60, 5 * 10) seconds
+    const base = { status: 'RUNNING', hasLogger: true, recentTimestamps: [ago(90), ago(100), ago(110)], now }
+    expect(feedStatus({ ...base, lastMeasurementAt: ago(30) }).state).toBe('live')
+    const stale = feedStatus({ ...base, lastMeasurementAt: ago(90) })
+    expect(stale).toMatchObject({ state: 'stale', secondsSinceLast: 90, expectedIntervalSeconds: 10, staleAfterSeconds: 60 })
+
+    // A configured interval wins over the observed one
+    const slow = feedStatus({ ...base, lastMeasurementAt: ago(90), parameters: { loggerIntervalSeconds: 60 } })
+    expect(slow).toMatchObject({ state: 'live', staleAfterSeconds: 300 })
+  })
+
+  it('only flags running experiments that have a logger', () => {
+    expect(feedStatus({ status: 'RUNNING', hasLogger: true, lastMeasurementAt: null, now }).state).toBe('waiting')
+    expect(feedStatus({ status: 'PAUSED', hasLogger: true, lastMeasurementAt: ago(3600), now }).state).toBe('offline')
+    expect(feedStatus({ status: 'RUNNING', hasLogger: false, lastMeasurementAt: ago(3600), now }).state).toBe('offline')
+  })
+})
+
+describe('/api/experiments/[id]/stream API Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('issues tokens to the owner and stores only their hash', async () => {
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ userId: 'user-1' })
+
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-2' }, expires: '' })
+    const forbidden = await issueToken(new NextRequest(new URL('http://localhost/api/experiments/exp-1/ingestion-token'), { method: 'POST' }), params('exp-1'))
+    expect(forbidden.status).toBe(403)
+
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' }, expires: '' })
+    const response = await issueToken(new NextRequest(new URL('http://localhost/api/experiments/exp-1/ingestion-token'), { method: 'POST' }), params('exp-1'))
+    const { token } = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(token).toMatch(/^mfc_/)
+    expect(vi.mocked(prisma.experiment.update).mock.calls[0][0].data).toEqual({ ingestionTokenHash: hashIngestionToken(token) })
+  })
+
+  it('appends logger readings, fills setpoints and starts the experiment', async () => {
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({
+      id: 'exp-1',
+      status: 'SETUP',
+      parameters: JSON.stringify({ temperature: 30, ph: 7 }),
+      lastMeasurementAt: null
+    })
+    vi.mocked(prisma.measurement.findMany).mockResolvedValue([])
+    const published = vi.fn()
+    const unsubscribe = subscribeToMeasurements('exp-1', published)
+
+    const response = await POST(post({
+      measurements: [
+        { timestamp: '2025-03-01T12:00:00Z', voltage: 0.5, current: 0.0005 },
+        { timestamp: '2025-03-01T12:00:10Z', voltage: 0.5, power: 0.25, temperature: 29 }
+      ]
+    }, 'mfc_valid'), params('exp-1'))
+    unsubscribe()
+
+    expect(response.status).toBe(202)
+    expect(await response.json()).toEqual({ accepted: 2, duplicates: 0, lastMeasurementAt: '2025-03-01T12:00:10.000Z' })
+    expect(vi.mocked(prisma.experiment.findUnique).mock.calls[0][0].where).toEqual({ ingestionTokenHash: hashIngestionToken('mfc_valid') })
+
+    const rows = vi.mocked(prisma.measurement.createMany).mock.calls[0][0].data
+    expect(rows[0]).toMatchObject({ experimentId: 'exp-1', temperature: 30, ph: 7 })
+    expect(rows[0].power).toBeCloseTo(0.25)
+    expect(rows[1]).toMatchObject({ current: 0.0005, temperature: 29 })
+    expect(rows[1].hour).toEqual(new Date('2025-03-01T12:00:00Z'))
+    expect(vi.mocked(prisma.experiment.update).mock.calls[0][0].data).toEqual({
+      lastMeasurementAt: new Date('2025-03-01T12:00:10Z'),
+      status: 'RUNNING'
+    })
+    expect(published.mock.calls[0][0]).toHaveLength(2)
+  })
+
+  it('skips readings a retrying logger already posted', async () => {
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({
+      id: 'exp-1',
+      status: 'RUNNING',
+      parameters: JSON.stringify({ temperature: 30, ph: 7 }),
+      lastMeasurementAt: new Date('2025-03-01T12:00:00Z')
+    })
+    vi.mocked(prisma.measurement.findMany).mockResolvedValue([{ timestamp: new Date('2025-03-01T12:00:00Z') }])
+
+    const body = {
+      measurements: [
+        { timestamp: '2025-03-01T12:00:00Z', voltage: 0.5, current: 0.0005 },
+        { timestamp: '2025-03-01T12:00:10Z', voltage: 0.5, current: 0.0005 },
+        { timestamp: '2025-03-01T12:00:10Z', voltage: 0.5, current: 0.0005 }
+      ]
+    }
+    const response = await POST(post(body, 'mfc_valid'), params('exp-1'))
+    expect(await response.json()).toEqual({ accepted: 1, duplicates: 2, lastMeasurementAt: '2025-03-01T12:00:10.000Z' })
+    expect(vi.mocked(prisma.measurement.createMany).mock.calls[0][0].data).toHaveLength(1)
+
+    vi.mocked(prisma.measurement.findMany).mockResolvedValue([
+      { timestamp: new Date('2025-03-01T12:00:00Z') },
+      { timestamp: new Date('2025-03-01T12:00:10Z') }
+    ])
+    const retried = await POST(post(body, 'mfc_valid'), params('exp-1'))
+    expect(await retried.json()).toMatchObject({ accepted: 0, duplicates: 3 })
+    expect(prisma.measurement.createMany).toHaveBeenCalledTimes(1)
+  })
+
+  it('streams readings stored after the viewer connected, whatever the logger clock says', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' }, expires: '' })
+    vi.mocked(prisma.experiment.findUnique)
+      .mockResolvedValueOnce({ userId: 'user-1', isPublic: false })
+      .mockResolvedValue({ status: 'RUNNING', parameters: '{}', ingestionTokenHash: 'hash', lastMeasurementAt: null })
+    vi.mocked(prisma.measurement.findMany).mockResolvedValue([])
+
+    const controller = new AbortController()
+    const response = await GET(
+      new NextRequest(new URL('http://localhost/api/experiments/exp-1/stream'), { signal: controller.signal }),
+      params('exp-1')
+    )
+    const reader = response.body!.getReader()
+    await reader.read() // Initial status
+
+    // The poll looks for rows by storage time, not reading time
+    const newer = vi.mocked(prisma.measurement.findMany).mock.calls.find(([query]) => query.where.createdAt)
+    expect(newer![0].where.createdAt.gt.getTime()).toBeGreaterThan(Date.now() - 60000)
+
+    // A reading timestamped an hour ago by a lagging logger clock is still pushed
+    const hourAgo = new Date(Date.now() - 3600000).toISOString()
+    const reading = { timestamp: hourAgo, voltage: 0.5, current: 0.001, power: 0.5, temperature: 30, ph: 7, substrate: null }
+    publishMeasurements('exp-1', [reading], new Date(Date.now() + 1000))
+    const { value } = await reader.read()
+    controller.abort()
+
+    const text = new TextDecoder().decode(value)
+    expect(text).toMatch(/^event: measurement\n/)
+    expect(JSON.parse(text.split('data: ')[1])).toEqual([reading])
+  })
+
+  it('pages through a stored batch larger than one poll query', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' }, expires: '' })
+    vi.mocked(prisma.experiment.findUnique)
+      .mockResolvedValueOnce({ userId: 'user-1', isPublic: false })
+      .mockResolvedValue({ status: 'RUNNING', parameters: '{}', ingestionTokenHash: 'hash', lastMeasurementAt: null })
+
+    // One upload of 1500 readings, all stored with the same createdAt
+    const storedAt = new Date('2025-03-01T12:00:00Z')
+    const rows = Array.from({ length: 1500 }, (_, i) => ({
+      id: `m-${String(i).padStart(4, '0')}`,
+      createdAt: storedAt,
+      timestamp: new Date(storedAt.getTime() - (1500 - i) * 1000),
+      voltage: 0.5, current: 0.001, power: 0.5, temperature: 30, ph: 7, substrate: null
+    }))
+    vi.mocked(prisma.measurement.findMany).mockImplementation((async (query: any) => {
+      if (!query.where.createdAt && !query.where.OR) return []
+      const after = rows.findIndex(row =>
+        query.where.OR ? row.id > query.where.OR[1].id.gt : row.createdAt > query.where.createdAt.gt
+      )
+      return after < 0 ? [] : rows.slice(after, after + query.take)
+    }) as any)
+
+    const controller = new AbortController()
+    const response = await GET(
+      new NextRequest(
+        new URL(`http://localhost/api/experiments/exp-1/stream?since=${new Date(storedAt.getTime() - 1000).toISOString()}`),
+        { signal: controller.signal }
+      ),
+      params('exp-1')
+    )
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    const events: string[] = []
+    while (!events.at(-1)?.startsWith('event: status')) {
+      events.push(decoder.decode((await reader.read()).value))
+    }
+    controller.abort()
+
+    const streamed = events
+      .filter(event => event.startsWith('event: measurement'))
+      .flatMap(event => JSON.parse(event.split('data: ')[1]))
+    expect(streamed).toHaveLength(1500)
+    expect(new Set(streamed.map((reading: { timestamp: string }) => reading.timestamp)).size).toBe(1500)
+
+    // The second page continues after the last id at the shared storage time
+    const pages = vi.mocked(prisma.measurement.findMany).mock.calls.filter(([query]) => query.where.OR)
+    expect(pages[0][0].where.OR).toEqual([
+      { createdAt: { gt: storedAt } },
+      { createdAt: storedAt, id: { gt: 'm-0999' } }
+    ])
+  })
+
+  it('rejects missing or foreign tokens and finished experiments', async () => {
+    expect((await POST(post({ voltage: 0.5, current: 0.001 }), params('exp-1'))).status).toBe(401)
+
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ id: 'exp-2', status: 'RUNNING', parameters: '{}', lastMeasurementAt: null })
+    expect((await POST(post({ voltage: 0.5, current: 0.001 }, 'mfc_other'), params('exp-1'))).status).toBe(401)
+
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ id: 'exp-1', status: 'COMPLETED', parameters: '{}', lastMeasurementAt: null })
+    expect((await POST(post({ voltage: 0.5, current: 0.001 }, 'mfc_valid'), params('exp-1'))).status).toBe(409)
+
+    vi.mocked(prisma.experiment.findUnique).mockResolvedValue({ id: 'exp-1', status: 'RUNNING', parameters: '{}', lastMeasurementAt: null })
+    const noSetpoint = await POST(post({ voltage: 0.5, current: 0.001 }, 'mfc_valid'), params('exp-1'))
+    expect(noSetpoint.status).toBe(400)
+    expect(prisma.measurement.createMany).not.toHaveBeenCalled()
+  })
+
+  it('streams the feed status to viewers as server-sent events', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' }, expires: '' })
+    vi.mocked(prisma.experiment.findUnique)
+      .mockResolvedValueOnce({ userId: 'user-1', isPublic: false })
+      .mockResolvedValue({ status: 'RUNNING', parameters: '{}', ingestionTokenHash: 'hash', lastMeasurementAt: new Date(Date.now() - 3600000) })
+    vi.mocked(prisma.measurement.findMany).mockResolvedValue([])
+
+    const controller = new AbortController()
+    const response = await GET(
+      new NextRequest(new URL('http://localhost/api/experiments/exp-1/stream'), { signal: controller.signal }),
+      params('exp-1')
+    )
+    expect(response.headers.get('content-type')).toBe('text/event-stream')
+
+    const reader = response.body!.getReader()
+    const { value } = await reader.read()
+    controller.abort()
+    const text = new TextDecoder().decode(value)
+
+    expect(text).toMatch(/^event: status\n/)
+    expect(JSON.parse(text.split('data: ')[1]).state).toBe('stale')
+  })
+})
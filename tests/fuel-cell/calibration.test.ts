@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { DELETE as deleteCalibration, POST as postCalibration } from '@/app/api/fuel-cell/calibration/route'
+import { POST as postPrediction } from '@/app/api/fuel-cell/predictions/route'
+import { FuelCellCalibrationEngine, type CalibrationConditions } from '@/lib/fuel-cell-calibration'
+import {
+  FuelCellModelingEngine,
+  polarizationCurveToCsv,
+  type ElectrochemicalParameters,
+  type FuelCellPredictionInput
+} from '@/lib/fuel-cell-predictions'
+
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => {
+  const fuelCellCalibration = {
+    upsert: vi.fn(),
+    findUnique: vi.fn(),
+    delete: vi.fn()
+  }
+  const auditLog = {
+    create: vi.fn()
+  }
+  return { default: { fuelCellCalibration, auditLog }, prisma: { fuelCellCalibration, auditLog } }
+})
+
+vi.mock('@/lib/auth/auth-options', () => ({
+  authOptions: {}
+}))
+
+const conditions: CalibrationConditions = {
+  fuelCellType: 'PEM',
+  cellCount: 20,
+  activeArea: 50,
+  operatingTemperature: 70,
+  operatingPressure: 1.5,
+  humidity: 90
+}
+
+// Reference-condition parameters the synthetic "measurements" are generated from
+const truth: ElectrochemicalParameters = {
+  ...FuelCellModelingEngine.getDefaultElectrochemicalParameters('PEM'),
+  exchangeCurrentDensity: 5e-4,
+  tafelSlope: 0.07,
+  areaSpecificResistance: 0.15,
+  limitingCurrentDensity: 1.3
+}
+
+function syntheticPoints(noise: (i: number) => number) {
+  const effective = FuelCellModelingEngine.resolveElectrochemicalParameters(conditions, truth)
+  return Array.from({ length: 25 }, (_, i) => {
+    const currentDensity = 0.02 + (i / 24) * effective.limitingCurrentDensity * 0.9
+    const voltage = FuelCellModelingEngine.calculateCellVoltage(currentDensity, effective).voltage + noise(i)
+    return { currentDensity, voltage }
+  })
+}
+
+describe('FuelCellCalibrationEngine', () => {
+  it('recovers known parameters from noise-free data', () => {
+    const result = FuelCellCalibrationEngine.calibrate({ conditions, points: syntheticPoints(() => 0) })
+
+    expect(result.statistics.converged).toBe(true)
+    expect(result.statistics.rmse).toBeLessThan(1e-5)
+    expect(result.statistics.rSquared).toBeGreaterThan(0.9999)
+    expect(result.parameters.exchangeCurrentDensity / truth.exchangeCurrentDensity).toBeCloseTo(1, 2)
+    expect(result.parameters.tafelSlope).toBeCloseTo(truth.tafelSlope, 4)
+    expect(result.parameters.areaSpecificResistance).toBeCloseTo(truth.areaSpecificResistance, 4)
+    expect(result.parameters.limitingCurrentDensity).toBeCloseTo(truth.limitingCurrentDensity, 3)
+  })
+
+  it('reports confidence intervals that cover the truth for noisy data', () => {
+    // Deterministic pseudo-noise of a few millivolts
+    const result = FuelCellCalibrationEngine.calibrate({
+      conditions,
+      points: syntheticPoints(i => 0.003 * Math.sin(i * 2.3))
+    })
+
+    expect(result.statistics.degreesOfFreedom).toBe(21)
+    expect(result.statistics.rmse).toBeGreaterThan(0.001)
+    expect(result.statistics.rmse).toBeLessThan(0.005)
+    expect(result.residuals).toHaveLength(25)
+
+    for (const name of result.fittedParameters) {
+      const interval = result.confidenceIntervals[name]!
+      expect(interval.standardError).not.toBeNull()
+      expect(interval.lower!).toBeLessThanOrEqual(interval.estimate)
+      expect(interval.upper!).toBeGreaterThanOrEqual(interval.estimate)
+    }
+    const asr = result.confidenceIntervals.areaSpecificResistance!
+    expect(asr.lower!).toBeLessThan(truth.areaSpecificResistance)
+    expect(asr.upper!).toBeGreaterThan(truth.areaSpecificResistance)
+  })
+
+  it('improves on the built-in defaults and feeds back into predictions', () => {
+    const points = syntheticPoints(() => 0)
+    const result = FuelCellCalibrationEngine.calibrate({ conditions, points })
+
+    const defaults = FuelCellModelingEngine.resolveElectrochemicalParameters(conditions)
+    const defaultSse = points.reduce((sum, point) =>
+      sum + (point.voltage - FuelCellModelingEngine.calculateCellVoltage(point.currentDensity, defaults).voltage) ** 2, 0)
+    expect(result.statistics.sse).toBeLessThan(defaultSse)
+
+    const input: FuelCellPredictionInput = {
+      ...conditions,
+      fuelFlowRate: 2.5,
+      airFlowRate: 10,
+      modelFidelity: 'BASIC',
+      electrochemicalParameters: result.parameters
+    }
+    const curve = FuelCellModelingEngine.getPolarizationCurve(input)
+    expect(curve.limitingCurrentDensity).toBeCloseTo(
+      FuelCellModelingEngine.resolveElectrochemicalParameters(conditions, truth).limitingCurrentDensity, 3
+    )
+  })
+
+  it('parses CSV exports and stack measurements', () => {
+    const input: FuelCellPredictionInput = { ...conditions, fuelFlowRate: 5, airFlowRate: 20, modelFidelity: 'BASIC' }
+    const curve = FuelCellModelingEngine.getPolarizationCurve(input, { points: 12 })
+    const points = FuelCellCalibrationEngine.parseCsv(polarizationCurveToCsv(curve), conditions)
+
+    expect(points).toHaveLength(12)
+    expect(points[5].currentDensity).toBeCloseTo(curve.points[5].currentDensity, 5)
+    expect(points[5].voltage).toBeCloseTo(curve.points[5].voltage, 5)
+
+    const stackCsv = 'Current (A),Voltage (V)\n10,18\n20,16'
+    expect(FuelCellCalibrationEngine.parseCsv(stackCsv, conditions)).toEqual([
+      { currentDensity: 0.2, voltage: 0.9 },
+      { currentDensity: 0.4, voltage: 0.8 }
+    ])
+    expect(FuelCellCalibrationEngine.fromMeasurements([{ voltage: 18, current: 10 }], conditions)).toEqual([
+      { currentDensity: 0.2, voltage: 0.9 }
+    ])
+  })
+
+  it('rejects data that cannot support the fit', () => {
+    expect(() => FuelCellCalibrationEngine.calibrate({
+      conditions,
+      points: [{ currentDensity: 0.1, voltage: 0.8 }, { currentDensity: 0.2, voltage: 0.75 }]
+    })).toThrow('Invalid calibration data')
+    expect(() => FuelCellCalibrationEngine.parseCsv('foo,bar\n1,2', conditions)).toThrow('current_density or current')
+  })
+})
+
+describe('/api/fuel-cell/calibration', () => {
+  const request = (url: string, method: string, body?: unknown) => new NextRequest(
+    new URL(url, 'http://localhost'),
+    { method, ...(body !== undefined && { body: JSON.stringify(body) }) }
+  )
+  const save = () => request('/api/fuel-cell/calibration', 'POST', { name: 'Stack A', conditions, points: syntheticPoints(() => 0) })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-1' } } as any)
+    vi.mocked(prisma.fuelCellCalibration.upsert).mockResolvedValue({ id: 'cal-1', name: 'Stack A' } as any)
+  })
+
+  it('requires a session to save or delete a calibration', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null)
+
+    expect((await postCalibration(save())).status).toBe(401)
+    expect((await deleteCalibration(request('/api/fuel-cell/calibration?name=Stack%20A', 'DELETE'))).status).toBe(401)
+    expect(prisma.fuelCellCalibration.upsert).not.toHaveBeenCalled()
+    expect(prisma.fuelCellCalibration.delete).not.toHaveBeenCalled()
+  })
+
+  it('scopes saved calibrations to their owner', async () => {
+    const response = await postCalibration(save())
+    expect(response.status).toBe(200)
+    expect(prisma.fuelCellCalibration.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId_name: { userId: 'user-1', name: 'Stack A' } },
+      create: expect.objectContaining({ name: 'Stack A', userId: 'user-1' })
+    }))
+
+    vi.mocked(prisma.fuelCellCalibration.findUnique).mockResolvedValue(null)
+    const deleted = await deleteCalibration(request('/api/fuel-cell/calibration?name=Stack%20A', 'DELETE'))
+    expect(deleted.status).toBe(404)
+    expect(prisma.fuelCellCalibration.findUnique).toHaveBeenLastCalledWith(expect.objectContaining({
+      where: { userId_name: { userId: 'user-1', name: 'Stack A' } }
+    }))
+    expect(prisma.fuelCellCalibration.delete).not.toHaveBeenCalled()
+  })
+
+  it('audits saves with the old and new parameters, and deletions', async () => {
+    const previous = { ...truth, tafelSlope: 0.09 }
+    vi.mocked(prisma.fuelCellCalibration.findUnique).mockResolvedValue({ parameters: JSON.stringify(previous) } as any)
+
+    await postCalibration(save())
+    const saved = vi.mocked(prisma.auditLog.create).mock.calls[0][0].data
+    const details = JSON.parse(saved.details!)
+    expect(saved).toMatchObject({ userId: 'user-1', action: 'calibration.save', resource: 'calibration:cal-1' })
+    expect(details.summary).toBe('Refitted calibration "Stack A"')
+    expect(details.changes.tafelSlope.from).toBe(0.09)
+    expect(details.changes.tafelSlope.to).toBeCloseTo(truth.tafelSlope, 3)
+
+    vi.mocked(prisma.fuelCellCalibration.findUnique).mockResolvedValue({
+      id: 'cal-1', fuelCellType: 'PEM', parameters: JSON.stringify(truth)
+    } as any)
+    const deleted = await deleteCalibration(request('/api/fuel-cell/calibration?name=Stack%20A', 'DELETE'))
+    expect(deleted.status).toBe(200)
+    expect(prisma.fuelCellCalibration.delete).toHaveBeenCalledWith({ where: { id: 'cal-1' } })
+    expect(vi.mocked(prisma.auditLog.create).mock.calls[1][0].data).toMatchObject({ action: 'calibration.delete', resource: 'calibration:cal-1' })
+  })
+
+  it('loads named calibrations for predictions only from the caller', async () => {
+    const prediction = { ...conditions, fuelFlowRate: 2.5, airFlowRate: 10, calibrationName: 'Stack A' }
+
+    vi.mocked(getServerSession).mockResolvedValue(null)
+    expect((await postPrediction(request('/api/fuel-cell/predictions', 'POST', prediction))).status).toBe(401)
+
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'user-2' } } as any)
+    vi.mocked(prisma.fuelCellCalibration.findUnique).mockResolvedValue(null)
+    expect((await postPrediction(request('/api/fuel-cell/predictions', 'POST', prediction))).status).toBe(404)
+    expect(prisma.fuelCellCalibration.findUnique).toHaveBeenCalledWith({ where: { userId_name: { userId: 'user-2', name: 'Stack A' } } })
+  })
+})
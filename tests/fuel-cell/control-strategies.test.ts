@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ControlSystemSimulationEngine,
+  SIMULATION_PRESETS,
+  createDefaultFuzzyParams,
+  type ControlSystemConfig,
+  type ControllerConfig,
+  type SimulationParameters
+} from '@/lib/control-system-simulation'
+
+function controller(setpoint: number, kp: number, ki: number, kd: number, min: number, max: number, rateLimit: number): ControllerConfig {
+  return { enabled: true, type: 'PID', setpoint, pidParams: { kp, ki, kd }, constraints: { min, max, rateLimit } }
+}
+
+const config: ControlSystemConfig = {
+  thermal: controller(80, 0.8, 0.1, 0.05, 40, 90, 2),
+  humidity: controller(100, 0.5, 0.2, 0.02, 50, 100, 5),
+  pressure: controller(2.5, 1.2, 0.3, 0.1, 1, 10, 0.5),
+  purging: {
+    ...controller(0.5, 1, 0, 0, 0, 1, 0.1),
+    strategy: 'COMPOSITION_BASED',
+    threshold: 0.3,
+    interval: 300,
+    duration: 10
+  },
+  airIntake: controller(25, 0.8, 0.1, 0.05, 1, 100, 2),
+  stackVoltage: { ...controller(50, 1, 0.2, 0.1, 0, 200, 5), enabled: false }
+}
+
+const thermalDisturbance = SIMULATION_PRESETS.THERMAL_DISTURBANCE as unknown as SimulationParameters
+
+describe('Control strategies', () => {
+  it('rejects the same thermal disturbance with every strategy', async () => {
+    const comparison = await ControlSystemSimulationEngine.compareStrategies(config, 'PEM', thermalDisturbance, 'thermal')
+
+    expect(comparison.map(row => row.type)).toEqual(['PID', 'FUZZY', 'ADAPTIVE', 'NEURAL'])
+    for (const row of comparison) {
+      expect(Math.abs(row.finalError)).toBeLessThan(1)
+      expect(row.overshoot).toBeLessThan(5)
+      expect(row.settlingTime).toBeLessThan(thermalDisturbance.duration)
+    }
+    // The strategies are genuinely different controllers
+    expect(new Set(comparison.map(row => row.integralAbsoluteError.toFixed(3))).size).toBe(4)
+  })
+
+  it('runs the configured controller type and honours edited fuzzy rules', async () => {
+    const fuzzy = createDefaultFuzzyParams(config.thermal)
+    const idle = { ...fuzzy, rules: fuzzy.rules.map(rule => ({ ...rule, output: 'ZE' })) }
+
+    const tuned = await ControlSystemSimulationEngine.simulate(
+      { ...config, thermal: { ...config.thermal, type: 'FUZZY', fuzzyParams: fuzzy } }, 'PEM', thermalDisturbance
+    )
+    const untuned = await ControlSystemSimulationEngine.simulate(
+      { ...config, thermal: { ...config.thermal, type: 'FUZZY', fuzzyParams: idle } }, 'PEM', thermalDisturbance
+    )
+
+    // With every rule concluding "zero change" the coolant command never moves and the spike is not rejected
+    const peak = (temperature: number[]) => Math.max(...temperature)
+    expect(peak(untuned.timeSeriesData.temperature)).toBeGreaterThan(peak(tuned.timeSeriesData.temperature) + 1)
+  })
+
+  it('initialises neural controllers deterministically from the seed', async () => {
+    const run = (seed: number) => ControlSystemSimulationEngine.simulate(
+      { ...config, thermal: { ...config.thermal, type: 'NEURAL', neuralParams: { hiddenUnits: 4, learningRate: 0.1, seed } } },
+      'PEM',
+      thermalDisturbance
+    )
+    const [first, again, other] = await Promise.all([run(7), run(7), run(8)])
+
+    expect(again.timeSeriesData.temperature).toEqual(first.timeSeriesData.temperature)
+    expect(other.timeSeriesData.temperature).not.toEqual(first.timeSeriesData.temperature)
+  })
+
+  it('tracks the reference model with the adaptive controller on the transient plant', async () => {
+    const [comparison] = await ControlSystemSimulationEngine.compareStrategies(
+      config,
+      'PEM',
+      SIMULATION_PRESETS.COLD_START as unknown as SimulationParameters,
+      'thermal',
+      ['ADAPTIVE']
+    )
+
+    expect(comparison.type).toBe('ADAPTIVE')
+    expect(Math.abs(comparison.finalError)).toBeLessThan(1)
+    expect(comparison.settlingTime).toBeLessThan(700)
+  })
+
+  it('rejects inconsistent fuzzy rule bases', async () => {
+    const fuzzy = createDefaultFuzzyParams(config.thermal)
+    const broken = { ...fuzzy, rules: [...fuzzy.rules, { error: 'PB', errorRate: 'PB', output: 'HUGE' }] }
+
+    await expect(ControlSystemSimulationEngine.simulate(
+      { ...config, thermal: { ...config.thermal, type: 'FUZZY', fuzzyParams: broken } }, 'PEM', thermalDisturbance
+    )).rejects.toThrow('Invalid fuzzy controller parameters')
+  })
+})
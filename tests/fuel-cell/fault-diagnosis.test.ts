@@ -0,0 +1,262 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/fuel-cell/control-simulation/route'
+import {
+  ControlSystemSimulationEngine,
+  type ControlSystemConfig,
+  type ControllerConfig,
+  type SimulationParameters
+} from '@/lib/control-system-simulation'
+import { diagnoseFaults, evaluateDiagnosis } from '@/lib/fault-diagnosis'
+import {
+  SensorFaultModel,
+  stackFaultEffects,
+  validateFaultInjection,
+  type FaultInjection,
+  type FaultType
+} from '@/lib/fuel-cell-faults'
+import {
+  ModbusHILPlant,
+  VirtualHILPlant,
+  VirtualPlantRegisterBank,
+  createVirtualPlant,
+  runHILTest
+} from '@/lib/hil-test-runner'
+import { ModbusTcpServer } from '@/lib/modbus-tcp'
+import { FuelCellType } from '@/lib/types/fuel-cell-types'
+import type { HILTestConfig, HILTestScenario } from '@/lib/types/hil-types'
+
+function controller(setpoint: number, kp: number, ki: number, kd: number, min: number, max: number, rateLimit: number): ControllerConfig {
+  return { enabled: true, type: 'PID', setpoint, pidParams: { kp, ki, kd }, constraints: { min, max, rateLimit } }
+}
+
+const config: ControlSystemConfig = {
+  thermal: controller(80, 0.8, 0.1, 0.05, 40, 90, 2),
+  humidity: controller(100, 0.5, 0.2, 0.02, 50, 100, 5),
+  pressure: controller(2.5, 1.2, 0.3, 0.1, 1, 10, 0.5),
+  purging: {
+    ...controller(0.5, 1, 0, 0, 0, 1, 0.1),
+    strategy: 'COMPOSITION_BASED',
+    threshold: 0.3,
+    interval: 300,
+    duration: 10
+  },
+  airIntake: { ...controller(83, 0.8, 0.1, 0.05, 1, 200, 2), enabled: false },
+  stackVoltage: { ...controller(50, 1, 0.2, 0.1, 0, 200, 5), enabled: false }
+}
+
+const noise = { voltage: 0.1, current: 0.05, temperature: 0.1, humidity: 0.5, pressure: 0.005, airFlow: 0.3 }
+
+function parameters(faults: FaultInjection[], overrides: Partial<SimulationParameters> = {}): SimulationParameters {
+  return {
+    duration: 150,
+    timeStep: 0.1,
+    disturbances: [],
+    nominalConditions: { temperature: 80, humidity: 100, pressure: 2.5, fuelFlow: 21, airFlow: 83 },
+    faults,
+    measurementNoise: noise,
+    ...overrides
+  }
+}
+
+async function simulateAndDiagnose(faults: FaultInjection[], overrides: Partial<SimulationParameters> = {}) {
+  const result = await ControlSystemSimulationEngine.simulate(config, FuelCellType.PEM, parameters(faults, overrides))
+  const { measured, nominal } = result.faultSimulation!
+  const diagnosis = diagnoseFaults(measured, nominal, { fuelCellType: FuelCellType.PEM })
+  return { result, diagnosis, evaluation: evaluateDiagnosis(diagnosis, faults) }
+}
+
+describe('Fault models', () => {
+  it('ramps stack faults in and clears them after their duration', () => {
+    const flooding: FaultInjection = { type: 'FLOODING', severity: 1, startTime: 10, duration: 20, rampTime: 10 }
+
+    expect(stackFaultEffects([flooding], 5).transportFactor).toBe(1)
+    expect(stackFaultEffects([flooding], 15).transportFactor).toBeCloseTo(0.7, 10)
+    expect(stackFaultEffects([flooding], 25).transportFactor).toBeCloseTo(0.4, 10)
+    expect(stackFaultEffects([flooding], 30).transportFactor).toBe(1)
+
+    // CO coverage builds up towards its maximum overpotential
+    const co: FaultInjection = { type: 'CO_POISONING', severity: 1, startTime: 0 }
+    expect(stackFaultEffects([co], 60).anodeOverpotential).toBeCloseTo(0.15 * (1 - Math.exp(-1)), 10)
+    expect(stackFaultEffects([{ type: 'CELL_REVERSAL', severity: 0.1, startTime: 0 }], 1).reversedCells).toBe(1)
+  })
+
+  it('freezes stuck sensors and offsets drifting ones', () => {
+    const sensors = new SensorFaultModel([
+      { type: 'SENSOR_STUCK', severity: 1, startTime: 10, sensor: 'voltage' },
+      { type: 'SENSOR_DRIFT', severity: 0.5, startTime: 0 }
+    ])
+
+    expect(sensors.apply({ voltage: 40, temperature: 80 }, 10)).toEqual({ voltage: 40, temperature: 80 + 0.5 * 2 * 10 / 60 })
+    expect(sensors.apply({ voltage: 35, temperature: 80 }, 70).voltage).toBe(40)
+  })
+
+  it('rejects faults that do not apply to the fuel cell type', () => {
+    expect(() => validateFaultInjection({ type: 'FLOODING', severity: 0.5, startTime: 0 }, FuelCellType.SOFC))
+      .toThrow(/^Invalid fault FLOODING/)
+    expect(() => validateFaultInjection({ type: 'CO_POISONING', severity: 0.5, startTime: 0, sensor: 'voltage' }, FuelCellType.PEM))
+      .toThrow(/only sensor faults take a sensor/)
+  })
+})
+
+describe('Fault detection and isolation', () => {
+  it('raises no alarm on a healthy noisy plant', async () => {
+    const { result, diagnosis, evaluation } = await simulateAndDiagnose([])
+
+    expect(result.faultSimulation!.measured.voltage).not.toEqual(result.faultSimulation!.nominal.voltage)
+    expect(diagnosis.detected).toBe(false)
+    expect(evaluation.falseAlarm).toBe(false)
+  })
+
+  it('leaves the result unchanged without a fault list', async () => {
+    const result = await ControlSystemSimulationEngine.simulate(config, FuelCellType.PEM, { ...parameters([]), faults: undefined, measurementNoise: undefined })
+    expect(result.faultSimulation).toBeUndefined()
+  })
+
+  it.each<[FaultType, Partial<FaultInjection>]>([
+    ['MEMBRANE_DEHYDRATION', {}],
+    ['FLOODING', {}],
+    ['CO_POISONING', {}],
+    ['CELL_REVERSAL', {}],
+    ['COMPRESSOR_FAILURE', {}],
+    ['SENSOR_DRIFT', { sensor: 'temperature' }],
+    ['SENSOR_STUCK', { sensor: 'temperature' }]
+  ])('detects and isolates %s on the lumped plant', async (type, extra) => {
+    const fault: FaultInjection = { type, severity: 1, startTime: 60, ...extra }
+    const { diagnosis, evaluation } = await simulateAndDiagnose([fault])
+
+    expect(evaluation).toMatchObject({ detected: true, falseAlarm: false, correctIsolation: true })
+    expect(evaluation.detectionDelay).toBeLessThan(10)
+    expect(Math.abs(evaluation.onsetError!)).toBeLessThan(3)
+    expect(diagnosis.confidence).toBeGreaterThan(0.3)
+  })
+
+  it('tells gradual CO poisoning from abrupt cell reversal on the transient plant', async () => {
+    const co = await simulateAndDiagnose([{ type: 'CO_POISONING', severity: 0.5, startTime: 60 }], { plantModel: 'TRANSIENT' })
+    const reversal = await simulateAndDiagnose([{ type: 'CELL_REVERSAL', severity: 0.5, startTime: 60 }], { plantModel: 'TRANSIENT' })
+
+    expect(co.diagnosis).toMatchObject({ fault: 'CO_POISONING', onsetType: 'GRADUAL' })
+    expect(reversal.diagnosis).toMatchObject({ fault: 'CELL_REVERSAL', onsetType: 'ABRUPT' })
+    expect(reversal.diagnosis.signals.voltage).toMatchObject({ alarmed: true, direction: -1 })
+    // Other faults that lower the voltage stay as runners-up and keep the confidence down
+    expect(co.diagnosis.candidates.length).toBeGreaterThan(1)
+    expect(co.diagnosis.confidence).toBeLessThan(1)
+  })
+
+  it('finds a stuck sensor once the process moves away from it', async () => {
+    const { diagnosis, evaluation } = await simulateAndDiagnose(
+      [{ type: 'SENSOR_STUCK', severity: 1, startTime: 60, sensor: 'temperature' }],
+      { plantModel: 'TRANSIENT', disturbances: [{ type: 'LOAD_CHANGE', magnitude: 0.3, startTime: 80, duration: 60 }] }
+    )
+
+    expect(diagnosis).toMatchObject({ fault: 'SENSOR_STUCK', sensor: 'temperature' })
+    expect(evaluation.correctIsolation).toBe(true)
+  })
+
+  it('counts alarms before the injected fault as false alarms', async () => {
+    const { diagnosis } = await simulateAndDiagnose([{ type: 'CELL_REVERSAL', severity: 1, startTime: 60 }])
+    const evaluation = evaluateDiagnosis(diagnosis, [{ type: 'CELL_REVERSAL', severity: 1, startTime: 100 }])
+
+    expect(evaluation).toMatchObject({ falseAlarm: true, detectionDelay: null })
+  })
+})
+
+describe('/api/fuel-cell/control-simulation fault diagnosis', () => {
+  const post = (body: unknown) => new NextRequest(
+    new URL('http://localhost/api/fuel-cell/control-simulation'),
+    { method: 'POST', body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } }
+  )
+
+  it('returns the diagnosis with the simulation', async () => {
+    const response = await POST(post({
+      fuelCellType: 'PEM',
+      controlConfig: config,
+      simulationParams: { ...parameters([]), duration: 100 },
+      faults: [{ type: 'COMPRESSOR_FAILURE', severity: 0.8, startTime: 50 }],
+      diagnose: { threshold: 6 }
+    }))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.data.diagnosis).toMatchObject({ detected: true, fault: 'COMPRESSOR_FAILURE', evaluation: { correctIsolation: true } })
+    expect(body.data.faultSimulation.nominal.airFlow).toHaveLength(body.data.timeSeriesData.time.length)
+    expect(body.metadata.injectedFaults).toBe(1)
+  })
+
+  it('rejects faults the fuel cell type cannot have', async () => {
+    const response = await POST(post({
+      fuelCellType: 'PEM',
+      controlConfig: config,
+      preset: 'BASIC_TEST',
+      faults: [{ type: 'CO_POISONING', severity: 0.5, startTime: 10, sensor: 'voltage' }]
+    }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).message).toMatch(/^Invalid fault CO_POISONING/)
+  })
+})
+
+describe('HIL fault injection', () => {
+  let server: ModbusTcpServer | null = null
+
+  afterEach(async () => {
+    await server?.close()
+    server = null
+  })
+
+  const scenario = (parameters: Record<string, unknown>): HILTestScenario => ({
+    id: 'fault',
+    name: 'Fault',
+    description: '',
+    duration: 20,
+    steps: [
+      { time: 5, action: 'INJECT_FAULT', parameters, description: 'Inject' },
+      { time: 10, action: 'CHANGE_LOAD', parameters: { current: 30 }, description: 'Move the process' }
+    ],
+    expectedOutcomes: []
+  })
+
+  const hilConfig = (scenarios: HILTestScenario[]): HILTestConfig => ({
+    testName: 'Faults',
+    testType: 'FAULT_INJECTION',
+    hardwareSetup: { realHardware: [], simulatedComponents: [], interfaces: [] },
+    testScenarios: scenarios,
+    dataAcquisition: { sampleRate: 10, duration: 20, channels: ['voltage', 'airFlow'] },
+    safetyLimits: { maxTemperature: 1000, maxPressure: 10, maxCurrent: 100, maxVoltage: 100 }
+  })
+
+  const reading = (report: Awaited<ReturnType<typeof runHILTest>>, time: number) =>
+    report.measurements.find(measurement => Math.abs(measurement.timestamp - time) < 1e-6)!.parameters
+
+  it('injects catalogue faults into the virtual plant', async () => {
+    const report = await runHILTest(hilConfig([
+      scenario({ type: 'COMPRESSOR_FAILURE', magnitude: 0.5, duration: 10 }),
+      scenario({ type: 'FLOODING', magnitude: 0.5 })
+    ]), new VirtualHILPlant(FuelCellType.SOFC), { timeStep: 0.5 })
+    const [compressor, flooding] = report.scenarios
+
+    expect(compressor.steps[0]).toMatchObject({ status: 'PASSED', message: 'Injected COMPRESSOR_FAILURE (magnitude 0.5) for 10 s' })
+    expect(reading(report, 14).airFlow).toBeLessThan(0.7 * reading(report, 4).airFlow)
+    expect(reading(report, 19.5).airFlow).toBeGreaterThan(0.95 * reading(report, 4).airFlow)
+    // Flooding needs liquid water
+    expect(flooding.steps[0]).toMatchObject({ status: 'FAILED', message: expect.stringMatching(/^Invalid fault FLOODING/) })
+  })
+
+  it('carries sensor faults over Modbus', async () => {
+    server = new ModbusTcpServer(new VirtualPlantRegisterBank(() => createVirtualPlant(FuelCellType.PEM)))
+    const port = await server.listen(0)
+    const plant = await ModbusHILPlant.connect({ host: '127.0.0.1', port })
+    const report = await runHILTest(hilConfig([
+      scenario({ type: 'SENSOR_STUCK', magnitude: 1, sensor: 'voltage' }),
+      scenario({ type: 'CELL_REVERSAL', magnitude: 1, sensor: 'voltage' })
+    ]), plant, { timeStep: 0.5 })
+    await plant.close()
+    const [stuck, invalid] = report.scenarios
+
+    expect(stuck.steps[0]).toMatchObject({ status: 'PASSED', message: 'Injected SENSOR_STUCK on the voltage sensor (magnitude 1) for 15 s' })
+    // Frozen through the load step; the healthy plant at the same time reads higher
+    expect(reading(report, 19.5).voltage).toBe(reading(report, 6).voltage)
+    expect(reading(report, 39.5).voltage).toBeGreaterThan(reading(report, 26).voltage)
+    expect(invalid.steps[0]).toMatchObject({ status: 'FAILED', message: expect.stringMatching(/for sensor faults only/) })
+  })
+})
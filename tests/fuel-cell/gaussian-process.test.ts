@@ -0,0 +1,53 @@
+/**
+ * Tests for the Gaussian process surrogate used by the Bayesian optimizer
+ */
+
+import { describe, it, expect } from 'vitest'
+import { GaussianProcess, normalCdf } from '@/lib/gaussian-process'
+
+const target = (x: number) => Math.sin(6 * x) + 0.5 * x
+
+describe('Gaussian Process', () => {
+  const X = [0, 0.15, 0.3, 0.45, 0.6, 0.75, 0.9].map(x => [x])
+  const y = X.map(([x]) => target(x))
+
+  it.each(['RBF', 'MATERN_32', 'MATERN_52'] as const)('interpolates observations with the %s kernel', (kernel) => {
+    const gp = new GaussianProcess({ kernel, inputBounds: [{ min: 0, max: 1 }] })
+    gp.fit(X, y)
+
+    X.forEach(([x], i) => {
+      const prediction = gp.predict([x])
+      expect(prediction.mean).toBeCloseTo(y[i], 1)
+      expect(Math.sqrt(prediction.variance)).toBeLessThan(0.1)
+    })
+    expect(Number.isFinite(gp.logMarginalLikelihood)).toBe(true)
+  })
+
+  it('is more uncertain away from the data', () => {
+    const gp = new GaussianProcess({ inputBounds: [{ min: 0, max: 2 }] })
+    gp.fit(X, y)
+
+    const near = gp.predict([0.45]).variance
+    const far = gp.predict([1.8]).variance
+    expect(far).toBeGreaterThan(near * 10)
+  })
+
+  it('normalises inputs using the supplied bounds', () => {
+    const scaled = X.map(([x]) => [1000 + 500 * x])
+    const gp = new GaussianProcess({ inputBounds: [{ min: 1000, max: 1500 }] })
+    gp.fit(scaled, y)
+
+    expect(gp.predict([1000 + 500 * 0.3]).mean).toBeCloseTo(target(0.3), 1)
+    expect(gp.hyperparameters!.lengthScales[0]).toBeLessThan(10)
+  })
+
+  it('rejects predictions before fitting', () => {
+    expect(() => new GaussianProcess().predict([0])).toThrow()
+  })
+
+  it('approximates the standard normal CDF', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6)
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3)
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3)
+  })
+})
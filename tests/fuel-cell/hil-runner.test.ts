@@ -0,0 +1,201 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/fuel-cell/hil/route'
+import {
+  ModbusHILPlant,
+  VirtualHILPlant,
+  VirtualPlantRegisterBank,
+  createVirtualPlant,
+  runHILTest
+} from '@/lib/hil-test-runner'
+import { ModbusError, ModbusTcpClient, ModbusTcpServer, decodeFloat32, encodeFloat32 } from '@/lib/modbus-tcp'
+import type { HILTestConfig, HILTestScenario } from '@/lib/types/hil-types'
+
+const loadFollowing: HILTestScenario = {
+  id: 'load_following',
+  name: 'Load Following Response',
+  description: 'Step the load up and back down',
+  duration: 90,
+  steps: [
+    { time: 0, action: 'SET_INPUT', parameters: { load: 20 }, description: 'Baseline load' },
+    { time: 30, action: 'CHANGE_LOAD', parameters: { current: 40 }, description: 'Step to 40 A' },
+    { time: 55, action: 'VERIFY_OUTPUT', parameters: { parameter: 'current', expectedValue: 40, tolerance: 0.5 }, description: 'Load applied' },
+    { time: 60, action: 'CHANGE_LOAD', parameters: { load: 20 }, description: 'Back to baseline' }
+  ],
+  expectedOutcomes: [
+    { parameter: 'current', expectedValue: 20, tolerance: 0.5, unit: 'A' },
+    { parameter: 'responseTime', expectedValue: 10, tolerance: 10, unit: 's' }
+  ]
+}
+
+const thermalFault: HILTestScenario = {
+  id: 'thermal_fault',
+  name: 'Cooling Failure',
+  description: 'Coolant setpoint runs away',
+  duration: 300,
+  steps: [
+    { time: 10, action: 'INJECT_FAULT', parameters: { type: 'TEMPERATURE_SPIKE', magnitude: 1, duration: 250 }, description: 'Spike' },
+    { time: 280, action: 'VERIFY_OUTPUT', parameters: { expectedTemperature: 80, tolerance: 2 }, description: 'Never reached' }
+  ],
+  expectedOutcomes: []
+}
+
+function config(scenarios: HILTestScenario[], overrides: Partial<HILTestConfig> = {}): HILTestConfig {
+  return {
+    testName: 'PEM HIL Test',
+    testType: 'VALIDATION',
+    hardwareSetup: { realHardware: [], simulatedComponents: [], interfaces: [] },
+    testScenarios: scenarios,
+    dataAcquisition: { sampleRate: 10, duration: 300, channels: ['temperature', 'voltage', 'current'] },
+    safetyLimits: { maxTemperature: 90, maxPressure: 10, maxCurrent: 100, maxVoltage: 60 },
+    ...overrides
+  }
+}
+
+const post = (body: unknown) => new NextRequest(
+  new URL('http://localhost/api/fuel-cell/hil'),
+  { method: 'POST', body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } }
+)
+
+describe('HIL scenario runner', () => {
+  it('runs load steps against the virtual plant and evaluates outcomes', async () => {
+    const report = await runHILTest(config([loadFollowing]), new VirtualHILPlant('PEM'), { maxMeasurements: 100 })
+    const [scenario] = report.scenarios
+
+    expect(report.status).toBe('PASSED')
+    expect(scenario.steps.map(step => step.status)).toEqual(['PASSED', 'PASSED', 'PASSED', 'PASSED'])
+    expect(scenario.steps[1].message).toBe('Load set to 40 A')
+    expect(scenario.outcomes[0].measured).toBeCloseTo(20, 1)
+    expect(scenario.outcomes[1].measured).toBeGreaterThan(0)
+    expect(report.summary).toMatchObject({ passedSteps: 4, totalSteps: 4, performanceScore: 100 })
+    expect(report.summary.efficiency).toBeGreaterThan(0)
+
+    // Decimated to the requested budget, only the acquisition channels
+    expect(report.measurements.length).toBeLessThanOrEqual(100)
+    expect(Object.keys(report.measurements[0].parameters)).toEqual(['temperature', 'voltage', 'current'])
+    expect(report.measurements[report.measurements.length - 1].timestamp).toBeCloseTo(90, 6)
+  })
+
+  it('aborts on a safety limit and skips the rest of the test', async () => {
+    const report = await runHILTest(config([thermalFault, loadFollowing]), new VirtualHILPlant('PEM'))
+    const [faulted, skipped] = report.scenarios
+
+    expect(report.status).toBe('ABORTED')
+    expect(report.abortReason).toMatch(/temperature .* exceeded the safety limit of 90 °C/)
+    expect(faulted.status).toBe('ABORTED')
+    expect(faulted.duration).toBeGreaterThan(10)
+    expect(faulted.duration).toBeLessThan(280)
+    expect(faulted.steps.map(step => step.status)).toEqual(['PASSED', 'SKIPPED'])
+    expect(skipped.steps.every(step => step.status === 'SKIPPED')).toBe(true)
+
+    expect(report.faults.map(fault => fault.severity)).toEqual(['MEDIUM', 'HIGH', 'CRITICAL'])
+    expect(report.faults[2]).toMatchObject({ parameter: 'temperature' })
+    expect(report.faults[2].value).toBeGreaterThan(90)
+  })
+
+  it('fails verifications out of tolerance and reports inputs the plant lacks', async () => {
+    const report = await runHILTest(config([{
+      id: 'checks',
+      name: 'Checks',
+      description: '',
+      duration: 5,
+      steps: [
+        { time: 0, action: 'SET_INPUT', parameters: { fuelFlow: 1, airFlow: 80 }, description: 'Unknown input' },
+        { time: 1, action: 'VERIFY_OUTPUT', parameters: { expectedVoltage: 5, tolerance: 1 }, description: 'Too low' },
+        { time: 2, action: 'VERIFY_OUTPUT', parameters: { parameter: 'ph', expectedValue: 7 }, description: 'Not measured' },
+        { time: 3, action: 'INJECT_FAULT', parameters: { type: 'METEOR' }, description: 'Unknown fault' }
+      ],
+      expectedOutcomes: [{ parameter: 'ph', expectedValue: 7, tolerance: 1, unit: '' }]
+    }]), new VirtualHILPlant('PEM', { plantModel: 'LUMPED' }))
+    const [scenario] = report.scenarios
+
+    expect(report.status).toBe('FAILED')
+    expect(scenario.steps.map(step => step.status)).toEqual(['PASSED', 'FAILED', 'FAILED', 'FAILED'])
+    expect(scenario.steps[1].message).toMatch(/^voltage \d+\.\d+ \(expected 5 ± 1\)$/)
+    expect(scenario.steps[2].message).toBe('ph is not measured')
+    expect(scenario.outcomes[0]).toMatchObject({ measured: null, passed: false })
+    expect(report.faults).toEqual([expect.objectContaining({ severity: 'LOW', message: expect.stringMatching(/^fuelFlow is not an input/) })])
+  })
+
+  it('refuses runs that would take too many plant steps', async () => {
+    await expect(runHILTest(config([{ ...loadFollowing, duration: 3600 }]), new VirtualHILPlant('PEM'), { timeStep: 0.01 }))
+      .rejects.toThrow(/^Invalid HIL test/)
+  })
+})
+
+describe('Modbus/TCP plant', () => {
+  let server: ModbusTcpServer | null = null
+
+  afterEach(async () => {
+    await server?.close()
+    server = null
+  })
+
+  it('encodes float32 across two registers', () => {
+    expect(decodeFloat32(...encodeFloat32(42.5))).toBe(42.5)
+    expect(decodeFloat32(...encodeFloat32(NaN))).toBeNaN()
+  })
+
+  it('runs the same scenario in lockstep over Modbus as in-process', async () => {
+    server = new ModbusTcpServer(new VirtualPlantRegisterBank(() => createVirtualPlant('PEM')))
+    const port = await server.listen(0)
+
+    const plant = await ModbusHILPlant.connect({ host: '127.0.0.1', port })
+    const remote = await runHILTest(config([loadFollowing]), plant, { timeStep: 0.5 })
+    await plant.close()
+    const local = await runHILTest(config([loadFollowing]), new VirtualHILPlant('PEM'), { timeStep: 0.5 })
+
+    expect(remote.status).toBe('PASSED')
+    expect(remote.plant).toBe(`Modbus/TCP plant at 127.0.0.1:${port} (lockstep)`)
+    expect(remote.measurements).toHaveLength(local.measurements.length)
+    // Registers carry float32
+    const last = (report: typeof local) => report.measurements[report.measurements.length - 1].parameters
+    expect(last(remote).voltage).toBeCloseTo(last(local).voltage, 4)
+    expect(remote.scenarios[0].outcomes[0].measured).toBeCloseTo(local.scenarios[0].outcomes[0].measured!, 4)
+  })
+
+  it('returns exceptions for unmapped registers and bad steps', async () => {
+    server = new ModbusTcpServer(new VirtualPlantRegisterBank(() => createVirtualPlant('PEM')))
+    const port = await server.listen(0)
+    const client = new ModbusTcpClient({ host: '127.0.0.1', port })
+    await client.connect()
+
+    await expect(client.writeFloats(100, [1])).rejects.toMatchObject({ exceptionCode: 2 })
+    await expect(client.writeFloats(200, [-1])).rejects.toMatchObject({ exceptionCode: 3 })
+    await expect(client.readHoldingRegisters(200, 10)).rejects.toBeInstanceOf(ModbusError)
+    await client.close()
+  })
+})
+
+describe('/api/fuel-cell/hil', () => {
+  it('runs a test against the virtual plant', async () => {
+    const response = await POST(post({ fuelCellType: 'PEM', config: config([loadFollowing]), timeStep: 0.5 }))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.data.status).toBe('PASSED')
+    expect(body.metadata).toMatchObject({ fuelCellType: 'PEM', plant: 'Virtual PEM plant (TRANSIENT model)' })
+  })
+
+  it('rejects invalid scenarios and unlisted Modbus hosts', async () => {
+    const invalid = await POST(post({ fuelCellType: 'PEM', config: config([{ ...loadFollowing, steps: [{ time: -1, action: 'JUMP' }] } as any]) }))
+    expect(invalid.status).toBe(400)
+
+    const remote = await POST(post({
+      fuelCellType: 'PEM',
+      config: config([loadFollowing]),
+      plant: { type: 'modbus', host: '10.0.0.5', port: 502 }
+    }))
+    expect(remote.status).toBe(400)
+    expect((await remote.json()).message).toMatch(/HIL_MODBUS_HOSTS/)
+  })
+
+  it('reports an unreachable plant as a gateway error', async () => {
+    const server = new ModbusTcpServer(new VirtualPlantRegisterBank(() => createVirtualPlant('PEM')))
+    const port = await server.listen(0)
+    await server.close()
+
+    const response = await POST(post({ fuelCellType: 'PEM', config: config([loadFollowing]), plant: { type: 'modbus', host: '127.0.0.1', port } }))
+    expect(response.status).toBe(502)
+  })
+})
@@ -0,0 +1,260 @@
+/**
+ * Tests for the fuel cell optimization algorithms
+ * Ensures each advertised algorithm runs its own search and respects constraints
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  FuelCellOptimizationEngine,
+  OptimizationConstraints,
+  OptimizationObjective,
+  OptimizationParameters
+} from '@/lib/fuel-cell-optimization'
+import { FuelCellModelingEngine } from '@/lib/fuel-cell-predictions'
+
+const PEM_CONSTRAINTS: OptimizationConstraints = {
+  cellCount: { min: 10, max: 100 },
+  activeArea: { min: 50, max: 300 },
+  temperature: { min: 60, max: 90 },
+  pressure: { min: 1, max: 4 },
+  humidity: { min: 60, max: 100 },
+  fuelFlowRate: { min: 1, max: 10 },
+  airFlowRate: { min: 5, max: 40 }
+}
+
+const POWER_OBJECTIVE: OptimizationObjective = { type: 'MAXIMIZE_POWER' }
+
+function withinConstraints(params: Record<string, any>, constraints: OptimizationConstraints) {
+  expect(params.cellCount).toBeGreaterThanOrEqual(constraints.cellCount.min)
+  expect(params.cellCount).toBeLessThanOrEqual(constraints.cellCount.max)
+  expect(Number.isInteger(params.cellCount)).toBe(true)
+  expect(params.activeArea).toBeGreaterThanOrEqual(constraints.activeArea.min)
+  expect(params.activeArea).toBeLessThanOrEqual(constraints.activeArea.max)
+  expect(params.operatingTemperature).toBeGreaterThanOrEqual(constraints.temperature.min)
+  expect(params.operatingTemperature).toBeLessThanOrEqual(constraints.temperature.max)
+  expect(params.operatingPressure).toBeGreaterThanOrEqual(constraints.pressure.min)
+  expect(params.operatingPressure).toBeLessThanOrEqual(constraints.pressure.max)
+}
+
+describe('Fuel Cell Optimization Algorithms', () => {
+  describe('Particle Swarm', () => {
+    const parameters: OptimizationParameters = {
+      algorithm: 'PARTICLE_SWARM',
+      maxIterations: 40,
+      convergenceTolerance: 0.0001,
+      populationSize: 15
+    }
+
+    it('improves on the initial guess and stays within bounds', async () => {
+      const result = await FuelCellOptimizationEngine.optimize('PEM', POWER_OBJECTIVE, PEM_CONSTRAINTS, parameters)
+
+      expect(result.convergenceHistory.length).toBeGreaterThan(0)
+      expect(result.objectiveValue).toBeGreaterThanOrEqual(result.convergenceHistory[0].objectiveValue)
+      withinConstraints(result.optimizedParameters, PEM_CONSTRAINTS)
+    })
+
+    it('records a monotonically non-decreasing global best', async () => {
+      const result = await FuelCellOptimizationEngine.optimize('PEM', POWER_OBJECTIVE, PEM_CONSTRAINTS, parameters)
+      const values = result.convergenceHistory.map(h => h.objectiveValue)
+
+      for (let i = 1; i < values.length; i++) {
+        expect(values[i]).toBeGreaterThanOrEqual(values[i - 1])
+      }
+    })
+
+    it('stops early when the swarm stalls', async () => {
+      const result = await FuelCellOptimizationEngine.optimize('PEM', POWER_OBJECTIVE, PEM_CONSTRAINTS, {
+        ...parameters,
+        maxIterations: 500,
+        convergenceTolerance: 0.1
+      })
+
+      expect(result.iterations).toBeLessThan(500)
+    })
+  })
+
+  describe('Simulated Annealing', () => {
+    it.each(['LINEAR', 'EXPONENTIAL', 'ADAPTIVE'] as const)(
+      'runs with the %s temperature schedule',
+      async (temperatureSchedule) => {
+        const result = await FuelCellOptimizationEngine.optimize('PEM', POWER_OBJECTIVE, PEM_CONSTRAINTS, {
+          algorithm: 'SIMULATED_ANNEALING',
+          maxIterations: 150,
+          convergenceTolerance: 0.0001,
+          temperatureSchedule
+        })
+
+        expect(result.convergenceHistory.length).toBeGreaterThan(0)
+        expect(result.objectiveValue).toBeGreaterThanOrEqual(result.convergenceHistory[0].objectiveValue)
+        withinConstraints(result.optimizedParameters, PEM_CONSTRAINTS)
+      }
+    )
+  })
+
+  describe('Bayesian', () => {
+    it.each(['EI', 'PI', 'UCB'] as const)('improves on the initial design with %s acquisition', async (acquisitionFunction) => {
+      const result = await FuelCellOptimizationEngine.optimize('PEM', POWER_OBJECTIVE, PEM_CONSTRAINTS, {
+        algorithm: 'BAYESIAN',
+        maxIterations: 25,
+        convergenceTolerance: 0.00001,
+        acquisitionFunction
+      })
+      const initialBest = Math.max(...result.convergenceHistory.slice(0, 10).map(h => h.objectiveValue))
+
+      expect(result.objectiveValue).toBeGreaterThanOrEqual(initialBest)
+      expect(result.surrogate!.acquisitionFunction).toBe(acquisitionFunction)
+      withinConstraints(result.optimizedParameters, PEM_CONSTRAINTS)
+    })
+
+    it('records the best observation so far and keeps sampled values in the surrogate', async () => {
+      const result = await FuelCellOptimizationEngine.optimize('PEM', POWER_OBJECTIVE, PEM_CONSTRAINTS, {
+        algorithm: 'BAYESIAN',
+        maxIterations: 20,
+        convergenceTolerance: 0.00001
+      })
+      const values = result.convergenceHistory.map(h => h.objectiveValue)
+
+      for (let i = 1; i < values.length; i++) {
+        expect(values[i]).toBeGreaterThanOrEqual(values[i - 1])
+      }
+      expect(values[values.length - 1]).toBe(result.objectiveValue)
+      for (const sample of result.surrogate!.samples) {
+        expect(sample.observedValue).toBeLessThanOrEqual(values[sample.iteration])
+      }
+    })
+
+    it('returns surrogate uncertainty for the UI', async () => {
+      const result = await FuelCellOptimizationEngine.optimize('PEM', POWER_OBJECTIVE, PEM_CONSTRAINTS, {
+        algorithm: 'BAYESIAN',
+        maxIterations: 20,
+        convergenceTolerance: 0.00001,
+        kernelType: 'RBF'
+      })
+      const surrogate = result.surrogate!
+
+      expect(surrogate.kernel).toBe('RBF')
+      expect(surrogate.optimumStdDev).toBeGreaterThanOrEqual(0)
+      expect(Object.keys(surrogate.lengthScales)).toContain('activeArea')
+      expect(surrogate.samples.length).toBe(result.iterations - 10)
+      expect(surrogate.slices.length).toBeGreaterThan(0)
+      for (const slice of surrogate.slices) {
+        for (const point of slice.points) {
+          expect(Number.isFinite(point.mean)).toBe(true)
+          expect(point.stdDev).toBeGreaterThanOrEqual(0)
+        }
+      }
+    })
+  })
+
+  describe('NSGA-II', () => {
+    const parameters: OptimizationParameters = {
+      algorithm: 'NSGA_II',
+      maxIterations: 15,
+      convergenceTolerance: 0.0001,
+      populationSize: 20
+    }
+    const objective: OptimizationObjective = { type: 'MULTI_OBJECTIVE' }
+
+    it('returns a mutually non-dominated Pareto front within bounds', async () => {
+      const result = await FuelCellOptimizationEngine.optimize('PEM', objective, PEM_CONSTRAINTS, parameters)
+      const front = result.paretoFront!
+
+      expect(front.length).toBeGreaterThan(0)
+      for (const a of front) {
+        withinConstraints(a.parameters, PEM_CONSTRAINTS)
+        expect(a.crowdingDistance === -1 || a.crowdingDistance >= 0).toBe(true)
+        for (const b of front) {
+          const dominates =
+            a.power >= b.power && a.efficiency >= b.efficiency &&
+            a.cost <= b.cost && a.durability >= b.durability &&
+            (a.power > b.power || a.efficiency > b.efficiency || a.cost < b.cost || a.durability > b.durability)
+          expect(dominates).toBe(false)
+        }
+      }
+    })
+
+    it('tracks hypervolume as a normalised fraction', async () => {
+      const result = await FuelCellOptimizationEngine.optimize('PEM', objective, PEM_CONSTRAINTS, parameters)
+
+      expect(result.convergenceHistory.length).toBeGreaterThan(0)
+      for (const entry of result.convergenceHistory) {
+        expect(entry.objectiveValue).toBeGreaterThanOrEqual(0)
+        expect(entry.objectiveValue).toBeLessThanOrEqual(1)
+      }
+    })
+  })
+
+  describe('Material selection', () => {
+    const materialConstraints: OptimizationConstraints = {
+      ...PEM_CONSTRAINTS,
+      availableMaterials: {
+        anodeCatalysts: ['pt-c', 'pt-alloy', 'non-pgm'],
+        cathodeCatalysts: ['pt-c', 'pt-alloy', 'non-pgm'],
+        membraneTypes: ['nafion', 'hydrocarbon']
+      }
+    }
+
+    it('resolves UI material ids in the modeling engine', async () => {
+      expect(FuelCellModelingEngine.getCatalystProperties('pt-alloy')).toEqual(
+        FuelCellModelingEngine.getCatalystProperties('Pt-alloy')
+      )
+
+      const base = {
+        fuelCellType: 'PEM' as const,
+        cellCount: 50,
+        activeArea: 100,
+        operatingTemperature: 80,
+        operatingPressure: 2,
+        humidity: 100,
+        fuelFlowRate: 5,
+        airFlowRate: 25,
+        modelFidelity: 'BASIC' as const
+      }
+      const alloy = await FuelCellModelingEngine.getPrediction({ ...base, anodeCatalyst: 'pt-alloy', cathodeCatalyst: 'pt-alloy' })
+      const nonPgm = await FuelCellModelingEngine.getPrediction({ ...base, anodeCatalyst: 'non-pgm', cathodeCatalyst: 'non-pgm' })
+
+      expect(alloy.predictedPower).toBeGreaterThan(nonPgm.predictedPower)
+    })
+
+    it.each(['GENETIC_ALGORITHM', 'PARTICLE_SWARM', 'SIMULATED_ANNEALING', 'NSGA_II', 'BAYESIAN'] as const)(
+      '%s only picks available materials',
+      async (algorithm) => {
+        const result = await FuelCellOptimizationEngine.optimize('PEM', POWER_OBJECTIVE, materialConstraints, {
+          algorithm,
+          maxIterations: 20,
+          convergenceTolerance: 0.0001,
+          populationSize: 12
+        })
+        const { anodeCatalyst, cathodeCatalyst, membraneType } = result.optimizedParameters
+
+        expect(materialConstraints.availableMaterials!.anodeCatalysts).toContain(anodeCatalyst)
+        expect(materialConstraints.availableMaterials!.cathodeCatalysts).toContain(cathodeCatalyst)
+        expect(materialConstraints.availableMaterials!.membraneTypes).toContain(membraneType)
+      }
+    )
+
+    it('moves off the initial material when a better catalyst is available', async () => {
+      const result = await FuelCellOptimizationEngine.optimize('PEM', POWER_OBJECTIVE, materialConstraints, {
+        algorithm: 'GENETIC_ALGORITHM',
+        maxIterations: 30,
+        convergenceTolerance: 0.0001,
+        populationSize: 30
+      }, { anodeCatalyst: 'non-pgm', cathodeCatalyst: 'non-pgm' })
+
+      expect(result.optimizedParameters.cathodeCatalyst).not.toBe('non-pgm')
+    })
+
+    it('respects a system cost cap', async () => {
+      const maxSystemCost = 40000
+      const result = await FuelCellOptimizationEngine.optimize('PEM', POWER_OBJECTIVE, { ...materialConstraints, maxSystemCost }, {
+        algorithm: 'PARTICLE_SWARM',
+        maxIterations: 30,
+        convergenceTolerance: 0.0001,
+        populationSize: 15
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.constraintViolations).toEqual([])
+    })
+  })
+})
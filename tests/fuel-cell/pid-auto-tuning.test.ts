@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SIMULATION_PRESETS,
+  type ControlSystemConfig,
+  type ControllerConfig,
+  type SimulationParameters
+} from '@/lib/control-system-simulation'
+import { PIDAutoTuningEngine } from '@/lib/pid-auto-tuning'
+
+function controller(setpoint: number, kp: number, ki: number, kd: number, min: number, max: number, rateLimit: number): ControllerConfig {
+  return { enabled: true, type: 'PID', setpoint, pidParams: { kp, ki, kd }, constraints: { min, max, rateLimit } }
+}
+
+const config: ControlSystemConfig = {
+  thermal: controller(80, 0.8, 0.1, 0.05, 40, 90, 2),
+  humidity: controller(100, 0.5, 0.2, 0.02, 50, 100, 5),
+  pressure: controller(2.5, 1.2, 0.3, 0.1, 1, 10, 0.5),
+  purging: {
+    ...controller(0.5, 1, 0, 0, 0, 1, 0.1),
+    strategy: 'COMPOSITION_BASED',
+    threshold: 0.3,
+    interval: 300,
+    duration: 10
+  },
+  airIntake: controller(25, 0.8, 0.1, 0.05, 1, 100, 2),
+  stackVoltage: { ...controller(50, 1, 0.2, 0.1, 0, 200, 5), enabled: false }
+}
+
+const lumped = SIMULATION_PRESETS.BASIC_TEST as unknown as SimulationParameters
+
+describe('PIDAutoTuningEngine', () => {
+  it('identifies a first-order-plus-dead-time model for the rule-based methods', () => {
+    for (const method of ['ZIEGLER_NICHOLS_STEP', 'COHEN_COON'] as const) {
+      const result = PIDAutoTuningEngine.tune(config, 'PEM', lumped, { method, loops: ['thermal', 'pressure'] })
+
+      expect(result.loops.map(loop => loop.loop)).toEqual(['thermal', 'pressure'])
+      for (const loop of result.loops) {
+        expect(loop.processModel.gain).toBeGreaterThan(0)
+        expect(loop.processModel.timeConstant).toBeGreaterThan(0)
+        expect(loop.processModel.deadTime).toBeGreaterThan(0)
+        expect(loop.gains.kp).toBeGreaterThan(0)
+        expect(loop.gains.kp).toBeLessThanOrEqual(10)
+        expect(result.tunedConfig[loop.loop].pidParams).toEqual(loop.gains)
+      }
+    }
+  })
+
+  it('finds the ultimate gain and period with a relay experiment', () => {
+    const result = PIDAutoTuningEngine.tune(config, 'PEM', lumped, { method: 'ZIEGLER_NICHOLS_RELAY', loops: ['thermal'] })
+    const relay = result.loops[0].relay!
+
+    expect(relay.cycles).toBeGreaterThanOrEqual(3)
+    expect(relay.ultimateGain).toBeGreaterThan(0)
+    expect(relay.ultimatePeriod).toBeGreaterThan(0)
+    expect(result.loops[0].gains.kp).toBeCloseTo(Math.min(10, 0.6 * relay.ultimateGain), 2)
+  })
+
+  it('lowers ITAE within the overshoot limit when optimising', () => {
+    const result = PIDAutoTuningEngine.tune(config, 'PEM', lumped, { method: 'OPTIMIZATION', maxOvershoot: 5 })
+
+    expect(result.loops).toHaveLength(4)
+    for (const loop of result.loops) {
+      expect(loop.criterion).toBe('ITAE')
+      expect(loop.after.metrics.itae).toBeLessThanOrEqual(loop.before.metrics.itae)
+      expect(loop.after.metrics.overshoot).toBeLessThanOrEqual(Math.max(5, loop.before.metrics.overshoot) + 1)
+      expect(loop.after.time.length).toBeLessThanOrEqual(301)
+      expect(loop.previousGains).toEqual(config[loop.loop].pidParams)
+    }
+  })
+
+  it('scores step responses', () => {
+    const time = Array.from({ length: 1001 }, (_, i) => i * 0.01)
+    const measurement = time.map(t => t < 1 ? 0 : 1 - Math.exp(-(t - 1)))
+    const metrics = PIDAutoTuningEngine.evaluateStepResponse({ time, measurement, command: time.map(() => 0) }, 1, 0, 1)
+
+    expect(metrics.overshoot).toBe(0)
+    expect(metrics.iae).toBeCloseTo(1, 1)
+    expect(metrics.riseTime).toBeCloseTo(Math.log(9), 0)
+    expect(metrics.settlingTime).toBeCloseTo(4, 0)
+  })
+
+  it('skips loops that do not respond and rejects empty requests', () => {
+    const transient = { ...lumped, plantModel: 'TRANSIENT' } as SimulationParameters
+    const result = PIDAutoTuningEngine.tune(config, 'PEM', transient, { method: 'COHEN_COON', loops: ['pressure', 'humidity'] })
+
+    expect(result.loops.map(loop => loop.loop)).toEqual(['pressure'])
+    expect(result.skippedLoops[0]).toMatchObject({ loop: 'humidity' })
+    expect(result.skippedLoops[0].reason).toContain('Invalid tuning experiment')
+
+    expect(() => PIDAutoTuningEngine.tune(config, 'PEM', lumped, { method: 'COHEN_COON', loops: [] }))
+      .toThrow('Invalid tuning request')
+  })
+})
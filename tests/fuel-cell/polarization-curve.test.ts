@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import {
+  FuelCellModelingEngine,
+  polarizationCurveToCsv,
+  type FuelCellPredictionInput
+} from '@/lib/fuel-cell-predictions'
+import { type FuelCellType } from '@/lib/types/fuel-cell-types'
+
+const baseInputs: Record<FuelCellType, FuelCellPredictionInput> = {
+  PEM: {
+    fuelCellType: 'PEM',
+    cellCount: 50,
+    activeArea: 100,
+    operatingTemperature: 80,
+    operatingPressure: 1,
+    humidity: 100,
+    fuelFlowRate: 10,
+    airFlowRate: 30,
+    modelFidelity: 'BASIC'
+  },
+  SOFC: {
+    fuelCellType: 'SOFC',
+    cellCount: 50,
+    activeArea: 100,
+    operatingTemperature: 800,
+    operatingPressure: 1,
+    humidity: 0,
+    fuelFlowRate: 10,
+    airFlowRate: 30,
+    modelFidelity: 'BASIC'
+  },
+  PAFC: {
+    fuelCellType: 'PAFC',
+    cellCount: 50,
+    activeArea: 100,
+    operatingTemperature: 200,
+    operatingPressure: 1,
+    humidity: 0,
+    fuelFlowRate: 10,
+    airFlowRate: 30,
+    modelFidelity: 'BASIC'
+  },
+  MCFC: {
+    fuelCellType: 'MCFC',
+    cellCount: 50,
+    activeArea: 100,
+    operatingTemperature: 650,
+    operatingPressure: 1,
+    humidity: 0,
+    fuelFlowRate: 10,
+    airFlowRate: 30,
+    modelFidelity: 'BASIC'
+  },
+  AFC: {
+    fuelCellType: 'AFC',
+    cellCount: 50,
+    activeArea: 100,
+    operatingTemperature: 70,
+    operatingPressure: 1,
+    humidity: 0,
+    fuelFlowRate: 10,
+    airFlowRate: 30,
+    modelFidelity: 'BASIC'
+  }
+}
+
+describe('Polarization curves', () => {
+  it.each(Object.keys(baseInputs) as FuelCellType[])('produces a physical I-V curve for %s', (type) => {
+    const curve = FuelCellModelingEngine.getPolarizationCurve(baseInputs[type])
+
+    expect(curve.points.length).toBeGreaterThan(5)
+    expect(curve.points[0].currentDensity).toBe(0)
+    expect(curve.points[0].voltage).toBeCloseTo(curve.openCircuitVoltage, 6)
+
+    for (let i = 1; i < curve.points.length; i++) {
+      const point = curve.points[i]
+      expect(point.voltage).toBeLessThan(curve.points[i - 1].voltage)
+      expect(point.currentDensity).toBeLessThan(curve.limitingCurrentDensity)
+      if (point.voltage > 0) {
+        expect(point.activationLoss + point.ohmicLoss + point.concentrationLoss)
+          .toBeCloseTo(curve.openCircuitVoltage - point.voltage, 6)
+      }
+    }
+
+    // Power peaks strictly inside the sweep
+    const peakIndex = curve.points.findIndex(point => point.powerDensity === curve.peakPowerDensity)
+    expect(peakIndex).toBeGreaterThan(0)
+    expect(peakIndex).toBeLessThan(curve.points.length - 1)
+  })
+
+  it('scales stack quantities by cell count and area', () => {
+    const input = baseInputs.PEM
+    const curve = FuelCellModelingEngine.getPolarizationCurve(input, { points: 20 })
+    const point = curve.points[10]
+
+    expect(curve.points).toHaveLength(20)
+    expect(point.stackVoltage).toBeCloseTo(point.voltage * input.cellCount, 6)
+    expect(point.stackPower).toBeCloseTo(point.powerDensity * input.activeArea * input.cellCount, 6)
+  })
+
+  it('responds to catalyst activity, pressure and temperature', () => {
+    const base = FuelCellModelingEngine.getPolarizationCurve(baseInputs.PEM)
+    const alloy = FuelCellModelingEngine.getPolarizationCurve({ ...baseInputs.PEM, cathodeCatalyst: 'pt-alloy' })
+    const pressurized = FuelCellModelingEngine.getPolarizationCurve({ ...baseInputs.PEM, operatingPressure: 3 })
+    const coldSofc = FuelCellModelingEngine.getPolarizationCurve({ ...baseInputs.SOFC, operatingTemperature: 650 })
+    const sofc = FuelCellModelingEngine.getPolarizationCurve(baseInputs.SOFC)
+
+    expect(alloy.points[10].activationLoss).toBeLessThan(base.points[10].activationLoss)
+    expect(pressurized.openCircuitVoltage).toBeGreaterThan(base.openCircuitVoltage)
+    expect(pressurized.peakPowerDensity).toBeGreaterThan(base.peakPowerDensity)
+    expect(coldSofc.parameters.areaSpecificResistance).toBeGreaterThan(sofc.parameters.areaSpecificResistance)
+    expect(coldSofc.peakPowerDensity).toBeLessThan(sofc.peakPowerDensity)
+  })
+
+  it('applies parameter overrides and reports the flow-limited current density', () => {
+    const curve = FuelCellModelingEngine.getPolarizationCurve(baseInputs.PEM, {
+      parameters: { limitingCurrentDensity: 1.0 }
+    })
+
+    expect(curve.limitingCurrentDensity).toBeCloseTo(1.0, 6)
+    // 10 L/min H2 shared across 50 cells of 100 cm²
+    expect(curve.supplyLimitedCurrentDensity).toBeCloseTo((2 * 96485 * 10 / 60 / 22.414) / 50 / 100, 6)
+  })
+
+  it('exports the curve as CSV', () => {
+    const curve = FuelCellModelingEngine.getPolarizationCurve(baseInputs.PEM, { points: 10 })
+    const lines = polarizationCurveToCsv(curve).split('\n')
+
+    expect(lines).toHaveLength(curve.points.length + 1)
+    expect(lines[0]).toBe('current_density_A_cm2,cell_voltage_V,power_density_W_cm2,activation_loss_V,ohmic_loss_V,concentration_loss_V,stack_voltage_V,stack_power_W')
+    expect(lines[1].split(',').map(Number)[1]).toBeCloseTo(curve.openCircuitVoltage, 5)
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * Tests for global sensitivity analysis of fuel cell predictions
+ */
+
+import { describe, it, expect } from 'vitest'
+import { FuelCellSensitivityEngine } from '@/lib/fuel-cell-sensitivity'
+import { OptimizationConstraints } from '@/lib/fuel-cell-optimization'
+
+const PEM_CONSTRAINTS: OptimizationConstraints = {
+  cellCount: { min: 10, max: 100 },
+  activeArea: { min: 50, max: 300 },
+  temperature: { min: 60, max: 90 },
+  pressure: { min: 1, max: 4 },
+  humidity: { min: 60, max: 100 },
+  fuelFlowRate: { min: 1, max: 10 },
+  airFlowRate: { min: 5, max: 40 }
+}
+
+describe('Fuel Cell Sensitivity Analysis', () => {
+  it('covers every numeric input with a non-zero range', () => {
+    const ranges = FuelCellSensitivityEngine.getParameterRanges({
+      ...PEM_CONSTRAINTS,
+      pressure: { min: 2, max: 2 }
+    })
+
+    expect(ranges.map(r => r.name)).toEqual([
+      'cellCount', 'activeArea', 'operatingTemperature', 'humidity', 'fuelFlowRate', 'airFlowRate'
+    ])
+  })
+
+  it('computes Morris elementary effects for power', async () => {
+    const result = await FuelCellSensitivityEngine.analyze({
+      fuelCellType: 'PEM',
+      constraints: PEM_CONSTRAINTS,
+      method: 'MORRIS',
+      output: 'POWER',
+      options: { trajectories: 10 }
+    })
+
+    expect(result.morris).toHaveLength(7)
+    expect(result.sobol).toBeUndefined()
+    // Baseline + tornado (2 per parameter) + trajectories × (k + 1)
+    expect(result.evaluations).toBe(1 + 2 * 7 + 10 * 8)
+
+    const cellCount = result.morris!.find(index => index.parameter === 'cellCount')!
+    expect(cellCount.muStar).toBeGreaterThan(0)
+    expect(cellCount.mu).toBeGreaterThan(0) // More cells, more power
+    for (let i = 1; i < result.morris!.length; i++) {
+      expect(result.morris![i].muStar).toBeLessThanOrEqual(result.morris![i - 1].muStar)
+    }
+  })
+
+  it('computes Sobol indices with bootstrap confidence intervals', async () => {
+    const result = await FuelCellSensitivityEngine.analyze({
+      fuelCellType: 'PEM',
+      constraints: PEM_CONSTRAINTS,
+      method: 'SOBOL',
+      output: 'POWER',
+      options: { samples: 128, bootstrapResamples: 50 }
+    })
+    const sobol = result.sobol!
+
+    expect(sobol).toHaveLength(7)
+    expect(result.outputVariance).toBeGreaterThan(0)
+    for (const index of sobol) {
+      expect(index.totalOrder).toBeGreaterThanOrEqual(0)
+      expect(index.firstOrderConfidence).toBeGreaterThanOrEqual(0)
+      expect(index.totalOrderConfidence).toBeGreaterThanOrEqual(0)
+    }
+
+    // Stack size dominates power; humidity barely matters near saturation
+    const byName = Object.fromEntries(sobol.map(index => [index.parameter, index]))
+    expect(byName.cellCount.totalOrder).toBeGreaterThan(byName.humidity.totalOrder)
+    const firstOrderSum = sobol.reduce((sum, index) => sum + index.firstOrder, 0)
+    expect(firstOrderSum).toBeGreaterThan(0.3)
+    expect(firstOrderSum).toBeLessThan(1.3)
+  })
+
+  it('builds a tornado around the requested baseline', async () => {
+    const result = await FuelCellSensitivityEngine.analyze({
+      fuelCellType: 'PEM',
+      constraints: PEM_CONSTRAINTS,
+      method: 'MORRIS',
+      output: 'EFFICIENCY',
+      baseline: { operatingTemperature: 80 },
+      options: { trajectories: 4 }
+    })
+
+    const temperature = result.tornado.find(bar => bar.parameter === 'operatingTemperature')!
+    expect(temperature.lowValue).toBe(60)
+    expect(temperature.highValue).toBe(90)
+    expect(temperature.swing).toBeCloseTo(Math.abs(temperature.highOutput - temperature.lowOutput))
+    for (let i = 1; i < result.tornado.length; i++) {
+      expect(result.tornado[i].swing).toBeLessThanOrEqual(result.tornado[i - 1].swing)
+    }
+  })
+
+  it('rejects constraints with no free parameters', async () => {
+    const fixed = (value: number) => ({ min: value, max: value })
+    await expect(FuelCellSensitivityEngine.analyze({
+      fuelCellType: 'PEM',
+      constraints: {
+        cellCount: fixed(50),
+        activeArea: fixed(100),
+        temperature: fixed(80),
+        pressure: fixed(2),
+        fuelFlowRate: fixed(5),
+        airFlowRate: fixed(25)
+      },
+      method: 'SOBOL',
+      output: 'POWER'
+    })).rejects.toThrow('non-zero range')
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { integrateRK45 } from '@/lib/ode-solver'
+import {
+  ControlSystemSimulationEngine,
+  SIMULATION_PRESETS,
+  type ControlSystemConfig,
+  type ControllerConfig,
+  type SimulationParameters
+} from '@/lib/control-system-simulation'
+
+function controller(setpoint: number, kp: number, ki: number, kd: number, min: number, max: number, rateLimit: number): ControllerConfig {
+  return { enabled: true, type: 'PID', setpoint, pidParams: { kp, ki, kd }, constraints: { min, max, rateLimit } }
+}
+
+const config: ControlSystemConfig = {
+  thermal: controller(80, 0.8, 0.1, 0.05, 40, 90, 2),
+  humidity: controller(100, 0.5, 0.2, 0.02, 50, 100, 5),
+  pressure: controller(2.5, 1.2, 0.3, 0.1, 1, 10, 0.5),
+  purging: {
+    ...controller(0.5, 1, 0, 0, 0, 1, 0.1),
+    strategy: 'COMPOSITION_BASED',
+    threshold: 0.3,
+    interval: 300,
+    duration: 10
+  },
+  airIntake: controller(25, 0.8, 0.1, 0.05, 1, 100, 2),
+  stackVoltage: { ...controller(50, 1, 0.2, 0.1, 0, 200, 5), enabled: false }
+}
+
+describe('integrateRK45', () => {
+  it('matches the analytic solution of exponential decay', () => {
+    const solution = integrateRK45((_, y) => [-2 * y[0]], 0, [1], 3, { relativeTolerance: 1e-8, absoluteTolerance: 1e-12 })
+
+    expect(solution.t).toBe(3)
+    expect(solution.y[0]).toBeCloseTo(Math.exp(-6), 9)
+    expect(solution.acceptedSteps).toBeGreaterThan(1)
+  })
+
+  it('adapts the step size to the dynamics', () => {
+    const oscillator = (omega: number) => (_: number, y: number[]) => [y[1], -omega * omega * y[0]]
+    const slow = integrateRK45(oscillator(1), 0, [1, 0], 10, { relativeTolerance: 1e-6 })
+    const fast = integrateRK45(oscillator(20), 0, [1, 0], 10, { relativeTolerance: 1e-6 })
+
+    expect(slow.y[0]).toBeCloseTo(Math.cos(10), 4)
+    expect(fast.y[0]).toBeCloseTo(Math.cos(200), 3)
+    expect(fast.acceptedSteps).toBeGreaterThan(5 * slow.acceptedSteps)
+  })
+})
+
+describe('Transient fuel cell plant', () => {
+  it('keeps the lumped model as the default plant', async () => {
+    const result = await ControlSystemSimulationEngine.simulate(config, 'PEM', SIMULATION_PRESETS.BASIC_TEST as unknown as SimulationParameters)
+
+    expect(result.transient).toBeUndefined()
+    expect(result.timeSeriesData.time.length).toBeGreaterThan(1000)
+  })
+
+  it('warms up from a cold, dry start under thermal control', async () => {
+    const result = await ControlSystemSimulationEngine.simulate(config, 'PEM', SIMULATION_PRESETS.COLD_START as unknown as SimulationParameters)
+    const { temperature, power } = result.timeSeriesData
+    const transient = result.transient!
+
+    expect(temperature[0]).toBeLessThan(25)
+    expect(temperature[temperature.length - 1]).toBeGreaterThan(75)
+    expect(temperature[temperature.length - 1]).toBeLessThan(85)
+    // Heating takes minutes, not seconds
+    expect(temperature[Math.floor(60 / 0.5)]).toBeLessThan(50)
+    expect(transient.membraneWaterContent[0]).toBeLessThan(6)
+    expect(transient.membraneWaterContent[transient.membraneWaterContent.length - 1]).toBeGreaterThan(12)
+    expect(power[power.length - 1]).toBeGreaterThan(power[0] * 1.5)
+    expect(transient.solverSteps).toBeGreaterThan(0)
+  })
+
+  it('collapses voltage during fuel starvation and recovers afterwards', async () => {
+    const result = await ControlSystemSimulationEngine.simulate(config, 'PEM', SIMULATION_PRESETS.FUEL_STARVATION as unknown as SimulationParameters)
+    const { time, power } = result.timeSeriesData
+    const transient = result.transient!
+    const at = (seconds: number) => time.findIndex(t => t >= seconds)
+
+    const before = power[at(55)]
+    const during = Math.min(...power.slice(at(60), at(105)))
+    const after = power[power.length - 1]
+
+    expect(during).toBeLessThan(0.5 * before)
+    expect(Math.min(...transient.hydrogenPartialPressure.slice(at(60), at(105))))
+      .toBeLessThan(0.5 * transient.hydrogenPartialPressure[at(55)])
+    expect(after).toBeGreaterThan(0.9 * before)
+  })
+
+  it('dries the membrane when the inlet humidity is cut', async () => {
+    const parameters: SimulationParameters = {
+      duration: 120,
+      timeStep: 0.2,
+      disturbances: [],
+      nominalConditions: { temperature: 80, humidity: 30, pressure: 1.5, fuelFlow: 5, airFlow: 40 },
+      plantModel: 'TRANSIENT'
+    }
+    const openLoop: ControlSystemConfig = {
+      ...config,
+      humidity: { ...config.humidity, enabled: false },
+      pressure: { ...config.pressure, setpoint: 1.5 },
+      airIntake: { ...config.airIntake, setpoint: 40 }
+    }
+    const result = await ControlSystemSimulationEngine.simulate(openLoop, 'PEM', parameters)
+    const water = result.transient!.membraneWaterContent
+
+    expect(water[water.length - 1]).toBeLessThan(10)
+    expect(result.timeSeriesData.power[result.timeSeriesData.power.length - 1]).toBeLessThan(result.timeSeriesData.power[0])
+  })
+})
@@ -3,9 +3,12 @@
  * Tests experiment loading, error handling, and localStorage integration
  */
 
-import { render, screen, waitFor } from '@testing-library/react'
-import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { render, screen, waitFor, fireEvent } from '@testing-library/react'
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { Blob as NodeBlob } from 'node:buffer'
+import { http, HttpResponse } from 'msw'
 import ExperimentPage from '@/app/experiment/[id]/page'
+import { server } from '../mocks/server'
 
 // Mock Next.js useParams
 const mockParams = { id: 'test-experiment-id' }
@@ -284,4 +287,104 @@ describe('Experiment Page Integration', () => {
     // Should handle missing optional fields gracefully
     expect(screen.getByText('Minimal Design')).toBeInTheDocument()
   })
+})
+
+describe('Experiment Page with the experiments API', () => {
+  // The module-level Blob mock leaves msw unable to build response bodies
+  beforeEach(() => {
+    localStorageMock.clear()
+    vi.clearAllMocks()
+    vi.stubGlobal('Blob', NodeBlob)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should load the experiment from the API when it is not stored locally', async () => {
+    localStorage.setItem('messai-experiments', JSON.stringify([]))
+
+    render(<ExperimentPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText('Test Experiment')).toBeInTheDocument()
+    })
+
+    expect(screen.getByText('Mason Jar MFC')).toBeInTheDocument()
+    expect(screen.getByText('28.5°C')).toBeInTheDocument()
+    expect(screen.getByText('50')).toBeInTheDocument() // Measurements returned by the API
+  })
+
+  it('should upload measurement files to the ingestion endpoint and report the outcome', async () => {
+    let contentType: string | null = null
+    server.use(
+      http.post('/api/experiments/:id/measurements', ({ request }) => {
+        contentType = request.headers.get('content-type')
+        return HttpResponse.json({
+          inserted: 3,
+          totalRows: 5,
+          duplicates: { inFile: 1, alreadyStored: 0 },
+          rejectedRows: 1,
+          errors: [{ row: 4, message: '"abc" is not a number' }],
+          warnings: []
+        })
+      })
+    )
+
+    render(<ExperimentPage />)
+    await waitFor(() => {
+      expect(screen.getByText('Test Experiment')).toBeInTheDocument()
+    })
+
+    const file = new File(['timestamp,voltage,current\n'], 'run.csv', { type: 'text/csv' })
+    fireEvent.change(screen.getByLabelText('Upload CSV Data'), { target: { files: [file] } })
+
+    await waitFor(() => {
+      expect(screen.getByText('Stored 3 of 5 rows, 1 duplicates skipped, 1 rejected')).toBeInTheDocument()
+    })
+    expect(screen.getByText('Row 4: "abc" is not a number')).toBeInTheDocument()
+    expect(contentType).toContain('multipart/form-data')
+  })
+
+  it('should import local experiments for signed-in users and open the stored copy', async () => {
+    const localExperiment = {
+      id: 'test-experiment-id',
+      name: 'Local Experiment',
+      systemId: 'earthen-pot',
+      status: 'setup',
+      createdAt: '2024-01-15T10:00:00Z',
+      parameters: { temperature: 30, ph: 7.2, substrateConcentration: 1.5 },
+      stats: { totalMeasurements: 0, averagePower: 0, maxPower: 0, efficiency: 0 }
+    }
+    localStorage.setItem('messai-experiments', JSON.stringify([localExperiment]))
+
+    server.use(
+      http.post('/api/experiments/import', () => HttpResponse.json({
+        imported: [{ localId: 'test-experiment-id', id: 'db-experiment-id' }],
+        skipped: []
+      })),
+      http.get('/api/experiments/db-experiment-id', () => HttpResponse.json({
+        id: 'db-experiment-id',
+        name: 'Imported Experiment',
+        designName: 'Earthen Pot MFC',
+        status: 'SETUP',
+        createdAt: '2024-01-15T10:00:00Z',
+        parameters: { temperature: 30, ph: 7.2, substrateConcentration: 1.5, legacyId: 'test-experiment-id' },
+        stats: { totalMeasurements: 0, averagePower: 0, maxPower: 0 },
+        measurements: []
+      }))
+    )
+
+    render(<ExperimentPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText('Imported Experiment')).toBeInTheDocument()
+    })
+
+    expect(screen.getByText('Setup')).toBeInTheDocument()
+    expect(JSON.parse(localStorage.getItem('messai-experiments')!)).toEqual([])
+    expect(JSON.parse(localStorage.getItem('messai-experiments-imported')!)).toEqual({
+      'test-experiment-id': 'db-experiment-id'
+    })
+  })
 })
\ No newline at end of file
@@ -63,6 +63,25 @@ export const handlers = [
     }, { status: 201 })
   }),
 
+  // Mock localStorage import; visitors are signed out unless a test overrides this
+  http.post('/api/experiments/import', () => {
+    return HttpResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }),
+
+  // Stored measurement series (empty: charts fall back to simulated data)
+  http.get('/api/experiments/:id/measurements', () => {
+    return HttpResponse.json({ measurements: [], total: 0, sampled: false })
+  }),
+
+  // Experiment analytics and residuals (none computed: their panels stay hidden)
+  http.get('/api/experiments/:id/analytics', () => {
+    return HttpResponse.json({ error: 'Experiment not found' }, { status: 404 })
+  }),
+
+  http.get('/api/experiments/:id/prediction', () => {
+    return HttpResponse.json({ error: 'Experiment not found' }, { status: 404 })
+  }),
+
   // Mock experiment data fetch
   http.get('/api/experiments/:id', ({ params }) => {
     const { id } = params
@@ -0,0 +1,69 @@
+/**
+ * Regression tests for the @messai/core biofilm simulator
+ */
+
+import { describe, it, expect } from 'vitest'
+import { bacteriaDatabase, simulateBiofilm } from '@messai/core'
+
+describe('Biofilm simulator', () => {
+  const base = {
+    microbe: bacteriaDatabase.geobacter,
+    temperature: 30,
+    ph: 7,
+    initialSubstrate: 1
+  }
+
+  it('produces an S-shaped start-up curve for a batch run', () => {
+    const { points, summary } = simulateBiofilm(base)
+
+    expect(points).toHaveLength(30 * 4 + 1)
+    expect(points[0]).toMatchObject({ time: 0, biofilmDensity: 0.005, substrate: 1 })
+
+    const last = points[points.length - 1]
+    expect(last.biofilmDensity).toBeGreaterThan(points[0].biofilmDensity * 10)
+    expect(last.substrate).toBeLessThan(1)
+    expect(last.voltage).toBeCloseTo(last.current, 3) // 1000 Ω load: V = mA
+    expect(summary.startupTime).toBeGreaterThan(5)
+    expect(summary.startupTime).toBeLessThan(30)
+  })
+
+  it('conserves substrate in batch mode', () => {
+    const { points, summary } = simulateBiofilm({ ...base, volume: 0.5 })
+    const remaining = points[points.length - 1].substrate * 0.5
+
+    expect(summary.substrateFed).toBe(0.5)
+    expect(remaining + summary.substrateConsumed).toBeCloseTo(0.5, 3)
+  })
+
+  it('starts up slower away from the organism optimum', () => {
+    const optimal = simulateBiofilm(base)
+    const cold = simulateBiofilm({ ...base, temperature: 20 })
+
+    expect(cold.points[60].biofilmDensity).toBeLessThan(optimal.points[60].biofilmDensity)
+    expect(simulateBiofilm({ ...base, temperature: 10 }).summary.startupTime).toBeNull()
+    expect(simulateBiofilm({ ...base, microbe: bacteriaDatabase.clostridium }).summary.peakCurrent)
+      .toBeLessThan(simulateBiofilm(base).summary.peakCurrent)
+  })
+
+  it('tops up substrate with fed-batch and continuous feeding', () => {
+    const batch = simulateBiofilm({ ...base, initialSubstrate: 0.2, duration: 40 })
+    const fedBatch = simulateBiofilm({ ...base, initialSubstrate: 0.2, duration: 40, feeding: { mode: 'fed-batch', interval: 48, dose: 0.2 } })
+    const continuous = simulateBiofilm({
+      ...base,
+      initialSubstrate: 0.2,
+      duration: 40,
+      feeding: { mode: 'continuous', hrt: 12, organicLoadingRate: 0.4 }
+    })
+
+    expect(fedBatch.summary.substrateFed).toBeCloseTo(0.05 + 20 * 0.05, 6)
+    expect(fedBatch.summary.charge).toBeGreaterThan(batch.summary.charge)
+    // OLR 0.4 g/L/day at 12 h HRT means 0.2 g/L influent
+    expect(continuous.points[continuous.points.length - 1].substrate).toBeGreaterThan(0.15)
+    expect(continuous.summary.charge).toBeGreaterThan(batch.summary.charge)
+  })
+
+  it('rejects invalid settings', () => {
+    expect(() => simulateBiofilm({ ...base, volume: 0 })).toThrow('volume must be greater than 0')
+    expect(() => simulateBiofilm({ ...base, feeding: { mode: 'continuous', hrt: 0.2 } })).toThrow(/fifth of the HRT/)
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Regression tests for the @messai/core power calculator
+ * Predictions must be reproducible for a given seed
+ */
+
+import { describe, it, expect } from 'vitest'
+import { calculatePower, createRng } from '../../packages/messai-core/src'
+
+describe('Core power calculator', () => {
+  const input = {
+    temperature: 28,
+    ph: 7,
+    substrateConcentration: 1,
+    designType: 'mason-jar' as const
+  }
+
+  it('returns identical results by default', () => {
+    expect(calculatePower(input)).toEqual(calculatePower(input))
+    expect(calculatePower(input).uncertainty).toMatchObject({ samples: 1000, seed: 42 })
+  })
+
+  it('reproduces percentiles for a seed and keeps the nominal power across seeds', () => {
+    const a = calculatePower(input, { seed: 'shared-run' })
+    const b = calculatePower(input, { seed: 'shared-run' })
+    const c = calculatePower(input, { seed: 7 })
+
+    expect(a).toEqual(b)
+    expect(c.predictedPower).toBe(a.predictedPower)
+    expect(c.percentiles).not.toEqual(a.percentiles)
+  })
+
+  it('propagates input uncertainty into ordered percentiles', () => {
+    const { predictedPower, percentiles, confidenceInterval } = calculatePower(input, { seed: 1 })
+
+    expect(predictedPower).toBe(105)
+    expect(percentiles.p5).toBeLessThan(percentiles.p25)
+    expect(percentiles.p25).toBeLessThan(percentiles.p75)
+    expect(percentiles.p75).toBeLessThan(percentiles.p95)
+    expect(Math.abs(percentiles.p50 - predictedPower)).toBeLessThan(2)
+    expect(confidenceInterval).toEqual({ lower: percentiles.p5, upper: percentiles.p95 })
+
+    const wider = calculatePower(input, { seed: 1, uncertainty: { temperature: 2 } })
+    expect(wider.percentiles.p95 - wider.percentiles.p5).toBeGreaterThan(percentiles.p95 - percentiles.p5)
+  })
+
+  it('uses a supplied random source and skips sampling when asked', () => {
+    const first = calculatePower(input, { rng: createRng(5) })
+    expect(calculatePower(input, { rng: createRng(5) })).toEqual(first)
+    expect(first.uncertainty.seed).toBeNull()
+
+    const nominal = calculatePower(input, { samples: 0 })
+    expect(nominal.percentiles).toEqual({ p5: 105, p25: 105, p50: 105, p75: 105, p95: 105 })
+  })
+
+  describe('organisms and electrode materials', () => {
+    const conditions = { temperature: 30, ph: 7, substrateConcentration: 1 }
+
+    it('leaves the base model unchanged without selections and for the reference materials', () => {
+      const base = calculatePower(conditions)
+      expect(base.factors).toMatchObject({ microbial: 0, anode: 0, cathode: 0 })
+      expect(calculatePower({ ...conditions, anodeMaterial: 'carbon-cloth', cathodeMaterial: 'carbon-cloth' }).predictedPower)
+        .toBe(base.predictedPower)
+    })
+
+    it('accounts for electron transfer rate and each organism\'s optimum', () => {
+      const geobacter = calculatePower({ ...conditions, microbes: ['geobacter-sulfurreducens'] })
+      const chlorella = calculatePower({ ...conditions, microbes: ['chlorella-vulgaris'] })
+
+      expect(geobacter.factors.microbial).toBeGreaterThan(0)
+      expect(chlorella.factors.microbial).toBeLessThan(0)
+      // Chlorella grows best at 25 °C
+      expect(chlorella.factors.temperature).toBeLessThan(geobacter.factors.temperature)
+      expect(calculatePower({ ...conditions, temperature: 25, microbes: ['chlorella-vulgaris'] }).factors.temperature).toBe(25)
+    })
+
+    it('applies consortium synergy whether named or listed', () => {
+      const named = calculatePower({ ...conditions, consortium: 'mixed-culture-1' })
+      const listed = calculatePower({
+        ...conditions,
+        microbes: ['shewanella-oneidensis', 'pseudomonas-aeruginosa', 'geobacter-sulfurreducens']
+      })
+      const unlisted = calculatePower({ ...conditions, microbes: ['shewanella-oneidensis', 'pseudomonas-aeruginosa'] })
+
+      expect(listed).toEqual(named)
+      expect(named.factors.microbial).toBeGreaterThan(unlisted.factors.microbial)
+    })
+
+    it('rewards conductive high-area anodes', () => {
+      const felt = calculatePower({ ...conditions, anodeMaterial: 'carbon-felt' })
+      const steel = calculatePower({ ...conditions, anodeMaterial: 'stainless-steel' })
+
+      expect(felt.factors.anode).toBeGreaterThan(0)
+      expect(steel.factors.anode).toBeLessThan(-30)
+      expect(felt.predictedPower - steel.predictedPower).toBeCloseTo(felt.factors.anode - steel.factors.anode, 1)
+    })
+
+    it('rejects unknown or conflicting selections', () => {
+      expect(() => calculatePower({ ...conditions, microbes: ['e-coli'] })).toThrow('Unknown microbe: e-coli')
+      expect(() => calculatePower({ ...conditions, cathodeMaterial: 'gold' })).toThrow('Unknown cathode material: gold')
+      expect(() => calculatePower({ ...conditions, consortium: 'marine-consortium', microbes: ['geobacter-sulfurreducens'] }))
+        .toThrow(/either microbes or consortium/)
+    })
+  })
+})
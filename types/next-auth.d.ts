@@ -0,0 +1,10 @@
+import type { DefaultSession } from 'next-auth'
+
+// The session callback of the auth system exposes the database user id
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & {
+      id: string
+    }
+  }
+}
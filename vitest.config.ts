@@ -28,7 +28,8 @@ export default defineConfig({
       '@': resolve(__dirname, '.'),
       '@/components': resolve(__dirname, './components'),
       '@/lib': resolve(__dirname, './lib'),
-      '@/app': resolve(__dirname, './app')
+      '@/app': resolve(__dirname, './app'),
+      '@messai/core': resolve(__dirname, './packages/messai-core/src')
     }
   }
 })
\ No newline at end of file